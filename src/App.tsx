@@ -11,6 +11,7 @@ import { ErrorBoundary } from "@/components/ErrorBoundary";
 import Index from "./pages/Index";
 import Quotes from "./pages/Quotes";
 import SoldItems from "./pages/SoldItems";
+import CycleCountSheet from "./pages/CycleCountSheet";
 import Expenses from "./pages/Expenses";
 import CRM from "./pages/CRM";
 import Accounting from "./pages/Accounting";
@@ -30,6 +31,7 @@ import QuickBooksCallback from "./pages/QuickBooksCallback";
 import Legal from "./pages/Legal";
 import WarrantyTracking from "./pages/WarrantyTracking";
 import MeetingJoin from "./pages/MeetingJoin";
+import QuoteAcceptance from "./pages/QuoteAcceptance";
 import MapView from "./pages/MapView";
 
 const queryClient = new QueryClient({
@@ -69,6 +71,11 @@ const App = () => (
                   <SoldItems />
                 </RoleProtectedRoute>
               } />
+              <Route path="/cycle-counts/:id" element={
+                <RoleProtectedRoute allowedRoles={["owner", "employee", "developer"]} redirectTo="/spiff-program">
+                  <CycleCountSheet />
+                </RoleProtectedRoute>
+              } />
               <Route path="/expenses" element={
                 <RoleProtectedRoute allowedRoles={["owner", "employee", "developer"]} redirectTo="/spiff-program">
                   <Expenses />
@@ -139,6 +146,8 @@ const App = () => (
               <Route path="/quickbooks/callback" element={<QuickBooksCallback />} />
               {/* Public legal page - no authentication required */}
               <Route path="/legal" element={<Legal />} />
+              {/* Public quote acceptance link - the token is the only credential */}
+              <Route path="/accept/:token" element={<QuoteAcceptance />} />
               {/* Warranty Tracking - internal users */}
               <Route path="/warranty" element={
                 <RoleProtectedRoute allowedRoles={["owner", "employee", "developer"]} redirectTo="/spiff-program">
@@ -0,0 +1,202 @@
+import { useState, useEffect, useMemo, Fragment } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChevronDown, ChevronRight, Download, FileText, Clock, Mail } from "lucide-react";
+import { toast } from "sonner";
+import { inventoryStorage, type Invoice, type Person, type Company } from "@/lib/inventory-storage";
+import { createAndDownloadExcel } from "@/lib/excel-utils";
+import {
+  AGING_BUCKETS,
+  agingReportToRows,
+  buildAgingReport,
+  downloadCustomerStatement,
+  getAgingTotals,
+} from "@/lib/ar-aging";
+import { statementEmailDocument, type EmailDocument } from "@/lib/email-storage";
+import { SendEmailDialog } from "@/components/email/SendEmailDialog";
+
+interface ARAgingReportProps {
+  invoices: Invoice[];
+}
+
+export const ARAgingReport = ({ invoices }: ARAgingReportProps) => {
+  const [people, setPeople] = useState<Person[]>([]);
+  const [companies, setCompanies] = useState<Company[]>([]);
+  const [asOfDate, setAsOfDate] = useState(new Date().toISOString().split('T')[0]);
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+  const [exporting, setExporting] = useState(false);
+  const [emailDocument, setEmailDocument] = useState<EmailDocument | null>(null);
+
+  useEffect(() => {
+    Promise.all([inventoryStorage.getPeople(), inventoryStorage.getCompanies()])
+      .then(([peopleData, companiesData]) => {
+        setPeople(peopleData);
+        setCompanies(companiesData);
+      })
+      .catch(error => console.error("Error loading customers for aging:", error));
+  }, []);
+
+  const asOf = useMemo(() => new Date(asOfDate + 'T00:00:00'), [asOfDate]);
+  const report = useMemo(() => buildAgingReport(invoices, people, companies, asOf), [invoices, people, companies, asOf]);
+  const totals = getAgingTotals(report);
+
+  const handleExport = async () => {
+    if (report.length === 0) {
+      toast.error("No open balances to export");
+      return;
+    }
+    try {
+      setExporting(true);
+      await createAndDownloadExcel(
+        agingReportToRows(report),
+        "AR Aging",
+        `ar_aging_${asOfDate}.xlsx`,
+        [35, 14, 14, 14, 14, 14, 14, 14]
+      );
+      toast.success("AR aging exported");
+    } catch (error) {
+      console.error("Export error:", error);
+      toast.error("Failed to export AR aging");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleStatement = (customer: string) => {
+    const row = report.find(r => r.customer === customer);
+    if (!row) return;
+    try {
+      downloadCustomerStatement(row, asOf);
+    } catch (error) {
+      console.error("Statement error:", error);
+      toast.error("Failed to generate statement");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Clock className="h-5 w-5" />
+              Accounts Receivable Aging
+            </CardTitle>
+            <CardDescription>Open balances by customer, aged from invoice date</CardDescription>
+          </div>
+          <div className="flex items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="ar-as-of" className="text-xs">As of</Label>
+              <Input
+                id="ar-as-of"
+                type="date"
+                value={asOfDate}
+                onChange={(e) => setAsOfDate(e.target.value || new Date().toISOString().split('T')[0])}
+                className="w-40"
+              />
+            </div>
+            <Button variant="outline" onClick={handleExport} disabled={exporting}>
+              <Download className="mr-2 h-4 w-4" />
+              {exporting ? "Exporting..." : "Export Excel"}
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {report.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No open receivables</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Customer</TableHead>
+                  {AGING_BUCKETS.map(({ key, label }) => (
+                    <TableHead key={key} className="text-right">{label}</TableHead>
+                  ))}
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.map(row => (
+                  <Fragment key={row.customer}>
+                    <TableRow
+                      className="cursor-pointer"
+                      onClick={() => setExpanded(prev => ({ ...prev, [row.customer]: !prev[row.customer] }))}
+                    >
+                      <TableCell className="font-medium">
+                        <div className="flex items-center gap-1">
+                          {expanded[row.customer] ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                          {row.customer}
+                          <span className="text-xs text-muted-foreground ml-1">({row.invoices.length})</span>
+                        </div>
+                      </TableCell>
+                      {AGING_BUCKETS.map(({ key }) => (
+                        <TableCell key={key} className={`text-right ${key === 'days90plus' && row.buckets[key] > 0 ? 'text-red-600 font-medium' : ''}`}>
+                          {row.buckets[key] > 0 ? `$${row.buckets[key].toFixed(2)}` : '—'}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-right font-semibold">${row.total.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          title="Download statement"
+                          onClick={(e) => { e.stopPropagation(); handleStatement(row.customer); }}
+                        >
+                          <FileText className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          title="Email statement"
+                          onClick={(e) => { e.stopPropagation(); setEmailDocument(statementEmailDocument(row, asOf)); }}
+                        >
+                          <Mail className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                    {expanded[row.customer] && row.invoices.map(({ invoice, daysOutstanding, bucket, balance }) => (
+                      <TableRow key={invoice.id} className="bg-muted/30 text-sm">
+                        <TableCell className="pl-10">
+                          {invoice.invoiceNumber}
+                          <span className="text-xs text-muted-foreground ml-2">
+                            {new Date(invoice.createdAt).toLocaleDateString()} · {daysOutstanding}d
+                          </span>
+                        </TableCell>
+                        {AGING_BUCKETS.map(({ key }) => (
+                          <TableCell key={key} className="text-right">
+                            {key === bucket ? `$${balance.toFixed(2)}` : ''}
+                          </TableCell>
+                        ))}
+                        <TableCell className="text-right">${balance.toFixed(2)}</TableCell>
+                        <TableCell />
+                      </TableRow>
+                    ))}
+                  </Fragment>
+                ))}
+                <TableRow className="font-bold border-t-2">
+                  <TableCell>Total</TableCell>
+                  {AGING_BUCKETS.map(({ key }) => (
+                    <TableCell key={key} className="text-right">${totals[key].toFixed(2)}</TableCell>
+                  ))}
+                  <TableCell className="text-right">${totals.total.toFixed(2)}</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+      <SendEmailDialog
+        document={emailDocument}
+        open={!!emailDocument}
+        onOpenChange={(open) => { if (!open) setEmailDocument(null); }}
+      />
+    </Card>
+  );
+};
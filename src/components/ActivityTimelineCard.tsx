@@ -0,0 +1,151 @@
+import { useEffect, useRef, useState } from "react";
+import { format } from "date-fns";
+import {
+  Calendar,
+  DollarSign,
+  FileText,
+  History,
+  MessageSquare,
+  Receipt,
+  StickyNote,
+  Target,
+  Video,
+  type LucideIcon,
+} from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import type { Person } from "@/lib/inventory-storage";
+import {
+  ACTIVITY_TYPES,
+  getActivityTimeline,
+  getActivityTypeLabel,
+  type ActivityTimeline,
+  type ActivityType,
+} from "@/lib/activity-timeline";
+
+const TYPE_ICONS: Record<ActivityType, LucideIcon> = {
+  note: StickyNote,
+  conversation: MessageSquare,
+  quote: FileText,
+  invoice: Receipt,
+  expense: DollarSign,
+  opportunity: Target,
+  event: Calendar,
+  meeting: Video,
+};
+
+interface ActivityTimelineCardProps {
+  /** Set on a company to include documents filed against the company itself */
+  companyId?: string;
+  /** The contact, or every contact at the company */
+  persons: Person[];
+  open: boolean;
+}
+
+/** Everything recorded against a company or contact, newest first */
+export const ActivityTimelineCard = ({ companyId, persons, open }: ActivityTimelineCardProps) => {
+  const [timeline, setTimeline] = useState<ActivityTimeline>({ entries: [], userNames: {} });
+  const [loading, setLoading] = useState(false);
+  const [types, setTypes] = useState<string[]>([...ACTIVITY_TYPES]);
+  const [userFilter, setUserFilter] = useState("all");
+
+  // Parents pass a fresh array on every render; refetch only when the contacts or their notes change
+  const personsRef = useRef(persons);
+  personsRef.current = persons;
+  const personKey = persons.map(p => `${p.id}:${p.notes.length}`).join(",");
+
+  useEffect(() => {
+    if (!open) return;
+    setLoading(true);
+    getActivityTimeline({ companyId, persons: personsRef.current })
+      .then(setTimeline)
+      .catch(error => console.error("Error loading activity timeline:", error))
+      .finally(() => setLoading(false));
+  }, [open, companyId, personKey]);
+
+  const getPersonName = (personId?: string) => persons.find(p => p.id === personId)?.name;
+
+  const visible = timeline.entries.filter(entry =>
+    types.includes(entry.type) &&
+    (userFilter === "all" || entry.userId === userFilter)
+  );
+  const users = Object.entries(timeline.userNames).sort((a, b) => a[1].localeCompare(b[1]));
+
+  return (
+    <Card>
+      <CardHeader className="space-y-3 pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <History className="h-5 w-5" />
+            Activity
+            <Badge variant="secondary" className="ml-2">{visible.length}</Badge>
+          </CardTitle>
+          <Select value={userFilter} onValueChange={setUserFilter}>
+            <SelectTrigger className="w-40 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Everyone</SelectItem>
+              {users.map(([userId, name]) => (
+                <SelectItem key={userId} value={userId}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <ToggleGroup type="multiple" value={types} onValueChange={setTypes} className="flex-wrap justify-start">
+          {ACTIVITY_TYPES.map(type => {
+            const Icon = TYPE_ICONS[type];
+            return (
+              <ToggleGroupItem key={type} value={type} size="sm" className="h-7 px-2 text-xs gap-1">
+                <Icon className="h-3 w-3" />
+                {getActivityTypeLabel(type)}
+              </ToggleGroupItem>
+            );
+          })}
+        </ToggleGroup>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-center text-muted-foreground py-4">Loading activity...</p>
+        ) : visible.length === 0 ? (
+          <p className="text-center text-muted-foreground py-4">No activity to show.</p>
+        ) : (
+          <ol className="relative border-l ml-2 space-y-4 max-h-96 overflow-y-auto pr-2">
+            {visible.map(entry => {
+              const Icon = TYPE_ICONS[entry.type];
+              const personName = companyId ? getPersonName(entry.personId) : undefined;
+              return (
+                <li key={entry.key} className="ml-5">
+                  <span className="absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full border bg-background">
+                    <Icon className="h-3 w-3 text-muted-foreground" />
+                  </span>
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium">
+                        {entry.title}
+                        {entry.status && <Badge variant="outline" className="ml-2 text-[10px]">{entry.status}</Badge>}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {entry.occurredAt ? format(new Date(entry.occurredAt), "MMM d, yyyy h:mm a") : "Unknown date"}
+                        {personName && ` · ${personName}`}
+                        {entry.userId && timeline.userNames[entry.userId] && ` · by ${timeline.userNames[entry.userId]}`}
+                      </p>
+                      {entry.detail && (
+                        <p className="text-sm text-muted-foreground mt-1 line-clamp-2">{entry.detail}</p>
+                      )}
+                    </div>
+                    {entry.amount !== undefined && (
+                      <span className="text-sm font-semibold whitespace-nowrap">${entry.amount.toFixed(2)}</span>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
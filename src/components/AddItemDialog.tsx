@@ -8,6 +8,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Plus } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { inventoryStorage } from "@/lib/inventory-storage";
+import { getWarehouses, type Warehouse } from "@/lib/warehouse-storage";
+import { WarehouseSelect } from "@/components/inventory/WarehouseSelect";
 import { ScrollArea } from "@/components/ui/scroll-area";
 
 interface AddItemDialogProps {
@@ -24,6 +26,8 @@ export const AddItemDialog = ({ onItemAdded }: AddItemDialogProps) => {
   const [open, setOpen] = useState(false);
   const [partNumber, setPartNumber] = useState("");
   const [serialNumbers, setSerialNumbers] = useState<string[]>(['']);
+  const [trackingMode, setTrackingMode] = useState<'serialized' | 'quantity'>('serialized');
+  const [quantityOnHand, setQuantityOnHand] = useState("");
   const [description, setDescription] = useState("");
   const [salePrice, setSalePrice] = useState("");
   const [cost, setCost] = useState("");
@@ -34,6 +38,8 @@ export const AddItemDialog = ({ onItemAdded }: AddItemDialogProps) => {
   const [maxReorderLevel, setMaxReorderLevel] = useState("");
   const [shelfLocation, setShelfLocation] = useState("");
   const [shelfLocations, setShelfLocations] = useState<string[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [warehouseId, setWarehouseId] = useState<string | undefined>(undefined);
   const [showShelfSuggestions, setShowShelfSuggestions] = useState(false);
   const shelfInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
@@ -46,8 +52,13 @@ export const AddItemDialog = ({ onItemAdded }: AddItemDialogProps) => {
 
   const loadShelfLocations = async () => {
     try {
-      const locations = await inventoryStorage.getUniqueShelfLocations();
+      const [locations, warehouseList] = await Promise.all([
+        inventoryStorage.getUniqueShelfLocations(),
+        getWarehouses(),
+      ]);
       setShelfLocations(locations);
+      setWarehouses(warehouseList);
+      setWarehouseId(prev => prev ?? warehouseList.find(w => w.isDefault)?.id);
     } catch (error) {
       console.error("Error loading shelf locations:", error);
     }
@@ -171,12 +182,50 @@ export const AddItemDialog = ({ onItemAdded }: AddItemDialogProps) => {
       return;
     }
 
+    const quantityNum = quantityOnHand ? parseInt(quantityOnHand) : 0;
+    if (trackingMode === 'quantity' && (isNaN(quantityNum) || quantityNum < 0)) {
+      toast({
+        title: "Error",
+        description: "Please enter a valid quantity on hand",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const warrantyValue = warranty && warranty !== "0" ? `${warranty} months` : undefined;
+
+    if (trackingMode === 'quantity') {
+      // One stock row for the part; the opening quantity is logged as a movement
+      inventoryStorage.addItem({
+        partNumber: partNumber.trim(),
+        description: description.trim(),
+        salePrice: salePriceNum,
+        cost: costNum,
+        weight: weightNum,
+        volume: volumeNum,
+        warranty: warrantyValue,
+        minReorderLevel: minNum,
+        maxReorderLevel: maxNum,
+        status: 'available',
+        shelfLocation: shelfLocation.trim() || undefined,
+        warehouseId,
+        trackingMode: 'quantity',
+        quantityOnHand: quantityNum,
+      });
+
+      toast({
+        title: "Success",
+        description: `${partNumber.trim()} added with ${quantityNum} on hand`,
+      });
+      resetForm();
+      onItemAdded();
+      return;
+    }
+
     // Add an item for each serial number (or one item if no serial numbers)
     const serialsToAdd = nonEmptySerials.length > 0 ? nonEmptySerials : [''];
     let addedCount = 0;
 
-    const warrantyValue = warranty && warranty !== "0" ? `${warranty} months` : undefined;
-
     serialsToAdd.forEach((serial) => {
       inventoryStorage.addItem({
         partNumber: partNumber.trim(),
@@ -191,6 +240,7 @@ export const AddItemDialog = ({ onItemAdded }: AddItemDialogProps) => {
         maxReorderLevel: maxNum,
         status: 'available',
         shelfLocation: shelfLocation.trim() || undefined,
+        warehouseId,
       });
       addedCount++;
     });
@@ -200,6 +250,11 @@ export const AddItemDialog = ({ onItemAdded }: AddItemDialogProps) => {
       description: `${addedCount} item${addedCount > 1 ? 's' : ''} added to inventory`,
     });
 
+    resetForm();
+    onItemAdded();
+  };
+
+  const resetForm = () => {
     setPartNumber("");
     setSerialNumbers(['']);
     setDescription("");
@@ -211,8 +266,10 @@ export const AddItemDialog = ({ onItemAdded }: AddItemDialogProps) => {
     setMinReorderLevel("");
     setMaxReorderLevel("");
     setShelfLocation("");
+    setWarehouseId(warehouses.find(w => w.isDefault)?.id);
+    setTrackingMode('serialized');
+    setQuantityOnHand("");
     setOpen(false);
-    onItemAdded();
   };
 
   return (
@@ -241,8 +298,34 @@ export const AddItemDialog = ({ onItemAdded }: AddItemDialogProps) => {
                   placeholder="PN-12345"
                 />
               </div>
+              <div className="space-y-2">
+                <Label>Tracking</Label>
+                <Select value={trackingMode} onValueChange={(value) => setTrackingMode(value as 'serialized' | 'quantity')}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="serialized">Serialized (one row per unit)</SelectItem>
+                    <SelectItem value="quantity">By quantity (stock count)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
             </div>
 
+            {trackingMode === 'quantity' ? (
+              <div className="space-y-2">
+                <Label htmlFor="quantityOnHand">Quantity On Hand</Label>
+                <Input
+                  id="quantityOnHand"
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={quantityOnHand}
+                  onChange={(e) => setQuantityOnHand(e.target.value)}
+                  placeholder="0"
+                />
+              </div>
+            ) : (
             <div className="space-y-2">
               <div className="flex justify-between items-center">
                 <Label>Serial Numbers (Optional)</Label>
@@ -278,6 +361,7 @@ export const AddItemDialog = ({ onItemAdded }: AddItemDialogProps) => {
                 ))}
               </div>
             </div>
+            )}
 
             <div className="space-y-2">
               <Label htmlFor="description">
@@ -367,7 +451,7 @@ export const AddItemDialog = ({ onItemAdded }: AddItemDialogProps) => {
                 </Select>
               </div>
               <div className="space-y-2 relative">
-                <Label htmlFor="shelfLocation">Shelf Location</Label>
+                <Label htmlFor="shelfLocation">Bin / Shelf</Label>
                 <Input
                   ref={shelfInputRef}
                   id="shelfLocation"
@@ -398,6 +482,18 @@ export const AddItemDialog = ({ onItemAdded }: AddItemDialogProps) => {
               </div>
             </div>
 
+            {warehouses.length > 0 && (
+              <div className="space-y-2">
+                <Label>Location</Label>
+                <WarehouseSelect
+                  warehouses={warehouses}
+                  value={warehouseId}
+                  onChange={setWarehouseId}
+                  allowUnassigned
+                />
+              </div>
+            )}
+
             <div className="grid grid-cols-2 gap-4">
               <div className="space-y-2">
                 <Label htmlFor="minReorderLevel">Min Reorder Level</Label>
@@ -11,6 +11,7 @@ import {
   MenubarTrigger,
 } from "@/components/ui/menubar";
 import { GlobalSearch } from "@/components/GlobalSearch";
+import { NotificationBell } from "@/components/NotificationBell";
 
 export function AppMenuBar() {
   const { user, signOut } = useAuth();
@@ -165,6 +166,7 @@ export function AppMenuBar() {
             <div className="flex items-center gap-1 sm:gap-2">
               {/* Only show search for internal users */}
               {hasInternalAccess() && <GlobalSearch />}
+              {hasInternalAccess() && <NotificationBell />}
               <Button
                 variant="ghost"
                 size="sm"
@@ -1,11 +1,15 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
 import { Upload, Download, CheckCircle2, XCircle, AlertCircle, FileSpreadsheet, Pencil, X, Check, Trash2 } from "lucide-react";
 import { toast } from "sonner";
-import { inventoryStorage } from "@/lib/inventory-storage";
+import { inventoryStorage, getOnHandQuantity, isQuantityTracked } from "@/lib/inventory-storage";
+import { applyInventoryMovement } from "@/lib/inventory-movement-storage";
+import { getWarehouses, type Warehouse } from "@/lib/warehouse-storage";
+import { WarehouseSelect } from "@/components/inventory/WarehouseSelect";
 import { createAndDownloadExcel, readExcelFile, createTemplate } from "@/lib/excel-utils";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
@@ -42,8 +46,21 @@ export const BulkUploadDialog = ({ onItemsAdded }: BulkUploadDialogProps) => {
   const [importProgress, setImportProgress] = useState<ImportProgress | null>(null);
   const [editingIndex, setEditingIndex] = useState<number | null>(null);
   const [editForm, setEditForm] = useState<ParsedItem | null>(null);
+  const [trackByQuantity, setTrackByQuantity] = useState(true);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [warehouseId, setWarehouseId] = useState<string | undefined>(undefined);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  useEffect(() => {
+    if (!open) return;
+    getWarehouses()
+      .then(list => {
+        setWarehouses(list);
+        setWarehouseId(prev => prev ?? list.find(w => w.isDefault)?.id);
+      })
+      .catch(error => console.error("Error loading locations:", error));
+  }, [open]);
+
   const downloadTemplate = async () => {
     const template = [
       {
@@ -77,7 +94,7 @@ export const BulkUploadDialog = ({ onItemsAdded }: BulkUploadDialogProps) => {
     setIsExporting(true);
     try {
       const items = await inventoryStorage.getItems();
-      const availableItems = items.filter(item => item.status === 'available');
+      const availableItems = items.filter(item => getOnHandQuantity(item) > 0);
 
       const groupedItems = availableItems.reduce((acc, item) => {
         const key = item.partNumber;
@@ -90,7 +107,7 @@ export const BulkUploadDialog = ({ onItemsAdded }: BulkUploadDialogProps) => {
             weight: item.weight || 0,
           };
         }
-        acc[key].quantity += 1;
+        acc[key].quantity += getOnHandQuantity(item);
         return acc;
       }, {} as Record<string, { partNumber: string; description: string; quantity: number; salePrice: number; weight: number }>);
 
@@ -223,9 +240,47 @@ export const BulkUploadDialog = ({ onItemsAdded }: BulkUploadDialogProps) => {
 
     try {
       let totalItemsCreated = 0;
+
+      // Quantity mode tops up the part's existing stock row at this location rather than adding a second one
+      const stockItems = new Map<string, string>();
+      if (trackByQuantity) {
+        const existingItems = await inventoryStorage.getItems();
+        existingItems.filter(i => isQuantityTracked(i) && i.warehouseId === warehouseId).forEach(i => {
+          if (!stockItems.has(i.partNumber)) stockItems.set(i.partNumber, i.id);
+        });
+      }
       
       for (const item of validItems) {
         setImportProgress(prev => prev ? { ...prev, currentProduct: item.partNumber } : null);
+
+        if (trackByQuantity) {
+          const stockItemId = stockItems.get(item.partNumber);
+          if (stockItemId) {
+            await applyInventoryMovement({
+              itemId: stockItemId,
+              quantityChange: item.quantity,
+              reason: 'receipt',
+              referenceType: 'bulk_import',
+              unitCost: item.cost || undefined,
+            });
+          } else {
+            const created = await inventoryStorage.addItem({
+              partNumber: item.partNumber,
+              description: item.description,
+              salePrice: item.salePrice,
+              cost: item.cost,
+              weight: item.weight || undefined,
+              status: 'available',
+              warehouseId,
+              trackingMode: 'quantity',
+              quantityOnHand: item.quantity,
+            });
+            stockItems.set(item.partNumber, created.id);
+          }
+          totalItemsCreated += item.quantity;
+          setImportProgress(prev => prev ? { ...prev, current: totalItemsCreated } : null);
+          continue;
+        }
         
         for (let i = 0; i < item.quantity; i++) {
           await inventoryStorage.addItem({
@@ -235,6 +290,7 @@ export const BulkUploadDialog = ({ onItemsAdded }: BulkUploadDialogProps) => {
             cost: item.cost,
             weight: item.weight || undefined,
             status: 'available',
+            warehouseId,
           });
           totalItemsCreated++;
           setImportProgress(prev => prev ? { ...prev, current: totalItemsCreated } : null);
@@ -607,6 +663,31 @@ export const BulkUploadDialog = ({ onItemsAdded }: BulkUploadDialogProps) => {
                   </div>
                 )}
 
+                {warehouses.length > 0 && (
+                  <div className="flex items-center gap-2">
+                    <Label className="text-sm font-normal whitespace-nowrap">Import into</Label>
+                    <WarehouseSelect
+                      warehouses={warehouses}
+                      value={warehouseId}
+                      onChange={setWarehouseId}
+                      allowUnassigned
+                      className="w-64"
+                    />
+                  </div>
+                )}
+
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="bulk-track-by-quantity"
+                    checked={trackByQuantity}
+                    onCheckedChange={setTrackByQuantity}
+                    disabled={isProcessing}
+                  />
+                  <Label htmlFor="bulk-track-by-quantity" className="text-sm font-normal">
+                    Track by quantity (one stock row per part number instead of one row per unit)
+                  </Label>
+                </div>
+
                 <div className="flex justify-end gap-2 pt-2 border-t">
                   <Button
                     type="button"
@@ -12,10 +12,14 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Building2, User, Mail, Phone, Briefcase, MapPin, Edit, X, Check, Plus, GitBranch, Trash2, MessageSquare, Clock, Play } from "lucide-react";
 import { Company, Person, Branch, inventoryStorage } from "@/lib/inventory-storage";
 import { supabase } from "@/integrations/supabase/client";
+import { getValidExemption } from "@/lib/sales-tax";
+import { ServiceRequestsCard } from "@/components/ServiceRequestsCard";
+import { ActivityTimelineCard } from "@/components/ActivityTimelineCard";
 
 interface Conversation {
   id: string;
@@ -201,6 +205,35 @@ export const CompanyDetailDialog = ({ company, persons, onPersonClick, onUpdate,
                       rows={2}
                     />
                   </div>
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="edit-company-tax-exempt"
+                      checked={!!editedCompany.taxExempt}
+                      onCheckedChange={(checked) => setEditedCompany({ ...editedCompany, taxExempt: checked === true })}
+                    />
+                    <Label htmlFor="edit-company-tax-exempt">Tax exempt</Label>
+                  </div>
+                  {editedCompany.taxExempt && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="edit-company-tax-cert">Exemption Certificate #</Label>
+                        <Input
+                          id="edit-company-tax-cert"
+                          value={editedCompany.taxExemptCertificate || ""}
+                          onChange={(e) => setEditedCompany({ ...editedCompany, taxExemptCertificate: e.target.value })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="edit-company-tax-expires">Certificate Expires</Label>
+                        <Input
+                          id="edit-company-tax-expires"
+                          type="date"
+                          value={editedCompany.taxExemptExpiresAt || ""}
+                          onChange={(e) => setEditedCompany({ ...editedCompany, taxExemptExpiresAt: e.target.value || undefined })}
+                        />
+                      </div>
+                    </div>
+                  )}
                 </div>
               ) : (
                 <div className="space-y-2">
@@ -222,6 +255,20 @@ export const CompanyDetailDialog = ({ company, persons, onPersonClick, onUpdate,
                     <span className="text-muted-foreground">Branches</span>
                     <span>{branches.length}</span>
                   </div>
+                  {company.taxExempt && (
+                    <div className="flex justify-between items-center text-sm">
+                      <span className="text-muted-foreground">Sales Tax</span>
+                      <span className="flex items-center gap-2">
+                        Exempt{company.taxExemptCertificate && ` (#${company.taxExemptCertificate})`}
+                        {company.taxExemptCertificate && company.taxExemptExpiresAt && (
+                          getValidExemption(company)
+                            ? <span className="text-muted-foreground">until {company.taxExemptExpiresAt}</span>
+                            : <Badge variant="destructive">Expired {company.taxExemptExpiresAt}</Badge>
+                        )}
+                        {!company.taxExemptCertificate && <Badge variant="destructive">No certificate</Badge>}
+                      </span>
+                    </div>
+                  )}
                 </div>
               )}
             </CardContent>
@@ -448,6 +495,10 @@ export const CompanyDetailDialog = ({ company, persons, onPersonClick, onUpdate,
               )}
             </CardContent>
           </Card>
+
+          <ServiceRequestsCard companyId={company.id} open={open} />
+
+          <ActivityTimelineCard companyId={company.id} persons={persons} open={open} />
         </div>
       </DialogContent>
     </Dialog>
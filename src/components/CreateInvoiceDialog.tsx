@@ -1,10 +1,12 @@
 import { useState, useEffect } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { FileText } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { inventoryStorage, InventoryItem, Company, Person } from "@/lib/inventory-storage";
 import { supabase } from "@/integrations/supabase/client";
+import { DocumentNumberReservation, getMyReservedNumbers, peekDocumentNumber } from "@/lib/document-numbering";
 import { ItemSelector } from "@/components/invoice/ItemSelector";
 import { InvoicePreviewEditor, InvoiceLineItem } from "@/components/invoice/InvoicePreviewEditor";
 
@@ -29,7 +31,10 @@ export const CreateInvoiceDialog = ({ onInvoiceCreated }: CreateInvoiceDialogPro
   const [customerEmail, setCustomerEmail] = useState("");
   const [customerPhone, setCustomerPhone] = useState("");
   const [shipToAddress, setShipToAddress] = useState("");
+  // Blank takes the next number in sequence when saved; otherwise one of the user's reserved numbers
   const [invoiceNumber, setInvoiceNumber] = useState("");
+  const [nextNumber, setNextNumber] = useState("");
+  const [reservedNumbers, setReservedNumbers] = useState<DocumentNumberReservation[]>([]);
   
   const { toast } = useToast();
 
@@ -42,7 +47,7 @@ export const CreateInvoiceDialog = ({ onInvoiceCreated }: CreateInvoiceDialogPro
           inventoryStorage.getPersons()
         ]);
         
-        const available = items.filter(item => item.status === 'available');
+        const available = items.filter(item => item.status === 'available' && !item.reservedSalesOrderId);
         setAvailableItems(available);
         setCompanies(companiesData);
         setPersons(personsData);
@@ -61,8 +66,12 @@ export const CreateInvoiceDialog = ({ onInvoiceCreated }: CreateInvoiceDialogPro
           }
         }
         
-        // Generate invoice number
-        setInvoiceNumber(`INV-${Date.now()}`);
+        const [next, reserved] = await Promise.all([
+          peekDocumentNumber('invoice'),
+          getMyReservedNumbers('invoice'),
+        ]);
+        setNextNumber(next);
+        setReservedNumbers(reserved);
       };
       
       loadData();
@@ -74,6 +83,7 @@ export const CreateInvoiceDialog = ({ onInvoiceCreated }: CreateInvoiceDialogPro
       setCustomerEmail("");
       setCustomerPhone("");
       setShipToAddress("");
+      setInvoiceNumber("");
       setIsSubmitting(false);
     }
   }, [open]);
@@ -131,7 +141,7 @@ export const CreateInvoiceDialog = ({ onInvoiceCreated }: CreateInvoiceDialogPro
       const status = data.isDraft ? 'draft' : 'finalized';
 
       const invoice = await inventoryStorage.createInvoice({
-        invoiceNumber,
+        invoiceNumber: invoiceNumber || undefined,
         items: invoiceItems,
         customerName: customerName || undefined,
         customerEmail: customerEmail || undefined,
@@ -146,13 +156,7 @@ export const CreateInvoiceDialog = ({ onInvoiceCreated }: CreateInvoiceDialogPro
 
       // Only mark items as sold if finalizing (not draft)
       if (!data.isDraft) {
-        for (const item of data.lineItems) {
-          await inventoryStorage.updateItem(item.itemId, {
-            status: 'sold',
-            soldDate: new Date().toISOString(),
-            invoiceId: invoice.id,
-          });
-        }
+        await inventoryStorage.markItemsSold(data.lineItems.map(item => item.itemId), invoice.id);
       }
 
       toast({
@@ -189,6 +193,19 @@ export const CreateInvoiceDialog = ({ onInvoiceCreated }: CreateInvoiceDialogPro
           <DialogTitle>
             {step === 'select' ? 'Create New Invoice' : 'Review Invoice'}
           </DialogTitle>
+          {step === 'preview' && reservedNumbers.length > 0 && (
+            <Select value={invoiceNumber || 'next'} onValueChange={value => setInvoiceNumber(value === 'next' ? '' : value)}>
+              <SelectTrigger className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="next">Next in sequence ({nextNumber})</SelectItem>
+                {reservedNumbers.map(r => (
+                  <SelectItem key={r.id} value={r.documentNumber}>Reserved: {r.documentNumber}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
         </DialogHeader>
         
         <div className="flex-1 overflow-y-auto">
@@ -213,7 +230,7 @@ export const CreateInvoiceDialog = ({ onInvoiceCreated }: CreateInvoiceDialogPro
               customerPhone={customerPhone}
               salesmanName={salesmanName}
               shipToAddress={shipToAddress}
-              invoiceNumber={invoiceNumber}
+              invoiceNumber={invoiceNumber || nextNumber}
               onBack={() => setStep('select')}
               onCreateInvoice={handleCreateInvoice}
               isSubmitting={isSubmitting}
@@ -1,10 +1,12 @@
 import { useState, useEffect } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { FileText } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { inventoryStorage, InventoryItem, Company, Person } from "@/lib/inventory-storage";
 import { supabase } from "@/integrations/supabase/client";
+import { DocumentNumberReservation, getMyReservedNumbers, peekDocumentNumber } from "@/lib/document-numbering";
 import { ItemSelector } from "@/components/invoice/ItemSelector";
 import { QuotePreviewEditor, QuoteLineItem } from "@/components/quote/QuotePreviewEditor";
 
@@ -29,7 +31,10 @@ export const CreateQuoteDialog = ({ onQuoteCreated }: CreateQuoteDialogProps) =>
   const [customerEmail, setCustomerEmail] = useState("");
   const [customerPhone, setCustomerPhone] = useState("");
   const [shipToAddress, setShipToAddress] = useState("");
+  // Blank takes the next number in sequence when saved; otherwise one of the user's reserved numbers
   const [quoteNumber, setQuoteNumber] = useState("");
+  const [nextNumber, setNextNumber] = useState("");
+  const [reservedNumbers, setReservedNumbers] = useState<DocumentNumberReservation[]>([]);
   
   const { toast } = useToast();
 
@@ -61,8 +66,12 @@ export const CreateQuoteDialog = ({ onQuoteCreated }: CreateQuoteDialogProps) =>
           }
         }
         
-        // Generate quote number
-        setQuoteNumber(`QTE-${Date.now()}`);
+        const [next, reserved] = await Promise.all([
+          peekDocumentNumber('quote'),
+          getMyReservedNumbers('quote'),
+        ]);
+        setNextNumber(next);
+        setReservedNumbers(reserved);
       };
       
       loadData();
@@ -74,6 +83,7 @@ export const CreateQuoteDialog = ({ onQuoteCreated }: CreateQuoteDialogProps) =>
       setCustomerEmail("");
       setCustomerPhone("");
       setShipToAddress("");
+      setQuoteNumber("");
       setIsSubmitting(false);
     }
   }, [open]);
@@ -128,7 +138,7 @@ export const CreateQuoteDialog = ({ onQuoteCreated }: CreateQuoteDialogProps) =>
       const total = subtotal - discountAmount + data.shippingCost;
 
       const quote = await inventoryStorage.createQuote({
-        quoteNumber,
+        quoteNumber: quoteNumber || undefined,
         items: quoteItems,
         customerName: customerName || undefined,
         customerEmail: customerEmail || undefined,
@@ -174,6 +184,19 @@ export const CreateQuoteDialog = ({ onQuoteCreated }: CreateQuoteDialogProps) =>
           <DialogTitle>
             {step === 'select' ? 'Create New Quote' : 'Review Quote'}
           </DialogTitle>
+          {step === 'preview' && reservedNumbers.length > 0 && (
+            <Select value={quoteNumber || 'next'} onValueChange={value => setQuoteNumber(value === 'next' ? '' : value)}>
+              <SelectTrigger className="w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="next">Next in sequence ({nextNumber})</SelectItem>
+                {reservedNumbers.map(r => (
+                  <SelectItem key={r.id} value={r.documentNumber}>Reserved: {r.documentNumber}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
         </DialogHeader>
         
         <div className="flex-1 overflow-y-auto">
@@ -198,7 +221,7 @@ export const CreateQuoteDialog = ({ onQuoteCreated }: CreateQuoteDialogProps) =>
               customerPhone={customerPhone}
               salesmanName={salesmanName}
               shipToAddress={shipToAddress}
-              quoteNumber={quoteNumber}
+              quoteNumber={quoteNumber || nextNumber}
               onBack={() => setStep('select')}
               onCreateQuote={handleCreateQuote}
               isSubmitting={isSubmitting}
@@ -0,0 +1,592 @@
+import { useState, useEffect, useMemo } from "react";
+import { Link } from "react-router-dom";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ClipboardCheck, ClipboardList, CheckCircle2, RotateCcw, XCircle, Trash2, FileDiff } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { inventoryStorage, getOnHandQuantity, type InventoryItem } from "@/lib/inventory-storage";
+import { getWarehouseName, getWarehouses, type Warehouse } from "@/lib/warehouse-storage";
+import {
+  ADJUSTMENT_REASONS,
+  approveStockAdjustment,
+  createAdjustmentFromCount,
+  createCycleCount,
+  deleteCycleCount,
+  deleteStockAdjustment,
+  describeCountScope,
+  getAdjustmentReasonLabel,
+  getAdjustmentValue,
+  getCountVariances,
+  getCycleCounts,
+  getCycleCountStatusLabel,
+  getStockAdjustments,
+  itemMatchesCountScope,
+  setCycleCountStatus,
+  type AdjustmentReason,
+  type CycleCount,
+  type CycleCountStatus,
+  type StockAdjustment,
+} from "@/lib/cycle-count-storage";
+import { useUserRole } from "@/hooks/useUserRole";
+import { logAuditEvent, AuditEvents } from "@/hooks/useAuditLog";
+
+interface CycleCountsDialogProps {
+  onChanged: () => void;
+}
+
+const statusVariant: Record<CycleCountStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  counting: "default",
+  review: "outline",
+  posted: "secondary",
+  cancelled: "destructive",
+};
+
+const emptyScope = {
+  warehouseId: undefined as string | undefined,
+  shelfPrefix: "",
+  partFrom: "",
+  partTo: "",
+  notes: "",
+};
+
+export const CycleCountsDialog = ({ onChanged }: CycleCountsDialogProps) => {
+  const { isOwner, hasRole } = useUserRole();
+  const [open, setOpen] = useState(false);
+  const [tab, setTab] = useState("counts");
+  const [counts, setCounts] = useState<CycleCount[]>([]);
+  const [adjustments, setAdjustments] = useState<StockAdjustment[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const [scope, setScope] = useState(emptyScope);
+  const [saving, setSaving] = useState(false);
+
+  // Variance review of one submitted count; reasons map count line id -> reason
+  const [reviewId, setReviewId] = useState<string | null>(null);
+  const [reasons, setReasons] = useState<Record<string, AdjustmentReason>>({});
+
+  const canApprove = isOwner() || hasRole("developer");
+
+  const loadData = async () => {
+    try {
+      const [countList, adjustmentList, warehouseList, itemList] = await Promise.all([
+        getCycleCounts(),
+        getStockAdjustments(),
+        getWarehouses(),
+        inventoryStorage.getItems(),
+      ]);
+      setCounts(countList);
+      setAdjustments(adjustmentList);
+      setWarehouses(warehouseList);
+      setItems(itemList);
+    } catch (error) {
+      console.error("Error loading cycle counts:", error);
+    }
+  };
+
+  useEffect(() => {
+    if (open) loadData();
+  }, [open]);
+
+  const scopeItems = useMemo(
+    () => items.filter(item => itemMatchesCountScope(item, {
+      warehouseId: scope.warehouseId,
+      shelfPrefix: scope.shelfPrefix.trim(),
+      partFrom: scope.partFrom.trim(),
+      partTo: scope.partTo.trim(),
+    })),
+    [items, scope]
+  );
+
+  const reviewCount = counts.find(c => c.id === reviewId) || null;
+  const variances = useMemo(() => (reviewCount ? getCountVariances(reviewCount) : []), [reviewCount]);
+
+  const pendingAdjustment = adjustments.find(a => a.cycleCountId === reviewId && a.status === 'draft');
+
+  const countNumberById = useMemo(() => new Map(counts.map(c => [c.id, c.countNumber])), [counts]);
+
+  const handleStart = async () => {
+    if (scopeItems.length === 0 && !confirm("No stock matches this scope. Start an empty count for found stock only?")) {
+      return;
+    }
+    try {
+      setSaving(true);
+      const count = await createCycleCount({
+        warehouseId: scope.warehouseId,
+        shelfPrefix: scope.shelfPrefix.trim() || undefined,
+        partFrom: scope.partFrom.trim() || undefined,
+        partTo: scope.partTo.trim() || undefined,
+        notes: scope.notes.trim() || undefined,
+      }, items);
+      logAuditEvent(AuditEvents.RECORD_CREATED('cycle_count', count.id, count.countNumber));
+      toast.success(`${count.countNumber} started with ${count.lines.length} lines`);
+      setScope(emptyScope);
+      setTab("counts");
+      loadData();
+    } catch (error) {
+      console.error("Error starting cycle count:", error);
+      toast.error("Failed to start cycle count");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const runCountAction = async (count: CycleCount, action: () => Promise<void>, success: string, status?: CycleCountStatus) => {
+    try {
+      setBusyId(count.id);
+      await action();
+      if (status) {
+        logAuditEvent(AuditEvents.RECORD_UPDATED('cycle_count', count.id, count.countNumber, { status }));
+      }
+      toast.success(success);
+      loadData();
+    } catch (error) {
+      console.error("Error updating cycle count:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update cycle count");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDeleteCount = async (count: CycleCount) => {
+    if (!confirm(`Delete ${count.countNumber} and its counted lines?`)) return;
+    try {
+      await deleteCycleCount(count.id);
+      logAuditEvent(AuditEvents.RECORD_DELETED('cycle_count', count.id, count.countNumber));
+      if (reviewId === count.id) setReviewId(null);
+      setCounts(prev => prev.filter(c => c.id !== count.id));
+    } catch (error) {
+      console.error("Error deleting cycle count:", error);
+      toast.error("Failed to delete cycle count");
+    }
+  };
+
+  const openReview = (count: CycleCount) => {
+    setReviewId(count.id);
+    setReasons({});
+  };
+
+  const handleCreateAdjustment = async () => {
+    if (!reviewCount) return;
+    try {
+      setSaving(true);
+      const adjustment = await createAdjustmentFromCount(reviewCount, reasons);
+      logAuditEvent(AuditEvents.RECORD_CREATED('stock_adjustment', adjustment.id, adjustment.adjustmentNumber));
+      toast.success(`${adjustment.adjustmentNumber} drafted. An owner must approve it to post.`);
+      setReviewId(null);
+      setTab("adjustments");
+      loadData();
+    } catch (error) {
+      console.error("Error creating adjustment:", error);
+      toast.error("Failed to create adjustment");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleApprove = async (adjustment: StockAdjustment) => {
+    const value = getAdjustmentValue(adjustment);
+    if (!confirm(`Approve ${adjustment.adjustmentNumber}? Stock and the inventory account change by $${value.toFixed(2)}.`)) {
+      return;
+    }
+    try {
+      setBusyId(adjustment.id);
+      await approveStockAdjustment(adjustment.id);
+      logAuditEvent(AuditEvents.RECORD_UPDATED('stock_adjustment', adjustment.id, adjustment.adjustmentNumber, {
+        status: 'approved',
+        value: Number(value.toFixed(2)),
+        variances: adjustment.lines.map(line => ({
+          partNumber: line.partNumber,
+          serialNumber: line.serialNumber,
+          quantityChange: line.quantityChange,
+          unitCost: line.unitCost,
+          reason: line.reason,
+        })),
+      }));
+      toast.success(`${adjustment.adjustmentNumber} approved and posted`);
+      loadData();
+      onChanged();
+    } catch (error) {
+      console.error("Error approving adjustment:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to approve adjustment");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDeleteAdjustment = async (adjustment: StockAdjustment) => {
+    if (!confirm(`Delete draft ${adjustment.adjustmentNumber}?`)) return;
+    try {
+      await deleteStockAdjustment(adjustment.id);
+      logAuditEvent(AuditEvents.RECORD_DELETED('stock_adjustment', adjustment.id, adjustment.adjustmentNumber));
+      setAdjustments(prev => prev.filter(a => a.id !== adjustment.id));
+    } catch (error) {
+      console.error("Error deleting adjustment:", error);
+      toast.error("Failed to delete adjustment");
+    }
+  };
+
+  const scopeUnits = scopeItems.reduce((sum, item) => sum + getOnHandQuantity(item), 0);
+  const varianceTotal = variances.reduce((sum, v) => sum + v.value, 0);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <ClipboardCheck className="mr-2 h-4 w-4" />
+          Cycle Counts
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-5xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Cycle Counts & Adjustments</DialogTitle>
+          <DialogDescription>
+            Count a location, bin or part range on any phone (counts are kept on the device until synced), review
+            variances, then approve an adjustment to correct stock and the inventory account.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={tab} onValueChange={setTab}>
+          <TabsList>
+            <TabsTrigger value="counts">Counts</TabsTrigger>
+            <TabsTrigger value="new">New Count</TabsTrigger>
+            <TabsTrigger value="adjustments">Adjustments</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="counts" className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Count</TableHead>
+                  <TableHead>Location</TableHead>
+                  <TableHead>Scope</TableHead>
+                  <TableHead>Progress</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {counts.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground">No cycle counts yet</TableCell>
+                  </TableRow>
+                ) : (
+                  counts.map(count => {
+                    const counted = count.lines.filter(l => l.countedQuantity !== undefined).length;
+                    return (
+                      <TableRow key={count.id} className={reviewId === count.id ? "bg-muted/50" : ""}>
+                        <TableCell>
+                          <div className="font-medium">{count.countNumber}</div>
+                          <div className="text-xs text-muted-foreground">{format(new Date(count.createdAt), "MMM d, yyyy")}</div>
+                        </TableCell>
+                        <TableCell>{count.warehouseId ? getWarehouseName(warehouses, count.warehouseId) : "All"}</TableCell>
+                        <TableCell className="text-xs">{describeCountScope(count)}</TableCell>
+                        <TableCell>{counted} / {count.lines.length}</TableCell>
+                        <TableCell>
+                          <Badge variant={statusVariant[count.status]}>{getCycleCountStatusLabel(count.status)}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex justify-end gap-1">
+                            {count.status === 'counting' && (
+                              <>
+                                <Link to={`/cycle-counts/${count.id}`}>
+                                  <Button size="sm" variant="outline">
+                                    <ClipboardList className="mr-1 h-3 w-3" />
+                                    Count
+                                  </Button>
+                                </Link>
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  disabled={busyId === count.id}
+                                  onClick={() => runCountAction(count, () => setCycleCountStatus(count.id, 'review'), "Submitted for review", 'review')}
+                                >
+                                  Submit
+                                </Button>
+                              </>
+                            )}
+                            {count.status === 'review' && (
+                              <>
+                                <Button size="sm" variant="outline" onClick={() => openReview(count)}>
+                                  <FileDiff className="mr-1 h-3 w-3" />
+                                  Review
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  disabled={busyId === count.id}
+                                  onClick={() => runCountAction(count, () => setCycleCountStatus(count.id, 'counting'), "Reopened for counting", 'counting')}
+                                >
+                                  <RotateCcw className="mr-1 h-3 w-3" />
+                                  Recount
+                                </Button>
+                              </>
+                            )}
+                            {(count.status === 'counting' || count.status === 'review') && (
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                className="h-8 w-8"
+                                title="Cancel count"
+                                disabled={busyId === count.id}
+                                onClick={() => runCountAction(count, () => setCycleCountStatus(count.id, 'cancelled'), "Count cancelled", 'cancelled')}
+                              >
+                                <XCircle className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {count.status !== 'posted' && isOwner() && (
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                className="h-8 w-8 text-destructive"
+                                onClick={() => handleDeleteCount(count)}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+
+            {reviewCount && (
+              <div className="border-t pt-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <h4 className="text-sm font-semibold">Variances for {reviewCount.countNumber}</h4>
+                  <Button variant="ghost" size="sm" onClick={() => setReviewId(null)}>Close</Button>
+                </div>
+                {variances.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    Everything counted matches the expected stock. Cancel the count to close it out.
+                  </p>
+                ) : (
+                  <>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Part</TableHead>
+                          <TableHead>Bin</TableHead>
+                          <TableHead className="text-right">Expected</TableHead>
+                          <TableHead className="text-right">Counted</TableHead>
+                          <TableHead className="text-right">Variance</TableHead>
+                          <TableHead className="text-right">Value</TableHead>
+                          <TableHead>Reason</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {variances.map(({ line, counted, variance, value }) => (
+                          <TableRow key={line.id}>
+                            <TableCell>
+                              <div className="font-medium">{line.partNumber}</div>
+                              {line.serialNumber && <div className="text-xs text-muted-foreground">SN: {line.serialNumber}</div>}
+                            </TableCell>
+                            <TableCell>{line.shelfLocation || "-"}</TableCell>
+                            <TableCell className="text-right">{line.expectedQuantity}</TableCell>
+                            <TableCell className="text-right">
+                              {line.countedQuantity === undefined ? (
+                                <Badge variant="outline">Not counted</Badge>
+                              ) : counted}
+                            </TableCell>
+                            <TableCell className={`text-right font-medium ${variance < 0 ? "text-destructive" : "text-green-600"}`}>
+                              {variance > 0 ? `+${variance}` : variance}
+                            </TableCell>
+                            <TableCell className="text-right">${value.toFixed(2)}</TableCell>
+                            <TableCell>
+                              <Select
+                                value={reasons[line.id] || (line.itemId ? 'count_variance' : 'found')}
+                                onValueChange={(v) => setReasons(prev => ({ ...prev, [line.id]: v as AdjustmentReason }))}
+                              >
+                                <SelectTrigger className="h-8 w-36">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {ADJUSTMENT_REASONS.map(reason => (
+                                    <SelectItem key={reason} value={reason}>{getAdjustmentReasonLabel(reason)}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                      <TableFooter>
+                        <TableRow>
+                          <TableCell colSpan={5}>Net variance</TableCell>
+                          <TableCell className="text-right">${varianceTotal.toFixed(2)}</TableCell>
+                          <TableCell></TableCell>
+                        </TableRow>
+                      </TableFooter>
+                    </Table>
+                    <div className="flex items-center justify-end gap-3">
+                      {pendingAdjustment && (
+                        <span className="text-sm text-muted-foreground">
+                          {pendingAdjustment.adjustmentNumber} is awaiting approval
+                        </span>
+                      )}
+                      <Button onClick={handleCreateAdjustment} disabled={saving || !!pendingAdjustment}>
+                        Create Adjustment
+                      </Button>
+                    </div>
+                  </>
+                )}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="new" className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Location</Label>
+                <Select
+                  value={scope.warehouseId || "all"}
+                  onValueChange={(v) => setScope({ ...scope, warehouseId: v === "all" ? undefined : v })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All locations</SelectItem>
+                    {warehouses.filter(w => w.isActive).map(w => (
+                      <SelectItem key={w.id} value={w.id}>{w.name} ({w.code})</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="count-bin">Bin starts with</Label>
+                <Input
+                  id="count-bin"
+                  value={scope.shelfPrefix}
+                  onChange={(e) => setScope({ ...scope, shelfPrefix: e.target.value })}
+                  placeholder="e.g. A-03"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="count-part-from">Part number from</Label>
+                <Input
+                  id="count-part-from"
+                  value={scope.partFrom}
+                  onChange={(e) => setScope({ ...scope, partFrom: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="count-part-to">Part number to</Label>
+                <Input
+                  id="count-part-to"
+                  value={scope.partTo}
+                  onChange={(e) => setScope({ ...scope, partTo: e.target.value })}
+                />
+              </div>
+              <div className="col-span-2 space-y-2">
+                <Label htmlFor="count-notes">Notes</Label>
+                <Textarea
+                  id="count-notes"
+                  rows={2}
+                  value={scope.notes}
+                  onChange={(e) => setScope({ ...scope, notes: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-muted-foreground">
+                {scopeItems.length} lines · {scopeUnits} units expected
+              </p>
+              <Button onClick={handleStart} disabled={saving}>
+                <ClipboardCheck className="mr-2 h-4 w-4" />
+                Start Count
+              </Button>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="adjustments">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Adjustment</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Lines</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {adjustments.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground">No adjustments yet</TableCell>
+                  </TableRow>
+                ) : (
+                  adjustments.map(adjustment => (
+                    <TableRow key={adjustment.id}>
+                      <TableCell>
+                        <div className="font-medium">{adjustment.adjustmentNumber}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {format(new Date(adjustment.approvedAt || adjustment.createdAt), "MMM d, yyyy")}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {adjustment.cycleCountId ? countNumberById.get(adjustment.cycleCountId) || "Cycle count" : adjustment.notes}
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {adjustment.lines.map(line => (
+                          <div key={line.id}>
+                            {line.quantityChange > 0 ? `+${line.quantityChange}` : line.quantityChange} {line.partNumber}
+                            {line.serialNumber ? ` (${line.serialNumber})` : ""} · {getAdjustmentReasonLabel(line.reason)}
+                          </div>
+                        ))}
+                      </TableCell>
+                      <TableCell className="text-right">${getAdjustmentValue(adjustment).toFixed(2)}</TableCell>
+                      <TableCell>
+                        <Badge variant={adjustment.status === 'approved' ? "secondary" : "outline"}>
+                          {adjustment.status === 'approved' ? "Approved" : "Draft"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        {adjustment.status === 'draft' && (
+                          <div className="flex justify-end gap-1">
+                            <Button
+                              size="sm"
+                              disabled={!canApprove || busyId === adjustment.id}
+                              title={canApprove ? undefined : "Only owners can approve adjustments"}
+                              onClick={() => handleApprove(adjustment)}
+                            >
+                              <CheckCircle2 className="mr-1 h-3 w-3" />
+                              Approve
+                            </Button>
+                            {isOwner() && (
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                className="h-8 w-8 text-destructive"
+                                onClick={() => handleDeleteAdjustment(adjustment)}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
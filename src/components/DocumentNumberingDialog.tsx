@@ -0,0 +1,268 @@
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Hash } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { logAuditEvent, AuditEvents } from "@/hooks/useAuditLog";
+import { useUserRole } from "@/hooks/useUserRole";
+import {
+  DOCUMENT_TYPES,
+  DocumentNumberReservation,
+  DocumentSequence,
+  DocumentType,
+  formatDocumentNumber,
+  getDocumentSequences,
+  getDocumentTypeLabel,
+  getMyReservedNumbers,
+  hasYearToken,
+  releaseReservedNumber,
+  reserveDocumentNumbers,
+  saveDocumentSequence,
+} from "@/lib/document-numbering";
+
+/**
+ * Owners set the pattern and next number for each document type; anyone can
+ * reserve numbers ahead of time for documents drafted offline.
+ */
+export const DocumentNumberingDialog = () => {
+  const { hasOwnerAccess } = useUserRole();
+  const canEdit = hasOwnerAccess();
+  const [open, setOpen] = useState(false);
+  const [sequences, setSequences] = useState<DocumentSequence[]>([]);
+  const [editedNextValues, setEditedNextValues] = useState<Set<DocumentType>>(new Set());
+  const [savingType, setSavingType] = useState<DocumentType | null>(null);
+  const [reservations, setReservations] = useState<DocumentNumberReservation[]>([]);
+  const [reserveType, setReserveType] = useState<DocumentType>('invoice');
+  const [reserveCount, setReserveCount] = useState("5");
+  const [reserving, setReserving] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const [seqs, reserved] = await Promise.all([getDocumentSequences(), getMyReservedNumbers()]);
+      setSequences(seqs);
+      setEditedNextValues(new Set());
+      setReservations(reserved);
+    } catch (error) {
+      console.error("Error loading document numbering:", error);
+      toast.error("Failed to load document numbering");
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) load();
+  }, [open, load]);
+
+  const updateSequence = (type: DocumentType, changes: Partial<DocumentSequence>) => {
+    setSequences(prev => prev.map(s => (s.documentType === type ? { ...s, ...changes } : s)));
+  };
+
+  const handleSave = async (sequence: DocumentSequence) => {
+    try {
+      setSavingType(sequence.documentType);
+      await saveDocumentSequence(sequence, editedNextValues.has(sequence.documentType));
+      logAuditEvent(AuditEvents.RECORD_UPDATED("document_sequence", sequence.documentType, getDocumentTypeLabel(sequence.documentType), {
+        pattern: sequence.pattern,
+        nextValue: sequence.nextValue,
+        resetYearly: sequence.resetYearly,
+      }));
+      toast.success(`${getDocumentTypeLabel(sequence.documentType)} numbering saved`);
+      await load();
+    } catch (error) {
+      console.error("Error saving document sequence:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save numbering");
+    } finally {
+      setSavingType(null);
+    }
+  };
+
+  const handleReserve = async () => {
+    const count = Number(reserveCount);
+    if (!Number.isInteger(count) || count < 1 || count > 50) {
+      toast.error("Reserve between 1 and 50 numbers at a time");
+      return;
+    }
+    try {
+      setReserving(true);
+      const numbers = await reserveDocumentNumbers(reserveType, count);
+      logAuditEvent(AuditEvents.RECORD_CREATED("document_number_reservation", reserveType, numbers.join(", ")));
+      toast.success(numbers.length === 1 ? `Reserved ${numbers[0]}` : `Reserved ${numbers[0]} – ${numbers[numbers.length - 1]}`);
+      await load();
+    } catch (error) {
+      console.error("Error reserving numbers:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to reserve numbers");
+    } finally {
+      setReserving(false);
+    }
+  };
+
+  const handleRelease = async (reservation: DocumentNumberReservation) => {
+    try {
+      await releaseReservedNumber(reservation.id);
+      logAuditEvent(AuditEvents.RECORD_DELETED("document_number_reservation", reservation.id, reservation.documentNumber));
+      toast.success(`${reservation.documentNumber} released`);
+      await load();
+    } catch (error) {
+      console.error("Error releasing number:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to release number");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Hash className="mr-2 h-4 w-4" />
+          Document Numbering
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Document Numbering</DialogTitle>
+          <DialogDescription>
+            Numbers are assigned when a document is saved. Patterns use {"{YYYY}"}, {"{YY}"}, {"{MM}"} and a run of zeros such as {"{0000}"} for the counter.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="sequences">
+          <TabsList>
+            <TabsTrigger value="sequences">Sequences</TabsTrigger>
+            <TabsTrigger value="reserved">Reserved Numbers ({reservations.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="sequences">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Document</TableHead>
+                  <TableHead>Pattern</TableHead>
+                  <TableHead className="w-28">Next</TableHead>
+                  <TableHead>Yearly reset</TableHead>
+                  <TableHead>Next number</TableHead>
+                  {canEdit && <TableHead />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sequences.map(sequence => (
+                  <TableRow key={sequence.documentType}>
+                    <TableCell className="font-medium">{getDocumentTypeLabel(sequence.documentType)}</TableCell>
+                    <TableCell>
+                      <Input
+                        value={sequence.pattern}
+                        disabled={!canEdit}
+                        onChange={(e) => updateSequence(sequence.documentType, { pattern: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="1"
+                        value={sequence.nextValue}
+                        disabled={!canEdit}
+                        onChange={(e) => {
+                          updateSequence(sequence.documentType, { nextValue: Number(e.target.value) });
+                          setEditedNextValues(prev => new Set(prev).add(sequence.documentType));
+                        }}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={sequence.resetYearly}
+                        disabled={!canEdit || !hasYearToken(sequence.pattern)}
+                        onCheckedChange={(checked) => updateSequence(sequence.documentType, { resetYearly: checked })}
+                      />
+                    </TableCell>
+                    <TableCell className="font-mono text-sm">
+                      {formatDocumentNumber(sequence.pattern, sequence.nextValue || 1)}
+                    </TableCell>
+                    {canEdit && (
+                      <TableCell>
+                        <Button
+                          size="sm"
+                          disabled={savingType === sequence.documentType}
+                          onClick={() => handleSave(sequence)}
+                        >
+                          Save
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {!canEdit && (
+              <p className="text-xs text-muted-foreground mt-2">Only owners can change numbering.</p>
+            )}
+          </TabsContent>
+
+          <TabsContent value="reserved" className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Reserve numbers before going offline and write them on drafts. Choose the reserved number when entering the
+              document; numbers you release go to the next document of that type.
+            </p>
+            <div className="flex items-end gap-2">
+              <div className="space-y-2">
+                <Label>Document</Label>
+                <Select value={reserveType} onValueChange={(value) => setReserveType(value as DocumentType)}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DOCUMENT_TYPES.map(type => (
+                      <SelectItem key={type} value={type}>{getDocumentTypeLabel(type)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="reserve-count">How many</Label>
+                <Input
+                  id="reserve-count"
+                  type="number"
+                  min="1"
+                  max="50"
+                  className="w-24"
+                  value={reserveCount}
+                  onChange={(e) => setReserveCount(e.target.value)}
+                />
+              </div>
+              <Button onClick={handleReserve} disabled={reserving}>Reserve</Button>
+            </div>
+
+            {reservations.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">You have no unused reserved numbers</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Number</TableHead>
+                    <TableHead>Document</TableHead>
+                    <TableHead>Reserved</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {reservations.map(reservation => (
+                    <TableRow key={reservation.id}>
+                      <TableCell className="font-mono">{reservation.documentNumber}</TableCell>
+                      <TableCell>{getDocumentTypeLabel(reservation.documentType)}</TableCell>
+                      <TableCell>{new Date(reservation.reservedAt).toLocaleDateString()}</TableCell>
+                      <TableCell className="text-right">
+                        <Button size="sm" variant="outline" onClick={() => handleRelease(reservation)}>Release</Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -7,6 +7,7 @@ import { FileEdit, Trash2, CheckCircle, Edit2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { inventoryStorage, Invoice, InventoryItem } from "@/lib/inventory-storage";
 import { EditDraftInvoiceDialog } from "@/components/EditDraftInvoiceDialog";
+import { getPricingApprovalState, isAwaitingPricingApproval } from "@/lib/pricing-guardrails";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -63,14 +64,8 @@ export const DraftInvoicesDialog = ({ onInvoiceUpdated }: DraftInvoicesDialogPro
       // Update invoice status to finalized
       await inventoryStorage.finalizeInvoice(draft.id);
       
-      // Mark items as sold
-      for (const item of draft.items) {
-        await inventoryStorage.updateItem(item.itemId, {
-          status: 'sold',
-          soldDate: new Date().toISOString(),
-          invoiceId: draft.id,
-        });
-      }
+      // Mark items as sold; recurring service lines aren't inventory
+      await inventoryStorage.markItemsSold(draft.items.map(item => item.itemId), draft.id);
 
       toast({
         title: "Success",
@@ -158,7 +153,9 @@ export const DraftInvoicesDialog = ({ onInvoiceUpdated }: DraftInvoicesDialogPro
               </div>
             ) : (
               <div className="space-y-4 pr-4">
-                {drafts.map((draft) => (
+                {drafts.map((draft) => {
+                  const pricingState = getPricingApprovalState(draft.pricingApprovalStatus);
+                  return (
                   <div
                     key={draft.id}
                     className="border rounded-lg p-4 bg-card hover:bg-accent/5 transition-colors"
@@ -170,6 +167,7 @@ export const DraftInvoicesDialog = ({ onInvoiceUpdated }: DraftInvoicesDialogPro
                           <Badge variant="outline" className="text-amber-600 border-amber-600">
                             Draft
                           </Badge>
+                          {pricingState && <Badge variant={pricingState.variant}>{pricingState.label}</Badge>}
                         </div>
                         <div className="text-sm text-muted-foreground">
                           Created: {new Date(draft.createdAt).toLocaleDateString()}
@@ -221,7 +219,7 @@ export const DraftInvoicesDialog = ({ onInvoiceUpdated }: DraftInvoicesDialogPro
                       <Button
                         size="sm"
                         onClick={() => handleFinalize(draft)}
-                        disabled={finalizing === draft.id}
+                        disabled={finalizing === draft.id || isAwaitingPricingApproval(draft.pricingApprovalStatus)}
                       >
                         <CheckCircle className="h-4 w-4 mr-1" />
                         {finalizing === draft.id ? "Finalizing..." : "Finalize"}
@@ -239,7 +237,7 @@ export const DraftInvoicesDialog = ({ onInvoiceUpdated }: DraftInvoicesDialogPro
                       </Button>
                     </div>
                   </div>
-                ))}
+                );})}
               </div>
             )}
           </ScrollArea>
@@ -136,13 +136,7 @@ export const EditDraftInvoiceDialog = ({
 
       // If finalizing, mark items as sold
       if (finalize) {
-        for (const item of lineItems) {
-          await inventoryStorage.updateItem(item.itemId, {
-            status: 'sold',
-            soldDate: new Date().toISOString(),
-            invoiceId: invoice.id,
-          });
-        }
+        await inventoryStorage.markItemsSold(lineItems.map(item => item.itemId), invoice.id);
       }
 
       toast({
@@ -1,21 +1,33 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { DollarSign } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { inventoryStorage, InventoryItem, Invoice } from "@/lib/inventory-storage";
 import { supabase } from "@/integrations/supabase/client";
 import { InvoiceQuoteEditor, EditorSaveData } from "@/components/invoice-quote/InvoiceQuoteEditor";
 import { useUserRole } from "@/hooks/useUserRole";
+import { InvoicePaymentsDialog, PaymentStatusBadge } from "@/components/InvoicePaymentsDialog";
+import {
+  computePaymentStatus,
+  getInvoicePayments,
+  getPaymentMethodLabel,
+  type InvoicePayment,
+} from "@/lib/invoice-payment-storage";
 
 interface EditInvoiceDialogProps {
   invoice: Invoice | null;
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onSaved: () => void;
+  onPaymentsChanged?: () => void;
 }
 
-export const EditInvoiceDialog = ({ invoice, open, onOpenChange, onSaved }: EditInvoiceDialogProps) => {
+export const EditInvoiceDialog = ({ invoice, open, onOpenChange, onSaved, onPaymentsChanged }: EditInvoiceDialogProps) => {
   const [availableItems, setAvailableItems] = useState<InventoryItem[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [payments, setPayments] = useState<InvoicePayment[]>([]);
+  const [paymentsOpen, setPaymentsOpen] = useState(false);
   const { toast } = useToast();
   const { hasOwnerAccess } = useUserRole();
 
@@ -27,10 +39,31 @@ export const EditInvoiceDialog = ({ invoice, open, onOpenChange, onSaved }: Edit
     }
   }, [open]);
 
+  const loadPayments = useCallback(async () => {
+    if (!invoice || invoice.status === "draft") {
+      setPayments([]);
+      return;
+    }
+    try {
+      setPayments(await getInvoicePayments(invoice.id));
+    } catch (error) {
+      console.error("Error loading payments:", error);
+    }
+  }, [invoice]);
+
+  useEffect(() => {
+    if (open) {
+      loadPayments();
+    }
+  }, [open, loadPayments]);
+
   if (!invoice) return null;
 
   const isFinalized = invoice.status === "finalized" || !invoice.status;
   const wasDraft = invoice.status === "draft";
+  const amountPaid = payments.reduce((sum, p) => sum + p.amount, 0);
+  const amountCredited = invoice.amountCredited || 0;
+  const balanceDue = invoice.total - amountPaid - amountCredited;
 
   const handleSave = async (data: EditorSaveData) => {
     setIsSubmitting(true);
@@ -39,8 +72,9 @@ export const EditInvoiceDialog = ({ invoice, open, onOpenChange, onSaved }: Edit
       const newStatus: "draft" | "finalized" = data.isDraft ? "draft" : "finalized";
 
       // Diff items if editing finalized invoice (for inventory sync + audit)
-      const previousItemIds = new Set(invoice.items.map((i) => i.itemId));
-      const newItemIds = new Set(data.lineItems.map((i) => i.itemId));
+      // Lines without an inventory item (e.g. recurring service charges) have nothing to sync
+      const previousItemIds = new Set(invoice.items.map((i) => i.itemId).filter(Boolean));
+      const newItemIds = new Set(data.lineItems.map((i) => i.itemId).filter(Boolean));
       const removedItemIds = [...previousItemIds].filter((id) => !newItemIds.has(id));
       const addedItemIds = [...newItemIds].filter((id) => !previousItemIds.has(id));
 
@@ -55,7 +89,10 @@ export const EditInvoiceDialog = ({ invoice, open, onOpenChange, onSaved }: Edit
         discount: data.discount,
         shippingCost: data.shippingCost,
         tax: data.tax,
+        taxDetails: data.taxDetails,
+        taxExemptCertificate: data.taxExemptCertificate ?? null,
         notes: data.notes,
+        confirmedCompanyId: data.confirmedCompanyId,
         total: data.total,
         status: newStatus,
         lastEditedAt: new Date().toISOString(),
@@ -64,31 +101,14 @@ export const EditInvoiceDialog = ({ invoice, open, onOpenChange, onSaved }: Edit
 
       // Inventory sync when finalizing
       if (newStatus === "finalized") {
-        for (const removedId of removedItemIds) {
-          await inventoryStorage.updateItem(removedId, {
-            status: "available",
-            soldDate: undefined,
-            invoiceId: undefined,
-          });
-        }
-        for (const addedId of addedItemIds) {
-          await inventoryStorage.updateItem(addedId, {
-            status: "sold",
-            soldDate: new Date().toISOString(),
-            invoiceId: invoice.id,
-          });
-        }
+        await inventoryStorage.markItemsAvailable(removedItemIds);
+        await inventoryStorage.markItemsSold(addedItemIds, invoice.id);
         // Mark items new to a draft-being-finalized
         if (wasDraft) {
-          for (const item of data.lineItems) {
-            if (!removedItemIds.includes(item.itemId)) {
-              await inventoryStorage.updateItem(item.itemId, {
-                status: "sold",
-                soldDate: new Date().toISOString(),
-                invoiceId: invoice.id,
-              });
-            }
-          }
+          await inventoryStorage.markItemsSold(
+            data.lineItems.map((item) => item.itemId).filter((id) => !removedItemIds.includes(id)),
+            invoice.id
+          );
         }
       }
 
@@ -157,7 +177,10 @@ export const EditInvoiceDialog = ({ invoice, open, onOpenChange, onSaved }: Edit
       discount: data.discount,
       shippingCost: data.shippingCost,
       tax: data.tax,
+      taxDetails: data.taxDetails,
+      taxExemptCertificate: data.taxExemptCertificate ?? null,
       notes: data.notes,
+      confirmedCompanyId: data.confirmedCompanyId,
       total: data.total,
       status: "draft",
     });
@@ -173,6 +196,43 @@ export const EditInvoiceDialog = ({ invoice, open, onOpenChange, onSaved }: Edit
           </DialogTitle>
         </DialogHeader>
         <div className="flex-1 overflow-y-auto">
+          {!wasDraft && (
+            <div className="mb-4 rounded-lg border p-3 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="font-medium">Payments</span>
+                  <PaymentStatusBadge status={computePaymentStatus(amountPaid + amountCredited, invoice.total)} />
+                  <span className="text-muted-foreground">
+                    ${amountPaid.toFixed(2)} paid
+                    {amountCredited > 0 && ` + $${amountCredited.toFixed(2)} credited`}
+                    {" · "}
+                    <span className={balanceDue > 0.005 ? "text-orange-600" : ""}>${balanceDue.toFixed(2)} due</span>
+                  </span>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => setPaymentsOpen(true)}>
+                  <DollarSign className="mr-2 h-4 w-4" />
+                  Record Payment
+                </Button>
+              </div>
+              {payments.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No payments recorded yet</p>
+              ) : (
+                <div className="space-y-1">
+                  {payments.map(payment => (
+                    <div key={payment.id} className="flex justify-between gap-2 text-sm">
+                      <span>
+                        {new Date(payment.paymentDate + 'T00:00:00').toLocaleDateString()} · {getPaymentMethodLabel(payment.method)}
+                        {payment.referenceNumber && (
+                          <span className="text-muted-foreground"> #{payment.referenceNumber}</span>
+                        )}
+                      </span>
+                      <span className="font-medium">${payment.amount.toFixed(2)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
           {!canEdit ? (
             <p className="text-center text-muted-foreground py-12">
               Only owners and developers can edit finalized invoices.
@@ -192,7 +252,14 @@ export const EditInvoiceDialog = ({ invoice, open, onOpenChange, onSaved }: Edit
                 discount: invoice.discount,
                 shippingCost: invoice.shippingCost,
                 tax: invoice.tax,
+                taxDetails: invoice.taxDetails,
+                taxExemptCertificate: invoice.taxExemptCertificate,
                 notes: invoice.notes,
+                confirmedCompanyId: invoice.confirmedCompanyId,
+                pricingApprovalStatus: invoice.pricingApprovalStatus,
+                pricingViolations: invoice.pricingViolations,
+                pricingApprovalNote: invoice.pricingApprovalNote,
+                isDraft: wasDraft,
               }}
               availableInventory={availableItems}
               onBack={() => onOpenChange(false)}
@@ -210,6 +277,15 @@ export const EditInvoiceDialog = ({ invoice, open, onOpenChange, onSaved }: Edit
           )}
         </div>
       </DialogContent>
+      <InvoicePaymentsDialog
+        invoice={invoice}
+        open={paymentsOpen}
+        onOpenChange={setPaymentsOpen}
+        onPaymentsChanged={() => {
+          loadPayments();
+          onPaymentsChanged?.();
+        }}
+      />
     </Dialog>
   );
 };
@@ -1,8 +1,13 @@
 import { useState, useEffect } from "react";
+import { History, Pencil } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { inventoryStorage, InventoryItem, Quote } from "@/lib/inventory-storage";
 import { InvoiceQuoteEditor, EditorSaveData } from "@/components/invoice-quote/InvoiceQuoteEditor";
+import { QuoteRevisionHistory } from "@/components/quote/QuoteRevisionHistory";
+import { getRevisionLetter } from "@/lib/quote-revisions";
 
 interface EditQuoteDialogProps {
   quote: Quote | null;
@@ -14,10 +19,12 @@ interface EditQuoteDialogProps {
 export const EditQuoteDialog = ({ quote, open, onOpenChange, onSaved }: EditQuoteDialogProps) => {
   const [availableItems, setAvailableItems] = useState<InventoryItem[]>([]);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const { toast } = useToast();
 
   useEffect(() => {
     if (open) {
+      setShowHistory(false);
       inventoryStorage.getItems().then((items) => {
         setAvailableItems(items.filter((i) => i.status === "available"));
       });
@@ -26,6 +33,8 @@ export const EditQuoteDialog = ({ quote, open, onOpenChange, onSaved }: EditQuot
 
   if (!quote) return null;
 
+  const revisionLetter = quote.revision ? getRevisionLetter(quote.revision) : undefined;
+
   const handleSave = async (data: EditorSaveData) => {
     setIsSubmitting(true);
     try {
@@ -40,7 +49,10 @@ export const EditQuoteDialog = ({ quote, open, onOpenChange, onSaved }: EditQuot
         discount: data.discount,
         shippingCost: data.shippingCost,
         tax: data.tax,
+        taxDetails: data.taxDetails,
+        taxExemptCertificate: data.taxExemptCertificate ?? null,
         notes: data.notes,
+        confirmedCompanyId: data.confirmedCompanyId,
         total: data.total,
         status: data.isDraft ? "draft" : "pending",
       });
@@ -76,7 +88,10 @@ export const EditQuoteDialog = ({ quote, open, onOpenChange, onSaved }: EditQuot
       discount: data.discount,
       shippingCost: data.shippingCost,
       tax: data.tax,
+      taxDetails: data.taxDetails,
+      taxExemptCertificate: data.taxExemptCertificate ?? null,
       notes: data.notes,
+      confirmedCompanyId: data.confirmedCompanyId,
       total: data.total,
       // Auto-save keeps as draft to avoid changing approval state
       status: 'draft',
@@ -87,34 +102,57 @@ export const EditQuoteDialog = ({ quote, open, onOpenChange, onSaved }: EditQuot
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-5xl max-h-[90vh] overflow-hidden flex flex-col">
         <DialogHeader>
-          <DialogTitle>Edit Quote {quote.quoteNumber}</DialogTitle>
+          <div className="flex items-center justify-between gap-2 pr-6">
+            <DialogTitle className="flex items-center gap-2">
+              Edit Quote {quote.quoteNumber}
+              {revisionLetter && <Badge variant="outline">Rev {revisionLetter}</Badge>}
+            </DialogTitle>
+            {!!quote.revision && (
+              <Button variant="outline" size="sm" onClick={() => setShowHistory((v) => !v)}>
+                {showHistory ? <Pencil className="h-4 w-4 mr-2" /> : <History className="h-4 w-4 mr-2" />}
+                {showHistory ? "Back to Editor" : "Revision History"}
+              </Button>
+            )}
+          </div>
         </DialogHeader>
         <div className="flex-1 overflow-y-auto">
-          <InvoiceQuoteEditor
-            documentType="quote"
-            mode="edit"
-            documentNumber={quote.quoteNumber}
-            initialData={{
-              customerName: quote.customerName,
-              customerEmail: quote.customerEmail,
-              customerPhone: quote.customerPhone,
-              shipToAddress: quote.shipToAddress,
-              salesmanName: quote.salesmanName,
-              items: quote.items,
-              discount: quote.discount,
-              shippingCost: quote.shippingCost,
-              tax: quote.tax,
-              notes: quote.notes,
-            }}
-            availableInventory={availableItems}
-            onBack={() => onOpenChange(false)}
-            onSave={handleSave}
-            isSubmitting={isSubmitting}
-            showDraftButton={quote.status === "draft" || quote.status === "pending"}
-            draftActionLabel="Save as Draft"
-            primaryActionLabel="Save Changes"
-            onAutoSaveDraft={quote.status === "draft" ? handleAutoSave : undefined}
-          />
+          {showHistory && <QuoteRevisionHistory quoteId={quote.id} />}
+          {/* Hidden rather than unmounted so unsaved edits survive a look at the history */}
+          <div className={showHistory ? "hidden" : undefined}>
+            <InvoiceQuoteEditor
+              documentType="quote"
+              mode="edit"
+              documentNumber={quote.quoteNumber}
+              revisionLabel={revisionLetter}
+              initialData={{
+                customerName: quote.customerName,
+                customerEmail: quote.customerEmail,
+                customerPhone: quote.customerPhone,
+                shipToAddress: quote.shipToAddress,
+                salesmanName: quote.salesmanName,
+                items: quote.items,
+                discount: quote.discount,
+                shippingCost: quote.shippingCost,
+                tax: quote.tax,
+                taxDetails: quote.taxDetails,
+                taxExemptCertificate: quote.taxExemptCertificate,
+                notes: quote.notes,
+                confirmedCompanyId: quote.confirmedCompanyId,
+                pricingApprovalStatus: quote.pricingApprovalStatus,
+                pricingViolations: quote.pricingViolations,
+                pricingApprovalNote: quote.pricingApprovalNote,
+                isDraft: quote.status === "draft",
+              }}
+              availableInventory={availableItems}
+              onBack={() => onOpenChange(false)}
+              onSave={handleSave}
+              isSubmitting={isSubmitting}
+              showDraftButton={quote.status === "draft" || quote.status === "pending"}
+              draftActionLabel="Save as Draft"
+              primaryActionLabel="Save Changes"
+              onAutoSaveDraft={quote.status === "draft" ? handleAutoSave : undefined}
+            />
+          </div>
         </div>
       </DialogContent>
     </Dialog>
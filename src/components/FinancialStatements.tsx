@@ -0,0 +1,319 @@
+import { useState, useEffect, useMemo } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Download, FileText, Scale } from "lucide-react";
+import { toast } from "sonner";
+import { format, startOfMonth, endOfMonth, subMonths, startOfQuarter, startOfYear, parseISO } from "date-fns";
+import { getAccounts, getAccountTransactions, type Account, type AccountTransaction } from "@/lib/accounting-storage";
+import { createAndDownloadExcel } from "@/lib/excel-utils";
+import {
+  balanceSheetRows,
+  buildBalanceSheet,
+  buildIncomeStatement,
+  buildTrialBalance,
+  downloadStatementPDF,
+  getPriorRange,
+  incomeStatementRows,
+  naturalBalance,
+  statementRowsToExcel,
+  trialBalanceRows,
+  type DateRange,
+  type StatementRow,
+} from "@/lib/financial-statements";
+
+type StatementType = 'trial-balance' | 'income-statement' | 'balance-sheet';
+
+const STATEMENT_TITLES: Record<StatementType, string> = {
+  'trial-balance': 'Trial Balance',
+  'income-statement': 'Income Statement',
+  'balance-sheet': 'Balance Sheet',
+};
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const PRESETS: Record<string, () => DateRange> = {
+  'this-month': () => ({ start: toDateString(startOfMonth(new Date())), end: toDateString(endOfMonth(new Date())) }),
+  'last-month': () => {
+    const last = subMonths(new Date(), 1);
+    return { start: toDateString(startOfMonth(last)), end: toDateString(endOfMonth(last)) };
+  },
+  'this-quarter': () => ({ start: toDateString(startOfQuarter(new Date())), end: toDateString(new Date()) }),
+  'year-to-date': () => ({ start: toDateString(startOfYear(new Date())), end: toDateString(new Date()) }),
+};
+
+const money = (n?: number) => (n === undefined ? '' : `${n < 0 ? '-' : ''}$${Math.abs(n).toFixed(2)}`);
+
+export const FinancialStatements = () => {
+  const [statement, setStatement] = useState<StatementType>('income-statement');
+  const [range, setRange] = useState<DateRange>(PRESETS['this-month']());
+  const [compare, setCompare] = useState(true);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [transactions, setTransactions] = useState<AccountTransaction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [drillAccount, setDrillAccount] = useState<Account | null>(null);
+
+  const priorRange = useMemo(() => getPriorRange(range), [range]);
+
+  useEffect(() => {
+    setLoading(true);
+    // Balance sheet and trial balance are cumulative, so load everything up to the end date
+    Promise.all([getAccounts(), getAccountTransactions(undefined, range.end)])
+      .then(([accountsData, transactionsData]) => {
+        setAccounts(accountsData);
+        setTransactions(transactionsData);
+      })
+      .catch(error => console.error("Error loading ledger:", error))
+      .finally(() => setLoading(false));
+  }, [range.end]);
+
+  const rows: StatementRow[] = useMemo(() => {
+    switch (statement) {
+      case 'trial-balance':
+        return trialBalanceRows(buildTrialBalance(accounts, transactions, range.end));
+      case 'balance-sheet':
+        return balanceSheetRows(buildBalanceSheet(accounts, transactions, range.end, compare ? priorRange.end : undefined));
+      default:
+        return incomeStatementRows(buildIncomeStatement(accounts, transactions, range, compare ? priorRange : undefined));
+    }
+  }, [statement, accounts, transactions, range, priorRange, compare]);
+
+  const isTrialBalance = statement === 'trial-balance';
+  const showCompare = compare && !isTrialBalance;
+  const subtitle = statement === 'income-statement'
+    ? `${format(parseISO(range.start), 'MMM d, yyyy')} - ${format(parseISO(range.end), 'MMM d, yyyy')}`
+    : `As of ${format(parseISO(range.end), 'MMM d, yyyy')}`;
+
+  // Income statement drills into the period; cumulative statements into everything to date
+  const drillTransactions = useMemo(() => {
+    if (!drillAccount) return [];
+    return transactions
+      .filter(t => t.account_id === drillAccount.id)
+      .filter(t => statement !== 'income-statement' || (t.transaction_date >= range.start && t.transaction_date <= range.end))
+      .sort((a, b) => a.transaction_date.localeCompare(b.transaction_date) || a.created_at.localeCompare(b.created_at));
+  }, [drillAccount, transactions, statement, range]);
+
+  const handleExportExcel = async () => {
+    try {
+      await createAndDownloadExcel(
+        statementRowsToExcel(rows, showCompare, isTrialBalance),
+        STATEMENT_TITLES[statement],
+        `${statement}_${range.end}.xlsx`,
+        isTrialBalance ? [45, 15, 15] : showCompare ? [45, 15, 15, 15] : [45, 15]
+      );
+    } catch (error) {
+      console.error("Export error:", error);
+      toast.error("Failed to export statement");
+    }
+  };
+
+  const handleExportPDF = () => {
+    try {
+      downloadStatementPDF(STATEMENT_TITLES[statement], subtitle, rows, { compare: showCompare, trialBalance: isTrialBalance });
+    } catch (error) {
+      console.error("PDF error:", error);
+      toast.error("Failed to generate PDF");
+    }
+  };
+
+  const trialBalanceOut = isTrialBalance && rows.length > 0 &&
+    Math.abs((rows[rows.length - 1].debit || 0) - (rows[rows.length - 1].credit || 0)) > 0.005;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Scale className="h-5 w-5" />
+              Financial Statements
+            </CardTitle>
+            <CardDescription>Built from the general ledger. Click an account to see its transactions.</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={handleExportExcel} disabled={loading || rows.length === 0}>
+              <Download className="mr-2 h-4 w-4" />
+              Excel
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleExportPDF} disabled={loading || rows.length === 0}>
+              <FileText className="mr-2 h-4 w-4" />
+              PDF
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Tabs value={statement} onValueChange={(value) => setStatement(value as StatementType)}>
+          <TabsList>
+            <TabsTrigger value="income-statement">Income Statement</TabsTrigger>
+            <TabsTrigger value="balance-sheet">Balance Sheet</TabsTrigger>
+            <TabsTrigger value="trial-balance">Trial Balance</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs">Period</Label>
+            <Select onValueChange={(preset) => setRange(PRESETS[preset]())}>
+              <SelectTrigger className="w-[160px]">
+                <SelectValue placeholder="Custom" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="this-month">This Month</SelectItem>
+                <SelectItem value="last-month">Last Month</SelectItem>
+                <SelectItem value="this-quarter">This Quarter</SelectItem>
+                <SelectItem value="year-to-date">Year to Date</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="statement-start" className="text-xs">From</Label>
+            <Input
+              id="statement-start"
+              type="date"
+              className="w-40"
+              value={range.start}
+              disabled={statement !== 'income-statement'}
+              onChange={(e) => e.target.value && setRange(prev => ({ ...prev, start: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="statement-end" className="text-xs">{statement === 'income-statement' ? 'To' : 'As of'}</Label>
+            <Input
+              id="statement-end"
+              type="date"
+              className="w-40"
+              value={range.end}
+              onChange={(e) => e.target.value && setRange(prev => ({ ...prev, end: e.target.value }))}
+            />
+          </div>
+          {!isTrialBalance && (
+            <div className="flex items-center gap-2 pb-2">
+              <Checkbox id="statement-compare" checked={compare} onCheckedChange={(checked) => setCompare(checked === true)} />
+              <Label htmlFor="statement-compare" className="text-sm font-normal">
+                Compare to prior period ({statement === 'income-statement'
+                  ? `${format(parseISO(priorRange.start), 'MMM d')} - ${format(parseISO(priorRange.end), 'MMM d, yyyy')}`
+                  : format(parseISO(priorRange.end), 'MMM d, yyyy')})
+              </Label>
+            </div>
+          )}
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center p-8">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No posted transactions for this period</p>
+        ) : (
+          <>
+            {trialBalanceOut && (
+              <p className="text-sm text-destructive">Debits and credits do not balance. Check for manual entries.</p>
+            )}
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Account</TableHead>
+                  {isTrialBalance ? (
+                    <>
+                      <TableHead className="text-right">Debit</TableHead>
+                      <TableHead className="text-right">Credit</TableHead>
+                    </>
+                  ) : (
+                    <>
+                      <TableHead className="text-right">{showCompare ? 'Current' : 'Amount'}</TableHead>
+                      {showCompare && <TableHead className="text-right">Prior</TableHead>}
+                      {showCompare && <TableHead className="text-right">Change</TableHead>}
+                    </>
+                  )}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row, index) => {
+                  const account = row.accountId ? accounts.find(a => a.id === row.accountId) : undefined;
+                  const change = row.amount !== undefined && row.priorAmount !== undefined ? row.amount - row.priorAmount : undefined;
+                  return (
+                    <TableRow
+                      key={`${row.label}-${index}`}
+                      className={`${row.bold ? 'font-semibold' : ''} ${account ? 'cursor-pointer' : ''}`}
+                      onClick={() => account && setDrillAccount(account)}
+                    >
+                      <TableCell className={row.indent ? 'pl-8' : ''}>{row.label}</TableCell>
+                      {isTrialBalance ? (
+                        <>
+                          <TableCell className="text-right">{row.debit ? money(row.debit) : ''}</TableCell>
+                          <TableCell className="text-right">{row.credit ? money(row.credit) : ''}</TableCell>
+                        </>
+                      ) : (
+                        <>
+                          <TableCell className="text-right">{money(row.amount)}</TableCell>
+                          {showCompare && <TableCell className="text-right text-muted-foreground">{money(row.priorAmount)}</TableCell>}
+                          {showCompare && (
+                            <TableCell className={`text-right ${change !== undefined && change < 0 ? 'text-red-600' : ''}`}>
+                              {money(change)}
+                            </TableCell>
+                          )}
+                        </>
+                      )}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={!!drillAccount} onOpenChange={(open) => !open && setDrillAccount(null)}>
+        <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {drillAccount?.account_number} {drillAccount?.account_name}
+            </DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">{subtitle}</p>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead className="text-right">Debit</TableHead>
+                <TableHead className="text-right">Credit</TableHead>
+                <TableHead className="text-right">Balance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {drillAccount && drillTransactions.reduce<{ balance: number; rows: JSX.Element[] }>((acc, t) => {
+                const amount = Number(t.amount);
+                acc.balance += amount;
+                acc.rows.push(
+                  <TableRow key={t.id} className="text-sm">
+                    <TableCell>{format(parseISO(t.transaction_date), 'MM/dd/yyyy')}</TableCell>
+                    <TableCell>{t.description}</TableCell>
+                    <TableCell className="capitalize text-muted-foreground">{t.reference_type?.replace(/_/g, ' ')}</TableCell>
+                    <TableCell className="text-right">{amount > 0 ? money(amount) : ''}</TableCell>
+                    <TableCell className="text-right">{amount < 0 ? money(-amount) : ''}</TableCell>
+                    <TableCell className="text-right">{money(naturalBalance(drillAccount, acc.balance))}</TableCell>
+                  </TableRow>
+                );
+                return acc;
+              }, { balance: 0, rows: [] }).rows}
+              {drillTransactions.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground">No transactions</TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -3,10 +3,13 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, Dialog
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
-import { Upload, Download, CheckCircle2, XCircle, AlertCircle, Loader2, Building2, Users, Mail, Phone, MapPin, Briefcase, Pencil, RefreshCw } from "lucide-react";
+import { Upload, Download, CheckCircle2, XCircle, AlertCircle, Loader2, Building2, Users, Mail, Phone, MapPin, Briefcase, Pencil, RefreshCw, ImageIcon } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { inventoryStorage, Company } from "@/lib/inventory-storage";
+import { inventoryStorage, Company, type ContactMethod } from "@/lib/inventory-storage";
 import { createTemplate, readExcelFile } from "@/lib/excel-utils";
+import { applyColumnMapping, parseCsv, parseVCards, type ColumnMapping, type CsvTable } from "@/lib/contact-formats";
+import { importContactsFromData, type ContactData } from "@/utils/importContacts";
+import { ContactColumnMapping } from "@/components/crm/ContactColumnMapping";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -24,6 +27,9 @@ interface ParsedContact {
   jobTitle?: string;
   notes?: string;
   excavatorLines?: string[];
+  phoneNumbers?: ContactMethod[];
+  emailAddresses?: ContactMethod[];
+  photo?: ContactData["photo"];
   valid: boolean;
   errors: string[];
   warnings: string[];
@@ -42,6 +48,7 @@ export const ImportContactsDialog = ({ onContactsImported }: ImportContactsDialo
   const [editingIndex, setEditingIndex] = useState<number | null>(null);
   const [editForm, setEditForm] = useState<Partial<ParsedContact>>({});
   const [existingPersons, setExistingPersons] = useState<{ id: string; name: string; email?: string; jobTitle?: string }[]>([]);
+  const [csvFile, setCsvFile] = useState<{ name: string; table: CsvTable } | null>(null);
   const { toast } = useToast();
 
   const downloadTemplate = async () => {
@@ -306,6 +313,9 @@ export const ImportContactsDialog = ({ onContactsImported }: ImportContactsDialo
       jobTitle,
       notes,
       excavatorLines,
+      phoneNumbers: item._phoneNumbers as ContactMethod[] | undefined,
+      emailAddresses: item._emailAddresses as ContactMethod[] | undefined,
+      photo: item._photo as ContactData["photo"],
       valid: errors.length === 0,
       errors,
       warnings,
@@ -314,6 +324,70 @@ export const ImportContactsDialog = ({ onContactsImported }: ImportContactsDialo
     };
   };
 
+  // vCard and mapped CSV contacts as rows in the shape validateContact reads;
+  // their extra numbers, addresses and photo ride along untouched
+  const contactDataToRow = (contact: ContactData): Record<string, unknown> => ({
+    Name: contact.name,
+    Email: contact.email,
+    Phone: contact.phone,
+    Address: contact.address,
+    Company: contact.companyName,
+    JobTitle: contact.jobTitle,
+    Notes: contact.notes,
+    "Excavator Lines": contact.excavatorLines?.join(", "),
+    _processedEmail: contact.email,
+    _phoneNumbers: contact.phoneNumbers,
+    _emailAddresses: contact.emailAddresses,
+    _photo: contact.photo,
+  });
+
+  const loadContacts = async (jsonData: Record<string, unknown>[]) => {
+    // Get existing data for validation
+    const [existingPersonsData, companies] = await Promise.all([
+      inventoryStorage.getPersons(),
+      inventoryStorage.getCompanies()
+    ]);
+
+    setExistingCompanies(companies);
+    setExistingPersons(existingPersonsData.map(p => ({ id: p.id, name: p.name, email: p.email, jobTitle: p.jobTitle })));
+    const existingForCheck = existingPersonsData.map(p => ({ name: p.name, email: p.email }));
+
+    // Validate sequentially to check for duplicates within the import batch
+    const validated: ParsedContact[] = [];
+    for (const item of jsonData) {
+      const alreadyParsed = validated.map(c => ({ name: c.name, email: c.email }));
+      const contact = await validateContact(item, existingForCheck, companies, alreadyParsed);
+      validated.push(contact);
+    }
+
+    setParsedContacts(validated);
+    setPreviewTab("all");
+
+    toast({
+      title: "File Loaded",
+      description: `${validated.length} contacts found. Review the preview below.`,
+    });
+  };
+
+  const handleMappingConfirmed = async (mapping: ColumnMapping) => {
+    if (!csvFile) return;
+    setIsProcessing(true);
+    try {
+      const contacts = applyColumnMapping(csvFile.table, mapping);
+      await loadContacts(contacts.map(contactDataToRow));
+      setCsvFile(null);
+    } catch (error) {
+      console.error("Error mapping CSV:", error);
+      toast({
+        title: "Error",
+        description: "Failed to read contacts from the CSV file.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -321,6 +395,37 @@ export const ImportContactsDialog = ({ onContactsImported }: ImportContactsDialo
     setIsProcessing(true);
 
     try {
+      const extension = file.name.split(".").pop()?.toLowerCase();
+
+      if (extension === "vcf") {
+        const contacts = parseVCards(await file.text());
+        if (contacts.length === 0) {
+          toast({
+            title: "Error",
+            description: "No contacts found in the vCard file",
+            variant: "destructive",
+          });
+          return;
+        }
+        await loadContacts(contacts.map(contactDataToRow));
+        return;
+      }
+
+      if (extension === "csv") {
+        const table = parseCsv(await file.text());
+        if (table.rows.length === 0) {
+          toast({
+            title: "Error",
+            description: "The CSV file is empty",
+            variant: "destructive",
+          });
+          return;
+        }
+        // Rows are read once the columns are mapped
+        setCsvFile({ name: file.name, table });
+        return;
+      }
+
       const rawData = await readExcelFile(file);
 
       if (rawData.length === 0) {
@@ -334,38 +439,12 @@ export const ImportContactsDialog = ({ onContactsImported }: ImportContactsDialo
       }
 
       // Pre-process to expand multiple emails into separate rows
-      const jsonData = preprocessRows(rawData);
-
-      // Get existing data for validation
-      const [existingPersonsData, companies] = await Promise.all([
-        inventoryStorage.getPersons(),
-        inventoryStorage.getCompanies()
-      ]);
-      
-      setExistingCompanies(companies);
-      setExistingPersons(existingPersonsData.map(p => ({ id: p.id, name: p.name, email: p.email, jobTitle: p.jobTitle })));
-      const existingForCheck = existingPersonsData.map(p => ({ name: p.name, email: p.email }));
-
-      // Validate sequentially to check for duplicates within the import batch
-      const validated: ParsedContact[] = [];
-      for (const item of jsonData) {
-        const alreadyParsed = validated.map(c => ({ name: c.name, email: c.email }));
-        const contact = await validateContact(item as Record<string, unknown>, existingForCheck, companies, alreadyParsed);
-        validated.push(contact);
-      }
-      
-      setParsedContacts(validated);
-      setPreviewTab("all");
-
-      toast({
-        title: "File Loaded",
-        description: `${validated.length} contacts found. Review the preview below.`,
-      });
+      await loadContacts(preprocessRows(rawData));
     } catch (error) {
       console.error("Error parsing file:", error);
       toast({
         title: "Error",
-        description: "Failed to parse Excel file. Please check the format.",
+        description: "Failed to parse the file. Please check the format.",
         variant: "destructive",
       });
     } finally {
@@ -392,68 +471,51 @@ export const ImportContactsDialog = ({ onContactsImported }: ImportContactsDialo
     const failed: ParsedContact[] = [];
 
     try {
-      let companies = [...existingCompanies];
-      const createdCompanies = new Map<string, string>();
       let newCompaniesCount = 0;
-      
-      // Process contacts in batches of 10 to avoid overwhelming the database
-      const batchSize = 10;
-      
+
+      // The bulk import creates missing companies and re-checks duplicates
+      // server-side; send batches small enough for embedded photos
+      const batchSize = 50;
+
       for (let i = 0; i < validContacts.length; i += batchSize) {
         const batch = validContacts.slice(i, Math.min(i + batchSize, validContacts.length));
-        
-        for (const contact of batch) {
-          try {
-            let companyId: string | undefined;
-            
-            if (contact.companyName) {
-              const companyNameLower = contact.companyName.toLowerCase();
-              
-              if (createdCompanies.has(companyNameLower)) {
-                companyId = createdCompanies.get(companyNameLower);
-              } else {
-                const matchingCompany = companies.find(
-                  c => c.name.toLowerCase() === companyNameLower
-                );
-                
-                if (matchingCompany) {
-                  companyId = matchingCompany.id;
-                } else {
-                  const newCompany = await inventoryStorage.addCompany(contact.companyName);
-                  companyId = newCompany.id;
-                  createdCompanies.set(companyNameLower, companyId);
-                  companies = [...companies, newCompany];
-                  newCompaniesCount++;
-                }
-              }
-            }
+        const result = await importContactsFromData(batch.map(contact => ({
+          name: contact.name,
+          email: contact.email,
+          phone: contact.phone,
+          address: contact.address,
+          companyName: contact.companyName,
+          jobTitle: contact.jobTitle,
+          notes: contact.notes,
+          excavatorLines: contact.excavatorLines,
+          phoneNumbers: contact.phoneNumbers,
+          emailAddresses: contact.emailAddresses,
+          photo: contact.photo,
+        })));
+
+        newCompaniesCount += result.newCompaniesCreated || 0;
+        const duplicates = new Set(result.duplicates || []);
+        // Each batch is inserted in one statement, so it lands or fails as a whole
+        const inserted = result.success && result.insertedCount > 0;
 
-            await inventoryStorage.addPerson({
-              name: contact.name,
-              email: contact.email,
-              phone: contact.phone,
-              address: contact.address,
-              companyId,
-              jobTitle: contact.jobTitle,
-              notes: [],
-              excavatorLines: [],
+        for (const contact of batch) {
+          if (duplicates.has(contact.name)) {
+            failed.push({
+              ...contact,
+              valid: false,
+              isDuplicate: true,
+              errors: [...contact.errors, "Duplicate: Contact already exists"],
             });
-            
+          } else if (inserted) {
             imported.push(contact);
-          } catch (contactError) {
-            console.error(`Failed to import contact ${contact.name}:`, contactError);
+          } else {
             failed.push({
               ...contact,
               valid: false,
-              errors: [...contact.errors, `Import failed: ${contactError instanceof Error ? contactError.message : 'Unknown error'}`]
+              errors: [...contact.errors, `Import failed: ${result.errors?.join("; ") || "Unknown error"}`],
             });
           }
         }
-        
-        // Small delay between batches to prevent overwhelming the API
-        if (i + batchSize < validContacts.length) {
-          await new Promise(resolve => setTimeout(resolve, 100));
-        }
       }
 
       // Add invalid contacts to failed list
@@ -698,7 +760,8 @@ export const ImportContactsDialog = ({ onContactsImported }: ImportContactsDialo
     );
     
     const newContacts = [...parsedContacts];
-    newContacts[editingIndex] = updatedContact;
+    // Keep what the form doesn't edit, like notes and extra phone numbers
+    newContacts[editingIndex] = { ...parsedContacts[editingIndex], ...updatedContact };
     setParsedContacts(newContacts);
     setEditingIndex(null);
     setEditForm({});
@@ -836,6 +899,18 @@ export const ImportContactsDialog = ({ onContactsImported }: ImportContactsDialo
                 <Briefcase className="h-3 w-3" />
                 {contact.jobTitle || "No job title"}
               </div>
+              {((contact.phoneNumbers?.length || 0) > 1 || (contact.emailAddresses?.length || 0) > 1 || contact.photo) && (
+                <div className="flex items-center gap-2 text-xs text-muted-foreground sm:col-span-2">
+                  {(contact.phoneNumbers?.length || 0) > 1 && <span>{contact.phoneNumbers?.length} phone numbers</span>}
+                  {(contact.emailAddresses?.length || 0) > 1 && <span>{contact.emailAddresses?.length} email addresses</span>}
+                  {contact.photo && (
+                    <span className="flex items-center gap-1">
+                      <ImageIcon className="h-3 w-3" />
+                      Photo
+                    </span>
+                  )}
+                </div>
+              )}
               {contact.address && (
                 <div className="flex items-center gap-1 text-foreground sm:col-span-2">
                   <MapPin className="h-3 w-3 flex-shrink-0" />
@@ -866,6 +941,7 @@ export const ImportContactsDialog = ({ onContactsImported }: ImportContactsDialo
       setOpen(isOpen);
       if (!isOpen) {
         setParsedContacts([]);
+        setCsvFile(null);
         setPreviewTab("all");
       }
     }}>
@@ -881,12 +957,20 @@ export const ImportContactsDialog = ({ onContactsImported }: ImportContactsDialo
         </DialogHeader>
         
         <div className="space-y-4 flex-1 overflow-hidden flex flex-col">
-          {parsedContacts.length === 0 ? (
+          {csvFile && parsedContacts.length === 0 ? (
+            <ContactColumnMapping
+              table={csvFile.table}
+              fileName={csvFile.name}
+              onBack={() => setCsvFile(null)}
+              onContinue={handleMappingConfirmed}
+            />
+          ) : parsedContacts.length === 0 ? (
             <>
               <Alert>
                 <AlertCircle className="h-4 w-4" />
                 <AlertDescription>
-                  Upload Excel with columns: <strong>Name</strong> (required) + Email, Phone, Address, Company, JobTitle (optional)
+                  Upload Excel with columns: <strong>Name</strong> (required) + Email, Phone, Address, Company, JobTitle (optional),
+                  a <strong>CSV</strong> export whose columns you map next, or a <strong>vCard</strong> (.vcf) file from a phone or mail client
                 </AlertDescription>
               </Alert>
 
@@ -904,12 +988,12 @@ export const ImportContactsDialog = ({ onContactsImported }: ImportContactsDialo
                 <Label htmlFor="contacts-file-upload" className="flex-1">
                   <div className="flex h-10 w-full cursor-pointer items-center justify-center rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background hover:bg-accent hover:text-accent-foreground">
                     <Upload className="mr-2 h-4 w-4" />
-                    {isProcessing ? "Processing..." : "Choose Excel File"}
+                    {isProcessing ? "Processing..." : "Choose File"}
                   </div>
                   <input
                     id="contacts-file-upload"
                     type="file"
-                    accept=".xlsx,.xls"
+                    accept=".xlsx,.xls,.csv,.vcf"
                     onChange={handleFileUpload}
                     disabled={isProcessing}
                     className="sr-only"
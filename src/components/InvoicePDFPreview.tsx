@@ -1,180 +1,33 @@
+import { useState } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { Badge } from "@/components/ui/badge";
-import { Invoice, inventoryStorage } from "@/lib/inventory-storage";
-import jsPDF from "jspdf";
-import { Download, CheckCircle, Circle } from "lucide-react";
-import { useToast } from "@/hooks/use-toast";
+import { Invoice } from "@/lib/inventory-storage";
+import { buildInvoicePdf, getInvoicePdfFilename } from "@/lib/document-pdf";
+import { Download, DollarSign, Mail } from "lucide-react";
+import { InvoicePaymentsDialog, PaymentStatusBadge } from "@/components/InvoicePaymentsDialog";
+import { SendEmailDialog } from "@/components/email/SendEmailDialog";
+import { EmailHistory } from "@/components/email/EmailHistory";
+import { invoiceEmailDocument, type EmailDocument } from "@/lib/email-storage";
 
 interface InvoicePDFPreviewProps {
   invoice: Invoice | null;
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onInvoiceUpdated?: () => void;
+  /** Hide staff actions such as recording payments (customer portal) */
+  readOnly?: boolean;
 }
 
-export const InvoicePDFPreview = ({ invoice, open, onOpenChange, onInvoiceUpdated }: InvoicePDFPreviewProps) => {
-  const { toast } = useToast();
-
-  const handleMarkAsPaid = async () => {
-    if (!invoice) return;
-    
-    try {
-      await inventoryStorage.updateInvoicePaidStatus(invoice.id, !invoice.paid);
-      toast({
-        title: "Success",
-        description: invoice.paid ? "Invoice marked as unpaid" : "Invoice marked as paid",
-      });
-      onInvoiceUpdated?.();
-    } catch (error) {
-      console.error('Error updating invoice:', error);
-      toast({
-        title: "Error",
-        description: "Failed to update invoice status",
-        variant: "destructive",
-      });
-    }
-  };
+export const InvoicePDFPreview = ({ invoice, open, onOpenChange, onInvoiceUpdated, readOnly = false }: InvoicePDFPreviewProps) => {
+  const [paymentsOpen, setPaymentsOpen] = useState(false);
+  const [emailDocument, setEmailDocument] = useState<EmailDocument | null>(null);
+  const amountPaid = invoice?.amountPaid || 0;
+  const amountCredited = invoice?.amountCredited || 0;
+  const balanceDue = invoice ? invoice.balanceDue ?? invoice.total - amountPaid - amountCredited : 0;
 
   const handleDownload = () => {
     if (!invoice) return;
-    
-    const doc = new jsPDF();
-    const pageWidth = doc.internal.pageSize.getWidth();
-    
-    // Header - Company Name
-    doc.setFontSize(20);
-    doc.setFont("helvetica", "bold");
-    doc.text("TRUE ATTACHMENTS", pageWidth / 2, 20, { align: "center" });
-    
-    doc.setFontSize(10);
-    doc.setFont("helvetica", "normal");
-    doc.text("3045 E Chestnut Expy Ste K", pageWidth / 2, 28, { align: "center" });
-    doc.text("Springfield, MO 65802", pageWidth / 2, 33, { align: "center" });
-    doc.text("Info@TrueAttachments.com", pageWidth / 2, 38, { align: "center" });
-    doc.text("417-306-9612", pageWidth / 2, 43, { align: "center" });
-
-    // Date and Invoice Number
-    doc.setFontSize(12);
-    doc.setFont("helvetica", "bold");
-    doc.text("DATE", 140, 20);
-    doc.text("Invoice", 165, 20);
-    
-    doc.setFont("helvetica", "normal");
-    doc.text(new Date(invoice.createdAt).toLocaleDateString(), 140, 26);
-    doc.text(invoice.invoiceNumber, 165, 26);
-
-    // Paid status
-    if (invoice.paid) {
-      doc.setTextColor(34, 197, 94);
-      doc.setFont("helvetica", "bold");
-      doc.text("PAID", 140, 35);
-      doc.setTextColor(0, 0, 0);
-      doc.setFont("helvetica", "normal");
-    }
-
-    // Bill To and Ship To
-    let yPos = 55;
-    doc.setFontSize(10);
-    doc.setFont("helvetica", "bold");
-    doc.text("BILL TO", 20, yPos);
-    doc.text("SHIP TO", 110, yPos);
-    
-    yPos += 5;
-    doc.setFont("helvetica", "normal");
-    if (invoice.customerName) {
-      doc.text(invoice.customerName, 20, yPos);
-      doc.text(invoice.customerName, 110, yPos);
-      yPos += 5;
-    }
-    if (invoice.customerEmail) {
-      doc.text(invoice.customerEmail, 20, yPos);
-      yPos += 5;
-    }
-    if (invoice.customerPhone) {
-      doc.text(invoice.customerPhone, 20, yPos);
-      yPos += 5;
-    }
-    
-    // Ship To Address
-    let shipYPos = 65;
-    if (invoice.customerName) shipYPos += 5;
-    if (invoice.shipToAddress) {
-      const lines = doc.splitTextToSize(invoice.shipToAddress, 75);
-      doc.text(lines, 110, shipYPos);
-      shipYPos += (lines.length * 5);
-    }
-
-    // Items Table
-    yPos = Math.max(yPos, shipYPos) + 10;
-    
-    // Table header
-    doc.setFillColor(240, 240, 240);
-    doc.rect(20, yPos, 170, 8, 'F');
-    doc.setFont("helvetica", "bold");
-    doc.text("Item", 22, yPos + 5);
-    doc.text("Description", 60, yPos + 5);
-    doc.text("Qty", 120, yPos + 5);
-    doc.text("Rate", 135, yPos + 5);
-    doc.text("Amount", 165, yPos + 5);
-    
-    yPos += 10;
-    doc.setFont("helvetica", "normal");
-    
-    // Table rows
-    invoice.items.forEach((item) => {
-      if (yPos > 250) {
-        doc.addPage();
-        yPos = 20;
-      }
-      
-      doc.text(item.partNumber, 22, yPos);
-      const description = doc.splitTextToSize(item.description, 55);
-      doc.text(description, 60, yPos);
-      doc.text("1", 120, yPos);
-      doc.text(`$${item.price.toFixed(2)}`, 135, yPos);
-      doc.text(`$${item.price.toFixed(2)}`, 165, yPos);
-      
-      yPos += Math.max(6, description.length * 5);
-      
-      // Add salesman name in fine print
-      if (invoice.salesmanName) {
-        doc.setFontSize(7);
-        doc.setTextColor(128, 128, 128);
-        doc.text(`Added by: ${invoice.salesmanName}`, 60, yPos);
-        doc.setFontSize(10);
-        doc.setTextColor(0, 0, 0);
-        yPos += 4;
-      }
-    });
-
-    // Summary
-    yPos += 10;
-    const summaryX = 140;
-    doc.setFont("helvetica", "normal");
-    
-    doc.text("SUBTOTAL", summaryX, yPos);
-    doc.text(`$${invoice.subtotal.toFixed(2)}`, 175, yPos, { align: "right" });
-    yPos += 6;
-    
-    doc.text("SHIPPING", summaryX, yPos);
-    doc.text(`$${invoice.shippingCost.toFixed(2)}`, 175, yPos, { align: "right" });
-    yPos += 6;
-    
-    doc.text("DISCOUNT", summaryX, yPos);
-    doc.text(`$${invoice.discount.toFixed(2)}`, 175, yPos, { align: "right" });
-    yPos += 6;
-    
-    doc.text("TAX", summaryX, yPos);
-    doc.text("$0.00", 175, yPos, { align: "right" });
-    yPos += 8;
-    
-    doc.setFont("helvetica", "bold");
-    doc.setFontSize(12);
-    doc.text("TOTAL", summaryX, yPos);
-    doc.text(`$${invoice.total.toFixed(2)}`, 175, yPos, { align: "right" });
-
-    doc.save(`${invoice.invoiceNumber}.pdf`);
+    buildInvoicePdf(invoice).save(getInvoicePdfFilename(invoice));
   };
 
   if (!invoice) return null;
@@ -186,26 +39,21 @@ export const InvoicePDFPreview = ({ invoice, open, onOpenChange, onInvoiceUpdate
           <DialogTitle className="flex items-center justify-between gap-4 flex-wrap">
             <div className="flex items-center gap-2">
               <span>Invoice Preview - {invoice.invoiceNumber}</span>
-              {invoice.paid ? (
-                <Badge variant="default" className="bg-green-500">Paid</Badge>
-              ) : (
-                <Badge variant="outline">Unpaid</Badge>
-              )}
+              <PaymentStatusBadge status={invoice.paymentStatus || (invoice.paid ? 'paid' : 'unpaid')} />
             </div>
             <div className="flex gap-2">
-              <Button onClick={handleMarkAsPaid} variant="outline" size="sm">
-                {invoice.paid ? (
-                  <>
-                    <Circle className="mr-2 h-4 w-4" />
-                    Mark Unpaid
-                  </>
-                ) : (
-                  <>
-                    <CheckCircle className="mr-2 h-4 w-4" />
-                    Mark Paid
-                  </>
-                )}
-              </Button>
+              {!readOnly && (
+                <Button onClick={() => setPaymentsOpen(true)} variant="outline" size="sm">
+                  <DollarSign className="mr-2 h-4 w-4" />
+                  Payments
+                </Button>
+              )}
+              {!readOnly && invoice.status !== 'draft' && (
+                <Button onClick={() => setEmailDocument(invoiceEmailDocument(invoice))} variant="outline" size="sm">
+                  <Mail className="mr-2 h-4 w-4" />
+                  Email
+                </Button>
+              )}
               <Button onClick={handleDownload} size="sm">
                 <Download className="mr-2 h-4 w-4" />
                 Download PDF
@@ -312,10 +160,45 @@ export const InvoicePDFPreview = ({ invoice, open, onOpenChange, onInvoiceUpdate
                 <span>TOTAL</span>
                 <span>${invoice.total.toFixed(2)}</span>
               </div>
+              {(amountPaid > 0 || amountCredited > 0) && (
+                <>
+                  {amountPaid > 0 && (
+                    <div className="flex justify-between py-1">
+                      <span>AMOUNT PAID</span>
+                      <span>-${amountPaid.toFixed(2)}</span>
+                    </div>
+                  )}
+                  {amountCredited > 0 && (
+                    <div className="flex justify-between py-1">
+                      <span>CREDITS</span>
+                      <span>-${amountCredited.toFixed(2)}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between py-2 border-t font-bold">
+                    <span>BALANCE DUE</span>
+                    <span>${balanceDue.toFixed(2)}</span>
+                  </div>
+                </>
+              )}
             </div>
           </div>
         </div>
+        {!readOnly && !emailDocument && <EmailHistory document={{ type: 'invoice', documentId: invoice.id, customerName: invoice.customerName }} />}
       </DialogContent>
+
+      {!readOnly && (
+        <InvoicePaymentsDialog
+          invoice={invoice}
+          open={paymentsOpen}
+          onOpenChange={setPaymentsOpen}
+          onPaymentsChanged={onInvoiceUpdated}
+        />
+      )}
+      <SendEmailDialog
+        document={emailDocument}
+        open={!!emailDocument}
+        onOpenChange={(isOpen) => { if (!isOpen) setEmailDocument(null); }}
+      />
     </Dialog>
   );
 };
\ No newline at end of file
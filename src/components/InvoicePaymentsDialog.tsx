@@ -0,0 +1,288 @@
+import { useState, useEffect, useCallback } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DollarSign, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useUserRole } from "@/hooks/useUserRole";
+import type { Invoice } from "@/lib/inventory-storage";
+import {
+  PAYMENT_METHODS,
+  addInvoicePayment,
+  computePaymentStatus,
+  deleteInvoicePayment,
+  getInvoicePayments,
+  getPaymentMethodLabel,
+  getPaymentStatusLabel,
+  type InvoicePayment,
+  type InvoicePaymentStatus,
+  type PaymentMethod,
+} from "@/lib/invoice-payment-storage";
+
+interface InvoicePaymentsDialogProps {
+  invoice: Invoice | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onPaymentsChanged?: () => void;
+}
+
+export const PaymentStatusBadge = ({ status }: { status: InvoicePaymentStatus }) => {
+  switch (status) {
+    case 'paid':
+      return <Badge variant="default" className="bg-green-500">Paid</Badge>;
+    case 'overpaid':
+      return <Badge variant="default" className="bg-blue-500">Overpaid</Badge>;
+    case 'partially_paid':
+      return <Badge variant="secondary">Partially Paid</Badge>;
+    default:
+      return <Badge variant="outline">Unpaid</Badge>;
+  }
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export const InvoicePaymentsDialog = ({ invoice, open, onOpenChange, onPaymentsChanged }: InvoicePaymentsDialogProps) => {
+  const [payments, setPayments] = useState<InvoicePayment[]>([]);
+  const [amount, setAmount] = useState("");
+  const [method, setMethod] = useState<PaymentMethod>('check');
+  const [referenceNumber, setReferenceNumber] = useState("");
+  const [paymentDate, setPaymentDate] = useState(today());
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+  const { hasOwnerAccess } = useUserRole();
+
+  const total = invoice?.total || 0;
+  const amountCredited = invoice?.amountCredited || 0;
+  const amountPaid = payments.reduce((sum, p) => sum + p.amount, 0);
+  const balanceDue = total - amountPaid - amountCredited;
+  const status = computePaymentStatus(amountPaid + amountCredited, total);
+
+  const loadPayments = useCallback(async () => {
+    if (!invoice) return;
+    try {
+      const data = await getInvoicePayments(invoice.id);
+      setPayments(data);
+      const paid = data.reduce((sum, p) => sum + p.amount, 0);
+      setAmount(Math.max(invoice.total - (invoice.amountCredited || 0) - paid, 0).toFixed(2));
+    } catch (error) {
+      console.error("Error loading payments:", error);
+    }
+  }, [invoice]);
+
+  useEffect(() => {
+    if (open) {
+      loadPayments();
+    }
+  }, [open, loadPayments]);
+
+  const resetForm = () => {
+    setMethod('check');
+    setReferenceNumber("");
+    setPaymentDate(today());
+    setNotes("");
+  };
+
+  const handleAddPayment = async () => {
+    if (!invoice) return;
+
+    const value = parseFloat(amount);
+    if (isNaN(value) || value === 0) {
+      toast({
+        title: "Error",
+        description: "Please enter a payment amount",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await addInvoicePayment({
+        invoiceId: invoice.id,
+        amount: value,
+        method,
+        referenceNumber: referenceNumber.trim() || undefined,
+        paymentDate,
+        notes: notes.trim() || undefined,
+      });
+
+      const newStatus = computePaymentStatus(amountPaid + amountCredited + value, total);
+      toast({
+        title: "Payment recorded",
+        description: `$${value.toFixed(2)} applied to ${invoice.invoiceNumber} (${getPaymentStatusLabel(newStatus)})`,
+      });
+
+      resetForm();
+      await loadPayments();
+      onPaymentsChanged?.();
+    } catch (error) {
+      console.error("Error recording payment:", error);
+      toast({
+        title: "Error",
+        description: "Failed to record payment",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeletePayment = async (payment: InvoicePayment) => {
+    if (!confirm(`Delete the $${payment.amount.toFixed(2)} payment from ${new Date(payment.paymentDate).toLocaleDateString()}?`)) return;
+
+    try {
+      await deleteInvoicePayment(payment.id);
+      toast({
+        title: "Success",
+        description: "Payment deleted",
+      });
+      await loadPayments();
+      onPaymentsChanged?.();
+    } catch (error) {
+      console.error("Error deleting payment:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete payment",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (!invoice) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <span>Payments - {invoice.invoiceNumber}</span>
+            <PaymentStatusBadge status={status} />
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-3 text-center">
+          <div className="rounded-lg border p-3">
+            <p className="text-xs text-muted-foreground">Invoice Total</p>
+            <p className="text-lg font-semibold">${total.toFixed(2)}</p>
+          </div>
+          <div className="rounded-lg border p-3">
+            <p className="text-xs text-muted-foreground">Amount Paid</p>
+            <p className="text-lg font-semibold text-green-600">${amountPaid.toFixed(2)}</p>
+            {amountCredited > 0 && (
+              <p className="text-xs text-muted-foreground">+ ${amountCredited.toFixed(2)} credited</p>
+            )}
+          </div>
+          <div className="rounded-lg border p-3">
+            <p className="text-xs text-muted-foreground">Balance Due</p>
+            <p className={`text-lg font-semibold ${balanceDue > 0.005 ? 'text-orange-600' : ''}`}>
+              ${balanceDue.toFixed(2)}
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Payment History</h4>
+          {payments.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No payments recorded yet</p>
+          ) : (
+            <div className="space-y-2">
+              {payments.map(payment => (
+                <div key={payment.id} className="flex items-center justify-between gap-2 rounded border p-2 text-sm">
+                  <div>
+                    <div className="font-medium">
+                      ${payment.amount.toFixed(2)} · {getPaymentMethodLabel(payment.method)}
+                      {payment.referenceNumber && (
+                        <span className="text-muted-foreground"> #{payment.referenceNumber}</span>
+                      )}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {new Date(payment.paymentDate + 'T00:00:00').toLocaleDateString()}
+                      {payment.notes && ` · ${payment.notes}`}
+                    </div>
+                  </div>
+                  {hasOwnerAccess() && (
+                    <Button variant="ghost" size="sm" onClick={() => handleDeletePayment(payment)}>
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-3 border-t pt-4">
+          <h4 className="text-sm font-medium">Record Payment</h4>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="payment-amount">Amount *</Label>
+              <Input
+                id="payment-amount"
+                type="number"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Method</Label>
+              <Select value={method} onValueChange={(value) => setMethod(value as PaymentMethod)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAYMENT_METHODS.map(m => (
+                    <SelectItem key={m} value={m}>{getPaymentMethodLabel(m)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="payment-reference">Reference # (check, transaction)</Label>
+              <Input
+                id="payment-reference"
+                value={referenceNumber}
+                onChange={(e) => setReferenceNumber(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="payment-date">Payment Date</Label>
+              <Input
+                id="payment-date"
+                type="date"
+                value={paymentDate}
+                onChange={(e) => setPaymentDate(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="payment-notes">Notes</Label>
+            <Textarea
+              id="payment-notes"
+              rows={2}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Enter a negative amount to record a refund or reversal.
+          </p>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Close
+            </Button>
+            <Button onClick={handleAddPayment} disabled={saving}>
+              <DollarSign className="mr-2 h-4 w-4" />
+              {saving ? "Saving..." : "Record Payment"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
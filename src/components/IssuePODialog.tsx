@@ -9,64 +9,20 @@ import { useToast } from "@/hooks/use-toast";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { getVendors, addVendor, addPurchaseOrder, addPOItems, type Vendor } from "@/lib/po-storage";
+import {
+  loadDraftPOs,
+  saveDraftPOToStorage,
+  deleteDraftPOFromStorage,
+  type AdditionalCost,
+  type DraftPO,
+  type POLineItem,
+} from "@/lib/po-drafts";
 import jsPDF from "jspdf";
 
 interface IssuePODialogProps {
   onPOCreated: () => void;
 }
 
-interface POLineItem {
-  id: string;
-  partNumber: string;
-  serialNumber: string;
-  description: string;
-  quantity: number;
-  unitCost: number;
-}
-
-interface AdditionalCost {
-  id: string;
-  description: string;
-  amount: number;
-}
-
-interface DraftPO {
-  id: string;
-  vendorId: string;
-  vendorName: string;
-  lineItems: POLineItem[];
-  additionalCosts: AdditionalCost[];
-  notes: string;
-  savedAt: string;
-}
-
-const DRAFT_PO_STORAGE_KEY = "draft_purchase_orders";
-
-function loadDraftPOs(): DraftPO[] {
-  try {
-    const stored = localStorage.getItem(DRAFT_PO_STORAGE_KEY);
-    return stored ? JSON.parse(stored) : [];
-  } catch {
-    return [];
-  }
-}
-
-function saveDraftPOToStorage(draft: DraftPO): void {
-  const drafts = loadDraftPOs();
-  const existingIndex = drafts.findIndex(d => d.id === draft.id);
-  if (existingIndex >= 0) {
-    drafts[existingIndex] = draft;
-  } else {
-    drafts.push(draft);
-  }
-  localStorage.setItem(DRAFT_PO_STORAGE_KEY, JSON.stringify(drafts));
-}
-
-function deleteDraftPOFromStorage(id: string): void {
-  const drafts = loadDraftPOs().filter(d => d.id !== id);
-  localStorage.setItem(DRAFT_PO_STORAGE_KEY, JSON.stringify(drafts));
-}
-
 export const IssuePODialog = ({ onPOCreated }: IssuePODialogProps) => {
   const [open, setOpen] = useState(false);
   const [vendors, setVendors] = useState<Vendor[]>([]);
@@ -283,10 +239,7 @@ export const IssuePODialog = ({ onPOCreated }: IssuePODialogProps) => {
       const subtotal = calculateSubtotal();
       const additionalTotal = calculateAdditionalTotal();
       const total = calculateTotal();
-      const poNumber = `PO-${Date.now()}`;
-
       const po = await addPurchaseOrder({
-        poNumber,
         vendorId,
         vendorName,
         status: 'pending',
@@ -317,7 +270,7 @@ export const IssuePODialog = ({ onPOCreated }: IssuePODialogProps) => {
       })));
 
       setCreatedPO({
-        poNumber,
+        poNumber: po.poNumber,
         vendorName,
         items: validItems,
         additionalCosts: [...additionalCosts],
@@ -332,7 +285,7 @@ export const IssuePODialog = ({ onPOCreated }: IssuePODialogProps) => {
 
       toast({
         title: "Success",
-        description: `Purchase Order ${poNumber} created`,
+        description: `Purchase Order ${po.poNumber} created`,
       });
 
       onPOCreated();
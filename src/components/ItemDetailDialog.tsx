@@ -7,7 +7,16 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Plus, PackagePlus, Pencil, X, Save } from "lucide-react";
-import { InventoryItem, inventoryStorage } from "@/lib/inventory-storage";
+import { InventoryItem, inventoryStorage, isQuantityTracked } from "@/lib/inventory-storage";
+import {
+  applyInventoryMovement,
+  getItemMovements,
+  getMovementReasonLabel,
+  type InventoryMovement,
+} from "@/lib/inventory-movement-storage";
+import { getWarehouseName, getWarehouses, type Warehouse } from "@/lib/warehouse-storage";
+import { getConditionGradeLabel, type ConditionGrade } from "@/lib/rma-storage";
+import { WarehouseSelect } from "@/components/inventory/WarehouseSelect";
 import { useToast } from "@/hooks/use-toast";
 
 interface ItemDetailDialogProps {
@@ -36,7 +45,14 @@ export const ItemDetailDialog = ({ item, open, onOpenChange, onItemAdded }: Item
   const [editAssetAccountId, setEditAssetAccountId] = useState("");
   const [editCogsAccountId, setEditCogsAccountId] = useState("");
   const [editMinSalePrice, setEditMinSalePrice] = useState("");
+  const [editWarehouseId, setEditWarehouseId] = useState<string | undefined>(undefined);
+  const [editShelfLocation, setEditShelfLocation] = useState("");
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
   const [accounts, setAccounts] = useState<any[]>([]);
+  const [movements, setMovements] = useState<InventoryMovement[]>([]);
+  const [onHand, setOnHand] = useState(0);
+  const [adjustQuantity, setAdjustQuantity] = useState("");
+  const [adjustNotes, setAdjustNotes] = useState("");
 
   const { toast } = useToast();
 
@@ -56,15 +72,31 @@ export const ItemDetailDialog = ({ item, open, onOpenChange, onItemAdded }: Item
       setEditAssetAccountId(item.assetAccountId || "");
       setEditCogsAccountId(item.cogsAccountId || "");
       setEditMinSalePrice(item.minSalePrice?.toString() || "");
+      setEditWarehouseId(item.warehouseId);
+      setEditShelfLocation(item.shelfLocation || "");
     }
   }, [item, isEditing]);
 
   useEffect(() => {
     if (open) {
       loadAccounts();
+      getWarehouses()
+        .then(setWarehouses)
+        .catch(error => console.error("Error loading locations:", error));
     }
   }, [open]);
 
+  useEffect(() => {
+    if (open && item && isQuantityTracked(item)) {
+      setOnHand(item.quantityOnHand);
+      getItemMovements(item.id)
+        .then(setMovements)
+        .catch(error => console.error("Error loading stock movements:", error));
+    } else {
+      setMovements([]);
+    }
+  }, [open, item]);
+
   const loadAccounts = async () => {
     try {
       const { data, error } = await inventoryStorage.supabase
@@ -166,6 +198,51 @@ export const ItemDetailDialog = ({ item, open, onOpenChange, onItemAdded }: Item
     onItemAdded?.();
   };
 
+  const handleAdjustStock = async () => {
+    const change = parseInt(adjustQuantity);
+    if (isNaN(change) || change === 0) {
+      toast({
+        title: "Error",
+        description: "Enter a non-zero quantity to add or remove",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (!adjustNotes.trim()) {
+      toast({
+        title: "Error",
+        description: "Please give a reason for the adjustment",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const newOnHand = await applyInventoryMovement({
+        itemId: item.id,
+        quantityChange: change,
+        reason: 'adjustment',
+        notes: adjustNotes.trim(),
+      });
+      setOnHand(newOnHand);
+      setMovements(await getItemMovements(item.id));
+      setAdjustQuantity("");
+      setAdjustNotes("");
+      toast({
+        title: "Success",
+        description: `${item.partNumber} now has ${newOnHand} on hand`,
+      });
+      onItemAdded?.();
+    } catch (error) {
+      console.error("Error adjusting stock:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to adjust stock",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleSaveEdit = async () => {
     if (!editPartNumber.trim() || !editDescription.trim() || !editSalePrice || !editCost) {
       toast({
@@ -217,6 +294,8 @@ export const ItemDetailDialog = ({ item, open, onOpenChange, onItemAdded }: Item
       assetAccountId: editAssetAccountId || undefined,
       cogsAccountId: editCogsAccountId || undefined,
       minSalePrice: minSalePriceNum,
+      warehouseId: editWarehouseId,
+      shelfLocation: editShelfLocation.trim() || undefined,
     });
 
     toast({
@@ -240,7 +319,7 @@ export const ItemDetailDialog = ({ item, open, onOpenChange, onItemAdded }: Item
             <DialogTitle className="text-2xl">
               {isEditing ? "Edit Item" : item.partNumber}
             </DialogTitle>
-            {!isEditing && item.status === 'available' && (
+            {!isEditing && (item.status === 'available' || isQuantityTracked(item)) && (
               <Button
                 variant="outline"
                 size="sm"
@@ -258,11 +337,22 @@ export const ItemDetailDialog = ({ item, open, onOpenChange, onItemAdded }: Item
             <>
               <div className="flex items-center gap-2">
                 <Badge variant={item.status === 'available' ? 'default' : 'secondary'} className="text-sm">
-                  {item.status}
+                  {isQuantityTracked(item) ? `${onHand} on hand` : item.status}
                 </Badge>
                 {item.serialNumber && (
                   <span className="text-muted-foreground">SN: {item.serialNumber}</span>
                 )}
+                {item.inTransitTransferId && (
+                  <Badge variant="outline" className="text-sm">In transit</Badge>
+                )}
+                {item.reservedSalesOrderId && (
+                  <Badge variant="outline" className="text-sm">Reserved</Badge>
+                )}
+                {item.conditionGrade && (
+                  <Badge variant="outline" className="text-sm">
+                    Returned · {getConditionGradeLabel(item.conditionGrade as ConditionGrade)}
+                  </Badge>
+                )}
               </div>
 
               <div>
@@ -322,6 +412,16 @@ export const ItemDetailDialog = ({ item, open, onOpenChange, onItemAdded }: Item
                 <div>
                   <h3 className="font-semibold mb-2">Physical Details</h3>
                   <div className="space-y-2">
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Location:</span>
+                      <span className="font-medium">{getWarehouseName(warehouses, item.warehouseId)}</span>
+                    </div>
+                    {item.shelfLocation && (
+                      <div className="flex justify-between">
+                        <span className="text-muted-foreground">Bin:</span>
+                        <span className="font-medium">{item.shelfLocation}</span>
+                      </div>
+                    )}
                     {item.weight && (
                       <div className="flex justify-between">
                         <span className="text-muted-foreground">Weight:</span>
@@ -496,6 +596,34 @@ export const ItemDetailDialog = ({ item, open, onOpenChange, onItemAdded }: Item
                 </div>
               </div>
 
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Location</Label>
+                  {/* Stock that already has a home moves by transfer so the trail stays complete */}
+                  {item.inTransitTransferId || item.warehouseId ? (
+                    <p className="text-sm text-muted-foreground pt-2">
+                      {getWarehouseName(warehouses, item.warehouseId)} (move with a stock transfer)
+                    </p>
+                  ) : (
+                    <WarehouseSelect
+                      warehouses={warehouses}
+                      value={editWarehouseId}
+                      onChange={setEditWarehouseId}
+                      allowUnassigned
+                    />
+                  )}
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-shelfLocation">Bin / Shelf</Label>
+                  <Input
+                    id="edit-shelfLocation"
+                    value={editShelfLocation}
+                    onChange={(e) => setEditShelfLocation(e.target.value)}
+                    placeholder="e.g., A1-01"
+                  />
+                </div>
+              </div>
+
               <div className="grid grid-cols-3 gap-4">
                 <div className="space-y-2">
                   <Label htmlFor="edit-minSalePrice">Min Sale Price ($)</Label>
@@ -555,8 +683,65 @@ export const ItemDetailDialog = ({ item, open, onOpenChange, onItemAdded }: Item
             </div>
           )}
 
+          {/* Stock Section for quantity-tracked items */}
+          {isQuantityTracked(item) && !isEditing && (
+            <div className="pt-4 border-t space-y-4">
+              <div className="space-y-2">
+                <Label className="text-base font-semibold">Adjust Stock</Label>
+                <div className="flex gap-2">
+                  <Input
+                    type="number"
+                    step="1"
+                    className="w-32"
+                    value={adjustQuantity}
+                    onChange={(e) => setAdjustQuantity(e.target.value)}
+                    placeholder="+5 or -2"
+                  />
+                  <Input
+                    value={adjustNotes}
+                    onChange={(e) => setAdjustNotes(e.target.value)}
+                    placeholder="Reason (e.g. damaged, found on shelf)"
+                  />
+                  <Button onClick={handleAdjustStock}>
+                    <PackagePlus className="mr-2 h-4 w-4" />
+                    Apply
+                  </Button>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <h3 className="font-semibold">Stock History</h3>
+                {movements.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No stock movements yet</p>
+                ) : (
+                  <div className="space-y-1 max-h-60 overflow-y-auto">
+                    {movements.map(movement => (
+                      <div key={movement.id} className="flex items-center justify-between text-sm border-b py-1 last:border-b-0">
+                        <div className="min-w-0">
+                          <span className="font-medium">{getMovementReasonLabel(movement.reason)}</span>
+                          {movement.notes && (
+                            <span className="text-muted-foreground"> - {movement.notes}</span>
+                          )}
+                          <div className="text-xs text-muted-foreground">
+                            {new Date(movement.createdAt).toLocaleString()}
+                          </div>
+                        </div>
+                        <div className="text-right whitespace-nowrap">
+                          <span className={movement.quantityChange < 0 ? "text-destructive" : "text-green-600"}>
+                            {movement.quantityChange > 0 ? '+' : ''}{movement.quantityChange}
+                          </span>
+                          <div className="text-xs text-muted-foreground">Balance {movement.quantityAfter}</div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
           {/* Add More Quantity Section */}
-          {item.status === 'available' && !isEditing && (
+          {item.status === 'available' && !isEditing && !isQuantityTracked(item) && (
             <div className="pt-4 border-t">
               {!showAddQuantity ? (
                 <Button
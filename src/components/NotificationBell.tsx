@@ -0,0 +1,133 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Bell, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { supabase } from "@/integrations/supabase/client";
+import { cn } from "@/lib/utils";
+import { useTaskReminders } from "@/hooks/useTaskReminders";
+import {
+  deleteNotification,
+  getUserNotifications,
+  markAllNotificationsRead,
+  markNotificationRead,
+  type UserNotification,
+} from "@/lib/user-notifications";
+
+export function NotificationBell() {
+  const [open, setOpen] = useState(false);
+  const [notifications, setNotifications] = useState<UserNotification[]>([]);
+  const navigate = useNavigate();
+
+  useTaskReminders();
+
+  const loadNotifications = () => {
+    getUserNotifications()
+      .then(setNotifications)
+      .catch((error) => console.error("Error loading notifications:", error));
+  };
+
+  useEffect(() => {
+    loadNotifications();
+
+    const channel = supabase
+      .channel("user-notifications")
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "user_notifications" },
+        () => loadNotifications()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, []);
+
+  const unreadCount = notifications.filter((n) => !n.readAt).length;
+
+  const handleOpen = async (notification: UserNotification) => {
+    setOpen(false);
+    if (!notification.readAt) {
+      setNotifications((prev) =>
+        prev.map((n) => (n.id === notification.id ? { ...n, readAt: new Date().toISOString() } : n))
+      );
+      markNotificationRead(notification.id).catch((error) => console.error("Error marking notification read:", error));
+    }
+    if (notification.link) navigate(notification.link);
+  };
+
+  const handleMarkAllRead = async () => {
+    try {
+      await markAllNotificationsRead();
+      loadNotifications();
+    } catch (error) {
+      console.error("Error marking notifications read:", error);
+    }
+  };
+
+  const handleDismiss = async (id: string) => {
+    setNotifications((prev) => prev.filter((n) => n.id !== id));
+    try {
+      await deleteNotification(id);
+    } catch (error) {
+      console.error("Error dismissing notification:", error);
+      loadNotifications();
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative px-2" aria-label="Notifications">
+          <Bell className="h-5 w-5" strokeWidth={3} />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] leading-4 text-center">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-3 py-2">
+          <span className="text-sm font-medium">Notifications</span>
+          {unreadCount > 0 && (
+            <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={handleMarkAllRead}>
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <div className="max-h-96 overflow-y-auto">
+          {notifications.length === 0 ? (
+            <p className="px-3 py-6 text-center text-sm text-muted-foreground">You're all caught up</p>
+          ) : (
+            notifications.map((notification) => (
+              <div
+                key={notification.id}
+                className={cn("group flex gap-2 border-b px-3 py-2 last:border-b-0", !notification.readAt && "bg-primary/5")}
+              >
+                <button type="button" className="flex-1 text-left" onClick={() => handleOpen(notification)}>
+                  <div className={cn("text-sm", !notification.readAt && "font-medium")}>{notification.title}</div>
+                  {notification.body && <div className="text-xs text-muted-foreground">{notification.body}</div>}
+                  <div className="text-[10px] text-muted-foreground mt-1">
+                    {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                  </div>
+                </button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 opacity-0 group-hover:opacity-100"
+                  onClick={() => handleDismiss(notification.id)}
+                  aria-label="Dismiss"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -22,6 +22,9 @@ import {
 } from "@/components/ui/select";
 import { User, Mail, Phone, MapPin, Briefcase, StickyNote, Plus, Edit, X, Check, FileText, Receipt, CreditCard, Tractor, GitBranch, MessageSquare, Play, Pause, Clock } from "lucide-react";
 import { Person, Branch, inventoryStorage, Note, Quote, Invoice } from "@/lib/inventory-storage";
+import { PaymentStatusBadge } from "@/components/InvoicePaymentsDialog";
+import { PortalAccessCard } from "@/components/PortalAccessCard";
+import { ActivityTimelineCard } from "@/components/ActivityTimelineCard";
 import { getExpensesByCustomerId, getCategoryLabel, type Expense } from "@/lib/expense-storage";
 import { format } from "date-fns";
 import { supabase } from "@/integrations/supabase/client";
@@ -60,6 +63,7 @@ export const PersonDetailDialog = ({ person, companyName, onUpdate, children, op
   const [branches, setBranches] = useState<Branch[]>([]);
   const [playingAudioId, setPlayingAudioId] = useState<string | null>(null);
   const audioPlayerRef = useRef<HTMLAudioElement | null>(null);
+  const [photoUrl, setPhotoUrl] = useState<string | null>(null);
   
   // Excavator lines state for editing
   const [allExcavatorLines, setAllExcavatorLines] = useState<string[]>([]);
@@ -101,20 +105,9 @@ export const PersonDetailDialog = ({ person, companyName, onUpdate, children, op
           })));
         }
 
-        // Match by name (partial match), email, or phone
-        const personQuotes = allQuotes.filter(
-          (q) =>
-            q.customerName.toLowerCase().includes(person.name.toLowerCase()) ||
-            (person.email && q.customerEmail?.toLowerCase() === person.email.toLowerCase()) ||
-            (person.phone && q.customerPhone === person.phone)
-        );
-
-        const personInvoices = allInvoices.filter(
-          (inv) =>
-            inv.customerName.toLowerCase().includes(person.name.toLowerCase()) ||
-            (person.email && inv.customerEmail?.toLowerCase() === person.email.toLowerCase()) ||
-            (person.phone && inv.customerPhone === person.phone)
-        );
+        // Documents are linked to the contact when saved (see set_document_person)
+        const personQuotes = allQuotes.filter((q) => q.personId === person.id);
+        const personInvoices = allInvoices.filter((inv) => inv.personId === person.id);
 
         setQuotes(personQuotes);
         setInvoices(personInvoices);
@@ -126,6 +119,18 @@ export const PersonDetailDialog = ({ person, companyName, onUpdate, children, op
   }, [open, person]);
   
   // Cleanup audio player on unmount
+  // Photos from imported vCards live in a private bucket
+  useEffect(() => {
+    if (!open || !person.photoPath) {
+      setPhotoUrl(null);
+      return;
+    }
+    supabase.storage
+      .from("contact-photos")
+      .createSignedUrl(person.photoPath, 3600)
+      .then(({ data }) => setPhotoUrl(data?.signedUrl || null));
+  }, [open, person.photoPath]);
+
   useEffect(() => {
     return () => {
       if (audioPlayerRef.current) {
@@ -240,7 +245,11 @@ export const PersonDetailDialog = ({ person, companyName, onUpdate, children, op
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-2">
               <DialogTitle className="flex items-center gap-2 text-2xl">
-                <User className="h-6 w-6" />
+                {photoUrl ? (
+                  <img src={photoUrl} alt="" className="h-10 w-10 rounded-full object-cover" />
+                ) : (
+                  <User className="h-6 w-6" />
+                )}
                 {person.name}
               </DialogTitle>
             </div>
@@ -446,6 +455,21 @@ export const PersonDetailDialog = ({ person, companyName, onUpdate, children, op
                       </a>
                     </div>
                   )}
+
+                  {[
+                    ...(person.phoneNumbers || []).filter(m => m.value !== person.phone).map(m => ({ ...m, href: `tel:${m.value}` })),
+                    ...(person.emailAddresses || []).filter(m => m.value !== person.email).map(m => ({ ...m, href: `mailto:${m.value}` })),
+                  ].map(method => (
+                    <div key={method.href}>
+                      <span className="text-sm text-muted-foreground flex items-center gap-1">
+                        {method.href.startsWith("tel:") ? <Phone className="h-3 w-3" /> : <Mail className="h-3 w-3" />}
+                        {method.label || "Other"}
+                      </span>
+                      <a href={method.href} className="text-primary hover:underline">
+                        {method.value}
+                      </a>
+                    </div>
+                  ))}
                   
                   {person.address && (
                     <div>
@@ -487,6 +511,8 @@ export const PersonDetailDialog = ({ person, companyName, onUpdate, children, op
             </CardContent>
           </Card>
 
+          <PortalAccessCard person={person} onChanged={onUpdate} />
+
           {/* Notes Section */}
           <Card>
             <CardHeader className="flex flex-row items-center justify-between space-y-0">
@@ -777,11 +803,7 @@ export const PersonDetailDialog = ({ person, companyName, onUpdate, children, op
                       <div>
                         <div className="flex items-center gap-2">
                           <p className="font-medium">Invoice {invoice.invoiceNumber}</p>
-                          {invoice.paid ? (
-                            <Badge variant="default" className="bg-green-500 text-xs">Paid</Badge>
-                          ) : (
-                            <Badge variant="outline" className="text-xs">Unpaid</Badge>
-                          )}
+                          <PaymentStatusBadge status={invoice.paymentStatus || (invoice.paid ? 'paid' : 'unpaid')} />
                         </div>
                         <p className="text-sm text-muted-foreground">
                           {format(new Date(invoice.createdAt), 'MMM d, yyyy')}
@@ -799,6 +821,8 @@ export const PersonDetailDialog = ({ person, companyName, onUpdate, children, op
               )}
             </CardContent>
           </Card>
+
+          <ActivityTimelineCard persons={[person]} open={open} />
         </div>
 
         {/* Timestamps */}
@@ -0,0 +1,92 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { KeyRound } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useUserRole } from "@/hooks/useUserRole";
+import { logAuditEvent, AuditEvents } from "@/hooks/useAuditLog";
+import { grantPortalAccess, revokePortalAccess } from "@/lib/customer-portal-storage";
+import type { Person } from "@/lib/inventory-storage";
+
+interface PortalAccessCardProps {
+  person: Person;
+  onChanged: () => void;
+}
+
+/** Staff control for linking a contact's login to the customer portal */
+export const PortalAccessCard = ({ person, onChanged }: PortalAccessCardProps) => {
+  const { hasInternalAccess } = useUserRole();
+  const [linked, setLinked] = useState(!!person.portalUserId);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setLinked(!!person.portalUserId);
+  }, [person.portalUserId]);
+
+  if (!hasInternalAccess()) return null;
+
+  const handleGrant = async () => {
+    setSaving(true);
+    try {
+      await grantPortalAccess(person.id);
+      setLinked(true);
+      toast.success(`${person.name} can now sign in to the customer portal`);
+      logAuditEvent(AuditEvents.RECORD_UPDATED("contact", person.id, person.name, { portalAccess: { old: false, new: true } }));
+      onChanged();
+    } catch (error) {
+      console.error("Error granting portal access:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to grant portal access");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!confirm(`Remove ${person.name}'s access to the customer portal?`)) return;
+    setSaving(true);
+    try {
+      await revokePortalAccess(person.id);
+      setLinked(false);
+      toast.success("Portal access removed");
+      logAuditEvent(AuditEvents.RECORD_UPDATED("contact", person.id, person.name, { portalAccess: { old: true, new: false } }));
+      onChanged();
+    } catch (error) {
+      console.error("Error revoking portal access:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to remove portal access");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          Customer Portal
+        </CardTitle>
+        {linked ? <Badge className="bg-green-500">Enabled</Badge> : <Badge variant="outline">Off</Badge>}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-muted-foreground">
+          {linked
+            ? "This contact can view their company's quotes, invoices and equipment, accept quotes and request service."
+            : "The contact signs up with their email address first, then portal access links that login to their company."}
+        </p>
+        {linked ? (
+          <Button variant="outline" size="sm" onClick={handleRevoke} disabled={saving}>
+            Remove Access
+          </Button>
+        ) : (
+          <Button size="sm" onClick={handleGrant} disabled={saving || !person.email || !person.companyId}>
+            Enable Portal Access
+          </Button>
+        )}
+        {!linked && (!person.email || !person.companyId) && (
+          <p className="text-xs text-muted-foreground">Requires an email address and a company.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,341 @@
+import { useState, useEffect, useMemo } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Boxes, Pencil, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { getItems, type InventoryItem } from "@/lib/inventory-storage-adapter";
+import { logAuditEvent, AuditEvents } from "@/hooks/useAuditLog";
+import { useUserRole } from "@/hooks/useUserRole";
+import {
+  deleteProductKit,
+  getKitShortages,
+  getKitStock,
+  getProductKits,
+  saveProductKit,
+  setProductKitActive,
+  type ProductKit,
+  type ProductKitComponent,
+} from "@/lib/product-kits";
+
+const emptyComponent = (): ProductKitComponent => ({ partNumber: "", description: "", quantity: 1 });
+
+const emptyForm = {
+  id: undefined as string | undefined,
+  partNumber: "",
+  description: "",
+  bundlePrice: "",
+  itemizeOnDocuments: false,
+  components: [emptyComponent()],
+};
+
+/** Kit definitions: a parent SKU made of component part numbers, sold as one line */
+export const ProductKitsDialog = () => {
+  const { isOwner } = useUserRole();
+  const [open, setOpen] = useState(false);
+  const [kits, setKits] = useState<ProductKit[]>([]);
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  const loadKits = () => {
+    getProductKits()
+      .then(setKits)
+      .catch(error => console.error("Error loading kits:", error));
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    loadKits();
+    getItems()
+      .then(setItems)
+      .catch(error => console.error("Error loading inventory:", error));
+  }, [open]);
+
+  const partNumbers = useMemo(
+    () => [...new Set(items.map(i => i.partNumber))].sort(),
+    [items]
+  );
+
+  const updateComponent = (index: number, changes: Partial<ProductKitComponent>) => {
+    setForm(prev => ({
+      ...prev,
+      components: prev.components.map((c, i) => (i === index ? { ...c, ...changes } : c)),
+    }));
+  };
+
+  const handleEdit = (kit: ProductKit) => {
+    setForm({
+      id: kit.id,
+      partNumber: kit.partNumber,
+      description: kit.description,
+      bundlePrice: kit.bundlePrice !== undefined ? String(kit.bundlePrice) : "",
+      itemizeOnDocuments: kit.itemizeOnDocuments,
+      components: kit.components.map(c => ({ ...c, description: c.description || "" })),
+    });
+  };
+
+  const handleSave = async () => {
+    const components = form.components.filter(c => c.partNumber.trim());
+    if (!form.partNumber.trim() || components.length === 0) {
+      toast.error("A kit needs a part number and at least one component");
+      return;
+    }
+    if (components.some(c => !Number.isInteger(c.quantity) || c.quantity < 1)) {
+      toast.error("Component quantities must be whole numbers of at least 1");
+      return;
+    }
+    const bundlePrice = form.bundlePrice.trim() ? Number(form.bundlePrice) : undefined;
+    if (bundlePrice !== undefined && (!Number.isFinite(bundlePrice) || bundlePrice < 0)) {
+      toast.error("Bundle price must be a positive amount");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const id = await saveProductKit({
+        id: form.id,
+        partNumber: form.partNumber.trim(),
+        description: form.description.trim(),
+        bundlePrice,
+        itemizeOnDocuments: form.itemizeOnDocuments,
+        components,
+      });
+      logAuditEvent(
+        form.id
+          ? AuditEvents.RECORD_UPDATED("product_kit", id, form.partNumber.trim(), { components: components.length, bundlePrice })
+          : AuditEvents.RECORD_CREATED("product_kit", id, form.partNumber.trim())
+      );
+      toast.success(`Kit ${form.partNumber.trim()} saved`);
+      setForm(emptyForm);
+      loadKits();
+    } catch (error) {
+      console.error("Error saving kit:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save kit. Part numbers must be unique.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleActive = async (kit: ProductKit, isActive: boolean) => {
+    try {
+      await setProductKitActive(kit.id, isActive);
+      loadKits();
+    } catch (error) {
+      console.error("Error updating kit:", error);
+      toast.error("Failed to update kit");
+    }
+  };
+
+  const handleDelete = async (kit: ProductKit) => {
+    if (!confirm(`Delete kit ${kit.partNumber}? Documents it was sold on keep their lines.`)) return;
+    try {
+      await deleteProductKit(kit.id);
+      logAuditEvent(AuditEvents.RECORD_DELETED("product_kit", kit.id, kit.partNumber));
+      setKits(prev => prev.filter(k => k.id !== kit.id));
+      if (form.id === kit.id) setForm(emptyForm);
+    } catch (error) {
+      console.error("Error deleting kit:", error);
+      toast.error("Failed to delete kit");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Boxes className="mr-2 h-4 w-4" />
+          Kits & Bundles
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Kits & Bundles</DialogTitle>
+          <DialogDescription>
+            A kit adds all of its components to a quote or invoice as one line, picking stock for each. With a bundle
+            price the components are repriced to add up to it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Kit</TableHead>
+              <TableHead>Components</TableHead>
+              <TableHead className="text-right">Bundle price</TableHead>
+              <TableHead>Stock</TableHead>
+              <TableHead>Active</TableHead>
+              {isOwner() && <TableHead></TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {kits.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground">
+                  No kits yet
+                </TableCell>
+              </TableRow>
+            ) : (
+              kits.map(kit => {
+                const shortages = getKitShortages(getKitStock(kit, items));
+                return (
+                  <TableRow key={kit.id} className={kit.isActive ? "" : "opacity-60"}>
+                    <TableCell>
+                      <p className="font-medium">{kit.partNumber}</p>
+                      <p className="text-xs text-muted-foreground">{kit.description}</p>
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {kit.components.map(c => `${c.quantity} × ${c.partNumber}`).join(", ")}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {kit.bundlePrice !== undefined ? `$${kit.bundlePrice.toFixed(2)}` : "Sum of parts"}
+                    </TableCell>
+                    <TableCell>
+                      {shortages.length === 0 ? (
+                        <Badge variant="outline">In stock</Badge>
+                      ) : (
+                        <Badge
+                          variant="destructive"
+                          title={shortages.map(s => `${s.partNumber}: ${s.available} of ${s.needed}`).join("\n")}
+                        >
+                          Short {shortages.length}
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={kit.isActive}
+                        disabled={!isOwner()}
+                        onCheckedChange={(checked) => handleToggleActive(kit, checked)}
+                      />
+                    </TableCell>
+                    {isOwner() && (
+                      <TableCell className="whitespace-nowrap">
+                        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleEdit(kit)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive" onClick={() => handleDelete(kit)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                );
+              })
+            )}
+          </TableBody>
+        </Table>
+
+        {isOwner() && (
+          <div className="border-t pt-4 space-y-3">
+            <h4 className="text-sm font-semibold">{form.id ? `Edit ${form.partNumber}` : "New Kit"}</h4>
+            <div className="grid grid-cols-6 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="kit-part-number" className="text-xs">Kit part #</Label>
+                <Input
+                  id="kit-part-number"
+                  value={form.partNumber}
+                  onChange={(e) => setForm({ ...form, partNumber: e.target.value })}
+                  placeholder="KIT-100"
+                />
+              </div>
+              <div className="col-span-3 space-y-1">
+                <Label htmlFor="kit-description" className="text-xs">Description</Label>
+                <Input
+                  id="kit-description"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  placeholder="e.g. Skid steer with bucket, hoses and first service"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="kit-bundle-price" className="text-xs">Bundle price</Label>
+                <Input
+                  id="kit-bundle-price"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.bundlePrice}
+                  onChange={(e) => setForm({ ...form, bundlePrice: e.target.value })}
+                  placeholder="Sum of parts"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="kit-itemize" className="text-xs">Itemize on print</Label>
+                <div className="h-10 flex items-center">
+                  <Switch
+                    id="kit-itemize"
+                    checked={form.itemizeOnDocuments}
+                    onCheckedChange={(checked) => setForm({ ...form, itemizeOnDocuments: checked })}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-xs">Components</Label>
+              <datalist id="kit-component-parts">
+                {partNumbers.map(p => <option key={p} value={p} />)}
+              </datalist>
+              {form.components.map((component, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2">
+                  <Input
+                    className="col-span-3"
+                    list="kit-component-parts"
+                    value={component.partNumber}
+                    onChange={(e) => updateComponent(index, { partNumber: e.target.value })}
+                    placeholder="Part #"
+                  />
+                  <Input
+                    className="col-span-6"
+                    value={component.description || ""}
+                    onChange={(e) => updateComponent(index, { description: e.target.value })}
+                    placeholder="Description on documents (defaults to the item's)"
+                  />
+                  <Input
+                    className="col-span-2"
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={component.quantity}
+                    onChange={(e) => updateComponent(index, { quantity: parseInt(e.target.value) || 1 })}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="col-span-1 text-destructive"
+                    disabled={form.components.length === 1}
+                    onClick={() => setForm(prev => ({ ...prev, components: prev.components.filter((_, i) => i !== index) }))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setForm(prev => ({ ...prev, components: [...prev.components, emptyComponent()] }))}
+              >
+                <Plus className="mr-1 h-4 w-4" />
+                Component
+              </Button>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              {form.id && (
+                <Button variant="outline" onClick={() => setForm(emptyForm)}>Cancel</Button>
+              )}
+              <Button onClick={handleSave} disabled={saving}>
+                {form.id ? "Save Kit" : "Add Kit"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
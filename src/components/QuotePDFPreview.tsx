@@ -1,7 +1,8 @@
-import jsPDF from "jspdf";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Quote } from "@/lib/inventory-storage";
+import { getRevisionLetter } from "@/lib/quote-revisions";
+import { buildQuotePdf, getQuotePdfFilename } from "@/lib/document-pdf";
 
 interface QuotePDFPreviewProps {
   quote: Quote | null;
@@ -10,103 +11,11 @@ interface QuotePDFPreviewProps {
 }
 
 export const QuotePDFPreview = ({ quote, open, onOpenChange }: QuotePDFPreviewProps) => {
+  const revisionSuffix = quote?.revision ? ` Rev ${getRevisionLetter(quote.revision)}` : "";
+
   const generatePDF = () => {
     if (!quote) return;
-
-    const doc = new jsPDF();
-    
-    // Header
-    doc.setFontSize(20);
-    doc.text("QUOTE", 105, 20, { align: "center" });
-    
-    doc.setFontSize(10);
-    doc.text(`Quote #: ${quote.quoteNumber}`, 20, 35);
-    doc.text(`Date: ${new Date(quote.createdAt).toLocaleDateString()}`, 20, 40);
-    
-    // Customer Info
-    if (quote.customerName) {
-      doc.setFontSize(12);
-      doc.text("Bill To:", 20, 55);
-      doc.setFontSize(10);
-      doc.text(quote.customerName, 20, 60);
-      if (quote.customerEmail) doc.text(quote.customerEmail, 20, 65);
-      if (quote.customerPhone) doc.text(quote.customerPhone, 20, 70);
-    }
-    
-    // Ship To
-    if (quote.shipToAddress) {
-      doc.setFontSize(12);
-      doc.text("Ship To:", 120, 55);
-      doc.setFontSize(10);
-      doc.text(quote.shipToAddress, 120, 60);
-    }
-    
-    // Items Table
-    let y = 90;
-    doc.setFontSize(10);
-    doc.text("Part Number", 20, y);
-    doc.text("Description", 70, y);
-    doc.text("Price", 170, y);
-    
-    y += 5;
-    doc.line(20, y, 190, y);
-    y += 7;
-    
-    quote.items.forEach((item) => {
-      doc.text(item.partNumber, 20, y);
-      const description = item.description.length > 40 ? item.description.substring(0, 40) + "..." : item.description;
-      doc.text(description, 70, y);
-      doc.text(`$${item.price.toFixed(2)}`, 170, y);
-      y += 5;
-      
-      if (item.serialNumber) {
-        doc.setFontSize(8);
-        doc.text(`SN: ${item.serialNumber}`, 70, y);
-        y += 5;
-      }
-      
-      if (quote.salesmanName) {
-        doc.setFontSize(7);
-        doc.setTextColor(128, 128, 128);
-        doc.text(`Added by: ${quote.salesmanName}`, 70, y);
-        doc.setTextColor(0, 0, 0);
-        y += 5;
-      }
-      
-      doc.setFontSize(10);
-      y += 2;
-    });
-    
-    // Totals
-    y += 5;
-    doc.line(140, y, 190, y);
-    y += 7;
-    
-    doc.text("Subtotal:", 140, y);
-    doc.text(`$${quote.subtotal.toFixed(2)}`, 170, y);
-    y += 7;
-    
-    if (quote.discount > 0) {
-      doc.text("Discount:", 140, y);
-      doc.text(`-$${quote.discount.toFixed(2)}`, 170, y);
-      y += 7;
-    }
-    
-    if (quote.shippingCost > 0) {
-      doc.text("Shipping:", 140, y);
-      doc.text(`$${quote.shippingCost.toFixed(2)}`, 170, y);
-      y += 7;
-    }
-    
-    doc.setFontSize(12);
-    doc.text("Total:", 140, y);
-    doc.text(`$${quote.total.toFixed(2)}`, 170, y);
-    
-    // Footer
-    doc.setFontSize(8);
-    doc.text("This quote is valid for 30 days from the date of issue.", 105, 280, { align: "center" });
-    
-    doc.save(`quote-${quote.quoteNumber}.pdf`);
+    buildQuotePdf(quote).save(getQuotePdfFilename(quote));
   };
 
   return (
@@ -119,7 +28,7 @@ export const QuotePDFPreview = ({ quote, open, onOpenChange }: QuotePDFPreviewPr
           {quote && (
             <>
               <div className="border-b pb-4">
-                <h3 className="font-semibold">Quote #{quote.quoteNumber}</h3>
+                <h3 className="font-semibold">Quote #{quote.quoteNumber}{revisionSuffix}</h3>
                 <p className="text-sm text-muted-foreground">
                   Date: {new Date(quote.createdAt).toLocaleDateString()}
                 </p>
@@ -154,6 +63,9 @@ export const QuotePDFPreview = ({ quote, open, onOpenChange }: QuotePDFPreviewPr
                         {item.serialNumber && (
                           <p className="text-xs text-muted-foreground">SN: {item.serialNumber}</p>
                         )}
+                        {item.shipFrom && (
+                          <p className="text-xs text-muted-foreground">Ships from: {item.shipFrom}</p>
+                        )}
                         {quote.salesmanName && (
                           <p className="text-xs text-gray-400">Added by: {quote.salesmanName}</p>
                         )}
@@ -0,0 +1,365 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { PackageCheck } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { inventoryStorage, isQuantityTracked } from "@/lib/inventory-storage";
+import { getPurchaseOrders, receivePurchaseOrder, type PurchaseOrder } from "@/lib/po-storage";
+import { getWarehouses, type Warehouse } from "@/lib/warehouse-storage";
+import { WarehouseSelect } from "@/components/inventory/WarehouseSelect";
+
+interface ReceivePODialogProps {
+  onReceived: () => void;
+}
+
+interface ReceiptLineState {
+  quantity: number;
+  serialNumbers: string[];
+  shelfLocation: string;
+  salePrice: string;
+  trackByQuantity: boolean;
+}
+
+export const ReceivePODialog = ({ onReceived }: ReceivePODialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [openPOs, setOpenPOs] = useState<PurchaseOrder[]>([]);
+  const [selectedPOId, setSelectedPOId] = useState("");
+  const [lines, setLines] = useState<ReceiptLineState[]>([]);
+  const [closeShort, setCloseShort] = useState(false);
+  const [shelfLocations, setShelfLocations] = useState<string[]>([]);
+  const [lastSalePrices, setLastSalePrices] = useState<Record<string, number>>({});
+  const [quantityParts, setQuantityParts] = useState<Set<string>>(new Set());
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [warehouseId, setWarehouseId] = useState<string | undefined>(undefined);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const selectedPO = openPOs.find(po => po.id === selectedPOId) || null;
+
+  useEffect(() => {
+    if (open) {
+      loadData();
+    }
+  }, [open]);
+
+  const loadData = async () => {
+    try {
+      const [pos, locations, items, warehouseList] = await Promise.all([
+        getPurchaseOrders(),
+        inventoryStorage.getUniqueShelfLocations(),
+        inventoryStorage.getItems(),
+        getWarehouses(),
+      ]);
+      setWarehouses(warehouseList);
+      setWarehouseId(prev => prev ?? warehouseList.find(w => w.isDefault)?.id);
+      setOpenPOs(pos.filter(po => po.status === 'pending' || po.status === 'partial'));
+      setShelfLocations(locations);
+
+      // Items come back newest first, so the first price seen per part wins
+      const prices: Record<string, number> = {};
+      items.forEach(item => {
+        if (prices[item.partNumber] === undefined && item.salePrice > 0) {
+          prices[item.partNumber] = item.salePrice;
+        }
+      });
+      setLastSalePrices(prices);
+      setQuantityParts(new Set(items.filter(isQuantityTracked).map(item => item.partNumber)));
+    } catch (error) {
+      console.error("Error loading purchase orders:", error);
+    }
+  };
+
+  const handleSelectPO = (poId: string) => {
+    setSelectedPOId(poId);
+    setCloseShort(false);
+    const po = openPOs.find(p => p.id === poId);
+    if (!po) {
+      setLines([]);
+      return;
+    }
+    setLines(po.items.map(item => {
+      const remaining = Math.max(item.quantity - (item.receivedQuantity || 0), 0);
+      return {
+        quantity: remaining,
+        serialNumbers: Array.from({ length: remaining }, (_, i) =>
+          i === 0 && remaining === 1 && item.serialNumber ? item.serialNumber : ""
+        ),
+        shelfLocation: "",
+        salePrice: lastSalePrices[item.partNumber] ? String(lastSalePrices[item.partNumber]) : "",
+        // Parts already stocked by quantity keep receiving that way
+        trackByQuantity: quantityParts.has(item.partNumber),
+      };
+    }));
+  };
+
+  const updateLine = (index: number, updates: Partial<ReceiptLineState>) => {
+    setLines(prev => prev.map((line, i) => (i === index ? { ...line, ...updates } : line)));
+  };
+
+  const handleQuantityChange = (index: number, value: string) => {
+    const quantity = Math.max(parseInt(value) || 0, 0);
+    const current = lines[index];
+    const serialNumbers = Array.from({ length: quantity }, (_, i) => current.serialNumbers[i] || "");
+    updateLine(index, { quantity, serialNumbers });
+  };
+
+  const handleSerialChange = (index: number, serialIndex: number, value: string) => {
+    const serialNumbers = [...lines[index].serialNumbers];
+    serialNumbers[serialIndex] = value;
+    updateLine(index, { serialNumbers });
+  };
+
+  const resetForm = () => {
+    setSelectedPOId("");
+    setLines([]);
+    setCloseShort(false);
+  };
+
+  const handleReceive = async () => {
+    if (!selectedPO) return;
+
+    const totalUnits = lines.reduce((sum, line) => sum + line.quantity, 0);
+    if (totalUnits === 0) {
+      toast({
+        title: "Error",
+        description: "Enter a received quantity for at least one line",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const serials = lines.filter(line => !line.trackByQuantity).flatMap(line => line.serialNumbers.map(sn => sn.trim()).filter(Boolean));
+    if (new Set(serials).size !== serials.length) {
+      toast({
+        title: "Error",
+        description: "Duplicate serial numbers detected",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const invalidPrice = lines.some(line =>
+      line.quantity > 0 && line.salePrice !== "" && (isNaN(parseFloat(line.salePrice)) || parseFloat(line.salePrice) < 0)
+    );
+    if (invalidPrice) {
+      toast({
+        title: "Error",
+        description: "Please enter valid sale prices",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { purchaseOrder, stockedUnits } = await receivePurchaseOrder(
+        selectedPO,
+        lines.map((line, lineIndex) => ({
+          lineIndex,
+          quantity: line.quantity,
+          serialNumbers: line.serialNumbers,
+          shelfLocation: line.shelfLocation,
+          salePrice: parseFloat(line.salePrice) || 0,
+          trackByQuantity: line.trackByQuantity,
+        })),
+        { closeShort, warehouseId }
+      );
+
+      toast({
+        title: "Success",
+        description: `${stockedUnits} item${stockedUnits === 1 ? '' : 's'} received on ${purchaseOrder.poNumber} (${purchaseOrder.status})`,
+      });
+
+      resetForm();
+      setOpen(false);
+      onReceived();
+    } catch (error) {
+      console.error("Error receiving PO:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to receive purchase order",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => {
+      setOpen(isOpen);
+      if (!isOpen) {
+        resetForm();
+      }
+    }}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <PackageCheck className="mr-2 h-4 w-4" />
+          Receive PO
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>
+            {selectedPO ? `Receive ${selectedPO.poNumber} - ${selectedPO.vendorName}` : "Receive Purchase Order"}
+          </DialogTitle>
+        </DialogHeader>
+
+        <ScrollArea className="flex-1">
+          <div className="space-y-4 pr-4">
+            <div className="space-y-2">
+              <Label>Purchase Order *</Label>
+              <Select value={selectedPOId} onValueChange={handleSelectPO}>
+                <SelectTrigger>
+                  <SelectValue placeholder={openPOs.length === 0 ? "No open purchase orders" : "Select purchase order"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {openPOs.map(po => (
+                    <SelectItem key={po.id} value={po.id}>
+                      {po.poNumber} - {po.vendorName} ({po.status})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {selectedPO && (
+              <>
+                {warehouses.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>Receive Into</Label>
+                    <WarehouseSelect
+                      warehouses={warehouses}
+                      value={warehouseId}
+                      onChange={setWarehouseId}
+                      allowUnassigned
+                    />
+                  </div>
+                )}
+
+                <datalist id="receive-po-shelf-locations">
+                  {shelfLocations.map(location => (
+                    <option key={location} value={location} />
+                  ))}
+                </datalist>
+
+                <div className="space-y-3">
+                  {selectedPO.items.map((item, index) => {
+                    const line = lines[index];
+                    if (!line) return null;
+                    const alreadyReceived = item.receivedQuantity || 0;
+                    const remaining = item.quantity - alreadyReceived;
+                    const over = line.quantity - Math.max(remaining, 0);
+
+                    return (
+                      <div key={index} className="border rounded-lg p-3 space-y-3">
+                        <div className="flex flex-wrap items-start justify-between gap-2">
+                          <div>
+                            <div className="font-medium">{item.partNumber}</div>
+                            <div className="text-sm text-muted-foreground">{item.description}</div>
+                          </div>
+                          <div className="flex items-center gap-2 text-sm">
+                            <Badge variant="outline">Ordered {item.quantity}</Badge>
+                            <Badge variant="outline">Received {alreadyReceived}</Badge>
+                            {over > 0 && <Badge variant="destructive">Over by {over}</Badge>}
+                            {line.quantity > 0 && over < 0 && <Badge variant="secondary">Short {-over}</Badge>}
+                          </div>
+                        </div>
+
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                          <div className="space-y-1">
+                            <Label className="text-xs">Receiving Now</Label>
+                            <Input
+                              type="number"
+                              min="0"
+                              value={line.quantity}
+                              onChange={(e) => handleQuantityChange(index, e.target.value)}
+                            />
+                          </div>
+                          <div className="space-y-1">
+                            <Label className="text-xs">Sale Price</Label>
+                            <Input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              placeholder="0.00"
+                              value={line.salePrice}
+                              onChange={(e) => updateLine(index, { salePrice: e.target.value })}
+                            />
+                          </div>
+                          <div className="space-y-1">
+                            <Label className="text-xs">Bin / Shelf</Label>
+                            <Input
+                              list="receive-po-shelf-locations"
+                              placeholder="e.g., A-1-3"
+                              value={line.shelfLocation}
+                              onChange={(e) => updateLine(index, { shelfLocation: e.target.value })}
+                            />
+                          </div>
+                        </div>
+
+                        <div className="flex items-center gap-2">
+                          <Checkbox
+                            id={`receive-po-quantity-${index}`}
+                            checked={line.trackByQuantity}
+                            onCheckedChange={(checked) => updateLine(index, { trackByQuantity: checked === true })}
+                          />
+                          <Label htmlFor={`receive-po-quantity-${index}`} className="text-sm font-normal">
+                            Track by quantity (no serial numbers)
+                          </Label>
+                        </div>
+
+                        {line.quantity > 0 && !line.trackByQuantity && (
+                          <div className="space-y-1">
+                            <Label className="text-xs">Serial Numbers (optional, one per unit)</Label>
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                              {line.serialNumbers.map((serial, serialIndex) => (
+                                <Input
+                                  key={serialIndex}
+                                  placeholder={`Unit ${serialIndex + 1}`}
+                                  value={serial}
+                                  onChange={(e) => handleSerialChange(index, serialIndex, e.target.value)}
+                                />
+                              ))}
+                            </div>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="receive-po-close-short"
+                    checked={closeShort}
+                    onCheckedChange={(checked) => setCloseShort(checked === true)}
+                  />
+                  <Label htmlFor="receive-po-close-short" className="text-sm font-normal">
+                    Close PO after this receipt (no further shipments expected)
+                  </Label>
+                </div>
+              </>
+            )}
+
+            <div className="flex justify-end gap-2 pt-2 border-t sticky bottom-0 bg-background pb-2">
+              <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleReceive} disabled={!selectedPO || saving}>
+                <PackageCheck className="mr-2 h-4 w-4" />
+                {saving ? "Receiving..." : "Receive Items"}
+              </Button>
+            </div>
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,594 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { format, parseISO } from "date-fns";
+import { CalendarClock, Pause, Play, Plus, SkipForward, Trash2, X, Pencil, History } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Textarea } from "@/components/ui/textarea";
+import { inventoryStorage, type Company } from "@/lib/inventory-storage";
+import {
+  RECURRING_FREQUENCIES,
+  addRecurringInvoice,
+  deleteRecurringInvoice,
+  getRecurringFrequencyLabel,
+  getRecurringInvoiceRuns,
+  getRecurringInvoices,
+  getRecurringLinesTotal,
+  getRecurringPeriod,
+  getRecurringStatusLabel,
+  getUpcomingPeriods,
+  resumeRecurringInvoice,
+  setRecurringInvoiceStatus,
+  skipRecurringInvoicePeriod,
+  updateRecurringInvoice,
+  type RecurringFrequency,
+  type RecurringInvoice,
+  type RecurringInvoiceInput,
+  type RecurringInvoiceRun,
+  type RecurringInvoiceStatus,
+  type RecurringLine,
+} from "@/lib/recurring-invoices";
+import { useUserRole } from "@/hooks/useUserRole";
+import { logAuditEvent, AuditEvents } from "@/hooks/useAuditLog";
+
+interface RecurringInvoicesDialogProps {
+  onChanged: () => void;
+}
+
+const statusVariant: Record<RecurringInvoiceStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  active: "default",
+  paused: "secondary",
+  cancelled: "destructive",
+  completed: "outline",
+};
+
+const formatDate = (value: string) => format(parseISO(value), "MMM d, yyyy");
+
+const emptyLine = (): RecurringLine => ({ partNumber: "", description: "", sellPrice: 0, quantity: 1, taxable: true });
+
+const emptyForm = (): RecurringInvoiceInput => ({
+  name: "",
+  customerName: "",
+  customerEmail: "",
+  customerPhone: "",
+  customerAddress: "",
+  shipToAddress: "",
+  salesmanName: "",
+  items: [emptyLine()],
+  discount: 0,
+  shipping: 0,
+  notes: "",
+  frequency: "monthly",
+  startDate: format(new Date(), "yyyy-MM-dd"),
+  endDate: "",
+  billingDay: 1,
+  prorateFirstPeriod: false,
+});
+
+export const RecurringInvoicesDialog = ({ onChanged }: RecurringInvoicesDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [schedules, setSchedules] = useState<RecurringInvoice[]>([]);
+  const [companies, setCompanies] = useState<Company[]>([]);
+  const [editing, setEditing] = useState<RecurringInvoice | "new" | null>(null);
+  const [form, setForm] = useState<RecurringInvoiceInput>(emptyForm);
+  const [historyFor, setHistoryFor] = useState<RecurringInvoice | null>(null);
+  const [runs, setRuns] = useState<RecurringInvoiceRun[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { isOwner } = useUserRole();
+
+  const loadSchedules = () => {
+    getRecurringInvoices()
+      .then(setSchedules)
+      .catch((error) => console.error("Error loading recurring invoices:", error));
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    loadSchedules();
+    inventoryStorage.getCompanies().then(setCompanies).catch((error) => console.error("Error loading companies:", error));
+    setEditing(null);
+    setHistoryFor(null);
+  }, [open]);
+
+  useEffect(() => {
+    if (!historyFor) return;
+    getRecurringInvoiceRuns(historyFor.id)
+      .then(setRuns)
+      .catch((error) => console.error("Error loading recurring invoice runs:", error));
+  }, [historyFor]);
+
+  const startEdit = (schedule: RecurringInvoice | "new") => {
+    setHistoryFor(null);
+    setEditing(schedule);
+    if (schedule === "new") {
+      setForm(emptyForm());
+    } else {
+      const { id: _id, nextRunDate: _next, status: _status, lastRunAt: _last, createdAt: _created, ...input } = schedule;
+      setForm({ ...input, items: input.items.length > 0 ? input.items : [emptyLine()] });
+    }
+  };
+
+  const updateForm = (changes: Partial<RecurringInvoiceInput>) => setForm((prev) => ({ ...prev, ...changes }));
+
+  const updateLine = (index: number, changes: Partial<RecurringLine>) =>
+    setForm((prev) => ({
+      ...prev,
+      items: prev.items.map((line, i) => (i === index ? { ...line, ...changes } : line)),
+    }));
+
+  const handleCompanySelect = (companyId: string) => {
+    const company = companies.find((c) => c.id === companyId);
+    if (!company) return;
+    updateForm({
+      customerName: company.name,
+      customerAddress: company.address || form.customerAddress,
+      shipToAddress: form.shipToAddress || company.address || "",
+    });
+  };
+
+  const handleSave = async () => {
+    const items = form.items.filter((line) => line.partNumber.trim() || line.description.trim());
+    if (!form.name.trim() || !form.customerName.trim()) {
+      toast.error("Name and customer are required");
+      return;
+    }
+    if (items.length === 0 || items.some((line) => !line.description.trim() || line.sellPrice < 0 || line.quantity <= 0)) {
+      toast.error("Each line needs a description, a price and a quantity");
+      return;
+    }
+    if (form.endDate && form.endDate < form.startDate) {
+      toast.error("The end date is before the start date");
+      return;
+    }
+
+    const input: RecurringInvoiceInput = {
+      ...form,
+      name: form.name.trim(),
+      customerName: form.customerName.trim(),
+      items: items.map((line) => ({ ...line, partNumber: line.partNumber.trim() || "SERVICE", description: line.description.trim() })),
+      endDate: form.endDate || undefined,
+      billingDay: form.prorateFirstPeriod ? form.billingDay : 1,
+    };
+
+    try {
+      setSaving(true);
+      if (editing === "new") {
+        const created = await addRecurringInvoice(input);
+        logAuditEvent(AuditEvents.RECORD_CREATED("recurring_invoice", created.id, created.name));
+        toast.success(`${created.name} scheduled`);
+      } else if (editing) {
+        await updateRecurringInvoice(editing, input);
+        logAuditEvent(AuditEvents.RECORD_UPDATED("recurring_invoice", editing.id, input.name));
+        toast.success(`${input.name} updated`);
+      }
+      setEditing(null);
+      loadSchedules();
+    } catch (error) {
+      console.error("Error saving recurring invoice:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save recurring invoice");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const runAction = async (schedule: RecurringInvoice, action: () => Promise<unknown>, message: string) => {
+    try {
+      await action();
+      logAuditEvent(AuditEvents.RECORD_UPDATED("recurring_invoice", schedule.id, schedule.name, { action: message }));
+      toast.success(`${schedule.name}: ${message}`);
+      loadSchedules();
+      onChanged();
+    } catch (error) {
+      console.error("Error updating recurring invoice:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update recurring invoice");
+    }
+  };
+
+  const handleSkip = (schedule: RecurringInvoice) => {
+    const period = getRecurringPeriod(schedule, schedule.nextRunDate);
+    if (!confirm(`Skip billing ${formatDate(period.start)} – ${formatDate(period.end)}?`)) return;
+    runAction(schedule, () => skipRecurringInvoicePeriod(schedule), "next period skipped");
+  };
+
+  const handleResume = (schedule: RecurringInvoice) =>
+    runAction(schedule, async () => {
+      const skipped = await resumeRecurringInvoice(schedule);
+      if (skipped > 0) toast.info(`${skipped} period${skipped === 1 ? "" : "s"} missed while paused were skipped`);
+    }, "resumed");
+
+  const handleCancel = (schedule: RecurringInvoice) => {
+    if (!confirm(`Cancel ${schedule.name}? No further invoices will be drafted.`)) return;
+    runAction(schedule, () => setRecurringInvoiceStatus(schedule.id, "cancelled"), "cancelled");
+  };
+
+  const handleDelete = async (schedule: RecurringInvoice) => {
+    if (!confirm(`Delete ${schedule.name}? Invoices already drafted are kept.`)) return;
+    try {
+      await deleteRecurringInvoice(schedule.id);
+      logAuditEvent(AuditEvents.RECORD_DELETED("recurring_invoice", schedule.id, schedule.name));
+      loadSchedules();
+    } catch (error) {
+      console.error("Error deleting recurring invoice:", error);
+      toast.error("Failed to delete recurring invoice");
+    }
+  };
+
+  const formTotal = getRecurringLinesTotal(form.items) - form.discount + form.shipping;
+  const previewPeriod = form.startDate ? getRecurringPeriod(form, form.startDate) : null;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <CalendarClock className="mr-2 h-4 w-4" />
+          Recurring Invoices
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-5xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Recurring Invoices</DialogTitle>
+          <DialogDescription>
+            Rentals and maintenance plans billed in advance. A draft invoice is created on the first day of each period for review in Draft Invoices.
+          </DialogDescription>
+        </DialogHeader>
+
+        {editing ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="recurring-name">Name</Label>
+                <Input
+                  id="recurring-name"
+                  placeholder="e.g. Forklift rental"
+                  value={form.name}
+                  onChange={(e) => updateForm({ name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Company</Label>
+                <Select onValueChange={handleCompanySelect}>
+                  <SelectTrigger><SelectValue placeholder="Fill from a company" /></SelectTrigger>
+                  <SelectContent>
+                    {companies.map((company) => (
+                      <SelectItem key={company.id} value={company.id}>{company.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="recurring-customer">Customer</Label>
+                <Input id="recurring-customer" value={form.customerName} onChange={(e) => updateForm({ customerName: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="recurring-email">Email</Label>
+                <Input id="recurring-email" type="email" value={form.customerEmail || ""} onChange={(e) => updateForm({ customerEmail: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="recurring-phone">Phone</Label>
+                <Input id="recurring-phone" value={form.customerPhone || ""} onChange={(e) => updateForm({ customerPhone: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="recurring-salesman">Salesman</Label>
+                <Input id="recurring-salesman" value={form.salesmanName || ""} onChange={(e) => updateForm({ salesmanName: e.target.value })} />
+              </div>
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="recurring-ship-to">Ship To Address</Label>
+                <Textarea
+                  id="recurring-ship-to"
+                  rows={2}
+                  placeholder="Used for sales tax"
+                  value={form.shipToAddress || ""}
+                  onChange={(e) => updateForm({ shipToAddress: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Lines billed each period</Label>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-32">Part #</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="w-20">Qty</TableHead>
+                    <TableHead className="w-28">Price</TableHead>
+                    <TableHead className="w-16">Taxable</TableHead>
+                    <TableHead className="w-10" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {form.items.map((line, index) => (
+                    <TableRow key={index}>
+                      <TableCell>
+                        <Input value={line.partNumber} placeholder="SERVICE" onChange={(e) => updateLine(index, { partNumber: e.target.value })} />
+                      </TableCell>
+                      <TableCell>
+                        <Input value={line.description} onChange={(e) => updateLine(index, { description: e.target.value })} />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="1"
+                          value={line.quantity}
+                          onChange={(e) => updateLine(index, { quantity: parseInt(e.target.value) || 1 })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={line.sellPrice}
+                          onChange={(e) => updateLine(index, { sellPrice: parseFloat(e.target.value) || 0 })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Checkbox checked={line.taxable} onCheckedChange={(checked) => updateLine(index, { taxable: checked === true })} />
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          disabled={form.items.length === 1}
+                          onClick={() => updateForm({ items: form.items.filter((_, i) => i !== index) })}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <Button variant="outline" size="sm" onClick={() => updateForm({ items: [...form.items, emptyLine()] })}>
+                <Plus className="mr-2 h-4 w-4" />Add Line
+              </Button>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="recurring-discount">Discount ($)</Label>
+                <Input
+                  id="recurring-discount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.discount}
+                  onChange={(e) => updateForm({ discount: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="recurring-shipping">Shipping ($)</Label>
+                <Input
+                  id="recurring-shipping"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.shipping}
+                  onChange={(e) => updateForm({ shipping: parseFloat(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="space-y-2 col-span-2 flex flex-col justify-end text-right">
+                <span className="text-sm text-muted-foreground">Per period, before tax</span>
+                <span className="text-xl font-bold">${formTotal.toFixed(2)}</span>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <Label>Frequency</Label>
+                <Select value={form.frequency} onValueChange={(v) => updateForm({ frequency: v as RecurringFrequency })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {RECURRING_FREQUENCIES.map((frequency) => (
+                      <SelectItem key={frequency} value={frequency}>{getRecurringFrequencyLabel(frequency)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="recurring-start">Start Date</Label>
+                <Input id="recurring-start" type="date" value={form.startDate} onChange={(e) => updateForm({ startDate: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="recurring-end">End Date</Label>
+                <Input id="recurring-end" type="date" value={form.endDate || ""} onChange={(e) => updateForm({ endDate: e.target.value })} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="recurring-billing-day">Billing Day</Label>
+                <Input
+                  id="recurring-billing-day"
+                  type="number"
+                  min="1"
+                  max="28"
+                  disabled={!form.prorateFirstPeriod}
+                  value={form.billingDay}
+                  onChange={(e) => updateForm({ billingDay: Math.min(28, Math.max(1, parseInt(e.target.value) || 1)) })}
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="recurring-prorate"
+                checked={form.prorateFirstPeriod}
+                onCheckedChange={(checked) => updateForm({ prorateFirstPeriod: checked })}
+              />
+              <Label htmlFor="recurring-prorate">Prorate the first period up to the billing day</Label>
+            </div>
+            {previewPeriod && (
+              <p className="text-sm text-muted-foreground">
+                First invoice covers {formatDate(previewPeriod.start)} – {formatDate(previewPeriod.end)}
+                {previewPeriod.prorationFactor < 1 && ` at ${(previewPeriod.prorationFactor * 100).toFixed(1)}% of the full amount`}
+              </p>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="recurring-notes">Invoice Notes</Label>
+              <Textarea id="recurring-notes" rows={2} value={form.notes || ""} onChange={(e) => updateForm({ notes: e.target.value })} />
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setEditing(null)}>Back</Button>
+              <Button onClick={handleSave} disabled={saving}>{editing === "new" ? "Create Schedule" : "Save Changes"}</Button>
+            </div>
+          </div>
+        ) : historyFor ? (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="font-medium">{historyFor.name} — {historyFor.customerName}</div>
+              <Button variant="outline" size="sm" onClick={() => setHistoryFor(null)}>Back</Button>
+            </div>
+            <div>
+              <h4 className="text-sm font-medium mb-2">Upcoming</h4>
+              {getUpcomingPeriods(historyFor).length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nothing else is scheduled</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Drafted On</TableHead>
+                      <TableHead>Period</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {getUpcomingPeriods(historyFor).map((period) => (
+                      <TableRow key={period.start}>
+                        <TableCell>{formatDate(period.start)}</TableCell>
+                        <TableCell>{formatDate(period.start)} – {formatDate(period.end)}</TableCell>
+                        <TableCell className="text-right">
+                          ${((getRecurringLinesTotal(historyFor.items) - historyFor.discount) * period.prorationFactor + historyFor.shipping).toFixed(2)}
+                          {period.prorationFactor < 1 && <span className="text-xs text-muted-foreground ml-1">(prorated)</span>}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+            <div>
+              <h4 className="text-sm font-medium mb-2">History</h4>
+              {runs.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No periods billed yet</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Period</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Invoice</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {runs.map((run) => (
+                      <TableRow key={run.id}>
+                        <TableCell>{formatDate(run.periodStart)} – {formatDate(run.periodEnd)}</TableCell>
+                        <TableCell>
+                          <Badge variant={run.status === "failed" ? "destructive" : run.status === "skipped" ? "secondary" : "outline"}>
+                            {run.status}
+                          </Badge>
+                          {run.error && <div className="text-xs text-destructive mt-1">{run.error}</div>}
+                        </TableCell>
+                        <TableCell>{run.invoiceNumber || "—"}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex justify-end">
+              <Button onClick={() => startEdit("new")}>
+                <Plus className="mr-2 h-4 w-4" />New Schedule
+              </Button>
+            </div>
+            {schedules.length === 0 ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">No recurring invoices yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Schedule</TableHead>
+                    <TableHead>Frequency</TableHead>
+                    <TableHead className="text-right">Per Period</TableHead>
+                    <TableHead>Next Invoice</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {schedules.map((schedule) => {
+                    const live = schedule.status === "active" || schedule.status === "paused";
+                    return (
+                      <TableRow key={schedule.id}>
+                        <TableCell>
+                          <div className="font-medium">{schedule.name}</div>
+                          <div className="text-xs text-muted-foreground">{schedule.customerName}</div>
+                        </TableCell>
+                        <TableCell>{getRecurringFrequencyLabel(schedule.frequency)}</TableCell>
+                        <TableCell className="text-right">
+                          ${(getRecurringLinesTotal(schedule.items) - schedule.discount + schedule.shipping).toFixed(2)}
+                        </TableCell>
+                        <TableCell>{live ? formatDate(schedule.nextRunDate) : "—"}</TableCell>
+                        <TableCell>
+                          <Badge variant={statusVariant[schedule.status]}>{getRecurringStatusLabel(schedule.status)}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex justify-end gap-1">
+                            <Button variant="ghost" size="icon" title="Upcoming and history" onClick={() => setHistoryFor(schedule)}>
+                              <History className="h-4 w-4" />
+                            </Button>
+                            {live && (
+                              <>
+                                <Button variant="ghost" size="icon" title="Edit" onClick={() => startEdit(schedule)}>
+                                  <Pencil className="h-4 w-4" />
+                                </Button>
+                                {schedule.status === "active" ? (
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    title="Pause"
+                                    onClick={() => runAction(schedule, () => setRecurringInvoiceStatus(schedule.id, "paused"), "paused")}
+                                  >
+                                    <Pause className="h-4 w-4" />
+                                  </Button>
+                                ) : (
+                                  <Button variant="ghost" size="icon" title="Resume" onClick={() => handleResume(schedule)}>
+                                    <Play className="h-4 w-4" />
+                                  </Button>
+                                )}
+                                <Button variant="ghost" size="icon" title="Skip next period" onClick={() => handleSkip(schedule)}>
+                                  <SkipForward className="h-4 w-4" />
+                                </Button>
+                                <Button variant="ghost" size="icon" title="Cancel" onClick={() => handleCancel(schedule)}>
+                                  <X className="h-4 w-4" />
+                                </Button>
+                              </>
+                            )}
+                            {isOwner() && (
+                              <Button variant="ghost" size="icon" title="Delete" onClick={() => handleDelete(schedule)}>
+                                <Trash2 className="h-4 w-4 text-destructive" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
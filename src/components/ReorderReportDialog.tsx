@@ -0,0 +1,341 @@
+import { useState, useEffect, useMemo } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ClipboardList, Download, FilePlus } from "lucide-react";
+import { toast } from "sonner";
+import { format, subDays } from "date-fns";
+import { inventoryStorage, type InventoryItem } from "@/lib/inventory-storage";
+import { getMovementsSince, type InventoryMovement } from "@/lib/inventory-movement-storage";
+import {
+  getPartVendors,
+  getPurchaseOrders,
+  getVendors,
+  setPartVendor,
+  type PurchaseOrder,
+  type Vendor,
+} from "@/lib/po-storage";
+import { saveDraftPOToStorage, type DraftPO } from "@/lib/po-drafts";
+import { buildReorderSuggestions, getUnitsSoldByPart, type ReorderSuggestion } from "@/lib/reorder";
+import { createAndDownloadExcel } from "@/lib/excel-utils";
+
+const VELOCITY_WINDOWS = [30, 90, 180];
+const MAX_VELOCITY_DAYS = Math.max(...VELOCITY_WINDOWS);
+
+interface ReorderSource {
+  items: InventoryItem[];
+  purchaseOrders: PurchaseOrder[];
+  saleMovements: InventoryMovement[];
+  partVendors: Record<string, string>;
+}
+
+interface LineOverride {
+  quantity?: number;
+  unitCost?: number;
+}
+
+export const ReorderReportDialog = () => {
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [source, setSource] = useState<ReorderSource | null>(null);
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [velocityDays, setVelocityDays] = useState(90);
+  const [leadTimeDays, setLeadTimeDays] = useState(14);
+  const [showAll, setShowAll] = useState(false);
+  const [overrides, setOverrides] = useState<Record<string, LineOverride>>({});
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!open) return;
+    setLoading(true);
+    setOverrides({});
+    setExcluded(new Set());
+    // Movements are fetched for the longest window once; shorter windows filter client-side
+    Promise.all([
+      inventoryStorage.getItems(),
+      getPurchaseOrders(),
+      getMovementsSince(subDays(new Date(), MAX_VELOCITY_DAYS).toISOString(), ['sale', 'sale_reversal']),
+      getPartVendors(),
+      getVendors(),
+    ])
+      .then(([items, purchaseOrders, saleMovements, partVendors, vendorList]) => {
+        setSource({ items, purchaseOrders, saleMovements, partVendors });
+        setVendors(vendorList);
+      })
+      .catch(error => console.error("Error loading reorder data:", error))
+      .finally(() => setLoading(false));
+  }, [open]);
+
+  const suggestions = useMemo(() => {
+    if (!source) return [];
+    const since = subDays(new Date(), velocityDays).toISOString();
+    const unitsSold = getUnitsSoldByPart(
+      source.items,
+      source.saleMovements.filter(m => m.createdAt >= since),
+      since
+    );
+    return buildReorderSuggestions(source.items, source.purchaseOrders, unitsSold, source.partVendors, {
+      velocityDays,
+      leadTimeDays,
+    });
+  }, [source, velocityDays, leadTimeDays]);
+
+  const rows = useMemo(
+    () => (showAll ? suggestions : suggestions.filter(s => s.suggestedQuantity > 0)),
+    [suggestions, showAll]
+  );
+
+  const getQuantity = (s: ReorderSuggestion) => overrides[s.partNumber]?.quantity ?? s.suggestedQuantity;
+  const getUnitCost = (s: ReorderSuggestion) => overrides[s.partNumber]?.unitCost ?? s.unitCost;
+  const isSelected = (s: ReorderSuggestion) => !excluded.has(s.partNumber) && getQuantity(s) > 0;
+
+  const selectedRows = rows.filter(isSelected);
+
+  const setOverride = (partNumber: string, update: LineOverride) => {
+    setOverrides(prev => ({ ...prev, [partNumber]: { ...prev[partNumber], ...update } }));
+  };
+
+  const toggleSelected = (partNumber: string, checked: boolean) => {
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (checked) next.delete(partNumber);
+      else next.add(partNumber);
+      return next;
+    });
+  };
+
+  const handleVendorChange = async (partNumber: string, vendorId: string) => {
+    try {
+      await setPartVendor(partNumber, vendorId);
+      setSource(prev => prev && { ...prev, partVendors: { ...prev.partVendors, [partNumber]: vendorId } });
+    } catch (error) {
+      console.error("Error saving preferred vendor:", error);
+      toast.error("Failed to save preferred vendor");
+    }
+  };
+
+  const handleCreateDrafts = () => {
+    const missingVendor = selectedRows.filter(s => !s.vendorId);
+    if (missingVendor.length > 0) {
+      toast.error(`Choose a vendor for ${missingVendor.map(s => s.partNumber).join(", ")}`);
+      return;
+    }
+
+    const byVendor = selectedRows.reduce((acc, s) => {
+      const vendorId = s.vendorId as string;
+      (acc[vendorId] = acc[vendorId] || []).push(s);
+      return acc;
+    }, {} as Record<string, ReorderSuggestion[]>);
+
+    const savedAt = new Date().toISOString();
+    Object.entries(byVendor).forEach(([vendorId, lines]) => {
+      const draft: DraftPO = {
+        id: crypto.randomUUID(),
+        vendorId,
+        vendorName: vendors.find(v => v.id === vendorId)?.name || "",
+        lineItems: lines.map(s => ({
+          id: crypto.randomUUID(),
+          partNumber: s.partNumber,
+          serialNumber: "",
+          description: s.description,
+          quantity: getQuantity(s),
+          unitCost: getUnitCost(s),
+        })),
+        additionalCosts: [],
+        notes: `Generated from reorder report on ${format(new Date(), 'MMM d, yyyy')}`,
+        savedAt,
+      };
+      saveDraftPOToStorage(draft);
+    });
+
+    const count = Object.keys(byVendor).length;
+    toast.success(`Created ${count} draft PO${count === 1 ? "" : "s"}. Open Issue PO to review and send.`);
+    setOpen(false);
+  };
+
+  const handleExport = async () => {
+    try {
+      const data: Record<string, unknown>[] = rows.map(s => ({
+        'Part Number': s.partNumber,
+        'Description': s.description,
+        'On Hand': s.onHand,
+        'On Order': s.onOrder,
+        'Min': s.minLevel ?? '',
+        'Max': s.maxLevel ?? '',
+        [`Sold (${velocityDays}d)`]: s.unitsSold,
+        'Days of Cover': s.daysOfCover ?? '',
+        'Vendor': vendors.find(v => v.id === s.vendorId)?.name || '',
+        'Order Qty': getQuantity(s),
+        'Unit Cost': getUnitCost(s),
+      }));
+
+      await createAndDownloadExcel(
+        data,
+        "Reorder",
+        `reorder_report_${format(new Date(), 'yyyy-MM-dd')}.xlsx`,
+        [18, 35, 10, 10, 8, 8, 12, 14, 25, 10, 12]
+      );
+      toast.success("Reorder report exported");
+    } catch (error) {
+      console.error("Export error:", error);
+      toast.error("Failed to export reorder report");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <ClipboardList className="mr-2 h-4 w-4" />
+          Reorder
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-6xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Reorder Report</DialogTitle>
+          <DialogDescription>
+            Parts with min/max levels, totalled across all locations. When stock plus open POs, less expected
+            sales over the lead time, falls to the minimum, the suggestion orders back up to the maximum.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label className="text-xs">Sales velocity from</Label>
+            <Select value={String(velocityDays)} onValueChange={(v) => setVelocityDays(Number(v))}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {VELOCITY_WINDOWS.map(days => (
+                  <SelectItem key={days} value={String(days)}>Last {days} days</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="reorder-lead-time" className="text-xs">Lead time (days)</Label>
+            <Input
+              id="reorder-lead-time"
+              type="number"
+              min="0"
+              className="w-28"
+              value={leadTimeDays}
+              onChange={(e) => setLeadTimeDays(Math.max(parseInt(e.target.value) || 0, 0))}
+            />
+          </div>
+          <div className="flex items-center gap-2 pb-2">
+            <Switch id="reorder-show-all" checked={showAll} onCheckedChange={setShowAll} />
+            <Label htmlFor="reorder-show-all" className="text-sm">Show parts that don't need ordering</Label>
+          </div>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-8"></TableHead>
+              <TableHead>Part</TableHead>
+              <TableHead className="text-right">On Hand</TableHead>
+              <TableHead className="text-right">On Order</TableHead>
+              <TableHead className="text-right">Min / Max</TableHead>
+              <TableHead className="text-right">Sold ({velocityDays}d)</TableHead>
+              <TableHead className="text-right">Cover</TableHead>
+              <TableHead>Vendor</TableHead>
+              <TableHead className="w-24">Unit Cost</TableHead>
+              <TableHead className="w-24">Order Qty</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading ? (
+              <TableRow>
+                <TableCell colSpan={10} className="text-center text-muted-foreground">Loading...</TableCell>
+              </TableRow>
+            ) : rows.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={10} className="text-center text-muted-foreground">
+                  {showAll ? "No parts have min/max levels set" : "Nothing needs reordering"}
+                </TableCell>
+              </TableRow>
+            ) : (
+              rows.map(s => (
+                <TableRow key={s.partNumber}>
+                  <TableCell>
+                    <Checkbox
+                      checked={isSelected(s)}
+                      disabled={getQuantity(s) <= 0}
+                      onCheckedChange={(checked) => toggleSelected(s.partNumber, checked === true)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="font-medium">{s.partNumber}</div>
+                    <div className="max-w-[220px] truncate text-xs text-muted-foreground" title={s.description}>
+                      {s.description}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {s.onHand}
+                    {s.minLevel !== undefined && s.onHand <= s.minLevel && (
+                      <Badge variant="destructive" className="ml-2">Low</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{s.onOrder || "-"}</TableCell>
+                  <TableCell className="text-right">{s.minLevel ?? "-"} / {s.maxLevel ?? "-"}</TableCell>
+                  <TableCell className="text-right">{s.unitsSold}</TableCell>
+                  <TableCell className="text-right">{s.daysOfCover !== undefined ? `${s.daysOfCover}d` : "-"}</TableCell>
+                  <TableCell>
+                    <Select value={s.vendorId || ""} onValueChange={(v) => handleVendorChange(s.partNumber, v)}>
+                      <SelectTrigger className="h-8 w-40">
+                        <SelectValue placeholder="Choose vendor" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {vendors.map(v => (
+                          <SelectItem key={v.id} value={v.id}>{v.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      className="h-8"
+                      value={getUnitCost(s)}
+                      onChange={(e) => setOverride(s.partNumber, { unitCost: parseFloat(e.target.value) || 0 })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min="0"
+                      className="h-8"
+                      value={getQuantity(s)}
+                      onChange={(e) => setOverride(s.partNumber, { quantity: Math.max(parseInt(e.target.value) || 0, 0) })}
+                    />
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+
+        <div className="flex justify-between gap-2">
+          <Button variant="outline" onClick={handleExport} disabled={rows.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Export
+          </Button>
+          <Button onClick={handleCreateDrafts} disabled={selectedRows.length === 0}>
+            <FilePlus className="mr-2 h-4 w-4" />
+            Create Draft POs ({selectedRows.length} lines)
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
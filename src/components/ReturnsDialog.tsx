@@ -0,0 +1,753 @@
+import { useState, useEffect, useMemo } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CheckCircle2, PackageCheck, Printer, Receipt, Search, Trash2, Undo2, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { inventoryStorage, type DocLineItem, type InventoryItem, type Invoice } from "@/lib/inventory-storage";
+import { getWarehouses, type Warehouse } from "@/lib/warehouse-storage";
+import { PAYMENT_METHODS, getPaymentMethodLabel, type PaymentMethod } from "@/lib/invoice-payment-storage";
+import {
+  CONDITION_GRADES,
+  RETURN_REASONS,
+  completeRma,
+  createRma,
+  deleteRma,
+  estimateRmaCredit,
+  getConditionGradeLabel,
+  getCreditMemos,
+  getReturnReasonLabel,
+  getReturnableLines,
+  getRmaStatusLabel,
+  getRmas,
+  getSettlementLabel,
+  issueCreditMemo,
+  printCreditMemo,
+  setRmaStatus,
+  updateRmaLine,
+  type ConditionGrade,
+  type CreditMemo,
+  type CreditMemoSettlement,
+  type ReturnReason,
+  type Rma,
+  type RmaDisposition,
+  type RmaLine,
+  type RmaStatus,
+} from "@/lib/rma-storage";
+import { WarehouseSelect } from "@/components/inventory/WarehouseSelect";
+import { useUserRole } from "@/hooks/useUserRole";
+import { logAuditEvent, AuditEvents } from "@/hooks/useAuditLog";
+
+interface ReturnsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Sold unit to start a return for; opens the New Return tab on its invoice */
+  prefillItem?: InventoryItem | null;
+  onChanged: () => void;
+}
+
+interface ReturnPick {
+  selected: boolean;
+  quantity: number;
+  reason: ReturnReason;
+  reportedIssue: string;
+}
+
+const statusVariant: Record<RmaStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  open: "outline",
+  received: "default",
+  closed: "secondary",
+  cancelled: "destructive",
+};
+
+const lineKey = (line: Pick<DocLineItem, 'itemId' | 'serialNumber'>) => `${line.itemId}:${line.serialNumber || ''}`;
+
+const describeLine = (line: Pick<RmaLine, 'partNumber' | 'serialNumber' | 'quantity'>) =>
+  `${line.quantity > 1 ? `${line.quantity} × ` : ''}${line.partNumber}${line.serialNumber ? ` (${line.serialNumber})` : ''}`;
+
+export const ReturnsDialog = ({ open, onOpenChange, prefillItem, onChanged }: ReturnsDialogProps) => {
+  const { isOwner } = useUserRole();
+  const [tab, setTab] = useState("rmas");
+  const [rmas, setRmas] = useState<Rma[]>([]);
+  const [creditMemos, setCreditMemos] = useState<CreditMemo[]>([]);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // New return
+  const [invoiceSearch, setInvoiceSearch] = useState("");
+  const [invoiceId, setInvoiceId] = useState<string | null>(null);
+  const [picks, setPicks] = useState<Record<string, ReturnPick>>({});
+  const [rmaNotes, setRmaNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  // Inspection / credit of one RMA
+  const [inspectId, setInspectId] = useState<string | null>(null);
+  const [restockWarehouseId, setRestockWarehouseId] = useState<string | undefined>();
+  const [settlement, setSettlement] = useState<CreditMemoSettlement>('apply_to_balance');
+  const [refundMethod, setRefundMethod] = useState<PaymentMethod>('check');
+  const [memoNotes, setMemoNotes] = useState("");
+
+  const loadData = async () => {
+    try {
+      const [rmaList, memoList, invoiceList, warehouseList] = await Promise.all([
+        getRmas(),
+        getCreditMemos(),
+        inventoryStorage.getInvoices(),
+        getWarehouses(),
+      ]);
+      setRmas(rmaList);
+      setCreditMemos(memoList);
+      setInvoices(invoiceList.filter(inv => inv.status !== 'draft'));
+      setWarehouses(warehouseList);
+    } catch (error) {
+      console.error("Error loading returns:", error);
+    }
+  };
+
+  useEffect(() => {
+    if (open) loadData();
+  }, [open]);
+
+  useEffect(() => {
+    if (!open) return;
+    if (!prefillItem?.invoiceId) {
+      setTab("rmas");
+      return;
+    }
+    setTab("new");
+    setInvoiceId(prefillItem.invoiceId);
+    setPicks({
+      [lineKey({ itemId: prefillItem.id, serialNumber: prefillItem.serialNumber })]: {
+        selected: true,
+        quantity: 1,
+        reason: 'defective',
+        reportedIssue: "",
+      },
+    });
+  }, [open, prefillItem]);
+
+  const invoiceById = useMemo(() => new Map(invoices.map(inv => [inv.id, inv])), [invoices]);
+  const memoByRma = useMemo(() => new Map(creditMemos.filter(m => m.rmaId).map(m => [m.rmaId!, m])), [creditMemos]);
+
+  const invoiceMatches = useMemo(() => {
+    const q = invoiceSearch.trim().toLowerCase();
+    if (!q) return [];
+    return invoices
+      .filter(inv =>
+        inv.invoiceNumber.toLowerCase().includes(q) ||
+        (inv.customerName || "").toLowerCase().includes(q) ||
+        inv.items.some(line => (line.serialNumber || "").toLowerCase().includes(q))
+      )
+      .slice(0, 10);
+  }, [invoices, invoiceSearch]);
+
+  const selectedInvoice = invoiceId ? invoiceById.get(invoiceId) || null : null;
+  const returnableLines = useMemo(
+    () => (selectedInvoice ? getReturnableLines(selectedInvoice, rmas) : []),
+    [selectedInvoice, rmas]
+  );
+
+  const inspectRma = rmas.find(r => r.id === inspectId) || null;
+  const inspectMemo = inspectRma ? memoByRma.get(inspectRma.id) : undefined;
+
+  const pickFor = (line: DocLineItem): ReturnPick =>
+    picks[lineKey(line)] || { selected: false, quantity: line.quantity || 1, reason: 'defective', reportedIssue: "" };
+
+  const updatePick = (line: DocLineItem, changes: Partial<ReturnPick>) =>
+    setPicks(prev => ({ ...prev, [lineKey(line)]: { ...pickFor(line), ...changes } }));
+
+  const chooseInvoice = (invoice: Invoice) => {
+    setInvoiceId(invoice.id);
+    setPicks({});
+    setInvoiceSearch("");
+  };
+
+  const handleCreate = async () => {
+    if (!selectedInvoice) return;
+    const lines = returnableLines
+      .map(line => ({ line, pick: pickFor(line) }))
+      .filter(({ pick }) => pick.selected)
+      .map(({ line, pick }) => ({
+        line,
+        quantity: Math.min(Math.max(pick.quantity, 1), line.quantity || 1),
+        reason: pick.reason,
+        reportedIssue: pick.reportedIssue.trim() || undefined,
+      }));
+    if (lines.length === 0) {
+      toast.error("Choose at least one line to return");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const rma = await createRma(selectedInvoice, lines, rmaNotes.trim() || undefined);
+      logAuditEvent(AuditEvents.RECORD_CREATED('rma', rma.id, rma.rmaNumber));
+      toast.success(`${rma.rmaNumber} opened for ${selectedInvoice.invoiceNumber}`);
+      setInvoiceId(null);
+      setPicks({});
+      setRmaNotes("");
+      setTab("rmas");
+      loadData();
+    } catch (error) {
+      console.error("Error creating RMA:", error);
+      toast.error("Failed to open return");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const runRmaAction = async (rma: Rma, action: () => Promise<void>, success: string, changes?: Record<string, unknown>) => {
+    try {
+      setBusyId(rma.id);
+      await action();
+      if (changes) logAuditEvent(AuditEvents.RECORD_UPDATED('rma', rma.id, rma.rmaNumber, changes));
+      toast.success(success);
+      await loadData();
+    } catch (error) {
+      console.error("Error updating RMA:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update return");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (rma: Rma) => {
+    if (!confirm(`Delete ${rma.rmaNumber}?`)) return;
+    try {
+      await deleteRma(rma.id);
+      logAuditEvent(AuditEvents.RECORD_DELETED('rma', rma.id, rma.rmaNumber));
+      if (inspectId === rma.id) setInspectId(null);
+      setRmas(prev => prev.filter(r => r.id !== rma.id));
+    } catch (error) {
+      console.error("Error deleting RMA:", error);
+      toast.error("Failed to delete return");
+    }
+  };
+
+  const handleLineChange = async (line: RmaLine, changes: Partial<Pick<RmaLine, 'inspectionNotes' | 'conditionGrade' | 'disposition'>>) => {
+    setRmas(prev => prev.map(r => ({
+      ...r,
+      lines: r.lines.map(l => (l.id === line.id ? { ...l, ...changes } : l)),
+    })));
+    try {
+      await updateRmaLine(line.id, changes);
+    } catch (error) {
+      console.error("Error saving inspection:", error);
+      toast.error("Failed to save inspection");
+      loadData();
+    }
+  };
+
+  const handleComplete = (rma: Rma) => {
+    const restocked = rma.lines.filter(l => l.disposition === 'restock').length;
+    const scrapped = rma.lines.filter(l => l.disposition === 'scrap').length;
+    if (!confirm(`Complete ${rma.rmaNumber}? ${restocked} line(s) go back into stock and ${scrapped} are scrapped.`)) return;
+    runRmaAction(rma, async () => {
+      await completeRma(rma.id, restockWarehouseId);
+      onChanged();
+    }, `${rma.rmaNumber} completed`, {
+      status: 'closed',
+      lines: rma.lines.map(l => ({
+        partNumber: l.partNumber,
+        serialNumber: l.serialNumber,
+        disposition: l.disposition,
+        conditionGrade: l.conditionGrade,
+      })),
+    });
+  };
+
+  const handleIssueCredit = (rma: Rma) => {
+    const label = settlement === 'refund' ? `refund by ${getPaymentMethodLabel(refundMethod)}` : "credit against the invoice balance";
+    if (!confirm(`Issue a credit memo for ${rma.rmaNumber} as a ${label}?`)) return;
+    runRmaAction(rma, async () => {
+      const number = await issueCreditMemo({
+        rmaId: rma.id,
+        settlement,
+        refundMethod,
+        notes: memoNotes.trim() || undefined,
+      });
+      logAuditEvent(AuditEvents.RECORD_CREATED('credit_memo', rma.id, number));
+      setMemoNotes("");
+      onChanged();
+    }, "Credit memo issued");
+  };
+
+  const selectedCount = returnableLines.filter(line => pickFor(line).selected).length;
+  const inspectionComplete = !!inspectRma && inspectRma.lines.every(l =>
+    l.disposition === 'scrap' || (l.disposition === 'restock' && !!l.conditionGrade)
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Returns & Credit Memos</DialogTitle>
+          <DialogDescription>
+            Open an RMA against an invoice, inspect what comes back, restock or scrap each unit, and credit the
+            customer's balance or refund them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={tab} onValueChange={setTab}>
+          <TabsList>
+            <TabsTrigger value="rmas">RMAs</TabsTrigger>
+            <TabsTrigger value="new">New Return</TabsTrigger>
+            <TabsTrigger value="credits">Credit Memos</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="rmas" className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>RMA</TableHead>
+                  <TableHead>Invoice</TableHead>
+                  <TableHead>Lines</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rmas.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">No returns yet</TableCell>
+                  </TableRow>
+                ) : (
+                  rmas.map(rma => {
+                    const memo = memoByRma.get(rma.id);
+                    return (
+                      <TableRow key={rma.id} className={inspectId === rma.id ? "bg-muted/50" : ""}>
+                        <TableCell>
+                          <div className="font-medium">{rma.rmaNumber}</div>
+                          <div className="text-xs text-muted-foreground">{format(new Date(rma.createdAt), "MMM d, yyyy")}</div>
+                        </TableCell>
+                        <TableCell>
+                          <div>{invoiceById.get(rma.invoiceId)?.invoiceNumber || "—"}</div>
+                          <div className="text-xs text-muted-foreground">{rma.customerName}</div>
+                        </TableCell>
+                        <TableCell className="text-xs">
+                          {rma.lines.map(line => (
+                            <div key={line.id}>{describeLine(line)} · {getReturnReasonLabel(line.reason)}</div>
+                          ))}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-col items-start gap-1">
+                            <Badge variant={statusVariant[rma.status]}>{getRmaStatusLabel(rma.status)}</Badge>
+                            {memo && <span className="text-xs text-muted-foreground">{memo.creditMemoNumber}</span>}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex justify-end gap-1">
+                            {rma.status === 'open' && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={busyId === rma.id}
+                                onClick={() => runRmaAction(rma, () => setRmaStatus(rma.id, 'received'), `${rma.rmaNumber} received`, { status: 'received' })}
+                              >
+                                <PackageCheck className="mr-1 h-3 w-3" />
+                                Receive
+                              </Button>
+                            )}
+                            {(rma.status === 'received' || rma.status === 'closed') && (
+                              <Button size="sm" variant="outline" onClick={() => setInspectId(rma.id)}>
+                                {rma.status === 'received' ? "Inspect" : "View"}
+                              </Button>
+                            )}
+                            {(rma.status === 'open' || rma.status === 'received') && !memo && (
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                className="h-8 w-8"
+                                title="Cancel return"
+                                disabled={busyId === rma.id}
+                                onClick={() => runRmaAction(rma, () => setRmaStatus(rma.id, 'cancelled'), "Return cancelled", { status: 'cancelled' })}
+                              >
+                                <XCircle className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {rma.status === 'open' && isOwner() && (
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                className="h-8 w-8 text-destructive"
+                                onClick={() => handleDelete(rma)}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+
+            {inspectRma && (
+              <div className="border-t pt-4 space-y-4">
+                <div className="flex items-center justify-between">
+                  <h4 className="text-sm font-semibold">
+                    {inspectRma.status === 'received' ? "Inspect" : "Inspection for"} {inspectRma.rmaNumber}
+                  </h4>
+                  <Button variant="ghost" size="sm" onClick={() => setInspectId(null)}>Close</Button>
+                </div>
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Unit</TableHead>
+                      <TableHead>Reported</TableHead>
+                      <TableHead>Condition</TableHead>
+                      <TableHead>Disposition</TableHead>
+                      <TableHead>Inspection Notes</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {inspectRma.lines.map(line => {
+                      const editable = inspectRma.status === 'received';
+                      return (
+                        <TableRow key={line.id}>
+                          <TableCell>
+                            <div className="font-medium">{describeLine(line)}</div>
+                            <div className="text-xs text-muted-foreground">${line.unitPrice.toFixed(2)} each</div>
+                          </TableCell>
+                          <TableCell className="text-xs">
+                            <div>{getReturnReasonLabel(line.reason)}</div>
+                            {line.reportedIssue && <div className="text-muted-foreground">{line.reportedIssue}</div>}
+                          </TableCell>
+                          <TableCell>
+                            <Select
+                              value={line.conditionGrade || ""}
+                              disabled={!editable}
+                              onValueChange={(v) => handleLineChange(line, { conditionGrade: v as ConditionGrade })}
+                            >
+                              <SelectTrigger className="h-8 w-28">
+                                <SelectValue placeholder="Grade" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {CONDITION_GRADES.map(grade => (
+                                  <SelectItem key={grade} value={grade}>{getConditionGradeLabel(grade)}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell>
+                            <Select
+                              value={line.disposition}
+                              disabled={!editable}
+                              onValueChange={(v) => handleLineChange(line, { disposition: v as RmaDisposition })}
+                            >
+                              <SelectTrigger className="h-8 w-28">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="pending">Pending</SelectItem>
+                                <SelectItem value="restock">Restock</SelectItem>
+                                <SelectItem value="scrap">Scrap</SelectItem>
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              className="h-8"
+                              defaultValue={line.inspectionNotes || ""}
+                              disabled={!editable}
+                              onBlur={(e) => {
+                                if (e.target.value !== (line.inspectionNotes || "")) {
+                                  handleLineChange(line, { inspectionNotes: e.target.value });
+                                }
+                              }}
+                            />
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+
+                {inspectRma.status === 'received' && (
+                  <div className="flex items-end justify-end gap-3">
+                    <div className="space-y-2">
+                      <Label>Restock into</Label>
+                      <WarehouseSelect
+                        warehouses={warehouses}
+                        value={restockWarehouseId}
+                        onChange={setRestockWarehouseId}
+                        placeholder="Original location"
+                        className="w-48"
+                      />
+                    </div>
+                    <Button
+                      onClick={() => handleComplete(inspectRma)}
+                      disabled={!inspectionComplete || busyId === inspectRma.id}
+                      title={inspectionComplete ? undefined : "Grade and disposition every line first"}
+                    >
+                      <CheckCircle2 className="mr-2 h-4 w-4" />
+                      Complete Return
+                    </Button>
+                  </div>
+                )}
+
+                <div className="rounded-lg border p-4 space-y-3">
+                  <h4 className="text-sm font-semibold flex items-center gap-2">
+                    <Receipt className="h-4 w-4" />
+                    Credit Memo
+                  </h4>
+                  {inspectMemo ? (
+                    <div className="flex items-center justify-between text-sm">
+                      <span>
+                        <span className="font-medium">{inspectMemo.creditMemoNumber}</span> · ${inspectMemo.total.toFixed(2)} ·{" "}
+                        {getSettlementLabel(inspectMemo.settlement)}
+                      </span>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => printCreditMemo(inspectMemo, invoiceById.get(inspectMemo.invoiceId))}
+                      >
+                        <Printer className="mr-1 h-3 w-3" />
+                        Print
+                      </Button>
+                    </div>
+                  ) : (
+                    <>
+                      <div className="grid grid-cols-3 gap-3">
+                        <div className="space-y-2">
+                          <Label>Settlement</Label>
+                          <Select value={settlement} onValueChange={(v) => setSettlement(v as CreditMemoSettlement)}>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="apply_to_balance">Apply to invoice balance</SelectItem>
+                              <SelectItem value="refund">Refund customer</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        {settlement === 'refund' && (
+                          <div className="space-y-2">
+                            <Label>Refund method</Label>
+                            <Select value={refundMethod} onValueChange={(v) => setRefundMethod(v as PaymentMethod)}>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {PAYMENT_METHODS.map(m => (
+                                  <SelectItem key={m} value={m}>{getPaymentMethodLabel(m)}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        )}
+                        <div className="col-span-3 space-y-2">
+                          <Label htmlFor="memo-notes">Notes</Label>
+                          <Textarea id="memo-notes" rows={2} value={memoNotes} onChange={(e) => setMemoNotes(e.target.value)} />
+                        </div>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <p className="text-sm text-muted-foreground">
+                          ${estimateRmaCredit(inspectRma).toFixed(2)} before the invoice's discount and tax are prorated
+                        </p>
+                        <Button onClick={() => handleIssueCredit(inspectRma)} disabled={busyId === inspectRma.id}>
+                          Issue Credit Memo
+                        </Button>
+                      </div>
+                    </>
+                  )}
+                </div>
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="new" className="space-y-4">
+            {selectedInvoice ? (
+              <>
+                <div className="flex items-center justify-between rounded-lg border p-3 text-sm">
+                  <div>
+                    <span className="font-medium">{selectedInvoice.invoiceNumber}</span> · {selectedInvoice.customerName}
+                    <span className="text-muted-foreground"> · {format(new Date(selectedInvoice.createdAt), "MMM d, yyyy")}</span>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => { setInvoiceId(null); setPicks({}); }}>Change</Button>
+                </div>
+
+                {returnableLines.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Every line on this invoice is already on a return.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-8"></TableHead>
+                        <TableHead>Line</TableHead>
+                        <TableHead className="w-20">Qty</TableHead>
+                        <TableHead>Reason</TableHead>
+                        <TableHead>Reported Issue</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {returnableLines.map(line => {
+                        const pick = pickFor(line);
+                        return (
+                          <TableRow key={lineKey(line)}>
+                            <TableCell>
+                              <Checkbox
+                                checked={pick.selected}
+                                onCheckedChange={(checked) => updatePick(line, { selected: checked === true })}
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <div className="font-medium">{line.partNumber}</div>
+                              <div className="text-xs text-muted-foreground">
+                                {line.serialNumber ? `SN: ${line.serialNumber} · ` : ""}${line.price.toFixed(2)}
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              {(line.quantity || 1) > 1 ? (
+                                <Input
+                                  type="number"
+                                  min={1}
+                                  max={line.quantity}
+                                  className="h-8"
+                                  value={pick.quantity}
+                                  onChange={(e) => updatePick(line, { quantity: parseInt(e.target.value) || 1 })}
+                                />
+                              ) : 1}
+                            </TableCell>
+                            <TableCell>
+                              <Select value={pick.reason} onValueChange={(v) => updatePick(line, { reason: v as ReturnReason })}>
+                                <SelectTrigger className="h-8 w-40">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {RETURN_REASONS.map(reason => (
+                                    <SelectItem key={reason} value={reason}>{getReturnReasonLabel(reason)}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </TableCell>
+                            <TableCell>
+                              <Input
+                                className="h-8"
+                                value={pick.reportedIssue}
+                                onChange={(e) => updatePick(line, { reportedIssue: e.target.value })}
+                              />
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                )}
+
+                <div className="space-y-2">
+                  <Label htmlFor="rma-notes">Notes</Label>
+                  <Textarea id="rma-notes" rows={2} value={rmaNotes} onChange={(e) => setRmaNotes(e.target.value)} />
+                </div>
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-muted-foreground">{selectedCount} line(s) selected</p>
+                  <Button onClick={handleCreate} disabled={saving || selectedCount === 0}>
+                    <Undo2 className="mr-2 h-4 w-4" />
+                    Open RMA
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <div className="space-y-2">
+                <div className="relative">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    className="pl-10"
+                    placeholder="Find the invoice by number, customer or serial..."
+                    value={invoiceSearch}
+                    onChange={(e) => setInvoiceSearch(e.target.value)}
+                  />
+                </div>
+                {invoiceMatches.map(invoice => (
+                  <button
+                    key={invoice.id}
+                    type="button"
+                    className="w-full flex items-center justify-between rounded-md border p-2 text-left text-sm hover:bg-accent"
+                    onClick={() => chooseInvoice(invoice)}
+                  >
+                    <span>
+                      <span className="font-medium">{invoice.invoiceNumber}</span> · {invoice.customerName}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {format(new Date(invoice.createdAt), "MMM d, yyyy")} · ${invoice.total.toFixed(2)}
+                    </span>
+                  </button>
+                ))}
+                {invoiceSearch.trim() && invoiceMatches.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No finalized invoices match</p>
+                )}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="credits">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Credit Memo</TableHead>
+                  <TableHead>Invoice</TableHead>
+                  <TableHead>Lines</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead>Settlement</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {creditMemos.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground">No credit memos yet</TableCell>
+                  </TableRow>
+                ) : (
+                  creditMemos.map(memo => (
+                    <TableRow key={memo.id}>
+                      <TableCell>
+                        <div className="font-medium">{memo.creditMemoNumber}</div>
+                        <div className="text-xs text-muted-foreground">{format(new Date(memo.createdAt), "MMM d, yyyy")}</div>
+                      </TableCell>
+                      <TableCell>
+                        <div>{invoiceById.get(memo.invoiceId)?.invoiceNumber || "—"}</div>
+                        <div className="text-xs text-muted-foreground">{memo.customerName}</div>
+                      </TableCell>
+                      <TableCell className="text-xs">
+                        {memo.items.map((item, index) => (
+                          <div key={index}>{describeLine(item)}</div>
+                        ))}
+                      </TableCell>
+                      <TableCell className="text-right">${memo.total.toFixed(2)}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{getSettlementLabel(memo.settlement)}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          className="h-8 w-8"
+                          title="Print credit memo"
+                          onClick={() => printCreditMemo(memo, invoiceById.get(memo.invoiceId))}
+                        >
+                          <Printer className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
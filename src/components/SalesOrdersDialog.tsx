@@ -0,0 +1,365 @@
+import { useState, useEffect, useMemo } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ClipboardList, ListChecks, PackageOpen, Truck, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { inventoryStorage, type InventoryItem } from "@/lib/inventory-storage";
+import { getWarehouses, type Warehouse } from "@/lib/warehouse-storage";
+import {
+  cancelSalesOrder,
+  getBackorderQuantity,
+  getSalesOrderStatusLabel,
+  getSalesOrders,
+  shipSalesOrder,
+  type SalesOrder,
+  type SalesOrderLine,
+  type SalesOrderShipment,
+  type SalesOrderStatus,
+} from "@/lib/sales-order-storage";
+import { printPackingSlip, printPickList, type PrintShippingLine } from "@/lib/document-print";
+import { logAuditEvent, AuditEvents } from "@/hooks/useAuditLog";
+
+interface SalesOrdersDialogProps {
+  onChanged: () => void;
+}
+
+const statusVariant: Record<SalesOrderStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  open: "outline",
+  partially_shipped: "default",
+  shipped: "secondary",
+  cancelled: "destructive",
+};
+
+const formatTimestamp = (value?: string) => (value ? format(new Date(value), "MMM d, yyyy h:mm a") : "");
+
+const isOpenOrder = (order: SalesOrder) => order.status === 'open' || order.status === 'partially_shipped';
+
+export const SalesOrdersDialog = ({ onChanged }: SalesOrdersDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [tab, setTab] = useState("open");
+  const [orders, setOrders] = useState<SalesOrder[]>([]);
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // Ship form for one order at a time; quantities map line id -> quantity to ship
+  const [shippingOrderId, setShippingOrderId] = useState<string | null>(null);
+  const [shipQuantities, setShipQuantities] = useState<Record<string, number>>({});
+  const [carrier, setCarrier] = useState("");
+  const [trackingNumber, setTrackingNumber] = useState("");
+
+  const loadData = async () => {
+    try {
+      const [orderList, itemList, warehouseList] = await Promise.all([
+        getSalesOrders(),
+        inventoryStorage.getItems(),
+        getWarehouses(),
+      ]);
+      setOrders(orderList);
+      setItems(itemList);
+      setWarehouses(warehouseList);
+    } catch (error) {
+      console.error("Error loading sales orders:", error);
+    }
+  };
+
+  useEffect(() => {
+    if (open) loadData();
+  }, [open]);
+
+  const itemsById = useMemo(() => new Map(items.map(i => [i.id, i])), [items]);
+
+  const openOrders = orders.filter(isOpenOrder);
+  const closedOrders = orders.filter(order => !isOpenOrder(order));
+
+  const toShippingLine = (line: SalesOrderLine, quantity: number): PrintShippingLine => {
+    const item = line.itemId ? itemsById.get(line.itemId) : undefined;
+    return {
+      partNumber: line.partNumber,
+      serialNumber: line.serialNumber,
+      description: line.description,
+      quantity,
+      location: warehouses.find(w => w.id === item?.warehouseId)?.name,
+      shelfLocation: item?.shelfLocation,
+      weight: item?.weight,
+      volume: item?.volume,
+    };
+  };
+
+  const handlePickList = (order: SalesOrder) => {
+    const lines = order.lines.filter(line => getBackorderQuantity(line) > 0);
+    printPickList({
+      number: order.orderNumber,
+      customerName: order.customerName,
+      shipToName: order.shipToName,
+      shipToAddress: order.shipToAddress,
+      lines: lines.map(line => toShippingLine(line, getBackorderQuantity(line))),
+      notes: order.notes,
+    });
+  };
+
+  const handlePackingSlip = (order: SalesOrder, shipment: SalesOrderShipment) => {
+    const linesById = new Map(order.lines.map(line => [line.id, line]));
+    printPackingSlip({
+      number: order.orderNumber,
+      reference: shipment.shipmentNumber,
+      date: shipment.shippedAt,
+      customerName: order.customerName,
+      shipToName: order.shipToName,
+      shipToAddress: order.shipToAddress,
+      carrier: shipment.carrier,
+      trackingNumber: shipment.trackingNumber,
+      lines: shipment.lines.flatMap(entry => {
+        const line = linesById.get(entry.salesOrderLineId);
+        return line ? [toShippingLine(line, entry.quantity)] : [];
+      }),
+    });
+  };
+
+  const startShipping = (order: SalesOrder) => {
+    setShippingOrderId(order.id);
+    setShipQuantities(Object.fromEntries(order.lines.map(line => [line.id, getBackorderQuantity(line)])));
+    setCarrier("");
+    setTrackingNumber("");
+  };
+
+  const handleShip = async (order: SalesOrder) => {
+    const lines = order.lines
+      .map(line => ({ lineId: line.id, quantity: shipQuantities[line.id] || 0 }))
+      .filter(entry => entry.quantity > 0);
+    if (lines.length === 0) {
+      toast.error("Enter a quantity for at least one line");
+      return;
+    }
+    const overshipped = order.lines.find(line => (shipQuantities[line.id] || 0) > getBackorderQuantity(line));
+    if (overshipped) {
+      toast.error(`Only ${getBackorderQuantity(overshipped)} of ${overshipped.partNumber} left to ship`);
+      return;
+    }
+
+    try {
+      setBusyId(order.id);
+      const { invoiceNumber } = await shipSalesOrder(order, {
+        lines,
+        carrier: carrier.trim() || undefined,
+        trackingNumber: trackingNumber.trim() || undefined,
+      });
+      await logAuditEvent(AuditEvents.RECORD_UPDATED('sales_order', order.id, order.orderNumber, { shipped: invoiceNumber }));
+      toast.success(`Shipped ${order.orderNumber} on invoice ${invoiceNumber}`);
+      setShippingOrderId(null);
+      await loadData();
+      onChanged();
+    } catch (error) {
+      console.error("Error shipping sales order:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to ship order");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCancel = async (order: SalesOrder) => {
+    const shippedAny = order.shipments.length > 0;
+    if (!confirm(`Cancel ${order.orderNumber}? Reserved units are released${shippedAny ? "; shipments already invoiced stand" : ""}.`)) return;
+    try {
+      setBusyId(order.id);
+      await cancelSalesOrder(order.id);
+      await logAuditEvent(AuditEvents.RECORD_UPDATED('sales_order', order.id, order.orderNumber, { status: 'cancelled' }));
+      toast.success(`${order.orderNumber} cancelled`);
+      await loadData();
+      onChanged();
+    } catch (error) {
+      console.error("Error cancelling sales order:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to cancel order");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const renderOrder = (order: SalesOrder) => {
+    const shipping = shippingOrderId === order.id;
+    return (
+      <div key={order.id} className="border rounded-lg p-3 space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <span className="font-semibold">{order.orderNumber}</span>
+            <Badge variant={statusVariant[order.status]}>{getSalesOrderStatusLabel(order.status)}</Badge>
+            <span className="text-sm text-muted-foreground">{order.customerName}</span>
+          </div>
+          {isOpenOrder(order) && (
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={() => handlePickList(order)}>
+                <ListChecks className="mr-1 h-4 w-4" />
+                Pick List
+              </Button>
+              {!shipping && (
+                <Button size="sm" disabled={busyId === order.id} onClick={() => startShipping(order)}>
+                  <Truck className="mr-1 h-4 w-4" />
+                  Ship
+                </Button>
+              )}
+              <Button size="sm" variant="outline" disabled={busyId === order.id} onClick={() => handleCancel(order)}>
+                <XCircle className="mr-1 h-4 w-4" />
+                Cancel
+              </Button>
+            </div>
+          )}
+        </div>
+
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-muted-foreground">
+              <th className="font-medium py-1">Part</th>
+              <th className="font-medium py-1 text-right">Ordered</th>
+              <th className="font-medium py-1 text-right">Shipped</th>
+              <th className="font-medium py-1 text-right">Backorder</th>
+              {shipping && <th className="font-medium py-1 text-right">Ship Now</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {order.lines.map(line => {
+              const backorder = getBackorderQuantity(line);
+              return (
+                <tr key={line.id} className="border-t">
+                  <td className="py-1">
+                    {line.partNumber}
+                    {line.serialNumber && <span className="text-muted-foreground"> (SN: {line.serialNumber})</span>}
+                  </td>
+                  <td className="py-1 text-right">{line.quantity}</td>
+                  <td className="py-1 text-right">{line.quantityShipped}</td>
+                  <td className="py-1 text-right">{backorder > 0 ? backorder : "—"}</td>
+                  {shipping && (
+                    <td className="py-1 text-right">
+                      <Input
+                        type="number"
+                        min="0"
+                        max={backorder}
+                        className="w-20 h-8 ml-auto"
+                        disabled={backorder === 0}
+                        value={shipQuantities[line.id] ?? 0}
+                        onChange={(e) => setShipQuantities(prev => ({ ...prev, [line.id]: parseInt(e.target.value) || 0 }))}
+                      />
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        {shipping && (
+          <div className="space-y-3 border-t pt-3">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor={`carrier-${order.id}`}>Carrier</Label>
+                <Input id={`carrier-${order.id}`} value={carrier} onChange={(e) => setCarrier(e.target.value)} placeholder="e.g., UPS Freight" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={`tracking-${order.id}`}>Tracking #</Label>
+                <Input id={`tracking-${order.id}`} value={trackingNumber} onChange={(e) => setTrackingNumber(e.target.value)} />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              The shipment is invoiced on its own. Anything not shipped now stays on the order as a backorder.
+            </p>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" disabled={busyId === order.id} onClick={() => setShippingOrderId(null)}>
+                Cancel
+              </Button>
+              <Button disabled={busyId === order.id} onClick={() => handleShip(order)}>
+                <Truck className="mr-2 h-4 w-4" />
+                Ship & Invoice
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {order.shipments.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-xs font-medium text-muted-foreground uppercase">Shipments</p>
+            {order.shipments.map(shipment => (
+              <div key={shipment.id} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                <span>
+                  {shipment.shipmentNumber}
+                  {shipment.invoiceNumber && <span className="text-muted-foreground"> · Invoice {shipment.invoiceNumber}</span>}
+                  {shipment.carrier && <span className="text-muted-foreground"> · {shipment.carrier}</span>}
+                  {shipment.trackingNumber && <span className="text-muted-foreground"> #{shipment.trackingNumber}</span>}
+                  <span className="text-muted-foreground"> · {formatTimestamp(shipment.shippedAt)}</span>
+                </span>
+                <Button size="sm" variant="ghost" onClick={() => handlePackingSlip(order, shipment)}>
+                  <PackageOpen className="mr-1 h-4 w-4" />
+                  Packing Slip
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {order.notes && <p className="text-sm text-muted-foreground">{order.notes}</p>}
+
+        <div className="text-xs text-muted-foreground flex flex-wrap gap-x-4">
+          <span>Created {formatTimestamp(order.createdAt)}</span>
+          {order.shipToAddress && <span>Ship to {order.shipToName ? `${order.shipToName}, ` : ""}{order.shipToAddress}</span>}
+          {order.cancelledAt && <span>Cancelled {formatTimestamp(order.cancelledAt)}</span>}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => {
+      setOpen(isOpen);
+      if (!isOpen) setShippingOrderId(null);
+    }}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <ClipboardList className="mr-2 h-4 w-4" />
+          Sales Orders
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Sales Orders</DialogTitle>
+          <DialogDescription>
+            Orders created from accepted quotes. Serialized units on an open order are reserved until they ship;
+            each shipment gets its own invoice.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={tab} onValueChange={setTab} className="flex-1 overflow-hidden flex flex-col">
+          <TabsList>
+            <TabsTrigger value="open">Open ({openOrders.length})</TabsTrigger>
+            <TabsTrigger value="closed">Shipped & Cancelled</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="open" className="flex-1 overflow-hidden">
+            <ScrollArea className="h-[60vh] pr-4">
+              {openOrders.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">
+                  No open sales orders. Create one from a quote on the Quotes page.
+                </p>
+              ) : (
+                <div className="space-y-3">{openOrders.map(renderOrder)}</div>
+              )}
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="closed" className="flex-1 overflow-hidden">
+            <ScrollArea className="h-[60vh] pr-4">
+              {closedOrders.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">No shipped or cancelled orders</p>
+              ) : (
+                <div className="space-y-3">{closedOrders.map(renderOrder)}</div>
+              )}
+            </ScrollArea>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,184 @@
+import { useState, useMemo } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download, Landmark } from "lucide-react";
+import { toast } from "sonner";
+import { format, startOfMonth, endOfMonth, subMonths } from "date-fns";
+import type { Invoice } from "@/lib/inventory-storage";
+import { createAndDownloadExcel } from "@/lib/excel-utils";
+import { buildSalesTaxReport } from "@/lib/sales-tax";
+import { TaxJurisdictionsDialog } from "@/components/TaxJurisdictionsDialog";
+
+interface SalesTaxReportProps {
+  invoices: Invoice[];
+}
+
+export const SalesTaxReport = ({ invoices }: SalesTaxReportProps) => {
+  // Default to last month, the period most often being filed
+  const [startDate, setStartDate] = useState(format(startOfMonth(subMonths(new Date(), 1)), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(format(endOfMonth(subMonths(new Date(), 1)), 'yyyy-MM-dd'));
+
+  const report = useMemo(() => buildSalesTaxReport(invoices, startDate, endDate), [invoices, startDate, endDate]);
+
+  const handleExport = async () => {
+    try {
+      const rows: Record<string, unknown>[] = report.lines.map(line => ({
+        'Jurisdiction': line.name,
+        'State': line.stateCode,
+        'Rate %': line.rate || '',
+        'Invoices': line.invoiceCount,
+        'Taxable Sales': Number(line.taxableAmount.toFixed(2)),
+        'Tax Collected': Number(line.tax.toFixed(2)),
+      }));
+      rows.push({});
+      rows.push({ 'Jurisdiction': 'Gross Sales', 'Taxable Sales': report.grossSales });
+      rows.push({ 'Jurisdiction': 'Exempt Sales', 'Taxable Sales': report.exemptSales });
+      rows.push({ 'Jurisdiction': 'Total Tax Collected', 'Tax Collected': report.totalTax });
+      report.exemptInvoices.forEach(inv => rows.push({
+        'Jurisdiction': `Exempt: ${inv.invoiceNumber} ${inv.customerName || ''}`,
+        'State': inv.taxExemptCertificate,
+        'Taxable Sales': Number((inv.subtotal - inv.discount + inv.shippingCost).toFixed(2)),
+      }));
+
+      await createAndDownloadExcel(
+        rows,
+        "Sales Tax",
+        `sales_tax_${startDate}_to_${endDate}.xlsx`,
+        [40, 10, 10, 10, 15, 15]
+      );
+      toast.success("Sales tax report exported");
+    } catch (error) {
+      console.error("Export error:", error);
+      toast.error("Failed to export sales tax report");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Landmark className="h-5 w-5" />
+              Sales Tax Collected
+            </CardTitle>
+            <CardDescription>Tax on finalized invoices by jurisdiction, for filing</CardDescription>
+          </div>
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="sales-tax-start" className="text-xs">From</Label>
+              <Input
+                id="sales-tax-start"
+                type="date"
+                className="w-40"
+                value={startDate}
+                onChange={(e) => e.target.value && setStartDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="sales-tax-end" className="text-xs">To</Label>
+              <Input
+                id="sales-tax-end"
+                type="date"
+                className="w-40"
+                value={endDate}
+                onChange={(e) => e.target.value && setEndDate(e.target.value)}
+              />
+            </div>
+            <TaxJurisdictionsDialog />
+            <Button variant="outline" size="sm" onClick={handleExport}>
+              <Download className="mr-2 h-4 w-4" />
+              Export
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-4 text-sm">
+          <div>
+            <p className="text-muted-foreground">Gross Sales</p>
+            <p className="text-lg font-semibold">${report.grossSales.toFixed(2)}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Exempt Sales</p>
+            <p className="text-lg font-semibold">${report.exemptSales.toFixed(2)}</p>
+          </div>
+          <div>
+            <p className="text-muted-foreground">Tax Collected</p>
+            <p className="text-lg font-semibold">${report.totalTax.toFixed(2)}</p>
+          </div>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Jurisdiction</TableHead>
+              <TableHead>State</TableHead>
+              <TableHead className="text-right">Rate</TableHead>
+              <TableHead className="text-right">Invoices</TableHead>
+              <TableHead className="text-right">Taxable Sales</TableHead>
+              <TableHead className="text-right">Tax Collected</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {report.lines.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="text-center text-muted-foreground">
+                  No tax collected in this period
+                </TableCell>
+              </TableRow>
+            ) : (
+              report.lines.map(line => (
+                <TableRow key={line.key} className={line.key === 'manual' ? "text-amber-700" : ""}>
+                  <TableCell>{line.name}</TableCell>
+                  <TableCell>{line.stateCode}</TableCell>
+                  <TableCell className="text-right">{line.key === 'manual' ? '' : `${line.rate}%`}</TableCell>
+                  <TableCell className="text-right">{line.invoiceCount}</TableCell>
+                  <TableCell className="text-right">${line.taxableAmount.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">${line.tax.toFixed(2)}</TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+          {report.lines.length > 0 && (
+            <TableFooter>
+              <TableRow>
+                <TableCell colSpan={5} className="font-semibold">Total</TableCell>
+                <TableCell className="text-right font-semibold">${report.totalTax.toFixed(2)}</TableCell>
+              </TableRow>
+            </TableFooter>
+          )}
+        </Table>
+
+        {report.exemptInvoices.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-semibold">Exempt Invoices</h4>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Invoice</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Certificate</TableHead>
+                  <TableHead className="text-right">Sales</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.exemptInvoices.map(inv => (
+                  <TableRow key={inv.id} className="text-sm">
+                    <TableCell>{inv.invoiceNumber}</TableCell>
+                    <TableCell>{inv.customerName}</TableCell>
+                    <TableCell>{inv.taxExemptCertificate}</TableCell>
+                    <TableCell className="text-right">${(inv.subtotal - inv.discount + inv.shippingCost).toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,122 @@
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { Wrench } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  getServiceRequests,
+  getServiceRequestStatusLabel,
+  SERVICE_REQUEST_STATUSES,
+  updateServiceRequest,
+  type ServiceRequest,
+  type ServiceRequestStatus,
+} from "@/lib/customer-portal-storage";
+
+interface ServiceRequestsCardProps {
+  companyId: string;
+  open: boolean;
+}
+
+/** Service requests a company opened through the customer portal */
+export const ServiceRequestsCard = ({ companyId, open }: ServiceRequestsCardProps) => {
+  const [requests, setRequests] = useState<ServiceRequest[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [resolutions, setResolutions] = useState<Record<string, string>>({});
+
+  const loadRequests = useCallback(async () => {
+    setLoading(true);
+    try {
+      setRequests(await getServiceRequests(companyId));
+    } catch (error) {
+      console.error("Error loading service requests:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [companyId]);
+
+  useEffect(() => {
+    if (open) loadRequests();
+  }, [open, loadRequests]);
+
+  const handleUpdate = async (request: ServiceRequest, status: ServiceRequestStatus) => {
+    try {
+      await updateServiceRequest(request.id, {
+        status,
+        resolution: resolutions[request.id] ?? request.resolution,
+      });
+      toast.success(`Request marked ${getServiceRequestStatusLabel(status).toLowerCase()}`);
+      loadRequests();
+    } catch (error) {
+      console.error("Error updating service request:", error);
+      toast.error("Failed to update service request");
+    }
+  };
+
+  const openCount = requests.filter((r) => r.status === "open" || r.status === "in_progress").length;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Wrench className="h-5 w-5" />
+          Service Requests
+          <Badge variant={openCount > 0 ? "default" : "secondary"} className="ml-2">
+            {openCount} open
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-center text-muted-foreground py-4">Loading service requests...</p>
+        ) : requests.length === 0 ? (
+          <p className="text-center text-muted-foreground py-4">No service requests from this company.</p>
+        ) : (
+          <div className="space-y-3 max-h-80 overflow-y-auto">
+            {requests.map((request) => (
+              <div key={request.id} className="p-3 border rounded-lg space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <p className="font-medium text-sm">{request.subject}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(request.createdAt), "MMM d, yyyy h:mm a")}
+                      {request.requestedByName && ` · ${request.requestedByName}`}
+                      {request.serialNumber && ` · SN ${request.serialNumber}`}
+                    </p>
+                  </div>
+                  <Select value={request.status} onValueChange={(v) => handleUpdate(request, v as ServiceRequestStatus)}>
+                    <SelectTrigger className="w-36 h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SERVICE_REQUEST_STATUSES.map((status) => (
+                        <SelectItem key={status} value={status}>
+                          {getServiceRequestStatusLabel(status)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {request.description && <p className="text-sm whitespace-pre-wrap">{request.description}</p>}
+                <div className="flex gap-2 items-end">
+                  <Textarea
+                    rows={2}
+                    placeholder="Resolution (visible to the customer)"
+                    value={resolutions[request.id] ?? request.resolution ?? ""}
+                    onChange={(e) => setResolutions((prev) => ({ ...prev, [request.id]: e.target.value }))}
+                  />
+                  <Button size="sm" variant="outline" onClick={() => handleUpdate(request, request.status)}>
+                    Save
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
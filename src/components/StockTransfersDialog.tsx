@@ -0,0 +1,411 @@
+import { useState, useEffect, useMemo } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ArrowRightLeft, ArrowRight, Search, Truck, PackageCheck, XCircle, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { inventoryStorage, getOnHandQuantity, isQuantityTracked, type InventoryItem } from "@/lib/inventory-storage";
+import {
+  cancelStockTransfer,
+  createStockTransfer,
+  deleteStockTransfer,
+  getStockTransfers,
+  getTransferStatusLabel,
+  getWarehouseName,
+  getWarehouses,
+  receiveStockTransfer,
+  shipStockTransfer,
+  type StockTransfer,
+  type StockTransferStatus,
+  type Warehouse,
+} from "@/lib/warehouse-storage";
+import { WarehouseSelect } from "@/components/inventory/WarehouseSelect";
+import { logAuditEvent, AuditEvents } from "@/hooks/useAuditLog";
+
+interface StockTransfersDialogProps {
+  onChanged: () => void;
+}
+
+const statusVariant: Record<StockTransferStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  draft: "outline",
+  in_transit: "default",
+  received: "secondary",
+  cancelled: "destructive",
+};
+
+const formatTimestamp = (value?: string) => (value ? format(new Date(value), "MMM d, yyyy h:mm a") : "");
+
+export const StockTransfersDialog = ({ onChanged }: StockTransfersDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [tab, setTab] = useState("transfers");
+  const [transfers, setTransfers] = useState<StockTransfer[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [items, setItems] = useState<InventoryItem[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // New transfer form; selected maps item id -> quantity
+  const [fromId, setFromId] = useState<string | undefined>(undefined);
+  const [toId, setToId] = useState<string | undefined>(undefined);
+  const [toBin, setToBin] = useState("");
+  const [notes, setNotes] = useState("");
+  const [search, setSearch] = useState("");
+  const [selected, setSelected] = useState<Record<string, number>>({});
+  const [saving, setSaving] = useState(false);
+
+  const loadData = async () => {
+    try {
+      const [transferList, warehouseList, itemList] = await Promise.all([
+        getStockTransfers(),
+        getWarehouses(),
+        inventoryStorage.getItems(),
+      ]);
+      setTransfers(transferList);
+      setWarehouses(warehouseList);
+      setItems(itemList);
+    } catch (error) {
+      console.error("Error loading stock transfers:", error);
+    }
+  };
+
+  useEffect(() => {
+    if (open) loadData();
+  }, [open]);
+
+  const itemsById = useMemo(() => new Map(items.map(i => [i.id, i])), [items]);
+
+  const sourceItems = useMemo(() => {
+    if (!fromId) return [];
+    const q = search.toLowerCase().trim();
+    return items
+      .filter(i => i.warehouseId === fromId && !i.inTransitTransferId && !i.reservedSalesOrderId && getOnHandQuantity(i) > 0)
+      .filter(i =>
+        !q ||
+        i.partNumber.toLowerCase().includes(q) ||
+        i.description.toLowerCase().includes(q) ||
+        (i.serialNumber || "").toLowerCase().includes(q)
+      )
+      .slice(0, 100);
+  }, [items, fromId, search]);
+
+  const resetForm = () => {
+    setFromId(undefined);
+    setToId(undefined);
+    setToBin("");
+    setNotes("");
+    setSearch("");
+    setSelected({});
+  };
+
+  const toggleItem = (item: InventoryItem, checked: boolean) => {
+    setSelected(prev => {
+      const next = { ...prev };
+      if (checked) {
+        next[item.id] = isQuantityTracked(item) ? item.quantityOnHand : 1;
+      } else {
+        delete next[item.id];
+      }
+      return next;
+    });
+  };
+
+  const handleCreate = async (shipNow: boolean) => {
+    const lines = Object.entries(selected).map(([itemId, quantity]) => ({ itemId, quantity, toBin: toBin.trim() || undefined }));
+    if (!fromId || !toId) {
+      toast.error("Choose where the stock is coming from and going to");
+      return;
+    }
+    if (lines.length === 0) {
+      toast.error("Select at least one item to transfer");
+      return;
+    }
+    const overdrawn = lines.find(line => {
+      const item = itemsById.get(line.itemId);
+      return !item || line.quantity < 1 || line.quantity > getOnHandQuantity(item);
+    });
+    if (overdrawn) {
+      toast.error(`Invalid quantity for ${itemsById.get(overdrawn.itemId)?.partNumber || "item"}`);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const transfer = await createStockTransfer({
+        fromWarehouseId: fromId,
+        toWarehouseId: toId,
+        notes: notes.trim() || undefined,
+        lines,
+      });
+      await logAuditEvent(AuditEvents.RECORD_CREATED('stock_transfer', transfer.id, transfer.transferNumber));
+      if (shipNow) {
+        await shipStockTransfer(transfer.id);
+        await logAuditEvent(AuditEvents.RECORD_UPDATED('stock_transfer', transfer.id, transfer.transferNumber, { status: 'in_transit' }));
+      }
+      toast.success(`${transfer.transferNumber} ${shipNow ? "shipped" : "saved as draft"}`);
+      resetForm();
+      setTab("transfers");
+      await loadData();
+      onChanged();
+    } catch (error) {
+      console.error("Error creating stock transfer:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to create transfer");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const runAction = async (
+    transfer: StockTransfer,
+    action: (id: string) => Promise<void>,
+    status: StockTransferStatus,
+    message: string
+  ) => {
+    try {
+      setBusyId(transfer.id);
+      await action(transfer.id);
+      await logAuditEvent(AuditEvents.RECORD_UPDATED('stock_transfer', transfer.id, transfer.transferNumber, { status }));
+      toast.success(`${transfer.transferNumber} ${message}`);
+      await loadData();
+      onChanged();
+    } catch (error) {
+      console.error("Error updating stock transfer:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update transfer");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (transfer: StockTransfer) => {
+    if (!confirm(`Delete draft ${transfer.transferNumber}?`)) return;
+    try {
+      await deleteStockTransfer(transfer.id);
+      await logAuditEvent(AuditEvents.RECORD_DELETED('stock_transfer', transfer.id, transfer.transferNumber));
+      setTransfers(prev => prev.filter(t => t.id !== transfer.id));
+    } catch (error) {
+      console.error("Error deleting stock transfer:", error);
+      toast.error("Failed to delete transfer");
+    }
+  };
+
+  const describeLine = (itemId: string) => {
+    const item = itemsById.get(itemId);
+    if (!item) return "Unknown item";
+    return item.serialNumber ? `${item.partNumber} (SN: ${item.serialNumber})` : item.partNumber;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => {
+      setOpen(isOpen);
+      if (!isOpen) resetForm();
+    }}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <ArrowRightLeft className="mr-2 h-4 w-4" />
+          Transfers
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Stock Transfers</DialogTitle>
+          <DialogDescription>
+            Move stock between yards, warehouses and trucks. Shipped stock is in transit and can't be sold
+            until the destination receives it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={tab} onValueChange={setTab} className="flex-1 overflow-hidden flex flex-col">
+          <TabsList>
+            <TabsTrigger value="transfers">Transfers</TabsTrigger>
+            <TabsTrigger value="new">New Transfer</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="transfers" className="flex-1 overflow-hidden">
+            <ScrollArea className="h-[60vh] pr-4">
+              {transfers.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">No transfers yet</p>
+              ) : (
+                <div className="space-y-3">
+                  {transfers.map(transfer => (
+                    <div key={transfer.id} className="border rounded-lg p-3 space-y-2">
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <div className="flex items-center gap-2">
+                          <span className="font-semibold">{transfer.transferNumber}</span>
+                          <Badge variant={statusVariant[transfer.status]}>{getTransferStatusLabel(transfer.status)}</Badge>
+                          <span className="text-sm text-muted-foreground flex items-center gap-1">
+                            {getWarehouseName(warehouses, transfer.fromWarehouseId)}
+                            <ArrowRight className="h-3 w-3" />
+                            {getWarehouseName(warehouses, transfer.toWarehouseId)}
+                          </span>
+                        </div>
+                        <div className="flex gap-2">
+                          {transfer.status === 'draft' && (
+                            <>
+                              <Button
+                                size="sm"
+                                disabled={busyId === transfer.id}
+                                onClick={() => runAction(transfer, shipStockTransfer, 'in_transit', "shipped")}
+                              >
+                                <Truck className="mr-1 h-4 w-4" />
+                                Ship
+                              </Button>
+                              <Button size="sm" variant="ghost" className="text-destructive" onClick={() => handleDelete(transfer)}>
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
+                          {transfer.status === 'in_transit' && (
+                            <Button
+                              size="sm"
+                              disabled={busyId === transfer.id}
+                              onClick={() => runAction(transfer, receiveStockTransfer, 'received', "received")}
+                            >
+                              <PackageCheck className="mr-1 h-4 w-4" />
+                              Receive
+                            </Button>
+                          )}
+                          {(transfer.status === 'draft' || transfer.status === 'in_transit') && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={busyId === transfer.id}
+                              onClick={() => {
+                                if (confirm(`Cancel ${transfer.transferNumber}? Shipped stock returns to the source location.`)) {
+                                  runAction(transfer, cancelStockTransfer, 'cancelled', "cancelled");
+                                }
+                              }}
+                            >
+                              <XCircle className="mr-1 h-4 w-4" />
+                              Cancel
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+
+                      <ul className="text-sm space-y-0.5">
+                        {transfer.lines.map(line => (
+                          <li key={line.id} className="flex justify-between">
+                            <span>{describeLine(line.itemId)}{line.toBin ? ` → bin ${line.toBin}` : ""}</span>
+                            <span className="text-muted-foreground">× {line.quantity}</span>
+                          </li>
+                        ))}
+                      </ul>
+
+                      {transfer.notes && <p className="text-sm text-muted-foreground">{transfer.notes}</p>}
+
+                      <div className="text-xs text-muted-foreground flex flex-wrap gap-x-4">
+                        <span>Created {formatTimestamp(transfer.createdAt)}</span>
+                        {transfer.shippedAt && <span>Shipped {formatTimestamp(transfer.shippedAt)}</span>}
+                        {transfer.receivedAt && <span>Received {formatTimestamp(transfer.receivedAt)}</span>}
+                        {transfer.cancelledAt && <span>Cancelled {formatTimestamp(transfer.cancelledAt)}</span>}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="new" className="flex-1 overflow-hidden">
+            <ScrollArea className="h-[60vh] pr-4">
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label>From</Label>
+                    <WarehouseSelect
+                      warehouses={warehouses}
+                      value={fromId}
+                      onChange={(id) => {
+                        setFromId(id);
+                        setSelected({});
+                      }}
+                      excludeId={toId}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>To</Label>
+                    <WarehouseSelect warehouses={warehouses} value={toId} onChange={setToId} excludeId={fromId} />
+                  </div>
+                </div>
+
+                {fromId && (
+                  <div className="space-y-2">
+                    <div className="relative">
+                      <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                      <Input
+                        placeholder="Search stock at this location..."
+                        value={search}
+                        onChange={(e) => setSearch(e.target.value)}
+                        className="pl-10"
+                      />
+                    </div>
+                    <div className="border rounded-md divide-y max-h-72 overflow-y-auto">
+                      {sourceItems.length === 0 ? (
+                        <p className="text-sm text-muted-foreground p-3">No available stock at this location</p>
+                      ) : (
+                        sourceItems.map(item => (
+                          <div key={item.id} className="flex items-center gap-3 px-3 py-2">
+                            <Checkbox
+                              checked={selected[item.id] !== undefined}
+                              onCheckedChange={(checked) => toggleItem(item, checked === true)}
+                            />
+                            <div className="flex-1 min-w-0">
+                              <p className="text-sm font-medium truncate">{item.partNumber}</p>
+                              <p className="text-xs text-muted-foreground truncate">
+                                {item.serialNumber ? `SN: ${item.serialNumber} · ` : ""}{item.description}
+                              </p>
+                            </div>
+                            {isQuantityTracked(item) && (
+                              <div className="flex items-center gap-2">
+                                <Input
+                                  type="number"
+                                  min="1"
+                                  max={item.quantityOnHand}
+                                  className="w-20"
+                                  disabled={selected[item.id] === undefined}
+                                  value={selected[item.id] ?? ""}
+                                  onChange={(e) => setSelected(prev => ({ ...prev, [item.id]: parseInt(e.target.value) || 0 }))}
+                                />
+                                <span className="text-xs text-muted-foreground whitespace-nowrap">of {item.quantityOnHand}</span>
+                              </div>
+                            )}
+                          </div>
+                        ))
+                      )}
+                    </div>
+                  </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="transfer-bin">Destination Bin (optional)</Label>
+                    <Input id="transfer-bin" value={toBin} onChange={(e) => setToBin(e.target.value)} placeholder="e.g., B2-04" />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="transfer-notes">Notes</Label>
+                    <Textarea id="transfer-notes" rows={1} value={notes} onChange={(e) => setNotes(e.target.value)} />
+                  </div>
+                </div>
+
+                <div className="flex justify-end gap-2 pt-2 border-t">
+                  <Button variant="outline" disabled={saving} onClick={() => handleCreate(false)}>
+                    Save Draft
+                  </Button>
+                  <Button disabled={saving} onClick={() => handleCreate(true)}>
+                    <Truck className="mr-2 h-4 w-4" />
+                    {saving ? "Saving..." : "Create & Ship"}
+                  </Button>
+                </div>
+              </div>
+            </ScrollArea>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,260 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { MapPin, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  JURISDICTION_LEVELS,
+  US_STATE_CODES,
+  addTaxJurisdiction,
+  deleteTaxJurisdiction,
+  getJurisdictionLevelLabel,
+  getTaxJurisdictions,
+  updateTaxJurisdiction,
+  type JurisdictionLevel,
+  type TaxJurisdiction,
+} from "@/lib/sales-tax";
+
+interface TaxJurisdictionsDialogProps {
+  onChanged?: () => void;
+}
+
+const emptyForm = {
+  name: "",
+  level: "state" as JurisdictionLevel,
+  stateCode: "",
+  postalCodes: "",
+  rate: "",
+  taxesShipping: false,
+};
+
+export const TaxJurisdictionsDialog = ({ onChanged }: TaxJurisdictionsDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [jurisdictions, setJurisdictions] = useState<TaxJurisdiction[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  const loadJurisdictions = () => {
+    getTaxJurisdictions()
+      .then(setJurisdictions)
+      .catch(error => console.error("Error loading tax jurisdictions:", error));
+  };
+
+  useEffect(() => {
+    if (open) loadJurisdictions();
+  }, [open]);
+
+  const handleAdd = async () => {
+    const rate = parseFloat(form.rate);
+    if (!form.name.trim() || !form.stateCode || isNaN(rate) || rate < 0) {
+      toast.error("Name, state and a valid rate are required");
+      return;
+    }
+    const postalCodes = form.postalCodes.split(/[\s,]+/).map(z => z.trim()).filter(Boolean);
+    if (form.level !== 'state' && postalCodes.length === 0) {
+      toast.error("Local jurisdictions need at least one ZIP code");
+      return;
+    }
+    if (postalCodes.some(z => !/^\d{5}$/.test(z))) {
+      toast.error("ZIP codes must be 5 digits");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await addTaxJurisdiction({
+        name: form.name.trim(),
+        level: form.level,
+        stateCode: form.stateCode,
+        postalCodes,
+        rate,
+        taxesShipping: form.taxesShipping,
+        isActive: true,
+      });
+      setForm(emptyForm);
+      loadJurisdictions();
+      onChanged?.();
+    } catch (error) {
+      console.error("Error adding jurisdiction:", error);
+      toast.error("Failed to add jurisdiction");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (jurisdiction: TaxJurisdiction, updates: Partial<TaxJurisdiction>) => {
+    try {
+      await updateTaxJurisdiction(jurisdiction.id, updates);
+      setJurisdictions(prev => prev.map(j => (j.id === jurisdiction.id ? { ...j, ...updates } : j)));
+      onChanged?.();
+    } catch (error) {
+      console.error("Error updating jurisdiction:", error);
+      toast.error("Failed to update jurisdiction");
+    }
+  };
+
+  const handleDelete = async (jurisdiction: TaxJurisdiction) => {
+    if (!confirm(`Delete ${jurisdiction.name}? Past invoices keep their recorded tax.`)) return;
+    try {
+      await deleteTaxJurisdiction(jurisdiction.id);
+      setJurisdictions(prev => prev.filter(j => j.id !== jurisdiction.id));
+      onChanged?.();
+    } catch (error) {
+      console.error("Error deleting jurisdiction:", error);
+      toast.error("Failed to delete jurisdiction");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <MapPin className="mr-2 h-4 w-4" />
+          Jurisdictions
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Sales Tax Jurisdictions</DialogTitle>
+          <DialogDescription>
+            State rates apply to every ship-to address in the state. County, city and district rates
+            stack on top for the ZIP codes listed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Level</TableHead>
+              <TableHead>State</TableHead>
+              <TableHead>ZIP Codes</TableHead>
+              <TableHead className="text-right">Rate</TableHead>
+              <TableHead>Taxes Freight</TableHead>
+              <TableHead>Active</TableHead>
+              <TableHead></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {jurisdictions.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={8} className="text-center text-muted-foreground">
+                  No jurisdictions yet
+                </TableCell>
+              </TableRow>
+            ) : (
+              jurisdictions.map(j => (
+                <TableRow key={j.id} className={j.isActive ? "" : "opacity-60"}>
+                  <TableCell className="font-medium">{j.name}</TableCell>
+                  <TableCell>{getJurisdictionLevelLabel(j.level)}</TableCell>
+                  <TableCell>{j.stateCode}</TableCell>
+                  <TableCell className="max-w-[160px] truncate text-xs" title={j.postalCodes.join(", ")}>
+                    {j.level === 'state' ? "All" : j.postalCodes.join(", ")}
+                  </TableCell>
+                  <TableCell className="text-right">{j.rate}%</TableCell>
+                  <TableCell>
+                    <Checkbox
+                      checked={j.taxesShipping}
+                      onCheckedChange={(checked) => handleToggle(j, { taxesShipping: checked === true })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Switch checked={j.isActive} onCheckedChange={(checked) => handleToggle(j, { isActive: checked })} />
+                  </TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive" onClick={() => handleDelete(j)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+
+        <div className="border-t pt-4 space-y-3">
+          <h4 className="text-sm font-semibold">Add Jurisdiction</h4>
+          <div className="grid grid-cols-6 gap-3">
+            <div className="col-span-2 space-y-1">
+              <Label htmlFor="jurisdiction-name" className="text-xs">Name</Label>
+              <Input
+                id="jurisdiction-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. Texas State"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Level</Label>
+              <Select value={form.level} onValueChange={(value) => setForm({ ...form, level: value as JurisdictionLevel })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {JURISDICTION_LEVELS.map(level => (
+                    <SelectItem key={level} value={level}>{getJurisdictionLevelLabel(level)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">State</Label>
+              <Select value={form.stateCode} onValueChange={(value) => setForm({ ...form, stateCode: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="--" />
+                </SelectTrigger>
+                <SelectContent>
+                  {US_STATE_CODES.map(code => (
+                    <SelectItem key={code} value={code}>{code}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="jurisdiction-rate" className="text-xs">Rate %</Label>
+              <Input
+                id="jurisdiction-rate"
+                type="number"
+                step="0.001"
+                min="0"
+                value={form.rate}
+                onChange={(e) => setForm({ ...form, rate: e.target.value })}
+              />
+            </div>
+            <div className="flex items-end gap-2 pb-2">
+              <Checkbox
+                id="jurisdiction-shipping"
+                checked={form.taxesShipping}
+                onCheckedChange={(checked) => setForm({ ...form, taxesShipping: checked === true })}
+              />
+              <Label htmlFor="jurisdiction-shipping" className="text-xs">Taxes freight</Label>
+            </div>
+          </div>
+          {form.level !== 'state' && (
+            <div className="space-y-1">
+              <Label htmlFor="jurisdiction-zips" className="text-xs">ZIP Codes (comma or space separated)</Label>
+              <Input
+                id="jurisdiction-zips"
+                value={form.postalCodes}
+                onChange={(e) => setForm({ ...form, postalCodes: e.target.value })}
+                placeholder="75001, 75002"
+              />
+            </div>
+          )}
+          <div className="flex justify-end">
+            <Button onClick={handleAdd} disabled={saving}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
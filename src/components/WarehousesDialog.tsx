@@ -0,0 +1,229 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Warehouse as WarehouseIcon, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  WAREHOUSE_KINDS,
+  addWarehouse,
+  deleteWarehouse,
+  getWarehouseKindLabel,
+  getWarehouses,
+  updateWarehouse,
+  type Warehouse,
+  type WarehouseKind,
+} from "@/lib/warehouse-storage";
+
+interface WarehousesDialogProps {
+  onChanged?: () => void;
+}
+
+const emptyForm = {
+  name: "",
+  code: "",
+  kind: "yard" as WarehouseKind,
+  address: "",
+};
+
+export const WarehousesDialog = ({ onChanged }: WarehousesDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  const loadWarehouses = () => {
+    getWarehouses()
+      .then(setWarehouses)
+      .catch(error => console.error("Error loading locations:", error));
+  };
+
+  useEffect(() => {
+    if (open) loadWarehouses();
+  }, [open]);
+
+  const handleAdd = async () => {
+    if (!form.name.trim() || !form.code.trim()) {
+      toast.error("Name and code are required");
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await addWarehouse({
+        name: form.name.trim(),
+        code: form.code.trim(),
+        kind: form.kind,
+        address: form.address.trim() || undefined,
+        // The first location becomes the default for new stock
+        isDefault: warehouses.length === 0,
+        isActive: true,
+      });
+      setForm(emptyForm);
+      loadWarehouses();
+      onChanged?.();
+    } catch (error) {
+      console.error("Error adding location:", error);
+      toast.error("Failed to add location. Codes must be unique.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUpdate = async (warehouse: Warehouse, updates: Partial<Warehouse>) => {
+    try {
+      await updateWarehouse(warehouse.id, updates);
+      loadWarehouses();
+      onChanged?.();
+    } catch (error) {
+      console.error("Error updating location:", error);
+      toast.error("Failed to update location");
+    }
+  };
+
+  const handleDelete = async (warehouse: Warehouse) => {
+    if (!confirm(`Delete ${warehouse.name}?`)) return;
+    try {
+      await deleteWarehouse(warehouse.id);
+      setWarehouses(prev => prev.filter(w => w.id !== warehouse.id));
+      onChanged?.();
+    } catch (error) {
+      console.error("Error deleting location:", error);
+      toast.error("Location still has stock or transfers. Deactivate it instead.");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <WarehouseIcon className="mr-2 h-4 w-4" />
+          Locations
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Stock Locations</DialogTitle>
+          <DialogDescription>
+            Yards, warehouses and service vehicles that hold stock. New items and PO receipts go to the
+            default location unless another is chosen.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Code</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>Address</TableHead>
+              <TableHead>Default</TableHead>
+              <TableHead>Active</TableHead>
+              <TableHead></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {warehouses.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={7} className="text-center text-muted-foreground">
+                  No locations yet
+                </TableCell>
+              </TableRow>
+            ) : (
+              warehouses.map(w => (
+                <TableRow key={w.id} className={w.isActive ? "" : "opacity-60"}>
+                  <TableCell className="font-medium">{w.name}</TableCell>
+                  <TableCell>{w.code}</TableCell>
+                  <TableCell>{getWarehouseKindLabel(w.kind)}</TableCell>
+                  <TableCell className="max-w-[180px] truncate text-xs" title={w.address}>{w.address}</TableCell>
+                  <TableCell>
+                    {w.isDefault ? (
+                      <Badge>Default</Badge>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={!w.isActive}
+                        onClick={() => handleUpdate(w, { isDefault: true })}
+                      >
+                        Make default
+                      </Button>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={w.isActive}
+                      disabled={w.isDefault}
+                      onCheckedChange={(checked) => handleUpdate(w, { isActive: checked })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive" onClick={() => handleDelete(w)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+
+        <div className="border-t pt-4 space-y-3">
+          <h4 className="text-sm font-semibold">Add Location</h4>
+          <div className="grid grid-cols-6 gap-3">
+            <div className="col-span-2 space-y-1">
+              <Label htmlFor="warehouse-name" className="text-xs">Name</Label>
+              <Input
+                id="warehouse-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. North Yard"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="warehouse-code" className="text-xs">Code</Label>
+              <Input
+                id="warehouse-code"
+                value={form.code}
+                onChange={(e) => setForm({ ...form, code: e.target.value })}
+                placeholder="NY"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Type</Label>
+              <Select value={form.kind} onValueChange={(value) => setForm({ ...form, kind: value as WarehouseKind })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WAREHOUSE_KINDS.map(kind => (
+                    <SelectItem key={kind} value={kind}>{getWarehouseKindLabel(kind)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="col-span-2 space-y-1">
+              <Label htmlFor="warehouse-address" className="text-xs">Address</Label>
+              <Input
+                id="warehouse-address"
+                value={form.address}
+                onChange={(e) => setForm({ ...form, address: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={handleAdd} disabled={saving}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
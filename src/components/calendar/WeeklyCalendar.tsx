@@ -25,6 +25,7 @@ import {
 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { inventoryStorage, type Person } from "@/lib/inventory-storage";
 import { format, startOfWeek, startOfMonth, endOfMonth, addDays, addMonths, subMonths, isSameDay, isSameMonth, addWeeks, subWeeks, parseISO, getDay } from "date-fns";
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { toast } from "sonner";
@@ -39,6 +40,8 @@ interface CalendarEvent {
   location: string | null;
   is_video_meeting: boolean;
   video_meeting_id: string | null;
+  /** Customer contact the event is with; their company is set server-side */
+  person_id: string | null;
   created_by: string;
   created_at: string;
 }
@@ -72,6 +75,7 @@ export function WeeklyCalendar({ onCreateVideoMeeting }: WeeklyCalendarProps) {
   const [events, setEvents] = useState<CalendarEvent[]>([]);
   const [invitees, setInvitees] = useState<Invitee[]>([]);
   const [employees, setEmployees] = useState<EmployeeProfile[]>([]);
+  const [contacts, setContacts] = useState<Person[]>([]);
   const [loading, setLoading] = useState(true);
 
   // Filter state
@@ -89,6 +93,7 @@ export function WeeklyCalendar({ onCreateVideoMeeting }: WeeklyCalendarProps) {
     event_type: "meeting",
     location: "",
     is_video_meeting: false,
+    person_id: "none",
   });
   const [selectedInvitees, setSelectedInvitees] = useState<string[]>([]);
 
@@ -135,6 +140,12 @@ export function WeeklyCalendar({ onCreateVideoMeeting }: WeeklyCalendarProps) {
     loadEmployees();
   }, [dateRange]);
 
+  useEffect(() => {
+    inventoryStorage.getPersons()
+      .then(setContacts)
+      .catch((error) => console.error("Error loading contacts:", error));
+  }, []);
+
   const loadEvents = async () => {
     setLoading(true);
     try {
@@ -214,6 +225,7 @@ export function WeeklyCalendar({ onCreateVideoMeeting }: WeeklyCalendarProps) {
       event_type: "meeting",
       location: "",
       is_video_meeting: false,
+      person_id: "none",
     });
     setSelectedInvitees([]);
     setDialogOpen(true);
@@ -229,6 +241,7 @@ export function WeeklyCalendar({ onCreateVideoMeeting }: WeeklyCalendarProps) {
       event_type: event.event_type,
       location: event.location || "",
       is_video_meeting: event.is_video_meeting,
+      person_id: event.person_id || "none",
     });
     const eventInvitees = invitees
       .filter((inv) => inv.event_id === event.id)
@@ -255,6 +268,7 @@ export function WeeklyCalendar({ onCreateVideoMeeting }: WeeklyCalendarProps) {
             meeting_type: "local_company",
             created_by: user!.id,
             status: "waiting",
+            person_id: form.person_id === "none" ? null : form.person_id,
           })
           .select()
           .single();
@@ -271,6 +285,7 @@ export function WeeklyCalendar({ onCreateVideoMeeting }: WeeklyCalendarProps) {
         event_type: form.event_type,
         location: form.location || null,
         is_video_meeting: form.is_video_meeting,
+        person_id: form.person_id === "none" ? null : form.person_id,
         ...(videoMeetingId ? { video_meeting_id: videoMeetingId } : {}),
       };
 
@@ -696,6 +711,18 @@ export function WeeklyCalendar({ onCreateVideoMeeting }: WeeklyCalendarProps) {
                   />
                 </div>
               </div>
+              <div>
+                <Label>Customer Contact</Label>
+                <Select value={form.person_id} onValueChange={(v) => setForm({ ...form, person_id: v })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None</SelectItem>
+                    {contacts.map((contact) => (
+                      <SelectItem key={contact.id} value={contact.id}>{contact.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
               <div className="flex items-center space-x-2">
                 <Checkbox
                   id="video-meeting"
@@ -778,6 +805,14 @@ export function WeeklyCalendar({ onCreateVideoMeeting }: WeeklyCalendarProps) {
                 <span className="text-muted-foreground">Organizer: </span>
                 <span className="font-medium">{getEmployeeName(detailEvent.created_by)}</span>
               </div>
+              {detailEvent.person_id && (
+                <div className="text-sm">
+                  <span className="text-muted-foreground">With: </span>
+                  <span className="font-medium">
+                    {contacts.find((c) => c.id === detailEvent.person_id)?.name || "Unknown contact"}
+                  </span>
+                </div>
+              )}
               <Badge variant="outline">{detailEvent.event_type}</Badge>
               {detailEvent.description && (
                 <p className="text-sm">{detailEvent.description}</p>
@@ -0,0 +1,175 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { ArrowLeft, ArrowRight, Save, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  CONTACT_FIELDS,
+  getContactFieldLabel,
+  guessColumnMapping,
+  type ColumnMapping,
+  type ContactField,
+  type CsvTable,
+} from "@/lib/contact-formats";
+import {
+  deleteContactImportMapping,
+  findMatchingMapping,
+  getContactImportMappings,
+  saveContactImportMapping,
+  type ContactImportMapping,
+} from "@/lib/contact-import-mappings";
+
+interface ContactColumnMappingProps {
+  table: CsvTable;
+  fileName: string;
+  onBack: () => void;
+  onContinue: (mapping: ColumnMapping) => void;
+}
+
+/** Pick which contact field each CSV column fills, optionally from a saved mapping */
+export const ContactColumnMapping = ({ table, fileName, onBack, onContinue }: ContactColumnMappingProps) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(() => guessColumnMapping(table.headers));
+  const [savedMappings, setSavedMappings] = useState<ContactImportMapping[]>([]);
+  const [selectedMappingId, setSelectedMappingId] = useState("none");
+  const [saveName, setSaveName] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    getContactImportMappings()
+      .then(mappings => {
+        setSavedMappings(mappings);
+        const match = findMatchingMapping(mappings, table.headers);
+        if (match) {
+          setMapping({ ...guessColumnMapping(table.headers), ...match.mapping });
+          setSelectedMappingId(match.id);
+          setSaveName(match.name);
+        }
+      })
+      .catch(error => console.error("Error loading import mappings:", error));
+  }, [table]);
+
+  const applySaved = (id: string) => {
+    setSelectedMappingId(id);
+    const saved = savedMappings.find(m => m.id === id);
+    if (!saved) return;
+    // Headers the saved mapping doesn't know keep their guessed field
+    setMapping({ ...guessColumnMapping(table.headers), ...saved.mapping });
+    setSaveName(saved.name);
+  };
+
+  const handleSave = async () => {
+    if (!saveName.trim()) {
+      toast.error("Name the mapping to save it");
+      return;
+    }
+    try {
+      setSaving(true);
+      const saved = await saveContactImportMapping(saveName.trim(), mapping);
+      setSavedMappings(prev => [...prev.filter(m => m.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+      setSelectedMappingId(saved.id);
+      toast.success(`Saved mapping "${saved.name}"`);
+    } catch (error) {
+      console.error("Error saving import mapping:", error);
+      toast.error("Failed to save mapping");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    const saved = savedMappings.find(m => m.id === selectedMappingId);
+    if (!saved || !confirm(`Delete the saved mapping "${saved.name}"?`)) return;
+    try {
+      await deleteContactImportMapping(saved.id);
+      setSavedMappings(prev => prev.filter(m => m.id !== saved.id));
+      setSelectedMappingId("none");
+    } catch (error) {
+      console.error("Error deleting import mapping:", error);
+      toast.error("Failed to delete mapping");
+    }
+  };
+
+  const sampleFor = (index: number) => table.rows.find(row => row[index]?.trim())?.[index]?.trim() || "";
+
+  const mapsName = Object.values(mapping).some(f => f === "name" || f === "firstName" || f === "lastName");
+
+  return (
+    <div className="space-y-4 flex-1 overflow-hidden flex flex-col">
+      <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+        <div className="space-y-2 flex-1">
+          <Label>Saved mapping</Label>
+          <div className="flex gap-2">
+            <Select value={selectedMappingId} onValueChange={applySaved}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Guessed from the headers</SelectItem>
+                {savedMappings.map(m => <SelectItem key={m.id} value={m.id}>{m.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            {selectedMappingId !== "none" && (
+              <Button variant="ghost" size="icon" onClick={handleDelete}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+        <div className="space-y-2 flex-1">
+          <Label htmlFor="mapping-name">Save as</Label>
+          <div className="flex gap-2">
+            <Input
+              id="mapping-name"
+              value={saveName}
+              onChange={(e) => setSaveName(e.target.value)}
+              placeholder="e.g. Outlook export"
+            />
+            <Button variant="outline" onClick={handleSave} disabled={saving}>
+              <Save className="mr-2 h-4 w-4" />
+              Save
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        {fileName}: {table.rows.length} rows. Columns mapped to the same field are combined; extra phone and email columns are kept with their labels.
+      </p>
+
+      <ScrollArea className="h-[350px] border rounded-lg">
+        <div className="divide-y">
+          {table.headers.map((header, index) => (
+            <div key={`${header}-${index}`} className="grid grid-cols-[1fr_1fr_12rem] items-center gap-3 p-3">
+              <span className="font-medium text-sm truncate">{header || `(column ${index + 1})`}</span>
+              <span className="text-sm text-muted-foreground truncate">{sampleFor(index)}</span>
+              <Select
+                value={mapping[header] || "ignore"}
+                onValueChange={(value) => setMapping({ ...mapping, [header]: value as ContactField | "ignore" })}
+              >
+                <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="ignore">{getContactFieldLabel("ignore")}</SelectItem>
+                  {CONTACT_FIELDS.map(field => (
+                    <SelectItem key={field} value={field}>{getContactFieldLabel(field)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+
+      <div className="flex justify-between gap-2 pt-2 border-t">
+        <Button variant="outline" onClick={onBack}>
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Upload Different File
+        </Button>
+        <Button onClick={() => onContinue(mapping)} disabled={!mapsName}>
+          Preview Contacts
+          <ArrowRight className="ml-2 h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,223 @@
+import { useMemo, useState } from "react";
+import { toast } from "sonner";
+import { Building2, Download, Loader2, Search, User } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { supabase } from "@/integrations/supabase/client";
+import { logAuditEvent, AuditEvents } from "@/hooks/useAuditLog";
+import type { Company, Person } from "@/lib/inventory-storage";
+import { downloadTextFile, toContactsCsv, toVCards, type ExportContact } from "@/lib/contact-formats";
+
+interface ExportContactsDialogProps {
+  companies: Company[];
+  persons: Person[];
+}
+
+type ExportFormat = "vcf" | "csv";
+
+// Photos only travel in vCards, embedded as base64
+const loadPhoto = async (path: string): Promise<ExportContact["photo"]> => {
+  const { data, error } = await supabase.storage.from("contact-photos").download(path);
+  if (error || !data) return undefined;
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(data);
+  });
+  const [, mimeType, base64] = dataUrl.match(/^data:([^;]+);base64,(.*)$/) || [];
+  return mimeType && base64 ? { mimeType, base64 } : undefined;
+};
+
+/** Export chosen contacts and companies as a vCard file or CSV */
+export const ExportContactsDialog = ({ companies, persons }: ExportContactsDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const [format, setFormat] = useState<ExportFormat>("vcf");
+  const [selectedPersons, setSelectedPersons] = useState<Set<string>>(new Set());
+  const [selectedCompanies, setSelectedCompanies] = useState<Set<string>>(new Set());
+  const [exporting, setExporting] = useState(false);
+
+  const companyNames = useMemo(() => new Map(companies.map(c => [c.id, c.name])), [companies]);
+
+  const query = search.trim().toLowerCase();
+  const visiblePersons = persons.filter(p =>
+    !query ||
+    p.name.toLowerCase().includes(query) ||
+    p.email?.toLowerCase().includes(query) ||
+    (p.companyId && companyNames.get(p.companyId)?.toLowerCase().includes(query))
+  );
+  const visibleCompanies = companies.filter(c => !query || c.name.toLowerCase().includes(query));
+
+  const toggle = (set: Set<string>, id: string, checked: boolean) => {
+    const next = new Set(set);
+    if (checked) next.add(id);
+    else next.delete(id);
+    return next;
+  };
+
+  const toggleAll = (set: Set<string>, ids: string[], checked: boolean) => {
+    const next = new Set(set);
+    ids.forEach(id => (checked ? next.add(id) : next.delete(id)));
+    return next;
+  };
+
+  const allPersonsChecked = visiblePersons.length > 0 && visiblePersons.every(p => selectedPersons.has(p.id));
+  const allCompaniesChecked = visibleCompanies.length > 0 && visibleCompanies.every(c => selectedCompanies.has(c.id));
+  const selectedCount = selectedPersons.size + selectedCompanies.size;
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+      const contacts: ExportContact[] = [
+        ...companies
+          .filter(c => selectedCompanies.has(c.id))
+          .map(c => ({
+            kind: "company" as const,
+            name: c.name,
+            address: c.address,
+            notes: c.notes.map(n => n.text),
+          })),
+        ...(await Promise.all(persons
+          .filter(p => selectedPersons.has(p.id))
+          .map(async p => ({
+            kind: "person" as const,
+            name: p.name,
+            companyName: p.companyId ? companyNames.get(p.companyId) : undefined,
+            jobTitle: p.jobTitle,
+            email: p.email,
+            phone: p.phone,
+            address: p.address,
+            phoneNumbers: p.phoneNumbers,
+            emailAddresses: p.emailAddresses,
+            notes: p.notes.map(n => n.text),
+            photo: format === "vcf" && p.photoPath ? await loadPhoto(p.photoPath) : undefined,
+          })))),
+      ];
+
+      // Log the export event BEFORE download for audit trail
+      await logAuditEvent(AuditEvents.DATA_EXPORTED("contacts", format, contacts.length));
+
+      const date = new Date().toISOString().split("T")[0];
+      if (format === "vcf") {
+        downloadTextFile(toVCards(contacts), `contacts_${date}.vcf`, "text/vcard");
+      } else {
+        downloadTextFile(toContactsCsv(contacts), `contacts_${date}.csv`, "text/csv");
+      }
+
+      toast.success(`Exported ${contacts.length} ${contacts.length === 1 ? "entry" : "entries"}`);
+      setOpen(false);
+    } catch (error) {
+      console.error("Export failed:", error);
+      toast.error("Failed to export contacts");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" disabled={persons.length === 0 && companies.length === 0}>
+          <Download className="mr-2 h-4 w-4" />
+          Export Contacts
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Export Contacts</DialogTitle>
+          <DialogDescription>
+            vCard files open in phone and mail contact apps; CSV opens in spreadsheets and re-imports here.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 flex-1 overflow-hidden flex flex-col">
+          <RadioGroup value={format} onValueChange={(value) => setFormat(value as ExportFormat)} className="flex gap-6">
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="vcf" id="export-vcf" />
+              <Label htmlFor="export-vcf">vCard (.vcf)</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="csv" id="export-csv" />
+              <Label htmlFor="export-csv">CSV</Label>
+            </div>
+          </RadioGroup>
+
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search contacts and companies..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className="pl-9"
+            />
+          </div>
+
+          <ScrollArea className="h-[360px] border rounded-lg">
+            <div className="p-3 space-y-4">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2 pb-1 border-b">
+                  <Checkbox
+                    checked={allPersonsChecked}
+                    onCheckedChange={(checked) =>
+                      setSelectedPersons(toggleAll(selectedPersons, visiblePersons.map(p => p.id), checked === true))
+                    }
+                  />
+                  <User className="h-4 w-4 text-muted-foreground" />
+                  <span className="text-sm font-semibold">Contacts ({visiblePersons.length})</span>
+                </div>
+                {visiblePersons.map(person => (
+                  <label key={person.id} className="flex items-center gap-2 py-1 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={selectedPersons.has(person.id)}
+                      onCheckedChange={(checked) => setSelectedPersons(toggle(selectedPersons, person.id, checked === true))}
+                    />
+                    <span className="truncate">{person.name}</span>
+                    {person.companyId && (
+                      <span className="text-xs text-muted-foreground truncate">{companyNames.get(person.companyId)}</span>
+                    )}
+                  </label>
+                ))}
+              </div>
+
+              <div className="space-y-1">
+                <div className="flex items-center gap-2 pb-1 border-b">
+                  <Checkbox
+                    checked={allCompaniesChecked}
+                    onCheckedChange={(checked) =>
+                      setSelectedCompanies(toggleAll(selectedCompanies, visibleCompanies.map(c => c.id), checked === true))
+                    }
+                  />
+                  <Building2 className="h-4 w-4 text-muted-foreground" />
+                  <span className="text-sm font-semibold">Companies ({visibleCompanies.length})</span>
+                </div>
+                {visibleCompanies.map(company => (
+                  <label key={company.id} className="flex items-center gap-2 py-1 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={selectedCompanies.has(company.id)}
+                      onCheckedChange={(checked) => setSelectedCompanies(toggle(selectedCompanies, company.id, checked === true))}
+                    />
+                    <span className="truncate">{company.name}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          </ScrollArea>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={handleExport} disabled={selectedCount === 0 || exporting}>
+            {exporting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Export {selectedCount} Selected
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,337 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Link2, Unlink } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { logAuditEvent, AuditEvents } from "@/hooks/useAuditLog";
+import type { Company, Person, Quote } from "@/lib/inventory-storage";
+import {
+  DEFAULT_STAGE_PROBABILITY,
+  OPPORTUNITY_STAGES,
+  addOpportunity,
+  attachQuoteToOpportunity,
+  getOpportunityStageLabel,
+  updateOpportunity,
+  type Opportunity,
+  type OpportunityStage,
+  type Salesperson,
+} from "@/lib/opportunity-storage";
+
+interface OpportunityDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Null to create a new deal */
+  opportunity: Opportunity | null;
+  companies: Company[];
+  persons: Person[];
+  quotes: Quote[];
+  salespeople: Salesperson[];
+  onSaved: () => void;
+}
+
+const emptyForm = {
+  name: "",
+  companyId: "none",
+  personId: "none",
+  stage: "prospecting" as OpportunityStage,
+  expectedValue: "",
+  probability: String(DEFAULT_STAGE_PROBABILITY.prospecting),
+  expectedCloseDate: "",
+  ownerId: "none",
+  lostReason: "",
+  notes: "",
+};
+
+/** Create or edit a pipeline deal and attach the quotes made for it */
+export const OpportunityDialog = ({
+  open,
+  onOpenChange,
+  opportunity,
+  companies,
+  persons,
+  quotes,
+  salespeople,
+  onSaved,
+}: OpportunityDialogProps) => {
+  const [form, setForm] = useState(emptyForm);
+  const [quoteToAttach, setQuoteToAttach] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setQuoteToAttach("");
+    setForm(opportunity ? {
+      name: opportunity.name,
+      companyId: opportunity.companyId || "none",
+      personId: opportunity.personId || "none",
+      stage: opportunity.stage,
+      expectedValue: String(opportunity.expectedValue),
+      probability: String(opportunity.probability),
+      expectedCloseDate: opportunity.expectedCloseDate || "",
+      ownerId: opportunity.ownerId || "none",
+      lostReason: opportunity.lostReason || "",
+      notes: opportunity.notes || "",
+    } : emptyForm);
+  }, [open, opportunity]);
+
+  const contactOptions = form.companyId === "none"
+    ? persons
+    : persons.filter(p => p.companyId === form.companyId);
+  const attachedQuotes = opportunity ? quotes.filter(q => q.opportunityId === opportunity.id) : [];
+  const attachableQuotes = quotes.filter(q =>
+    !q.opportunityId &&
+    (form.companyId === "none" || !q.companyId || q.companyId === form.companyId)
+  );
+
+  const handleStageChange = (stage: OpportunityStage) => {
+    setForm(prev => ({ ...prev, stage, probability: String(DEFAULT_STAGE_PROBABILITY[stage]) }));
+  };
+
+  const handleSave = async () => {
+    const expectedValue = Number(form.expectedValue || 0);
+    const probability = Number(form.probability);
+    if (!form.name.trim()) {
+      toast.error("Give the deal a name");
+      return;
+    }
+    if (!Number.isFinite(expectedValue) || expectedValue < 0) {
+      toast.error("Expected value must be a positive amount");
+      return;
+    }
+    if (!Number.isInteger(probability) || probability < 0 || probability > 100) {
+      toast.error("Probability must be a whole number from 0 to 100");
+      return;
+    }
+    if (form.stage === "lost" && !form.lostReason.trim()) {
+      toast.error("Give a reason the deal was lost");
+      return;
+    }
+
+    const input = {
+      name: form.name.trim(),
+      companyId: form.companyId === "none" ? "" : form.companyId,
+      personId: form.personId === "none" ? "" : form.personId,
+      stage: form.stage,
+      expectedValue,
+      probability,
+      expectedCloseDate: form.expectedCloseDate,
+      ownerId: form.ownerId === "none" ? "" : form.ownerId,
+      lostReason: form.stage === "lost" ? form.lostReason.trim() : "",
+      notes: form.notes.trim(),
+    };
+
+    try {
+      setSaving(true);
+      if (opportunity) {
+        await updateOpportunity(opportunity.id, input);
+        logAuditEvent(AuditEvents.RECORD_UPDATED("opportunity", opportunity.id, input.name, {
+          stage: input.stage,
+          expectedValue,
+          probability,
+        }));
+        toast.success("Deal updated");
+      } else {
+        const created = await addOpportunity(input);
+        logAuditEvent(AuditEvents.RECORD_CREATED("opportunity", created.id, created.name));
+        toast.success("Deal added to the pipeline");
+      }
+      onSaved();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error saving opportunity:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save deal");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAttach = async (quoteId: string, attach: boolean) => {
+    if (!opportunity) return;
+    try {
+      await attachQuoteToOpportunity(quoteId, attach ? opportunity.id : null);
+      const quoteNumber = quotes.find(q => q.id === quoteId)?.quoteNumber;
+      logAuditEvent(AuditEvents.RECORD_UPDATED("quote", quoteId, quoteNumber, {
+        opportunity: attach ? opportunity.name : null,
+      }));
+      setQuoteToAttach("");
+      onSaved();
+    } catch (error) {
+      console.error("Error attaching quote:", error);
+      toast.error("Failed to update quote");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{opportunity ? "Edit Deal" : "New Deal"}</DialogTitle>
+          <DialogDescription>
+            Weighted value is the expected value times the probability. Invoicing an attached quote marks the deal won.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="col-span-2 space-y-2">
+            <Label htmlFor="opportunity-name">Name</Label>
+            <Input
+              id="opportunity-name"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="e.g. Fleet replacement – 3 excavators"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Company</Label>
+            <Select
+              value={form.companyId}
+              onValueChange={(value) => setForm({ ...form, companyId: value, personId: "none" })}
+            >
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No company</SelectItem>
+                {companies.map(c => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Contact</Label>
+            <Select value={form.personId} onValueChange={(value) => setForm({ ...form, personId: value })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">No contact</SelectItem>
+                {contactOptions.map(p => <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Stage</Label>
+            <Select value={form.stage} onValueChange={(value) => handleStageChange(value as OpportunityStage)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {OPPORTUNITY_STAGES.map(stage => (
+                  <SelectItem key={stage} value={stage}>{getOpportunityStageLabel(stage)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Owner</Label>
+            <Select value={form.ownerId} onValueChange={(value) => setForm({ ...form, ownerId: value })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Unassigned</SelectItem>
+                {salespeople.map(s => <SelectItem key={s.userId} value={s.userId}>{s.fullName}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="opportunity-value">Expected value</Label>
+            <Input
+              id="opportunity-value"
+              type="number"
+              min="0"
+              step="0.01"
+              value={form.expectedValue}
+              onChange={(e) => setForm({ ...form, expectedValue: e.target.value })}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label htmlFor="opportunity-probability">Probability %</Label>
+              <Input
+                id="opportunity-probability"
+                type="number"
+                min="0"
+                max="100"
+                step="1"
+                value={form.probability}
+                onChange={(e) => setForm({ ...form, probability: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="opportunity-close">Close date</Label>
+              <Input
+                id="opportunity-close"
+                type="date"
+                value={form.expectedCloseDate}
+                onChange={(e) => setForm({ ...form, expectedCloseDate: e.target.value })}
+              />
+            </div>
+          </div>
+          {form.stage === "lost" && (
+            <div className="col-span-2 space-y-2">
+              <Label htmlFor="opportunity-lost-reason">Lost reason</Label>
+              <Input
+                id="opportunity-lost-reason"
+                value={form.lostReason}
+                onChange={(e) => setForm({ ...form, lostReason: e.target.value })}
+                placeholder="e.g. Went with a competitor on price"
+              />
+            </div>
+          )}
+          <div className="col-span-2 space-y-2">
+            <Label htmlFor="opportunity-notes">Notes</Label>
+            <Textarea
+              id="opportunity-notes"
+              rows={3}
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+            />
+          </div>
+        </div>
+
+        {opportunity && (
+          <div className="border-t pt-4 space-y-3">
+            <h4 className="text-sm font-semibold">Quotes</h4>
+            {attachedQuotes.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No quotes attached</p>
+            ) : (
+              attachedQuotes.map(quote => (
+                <div key={quote.id} className="flex items-center justify-between text-sm">
+                  <span>
+                    <span className="font-medium">{quote.quoteNumber}</span>
+                    <span className="text-muted-foreground"> · {quote.customerName} · ${quote.total.toFixed(2)}</span>
+                    <Badge variant="outline" className="ml-2">{quote.status}</Badge>
+                  </span>
+                  <Button variant="ghost" size="sm" onClick={() => handleAttach(quote.id, false)}>
+                    <Unlink className="mr-1 h-4 w-4" />
+                    Detach
+                  </Button>
+                </div>
+              ))
+            )}
+            <div className="flex gap-2">
+              <Select value={quoteToAttach} onValueChange={setQuoteToAttach}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue placeholder={attachableQuotes.length ? "Choose a quote" : "No unattached quotes"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {attachableQuotes.map(q => (
+                    <SelectItem key={q.id} value={q.id}>
+                      {q.quoteNumber} · {q.customerName} · ${q.total.toFixed(2)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" disabled={!quoteToAttach} onClick={() => handleAttach(quoteToAttach, true)}>
+                <Link2 className="mr-1 h-4 w-4" />
+                Attach
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving}>{opportunity ? "Save Deal" : "Add Deal"}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
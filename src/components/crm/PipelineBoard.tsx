@@ -0,0 +1,279 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { format, parseISO } from "date-fns";
+import { Calendar, FileText, Plus, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { logAuditEvent, AuditEvents } from "@/hooks/useAuditLog";
+import { useUserRole } from "@/hooks/useUserRole";
+import type { Company, Person, Quote } from "@/lib/inventory-storage";
+import {
+  OPPORTUNITY_STAGES,
+  deleteOpportunity,
+  getOpportunityStageLabel,
+  getSalespeople,
+  getWeightedValue,
+  moveOpportunityToStage,
+  type Opportunity,
+  type OpportunityStage,
+  type Salesperson,
+} from "@/lib/opportunity-storage";
+import { OpportunityDialog } from "./OpportunityDialog";
+import { WeightedPipelineTable } from "./WeightedPipelineTable";
+
+interface PipelineBoardProps {
+  opportunities: Opportunity[];
+  companies: Company[];
+  persons: Person[];
+  quotes: Quote[];
+  onChanged: () => void;
+}
+
+const formatMoney = (amount: number) =>
+  `$${amount.toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+
+/** Kanban of deals by stage; drag a card onto another column to move it */
+export const PipelineBoard = ({ opportunities, companies, persons, quotes, onChanged }: PipelineBoardProps) => {
+  const { isOwner } = useUserRole();
+  const [salespeople, setSalespeople] = useState<Salesperson[]>([]);
+  const [ownerFilter, setOwnerFilter] = useState("all");
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropStage, setDropStage] = useState<OpportunityStage | null>(null);
+  const [editing, setEditing] = useState<Opportunity | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [losing, setLosing] = useState<Opportunity | null>(null);
+  const [lostReason, setLostReason] = useState("");
+
+  useEffect(() => {
+    getSalespeople()
+      .then(setSalespeople)
+      .catch(error => console.error("Error loading salespeople:", error));
+  }, []);
+
+  const visible = ownerFilter === "all"
+    ? opportunities
+    : opportunities.filter(o => (o.ownerId || "none") === ownerFilter);
+
+  const getPartyName = (opportunity: Opportunity) =>
+    companies.find(c => c.id === opportunity.companyId)?.name ||
+    persons.find(p => p.id === opportunity.personId)?.name;
+
+  const moveTo = async (opportunity: Opportunity, stage: OpportunityStage, reason?: string) => {
+    try {
+      await moveOpportunityToStage(opportunity, stage, reason);
+      logAuditEvent(AuditEvents.RECORD_UPDATED("opportunity", opportunity.id, opportunity.name, {
+        stage: { from: opportunity.stage, to: stage },
+        lostReason: reason,
+      }));
+      onChanged();
+    } catch (error) {
+      console.error("Error moving opportunity:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to move deal");
+    }
+  };
+
+  const handleDrop = (stage: OpportunityStage) => {
+    const opportunity = opportunities.find(o => o.id === draggingId);
+    setDraggingId(null);
+    setDropStage(null);
+    if (!opportunity || opportunity.stage === stage) return;
+    if (stage === "lost") {
+      setLostReason("");
+      setLosing(opportunity);
+      return;
+    }
+    moveTo(opportunity, stage);
+  };
+
+  const handleConfirmLost = async () => {
+    if (!losing) return;
+    if (!lostReason.trim()) {
+      toast.error("Give a reason the deal was lost");
+      return;
+    }
+    await moveTo(losing, "lost", lostReason);
+    setLosing(null);
+  };
+
+  const handleDelete = async (opportunity: Opportunity) => {
+    if (!confirm(`Delete "${opportunity.name}"? Attached quotes are kept.`)) return;
+    try {
+      await deleteOpportunity(opportunity.id);
+      logAuditEvent(AuditEvents.RECORD_DELETED("opportunity", opportunity.id, opportunity.name));
+      onChanged();
+    } catch (error) {
+      console.error("Error deleting opportunity:", error);
+      toast.error("Failed to delete deal");
+    }
+  };
+
+  const openDialog = (opportunity: Opportunity | null) => {
+    setEditing(opportunity);
+    setDialogOpen(true);
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Pipeline</CardTitle>
+            <CardDescription>Drag deals between stages. Quotes attached to a deal win it when invoiced.</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select value={ownerFilter} onValueChange={setOwnerFilter}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All salespeople</SelectItem>
+                <SelectItem value="none">Unassigned</SelectItem>
+                {salespeople.map(s => <SelectItem key={s.userId} value={s.userId}>{s.fullName}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            <Button onClick={() => openDialog(null)}>
+              <Plus className="mr-2 h-4 w-4" />
+              New Deal
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="flex gap-3 overflow-x-auto pb-2">
+            {OPPORTUNITY_STAGES.map(stage => {
+              const deals = visible.filter(o => o.stage === stage);
+              const total = deals.reduce((sum, o) => sum + o.expectedValue, 0);
+              const weighted = deals.reduce((sum, o) => sum + getWeightedValue(o), 0);
+              return (
+                <div
+                  key={stage}
+                  onDragOver={(e) => {
+                    e.preventDefault();
+                    if (dropStage !== stage) setDropStage(stage);
+                  }}
+                  onDragLeave={() => setDropStage(prev => (prev === stage ? null : prev))}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    handleDrop(stage);
+                  }}
+                  className={`flex-1 min-w-[200px] rounded-lg border bg-muted/30 p-2 transition-colors ${dropStage === stage ? "border-primary bg-primary/5" : ""}`}
+                >
+                  <div className="mb-2 px-1">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-semibold">{getOpportunityStageLabel(stage)}</span>
+                      <Badge variant="secondary">{deals.length}</Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {formatMoney(total)}
+                      {stage !== "won" && stage !== "lost" && ` · ${formatMoney(weighted)} weighted`}
+                    </p>
+                  </div>
+                  <div className="space-y-2 min-h-[60px]">
+                    {deals.map(opportunity => {
+                      const quoteCount = quotes.filter(q => q.opportunityId === opportunity.id).length;
+                      const partyName = getPartyName(opportunity);
+                      return (
+                        <div
+                          key={opportunity.id}
+                          draggable
+                          onDragStart={() => setDraggingId(opportunity.id)}
+                          onDragEnd={() => {
+                            setDraggingId(null);
+                            setDropStage(null);
+                          }}
+                          onClick={() => openDialog(opportunity)}
+                          className={`group rounded-md border bg-card p-2 text-sm shadow-sm cursor-grab active:cursor-grabbing hover:bg-accent/30 ${draggingId === opportunity.id ? "opacity-50" : ""}`}
+                        >
+                          <div className="flex items-start justify-between gap-1">
+                            <span className="font-medium leading-tight">{opportunity.name}</span>
+                            {isOwner() && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-6 w-6 shrink-0 opacity-0 group-hover:opacity-100 text-destructive"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleDelete(opportunity);
+                                }}
+                              >
+                                <Trash2 className="h-3 w-3" />
+                              </Button>
+                            )}
+                          </div>
+                          {partyName && <p className="text-xs text-muted-foreground truncate">{partyName}</p>}
+                          <div className="mt-1 flex items-center justify-between text-xs">
+                            <span className="font-semibold">{formatMoney(opportunity.expectedValue)}</span>
+                            <span className="text-muted-foreground">{opportunity.probability}%</span>
+                          </div>
+                          <div className="mt-1 flex items-center gap-3 text-xs text-muted-foreground">
+                            {opportunity.expectedCloseDate && (
+                              <span className="flex items-center gap-1">
+                                <Calendar className="h-3 w-3" />
+                                {format(parseISO(opportunity.expectedCloseDate), "MMM d")}
+                              </span>
+                            )}
+                            {quoteCount > 0 && (
+                              <span className="flex items-center gap-1">
+                                <FileText className="h-3 w-3" />
+                                {quoteCount}
+                              </span>
+                            )}
+                          </div>
+                          {opportunity.stage === "lost" && opportunity.lostReason && (
+                            <p className="mt-1 text-xs text-destructive truncate" title={opportunity.lostReason}>
+                              {opportunity.lostReason}
+                            </p>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+
+      <WeightedPipelineTable opportunities={visible} salespeople={salespeople} />
+
+      <OpportunityDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        opportunity={editing}
+        companies={companies}
+        persons={persons}
+        quotes={quotes}
+        salespeople={salespeople}
+        onSaved={onChanged}
+      />
+
+      <Dialog open={losing !== null} onOpenChange={(open) => !open && setLosing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Mark deal lost</DialogTitle>
+            <DialogDescription>{losing?.name}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="pipeline-lost-reason">Why was it lost?</Label>
+            <Input
+              id="pipeline-lost-reason"
+              value={lostReason}
+              onChange={(e) => setLostReason(e.target.value)}
+              placeholder="e.g. Went with a competitor on price"
+              autoFocus
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setLosing(null)}>Cancel</Button>
+            <Button variant="destructive" onClick={handleConfirmLost}>Mark Lost</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,66 @@
+import { format, parseISO } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { getWeightedPipeline, type Opportunity, type Salesperson } from "@/lib/opportunity-storage";
+
+interface WeightedPipelineTableProps {
+  opportunities: Opportunity[];
+  salespeople: Salesperson[];
+}
+
+const formatMoney = (amount: number | undefined) =>
+  amount ? `$${amount.toLocaleString(undefined, { maximumFractionDigits: 0 })}` : "—";
+
+const monthLabel = (month: string) =>
+  month === "none" ? "No date" : format(parseISO(`${month}-01`), "MMM yyyy");
+
+/** Open deals' weighted value by salesperson and expected close month */
+export const WeightedPipelineTable = ({ opportunities, salespeople }: WeightedPipelineTableProps) => {
+  const { months, rows, totals, total } = getWeightedPipeline(opportunities, salespeople);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Weighted Pipeline</CardTitle>
+        <CardDescription>Expected value × probability of open deals, by expected close month</CardDescription>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        {rows.length === 0 ? (
+          <p className="text-center text-muted-foreground py-6">No open deals</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Salesperson</TableHead>
+                {months.map(month => (
+                  <TableHead key={month} className="text-right whitespace-nowrap">{monthLabel(month)}</TableHead>
+                ))}
+                <TableHead className="text-right">Total</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(row => (
+                <TableRow key={row.ownerId || "unassigned"}>
+                  <TableCell className="font-medium">{row.ownerName}</TableCell>
+                  {months.map(month => (
+                    <TableCell key={month} className="text-right">{formatMoney(row.byMonth[month])}</TableCell>
+                  ))}
+                  <TableCell className="text-right font-semibold">{formatMoney(row.total)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell>Total</TableCell>
+                {months.map(month => (
+                  <TableCell key={month} className="text-right">{formatMoney(totals[month])}</TableCell>
+                ))}
+                <TableCell className="text-right">{formatMoney(total)}</TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,79 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { InvoicePDFPreview } from "@/components/InvoicePDFPreview";
+import { PaymentStatusBadge } from "@/components/InvoicePaymentsDialog";
+import type { Invoice } from "@/lib/inventory-storage";
+
+interface PortalInvoicesProps {
+  invoices: Invoice[];
+}
+
+export const PortalInvoices = ({ invoices }: PortalInvoicesProps) => {
+  const [previewInvoice, setPreviewInvoice] = useState<Invoice | null>(null);
+
+  if (invoices.length === 0) {
+    return <p className="text-sm text-muted-foreground py-8 text-center">No invoices yet.</p>;
+  }
+
+  const totalBalance = invoices.reduce(
+    (sum, inv) => sum + Math.max(inv.balanceDue ?? inv.total - (inv.amountPaid || 0), 0),
+    0
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-end text-sm">
+        <span className="text-muted-foreground mr-2">Open balance:</span>
+        <span className="font-semibold">${totalBalance.toFixed(2)}</span>
+      </div>
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Invoice</TableHead>
+              <TableHead>Date</TableHead>
+              <TableHead className="text-right">Total</TableHead>
+              <TableHead className="text-right">Paid</TableHead>
+              <TableHead className="text-right">Balance</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {invoices.map((invoice) => {
+              const paid = invoice.amountPaid || 0;
+              const balance = invoice.balanceDue ?? invoice.total - paid;
+              return (
+                <TableRow key={invoice.id}>
+                  <TableCell className="font-medium">{invoice.invoiceNumber}</TableCell>
+                  <TableCell>{format(new Date(invoice.createdAt), "MMM d, yyyy")}</TableCell>
+                  <TableCell className="text-right">${invoice.total.toFixed(2)}</TableCell>
+                  <TableCell className="text-right">${paid.toFixed(2)}</TableCell>
+                  <TableCell className="text-right font-medium">${balance.toFixed(2)}</TableCell>
+                  <TableCell>
+                    <PaymentStatusBadge status={invoice.paymentStatus || (invoice.paid ? "paid" : "unpaid")} />
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button size="sm" variant="outline" onClick={() => setPreviewInvoice(invoice)}>
+                      <Download className="mr-2 h-4 w-4" />PDF
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      <InvoicePDFPreview
+        invoice={previewInvoice}
+        open={!!previewInvoice}
+        onOpenChange={(open) => !open && setPreviewInvoice(null)}
+        readOnly
+      />
+    </div>
+  );
+};
@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { Check, Eye, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { QuotePDFPreview } from "@/components/QuotePDFPreview";
+import { respondToQuote } from "@/lib/customer-portal-storage";
+import { getRevisionLetter } from "@/lib/quote-revisions";
+import type { Quote } from "@/lib/inventory-storage";
+
+interface PortalQuotesProps {
+  quotes: Quote[];
+  onChanged: () => void;
+}
+
+const isExpired = (quote: Quote) =>
+  quote.status === "pending" && !!quote.expiresAt && new Date(quote.expiresAt).getTime() < Date.now();
+
+const STATUS_BADGE: Record<string, string> = {
+  pending: "bg-yellow-500",
+  approved: "bg-green-500",
+  rejected: "bg-red-500",
+  expired: "bg-gray-500",
+};
+
+export const PortalQuotes = ({ quotes, onChanged }: PortalQuotesProps) => {
+  const [previewQuote, setPreviewQuote] = useState<Quote | null>(null);
+  const [responding, setResponding] = useState<{ quote: Quote; accept: boolean } | null>(null);
+  const [note, setNote] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleRespond = async () => {
+    if (!responding) return;
+    setSubmitting(true);
+    try {
+      const status = await respondToQuote(responding.quote.id, responding.accept, note);
+      toast.success(`Quote ${responding.quote.quoteNumber} ${status === "approved" ? "accepted" : "declined"}`);
+      setResponding(null);
+      setNote("");
+      onChanged();
+    } catch (error) {
+      console.error("Error responding to quote:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to respond to quote");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (quotes.length === 0) {
+    return <p className="text-sm text-muted-foreground py-8 text-center">No quotes yet.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {quotes.map((quote) => {
+        const status = isExpired(quote) ? "expired" : quote.status;
+        return (
+          <Card key={quote.id}>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div>
+                <CardTitle className="text-lg">
+                  Quote {quote.quoteNumber}
+                  {!!quote.revision && (
+                    <span className="text-muted-foreground font-normal"> Rev {getRevisionLetter(quote.revision)}</span>
+                  )}
+                </CardTitle>
+                <CardDescription>
+                  {format(new Date(quote.createdAt), "MMM d, yyyy")}
+                  {quote.expiresAt && status === "pending" && ` · Valid until ${format(new Date(quote.expiresAt), "MMM d, yyyy")}`}
+                </CardDescription>
+              </div>
+              <Badge className={STATUS_BADGE[status]}>{status}</Badge>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">{quote.items.length} item{quote.items.length === 1 ? "" : "s"}</span>
+                <span className="text-lg font-bold">${quote.total.toFixed(2)}</span>
+              </div>
+              {quote.customerResponseNote && (
+                <p className="text-sm text-muted-foreground">Your note: {quote.customerResponseNote}</p>
+              )}
+              <div className="flex gap-2 flex-wrap">
+                <Button size="sm" variant="outline" onClick={() => setPreviewQuote(quote)}>
+                  <Eye className="mr-2 h-4 w-4" />View
+                </Button>
+                {status === "pending" && (
+                  <>
+                    <Button size="sm" onClick={() => setResponding({ quote, accept: true })}>
+                      <Check className="mr-2 h-4 w-4" />Accept
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setResponding({ quote, accept: false })}>
+                      <X className="mr-2 h-4 w-4" />Decline
+                    </Button>
+                  </>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      <QuotePDFPreview
+        quote={previewQuote}
+        open={!!previewQuote}
+        onOpenChange={(open) => !open && setPreviewQuote(null)}
+      />
+
+      <Dialog open={!!responding} onOpenChange={(open) => !open && setResponding(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {responding?.accept ? "Accept" : "Decline"} Quote {responding?.quote.quoteNumber}
+            </DialogTitle>
+            <DialogDescription>
+              {responding?.accept
+                ? `You are accepting a total of $${responding.quote.total.toFixed(2)}. Your sales representative will follow up with an invoice.`
+                : "Let us know why so we can send a better quote."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="quote-response-note">Note (optional)</Label>
+            <Textarea
+              id="quote-response-note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder={responding?.accept ? "PO number, delivery instructions..." : "Reason for declining"}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setResponding(null)} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button
+              variant={responding?.accept ? "default" : "destructive"}
+              onClick={handleRespond}
+              disabled={submitting}
+            >
+              {submitting ? "Saving..." : responding?.accept ? "Accept Quote" : "Decline Quote"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
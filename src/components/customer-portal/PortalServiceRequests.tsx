@@ -0,0 +1,141 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { Send } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  createServiceRequest,
+  getServiceRequestStatusLabel,
+  type PurchasedUnit,
+  type ServiceRequest,
+} from "@/lib/customer-portal-storage";
+
+const NO_SERIAL = "none";
+
+interface PortalServiceRequestsProps {
+  companyId: string;
+  requests: ServiceRequest[];
+  units: PurchasedUnit[];
+  /** Serial number picked from the equipment tab */
+  selectedSerial?: string;
+  onChanged: () => void;
+}
+
+export const PortalServiceRequests = ({ companyId, requests, units, selectedSerial, onChanged }: PortalServiceRequestsProps) => {
+  const [serialNumber, setSerialNumber] = useState(selectedSerial || NO_SERIAL);
+  const [subject, setSubject] = useState("");
+  const [description, setDescription] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (selectedSerial) setSerialNumber(selectedSerial);
+  }, [selectedSerial]);
+
+  const handleSubmit = async () => {
+    if (!subject.trim()) {
+      toast.error("Please describe the problem in the subject");
+      return;
+    }
+    setSubmitting(true);
+    try {
+      await createServiceRequest({
+        companyId,
+        serialNumber: serialNumber === NO_SERIAL ? undefined : serialNumber,
+        subject: subject.trim(),
+        description: description.trim() || undefined,
+      });
+      toast.success("Service request sent");
+      setSubject("");
+      setDescription("");
+      setSerialNumber(NO_SERIAL);
+      onChanged();
+    } catch (error) {
+      console.error("Error creating service request:", error);
+      toast.error("Failed to send service request");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Request Service</CardTitle>
+          <CardDescription>Our service team will contact you about your request</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label>Equipment</Label>
+            <Select value={serialNumber} onValueChange={setSerialNumber}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_SERIAL}>General / not listed</SelectItem>
+                {units.map((unit) => (
+                  <SelectItem key={unit.itemId} value={unit.serialNumber}>
+                    {unit.serialNumber} — {unit.description}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="service-subject">Subject</Label>
+            <Input id="service-subject" value={subject} onChange={(e) => setSubject(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="service-description">Details</Label>
+            <Textarea
+              id="service-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What happened, hours on the machine, best time to reach you..."
+            />
+          </div>
+          <Button onClick={handleSubmit} disabled={submitting}>
+            <Send className="mr-2 h-4 w-4" />
+            {submitting ? "Sending..." : "Send Request"}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <div className="space-y-3">
+        <h3 className="font-semibold">Your Requests</h3>
+        {requests.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No service requests yet.</p>
+        ) : (
+          requests.map((request) => (
+            <Card key={request.id}>
+              <CardContent className="pt-4 space-y-1">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <p className="font-medium">{request.subject}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(request.createdAt), "MMM d, yyyy")}
+                      {request.serialNumber && ` · SN ${request.serialNumber}`}
+                    </p>
+                  </div>
+                  <Badge variant={request.status === "open" ? "default" : "secondary"}>
+                    {getServiceRequestStatusLabel(request.status)}
+                  </Badge>
+                </div>
+                {request.description && <p className="text-sm whitespace-pre-wrap">{request.description}</p>}
+                {request.resolution && (
+                  <p className="text-sm text-muted-foreground">Resolution: {request.resolution}</p>
+                )}
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
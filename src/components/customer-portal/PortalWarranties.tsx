@@ -0,0 +1,63 @@
+import { format } from "date-fns";
+import { Wrench } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { PurchasedUnit } from "@/lib/customer-portal-storage";
+
+interface PortalWarrantiesProps {
+  units: PurchasedUnit[];
+  onRequestService: (unit: PurchasedUnit) => void;
+}
+
+const WarrantyBadge = ({ unit }: { unit: PurchasedUnit }) => {
+  if (!unit.warrantyEndDate) return <Badge variant="outline">No warranty</Badge>;
+  return new Date(unit.warrantyEndDate) >= new Date()
+    ? <Badge className="bg-green-500">Active</Badge>
+    : <Badge variant="secondary">Expired</Badge>;
+};
+
+export const PortalWarranties = ({ units, onRequestService }: PortalWarrantiesProps) => {
+  if (units.length === 0) {
+    return <p className="text-sm text-muted-foreground py-8 text-center">No serialized equipment on your invoices yet.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Serial #</TableHead>
+            <TableHead>Part</TableHead>
+            <TableHead>Description</TableHead>
+            <TableHead>Invoice</TableHead>
+            <TableHead>Purchased</TableHead>
+            <TableHead>Warranty Ends</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {units.map((unit) => (
+            <TableRow key={unit.itemId}>
+              <TableCell className="font-mono">{unit.serialNumber}</TableCell>
+              <TableCell className="font-mono text-xs">{unit.partNumber}</TableCell>
+              <TableCell>{unit.description}</TableCell>
+              <TableCell>{unit.invoiceNumber}</TableCell>
+              <TableCell>{format(new Date(unit.soldDate), "MMM d, yyyy")}</TableCell>
+              <TableCell>
+                {unit.warrantyEndDate ? format(new Date(unit.warrantyEndDate), "MMM d, yyyy") : "—"}
+              </TableCell>
+              <TableCell><WarrantyBadge unit={unit} /></TableCell>
+              <TableCell className="text-right">
+                <Button size="sm" variant="outline" onClick={() => onRequestService(unit)}>
+                  <Wrench className="mr-2 h-4 w-4" />Request Service
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+};
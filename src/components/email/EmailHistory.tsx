@@ -0,0 +1,54 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Mail } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { getEmailDeliveryState, getEmailSends, type EmailDocument, type EmailSend } from "@/lib/email-storage";
+
+interface EmailHistoryProps {
+  document: Pick<EmailDocument, 'type' | 'documentId' | 'customerName'>;
+  /** Bump to reload after a send */
+  refreshKey?: number;
+}
+
+/** Send log for one document: who it went to and what happened to it */
+export const EmailHistory = ({ document, refreshKey = 0 }: EmailHistoryProps) => {
+  const [sends, setSends] = useState<EmailSend[]>([]);
+  const { type, documentId, customerName } = document;
+
+  useEffect(() => {
+    getEmailSends({ type, documentId, customerName })
+      .then(setSends)
+      .catch((error) => console.error("Error loading email history:", error));
+  }, [type, documentId, customerName, refreshKey]);
+
+  if (sends.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium flex items-center gap-2">
+        <Mail className="h-4 w-4" />
+        Email History
+      </h4>
+      {sends.map((send) => {
+        const state = getEmailDeliveryState(send);
+        return (
+          <div key={send.id} className="flex items-start justify-between gap-2 rounded-md border p-2 text-sm">
+            <div className="min-w-0">
+              <div className="truncate">
+                {send.toEmail}
+                {send.cc.length > 0 && <span className="text-muted-foreground"> · cc {send.cc.join(", ")}</span>}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {format(new Date(send.sentAt || send.createdAt), "MMM d, yyyy h:mm a")}
+                {send.openedAt && ` · opened ${format(new Date(send.lastOpenedAt || send.openedAt), "MMM d h:mm a")}`}
+                {send.bouncedAt && ` · bounced ${format(new Date(send.bouncedAt), "MMM d h:mm a")}`}
+              </div>
+              {send.error && <div className="text-xs text-destructive">{send.error}</div>}
+            </div>
+            <Badge variant={state.variant}>{state.label}</Badge>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,153 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Mail } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import { logAuditEvent, AuditEvents } from "@/hooks/useAuditLog";
+import {
+  DEFAULT_EMAIL_TEMPLATES,
+  EMAIL_DOCUMENT_TYPES,
+  MERGE_FIELDS,
+  getEmailDocumentTypeLabel,
+  getEmailTemplates,
+  resetEmailTemplate,
+  saveEmailTemplate,
+  type EmailDocumentType,
+  type EmailTemplate,
+} from "@/lib/email-storage";
+
+/** Owner settings for the subject and body used when emailing each document type */
+export const EmailTemplatesDialog = () => {
+  const [open, setOpen] = useState(false);
+  const [tab, setTab] = useState<EmailDocumentType>("quote");
+  const [templates, setTemplates] = useState<Record<EmailDocumentType, EmailTemplate> | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadTemplates = () => {
+    getEmailTemplates()
+      .then(setTemplates)
+      .catch((error) => console.error("Error loading email templates:", error));
+  };
+
+  useEffect(() => {
+    if (open) loadTemplates();
+  }, [open]);
+
+  const updateDraft = (type: EmailDocumentType, changes: Partial<EmailTemplate>) =>
+    setTemplates((prev) => (prev ? { ...prev, [type]: { ...prev[type], ...changes } } : prev));
+
+  const handleSave = async (type: EmailDocumentType) => {
+    const template = templates?.[type];
+    if (!template || !template.subject.trim() || !template.body.trim()) {
+      toast.error("Subject and message are required");
+      return;
+    }
+    try {
+      setSaving(true);
+      await saveEmailTemplate(type, template.subject.trim(), template.body);
+      logAuditEvent(AuditEvents.RECORD_UPDATED("email_template", type, getEmailDocumentTypeLabel(type)));
+      toast.success(`${getEmailDocumentTypeLabel(type)} template saved`);
+      loadTemplates();
+    } catch (error) {
+      console.error("Error saving email template:", error);
+      toast.error("Failed to save template");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = async (type: EmailDocumentType) => {
+    if (!confirm(`Go back to the default ${getEmailDocumentTypeLabel(type).toLowerCase()} email?`)) return;
+    try {
+      await resetEmailTemplate(type);
+      logAuditEvent(AuditEvents.RECORD_DELETED("email_template", type, getEmailDocumentTypeLabel(type)));
+      loadTemplates();
+    } catch (error) {
+      console.error("Error resetting email template:", error);
+      toast.error("Failed to reset template");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Mail className="mr-2 h-4 w-4" />
+          Email Templates
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Email Templates</DialogTitle>
+          <DialogDescription>
+            Used when quotes, invoices and statements are emailed. Staff can still edit each message before sending.
+          </DialogDescription>
+        </DialogHeader>
+
+        {templates && (
+          <Tabs value={tab} onValueChange={(v) => setTab(v as EmailDocumentType)}>
+            <TabsList>
+              {EMAIL_DOCUMENT_TYPES.map((type) => (
+                <TabsTrigger key={type} value={type}>{getEmailDocumentTypeLabel(type)}</TabsTrigger>
+              ))}
+            </TabsList>
+            {EMAIL_DOCUMENT_TYPES.map((type) => {
+              const template = templates[type];
+              const isDefault = template.subject === DEFAULT_EMAIL_TEMPLATES[type].subject &&
+                template.body === DEFAULT_EMAIL_TEMPLATES[type].body;
+              return (
+                <TabsContent key={type} value={type} className="space-y-4">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={template.customized ? "default" : "secondary"}>
+                      {template.customized ? "Customized" : "Default"}
+                    </Badge>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`template-subject-${type}`}>Subject</Label>
+                    <Input
+                      id={`template-subject-${type}`}
+                      value={template.subject}
+                      onChange={(e) => updateDraft(type, { subject: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`template-body-${type}`}>Message</Label>
+                    <Textarea
+                      id={`template-body-${type}`}
+                      rows={10}
+                      value={template.body}
+                      onChange={(e) => updateDraft(type, { body: e.target.value })}
+                    />
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    {template.customized && (
+                      <Button variant="ghost" onClick={() => handleReset(type)}>Reset to Default</Button>
+                    )}
+                    <Button onClick={() => handleSave(type)} disabled={saving || (!template.customized && isDefault)}>
+                      Save Template
+                    </Button>
+                  </div>
+                </TabsContent>
+              );
+            })}
+          </Tabs>
+        )}
+
+        <div className="rounded-lg border p-3 text-xs space-y-1">
+          <div className="font-medium text-sm">Merge fields</div>
+          {MERGE_FIELDS.map((field) => (
+            <div key={field.key} className="flex gap-2">
+              <code className="text-primary">{`{{${field.key}}}`}</code>
+              <span className="text-muted-foreground">{field.label}</span>
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,131 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Paperclip, Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { logAuditEvent, AuditEvents } from "@/hooks/useAuditLog";
+import {
+  getEmailDocumentTypeLabel,
+  getEmailTemplates,
+  renderTemplate,
+  sendDocumentEmail,
+  type EmailDocument,
+} from "@/lib/email-storage";
+import { EmailHistory } from "@/components/email/EmailHistory";
+
+interface SendEmailDialogProps {
+  document: EmailDocument | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const SendEmailDialog = ({ document, open, onOpenChange }: SendEmailDialogProps) => {
+  const [to, setTo] = useState("");
+  const [cc, setCc] = useState("");
+  const [subject, setSubject] = useState("");
+  const [body, setBody] = useState("");
+  const [sending, setSending] = useState(false);
+  const [historyKey, setHistoryKey] = useState(0);
+
+  // Fill in the tenant's template each time the dialog opens for a document
+  useEffect(() => {
+    if (!open || !document) return;
+    setTo(document.recipient || "");
+    setCc("");
+    getEmailTemplates()
+      .then((templates) => {
+        const template = templates[document.type];
+        setSubject(renderTemplate(template.subject, document.fields));
+        setBody(renderTemplate(template.body, document.fields));
+      })
+      .catch((error) => {
+        console.error("Error loading email templates:", error);
+        toast.error("Failed to load email template");
+      });
+  }, [open, document]);
+
+  if (!document) return null;
+
+  const label = getEmailDocumentTypeLabel(document.type);
+  const ccList = cc.split(/[,;\s]+/).map((c) => c.trim()).filter(Boolean);
+  const unfilled = /\{\{\s*[a-z_]+\s*\}\}/.test(subject + body);
+
+  const handleSend = async () => {
+    if (!EMAIL_PATTERN.test(to.trim())) {
+      toast.error("Enter a valid recipient email address");
+      return;
+    }
+    if (ccList.some((c) => !EMAIL_PATTERN.test(c))) {
+      toast.error("Check the CC addresses");
+      return;
+    }
+
+    setSending(true);
+    try {
+      const result = await sendDocumentEmail(document, { to: to.trim(), cc: ccList, subject: subject.trim(), body });
+      logAuditEvent(AuditEvents.RECORD_CREATED("email_send", result.id, document.documentNumber));
+      toast.success(`${label} ${document.documentNumber} emailed to ${to.trim()}`);
+      setHistoryKey((key) => key + 1);
+    } catch (error) {
+      console.error("Error sending email:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to send email");
+      setHistoryKey((key) => key + 1);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Email {label} — {document.documentNumber}</DialogTitle>
+          <DialogDescription>
+            The PDF is attached automatically. Delivery, bounces and opens show up in the history below.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="email-to">To</Label>
+              <Input id="email-to" type="email" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="email-cc">CC</Label>
+              <Input id="email-cc" placeholder="Comma separated" value={cc} onChange={(e) => setCc(e.target.value)} />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="email-subject">Subject</Label>
+            <Input id="email-subject" value={subject} onChange={(e) => setSubject(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="email-body">Message</Label>
+            <Textarea id="email-body" rows={10} value={body} onChange={(e) => setBody(e.target.value)} />
+            {unfilled && (
+              <p className="text-xs text-destructive">The message still contains a merge field that has no value.</p>
+            )}
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="flex items-center gap-1 text-sm text-muted-foreground">
+              <Paperclip className="h-4 w-4" />
+              {document.filename}
+            </span>
+            <Button onClick={handleSend} disabled={sending || !to.trim() || !subject.trim() || !body.trim()}>
+              <Send className="mr-2 h-4 w-4" />
+              {sending ? "Sending..." : "Send"}
+            </Button>
+          </div>
+
+          <EmailHistory document={document} refreshKey={historyKey} />
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
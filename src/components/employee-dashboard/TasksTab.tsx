@@ -0,0 +1,262 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { format, isToday } from "date-fns";
+import { toast } from "sonner";
+import { AlertTriangle, Check, Lightbulb, Pencil, Plus, Trash2, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { logAuditEvent, AuditEvents } from "@/hooks/useAuditLog";
+import { TaskDialog } from "@/components/tasks/TaskDialog";
+import {
+  acceptTaskSuggestion,
+  deleteTask,
+  dismissTaskSuggestion,
+  getOpenTasksFor,
+  getRecentlyCompletedTasksFor,
+  getTaskPriorityLabel,
+  getTaskSuggestions,
+  isTaskOverdue,
+  setTaskDone,
+  type Task,
+  type TaskInput,
+  type TaskSuggestion,
+} from "@/lib/task-storage";
+
+interface TasksTabProps {
+  /** Whose tasks to show */
+  userId: string;
+  searchQuery: string;
+}
+
+const PRIORITY_VARIANTS: Record<Task["priority"], "outline" | "secondary" | "default" | "destructive"> = {
+  low: "outline",
+  normal: "secondary",
+  high: "default",
+  urgent: "destructive",
+};
+
+export function TasksTab({ userId, searchQuery }: TasksTabProps) {
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [completed, setCompleted] = useState<Task[]>([]);
+  const [suggestions, setSuggestions] = useState<TaskSuggestion[]>([]);
+  const [showCompleted, setShowCompleted] = useState(false);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Task | null>(null);
+  const [accepting, setAccepting] = useState<TaskSuggestion | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const [open, done, suggested] = await Promise.all([
+        getOpenTasksFor(userId),
+        getRecentlyCompletedTasksFor(userId),
+        getTaskSuggestions(userId),
+      ]);
+      setTasks(open);
+      setCompleted(done);
+      setSuggestions(suggested);
+    } catch (error) {
+      console.error("Error loading tasks:", error);
+      toast.error("Failed to load tasks");
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const matches = (task: Task) => !searchQuery || task.title.toLowerCase().includes(searchQuery.toLowerCase());
+
+  const handleToggleDone = async (task: Task, done: boolean) => {
+    try {
+      await setTaskDone(task.id, done);
+      logAuditEvent(AuditEvents.RECORD_UPDATED("task", task.id, task.title, { status: done ? "done" : "open" }));
+      load();
+    } catch (error) {
+      console.error("Error updating task:", error);
+      toast.error("Failed to update task");
+    }
+  };
+
+  const handleDelete = async (task: Task) => {
+    if (!confirm(`Delete "${task.title}"?`)) return;
+    try {
+      await deleteTask(task.id);
+      logAuditEvent(AuditEvents.RECORD_DELETED("task", task.id, task.title));
+      load();
+    } catch (error) {
+      console.error("Error deleting task:", error);
+      toast.error("Failed to delete task");
+    }
+  };
+
+  const handleAccept = async (input: TaskInput) => {
+    if (!accepting) return;
+    const created = await acceptTaskSuggestion(accepting, input);
+    logAuditEvent(AuditEvents.RECORD_CREATED("task", created.id, created.title));
+    toast.success("Task added");
+  };
+
+  const handleDismiss = async (suggestion: TaskSuggestion) => {
+    try {
+      await dismissTaskSuggestion(suggestion);
+      setSuggestions(prev => prev.filter(s => s !== suggestion));
+    } catch (error) {
+      console.error("Error dismissing suggestion:", error);
+      toast.error("Failed to dismiss suggestion");
+    }
+  };
+
+  const suggestionDefaults = useMemo<Partial<TaskInput> | undefined>(() => accepting ? {
+    title: accepting.title,
+    personId: accepting.personId,
+    notes: `From: ${accepting.origin}`,
+  } : undefined, [accepting]);
+
+  const openDialog = (task: Task | null) => {
+    setAccepting(null);
+    setEditing(task);
+    setDialogOpen(true);
+  };
+
+  const visibleTasks = tasks.filter(matches);
+  const overdueCount = tasks.filter(t => isTaskOverdue(t)).length;
+
+  const renderTask = (task: Task) => {
+    const overdue = isTaskOverdue(task);
+    const done = task.status === "done";
+    return (
+      <div
+        key={task.id}
+        className={`flex items-start gap-3 p-3 border rounded-lg ${overdue ? "border-destructive/50 bg-destructive/5" : ""}`}
+      >
+        <Checkbox
+          checked={done}
+          onCheckedChange={(checked) => handleToggleDone(task, checked === true)}
+          className="mt-1"
+        />
+        <div className="flex-1 min-w-0">
+          <p className={`font-medium ${done ? "line-through text-muted-foreground" : ""}`}>{task.title}</p>
+          <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-muted-foreground">
+            <Badge variant={PRIORITY_VARIANTS[task.priority]} className="text-[10px]">
+              {getTaskPriorityLabel(task.priority)}
+            </Badge>
+            {task.dueAt && (
+              <span className={overdue ? "text-destructive font-medium flex items-center gap-1" : ""}>
+                {overdue && <AlertTriangle className="h-3 w-3" />}
+                {isToday(new Date(task.dueAt))
+                  ? `Today ${format(new Date(task.dueAt), "h:mm a")}`
+                  : format(new Date(task.dueAt), "EEE MMM d, h:mm a")}
+              </span>
+            )}
+            {done && task.completedAt && <span>Done {format(new Date(task.completedAt), "MMM d")}</span>}
+          </div>
+          {task.notes && <p className="text-sm text-muted-foreground mt-1 line-clamp-2">{task.notes}</p>}
+        </div>
+        {!done && (
+          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openDialog(task)}>
+            <Pencil className="h-4 w-4" />
+          </Button>
+        )}
+        <Button variant="ghost" size="icon" className="h-8 w-8 text-destructive" onClick={() => handleDelete(task)}>
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              My Tasks
+              {overdueCount > 0 && <Badge variant="destructive">{overdueCount} overdue</Badge>}
+            </CardTitle>
+            <CardDescription>Follow-ups assigned to you, soonest first</CardDescription>
+          </div>
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2">
+              <Switch id="tasks-show-completed" checked={showCompleted} onCheckedChange={setShowCompleted} />
+              <Label htmlFor="tasks-show-completed" className="text-sm">Completed</Label>
+            </div>
+            <Button size="sm" onClick={() => openDialog(null)}>
+              <Plus className="mr-2 h-4 w-4" />
+              New Task
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {visibleTasks.length === 0 ? (
+            <p className="text-center text-muted-foreground py-6">No open tasks</p>
+          ) : (
+            visibleTasks.map(renderTask)
+          )}
+          {showCompleted && completed.filter(matches).length > 0 && (
+            <div className="pt-4 space-y-2">
+              <h4 className="text-sm font-semibold text-muted-foreground">Recently completed</h4>
+              {completed.filter(matches).map(renderTask)}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {suggestions.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Lightbulb className="h-5 w-5" />
+              Suggested
+              <Badge variant="secondary">{suggestions.length}</Badge>
+            </CardTitle>
+            <CardDescription>From your meetings' to-do lists and your conversations' key points</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {suggestions.map(suggestion => (
+              <div
+                key={`${suggestion.source}-${suggestion.sourceId}-${suggestion.sourceItem}`}
+                className="flex items-start justify-between gap-3 p-3 border rounded-lg"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium">{suggestion.title}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {suggestion.source === "video_meeting" ? "Meeting" : "Conversation"} · {suggestion.origin}
+                  </p>
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      setEditing(null);
+                      setAccepting(suggestion);
+                      setDialogOpen(true);
+                    }}
+                  >
+                    <Check className="mr-1 h-4 w-4" />
+                    Add
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleDismiss(suggestion)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <TaskDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        task={editing}
+        defaults={suggestionDefaults}
+        onSubmit={accepting ? handleAccept : undefined}
+        onSaved={load}
+      />
+    </div>
+  );
+}
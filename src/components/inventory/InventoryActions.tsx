@@ -5,7 +5,15 @@ import { AddItemDialog } from "@/components/AddItemDialog";
 import { CreateInvoiceDialog } from "@/components/CreateInvoiceDialog";
 import { BulkUploadDialog } from "@/components/BulkUploadDialog";
 import { IssuePODialog } from "@/components/IssuePODialog";
+import { ReceivePODialog } from "@/components/ReceivePODialog";
 import { DraftInvoicesDialog } from "@/components/DraftInvoicesDialog";
+import { RecurringInvoicesDialog } from "@/components/RecurringInvoicesDialog";
+import { SalesOrdersDialog } from "@/components/SalesOrdersDialog";
+import { WarehousesDialog } from "@/components/WarehousesDialog";
+import { StockTransfersDialog } from "@/components/StockTransfersDialog";
+import { ReorderReportDialog } from "@/components/ReorderReportDialog";
+import { CycleCountsDialog } from "@/components/CycleCountsDialog";
+import { ProductKitsDialog } from "@/components/ProductKitsDialog";
 
 interface InventoryActionsProps {
   onRefresh: () => void;
@@ -18,8 +26,16 @@ export function InventoryActions({ onRefresh, disabled = false }: InventoryActio
       <AddItemDialog onItemAdded={onRefresh} />
       <BulkUploadDialog onItemsAdded={onRefresh} />
       <IssuePODialog onPOCreated={onRefresh} />
+      <ReceivePODialog onReceived={onRefresh} />
+      <ReorderReportDialog />
+      <StockTransfersDialog onChanged={onRefresh} />
+      <WarehousesDialog onChanged={onRefresh} />
+      <CycleCountsDialog onChanged={onRefresh} />
+      <ProductKitsDialog />
+      <SalesOrdersDialog onChanged={onRefresh} />
       <CreateInvoiceDialog onInvoiceCreated={onRefresh} />
       <DraftInvoicesDialog onInvoiceUpdated={onRefresh} />
+      <RecurringInvoicesDialog onChanged={onRefresh} />
       <Link to="/quotes">
         <Button variant="outline" className="w-full" disabled={disabled}>
           <FileEdit className="mr-2 h-4 w-4" />
@@ -1,7 +1,11 @@
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Search, X, Loader2, ArrowUpDown } from "lucide-react";
+import { Search, X, Loader2, ArrowUpDown, MapPin } from "lucide-react";
+import type { Warehouse } from "@/lib/warehouse-storage";
+
+/** 'all', 'unassigned' or a warehouse id */
+export type LocationFilter = string;
 
 export type SortOption = 'default' | 'alphabetical' | 'price-high' | 'price-low' | 'quantity-high' | 'quantity-low';
 
@@ -16,6 +20,9 @@ interface InventoryFiltersProps {
   isSearching?: boolean;
   sortBy: SortOption;
   onSortChange: (sort: SortOption) => void;
+  warehouses?: Warehouse[];
+  locationFilter?: LocationFilter;
+  onLocationChange?: (location: LocationFilter) => void;
 }
 
 export function InventoryFilters({
@@ -29,6 +36,9 @@ export function InventoryFilters({
   isSearching = false,
   sortBy,
   onSortChange,
+  warehouses = [],
+  locationFilter = 'all',
+  onLocationChange,
 }: InventoryFiltersProps) {
   return (
     <div className="flex flex-col gap-4">
@@ -86,6 +96,21 @@ export function InventoryFilters({
             </button>
           )}
         </div>
+        {warehouses.length > 0 && onLocationChange && (
+          <Select value={locationFilter} onValueChange={onLocationChange}>
+            <SelectTrigger className="w-[180px]">
+              <MapPin className="mr-2 h-4 w-4" />
+              <SelectValue placeholder="Location" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Locations</SelectItem>
+              {warehouses.map(w => (
+                <SelectItem key={w.id} value={w.id}>{w.name}</SelectItem>
+              ))}
+              <SelectItem value="unassigned">Unassigned</SelectItem>
+            </SelectContent>
+          </Select>
+        )}
         <Select value={sortBy} onValueChange={(value) => onSortChange(value as SortOption)}>
           <SelectTrigger className="w-[180px]">
             <ArrowUpDown className="mr-2 h-4 w-4" />
@@ -1,8 +1,9 @@
 import { useMemo } from "react";
 import { Badge } from "@/components/ui/badge";
 import { CardSkeleton } from "@/components/LoadingState";
-import { InventoryItem } from "@/lib/inventory-storage";
+import { InventoryItem, getOnHandQuantity, isQuantityTracked } from "@/lib/inventory-storage";
 import { Package } from "lucide-react";
+import { getWarehouseName, type Warehouse } from "@/lib/warehouse-storage";
 
 interface GroupedItem {
   partNumber: string;
@@ -19,6 +20,9 @@ interface GroupedItem {
   availableCount: number;
   soldCount: number;
   totalValue: number;
+  quantityTracked: boolean;
+  inTransitCount: number;
+  locationIds: Set<string | undefined>;
   items: InventoryItem[];
 }
 
@@ -28,6 +32,7 @@ interface InventoryListProps {
   emptyMessage?: string;
   onItemClick: (item: InventoryItem) => void;
   groupByPartNumber?: boolean;
+  warehouses?: Warehouse[];
 }
 
 export function InventoryList({
@@ -36,6 +41,7 @@ export function InventoryList({
   emptyMessage = "No items found.",
   onItemClick,
   groupByPartNumber = true,
+  warehouses = [],
 }: InventoryListProps) {
   // Group items by part number
   const groupedItems = useMemo(() => {
@@ -59,12 +65,26 @@ export function InventoryList({
           availableCount: 0,
           soldCount: 0,
           totalValue: 0,
+          quantityTracked: false,
+          inTransitCount: 0,
+          locationIds: new Set(),
           items: [],
         };
       }
+      acc[key].items.push(item);
+      acc[key].locationIds.add(item.warehouseId);
+      if (item.inTransitTransferId) acc[key].inTransitCount += 1;
+      // A quantity item is a single row carrying the whole stock count
+      if (isQuantityTracked(item)) {
+        const onHand = getOnHandQuantity(item);
+        acc[key].quantityTracked = true;
+        acc[key].quantity += onHand;
+        acc[key].availableCount += onHand;
+        acc[key].totalValue += (item.cost || 0) * onHand;
+        return acc;
+      }
       acc[key].quantity += 1;
       acc[key].totalValue += item.cost || 0;
-      acc[key].items.push(item);
       if (item.status === 'available') {
         acc[key].availableCount += 1;
       } else {
@@ -114,11 +134,21 @@ export function InventoryList({
                     {group.availableCount} available
                   </Badge>
                 )}
+                {group.quantityTracked && group.availableCount === 0 && (
+                  <Badge variant="destructive" className="text-xs">
+                    Out of stock
+                  </Badge>
+                )}
                 {group.soldCount > 0 && (
                   <Badge variant="secondary" className="text-xs">
                     {group.soldCount} sold
                   </Badge>
                 )}
+                {group.inTransitCount > 0 && (
+                  <Badge variant="outline" className="text-xs">
+                    {group.inTransitCount} in transit
+                  </Badge>
+                )}
               </div>
               <p className="text-sm text-muted-foreground mb-2">{group.description}</p>
               <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
@@ -153,9 +183,18 @@ export function InventoryList({
                     </span>
                   </span>
                 )}
+                {warehouses.length > 0 && (
+                  <span className="text-muted-foreground">
+                    Location: <span className="font-medium text-foreground">
+                      {group.locationIds.size > 1
+                        ? `${group.locationIds.size} locations`
+                        : getWarehouseName(warehouses, [...group.locationIds][0])}
+                    </span>
+                  </span>
+                )}
                 {group.shelfLocation && (
                   <span className="text-muted-foreground">
-                    Location: <span className="font-medium text-foreground">{group.shelfLocation}</span>
+                    Bin: <span className="font-medium text-foreground">{group.shelfLocation}</span>
                   </span>
                 )}
               </div>
@@ -184,8 +223,14 @@ export function InventoryList({
               <Badge
                 variant={item.status === 'available' ? 'default' : 'secondary'}
               >
-                {item.status}
+                {isQuantityTracked(item) ? `${item.quantityOnHand} on hand` : item.status}
               </Badge>
+              {item.inTransitTransferId && (
+                <Badge variant="outline">in transit</Badge>
+              )}
+              {item.reservedSalesOrderId && (
+                <Badge variant="outline">reserved</Badge>
+              )}
             </div>
             <p className="text-sm text-muted-foreground mb-2">{item.description}</p>
             <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
@@ -196,7 +241,9 @@ export function InventoryList({
                 Cost: <span className="font-medium text-foreground">${item.cost.toFixed(2)}</span>
               </span>
               <span className="text-muted-foreground">
-                Value: <span className="font-medium text-foreground">${item.cost.toFixed(2)}</span>
+                Value: <span className="font-medium text-foreground">
+                  ${(isQuantityTracked(item) ? item.cost * getOnHandQuantity(item) : item.cost).toFixed(2)}
+                </span>
               </span>
               {item.weight && (
                 <span className="text-muted-foreground">
@@ -220,6 +267,13 @@ export function InventoryList({
                   </span>
                 </span>
               )}
+              {(warehouses.length > 0 || item.shelfLocation) && (
+                <span className="text-muted-foreground">
+                  Location: <span className="font-medium text-foreground">
+                    {getWarehouseName(warehouses, item.warehouseId)}{item.shelfLocation ? ` / ${item.shelfLocation}` : ''}
+                  </span>
+                </span>
+              )}
               {item.soldDate && (
                 <span className="text-muted-foreground col-span-2">
                   Sold: {new Date(item.soldDate).toLocaleDateString()}
@@ -1,11 +1,23 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Package, FileText, DollarSign, TrendingUp } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
 import { StatsCardSkeleton } from "@/components/LoadingState";
 
+interface LocationStock {
+  id: string;
+  name: string;
+  units: number;
+  value: number;
+}
+
 interface InventoryStatsProps {
   totalItems: number;
   availableCount: number;
   soldCount: number;
+  /** Sum of on-hand units, counting stock on quantity-tracked items */
+  unitsOnHand: number;
+  /** Part numbers at or below their minimum reorder level */
+  lowStockCount?: number;
   totalInventoryValue: number;
   totalRevenue: number;
   invoiceCount: number;
@@ -14,12 +26,18 @@ interface InventoryStatsProps {
   onAvailableClick: () => void;
   onSoldClick: () => void;
   onInvoicesClick: () => void;
+  /** Stock per location; clicking one scopes the stats and list to it */
+  locationBreakdown?: LocationStock[];
+  selectedLocation?: string;
+  onLocationClick?: (locationId: string) => void;
 }
 
 export function InventoryStats({
   totalItems,
   availableCount,
   soldCount,
+  unitsOnHand,
+  lowStockCount = 0,
   totalInventoryValue,
   totalRevenue,
   invoiceCount,
@@ -28,6 +46,9 @@ export function InventoryStats({
   onAvailableClick,
   onSoldClick,
   onInvoicesClick,
+  locationBreakdown = [],
+  selectedLocation = 'all',
+  onLocationClick,
 }: InventoryStatsProps) {
   if (loading) {
     return (
@@ -38,64 +59,94 @@ export function InventoryStats({
   }
 
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-8">
-      <Card 
-        className="cursor-pointer hover:shadow-lg transition-shadow"
-        onClick={onItemsClick}
-      >
-        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-          <CardTitle className="text-sm font-medium">Total Items</CardTitle>
-          <Package className="h-4 w-4 text-muted-foreground" />
-        </CardHeader>
-        <CardContent>
-          <div className="text-2xl font-bold">{totalItems}</div>
-          <p className="text-xs text-muted-foreground">
-            {availableCount} available, {soldCount} sold
-          </p>
-        </CardContent>
-      </Card>
+    <>
+      {locationBreakdown.length > 0 && onLocationClick && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          <Badge
+            variant={selectedLocation === 'all' ? 'default' : 'outline'}
+            className="cursor-pointer"
+            onClick={() => onLocationClick('all')}
+          >
+            All Locations
+          </Badge>
+          {locationBreakdown.map(location => (
+            <Badge
+              key={location.id}
+              variant={selectedLocation === location.id ? 'default' : 'outline'}
+              className="cursor-pointer"
+              onClick={() => onLocationClick(location.id)}
+            >
+              {location.name}: {location.units} units · ${location.value.toFixed(2)}
+            </Badge>
+          ))}
+        </div>
+      )}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-8">
+        <Card 
+          className="cursor-pointer hover:shadow-lg transition-shadow"
+          onClick={onItemsClick}
+        >
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Total Items</CardTitle>
+            <div className="flex items-center gap-2">
+              {lowStockCount > 0 && (
+                <Badge variant="destructive" title="Parts at or below their minimum level. See the Reorder report.">
+                  {lowStockCount} low stock
+                </Badge>
+              )}
+              <Package className="h-4 w-4 text-muted-foreground" />
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{totalItems}</div>
+            <p className="text-xs text-muted-foreground">
+              {availableCount} available, {soldCount} sold · {unitsOnHand} units on hand
+            </p>
+          </CardContent>
+        </Card>
 
-      <Card 
-        className="cursor-pointer hover:shadow-lg transition-shadow"
-        onClick={onAvailableClick}
-      >
-        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-          <CardTitle className="text-sm font-medium">Inventory Value</CardTitle>
-          <DollarSign className="h-4 w-4 text-muted-foreground" />
-        </CardHeader>
-        <CardContent>
-          <div className="text-2xl font-bold">${totalInventoryValue.toFixed(2)}</div>
-          <p className="text-xs text-muted-foreground">Available items cost</p>
-        </CardContent>
-      </Card>
+        <Card 
+          className="cursor-pointer hover:shadow-lg transition-shadow"
+          onClick={onAvailableClick}
+        >
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Inventory Value</CardTitle>
+            <DollarSign className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">${totalInventoryValue.toFixed(2)}</div>
+            <p className="text-xs text-muted-foreground">Available items cost</p>
+          </CardContent>
+        </Card>
 
-      <Card 
-        className="cursor-pointer hover:shadow-lg transition-shadow"
-        onClick={onSoldClick}
-      >
-        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-          <CardTitle className="text-sm font-medium">Total Revenue</CardTitle>
-          <TrendingUp className="h-4 w-4 text-muted-foreground" />
-        </CardHeader>
-        <CardContent>
-          <div className="text-2xl font-bold">${totalRevenue.toFixed(2)}</div>
-          <p className="text-xs text-muted-foreground">From {invoiceCount} invoices</p>
-        </CardContent>
-      </Card>
+        <Card 
+          className="cursor-pointer hover:shadow-lg transition-shadow"
+          onClick={onSoldClick}
+        >
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Total Revenue</CardTitle>
+            <TrendingUp className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">${totalRevenue.toFixed(2)}</div>
+            <p className="text-xs text-muted-foreground">From {invoiceCount} invoices</p>
+          </CardContent>
+        </Card>
 
-      <Card 
-        className="cursor-pointer hover:shadow-lg transition-shadow"
-        onClick={onInvoicesClick}
-      >
-        <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-          <CardTitle className="text-sm font-medium">Invoices</CardTitle>
-          <FileText className="h-4 w-4 text-muted-foreground" />
-        </CardHeader>
-        <CardContent>
-          <div className="text-2xl font-bold">{invoiceCount}</div>
-          <p className="text-xs text-muted-foreground">Total sales</p>
-        </CardContent>
-      </Card>
-    </div>
+        <Card 
+          className="cursor-pointer hover:shadow-lg transition-shadow"
+          onClick={onInvoicesClick}
+        >
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Invoices</CardTitle>
+            <FileText className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{invoiceCount}</div>
+            <p className="text-xs text-muted-foreground">Total sales</p>
+          </CardContent>
+        </Card>
+      </div>
+    </>
   );
 }
@@ -0,0 +1,47 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { Warehouse } from "@/lib/warehouse-storage";
+
+// Radix Select can't hold an empty value, so "no location" gets a sentinel
+const UNASSIGNED = "__unassigned__";
+
+interface WarehouseSelectProps {
+  warehouses: Warehouse[];
+  value?: string;
+  onChange: (warehouseId: string | undefined) => void;
+  placeholder?: string;
+  /** Offer "Unassigned" for items that predate locations */
+  allowUnassigned?: boolean;
+  excludeId?: string;
+  className?: string;
+}
+
+export function WarehouseSelect({
+  warehouses,
+  value,
+  onChange,
+  placeholder = "Select location",
+  allowUnassigned = false,
+  excludeId,
+  className,
+}: WarehouseSelectProps) {
+  const options = warehouses.filter(w => (w.isActive || w.id === value) && w.id !== excludeId);
+
+  return (
+    <Select
+      value={value || (allowUnassigned ? UNASSIGNED : "")}
+      onValueChange={(v) => onChange(v === UNASSIGNED ? undefined : v)}
+    >
+      <SelectTrigger className={className}>
+        <SelectValue placeholder={placeholder} />
+      </SelectTrigger>
+      <SelectContent>
+        {allowUnassigned && <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>}
+        {options.map(w => (
+          <SelectItem key={w.id} value={w.id}>
+            {w.name} ({w.code})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
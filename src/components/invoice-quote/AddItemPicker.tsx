@@ -2,24 +2,39 @@ import { useState, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { Plus, Search } from "lucide-react";
-import { InventoryItem } from "@/lib/inventory-storage";
+import { Badge } from "@/components/ui/badge";
+import { Boxes, Plus, Search } from "lucide-react";
+import { DocLineItem, InventoryItem, isQuantityTracked } from "@/lib/inventory-storage";
+import type { Warehouse } from "@/lib/warehouse-storage";
+import { getKitShortages, getKitStock, type ProductKit } from "@/lib/product-kits";
 
 interface AddItemPickerProps {
   availableItems: InventoryItem[];
   onAdd: (item: InventoryItem) => void;
-  excludedIds?: string[];
+  /** Lines already on the document; their units aren't offered again */
+  lineItems?: DocLineItem[];
+  warehouses?: Warehouse[];
+  kits?: ProductKit[];
+  onAddKit?: (kit: ProductKit) => void;
 }
 
-export const AddItemPicker = ({ availableItems, onAdd, excludedIds = [] }: AddItemPickerProps) => {
+export const AddItemPicker = ({
+  availableItems,
+  onAdd,
+  lineItems = [],
+  warehouses = [],
+  kits = [],
+  onAddKit,
+}: AddItemPickerProps) => {
   const [open, setOpen] = useState(false);
   const [search, setSearch] = useState("");
 
   const filtered = useMemo(() => {
-    const excluded = new Set(excludedIds);
+    const excluded = new Set(lineItems.map((l) => l.itemId));
     const q = search.toLowerCase().trim();
     return availableItems
-      .filter((i) => !excluded.has(i.id))
+      // Units on a shipped transfer can't be sold until received
+      .filter((i) => !excluded.has(i.id) && !i.inTransitTransferId && !i.reservedSalesOrderId)
       .filter(
         (i) =>
           !q ||
@@ -28,7 +43,16 @@ export const AddItemPicker = ({ availableItems, onAdd, excludedIds = [] }: AddIt
           (i.serialNumber || "").toLowerCase().includes(q)
       )
       .slice(0, 50);
-  }, [availableItems, excludedIds, search]);
+  }, [availableItems, lineItems, search]);
+
+  const filteredKits = useMemo(() => {
+    if (!onAddKit) return [];
+    const q = search.toLowerCase().trim();
+    return kits
+      .filter((k) => k.isActive)
+      .filter((k) => !q || k.partNumber.toLowerCase().includes(q) || k.description.toLowerCase().includes(q))
+      .map((kit) => ({ kit, shortages: getKitShortages(getKitStock(kit, availableItems, lineItems)) }));
+  }, [kits, onAddKit, availableItems, lineItems, search]);
 
   return (
     <Popover open={open} onOpenChange={setOpen}>
@@ -51,7 +75,41 @@ export const AddItemPicker = ({ availableItems, onAdd, excludedIds = [] }: AddIt
           </div>
         </div>
         <div className="max-h-72 overflow-y-auto">
-          {filtered.length === 0 ? (
+          {filteredKits.map(({ kit, shortages }) => (
+            <button
+              key={kit.id}
+              disabled={shortages.length > 0}
+              onClick={() => {
+                onAddKit?.(kit);
+                setOpen(false);
+                setSearch("");
+              }}
+              className="w-full text-left px-3 py-2 hover:bg-accent border-b disabled:opacity-60 disabled:hover:bg-transparent"
+            >
+              <div className="flex justify-between items-start gap-2">
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm font-medium truncate flex items-center gap-1">
+                    <Boxes className="h-3 w-3" />
+                    {kit.partNumber}
+                    <Badge variant="secondary" className="text-[10px] px-1 py-0">Kit</Badge>
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">{kit.description}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {kit.components.map((c) => `${c.quantity} × ${c.partNumber}`).join(", ")}
+                  </p>
+                  {shortages.length > 0 && (
+                    <p className="text-xs text-destructive">
+                      Short: {shortages.map((s) => `${s.partNumber} (${s.available} of ${s.needed})`).join(", ")}
+                    </p>
+                  )}
+                </div>
+                {kit.bundlePrice !== undefined && (
+                  <span className="text-sm font-semibold whitespace-nowrap">${kit.bundlePrice.toFixed(2)}</span>
+                )}
+              </div>
+            </button>
+          ))}
+          {filtered.length === 0 && filteredKits.length === 0 ? (
             <p className="text-sm text-muted-foreground text-center py-6">No items found</p>
           ) : (
             filtered.map((item) => (
@@ -71,6 +129,14 @@ export const AddItemPicker = ({ availableItems, onAdd, excludedIds = [] }: AddIt
                     {item.serialNumber && (
                       <p className="text-xs text-muted-foreground">SN: {item.serialNumber}</p>
                     )}
+                    {isQuantityTracked(item) && (
+                      <p className="text-xs text-muted-foreground">{item.quantityOnHand} on hand</p>
+                    )}
+                    {item.warehouseId && (
+                      <p className="text-xs text-muted-foreground">
+                        {warehouses.find((w) => w.id === item.warehouseId)?.name}
+                      </p>
+                    )}
                   </div>
                   <span className="text-sm font-semibold whitespace-nowrap">
                     ${item.salePrice.toFixed(2)}
@@ -4,12 +4,29 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { toast } from "sonner";
 import { ArrowLeft, Printer, Save, AlertTriangle, FileCheck, CheckCircle2 } from "lucide-react";
-import { DocLineItem, InventoryItem } from "@/lib/inventory-storage-adapter";
+import { DocLineItem, InventoryItem, Company, Person, getCompanies, getPeople } from "@/lib/inventory-storage-adapter";
 import { LineItemRow } from "./LineItemRow";
 import { AddItemPicker } from "./AddItemPicker";
+import { KitLineGroup } from "./KitLineGroup";
 import { printDocument } from "@/lib/document-print";
+import { getWarehouses, type Warehouse } from "@/lib/warehouse-storage";
+import { buildKitLines, getKitTotal, getProductKits, type ProductKit } from "@/lib/product-kits";
+import { hasSameViolations, type PricingApprovalStatus, type PricingViolation } from "@/lib/pricing-guardrails";
+import { usePricingCheck } from "@/hooks/usePricingCheck";
+import { useUserRole } from "@/hooks/useUserRole";
+import { PricingCheckPanel } from "@/components/pricing/PricingCheckPanel";
+import {
+  calculateSalesTax,
+  findCustomerCompany,
+  getTaxJurisdictions,
+  getValidExemption,
+  type TaxDetailLine,
+  type TaxJurisdiction,
+} from "@/lib/sales-tax";
 
 export type DocumentType = "quote" | "invoice";
 export type EditorMode = "create" | "edit";
@@ -25,7 +42,12 @@ export interface EditorSaveData {
   discountType: "dollar" | "percent";
   shippingCost: number;
   tax: number;
+  /** Per-jurisdiction breakdown; empty when tax was entered manually or is exempt */
+  taxDetails: TaxDetailLine[];
+  taxExemptCertificate?: string;
   notes?: string;
+  /** Company whose portal users may see the document; null when not shared */
+  confirmedCompanyId: string | null;
   isDraft?: boolean;
   subtotal: number;
   total: number;
@@ -41,13 +63,23 @@ export interface EditorInitialData {
   discount?: number;
   shippingCost?: number;
   tax?: number;
+  taxDetails?: TaxDetailLine[];
+  taxExemptCertificate?: string;
   notes?: string;
+  confirmedCompanyId?: string;
+  pricingApprovalStatus?: PricingApprovalStatus;
+  pricingViolations?: PricingViolation[];
+  pricingApprovalNote?: string;
+  /** Drafts recompute their tax; other saved documents keep what was charged */
+  isDraft?: boolean;
 }
 
 interface InvoiceQuoteEditorProps {
   documentType: DocumentType;
   mode: EditorMode;
   documentNumber: string;
+  /** Revision letter printed next to the document number */
+  revisionLabel?: string;
   initialData: EditorInitialData;
   availableInventory?: InventoryItem[];
   onBack?: () => void;
@@ -71,6 +103,7 @@ export const InvoiceQuoteEditor = ({
   documentType,
   mode,
   documentNumber,
+  revisionLabel,
   initialData,
   availableInventory = [],
   onBack,
@@ -83,6 +116,7 @@ export const InvoiceQuoteEditor = ({
   onAutoSaveDraft,
 }: InvoiceQuoteEditorProps) => {
   const isInvoice = documentType === "invoice";
+  const { hasOwnerAccess } = useUserRole();
 
   const [customerName, setCustomerName] = useState(initialData.customerName || "");
   const [customerEmail, setCustomerEmail] = useState(initialData.customerEmail || "");
@@ -90,6 +124,7 @@ export const InvoiceQuoteEditor = ({
   const [shipToAddress, setShipToAddress] = useState(initialData.shipToAddress || "");
   const [salesmanName, setSalesmanName] = useState(initialData.salesmanName || "");
   const [notes, setNotes] = useState(initialData.notes || "");
+  const [confirmedCompanyId, setConfirmedCompanyId] = useState(initialData.confirmedCompanyId || "none");
 
   const [lineItems, setLineItems] = useState<DocLineItem[]>(
     initialData.items.map((i) => ({ ...i, quantity: i.quantity || 1 }))
@@ -98,6 +133,45 @@ export const InvoiceQuoteEditor = ({
   const [discountType, setDiscountType] = useState<"dollar" | "percent">("dollar");
   const [shippingCost, setShippingCost] = useState(initialData.shippingCost || 0);
   const [tax, setTax] = useState(initialData.tax || 0);
+  // Documents saved with a hand-typed tax (no breakdown) stay manual until switched,
+  // as do sent documents saved untaxed, so opening one doesn't start charging tax
+  const savedWithoutBreakdown = !initialData.taxDetails?.length && !initialData.taxExemptCertificate;
+  const [taxMode, setTaxMode] = useState<"auto" | "manual">(
+    savedWithoutBreakdown && (initialData.tax || (mode === "edit" && !initialData.isDraft)) ? "manual" : "auto"
+  );
+  const [jurisdictions, setJurisdictions] = useState<TaxJurisdiction[] | null>(null);
+  const [companies, setCompanies] = useState<Company[]>([]);
+  const [people, setPeople] = useState<Person[]>([]);
+  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
+  const [kits, setKits] = useState<ProductKit[]>([]);
+  const [expandedKits, setExpandedKits] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    Promise.all([getTaxJurisdictions(), getCompanies(), getPeople()])
+      .then(([jurisdictionsData, companiesData, peopleData]) => {
+        setJurisdictions(jurisdictionsData);
+        setCompanies(companiesData);
+        setPeople(peopleData);
+      })
+      .catch((err) => {
+        console.error("Failed to load tax setup:", err);
+        setTaxMode("manual");
+      });
+  }, []);
+
+  useEffect(() => {
+    getWarehouses()
+      .then(setWarehouses)
+      .catch((err) => console.error("Failed to load locations:", err));
+  }, []);
+
+  const canAddItems = availableInventory.length > 0;
+  useEffect(() => {
+    if (!canAddItems) return;
+    getProductKits()
+      .then(setKits)
+      .catch((err) => console.error("Failed to load kits:", err));
+  }, [canAddItems]);
 
   // Re-sync if initialData changes (e.g., switching docs)
   useEffect(() => {
@@ -109,9 +183,43 @@ export const InvoiceQuoteEditor = ({
     [lineItems]
   );
   const discountAmount = discountType === "percent" ? (subtotal * discount) / 100 : discount;
-  const total = Math.max(0, subtotal - discountAmount + shippingCost + tax);
 
-  const updateLineItem = (index: number, field: keyof DocLineItem, value: string | number) => {
+  const customerCompany = useMemo(
+    () => findCustomerCompany(customerName, companies, people),
+    [customerName, companies, people]
+  );
+  const taxResult = useMemo(() => {
+    if (!jurisdictions) return null;
+    return calculateSalesTax({
+      lineItems,
+      discount: discountAmount,
+      shippingCost,
+      shipToAddress,
+      jurisdictions,
+      exemptCertificate: getValidExemption(customerCompany),
+    });
+  }, [jurisdictions, lineItems, discountAmount, shippingCost, shipToAddress, customerCompany]);
+
+  // Until the tax setup loads, auto mode keeps whatever was saved on the document
+  const effectiveTax = taxMode === "manual" ? tax : taxResult ? taxResult.tax : initialData.tax || 0;
+  const taxDetails = useMemo(
+    () => (taxMode === "manual" ? [] : taxResult ? taxResult.details : initialData.taxDetails || []),
+    [taxMode, taxResult, initialData.taxDetails]
+  );
+  const taxExemptCertificate = taxMode === "manual"
+    ? undefined
+    : taxResult ? taxResult.exemptCertificate : initialData.taxExemptCertificate;
+  const expiredExemption = customerCompany?.taxExempt && !getValidExemption(customerCompany);
+
+  const total = Math.max(0, subtotal - discountAmount + shippingCost + effectiveTax);
+
+  const pricing = usePricingCheck(lineItems, discountAmount);
+  // Invoices can't be finalized over the floor until an owner signs off
+  const pricingBlocked = isInvoice && !!pricing && pricing.violations.length > 0 && !hasOwnerAccess() &&
+    !(initialData.pricingApprovalStatus === "approved" &&
+      hasSameViolations(pricing.violations, initialData.pricingViolations || []));
+
+  const updateLineItem = (index: number, field: keyof DocLineItem, value: string | number | boolean) => {
     setLineItems((prev) => {
       const updated = [...prev];
       updated[index] = { ...updated[index], [field]: value };
@@ -133,10 +241,44 @@ export const InvoiceQuoteEditor = ({
         description: item.description,
         price: item.salePrice,
         quantity: 1,
+        shipFrom: warehouses.find((w) => w.id === item.warehouseId)?.name,
       },
     ]);
   };
 
+  const addKit = (kit: ProductKit) => {
+    try {
+      const lines = buildKitLines(
+        kit,
+        availableInventory,
+        lineItems,
+        (item) => warehouses.find((w) => w.id === item.warehouseId)?.name
+      );
+      setLineItems((prev) => [...prev, ...lines]);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to add kit");
+    }
+  };
+
+  const removeKit = (groupId: string) => {
+    setLineItems((prev) => prev.filter((l) => l.kit?.groupId !== groupId));
+  };
+
+  const setKitItemized = (groupId: string, itemized: boolean) => {
+    setLineItems((prev) =>
+      prev.map((l) => (l.kit?.groupId === groupId ? { ...l, kit: { ...l.kit, itemized } } : l))
+    );
+  };
+
+  const toggleKitExpanded = (groupId: string) => {
+    setExpandedKits((prev) => {
+      const next = new Set(prev);
+      if (next.has(groupId)) next.delete(groupId);
+      else next.add(groupId);
+      return next;
+    });
+  };
+
   const buildSaveData = useCallback((isDraft: boolean): EditorSaveData => ({
     customerName,
     customerEmail: customerEmail || undefined,
@@ -147,12 +289,15 @@ export const InvoiceQuoteEditor = ({
     discount: discountAmount,
     discountType,
     shippingCost,
-    tax,
+    tax: effectiveTax,
+    taxDetails,
+    taxExemptCertificate,
     notes: notes || undefined,
+    confirmedCompanyId: confirmedCompanyId === "none" ? null : confirmedCompanyId,
     isDraft,
     subtotal,
     total,
-  }), [customerName, customerEmail, customerPhone, shipToAddress, salesmanName, lineItems, discountAmount, discountType, shippingCost, tax, notes, subtotal, total]);
+  }), [customerName, customerEmail, customerPhone, shipToAddress, salesmanName, lineItems, discountAmount, discountType, shippingCost, effectiveTax, taxDetails, taxExemptCertificate, notes, confirmedCompanyId, subtotal, total]);
 
   const handleSave = useCallback((isDraft = false) => {
     onSave(buildSaveData(isDraft));
@@ -162,6 +307,7 @@ export const InvoiceQuoteEditor = ({
     printDocument({
       type: documentType,
       number: documentNumber,
+      revision: revisionLabel,
       isDraft: false,
       customerName,
       customerEmail,
@@ -172,11 +318,11 @@ export const InvoiceQuoteEditor = ({
       subtotal,
       discount: discountAmount,
       shippingCost,
-      tax,
+      tax: effectiveTax,
       total,
       notes,
     });
-  }, [documentType, documentNumber, customerName, customerEmail, customerPhone, shipToAddress, salesmanName, lineItems, subtotal, discountAmount, shippingCost, tax, total, notes]);
+  }, [documentType, documentNumber, revisionLabel, customerName, customerEmail, customerPhone, shipToAddress, salesmanName, lineItems, subtotal, discountAmount, shippingCost, effectiveTax, total, notes]);
 
   // ---- Auto-save drafts every 30s ----
   const [lastAutoSavedAt, setLastAutoSavedAt] = useState<Date | null>(null);
@@ -185,8 +331,8 @@ export const InvoiceQuoteEditor = ({
 
   const stateSignature = useMemo(() => JSON.stringify({
     customerName, customerEmail, customerPhone, shipToAddress, salesmanName,
-    lineItems, discount, discountType, shippingCost, tax, notes,
-  }), [customerName, customerEmail, customerPhone, shipToAddress, salesmanName, lineItems, discount, discountType, shippingCost, tax, notes]);
+    lineItems, discount, discountType, shippingCost, tax, taxMode, notes, confirmedCompanyId,
+  }), [customerName, customerEmail, customerPhone, shipToAddress, salesmanName, lineItems, discount, discountType, shippingCost, tax, taxMode, notes, confirmedCompanyId]);
 
   useEffect(() => {
     if (!initialSnapshotRef.current) {
@@ -223,7 +369,7 @@ export const InvoiceQuoteEditor = ({
       const meta = e.ctrlKey || e.metaKey;
       if (meta && e.key.toLowerCase() === "s") {
         e.preventDefault();
-        if (lineItems.length > 0 && customerName.trim() && !isSubmitting) {
+        if (lineItems.length > 0 && customerName.trim() && !isSubmitting && !pricingBlocked) {
           handleSave(false);
         }
       } else if (meta && e.key.toLowerCase() === "p") {
@@ -242,7 +388,7 @@ export const InvoiceQuoteEditor = ({
     };
     window.addEventListener("keydown", handler);
     return () => window.removeEventListener("keydown", handler);
-  }, [handleSave, handlePrint, onBack, lineItems.length, customerName, isSubmitting]);
+  }, [handleSave, handlePrint, onBack, lineItems.length, customerName, isSubmitting, pricingBlocked]);
 
   const docTitle = isInvoice ? "INVOICE" : "QUOTE";
   const defaultPrimaryLabel = isInvoice
@@ -274,11 +420,14 @@ export const InvoiceQuoteEditor = ({
           )}
         </div>
         <div className="flex gap-2">
-          {availableInventory.length > 0 && (
+          {canAddItems && (
             <AddItemPicker
               availableItems={availableInventory}
               onAdd={addInventoryItem}
-              excludedIds={lineItems.map((l) => l.itemId)}
+              lineItems={lineItems}
+              warehouses={warehouses}
+              kits={kits}
+              onAddKit={addKit}
             />
           )}
           <Button variant="outline" size="sm" onClick={handlePrint}>
@@ -342,6 +491,26 @@ export const InvoiceQuoteEditor = ({
                 placeholder="Phone"
                 className="text-sm"
               />
+              <Label className="text-xs text-muted-foreground">Customer portal</Label>
+              <Select value={confirmedCompanyId} onValueChange={setConfirmedCompanyId}>
+                <SelectTrigger className="text-sm h-9"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Not shared</SelectItem>
+                  {companies.map((c) => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              {confirmedCompanyId === "none" && customerCompany && (
+                <p className="text-xs text-muted-foreground">
+                  Only shared with a company chosen here.{" "}
+                  <button
+                    type="button"
+                    className="underline"
+                    onClick={() => setConfirmedCompanyId(customerCompany.id)}
+                  >
+                    Share with {customerCompany.name}
+                  </button>
+                </p>
+              )}
             </div>
             <div className="space-y-2">
               <h3 className="font-semibold text-sm">Ship To</h3>
@@ -374,15 +543,40 @@ export const InvoiceQuoteEditor = ({
                 No items. Use "Add Item" to insert from inventory.
               </p>
             ) : (
-              lineItems.map((item, index) => (
-                <LineItemRow
-                  key={`${item.itemId}-${index}`}
-                  item={item}
-                  index={index}
-                  onUpdate={updateLineItem}
-                  onRemove={removeLineItem}
-                />
-              ))
+              lineItems.map((item, index) => {
+                const renderRow = (line: DocLineItem, lineIndex: number) => (
+                  <LineItemRow
+                    key={`${line.itemId}-${lineIndex}`}
+                    item={line}
+                    index={lineIndex}
+                    onUpdate={updateLineItem}
+                    onRemove={removeLineItem}
+                    pricing={pricing?.lines[lineIndex]}
+                  />
+                );
+                if (!item.kit) return renderRow(item, index);
+
+                // A kit renders once, at its first component line
+                const { kit } = item;
+                if (lineItems.findIndex((l) => l.kit?.groupId === kit.groupId) !== index) return null;
+                const components = lineItems.flatMap((line, lineIndex) =>
+                  line.kit?.groupId === kit.groupId ? [{ line, lineIndex }] : []
+                );
+                return (
+                  <KitLineGroup
+                    key={kit.groupId}
+                    kit={kit}
+                    componentCount={components.length}
+                    total={getKitTotal(components.map((c) => c.line))}
+                    expanded={expandedKits.has(kit.groupId)}
+                    onToggle={() => toggleKitExpanded(kit.groupId)}
+                    onItemizedChange={(itemized) => setKitItemized(kit.groupId, itemized)}
+                    onRemove={() => removeKit(kit.groupId)}
+                  >
+                    {components.map(({ line, lineIndex }) => renderRow(line, lineIndex))}
+                  </KitLineGroup>
+                );
+              })
             )}
           </div>
 
@@ -465,18 +659,73 @@ export const InvoiceQuoteEditor = ({
               {/* Tax */}
               <div className="flex items-center justify-between gap-2">
                 <span className="text-sm">Tax:</span>
-                <div className="relative w-28">
-                  <span className="absolute left-2 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">$</span>
-                  <Input
-                    type="number"
-                    step="0.01"
-                    min="0"
-                    value={tax}
-                    onChange={(e) => setTax(parseFloat(e.target.value) || 0)}
-                    className="pl-6 text-right"
-                  />
+                <div className="flex items-center gap-2">
+                  <div className="flex border rounded-md overflow-hidden">
+                    <Button
+                      type="button"
+                      variant={taxMode === "auto" ? "default" : "ghost"}
+                      size="sm"
+                      onClick={() => setTaxMode("auto")}
+                      className="h-8 px-2 rounded-none"
+                      disabled={!jurisdictions}
+                    >
+                      Auto
+                    </Button>
+                    <Button
+                      type="button"
+                      variant={taxMode === "manual" ? "default" : "ghost"}
+                      size="sm"
+                      onClick={() => {
+                        setTax(effectiveTax);
+                        setTaxMode("manual");
+                      }}
+                      className="h-8 px-2 rounded-none"
+                    >
+                      Manual
+                    </Button>
+                  </div>
+                  {taxMode === "manual" ? (
+                    <div className="relative w-24">
+                      <span className="absolute left-2 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">$</span>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        value={tax}
+                        onChange={(e) => setTax(parseFloat(e.target.value) || 0)}
+                        className="pl-6 text-right"
+                      />
+                    </div>
+                  ) : (
+                    <span className="w-24 text-right text-sm font-medium">${effectiveTax.toFixed(2)}</span>
+                  )}
                 </div>
               </div>
+              {taxMode === "auto" && taxResult && (
+                <div className="space-y-1 text-xs text-muted-foreground">
+                  {taxResult.exemptCertificate ? (
+                    <p>Tax exempt: {customerCompany?.name} (certificate {taxResult.exemptCertificate})</p>
+                  ) : jurisdictions?.length === 0 ? (
+                    <p>No tax jurisdictions are set up. Add them under Accounting.</p>
+                  ) : !taxResult.location ? (
+                    <p>Add a state and ZIP to the ship-to address to calculate tax.</p>
+                  ) : taxResult.details.length === 0 ? (
+                    <p>No tax jurisdiction for {taxResult.location.stateCode} {taxResult.location.postalCode}</p>
+                  ) : (
+                    taxResult.details.map((d) => (
+                      <div key={d.jurisdictionId} className="flex justify-between">
+                        <span>{d.name} {d.rate}% on ${d.taxableAmount.toFixed(2)}</span>
+                        <span>${d.tax.toFixed(2)}</span>
+                      </div>
+                    ))
+                  )}
+                  {expiredExemption && (
+                    <p className="text-amber-600">
+                      {customerCompany?.name}'s exemption certificate expired {customerCompany?.taxExemptExpiresAt}
+                    </p>
+                  )}
+                </div>
+              )}
 
               <Separator />
 
@@ -484,6 +733,15 @@ export const InvoiceQuoteEditor = ({
                 <span className="text-lg font-semibold">Total:</span>
                 <span className="text-2xl font-bold text-primary">${total.toFixed(2)}</span>
               </div>
+
+              <PricingCheckPanel
+                check={pricing}
+                documentType={documentType}
+                approvalStatus={initialData.pricingApprovalStatus}
+                approvalNote={initialData.pricingApprovalNote}
+                savedViolations={initialData.pricingViolations}
+                canApprove={hasOwnerAccess()}
+              />
             </div>
           </div>
         </div>
@@ -511,7 +769,7 @@ export const InvoiceQuoteEditor = ({
           )}
           <Button
             onClick={() => handleSave(false)}
-            disabled={lineItems.length === 0 || isSubmitting || !customerName.trim()}
+            disabled={lineItems.length === 0 || isSubmitting || !customerName.trim() || pricingBlocked}
           >
             <FileCheck className="h-4 w-4 mr-2" />
             {isSubmitting ? "Saving..." : primaryActionLabel || defaultPrimaryLabel}
@@ -0,0 +1,68 @@
+import type { ReactNode } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { ChevronDown, ChevronRight, Trash2 } from "lucide-react";
+import type { DocKitInfo } from "@/lib/product-kits";
+
+interface KitLineGroupProps {
+  kit: DocKitInfo;
+  componentCount: number;
+  total: number;
+  expanded: boolean;
+  onToggle: () => void;
+  onItemizedChange: (itemized: boolean) => void;
+  onRemove: () => void;
+  /** Component rows, shown when expanded */
+  children: ReactNode;
+}
+
+/** A kit on a quote or invoice: one line that expands to its component lines */
+export const KitLineGroup = ({
+  kit,
+  componentCount,
+  total,
+  expanded,
+  onToggle,
+  onItemizedChange,
+  onRemove,
+  children,
+}: KitLineGroupProps) => (
+  <div className="border-b border-dashed">
+    <div className="grid grid-cols-12 gap-2 items-center py-2">
+      <div className="col-span-2 flex items-center gap-1">
+        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onToggle}>
+          {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        </Button>
+        <span className="text-sm font-medium truncate">{kit.partNumber}</span>
+      </div>
+      <div className="col-span-5 text-sm">
+        {kit.description}
+        <Badge variant="secondary" className="ml-2 text-[10px]">
+          Kit · {componentCount} {componentCount === 1 ? "line" : "lines"}
+        </Badge>
+      </div>
+      <div className="col-span-1 text-right text-sm">1</div>
+      <label className="col-span-2 flex items-center justify-end gap-1 text-xs text-muted-foreground">
+        <Checkbox
+          checked={kit.itemized}
+          onCheckedChange={(checked) => onItemizedChange(checked === true)}
+          className="h-3 w-3"
+        />
+        Itemize on print
+      </label>
+      <div className="col-span-1 text-right text-sm font-medium">${total.toFixed(2)}</div>
+      <div className="col-span-1 flex justify-center">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={onRemove}
+          className="h-8 w-8 text-destructive hover:text-destructive"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+    {expanded && <div className="pl-6 bg-muted/30 rounded">{children}</div>}
+  </div>
+);
@@ -1,19 +1,26 @@
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Trash2 } from "lucide-react";
 import { DocLineItem } from "@/lib/inventory-storage-adapter";
+import type { LinePricing } from "@/lib/pricing-guardrails";
+import { cn } from "@/lib/utils";
 
 interface LineItemRowProps {
   item: DocLineItem;
   index: number;
-  onUpdate: (index: number, field: keyof DocLineItem, value: string | number) => void;
+  onUpdate: (index: number, field: keyof DocLineItem, value: string | number | boolean) => void;
   onRemove: (index: number) => void;
+  /** Cost, margin and guardrail problems for this line, once loaded */
+  pricing?: LinePricing;
 }
 
-export const LineItemRow = ({ item, index, onUpdate, onRemove }: LineItemRowProps) => {
+export const LineItemRow = ({ item, index, onUpdate, onRemove, pricing }: LineItemRowProps) => {
   const qty = item.quantity || 1;
   const lineTotal = qty * (item.price || 0);
+  const belowMin = pricing?.violations.some((v) => v.code === "below_min_price");
+  const lowMargin = pricing?.violations.some((v) => v.code === "low_line_margin");
 
   return (
     <div className="grid grid-cols-12 gap-2 items-start py-2 border-b border-dashed">
@@ -32,6 +39,9 @@ export const LineItemRow = ({ item, index, onUpdate, onRemove }: LineItemRowProp
           className="min-h-[60px] text-sm resize-none"
           placeholder="Description..."
         />
+        {item.shipFrom && (
+          <p className="text-xs text-muted-foreground mt-1">Ships from: {item.shipFrom}</p>
+        )}
       </div>
       <div className="col-span-2">
         <Input
@@ -60,12 +70,33 @@ export const LineItemRow = ({ item, index, onUpdate, onRemove }: LineItemRowProp
             min="0"
             value={item.price}
             onChange={(e) => onUpdate(index, "price", parseFloat(e.target.value) || 0)}
-            className="pl-6 text-right"
+            className={cn("pl-6 text-right", belowMin && "border-destructive")}
           />
         </div>
+        {pricing?.minSalePrice !== undefined && (
+          <p className={cn("text-xs mt-1 text-right", belowMin ? "text-destructive" : "text-muted-foreground")}>
+            Min ${pricing.minSalePrice.toFixed(2)}
+          </p>
+        )}
       </div>
-      <div className="col-span-1 text-right text-sm font-medium pt-2">
-        ${lineTotal.toFixed(2)}
+      <div className="col-span-1 text-right text-sm font-medium pt-2 space-y-2">
+        <div>${lineTotal.toFixed(2)}</div>
+        {pricing?.cost !== undefined && (
+          <div
+            className={cn("text-xs font-normal", lowMargin ? "text-destructive" : "text-muted-foreground")}
+            title={`Cost $${pricing.cost.toFixed(2)}`}
+          >
+            {pricing.marginPercent !== null ? `${pricing.marginPercent.toFixed(1)}%` : "No margin"}
+          </div>
+        )}
+        <label className="flex items-center justify-end gap-1 text-xs font-normal text-muted-foreground">
+          <Checkbox
+            checked={item.taxable !== false}
+            onCheckedChange={(checked) => onUpdate(index, "taxable", checked === true)}
+            className="h-3 w-3"
+          />
+          Tax
+        </label>
       </div>
       <div className="col-span-1 flex justify-center">
         <Button
@@ -6,6 +6,9 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { ArrowLeft, Trash2, Printer, Save } from "lucide-react";
 import { InventoryItem } from "@/lib/inventory-storage";
+import { usePricingCheck } from "@/hooks/usePricingCheck";
+import { useUserRole } from "@/hooks/useUserRole";
+import { PricingCheckPanel } from "@/components/pricing/PricingCheckPanel";
 
 export interface InvoiceLineItem {
   itemId: string;
@@ -82,6 +85,10 @@ export const InvoicePreviewEditor = ({
   const discountAmount = discountType === 'percent' ? (subtotal * discount) / 100 : discount;
   const total = subtotal - discountAmount + shippingCost;
 
+  const { hasOwnerAccess } = useUserRole();
+  const pricing = usePricingCheck(lineItems, discountAmount);
+  const pricingBlocked = !!pricing && pricing.violations.length > 0 && !hasOwnerAccess();
+
   const handleCreate = (isDraft: boolean = false) => {
     onCreateInvoice({
       lineItems,
@@ -423,6 +430,8 @@ export const InvoicePreviewEditor = ({
                 <span className="text-lg font-semibold">Total:</span>
                 <span className="text-2xl font-bold text-primary">${total.toFixed(2)}</span>
               </div>
+
+              <PricingCheckPanel check={pricing} documentType="invoice" canApprove={hasOwnerAccess()} />
             </div>
           </div>
         </div>
@@ -444,7 +453,7 @@ export const InvoicePreviewEditor = ({
           </Button>
           <Button 
             onClick={() => handleCreate(false)} 
-            disabled={lineItems.length === 0 || isSubmitting}
+            disabled={lineItems.length === 0 || isSubmitting || pricingBlocked}
           >
             {isSubmitting ? "Creating..." : "Finalize Invoice"}
           </Button>
@@ -0,0 +1,455 @@
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import L from "leaflet";
+import { latLngToCell } from "h3-js";
+import { Building2, Hexagon, Loader2, Map as MapIcon, Pencil, Plus, Trash2, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useUserRole } from "@/hooks/useUserRole";
+import { logAuditEvent, AuditEvents } from "@/hooks/useAuditLog";
+import { getSalespeople, type Salesperson } from "@/lib/opportunity-storage";
+import {
+  TERRITORY_COLORS,
+  addTerritory,
+  cellsFromPolygon,
+  deleteTerritory,
+  getTerritories,
+  getTerritoryPolygons,
+  getTerritoryStats,
+  reassignTerritory,
+  updateTerritory,
+  type LatLng,
+  type SalesTerritory,
+  type TerritoryStats,
+} from "@/lib/territory-storage";
+
+type DrawMode = "cells" | "polygon";
+
+interface TerritoryDraft {
+  id?: string;
+  name: string;
+  color: string;
+  h3Resolution: number;
+  h3Cells: string[];
+  drawnPolygon: LatLng[];
+  mode: DrawMode;
+}
+
+interface TerritoryPanelProps {
+  map: React.RefObject<L.Map | null>;
+  territoryLayerRef: React.RefObject<L.LayerGroup | null>;
+  /** Called after company ownership may have changed */
+  onChanged: () => void;
+}
+
+const RESOLUTIONS = [
+  { value: 5, label: "Large Cells" },
+  { value: 6, label: "Medium-Large" },
+  { value: 7, label: "Medium" },
+  { value: 8, label: "Medium-Small" },
+  { value: 9, label: "Small Cells" },
+];
+
+const formatMoney = (amount: number) =>
+  `$${amount.toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+
+const EMPTY_STATS: TerritoryStats = { companyCount: 0, revenue: 0, openDeals: 0, pipeline: 0 };
+
+/** Territories drawn on the contacts map, with their reps and numbers. Owners can draw and reassign them. */
+export const TerritoryPanel = ({ map, territoryLayerRef, onChanged }: TerritoryPanelProps) => {
+  const { isOwner } = useUserRole();
+  const [territories, setTerritories] = useState<SalesTerritory[]>([]);
+  const [stats, setStats] = useState<Record<string, TerritoryStats>>({});
+  const [salespeople, setSalespeople] = useState<Salesperson[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<TerritoryDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  const load = useCallback(async () => {
+    try {
+      const [territoriesData, statsData] = await Promise.all([getTerritories(), getTerritoryStats()]);
+      setTerritories(territoriesData);
+      setStats(statsData);
+    } catch (error) {
+      console.error("Error loading territories:", error);
+      toast.error("Failed to load territories");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+    getSalespeople()
+      .then(setSalespeople)
+      .catch(error => console.error("Error loading salespeople:", error));
+  }, [load]);
+
+  const getOwnerName = (ownerId?: string) =>
+    ownerId ? salespeople.find(s => s.userId === ownerId)?.fullName || "Unknown User" : "Unassigned";
+
+  // Draw saved territories, and the one being edited on top
+  useEffect(() => {
+    const layer = territoryLayerRef.current;
+    if (!layer || !map.current) return;
+    layer.clearLayers();
+
+    territories
+      .filter(t => t.id !== draft?.id && t.h3Cells.length > 0)
+      .forEach(territory => {
+        const selected = territory.id === selectedId;
+        const polygon = L.polygon(getTerritoryPolygons(territory.h3Cells), {
+          color: territory.color,
+          fillColor: territory.color,
+          fillOpacity: selected ? 0.35 : 0.15,
+          weight: selected ? 4 : 2,
+          bubblingMouseEvents: true,
+        });
+        polygon.bindTooltip(territory.name, { permanent: false, direction: "center" });
+        polygon.on("click", () => setSelectedId(territory.id));
+        polygon.addTo(layer);
+      });
+
+    if (draft) {
+      if (draft.h3Cells.length > 0) {
+        L.polygon(getTerritoryPolygons(draft.h3Cells), {
+          color: draft.color,
+          fillColor: draft.color,
+          fillOpacity: 0.3,
+          weight: 2,
+          dashArray: "6 4",
+          interactive: false,
+        }).addTo(layer);
+      }
+      if (draft.drawnPolygon.length > 0) {
+        L.polyline([...draft.drawnPolygon, draft.drawnPolygon[0]], { color: draft.color, weight: 2, interactive: false }).addTo(layer);
+        draft.drawnPolygon.forEach(point =>
+          L.circleMarker(point, { radius: 4, color: draft.color, fillOpacity: 1, interactive: false }).addTo(layer)
+        );
+      }
+    }
+  }, [territories, draft, selectedId, map, territoryLayerRef]);
+
+  useEffect(() => () => { territoryLayerRef.current?.clearLayers(); }, [territoryLayerRef]);
+
+  // While editing, clicking the map picks cells or adds polygon corners
+  const editing = draft !== null;
+  useEffect(() => {
+    const leafletMap = map.current;
+    if (!leafletMap || !editing) return;
+    const handleClick = (e: L.LeafletMouseEvent) => {
+      setDraft(prev => {
+        if (!prev) return prev;
+        if (prev.mode === "polygon") {
+          const drawnPolygon: LatLng[] = [...prev.drawnPolygon, [e.latlng.lat, e.latlng.lng]];
+          return { ...prev, drawnPolygon, h3Cells: cellsFromPolygon(drawnPolygon, prev.h3Resolution) };
+        }
+        const cell = latLngToCell(e.latlng.lat, e.latlng.lng, prev.h3Resolution);
+        const h3Cells = prev.h3Cells.includes(cell) ? prev.h3Cells.filter(c => c !== cell) : [...prev.h3Cells, cell];
+        return { ...prev, h3Cells };
+      });
+    };
+    leafletMap.on("click", handleClick);
+    leafletMap.getContainer().style.cursor = "crosshair";
+    return () => {
+      leafletMap.off("click", handleClick);
+      leafletMap.getContainer().style.cursor = "";
+    };
+  }, [map, editing]);
+
+  const startNew = () => {
+    setSelectedId(null);
+    setDraft({
+      name: "",
+      color: TERRITORY_COLORS[territories.length % TERRITORY_COLORS.length],
+      h3Resolution: 7,
+      h3Cells: [],
+      drawnPolygon: [],
+      mode: "polygon",
+    });
+  };
+
+  const startEdit = (territory: SalesTerritory) => {
+    setSelectedId(territory.id);
+    setDraft({
+      id: territory.id,
+      name: territory.name,
+      color: territory.color,
+      h3Resolution: territory.h3Resolution,
+      h3Cells: territory.h3Cells,
+      drawnPolygon: territory.drawnPolygon || [],
+      mode: "cells",
+    });
+  };
+
+  const setResolution = (h3Resolution: number) => {
+    if (!draft) return;
+    // Picked cells don't carry over to another size; a drawn polygon refills
+    setDraft({ ...draft, h3Resolution, h3Cells: cellsFromPolygon(draft.drawnPolygon, h3Resolution) });
+  };
+
+  const undoPoint = () => {
+    if (!draft) return;
+    const drawnPolygon = draft.drawnPolygon.slice(0, -1);
+    setDraft({ ...draft, drawnPolygon, h3Cells: cellsFromPolygon(drawnPolygon, draft.h3Resolution) });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (!draft.name.trim()) {
+      toast.error("Name the territory");
+      return;
+    }
+    if (draft.h3Cells.length === 0) {
+      toast.error("Draw the territory or pick at least one cell on the map");
+      return;
+    }
+    const input = {
+      name: draft.name.trim(),
+      color: draft.color,
+      h3Resolution: draft.h3Resolution,
+      h3Cells: draft.h3Cells,
+      drawnPolygon: draft.drawnPolygon.length >= 3 ? draft.drawnPolygon : undefined,
+    };
+    try {
+      setSaving(true);
+      if (draft.id) {
+        await updateTerritory(draft.id, input);
+        logAuditEvent(AuditEvents.RECORD_UPDATED("sales_territory", draft.id, input.name, { cells: input.h3Cells.length }));
+      } else {
+        const created = await addTerritory(input);
+        logAuditEvent(AuditEvents.RECORD_CREATED("sales_territory", created.id, created.name));
+        setSelectedId(created.id);
+      }
+      toast.success(`Saved territory "${input.name}"`);
+      setDraft(null);
+      await load();
+      onChanged();
+    } catch (error) {
+      console.error("Error saving territory:", error);
+      toast.error("Failed to save territory");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (territory: SalesTerritory) => {
+    if (!confirm(`Delete the territory "${territory.name}"? Its companies keep their current owner.`)) return;
+    try {
+      await deleteTerritory(territory.id);
+      logAuditEvent(AuditEvents.RECORD_DELETED("sales_territory", territory.id, territory.name));
+      if (selectedId === territory.id) setSelectedId(null);
+      await load();
+      onChanged();
+    } catch (error) {
+      console.error("Error deleting territory:", error);
+      toast.error("Failed to delete territory");
+    }
+  };
+
+  const handleReassign = async (territory: SalesTerritory, value: string) => {
+    const ownerId = value === "none" ? undefined : value;
+    if (ownerId === territory.ownerId) return;
+    const companyCount = stats[territory.id]?.companyCount ?? 0;
+    if (!confirm(
+      `Give "${territory.name}" to ${getOwnerName(ownerId)}? ` +
+      `Its ${companyCount} ${companyCount === 1 ? "company" : "companies"} and ${getOwnerName(territory.ownerId)}'s open deals there move with it.`
+    )) return;
+    try {
+      const { companiesUpdated, opportunitiesUpdated } = await reassignTerritory(territory.id, ownerId);
+      toast.success(`Moved ${companiesUpdated} ${companiesUpdated === 1 ? "company" : "companies"} and ${opportunitiesUpdated} open ${opportunitiesUpdated === 1 ? "deal" : "deals"} to ${getOwnerName(ownerId)}`);
+      await load();
+      onChanged();
+    } catch (error) {
+      console.error("Error reassigning territory:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to reassign territory");
+    }
+  };
+
+  if (draft) {
+    return (
+      <div className="flex flex-col h-full">
+        <div className="p-3 border-b">
+          <h3 className="font-semibold text-sm flex items-center gap-1">
+            <MapIcon className="h-4 w-4" /> {draft.id ? "Edit Territory" : "New Territory"}
+          </h3>
+        </div>
+        <ScrollArea className="flex-1">
+          <div className="p-3 space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="territory-name">Name</Label>
+              <Input
+                id="territory-name"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="e.g. North Valley"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Color</Label>
+              <div className="flex flex-wrap gap-2">
+                {TERRITORY_COLORS.map(color => (
+                  <button
+                    key={color}
+                    type="button"
+                    onClick={() => setDraft({ ...draft, color })}
+                    className={`h-6 w-6 rounded-full border-2 ${draft.color === color ? "border-foreground" : "border-transparent"}`}
+                    style={{ background: color }}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Cell size</Label>
+              <Select value={String(draft.h3Resolution)} onValueChange={(value) => setResolution(Number(value))}>
+                <SelectTrigger className="h-8"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {RESOLUTIONS.map(r => <SelectItem key={r.value} value={String(r.value)}>{r.label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Click the map to</Label>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant={draft.mode === "polygon" ? "default" : "outline"}
+                  onClick={() => setDraft({ ...draft, mode: "polygon" })}
+                >
+                  <Pencil className="h-3 w-3 mr-1" /> Draw outline
+                </Button>
+                <Button
+                  size="sm"
+                  variant={draft.mode === "cells" ? "default" : "outline"}
+                  onClick={() => setDraft({ ...draft, mode: "cells" })}
+                >
+                  <Hexagon className="h-3 w-3 mr-1" /> Pick cells
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {draft.mode === "polygon"
+                  ? "Each click adds a corner; the cells inside the outline make up the territory."
+                  : "Each click adds or removes the cell under it."}
+              </p>
+            </div>
+
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>{draft.h3Cells.length} cells{draft.drawnPolygon.length > 0 && ` • ${draft.drawnPolygon.length} corners`}</span>
+              <div className="flex gap-1">
+                {draft.drawnPolygon.length > 0 && (
+                  <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={undoPoint}>
+                    <Undo2 className="h-3 w-3 mr-1" /> Undo corner
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => setDraft({ ...draft, h3Cells: [], drawnPolygon: [] })}
+                  disabled={draft.h3Cells.length === 0 && draft.drawnPolygon.length === 0}
+                >
+                  Clear
+                </Button>
+              </div>
+            </div>
+          </div>
+        </ScrollArea>
+        <div className="p-3 border-t flex justify-end gap-2">
+          <Button variant="outline" size="sm" onClick={() => setDraft(null)}>Cancel</Button>
+          <Button size="sm" onClick={handleSave} disabled={saving}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-3 border-b flex items-center justify-between">
+        <h3 className="font-semibold text-sm flex items-center gap-1">
+          <MapIcon className="h-4 w-4" /> Territories
+        </h3>
+        {isOwner() && (
+          <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={startNew}>
+            <Plus className="h-3 w-3 mr-1" /> New
+          </Button>
+        )}
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="p-3 space-y-2">
+          {loading && <Loader2 className="h-5 w-5 animate-spin mx-auto text-muted-foreground" />}
+          {!loading && territories.length === 0 && (
+            <p className="text-xs text-muted-foreground text-center py-4">
+              No territories yet.{isOwner() && " Draw one to assign its companies to a salesperson."}
+            </p>
+          )}
+
+          {territories.map(territory => {
+            const territoryStats = stats[territory.id] || EMPTY_STATS;
+            return (
+              <div
+                key={territory.id}
+                onClick={() => setSelectedId(territory.id)}
+                className={`p-2 rounded-md border bg-card space-y-2 cursor-pointer transition-colors ${selectedId === territory.id ? "ring-2 ring-primary" : "hover:bg-accent/30"}`}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="h-3 w-3 rounded-full shrink-0" style={{ background: territory.color }} />
+                  <span className="text-sm font-medium truncate flex-1">{territory.name}</span>
+                  {isOwner() && (
+                    <>
+                      <Button variant="ghost" size="icon" className="h-6 w-6" onClick={(e) => { e.stopPropagation(); startEdit(territory); }}>
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-6 w-6" onClick={(e) => { e.stopPropagation(); handleDelete(territory); }}>
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+
+                {isOwner() ? (
+                  <div onClick={(e) => e.stopPropagation()}>
+                    <Select value={territory.ownerId || "none"} onValueChange={(value) => handleReassign(territory, value)}>
+                      <SelectTrigger className="h-7 text-xs"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Unassigned</SelectItem>
+                        {salespeople.map(s => <SelectItem key={s.userId} value={s.userId}>{s.fullName}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ) : (
+                  <p className="text-xs text-muted-foreground">{getOwnerName(territory.ownerId)}</p>
+                )}
+
+                <div className="grid grid-cols-3 gap-1 text-xs">
+                  <div>
+                    <p className="text-muted-foreground flex items-center gap-1"><Building2 className="h-3 w-3" /> Accounts</p>
+                    <p className="font-medium">{territoryStats.companyCount}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Revenue</p>
+                    <p className="font-medium">{formatMoney(territoryStats.revenue)}</p>
+                  </div>
+                  <div title={`${territoryStats.openDeals} open deals, weighted by probability`}>
+                    <p className="text-muted-foreground">Pipeline</p>
+                    <p className="font-medium">{formatMoney(territoryStats.pipeline)}</p>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
@@ -0,0 +1,148 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
+import { ShieldAlert } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import { logAuditEvent, AuditEvents } from "@/hooks/useAuditLog";
+import {
+  decidePricingApproval,
+  getPricingApprovalRequests,
+  type PricingApprovalRequest,
+} from "@/lib/pricing-guardrails";
+
+interface PricingApprovalQueueDialogProps {
+  onDecided?: () => void;
+}
+
+const requestKey = (request: PricingApprovalRequest) => `${request.documentType}:${request.documentId}`;
+
+/** Owner queue of quotes and invoices held for pricing below the guardrails */
+export const PricingApprovalQueueDialog = ({ onDecided }: PricingApprovalQueueDialogProps) => {
+  const [open, setOpen] = useState(false);
+  const [requests, setRequests] = useState<PricingApprovalRequest[]>([]);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [deciding, setDeciding] = useState<string | null>(null);
+
+  const loadRequests = () => {
+    getPricingApprovalRequests()
+      .then(setRequests)
+      .catch((error) => console.error("Error loading pricing approvals:", error));
+  };
+
+  // The count on the trigger is loaded up front; the list refreshes on open
+  useEffect(() => {
+    loadRequests();
+  }, [open]);
+
+  const handleDecide = async (request: PricingApprovalRequest, approve: boolean) => {
+    const key = requestKey(request);
+    const note = notes[key]?.trim();
+    if (!approve && !note) {
+      toast.error("Add a note so the salesperson knows what to change");
+      return;
+    }
+    try {
+      setDeciding(key);
+      await decidePricingApproval(request.documentType, request.documentId, approve, note);
+      logAuditEvent(AuditEvents.RECORD_UPDATED(request.documentType, request.documentId, request.documentNumber, {
+        pricingApproval: approve ? "approved" : "rejected",
+      }));
+      toast.success(`${request.documentNumber} pricing ${approve ? "approved" : "rejected"}`);
+      setNotes((prev) => {
+        const next = { ...prev };
+        delete next[key];
+        return next;
+      });
+      loadRequests();
+      onDecided?.();
+    } catch (error) {
+      console.error("Error deciding pricing approval:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save the decision");
+    } finally {
+      setDeciding(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <ShieldAlert className="mr-2 h-4 w-4" />
+          Pricing Approvals
+          {requests.length > 0 && <Badge variant="destructive" className="ml-2">{requests.length}</Badge>}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Pricing Approvals</DialogTitle>
+          <DialogDescription>
+            Quotes and invoices priced below your guardrails. The salesperson is notified of each decision.
+          </DialogDescription>
+        </DialogHeader>
+
+        {requests.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">Nothing is waiting for approval</p>
+        ) : (
+          <div className="space-y-3">
+            {requests.map((request) => {
+              const key = requestKey(request);
+              return (
+                <Card key={key}>
+                  <CardContent className="space-y-3 pt-4">
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <div className="flex items-center gap-2 font-medium">
+                          {request.documentNumber}
+                          <Badge variant="outline" className="capitalize font-normal">{request.documentType}</Badge>
+                        </div>
+                        <div className="text-sm text-muted-foreground">
+                          {request.customerName}
+                          {request.requestedByName && ` · requested by ${request.requestedByName}`}
+                          {request.requestedAt && ` ${formatDistanceToNow(new Date(request.requestedAt), { addSuffix: true })}`}
+                        </div>
+                      </div>
+                      <div className="text-right text-sm">
+                        <div className="font-semibold">${request.total.toFixed(2)}</div>
+                        {request.discount > 0 && (
+                          <div className="text-xs text-muted-foreground">-${request.discount.toFixed(2)} discount</div>
+                        )}
+                      </div>
+                    </div>
+                    <ul className="list-disc pl-5 text-sm">
+                      {request.violations.map((violation, index) => (
+                        <li key={`${violation.code}-${violation.itemId || index}`}>{violation.message}</li>
+                      ))}
+                    </ul>
+                    <Textarea
+                      rows={2}
+                      placeholder="Note for the salesperson (required to reject)"
+                      value={notes[key] || ""}
+                      onChange={(e) => setNotes((prev) => ({ ...prev, [key]: e.target.value }))}
+                    />
+                    <div className="flex justify-end gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={deciding === key}
+                        onClick={() => handleDecide(request, false)}
+                      >
+                        Reject
+                      </Button>
+                      <Button size="sm" disabled={deciding === key} onClick={() => handleDecide(request, true)}>
+                        Approve
+                      </Button>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,82 @@
+import { AlertTriangle, ShieldCheck, ShieldX } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { cn } from "@/lib/utils";
+import { hasSameViolations, type PricingApprovalStatus, type PricingCheck, type PricingViolation } from "@/lib/pricing-guardrails";
+
+interface PricingCheckPanelProps {
+  check: PricingCheck | null;
+  documentType: "quote" | "invoice";
+  /** Saved approval state of the document being edited */
+  approvalStatus?: PricingApprovalStatus;
+  approvalNote?: string;
+  /** Violations the saved approval state applies to */
+  savedViolations?: PricingViolation[];
+  /** Owners' own pricing is approved as they save it */
+  canApprove?: boolean;
+}
+
+/** Document margin plus any guardrail violations, shown under the totals */
+export const PricingCheckPanel = ({
+  check,
+  documentType,
+  approvalStatus: savedStatus,
+  approvalNote,
+  savedViolations = [],
+  canApprove = false,
+}: PricingCheckPanelProps) => {
+  if (!check) return null;
+
+  const hasViolations = check.violations.length > 0;
+  // Changing the problem pricing starts a fresh request when saved
+  const approvalStatus = hasSameViolations(check.violations, savedViolations) ? savedStatus : undefined;
+  const belowFloor = check.marginPercent !== null && hasViolations;
+
+  return (
+    <div className="space-y-2">
+      {check.cost > 0 && (
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>Margin (cost ${check.cost.toFixed(2)}):</span>
+          <span className={cn("font-medium", belowFloor || check.margin < 0 ? "text-destructive" : "text-green-600")}>
+            ${check.margin.toFixed(2)}
+            {check.marginPercent !== null && ` (${check.marginPercent.toFixed(1)}%)`}
+          </span>
+        </div>
+      )}
+
+      {hasViolations && approvalStatus === "approved" && (
+        <p className="flex items-center gap-1 text-xs text-green-600">
+          <ShieldCheck className="h-3 w-3" />
+          Pricing exceptions approved{approvalNote ? `: ${approvalNote}` : ""}
+        </p>
+      )}
+
+      {hasViolations && approvalStatus !== "approved" && (
+        <Alert variant={approvalStatus === "rejected" ? "destructive" : "default"} className="py-2">
+          {approvalStatus === "rejected" ? <ShieldX className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />}
+          <AlertTitle className="text-sm">
+            {approvalStatus === "rejected"
+              ? "Pricing was rejected"
+              : approvalStatus === "pending"
+              ? "Waiting for pricing approval"
+              : "Below the pricing floor"}
+          </AlertTitle>
+          <AlertDescription className="space-y-1 text-xs">
+            <ul className="list-disc pl-4">
+              {check.violations.map((violation, index) => (
+                <li key={`${violation.code}-${violation.itemId || index}`}>{violation.message}</li>
+              ))}
+            </ul>
+            {approvalStatus === "rejected" && approvalNote && <p>Owner's note: {approvalNote}</p>}
+            <p>
+              {canApprove
+                ? "As an owner, saving approves these exceptions."
+                : documentType === "invoice"
+                ? "Save as a draft to send it to an owner for approval; it can be finalized once approved."
+                : "Saving sends the quote to an owner for approval before it can go to the customer."}
+            </p>
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,123 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Percent } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { logAuditEvent, AuditEvents } from "@/hooks/useAuditLog";
+import { getPricingGuardrails, savePricingGuardrails } from "@/lib/pricing-guardrails";
+
+const parsePercent = (value: string): number | null | undefined => {
+  if (!value.trim()) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 && parsed <= 100 ? parsed : undefined;
+};
+
+/** Owner settings for the margin floor quotes and invoices are checked against */
+export const PricingGuardrailsDialog = () => {
+  const [open, setOpen] = useState(false);
+  const [enforceMinSalePrice, setEnforceMinSalePrice] = useState(true);
+  const [minMargin, setMinMargin] = useState("");
+  const [maxDiscount, setMaxDiscount] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    getPricingGuardrails()
+      .then((rules) => {
+        setEnforceMinSalePrice(rules.enforceMinSalePrice);
+        setMinMargin(rules.minMarginPercent !== null ? String(rules.minMarginPercent) : "");
+        setMaxDiscount(rules.maxDiscountPercent !== null ? String(rules.maxDiscountPercent) : "");
+      })
+      .catch((error) => console.error("Error loading pricing guardrails:", error));
+  }, [open]);
+
+  const handleSave = async () => {
+    const minMarginPercent = parsePercent(minMargin);
+    const maxDiscountPercent = parsePercent(maxDiscount);
+    if (minMarginPercent === undefined || maxDiscountPercent === undefined) {
+      toast.error("Percentages must be between 0 and 100");
+      return;
+    }
+    try {
+      setSaving(true);
+      await savePricingGuardrails({ enforceMinSalePrice, minMarginPercent, maxDiscountPercent });
+      logAuditEvent(AuditEvents.RECORD_UPDATED("pricing_guardrails", "tenant", "Pricing guardrails", {
+        enforceMinSalePrice,
+        minMarginPercent,
+        maxDiscountPercent,
+      }));
+      toast.success("Pricing guardrails saved");
+      setOpen(false);
+    } catch (error) {
+      console.error("Error saving pricing guardrails:", error);
+      toast.error("Failed to save pricing guardrails");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Percent className="mr-2 h-4 w-4" />
+          Pricing Guardrails
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Pricing Guardrails</DialogTitle>
+          <DialogDescription>
+            Quotes and invoices that break these rules need an owner's approval before they go to the customer or are finalized.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="enforce-min-sale-price">Enforce item minimum prices</Label>
+              <p className="text-xs text-muted-foreground">Set per item in inventory</p>
+            </div>
+            <Switch id="enforce-min-sale-price" checked={enforceMinSalePrice} onCheckedChange={setEnforceMinSalePrice} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="min-margin-percent">Minimum margin %</Label>
+            <Input
+              id="min-margin-percent"
+              type="number"
+              min="0"
+              max="100"
+              step="0.1"
+              placeholder="No minimum"
+              value={minMargin}
+              onChange={(e) => setMinMargin(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">Checked per line and, when discounted, for the whole document</p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="max-discount-percent">Maximum discount %</Label>
+            <Input
+              id="max-discount-percent"
+              type="number"
+              min="0"
+              max="100"
+              step="0.1"
+              placeholder="No maximum"
+              value={maxDiscount}
+              onChange={(e) => setMaxDiscount(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">As a share of the subtotal</p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,204 @@
+import { useCallback, useEffect, useState } from "react";
+import { addDays, format } from "date-fns";
+import { toast } from "sonner";
+import { Copy, FileCheck, Link2, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { logAuditEvent, AuditEvents } from "@/hooks/useAuditLog";
+import {
+  createAcceptanceLink,
+  getAcceptanceLinks,
+  getAcceptanceUrl,
+  getCertificateUrl,
+  isLinkActive,
+  revokeAcceptanceLink,
+  type QuoteAcceptance,
+  type QuoteAcceptanceLink,
+} from "@/lib/quote-acceptance-storage";
+import { getRevisionLetter } from "@/lib/quote-revisions";
+import type { Quote } from "@/lib/inventory-storage";
+
+interface QuoteAcceptanceDialogProps {
+  quote: Quote | null;
+  acceptance?: QuoteAcceptance;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const EXPIRY_OPTIONS = [3, 7, 14, 30];
+
+const linkStatus = (link: QuoteAcceptanceLink, currentRevision: number) => {
+  if (link.usedAt) return { label: "Accepted", variant: "default" as const };
+  if (link.revokedAt) return { label: "Revoked", variant: "secondary" as const };
+  if (new Date(link.expiresAt).getTime() <= Date.now()) return { label: "Expired", variant: "secondary" as const };
+  if (link.revision !== currentRevision) return { label: "Superseded", variant: "secondary" as const };
+  return { label: "Active", variant: "outline" as const };
+};
+
+const openAcceptanceCertificate = async (acceptance: QuoteAcceptance) => {
+  if (!acceptance.certificatePath) {
+    toast.error("The certificate for this acceptance is not available");
+    return;
+  }
+  try {
+    window.open(await getCertificateUrl(acceptance.certificatePath), "_blank", "noopener");
+  } catch (error) {
+    console.error("Error opening acceptance certificate:", error);
+    toast.error("Failed to open certificate");
+  }
+};
+
+export const QuoteAcceptanceDialog = ({ quote, acceptance, open, onOpenChange }: QuoteAcceptanceDialogProps) => {
+  const [links, setLinks] = useState<QuoteAcceptanceLink[]>([]);
+  const [expiryDays, setExpiryDays] = useState("7");
+  const [convertOnAccept, setConvertOnAccept] = useState(true);
+  const [creating, setCreating] = useState(false);
+
+  const loadLinks = useCallback(async () => {
+    if (!quote) return;
+    try {
+      setLinks(await getAcceptanceLinks(quote.id));
+    } catch (error) {
+      console.error("Error loading acceptance links:", error);
+    }
+  }, [quote]);
+
+  useEffect(() => {
+    if (open) loadLinks();
+  }, [open, loadLinks]);
+
+  if (!quote) return null;
+
+  const currentRevision = quote.revision || 0;
+
+  const copyLink = async (link: QuoteAcceptanceLink) => {
+    await navigator.clipboard.writeText(getAcceptanceUrl(link.token));
+    toast.success("Acceptance link copied");
+  };
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      // Never outlive the quote itself
+      let expiresAt = addDays(new Date(), Number(expiryDays));
+      if (quote.expiresAt && new Date(quote.expiresAt) < expiresAt) expiresAt = new Date(quote.expiresAt);
+      const link = await createAcceptanceLink(quote.id, expiresAt, convertOnAccept);
+      logAuditEvent(AuditEvents.RECORD_CREATED("quote_acceptance_link", link.id, quote.quoteNumber));
+      await copyLink(link);
+      loadLinks();
+    } catch (error) {
+      console.error("Error creating acceptance link:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to create acceptance link");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (link: QuoteAcceptanceLink) => {
+    try {
+      await revokeAcceptanceLink(link.id);
+      logAuditEvent(AuditEvents.RECORD_UPDATED("quote_acceptance_link", link.id, quote.quoteNumber, { revoked: true }));
+      toast.success("Link revoked");
+      loadLinks();
+    } catch (error) {
+      console.error("Error revoking acceptance link:", error);
+      toast.error("Failed to revoke link");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Customer Acceptance — {quote.quoteNumber}</DialogTitle>
+          <DialogDescription>
+            Send the customer a link to review and sign Rev {getRevisionLetter(currentRevision) || "A"}. Editing the quote
+            afterwards invalidates existing links.
+          </DialogDescription>
+        </DialogHeader>
+
+        {acceptance ? (
+          <div className="space-y-3 rounded-lg border p-4 text-sm">
+            <div className="flex items-center justify-between">
+              <span className="font-medium">
+                Accepted Rev {getRevisionLetter(acceptance.revision)} by {acceptance.signerName}
+              </span>
+              <Button size="sm" variant="outline" onClick={() => openAcceptanceCertificate(acceptance)}>
+                <FileCheck className="mr-2 h-4 w-4" />Certificate
+              </Button>
+            </div>
+            <div className="grid grid-cols-2 gap-2 text-muted-foreground">
+              <span>Signed</span><span>{format(new Date(acceptance.acceptedAt), "MMM d, yyyy h:mm a")}</span>
+              <span>PO Number</span><span>{acceptance.poNumber || "—"}</span>
+              <span>IP Address</span><span>{acceptance.ipAddress || "—"}</span>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4 rounded-lg border p-4">
+            <div className="grid grid-cols-2 gap-4 items-end">
+              <div className="space-y-2">
+                <Label>Link expires after</Label>
+                <Select value={expiryDays} onValueChange={setExpiryDays}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXPIRY_OPTIONS.map((days) => (
+                      <SelectItem key={days} value={days.toString()}>{days} days</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <Switch id="convert-on-accept" checked={convertOnAccept} onCheckedChange={setConvertOnAccept} />
+                <Label htmlFor="convert-on-accept" className="text-sm font-normal">Start invoice when accepted</Label>
+              </div>
+            </div>
+            <Button onClick={handleCreate} disabled={creating || quote.status !== "pending"}>
+              <Link2 className="mr-2 h-4 w-4" />
+              {creating ? "Creating..." : "Create & Copy Link"}
+            </Button>
+          </div>
+        )}
+
+        {links.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Links</h4>
+            {links.map((link) => {
+              const status = linkStatus(link, currentRevision);
+              const active = isLinkActive(link) && link.revision === currentRevision;
+              return (
+                <div key={link.id} className="flex items-center justify-between gap-2 rounded-md border p-2 text-sm">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant={status.variant}>{status.label}</Badge>
+                      <span>Rev {getRevisionLetter(link.revision)}</span>
+                      {link.convertOnAccept && <span className="text-xs text-muted-foreground">· auto-invoice</span>}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      Created {format(new Date(link.createdAt), "MMM d")} · expires {format(new Date(link.expiresAt), "MMM d, yyyy")}
+                    </div>
+                  </div>
+                  {active && (
+                    <div className="flex gap-1">
+                      <Button size="icon" variant="ghost" onClick={() => copyLink(link)} title="Copy link">
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <Button size="icon" variant="ghost" onClick={() => handleRevoke(link)} title="Revoke link">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -6,6 +6,9 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { ArrowLeft, Trash2, Printer } from "lucide-react";
 import { InventoryItem } from "@/lib/inventory-storage";
+import { usePricingCheck } from "@/hooks/usePricingCheck";
+import { useUserRole } from "@/hooks/useUserRole";
+import { PricingCheckPanel } from "@/components/pricing/PricingCheckPanel";
 
 export interface QuoteLineItem {
   itemId: string;
@@ -81,6 +84,9 @@ export const QuotePreviewEditor = ({
   const discountAmount = discountType === 'percent' ? (subtotal * discount) / 100 : discount;
   const total = subtotal - discountAmount + shippingCost;
 
+  const { hasOwnerAccess } = useUserRole();
+  const pricing = usePricingCheck(lineItems, discountAmount);
+
   const handleCreate = () => {
     onCreateQuote({
       lineItems,
@@ -424,6 +430,8 @@ export const QuotePreviewEditor = ({
                 <span className="text-2xl font-bold text-primary">${total.toFixed(2)}</span>
               </div>
 
+              <PricingCheckPanel check={pricing} documentType="quote" canApprove={hasOwnerAccess()} />
+
               {/* Valid for note */}
               <p className="text-xs text-muted-foreground text-center pt-2">
                 This quote is valid for 30 days from the date of issue.
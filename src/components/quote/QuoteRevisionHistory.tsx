@@ -0,0 +1,230 @@
+import { useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  diffQuoteRevisions,
+  getQuoteRevisions,
+  getRevisionLetter,
+  type DiffChange,
+  type QuoteRevision,
+} from "@/lib/quote-revisions";
+import type { DocLineItem } from "@/lib/inventory-storage-adapter";
+
+interface QuoteRevisionHistoryProps {
+  quoteId: string;
+}
+
+const changeClass: Record<DiffChange, string> = {
+  added: "bg-green-50 dark:bg-green-950/30",
+  removed: "bg-red-50 dark:bg-red-950/30 line-through text-muted-foreground",
+  changed: "bg-amber-50 dark:bg-amber-950/30",
+  unchanged: "",
+};
+
+const money = (value?: string | number) =>
+  value === undefined ? "" : `$${Number(value).toFixed(2)}`;
+
+const revisionLabel = (revision: QuoteRevision) =>
+  `Rev ${getRevisionLetter(revision.revision)} — ${format(new Date(revision.createdAt), "MMM d, yyyy h:mm a")}${
+    revision.createdByName ? ` by ${revision.createdByName}` : ""
+  }`;
+
+const LineCells = ({ item, highlight }: { item?: DocLineItem; highlight: string[] }) => {
+  if (!item) return <TableCell colSpan={4} />;
+  const mark = (field: string) => (highlight.includes(field) ? "font-semibold" : "");
+  return (
+    <>
+      <TableCell className="font-mono text-xs">
+        {item.partNumber}
+        {item.serialNumber && <div className="text-muted-foreground">SN {item.serialNumber}</div>}
+      </TableCell>
+      <TableCell className={mark("description")}>{item.description}</TableCell>
+      <TableCell className={`text-right ${mark("quantity")}`}>{item.quantity || 1}</TableCell>
+      <TableCell className={`text-right ${mark("price")}`}>{money(item.price)}</TableCell>
+    </>
+  );
+};
+
+export const QuoteRevisionHistory = ({ quoteId }: QuoteRevisionHistoryProps) => {
+  const [revisions, setRevisions] = useState<QuoteRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [fromRevision, setFromRevision] = useState<number | null>(null);
+  const [toRevision, setToRevision] = useState<number | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    getQuoteRevisions(quoteId)
+      .then((rows) => {
+        setRevisions(rows);
+        // Default to the most recent change
+        setToRevision(rows.length > 0 ? rows[rows.length - 1].revision : null);
+        setFromRevision(rows.length > 1 ? rows[rows.length - 2].revision : rows[0]?.revision ?? null);
+      })
+      .catch((error) => console.error("Error loading quote revisions:", error))
+      .finally(() => setLoading(false));
+  }, [quoteId]);
+
+  const from = revisions.find((r) => r.revision === fromRevision);
+  const to = revisions.find((r) => r.revision === toRevision);
+
+  const diff = useMemo(
+    () => (from && to ? diffQuoteRevisions(from.snapshot, to.snapshot) : null),
+    [from, to]
+  );
+
+  if (loading) {
+    return <p className="text-sm text-muted-foreground py-8 text-center">Loading revisions...</p>;
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground py-8 text-center">
+        No revisions yet. Rev A is recorded the first time the quote is saved out of draft.
+      </p>
+    );
+  }
+
+  const fromLetter = from ? getRevisionLetter(from.revision) : "";
+  const toLetter = to ? getRevisionLetter(to.revision) : "";
+  const changedFields = diff?.fields.filter((f) => f.change !== "unchanged") || [];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label>Compare from</Label>
+          <Select value={fromRevision?.toString() ?? ""} onValueChange={(v) => setFromRevision(Number(v))}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select revision" />
+            </SelectTrigger>
+            <SelectContent>
+              {revisions.map((r) => (
+                <SelectItem key={r.id} value={r.revision.toString()}>
+                  {revisionLabel(r)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>Compare to</Label>
+          <Select value={toRevision?.toString() ?? ""} onValueChange={(v) => setToRevision(Number(v))}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select revision" />
+            </SelectTrigger>
+            <SelectContent>
+              {revisions.map((r) => (
+                <SelectItem key={r.id} value={r.revision.toString()}>
+                  {revisionLabel(r)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {diff && (
+        <>
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Details</h4>
+            {changedFields.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No changes to customer or quote details.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Field</TableHead>
+                    <TableHead>Rev {fromLetter}</TableHead>
+                    <TableHead>Rev {toLetter}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {changedFields.map((field) => (
+                    <TableRow key={field.label} className={changeClass.changed}>
+                      <TableCell className="font-medium">{field.label}</TableCell>
+                      <TableCell className="whitespace-pre-wrap">{field.from ?? "—"}</TableCell>
+                      <TableCell className="whitespace-pre-wrap">{field.to ?? "—"}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Line Items</h4>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead colSpan={4} className="border-r">Rev {fromLetter}</TableHead>
+                    <TableHead colSpan={4}>Rev {toLetter}</TableHead>
+                    <TableHead />
+                  </TableRow>
+                  <TableRow>
+                    <TableHead>Part</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Qty</TableHead>
+                    <TableHead className="text-right border-r">Price</TableHead>
+                    <TableHead>Part</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Qty</TableHead>
+                    <TableHead className="text-right">Price</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {diff.lines.map((line) => (
+                    <TableRow key={`${line.change}-${line.key}`} className={changeClass[line.change]}>
+                      <LineCells item={line.from} highlight={line.changedFields} />
+                      <LineCells item={line.to} highlight={line.changedFields} />
+                      <TableCell>
+                        {line.change !== "unchanged" && (
+                          <Badge variant={line.change === "removed" ? "destructive" : "secondary"}>
+                            {line.change}
+                          </Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Totals</h4>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead />
+                  <TableHead className="text-right">Rev {fromLetter}</TableHead>
+                  <TableHead className="text-right">Rev {toLetter}</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {diff.totals.map((row) => {
+                  const delta = Number(row.to) - Number(row.from);
+                  return (
+                    <TableRow key={row.label} className={changeClass[row.change]}>
+                      <TableCell className="font-medium">{row.label}</TableCell>
+                      <TableCell className="text-right">{money(row.from)}</TableCell>
+                      <TableCell className="text-right">{money(row.to)}</TableCell>
+                      <TableCell className="text-right">
+                        {row.change === "unchanged" ? "" : `${delta > 0 ? "+" : "-"}${money(Math.abs(delta))}`}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,254 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/useAuth";
+import { logAuditEvent, AuditEvents } from "@/hooks/useAuditLog";
+import { inventoryStorage, type Company, type Invoice, type Person, type Quote } from "@/lib/inventory-storage";
+import { getSalespeople, type Salesperson } from "@/lib/opportunity-storage";
+import {
+  TASK_PRIORITIES,
+  addTask,
+  getTaskPriorityLabel,
+  updateTask,
+  type Task,
+  type TaskInput,
+  type TaskPriority,
+} from "@/lib/task-storage";
+
+interface TaskDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Null to create a new task */
+  task?: Task | null;
+  /** Prefills a new task, e.g. the quote it follows up */
+  defaults?: Partial<TaskInput>;
+  /** Creates the task from the form instead of saving it, e.g. to accept a suggestion */
+  onSubmit?: (input: TaskInput) => Promise<void>;
+  onSaved?: () => void;
+}
+
+const toLocalInput = (iso?: string) => (iso ? format(new Date(iso), "yyyy-MM-dd'T'HH:mm") : "");
+
+const orNone = (value?: string) => value || "none";
+const fromNone = (value: string) => (value === "none" ? "" : value);
+
+/** Create or edit a follow-up task and what it's about */
+export const TaskDialog = ({ open, onOpenChange, task = null, defaults, onSubmit, onSaved }: TaskDialogProps) => {
+  const { user } = useAuth();
+  const [companies, setCompanies] = useState<Company[]>([]);
+  const [persons, setPersons] = useState<Person[]>([]);
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [salespeople, setSalespeople] = useState<Salesperson[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [form, setForm] = useState({
+    title: "",
+    notes: "",
+    dueAt: "",
+    priority: "normal" as TaskPriority,
+    assigneeId: "none",
+    companyId: "none",
+    personId: "none",
+    quoteId: "none",
+    invoiceId: "none",
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    const source = task || defaults || {};
+    setForm({
+      title: source.title || "",
+      notes: source.notes || "",
+      dueAt: toLocalInput(source.dueAt),
+      priority: source.priority || "normal",
+      assigneeId: orNone(source.assigneeId || (task ? undefined : user?.id)),
+      companyId: orNone(source.companyId),
+      personId: orNone(source.personId),
+      quoteId: orNone(source.quoteId),
+      invoiceId: orNone(source.invoiceId),
+    });
+
+    Promise.all([
+      inventoryStorage.getCompanies(),
+      inventoryStorage.getPersons(),
+      inventoryStorage.getQuotes(),
+      inventoryStorage.getInvoices(),
+      getSalespeople(),
+    ])
+      .then(([companiesData, personsData, quotesData, invoicesData, salespeopleData]) => {
+        setCompanies(companiesData);
+        setPersons(personsData);
+        setQuotes(quotesData);
+        setInvoices(invoicesData);
+        setSalespeople(salespeopleData);
+      })
+      .catch(error => console.error("Error loading task options:", error));
+  }, [open, task, defaults, user?.id]);
+
+  const contactOptions = form.companyId === "none" ? persons : persons.filter(p => p.companyId === form.companyId);
+
+  const handleSave = async () => {
+    if (!form.title.trim()) {
+      toast.error("Give the task a title");
+      return;
+    }
+
+    const input: TaskInput = {
+      title: form.title.trim(),
+      notes: form.notes.trim(),
+      dueAt: form.dueAt ? new Date(form.dueAt).toISOString() : "",
+      priority: form.priority,
+      assigneeId: fromNone(form.assigneeId),
+      companyId: fromNone(form.companyId),
+      personId: fromNone(form.personId),
+      quoteId: fromNone(form.quoteId),
+      invoiceId: fromNone(form.invoiceId),
+    };
+
+    try {
+      setSaving(true);
+      if (onSubmit) {
+        await onSubmit(input);
+      } else if (task) {
+        await updateTask(task.id, input);
+        logAuditEvent(AuditEvents.RECORD_UPDATED("task", task.id, input.title, {
+          dueAt: input.dueAt,
+          priority: input.priority,
+          assigneeId: input.assigneeId,
+        }));
+        toast.success("Task updated");
+      } else {
+        const created = await addTask(input);
+        logAuditEvent(AuditEvents.RECORD_CREATED("task", created.id, created.title));
+        toast.success("Task added");
+      }
+      onSaved?.();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error saving task:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save task");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{task ? "Edit Task" : "New Task"}</DialogTitle>
+          <DialogDescription>Dated tasks appear on the assignee's calendar and remind them when overdue.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="task-title">Task</Label>
+            <Input
+              id="task-title"
+              value={form.title}
+              onChange={(e) => setForm({ ...form, title: e.target.value })}
+              placeholder="e.g. Call back about the loader quote"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="task-due">Due</Label>
+              <Input
+                id="task-due"
+                type="datetime-local"
+                value={form.dueAt}
+                onChange={(e) => setForm({ ...form, dueAt: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Priority</Label>
+              <Select value={form.priority} onValueChange={(value) => setForm({ ...form, priority: value as TaskPriority })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {TASK_PRIORITIES.map(priority => (
+                    <SelectItem key={priority} value={priority}>{getTaskPriorityLabel(priority)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label>Assignee</Label>
+            <Select value={form.assigneeId} onValueChange={(value) => setForm({ ...form, assigneeId: value })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Unassigned</SelectItem>
+                {salespeople.map(s => <SelectItem key={s.userId} value={s.userId}>{s.fullName}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Company</Label>
+              <Select
+                value={form.companyId}
+                onValueChange={(value) => setForm({ ...form, companyId: value, personId: "none" })}
+              >
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None</SelectItem>
+                  {companies.map(c => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Contact</Label>
+              <Select value={form.personId} onValueChange={(value) => setForm({ ...form, personId: value })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None</SelectItem>
+                  {contactOptions.map(p => <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Quote</Label>
+              <Select value={form.quoteId} onValueChange={(value) => setForm({ ...form, quoteId: value })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None</SelectItem>
+                  {quotes.map(q => <SelectItem key={q.id} value={q.id}>{q.quoteNumber} · {q.customerName}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Invoice</Label>
+              <Select value={form.invoiceId} onValueChange={(value) => setForm({ ...form, invoiceId: value })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None</SelectItem>
+                  {invoices.map(i => <SelectItem key={i.id} value={i.id}>{i.invoiceNumber} · {i.customerName}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="task-notes">Notes</Label>
+            <Textarea
+              id="task-notes"
+              rows={3}
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving}>{task ? "Save Task" : "Add Task"}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -103,6 +103,7 @@ export function useContactsMap({ companies, persons, active }: UseContactsMapOpt
   const markersRef = useRef<L.Marker[]>([]);
   const h3LayerRef = useRef<L.LayerGroup | null>(null);
   const routeLayerRef = useRef<L.LayerGroup | null>(null);
+  const territoryLayerRef = useRef<L.LayerGroup | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
   const hasFittedRef = useRef(false);
 
@@ -348,6 +349,7 @@ export function useContactsMap({ companies, persons, active }: UseContactsMapOpt
           attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap contributors</a>'
         }).addTo(map.current);
         h3LayerRef.current = L.layerGroup().addTo(map.current);
+        territoryLayerRef.current = L.layerGroup().addTo(map.current);
         routeLayerRef.current = L.layerGroup().addTo(map.current);
       }
       map.current.invalidateSize();
@@ -358,6 +360,7 @@ export function useContactsMap({ companies, persons, active }: UseContactsMapOpt
         map.current.remove();
         map.current = null;
         h3LayerRef.current = null;
+        territoryLayerRef.current = null;
         markersRef.current = [];
       }
     };
@@ -420,6 +423,7 @@ export function useContactsMap({ companies, persons, active }: UseContactsMapOpt
       map.current.remove();
       map.current = null;
       h3LayerRef.current = null;
+      territoryLayerRef.current = null;
       routeLayerRef.current = null;
       markersRef.current = [];
     }
@@ -451,6 +455,7 @@ export function useContactsMap({ companies, persons, active }: UseContactsMapOpt
     mapContainer,
     map,
     routeLayerRef,
+    territoryLayerRef,
     // Actions
     startGeocoding,
     getCompanyName,
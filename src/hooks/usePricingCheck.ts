@@ -0,0 +1,44 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  checkPricing,
+  getItemPricingFloors,
+  getPricingGuardrails,
+  type ItemPricingFloor,
+  type PricingCheck,
+  type PricingGuardrails,
+  type PricingLine,
+} from "@/lib/pricing-guardrails";
+
+/**
+ * Live margins and guardrail violations for a document being edited.
+ * Null until the tenant's rules have loaded.
+ */
+export function usePricingCheck(lines: PricingLine[], discount: number): PricingCheck | null {
+  const [rules, setRules] = useState<PricingGuardrails | null>(null);
+  const [floors, setFloors] = useState<Map<string, ItemPricingFloor>>(new Map());
+  const itemKey = [...new Set(lines.map((line) => line.itemId))].sort().join(",");
+
+  useEffect(() => {
+    getPricingGuardrails()
+      .then(setRules)
+      .catch((err) => console.error("Failed to load pricing guardrails:", err));
+  }, []);
+
+  // Costs are looked up by item rather than taken from the picker so sold units still resolve
+  useEffect(() => {
+    let cancelled = false;
+    getItemPricingFloors(itemKey ? itemKey.split(",") : [])
+      .then((result) => {
+        if (!cancelled) setFloors(result);
+      })
+      .catch((err) => console.error("Failed to load item costs:", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [itemKey]);
+
+  return useMemo(
+    () => (rules ? checkPricing(lines, discount, rules, floors) : null),
+    [rules, lines, discount, floors]
+  );
+}
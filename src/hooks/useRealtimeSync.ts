@@ -3,7 +3,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { RealtimeChannel, RealtimePostgresChangesPayload } from "@supabase/supabase-js";
 import { toast } from "sonner";
 
-type TableName = "companies" | "people" | "items" | "quotes" | "invoices" | "branches";
+type TableName = "companies" | "people" | "items" | "quotes" | "invoices" | "branches" | "opportunities";
 
 interface UseRealtimeSyncOptions {
   tables: TableName[];
@@ -18,6 +18,7 @@ const tableDisplayNames: Record<TableName, string> = {
   quotes: "Quote",
   invoices: "Invoice",
   branches: "Branch",
+  opportunities: "Deal",
 };
 
 export function useRealtimeSync({ tables, onDataChange, showToasts = true }: UseRealtimeSyncOptions) {
@@ -0,0 +1,50 @@
+import { useEffect } from "react";
+import { useAuth } from "./useAuth";
+import { getOpenTasksFor, isTaskOverdue } from "@/lib/task-storage";
+import { showTaskReminder } from "@/lib/push-notifications";
+
+const CHECK_INTERVAL_MS = 60000;
+const REMINDED_KEY = "task_reminders_shown";
+
+// Task id -> the due date it was reminded for, so moving the date reminds again
+function getReminded(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(REMINDED_KEY) || "{}");
+  } catch {
+    return {};
+  }
+}
+
+/** Shows a system notification when one of the user's open tasks comes due */
+export function useTaskReminders() {
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!user) return;
+
+    const check = async () => {
+      try {
+        const tasks = await getOpenTasksFor(user.id);
+        const reminded = getReminded();
+        const next: Record<string, string> = {};
+        for (const task of tasks) {
+          if (!task.dueAt) continue;
+          if (reminded[task.id] === task.dueAt) {
+            next[task.id] = task.dueAt;
+          } else if (isTaskOverdue(task)) {
+            showTaskReminder(task.id, task.title);
+            next[task.id] = task.dueAt;
+          }
+        }
+        // Only open tasks are kept, which drops finished and deleted ones
+        localStorage.setItem(REMINDED_KEY, JSON.stringify(next));
+      } catch (error) {
+        console.error("Error checking task reminders:", error);
+      }
+    };
+
+    check();
+    const interval = setInterval(check, CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [user]);
+}
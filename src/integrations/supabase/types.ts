@@ -21,6 +21,7 @@ export type Database = {
           created_at: string | null
           description: string | null
           id: string
+          journal_entry_id: string | null
           reference_id: string | null
           reference_type: string | null
           tenant_id: string
@@ -32,6 +33,7 @@ export type Database = {
           created_at?: string | null
           description?: string | null
           id?: string
+          journal_entry_id?: string | null
           reference_id?: string | null
           reference_type?: string | null
           tenant_id: string
@@ -43,6 +45,7 @@ export type Database = {
           created_at?: string | null
           description?: string | null
           id?: string
+          journal_entry_id?: string | null
           reference_id?: string | null
           reference_type?: string | null
           tenant_id?: string
@@ -56,6 +59,13 @@ export type Database = {
             referencedRelation: "accounts"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "account_transactions_journal_entry_id_fkey"
+            columns: ["journal_entry_id"]
+            isOneToOne: false
+            referencedRelation: "journal_entries"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "account_transactions_tenant_id_fkey"
             columns: ["tenant_id"]
@@ -75,6 +85,7 @@ export type Database = {
           id: string
           is_active: boolean | null
           parent_account_id: string | null
+          system_key: string | null
           tenant_id: string
           updated_at: string | null
         }
@@ -87,6 +98,7 @@ export type Database = {
           id?: string
           is_active?: boolean | null
           parent_account_id?: string | null
+          system_key?: string | null
           tenant_id: string
           updated_at?: string | null
         }
@@ -99,6 +111,7 @@ export type Database = {
           id?: string
           is_active?: boolean | null
           parent_account_id?: string | null
+          system_key?: string | null
           tenant_id?: string
           updated_at?: string | null
         }
@@ -385,6 +398,7 @@ export type Database = {
       }
       calendar_events: {
         Row: {
+          company_id: string | null
           created_at: string
           created_by: string
           description: string | null
@@ -393,6 +407,7 @@ export type Database = {
           id: string
           is_video_meeting: boolean | null
           location: string | null
+          person_id: string | null
           start_time: string
           tenant_id: string
           title: string
@@ -400,6 +415,7 @@ export type Database = {
           video_meeting_id: string | null
         }
         Insert: {
+          company_id?: string | null
           created_at?: string
           created_by: string
           description?: string | null
@@ -408,6 +424,7 @@ export type Database = {
           id?: string
           is_video_meeting?: boolean | null
           location?: string | null
+          person_id?: string | null
           start_time: string
           tenant_id: string
           title: string
@@ -415,6 +432,7 @@ export type Database = {
           video_meeting_id?: string | null
         }
         Update: {
+          company_id?: string | null
           created_at?: string
           created_by?: string
           description?: string | null
@@ -423,6 +441,7 @@ export type Database = {
           id?: string
           is_video_meeting?: boolean | null
           location?: string | null
+          person_id?: string | null
           start_time?: string
           tenant_id?: string
           title?: string
@@ -430,6 +449,27 @@ export type Database = {
           video_meeting_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "calendar_events_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "calendar_events_person_id_fkey"
+            columns: ["person_id"]
+            isOneToOne: false
+            referencedRelation: "active_people"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "calendar_events_person_id_fkey"
+            columns: ["person_id"]
+            isOneToOne: false
+            referencedRelation: "people"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "calendar_events_tenant_id_fkey"
             columns: ["tenant_id"]
@@ -453,7 +493,12 @@ export type Database = {
           id: string
           name: string
           notes: Json | null
+          owner_id: string | null
+          tax_exempt: boolean
+          tax_exempt_certificate: string | null
+          tax_exempt_expires_at: string | null
           tenant_id: string
+          territory_id: string | null
           updated_at: string | null
         }
         Insert: {
@@ -462,7 +507,12 @@ export type Database = {
           id?: string
           name: string
           notes?: Json | null
+          owner_id?: string | null
+          tax_exempt?: boolean
+          tax_exempt_certificate?: string | null
+          tax_exempt_expires_at?: string | null
           tenant_id: string
+          territory_id?: string | null
           updated_at?: string | null
         }
         Update: {
@@ -471,7 +521,12 @@ export type Database = {
           id?: string
           name?: string
           notes?: Json | null
+          owner_id?: string | null
+          tax_exempt?: boolean
+          tax_exempt_certificate?: string | null
+          tax_exempt_expires_at?: string | null
           tenant_id?: string
+          territory_id?: string | null
           updated_at?: string | null
         }
         Relationships: [
@@ -482,6 +537,13 @@ export type Database = {
             referencedRelation: "tenants"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "companies_territory_id_fkey"
+            columns: ["territory_id"]
+            isOneToOne: false
+            referencedRelation: "sales_territories"
+            referencedColumns: ["id"]
+          },
         ]
       }
       company_meetings: {
@@ -543,108 +605,123 @@ export type Database = {
           },
         ]
       }
-      data_export_logs: {
+      contact_import_mappings: {
         Row: {
-          download_completed: boolean | null
-          export_format: string
-          export_type: string
-          exported_at: string
-          filters_applied: Json | null
+          created_at: string
+          created_by: string | null
           id: string
-          ip_address: unknown
-          record_count: number | null
-          user_id: string
+          mapping: Json
+          name: string
+          tenant_id: string
+          updated_at: string
         }
         Insert: {
-          download_completed?: boolean | null
-          export_format: string
-          export_type: string
-          exported_at?: string
-          filters_applied?: Json | null
+          created_at?: string
+          created_by?: string | null
           id?: string
-          ip_address?: unknown
-          record_count?: number | null
-          user_id: string
+          mapping?: Json
+          name: string
+          tenant_id: string
+          updated_at?: string
         }
         Update: {
-          download_completed?: boolean | null
-          export_format?: string
-          export_type?: string
-          exported_at?: string
-          filters_applied?: Json | null
+          created_at?: string
+          created_by?: string | null
           id?: string
-          ip_address?: unknown
-          record_count?: number | null
-          user_id?: string
+          mapping?: Json
+          name?: string
+          tenant_id?: string
+          updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "contact_import_mappings_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      expenses: {
+      credit_memos: {
         Row: {
-          amount: number
-          category: string
-          created_at: string | null
-          credit_card_last4: string | null
-          customer_id: string | null
-          description: string | null
-          employee_name: string
-          expense_date: string
+          created_at: string
+          created_by: string | null
+          credit_memo_number: string
+          customer_name: string | null
+          discount: number
           id: string
-          job_title: string | null
-          receipt_url: string | null
+          invoice_id: string
+          items: Json
+          notes: string | null
+          refund_payment_id: string | null
+          rma_id: string | null
+          settlement: string
+          subtotal: number
+          tax: number
           tenant_id: string
-          updated_at: string | null
-          user_id: string | null
+          total: number
         }
         Insert: {
-          amount: number
-          category: string
-          created_at?: string | null
-          credit_card_last4?: string | null
-          customer_id?: string | null
-          description?: string | null
-          employee_name: string
-          expense_date?: string
+          created_at?: string
+          created_by?: string | null
+          credit_memo_number?: string
+          customer_name?: string | null
+          discount?: number
           id?: string
-          job_title?: string | null
-          receipt_url?: string | null
+          invoice_id: string
+          items?: Json
+          notes?: string | null
+          refund_payment_id?: string | null
+          rma_id?: string | null
+          settlement: string
+          subtotal?: number
+          tax?: number
           tenant_id: string
-          updated_at?: string | null
-          user_id?: string | null
+          total: number
         }
         Update: {
-          amount?: number
-          category?: string
-          created_at?: string | null
-          credit_card_last4?: string | null
-          customer_id?: string | null
-          description?: string | null
-          employee_name?: string
-          expense_date?: string
+          created_at?: string
+          created_by?: string | null
+          credit_memo_number?: string
+          customer_name?: string | null
+          discount?: number
           id?: string
-          job_title?: string | null
-          receipt_url?: string | null
+          invoice_id?: string
+          items?: Json
+          notes?: string | null
+          refund_payment_id?: string | null
+          rma_id?: string | null
+          settlement?: string
+          subtotal?: number
+          tax?: number
           tenant_id?: string
-          updated_at?: string | null
-          user_id?: string | null
+          total?: number
         }
         Relationships: [
           {
-            foreignKeyName: "expenses_customer_id_fkey"
-            columns: ["customer_id"]
+            foreignKeyName: "credit_memos_invoice_id_fkey"
+            columns: ["invoice_id"]
             isOneToOne: false
-            referencedRelation: "active_people"
+            referencedRelation: "invoices"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "expenses_customer_id_fkey"
-            columns: ["customer_id"]
+            foreignKeyName: "credit_memos_refund_payment_id_fkey"
+            columns: ["refund_payment_id"]
             isOneToOne: false
-            referencedRelation: "people"
+            referencedRelation: "invoice_payments"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "expenses_tenant_id_fkey"
+            foreignKeyName: "credit_memos_rma_id_fkey"
+            columns: ["rma_id"]
+            isOneToOne: false
+            referencedRelation: "rmas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "credit_memos_tenant_id_fkey"
             columns: ["tenant_id"]
             isOneToOne: false
             referencedRelation: "tenants"
@@ -652,236 +729,215 @@ export type Database = {
           },
         ]
       }
-      geocode_cache: {
+      cycle_count_lines: {
         Row: {
-          address_key: string
+          counted_at: string | null
+          counted_quantity: number | null
           created_at: string
-          display_address: string | null
-          lat: number
-          lng: number
-          source: string
-          updated_at: string
+          cycle_count_id: string
+          description: string | null
+          expected_quantity: number
+          id: string
+          item_id: string | null
+          part_number: string
+          serial_number: string | null
+          shelf_location: string | null
+          tenant_id: string
+          unit_cost: number | null
         }
         Insert: {
-          address_key: string
+          counted_at?: string | null
+          counted_quantity?: number | null
           created_at?: string
-          display_address?: string | null
-          lat: number
-          lng: number
-          source?: string
-          updated_at?: string
+          cycle_count_id: string
+          description?: string | null
+          expected_quantity?: number
+          id?: string
+          item_id?: string | null
+          part_number: string
+          serial_number?: string | null
+          shelf_location?: string | null
+          tenant_id: string
+          unit_cost?: number | null
         }
         Update: {
-          address_key?: string
+          counted_at?: string | null
+          counted_quantity?: number | null
           created_at?: string
-          display_address?: string | null
-          lat?: number
-          lng?: number
-          source?: string
-          updated_at?: string
+          cycle_count_id?: string
+          description?: string | null
+          expected_quantity?: number
+          id?: string
+          item_id?: string | null
+          part_number?: string
+          serial_number?: string | null
+          shelf_location?: string | null
+          tenant_id?: string
+          unit_cost?: number | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "cycle_count_lines_cycle_count_id_fkey"
+            columns: ["cycle_count_id"]
+            isOneToOne: false
+            referencedRelation: "cycle_counts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cycle_count_lines_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cycle_count_lines_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      internal_notes: {
+      cycle_counts: {
         Row: {
-          category: string | null
-          content: string
+          count_number: string
           created_at: string
+          created_by: string | null
           id: string
-          is_pinned: boolean | null
+          notes: string | null
+          part_from: string | null
+          part_to: string | null
+          posted_at: string | null
+          shelf_prefix: string | null
+          status: string
+          submitted_at: string | null
+          submitted_by: string | null
           tenant_id: string
-          title: string
           updated_at: string
-          user_id: string | null
+          warehouse_id: string | null
         }
         Insert: {
-          category?: string | null
-          content: string
+          count_number?: string
           created_at?: string
+          created_by?: string | null
           id?: string
-          is_pinned?: boolean | null
+          notes?: string | null
+          part_from?: string | null
+          part_to?: string | null
+          posted_at?: string | null
+          shelf_prefix?: string | null
+          status?: string
+          submitted_at?: string | null
+          submitted_by?: string | null
           tenant_id: string
-          title: string
           updated_at?: string
-          user_id?: string | null
+          warehouse_id?: string | null
         }
         Update: {
-          category?: string | null
-          content?: string
+          count_number?: string
           created_at?: string
+          created_by?: string | null
           id?: string
-          is_pinned?: boolean | null
+          notes?: string | null
+          part_from?: string | null
+          part_to?: string | null
+          posted_at?: string | null
+          shelf_prefix?: string | null
+          status?: string
+          submitted_at?: string | null
+          submitted_by?: string | null
           tenant_id?: string
-          title?: string
           updated_at?: string
-          user_id?: string | null
+          warehouse_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "internal_notes_tenant_id_fkey"
+            foreignKeyName: "cycle_counts_tenant_id_fkey"
             columns: ["tenant_id"]
             isOneToOne: false
             referencedRelation: "tenants"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "cycle_counts_warehouse_id_fkey"
+            columns: ["warehouse_id"]
+            isOneToOne: false
+            referencedRelation: "warehouses"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      invoices: {
+      data_export_logs: {
         Row: {
-          created_at: string | null
-          created_by: string | null
-          customer_address: string | null
-          customer_email: string | null
-          customer_name: string
-          customer_phone: string | null
-          discount: number | null
+          download_completed: boolean | null
+          export_format: string
+          export_type: string
+          exported_at: string
+          filters_applied: Json | null
           id: string
-          invoice_number: string
-          items: Json
-          last_edited_at: string | null
-          last_edited_by: string | null
-          notes: string | null
-          paid: boolean | null
-          paid_at: string | null
-          salesman_name: string | null
-          ship_to_address: string | null
-          ship_to_name: string | null
-          shipping: number | null
-          source_quote_id: string | null
-          status: string
-          subtotal: number
-          tax: number
-          tenant_id: string
-          total: number
+          ip_address: unknown
+          record_count: number | null
+          user_id: string
         }
         Insert: {
-          created_at?: string | null
-          created_by?: string | null
-          customer_address?: string | null
-          customer_email?: string | null
-          customer_name: string
-          customer_phone?: string | null
-          discount?: number | null
+          download_completed?: boolean | null
+          export_format: string
+          export_type: string
+          exported_at?: string
+          filters_applied?: Json | null
           id?: string
-          invoice_number: string
-          items?: Json
-          last_edited_at?: string | null
-          last_edited_by?: string | null
-          notes?: string | null
-          paid?: boolean | null
-          paid_at?: string | null
-          salesman_name?: string | null
-          ship_to_address?: string | null
-          ship_to_name?: string | null
-          shipping?: number | null
-          source_quote_id?: string | null
-          status?: string
-          subtotal: number
-          tax?: number
-          tenant_id: string
-          total: number
+          ip_address?: unknown
+          record_count?: number | null
+          user_id: string
         }
         Update: {
-          created_at?: string | null
-          created_by?: string | null
-          customer_address?: string | null
-          customer_email?: string | null
-          customer_name?: string
-          customer_phone?: string | null
-          discount?: number | null
+          download_completed?: boolean | null
+          export_format?: string
+          export_type?: string
+          exported_at?: string
+          filters_applied?: Json | null
           id?: string
-          invoice_number?: string
-          items?: Json
-          last_edited_at?: string | null
-          last_edited_by?: string | null
-          notes?: string | null
-          paid?: boolean | null
-          paid_at?: string | null
-          salesman_name?: string | null
-          ship_to_address?: string | null
-          ship_to_name?: string | null
-          shipping?: number | null
-          source_quote_id?: string | null
-          status?: string
-          subtotal?: number
-          tax?: number
-          tenant_id?: string
-          total?: number
+          ip_address?: unknown
+          record_count?: number | null
+          user_id?: string
         }
-        Relationships: [
-          {
-            foreignKeyName: "invoices_tenant_id_fkey"
-            columns: ["tenant_id"]
-            isOneToOne: false
-            referencedRelation: "tenants"
-            referencedColumns: ["id"]
-          },
-        ]
+        Relationships: []
       }
-      items: {
+      document_number_reservations: {
         Row: {
-          cost: number | null
-          created_at: string | null
-          date_sold: string | null
-          description: string
+          document_number: string
+          document_type: string
           id: string
-          max_reorder_level: number | null
-          min_reorder_level: number | null
-          part_number: string
-          sale_price: number | null
-          serial_number: string | null
-          shelf_location: string | null
-          sold_in_invoice_id: string | null
+          reserved_at: string
+          reserved_by: string | null
           status: string
           tenant_id: string
-          updated_at: string | null
-          volume: number | null
-          warranty_months: number | null
-          weight: number | null
+          used_at: string | null
         }
         Insert: {
-          cost?: number | null
-          created_at?: string | null
-          date_sold?: string | null
-          description: string
+          document_number: string
+          document_type: string
           id?: string
-          max_reorder_level?: number | null
-          min_reorder_level?: number | null
-          part_number: string
-          sale_price?: number | null
-          serial_number?: string | null
-          shelf_location?: string | null
-          sold_in_invoice_id?: string | null
-          status: string
+          reserved_at?: string
+          reserved_by?: string | null
+          status?: string
           tenant_id: string
-          updated_at?: string | null
-          volume?: number | null
-          warranty_months?: number | null
-          weight?: number | null
+          used_at?: string | null
         }
         Update: {
-          cost?: number | null
-          created_at?: string | null
-          date_sold?: string | null
-          description?: string
+          document_number?: string
+          document_type?: string
           id?: string
-          max_reorder_level?: number | null
-          min_reorder_level?: number | null
-          part_number?: string
-          sale_price?: number | null
-          serial_number?: string | null
-          shelf_location?: string | null
-          sold_in_invoice_id?: string | null
+          reserved_at?: string
+          reserved_by?: string | null
           status?: string
           tenant_id?: string
-          updated_at?: string | null
-          volume?: number | null
-          warranty_months?: number | null
-          weight?: number | null
+          used_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "items_tenant_id_fkey"
+            foreignKeyName: "document_number_reservations_tenant_id_fkey"
             columns: ["tenant_id"]
             isOneToOne: false
             referencedRelation: "tenants"
@@ -889,143 +945,156 @@ export type Database = {
           },
         ]
       }
-      login_attempts: {
-        Row: {
-          attempted_at: string
-          email: string
-          id: string
-          ip_address: unknown
-          success: boolean | null
-          user_agent: string | null
-        }
-        Insert: {
-          attempted_at?: string
-          email: string
-          id?: string
-          ip_address?: unknown
-          success?: boolean | null
-          user_agent?: string | null
-        }
-        Update: {
-          attempted_at?: string
-          email?: string
-          id?: string
-          ip_address?: unknown
-          success?: boolean | null
-          user_agent?: string | null
-        }
-        Relationships: []
-      }
-      meeting_chat_messages: {
+      document_sequences: {
         Row: {
           created_at: string
+          current_year: number
+          document_type: string
           id: string
-          meeting_id: string
-          text: string
-          user_id: string
-          user_name: string
+          next_value: number
+          pattern: string
+          reset_yearly: boolean
+          tenant_id: string
+          updated_at: string
+          updated_by: string | null
         }
         Insert: {
           created_at?: string
+          current_year?: number
+          document_type: string
           id?: string
-          meeting_id: string
-          text: string
-          user_id: string
-          user_name: string
+          next_value?: number
+          pattern: string
+          reset_yearly?: boolean
+          tenant_id: string
+          updated_at?: string
+          updated_by?: string | null
         }
         Update: {
           created_at?: string
+          current_year?: number
+          document_type?: string
           id?: string
-          meeting_id?: string
-          text?: string
-          user_id?: string
-          user_name?: string
+          next_value?: number
+          pattern?: string
+          reset_yearly?: boolean
+          tenant_id?: string
+          updated_at?: string
+          updated_by?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "meeting_chat_messages_meeting_id_fkey"
-            columns: ["meeting_id"]
+            foreignKeyName: "document_sequences_tenant_id_fkey"
+            columns: ["tenant_id"]
             isOneToOne: false
-            referencedRelation: "video_meetings"
+            referencedRelation: "tenants"
             referencedColumns: ["id"]
           },
         ]
       }
-      people: {
+      email_sends: {
         Row: {
-          address: string | null
-          branch_id: string | null
+          attachment_name: string | null
+          body: string
+          bounced_at: string | null
+          cc: string[]
           company_id: string | null
-          created_at: string | null
-          created_by: string | null
-          deleted_at: string | null
-          email: string | null
-          excavator_lines: string[] | null
+          created_at: string
+          customer_name: string | null
+          delivered_at: string | null
+          document_number: string
+          document_type: string
+          error: string | null
           id: string
-          job_title: string | null
-          name: string
-          notes: Json | null
-          phone: string | null
+          invoice_id: string | null
+          last_opened_at: string | null
+          open_count: number
+          opened_at: string | null
+          quote_id: string | null
+          sent_at: string | null
+          sent_by: string | null
+          status: string
+          subject: string
           tenant_id: string
-          updated_at: string | null
-          updated_by: string | null
-          user_id: string | null
+          to_email: string
+          tracking_token: string
         }
         Insert: {
-          address?: string | null
-          branch_id?: string | null
+          attachment_name?: string | null
+          body: string
+          bounced_at?: string | null
+          cc?: string[]
           company_id?: string | null
-          created_at?: string | null
-          created_by?: string | null
-          deleted_at?: string | null
-          email?: string | null
-          excavator_lines?: string[] | null
+          created_at?: string
+          customer_name?: string | null
+          delivered_at?: string | null
+          document_number: string
+          document_type: string
+          error?: string | null
           id?: string
-          job_title?: string | null
-          name: string
-          notes?: Json | null
-          phone?: string | null
+          invoice_id?: string | null
+          last_opened_at?: string | null
+          open_count?: number
+          opened_at?: string | null
+          quote_id?: string | null
+          sent_at?: string | null
+          sent_by?: string | null
+          status?: string
+          subject: string
           tenant_id: string
-          updated_at?: string | null
-          updated_by?: string | null
-          user_id?: string | null
+          to_email: string
+          tracking_token?: string
         }
         Update: {
-          address?: string | null
-          branch_id?: string | null
+          attachment_name?: string | null
+          body?: string
+          bounced_at?: string | null
+          cc?: string[]
           company_id?: string | null
-          created_at?: string | null
-          created_by?: string | null
-          deleted_at?: string | null
-          email?: string | null
-          excavator_lines?: string[] | null
+          created_at?: string
+          customer_name?: string | null
+          delivered_at?: string | null
+          document_number?: string
+          document_type?: string
+          error?: string | null
           id?: string
-          job_title?: string | null
-          name?: string
-          notes?: Json | null
-          phone?: string | null
+          invoice_id?: string | null
+          last_opened_at?: string | null
+          open_count?: number
+          opened_at?: string | null
+          quote_id?: string | null
+          sent_at?: string | null
+          sent_by?: string | null
+          status?: string
+          subject?: string
           tenant_id?: string
-          updated_at?: string | null
-          updated_by?: string | null
-          user_id?: string | null
+          to_email?: string
+          tracking_token?: string
         }
         Relationships: [
           {
-            foreignKeyName: "people_branch_id_fkey"
-            columns: ["branch_id"]
+            foreignKeyName: "email_sends_company_id_fkey"
+            columns: ["company_id"]
             isOneToOne: false
-            referencedRelation: "branches"
+            referencedRelation: "companies"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "people_company_id_fkey"
-            columns: ["company_id"]
+            foreignKeyName: "email_sends_invoice_id_fkey"
+            columns: ["invoice_id"]
             isOneToOne: false
-            referencedRelation: "companies"
+            referencedRelation: "invoices"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "people_tenant_id_fkey"
+            foreignKeyName: "email_sends_quote_id_fkey"
+            columns: ["quote_id"]
+            isOneToOne: false
+            referencedRelation: "quotes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "email_sends_tenant_id_fkey"
             columns: ["tenant_id"]
             isOneToOne: false
             referencedRelation: "tenants"
@@ -1033,94 +1102,113 @@ export type Database = {
           },
         ]
       }
-      profiles: {
+      email_templates: {
         Row: {
+          body: string
           created_at: string
-          current_tenant_id: string | null
-          full_name: string
+          document_type: string
           id: string
+          subject: string
+          tenant_id: string
           updated_at: string
-          user_id: string
+          updated_by: string | null
         }
         Insert: {
+          body: string
           created_at?: string
-          current_tenant_id?: string | null
-          full_name: string
+          document_type: string
           id?: string
+          subject: string
+          tenant_id: string
           updated_at?: string
-          user_id: string
+          updated_by?: string | null
         }
         Update: {
+          body?: string
           created_at?: string
-          current_tenant_id?: string | null
-          full_name?: string
+          document_type?: string
           id?: string
+          subject?: string
+          tenant_id?: string
           updated_at?: string
-          user_id?: string
+          updated_by?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "profiles_current_tenant_id_fkey"
-            columns: ["current_tenant_id"]
+            foreignKeyName: "email_templates_tenant_id_fkey"
+            columns: ["tenant_id"]
             isOneToOne: false
             referencedRelation: "tenants"
             referencedColumns: ["id"]
           },
         ]
       }
-      purchase_order_items: {
+      expenses: {
         Row: {
+          amount: number
+          category: string
           created_at: string | null
-          description: string
+          credit_card_last4: string | null
+          customer_id: string | null
+          description: string | null
+          employee_name: string
+          expense_date: string
           id: string
-          part_number: string
-          po_id: string
-          quantity: number
-          received_quantity: number | null
-          serial_number: string | null
+          job_title: string | null
+          receipt_url: string | null
           tenant_id: string
-          total_cost: number
-          unit_cost: number
-          weight: number | null
+          updated_at: string | null
+          user_id: string | null
         }
         Insert: {
+          amount: number
+          category: string
           created_at?: string | null
-          description: string
+          credit_card_last4?: string | null
+          customer_id?: string | null
+          description?: string | null
+          employee_name: string
+          expense_date?: string
           id?: string
-          part_number: string
-          po_id: string
-          quantity?: number
-          received_quantity?: number | null
-          serial_number?: string | null
+          job_title?: string | null
+          receipt_url?: string | null
           tenant_id: string
-          total_cost: number
-          unit_cost: number
-          weight?: number | null
+          updated_at?: string | null
+          user_id?: string | null
         }
         Update: {
+          amount?: number
+          category?: string
           created_at?: string | null
-          description?: string
+          credit_card_last4?: string | null
+          customer_id?: string | null
+          description?: string | null
+          employee_name?: string
+          expense_date?: string
           id?: string
-          part_number?: string
-          po_id?: string
-          quantity?: number
-          received_quantity?: number | null
-          serial_number?: string | null
+          job_title?: string | null
+          receipt_url?: string | null
           tenant_id?: string
-          total_cost?: number
-          unit_cost?: number
-          weight?: number | null
+          updated_at?: string | null
+          user_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "purchase_order_items_po_id_fkey"
-            columns: ["po_id"]
+            foreignKeyName: "expenses_customer_id_fkey"
+            columns: ["customer_id"]
             isOneToOne: false
-            referencedRelation: "purchase_orders"
+            referencedRelation: "active_people"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "purchase_order_items_tenant_id_fkey"
+            foreignKeyName: "expenses_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "people"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "expenses_tenant_id_fkey"
             columns: ["tenant_id"]
             isOneToOne: false
             referencedRelation: "tenants"
@@ -1128,359 +1216,2811 @@ export type Database = {
           },
         ]
       }
-      purchase_orders: {
+      geocode_cache: {
         Row: {
-          created_at: string | null
+          address_key: string
+          created_at: string
+          display_address: string | null
+          lat: number
+          lng: number
+          source: string
+          updated_at: string
+        }
+        Insert: {
+          address_key: string
+          created_at?: string
+          display_address?: string | null
+          lat: number
+          lng: number
+          source?: string
+          updated_at?: string
+        }
+        Update: {
+          address_key?: string
+          created_at?: string
+          display_address?: string | null
+          lat?: number
+          lng?: number
+          source?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      internal_notes: {
+        Row: {
+          category: string | null
+          content: string
+          created_at: string
           id: string
-          items: Json
-          notes: string | null
-          po_number: string
-          shipping: number | null
-          status: string
-          subtotal: number
-          tax: number | null
+          is_pinned: boolean | null
           tenant_id: string
-          total: number
-          updated_at: string | null
-          vendor_id: string | null
-          vendor_name: string
+          title: string
+          updated_at: string
+          user_id: string | null
         }
         Insert: {
-          created_at?: string | null
+          category?: string | null
+          content: string
+          created_at?: string
           id?: string
-          items?: Json
-          notes?: string | null
-          po_number: string
-          shipping?: number | null
-          status?: string
-          subtotal: number
-          tax?: number | null
+          is_pinned?: boolean | null
           tenant_id: string
-          total: number
-          updated_at?: string | null
-          vendor_id?: string | null
-          vendor_name: string
+          title: string
+          updated_at?: string
+          user_id?: string | null
         }
         Update: {
-          created_at?: string | null
+          category?: string | null
+          content?: string
+          created_at?: string
           id?: string
-          items?: Json
-          notes?: string | null
-          po_number?: string
-          shipping?: number | null
-          status?: string
-          subtotal?: number
-          tax?: number | null
+          is_pinned?: boolean | null
           tenant_id?: string
-          total?: number
-          updated_at?: string | null
-          vendor_id?: string | null
-          vendor_name?: string
+          title?: string
+          updated_at?: string
+          user_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "purchase_orders_tenant_id_fkey"
+            foreignKeyName: "internal_notes_tenant_id_fkey"
             columns: ["tenant_id"]
             isOneToOne: false
             referencedRelation: "tenants"
             referencedColumns: ["id"]
           },
-          {
-            foreignKeyName: "purchase_orders_vendor_id_fkey"
-            columns: ["vendor_id"]
-            isOneToOne: false
-            referencedRelation: "vendors"
-            referencedColumns: ["id"]
-          },
         ]
       }
-      quickbooks_connections: {
+      inventory_movements: {
         Row: {
-          access_token_encrypted: string
-          connected_at: string
           created_at: string
+          created_by: string | null
           id: string
-          realm_id: string
-          refresh_token_encrypted: string
-          refresh_token_expires_at: string
-          token_expires_at: string
-          updated_at: string
-          user_id: string
+          item_id: string
+          notes: string | null
+          quantity_after: number
+          quantity_change: number
+          reason: string
+          reference_id: string | null
+          reference_type: string | null
+          tenant_id: string
+          unit_cost: number | null
         }
         Insert: {
-          access_token_encrypted: string
-          connected_at?: string
           created_at?: string
+          created_by?: string | null
           id?: string
-          realm_id: string
-          refresh_token_encrypted: string
-          refresh_token_expires_at: string
-          token_expires_at: string
-          updated_at?: string
-          user_id: string
+          item_id: string
+          notes?: string | null
+          quantity_after: number
+          quantity_change: number
+          reason: string
+          reference_id?: string | null
+          reference_type?: string | null
+          tenant_id: string
+          unit_cost?: number | null
         }
         Update: {
-          access_token_encrypted?: string
-          connected_at?: string
           created_at?: string
+          created_by?: string | null
           id?: string
-          realm_id?: string
-          refresh_token_encrypted?: string
-          refresh_token_expires_at?: string
-          token_expires_at?: string
-          updated_at?: string
-          user_id?: string
+          item_id?: string
+          notes?: string | null
+          quantity_after?: number
+          quantity_change?: number
+          reason?: string
+          reference_id?: string | null
+          reference_type?: string | null
+          tenant_id?: string
+          unit_cost?: number | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "inventory_movements_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_movements_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      quickbooks_sync_log: {
+      invoice_payments: {
         Row: {
+          amount: number
           created_at: string
-          entity_type: string
-          error_message: string | null
+          created_by: string | null
           id: string
-          local_id: string
-          quickbooks_id: string
-          status: string
-          sync_direction: string
-          user_id: string
+          invoice_id: string
+          method: string
+          notes: string | null
+          payment_date: string
+          reference_number: string | null
+          tenant_id: string
         }
         Insert: {
+          amount: number
           created_at?: string
-          entity_type: string
-          error_message?: string | null
+          created_by?: string | null
+          id?: string
+          invoice_id: string
+          method?: string
+          notes?: string | null
+          payment_date?: string
+          reference_number?: string | null
+          tenant_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          invoice_id?: string
+          method?: string
+          notes?: string | null
+          payment_date?: string
+          reference_number?: string | null
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_payments_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_payments_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoices: {
+        Row: {
+          amount_credited: number
+          amount_paid: number
+          company_id: string | null
+          confirmed_company_id: string | null
+          created_at: string | null
+          created_by: string | null
+          customer_address: string | null
+          customer_email: string | null
+          customer_name: string
+          customer_phone: string | null
+          discount: number | null
+          id: string
+          invoice_number: string
+          items: Json
+          last_edited_at: string | null
+          last_edited_by: string | null
+          notes: string | null
+          paid: boolean | null
+          paid_at: string | null
+          payment_status: string
+          person_id: string | null
+          pricing_approval_decided_at: string | null
+          pricing_approval_decided_by: string | null
+          pricing_approval_note: string | null
+          pricing_approval_requested_at: string | null
+          pricing_approval_requested_by: string | null
+          pricing_approval_status: string
+          pricing_violations: Json
+          sales_order_id: string | null
+          salesman_name: string | null
+          ship_to_address: string | null
+          ship_to_name: string | null
+          shipping: number | null
+          source_quote_id: string | null
+          status: string
+          subtotal: number
+          tax: number
+          tax_details: Json
+          tax_exempt_certificate: string | null
+          tenant_id: string
+          total: number
+        }
+        Insert: {
+          amount_credited?: number
+          amount_paid?: number
+          company_id?: string | null
+          confirmed_company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          customer_address?: string | null
+          customer_email?: string | null
+          customer_name: string
+          customer_phone?: string | null
+          discount?: number | null
+          id?: string
+          invoice_number?: string
+          items?: Json
+          last_edited_at?: string | null
+          last_edited_by?: string | null
+          notes?: string | null
+          paid?: boolean | null
+          paid_at?: string | null
+          payment_status?: string
+          person_id?: string | null
+          pricing_approval_decided_at?: string | null
+          pricing_approval_decided_by?: string | null
+          pricing_approval_note?: string | null
+          pricing_approval_requested_at?: string | null
+          pricing_approval_requested_by?: string | null
+          pricing_approval_status?: string
+          pricing_violations?: Json
+          sales_order_id?: string | null
+          salesman_name?: string | null
+          ship_to_address?: string | null
+          ship_to_name?: string | null
+          shipping?: number | null
+          source_quote_id?: string | null
+          status?: string
+          subtotal: number
+          tax?: number
+          tax_details?: Json
+          tax_exempt_certificate?: string | null
+          tenant_id: string
+          total: number
+        }
+        Update: {
+          amount_credited?: number
+          amount_paid?: number
+          company_id?: string | null
+          confirmed_company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          customer_address?: string | null
+          customer_email?: string | null
+          customer_name?: string
+          customer_phone?: string | null
+          discount?: number | null
+          id?: string
+          invoice_number?: string
+          items?: Json
+          last_edited_at?: string | null
+          last_edited_by?: string | null
+          notes?: string | null
+          paid?: boolean | null
+          paid_at?: string | null
+          payment_status?: string
+          person_id?: string | null
+          pricing_approval_decided_at?: string | null
+          pricing_approval_decided_by?: string | null
+          pricing_approval_note?: string | null
+          pricing_approval_requested_at?: string | null
+          pricing_approval_requested_by?: string | null
+          pricing_approval_status?: string
+          pricing_violations?: Json
+          sales_order_id?: string | null
+          salesman_name?: string | null
+          ship_to_address?: string | null
+          ship_to_name?: string | null
+          shipping?: number | null
+          source_quote_id?: string | null
+          status?: string
+          subtotal?: number
+          tax?: number
+          tax_details?: Json
+          tax_exempt_certificate?: string | null
+          tenant_id?: string
+          total?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_confirmed_company_id_fkey"
+            columns: ["confirmed_company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_person_id_fkey"
+            columns: ["person_id"]
+            isOneToOne: false
+            referencedRelation: "active_people"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_person_id_fkey"
+            columns: ["person_id"]
+            isOneToOne: false
+            referencedRelation: "people"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_sales_order_id_fkey"
+            columns: ["sales_order_id"]
+            isOneToOne: false
+            referencedRelation: "sales_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      items: {
+        Row: {
+          condition_grade: string | null
+          cost: number | null
+          created_at: string | null
+          date_sold: string | null
+          description: string
+          id: string
+          in_transit_transfer_id: string | null
+          max_reorder_level: number | null
+          min_reorder_level: number | null
+          min_sale_price: number | null
+          part_number: string
+          quantity_on_hand: number
+          reserved_sales_order_id: string | null
+          sale_price: number | null
+          serial_number: string | null
+          shelf_location: string | null
+          sold_in_invoice_id: string | null
+          status: string
+          tenant_id: string
+          tracking_mode: string
+          updated_at: string | null
+          volume: number | null
+          warehouse_id: string | null
+          warranty_months: number | null
+          weight: number | null
+        }
+        Insert: {
+          condition_grade?: string | null
+          cost?: number | null
+          created_at?: string | null
+          date_sold?: string | null
+          description: string
+          id?: string
+          in_transit_transfer_id?: string | null
+          max_reorder_level?: number | null
+          min_reorder_level?: number | null
+          min_sale_price?: number | null
+          part_number: string
+          quantity_on_hand?: number
+          reserved_sales_order_id?: string | null
+          sale_price?: number | null
+          serial_number?: string | null
+          shelf_location?: string | null
+          sold_in_invoice_id?: string | null
+          status: string
+          tenant_id: string
+          tracking_mode?: string
+          updated_at?: string | null
+          volume?: number | null
+          warehouse_id?: string | null
+          warranty_months?: number | null
+          weight?: number | null
+        }
+        Update: {
+          condition_grade?: string | null
+          cost?: number | null
+          created_at?: string | null
+          date_sold?: string | null
+          description?: string
+          id?: string
+          in_transit_transfer_id?: string | null
+          max_reorder_level?: number | null
+          min_reorder_level?: number | null
+          min_sale_price?: number | null
+          part_number?: string
+          quantity_on_hand?: number
+          reserved_sales_order_id?: string | null
+          sale_price?: number | null
+          serial_number?: string | null
+          shelf_location?: string | null
+          sold_in_invoice_id?: string | null
+          status?: string
+          tenant_id?: string
+          tracking_mode?: string
+          updated_at?: string | null
+          volume?: number | null
+          warehouse_id?: string | null
+          warranty_months?: number | null
+          weight?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "items_in_transit_transfer_id_fkey"
+            columns: ["in_transit_transfer_id"]
+            isOneToOne: false
+            referencedRelation: "stock_transfers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "items_reserved_sales_order_id_fkey"
+            columns: ["reserved_sales_order_id"]
+            isOneToOne: false
+            referencedRelation: "sales_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "items_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "items_warehouse_id_fkey"
+            columns: ["warehouse_id"]
+            isOneToOne: false
+            referencedRelation: "warehouses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      journal_entries: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          entry_date: string
+          id: string
+          reference_id: string
+          reference_type: string
+          reversal_of: string | null
+          reversed_by: string | null
+          tenant_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          entry_date?: string
+          id?: string
+          reference_id: string
+          reference_type: string
+          reversal_of?: string | null
+          reversed_by?: string | null
+          tenant_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          entry_date?: string
+          id?: string
+          reference_id?: string
+          reference_type?: string
+          reversal_of?: string | null
+          reversed_by?: string | null
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "journal_entries_reversal_of_fkey"
+            columns: ["reversal_of"]
+            isOneToOne: false
+            referencedRelation: "journal_entries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "journal_entries_reversed_by_fkey"
+            columns: ["reversed_by"]
+            isOneToOne: false
+            referencedRelation: "journal_entries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "journal_entries_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      login_attempts: {
+        Row: {
+          attempted_at: string
+          email: string
+          id: string
+          ip_address: unknown
+          success: boolean | null
+          user_agent: string | null
+        }
+        Insert: {
+          attempted_at?: string
+          email: string
+          id?: string
+          ip_address?: unknown
+          success?: boolean | null
+          user_agent?: string | null
+        }
+        Update: {
+          attempted_at?: string
+          email?: string
+          id?: string
+          ip_address?: unknown
+          success?: boolean | null
+          user_agent?: string | null
+        }
+        Relationships: []
+      }
+      meeting_chat_messages: {
+        Row: {
+          created_at: string
+          id: string
+          meeting_id: string
+          text: string
+          user_id: string
+          user_name: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          meeting_id: string
+          text: string
+          user_id: string
+          user_name: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          meeting_id?: string
+          text?: string
+          user_id?: string
+          user_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "meeting_chat_messages_meeting_id_fkey"
+            columns: ["meeting_id"]
+            isOneToOne: false
+            referencedRelation: "video_meetings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      opportunities: {
+        Row: {
+          closed_at: string | null
+          company_id: string | null
+          created_at: string
+          created_by: string | null
+          expected_close_date: string | null
+          expected_value: number
+          id: string
+          lost_reason: string | null
+          name: string
+          notes: string | null
+          owner_id: string | null
+          person_id: string | null
+          probability: number
+          stage: string
+          tenant_id: string
+          updated_at: string
+        }
+        Insert: {
+          closed_at?: string | null
+          company_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          expected_close_date?: string | null
+          expected_value?: number
+          id?: string
+          lost_reason?: string | null
+          name: string
+          notes?: string | null
+          owner_id?: string | null
+          person_id?: string | null
+          probability?: number
+          stage?: string
+          tenant_id: string
+          updated_at?: string
+        }
+        Update: {
+          closed_at?: string | null
+          company_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          expected_close_date?: string | null
+          expected_value?: number
+          id?: string
+          lost_reason?: string | null
+          name?: string
+          notes?: string | null
+          owner_id?: string | null
+          person_id?: string | null
+          probability?: number
+          stage?: string
+          tenant_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "opportunities_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "opportunities_person_id_fkey"
+            columns: ["person_id"]
+            isOneToOne: false
+            referencedRelation: "active_people"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "opportunities_person_id_fkey"
+            columns: ["person_id"]
+            isOneToOne: false
+            referencedRelation: "people"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "opportunities_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      part_vendors: {
+        Row: {
+          created_at: string
+          id: string
+          part_number: string
+          tenant_id: string
+          updated_at: string
+          vendor_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          part_number: string
+          tenant_id: string
+          updated_at?: string
+          vendor_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          part_number?: string
+          tenant_id?: string
+          updated_at?: string
+          vendor_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "part_vendors_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "part_vendors_vendor_id_fkey"
+            columns: ["vendor_id"]
+            isOneToOne: false
+            referencedRelation: "vendors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      people: {
+        Row: {
+          address: string | null
+          branch_id: string | null
+          company_id: string | null
+          created_at: string | null
+          created_by: string | null
+          deleted_at: string | null
+          email: string | null
+          email_addresses: Json
+          excavator_lines: string[] | null
+          id: string
+          job_title: string | null
+          name: string
+          notes: Json | null
+          phone: string | null
+          phone_numbers: Json
+          photo_path: string | null
+          portal_user_id: string | null
+          tenant_id: string
+          updated_at: string | null
+          updated_by: string | null
+          user_id: string | null
+        }
+        Insert: {
+          address?: string | null
+          branch_id?: string | null
+          company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          deleted_at?: string | null
+          email?: string | null
+          email_addresses?: Json
+          excavator_lines?: string[] | null
+          id?: string
+          job_title?: string | null
+          name: string
+          notes?: Json | null
+          phone?: string | null
+          phone_numbers?: Json
+          photo_path?: string | null
+          portal_user_id?: string | null
+          tenant_id: string
+          updated_at?: string | null
+          updated_by?: string | null
+          user_id?: string | null
+        }
+        Update: {
+          address?: string | null
+          branch_id?: string | null
+          company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          deleted_at?: string | null
+          email?: string | null
+          email_addresses?: Json
+          excavator_lines?: string[] | null
+          id?: string
+          job_title?: string | null
+          name?: string
+          notes?: Json | null
+          phone?: string | null
+          phone_numbers?: Json
+          photo_path?: string | null
+          portal_user_id?: string | null
+          tenant_id?: string
+          updated_at?: string | null
+          updated_by?: string | null
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "people_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "people_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "people_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pricing_guardrails: {
+        Row: {
+          created_at: string
+          enforce_min_sale_price: boolean
+          id: string
+          max_discount_percent: number | null
+          min_margin_percent: number | null
+          tenant_id: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          enforce_min_sale_price?: boolean
+          id?: string
+          max_discount_percent?: number | null
+          min_margin_percent?: number | null
+          tenant_id: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          enforce_min_sale_price?: boolean
+          id?: string
+          max_discount_percent?: number | null
+          min_margin_percent?: number | null
+          tenant_id?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pricing_guardrails_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_kit_components: {
+        Row: {
+          description: string | null
+          id: string
+          kit_id: string
+          line_number: number
+          part_number: string
+          quantity: number
+          tenant_id: string
+        }
+        Insert: {
+          description?: string | null
+          id?: string
+          kit_id: string
+          line_number: number
+          part_number: string
+          quantity: number
+          tenant_id: string
+        }
+        Update: {
+          description?: string | null
+          id?: string
+          kit_id?: string
+          line_number?: number
+          part_number?: string
+          quantity?: number
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_kit_components_kit_id_fkey"
+            columns: ["kit_id"]
+            isOneToOne: false
+            referencedRelation: "product_kits"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_kit_components_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_kits: {
+        Row: {
+          bundle_price: number | null
+          created_at: string
+          created_by: string | null
+          description: string
+          id: string
+          is_active: boolean
+          itemize_on_documents: boolean
+          part_number: string
+          tenant_id: string
+          updated_at: string
+        }
+        Insert: {
+          bundle_price?: number | null
+          created_at?: string
+          created_by?: string | null
+          description?: string
+          id?: string
+          is_active?: boolean
+          itemize_on_documents?: boolean
+          part_number: string
+          tenant_id: string
+          updated_at?: string
+        }
+        Update: {
+          bundle_price?: number | null
+          created_at?: string
+          created_by?: string | null
+          description?: string
+          id?: string
+          is_active?: boolean
+          itemize_on_documents?: boolean
+          part_number?: string
+          tenant_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_kits_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          current_tenant_id: string | null
+          full_name: string
+          id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          current_tenant_id?: string | null
+          full_name: string
+          id?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          current_tenant_id?: string | null
+          full_name?: string
+          id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profiles_current_tenant_id_fkey"
+            columns: ["current_tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_order_items: {
+        Row: {
+          created_at: string | null
+          description: string
+          id: string
+          part_number: string
+          po_id: string
+          quantity: number
+          received_quantity: number | null
+          serial_number: string | null
+          tenant_id: string
+          total_cost: number
+          unit_cost: number
+          weight: number | null
+        }
+        Insert: {
+          created_at?: string | null
+          description: string
+          id?: string
+          part_number: string
+          po_id: string
+          quantity?: number
+          received_quantity?: number | null
+          serial_number?: string | null
+          tenant_id: string
+          total_cost: number
+          unit_cost: number
+          weight?: number | null
+        }
+        Update: {
+          created_at?: string | null
+          description?: string
+          id?: string
+          part_number?: string
+          po_id?: string
+          quantity?: number
+          received_quantity?: number | null
+          serial_number?: string | null
+          tenant_id?: string
+          total_cost?: number
+          unit_cost?: number
+          weight?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_order_items_po_id_fkey"
+            columns: ["po_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_items_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_orders: {
+        Row: {
+          created_at: string | null
+          id: string
+          items: Json
+          notes: string | null
+          po_number: string
+          shipping: number | null
+          status: string
+          subtotal: number
+          tax: number | null
+          tenant_id: string
+          total: number
+          updated_at: string | null
+          vendor_id: string | null
+          vendor_name: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          items?: Json
+          notes?: string | null
+          po_number?: string
+          shipping?: number | null
+          status?: string
+          subtotal: number
+          tax?: number | null
+          tenant_id: string
+          total: number
+          updated_at?: string | null
+          vendor_id?: string | null
+          vendor_name: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          items?: Json
+          notes?: string | null
+          po_number?: string
+          shipping?: number | null
+          status?: string
+          subtotal?: number
+          tax?: number | null
+          tenant_id?: string
+          total?: number
+          updated_at?: string | null
+          vendor_id?: string | null
+          vendor_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_orders_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_orders_vendor_id_fkey"
+            columns: ["vendor_id"]
+            isOneToOne: false
+            referencedRelation: "vendors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quickbooks_connections: {
+        Row: {
+          access_token_encrypted: string
+          connected_at: string
+          created_at: string
+          id: string
+          realm_id: string
+          refresh_token_encrypted: string
+          refresh_token_expires_at: string
+          token_expires_at: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          access_token_encrypted: string
+          connected_at?: string
+          created_at?: string
+          id?: string
+          realm_id: string
+          refresh_token_encrypted: string
+          refresh_token_expires_at: string
+          token_expires_at: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          access_token_encrypted?: string
+          connected_at?: string
+          created_at?: string
+          id?: string
+          realm_id?: string
+          refresh_token_encrypted?: string
+          refresh_token_expires_at?: string
+          token_expires_at?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      quickbooks_sync_log: {
+        Row: {
+          created_at: string
+          entity_type: string
+          error_message: string | null
+          id: string
+          local_id: string
+          quickbooks_id: string
+          status: string
+          sync_direction: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          entity_type: string
+          error_message?: string | null
           id?: string
           local_id: string
           quickbooks_id: string
           status?: string
-          sync_direction?: string
+          sync_direction?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          entity_type?: string
+          error_message?: string | null
+          id?: string
+          local_id?: string
+          quickbooks_id?: string
+          status?: string
+          sync_direction?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      quote_acceptance_links: {
+        Row: {
+          convert_on_accept: boolean
+          created_at: string
+          created_by: string | null
+          expires_at: string
+          id: string
+          quote_id: string
+          revision: number
+          revoked_at: string | null
+          tenant_id: string
+          token: string
+          used_at: string | null
+        }
+        Insert: {
+          convert_on_accept?: boolean
+          created_at?: string
+          created_by?: string | null
+          expires_at: string
+          id?: string
+          quote_id: string
+          revision: number
+          revoked_at?: string | null
+          tenant_id: string
+          token: string
+          used_at?: string | null
+        }
+        Update: {
+          convert_on_accept?: boolean
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string
+          id?: string
+          quote_id?: string
+          revision?: number
+          revoked_at?: string | null
+          tenant_id?: string
+          token?: string
+          used_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quote_acceptance_links_quote_id_fkey"
+            columns: ["quote_id"]
+            isOneToOne: false
+            referencedRelation: "quotes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quote_acceptance_links_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quote_acceptances: {
+        Row: {
+          accepted_at: string
+          certificate_path: string | null
+          convert_on_accept: boolean
+          id: string
+          ip_address: string | null
+          link_id: string | null
+          po_number: string | null
+          quote_id: string
+          revision: number
+          signature_data: string
+          signer_name: string
+          snapshot: Json
+          snapshot_sha256: string
+          tenant_id: string
+          user_agent: string | null
+        }
+        Insert: {
+          accepted_at?: string
+          certificate_path?: string | null
+          convert_on_accept?: boolean
+          id?: string
+          ip_address?: string | null
+          link_id?: string | null
+          po_number?: string | null
+          quote_id: string
+          revision: number
+          signature_data: string
+          signer_name: string
+          snapshot: Json
+          snapshot_sha256: string
+          tenant_id: string
+          user_agent?: string | null
+        }
+        Update: {
+          accepted_at?: string
+          certificate_path?: string | null
+          convert_on_accept?: boolean
+          id?: string
+          ip_address?: string | null
+          link_id?: string | null
+          po_number?: string | null
+          quote_id?: string
+          revision?: number
+          signature_data?: string
+          signer_name?: string
+          snapshot?: Json
+          snapshot_sha256?: string
+          tenant_id?: string
+          user_agent?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quote_acceptances_link_id_fkey"
+            columns: ["link_id"]
+            isOneToOne: false
+            referencedRelation: "quote_acceptance_links"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quote_acceptances_quote_id_fkey"
+            columns: ["quote_id"]
+            isOneToOne: false
+            referencedRelation: "quotes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quote_acceptances_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quote_revisions: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          created_by_name: string | null
+          id: string
+          quote_id: string
+          revision: number
+          snapshot: Json
+          tenant_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          created_by_name?: string | null
+          id?: string
+          quote_id: string
+          revision: number
+          snapshot: Json
+          tenant_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          created_by_name?: string | null
+          id?: string
+          quote_id?: string
+          revision?: number
+          snapshot?: Json
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quote_revisions_quote_id_fkey"
+            columns: ["quote_id"]
+            isOneToOne: false
+            referencedRelation: "quotes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quote_revisions_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quotes: {
+        Row: {
+          company_id: string | null
+          confirmed_company_id: string | null
+          created_at: string | null
+          created_by: string | null
+          customer_address: string | null
+          customer_email: string | null
+          customer_name: string
+          customer_phone: string | null
+          customer_responded_at: string | null
+          customer_responded_by: string | null
+          customer_response_note: string | null
+          discount: number | null
+          expires_at: string | null
+          id: string
+          items: Json
+          notes: string | null
+          opportunity_id: string | null
+          person_id: string | null
+          pricing_approval_decided_at: string | null
+          pricing_approval_decided_by: string | null
+          pricing_approval_note: string | null
+          pricing_approval_requested_at: string | null
+          pricing_approval_requested_by: string | null
+          pricing_approval_status: string
+          pricing_violations: Json
+          quote_number: string
+          revision: number
+          salesman_name: string | null
+          ship_to_address: string | null
+          ship_to_name: string | null
+          shipping: number | null
+          status: string
+          subtotal: number
+          tax: number
+          tax_details: Json
+          tax_exempt_certificate: string | null
+          tenant_id: string
+          total: number
+        }
+        Insert: {
+          company_id?: string | null
+          confirmed_company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          customer_address?: string | null
+          customer_email?: string | null
+          customer_name: string
+          customer_phone?: string | null
+          customer_responded_at?: string | null
+          customer_responded_by?: string | null
+          customer_response_note?: string | null
+          discount?: number | null
+          expires_at?: string | null
+          id?: string
+          items?: Json
+          notes?: string | null
+          opportunity_id?: string | null
+          person_id?: string | null
+          pricing_approval_decided_at?: string | null
+          pricing_approval_decided_by?: string | null
+          pricing_approval_note?: string | null
+          pricing_approval_requested_at?: string | null
+          pricing_approval_requested_by?: string | null
+          pricing_approval_status?: string
+          pricing_violations?: Json
+          quote_number?: string
+          revision?: number
+          salesman_name?: string | null
+          ship_to_address?: string | null
+          ship_to_name?: string | null
+          shipping?: number | null
+          status?: string
+          subtotal: number
+          tax?: number
+          tax_details?: Json
+          tax_exempt_certificate?: string | null
+          tenant_id: string
+          total: number
+        }
+        Update: {
+          company_id?: string | null
+          confirmed_company_id?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          customer_address?: string | null
+          customer_email?: string | null
+          customer_name?: string
+          customer_phone?: string | null
+          customer_responded_at?: string | null
+          customer_responded_by?: string | null
+          customer_response_note?: string | null
+          discount?: number | null
+          expires_at?: string | null
+          id?: string
+          items?: Json
+          notes?: string | null
+          opportunity_id?: string | null
+          person_id?: string | null
+          pricing_approval_decided_at?: string | null
+          pricing_approval_decided_by?: string | null
+          pricing_approval_note?: string | null
+          pricing_approval_requested_at?: string | null
+          pricing_approval_requested_by?: string | null
+          pricing_approval_status?: string
+          pricing_violations?: Json
+          quote_number?: string
+          revision?: number
+          salesman_name?: string | null
+          ship_to_address?: string | null
+          ship_to_name?: string | null
+          shipping?: number | null
+          status?: string
+          subtotal?: number
+          tax?: number
+          tax_details?: Json
+          tax_exempt_certificate?: string | null
+          tenant_id?: string
+          total?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quotes_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quotes_confirmed_company_id_fkey"
+            columns: ["confirmed_company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quotes_opportunity_id_fkey"
+            columns: ["opportunity_id"]
+            isOneToOne: false
+            referencedRelation: "opportunities"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quotes_person_id_fkey"
+            columns: ["person_id"]
+            isOneToOne: false
+            referencedRelation: "active_people"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quotes_person_id_fkey"
+            columns: ["person_id"]
+            isOneToOne: false
+            referencedRelation: "people"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quotes_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recurring_invoice_runs: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          error: string | null
+          id: string
+          invoice_id: string | null
+          period_end: string
+          period_start: string
+          proration_factor: number
+          recurring_invoice_id: string
+          status: string
+          tenant_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          error?: string | null
+          id?: string
+          invoice_id?: string | null
+          period_end: string
+          period_start: string
+          proration_factor?: number
+          recurring_invoice_id: string
+          status: string
+          tenant_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          error?: string | null
+          id?: string
+          invoice_id?: string | null
+          period_end?: string
+          period_start?: string
+          proration_factor?: number
+          recurring_invoice_id?: string
+          status?: string
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_invoice_runs_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_invoice_runs_recurring_invoice_id_fkey"
+            columns: ["recurring_invoice_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "recurring_invoice_runs_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recurring_invoices: {
+        Row: {
+          billing_day: number
+          created_at: string
+          created_by: string | null
+          customer_address: string | null
+          customer_email: string | null
+          customer_name: string
+          customer_phone: string | null
+          discount: number
+          end_date: string | null
+          frequency: string
+          id: string
+          items: Json
+          last_run_at: string | null
+          name: string
+          next_run_date: string
+          notes: string | null
+          prorate_first_period: boolean
+          salesman_name: string | null
+          ship_to_address: string | null
+          ship_to_name: string | null
+          shipping: number
+          start_date: string
+          status: string
+          tenant_id: string
+          updated_at: string
+        }
+        Insert: {
+          billing_day?: number
+          created_at?: string
+          created_by?: string | null
+          customer_address?: string | null
+          customer_email?: string | null
+          customer_name: string
+          customer_phone?: string | null
+          discount?: number
+          end_date?: string | null
+          frequency: string
+          id?: string
+          items?: Json
+          last_run_at?: string | null
+          name: string
+          next_run_date: string
+          notes?: string | null
+          prorate_first_period?: boolean
+          salesman_name?: string | null
+          ship_to_address?: string | null
+          ship_to_name?: string | null
+          shipping?: number
+          start_date: string
+          status?: string
+          tenant_id: string
+          updated_at?: string
+        }
+        Update: {
+          billing_day?: number
+          created_at?: string
+          created_by?: string | null
+          customer_address?: string | null
+          customer_email?: string | null
+          customer_name?: string
+          customer_phone?: string | null
+          discount?: number
+          end_date?: string | null
+          frequency?: string
+          id?: string
+          items?: Json
+          last_run_at?: string | null
+          name?: string
+          next_run_date?: string
+          notes?: string | null
+          prorate_first_period?: boolean
+          salesman_name?: string | null
+          ship_to_address?: string | null
+          ship_to_name?: string | null
+          shipping?: number
+          start_date?: string
+          status?: string
+          tenant_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_invoices_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rma_lines: {
+        Row: {
+          condition_grade: string | null
+          created_at: string
+          description: string | null
+          disposition: string
+          id: string
+          inspection_notes: string | null
+          item_id: string | null
+          part_number: string
+          quantity: number
+          reason: string
+          reported_issue: string | null
+          rma_id: string
+          serial_number: string | null
+          taxable: boolean
+          tenant_id: string
+          unit_cost: number | null
+          unit_price: number
+        }
+        Insert: {
+          condition_grade?: string | null
+          created_at?: string
+          description?: string | null
+          disposition?: string
+          id?: string
+          inspection_notes?: string | null
+          item_id?: string | null
+          part_number: string
+          quantity?: number
+          reason?: string
+          reported_issue?: string | null
+          rma_id: string
+          serial_number?: string | null
+          taxable?: boolean
+          tenant_id: string
+          unit_cost?: number | null
+          unit_price?: number
+        }
+        Update: {
+          condition_grade?: string | null
+          created_at?: string
+          description?: string | null
+          disposition?: string
+          id?: string
+          inspection_notes?: string | null
+          item_id?: string | null
+          part_number?: string
+          quantity?: number
+          reason?: string
+          reported_issue?: string | null
+          rma_id?: string
+          serial_number?: string | null
+          taxable?: boolean
+          tenant_id?: string
+          unit_cost?: number | null
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rma_lines_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rma_lines_rma_id_fkey"
+            columns: ["rma_id"]
+            isOneToOne: false
+            referencedRelation: "rmas"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rma_lines_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rmas: {
+        Row: {
+          closed_at: string | null
+          closed_by: string | null
+          created_at: string
+          created_by: string | null
+          customer_name: string | null
+          id: string
+          invoice_id: string
+          notes: string | null
+          received_at: string | null
+          rma_number: string
+          status: string
+          tenant_id: string
+          updated_at: string
+        }
+        Insert: {
+          closed_at?: string | null
+          closed_by?: string | null
+          created_at?: string
+          created_by?: string | null
+          customer_name?: string | null
+          id?: string
+          invoice_id: string
+          notes?: string | null
+          received_at?: string | null
+          rma_number?: string
+          status?: string
+          tenant_id: string
+          updated_at?: string
+        }
+        Update: {
+          closed_at?: string | null
+          closed_by?: string | null
+          created_at?: string
+          created_by?: string | null
+          customer_name?: string | null
+          id?: string
+          invoice_id?: string
+          notes?: string | null
+          received_at?: string | null
+          rma_number?: string
+          status?: string
+          tenant_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rmas_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rmas_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sales_order_lines: {
+        Row: {
+          description: string | null
+          id: string
+          item_id: string | null
+          line_number: number
+          part_number: string
+          quantity: number
+          quantity_shipped: number
+          sales_order_id: string
+          serial_number: string | null
+          taxable: boolean
+          tenant_id: string
+          unit_price: number
+        }
+        Insert: {
+          description?: string | null
+          id?: string
+          item_id?: string | null
+          line_number: number
+          part_number: string
+          quantity?: number
+          quantity_shipped?: number
+          sales_order_id: string
+          serial_number?: string | null
+          taxable?: boolean
+          tenant_id: string
+          unit_price?: number
+        }
+        Update: {
+          description?: string | null
+          id?: string
+          item_id?: string | null
+          line_number?: number
+          part_number?: string
+          quantity?: number
+          quantity_shipped?: number
+          sales_order_id?: string
+          serial_number?: string | null
+          taxable?: boolean
+          tenant_id?: string
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sales_order_lines_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_order_lines_sales_order_id_fkey"
+            columns: ["sales_order_id"]
+            isOneToOne: false
+            referencedRelation: "sales_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_order_lines_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sales_order_shipment_lines: {
+        Row: {
+          id: string
+          quantity: number
+          sales_order_line_id: string
+          shipment_id: string
+          tenant_id: string
+        }
+        Insert: {
+          id?: string
+          quantity: number
+          sales_order_line_id: string
+          shipment_id: string
+          tenant_id: string
+        }
+        Update: {
+          id?: string
+          quantity?: number
+          sales_order_line_id?: string
+          shipment_id?: string
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sales_order_shipment_lines_sales_order_line_id_fkey"
+            columns: ["sales_order_line_id"]
+            isOneToOne: false
+            referencedRelation: "sales_order_lines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_order_shipment_lines_shipment_id_fkey"
+            columns: ["shipment_id"]
+            isOneToOne: false
+            referencedRelation: "sales_order_shipments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_order_shipment_lines_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sales_order_shipments: {
+        Row: {
+          carrier: string | null
+          id: string
+          invoice_id: string | null
+          sales_order_id: string
+          shipment_number: string
+          shipped_at: string
+          shipped_by: string | null
+          tenant_id: string
+          tracking_number: string | null
+        }
+        Insert: {
+          carrier?: string | null
+          id?: string
+          invoice_id?: string | null
+          sales_order_id: string
+          shipment_number: string
+          shipped_at?: string
+          shipped_by?: string | null
+          tenant_id: string
+          tracking_number?: string | null
+        }
+        Update: {
+          carrier?: string | null
+          id?: string
+          invoice_id?: string | null
+          sales_order_id?: string
+          shipment_number?: string
+          shipped_at?: string
+          shipped_by?: string | null
+          tenant_id?: string
+          tracking_number?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sales_order_shipments_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_order_shipments_sales_order_id_fkey"
+            columns: ["sales_order_id"]
+            isOneToOne: false
+            referencedRelation: "sales_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_order_shipments_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sales_orders: {
+        Row: {
+          cancelled_at: string | null
+          cancelled_by: string | null
+          company_id: string | null
+          created_at: string
+          created_by: string | null
+          customer_address: string | null
+          customer_email: string | null
+          customer_name: string
+          customer_phone: string | null
+          discount: number
+          id: string
+          notes: string | null
+          order_number: string
+          salesman_name: string | null
+          ship_to_address: string | null
+          ship_to_name: string | null
+          shipping: number
+          source_quote_id: string | null
+          status: string
+          tenant_id: string
+          updated_at: string
+        }
+        Insert: {
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          company_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          customer_address?: string | null
+          customer_email?: string | null
+          customer_name: string
+          customer_phone?: string | null
+          discount?: number
+          id?: string
+          notes?: string | null
+          order_number?: string
+          salesman_name?: string | null
+          ship_to_address?: string | null
+          ship_to_name?: string | null
+          shipping?: number
+          source_quote_id?: string | null
+          status?: string
+          tenant_id: string
+          updated_at?: string
+        }
+        Update: {
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          company_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          customer_address?: string | null
+          customer_email?: string | null
+          customer_name?: string
+          customer_phone?: string | null
+          discount?: number
+          id?: string
+          notes?: string | null
+          order_number?: string
+          salesman_name?: string | null
+          ship_to_address?: string | null
+          ship_to_name?: string | null
+          shipping?: number
+          source_quote_id?: string | null
+          status?: string
+          tenant_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sales_orders_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_orders_source_quote_id_fkey"
+            columns: ["source_quote_id"]
+            isOneToOne: false
+            referencedRelation: "quotes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_orders_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sales_territories: {
+        Row: {
+          boundary: Json
+          color: string
+          created_at: string
+          created_by: string | null
+          drawn_polygon: Json | null
+          h3_cells: string[]
+          h3_resolution: number
+          id: string
+          name: string
+          owner_id: string | null
+          tenant_id: string
+          updated_at: string
+        }
+        Insert: {
+          boundary?: Json
+          color?: string
+          created_at?: string
+          created_by?: string | null
+          drawn_polygon?: Json | null
+          h3_cells?: string[]
+          h3_resolution?: number
+          id?: string
+          name: string
+          owner_id?: string | null
+          tenant_id: string
+          updated_at?: string
+        }
+        Update: {
+          boundary?: Json
+          color?: string
+          created_at?: string
+          created_by?: string | null
+          drawn_polygon?: Json | null
+          h3_cells?: string[]
+          h3_resolution?: number
+          id?: string
+          name?: string
+          owner_id?: string | null
+          tenant_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sales_territories_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      service_requests: {
+        Row: {
+          company_id: string
+          created_at: string
+          description: string | null
+          id: string
+          requested_by: string | null
+          requested_by_name: string | null
+          resolution: string | null
+          serial_number: string | null
+          status: string
+          subject: string
+          tenant_id: string
+          updated_at: string
+        }
+        Insert: {
+          company_id: string
+          created_at?: string
+          description?: string | null
+          id?: string
+          requested_by?: string | null
+          requested_by_name?: string | null
+          resolution?: string | null
+          serial_number?: string | null
+          status?: string
+          subject: string
+          tenant_id: string
+          updated_at?: string
+        }
+        Update: {
+          company_id?: string
+          created_at?: string
+          description?: string | null
+          id?: string
+          requested_by?: string | null
+          requested_by_name?: string | null
+          resolution?: string | null
+          serial_number?: string | null
+          status?: string
+          subject?: string
+          tenant_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "service_requests_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "service_requests_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      signup_notifications: {
+        Row: {
+          created_at: string
+          email: string
+          email_encrypted: string | null
+          full_name: string | null
+          id: string
+          read_at: string | null
+          signed_up_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          email_encrypted?: string | null
+          full_name?: string | null
+          id?: string
+          read_at?: string | null
+          signed_up_at?: string
           user_id: string
         }
         Update: {
           created_at?: string
-          entity_type?: string
-          error_message?: string | null
+          email?: string
+          email_encrypted?: string | null
+          full_name?: string | null
           id?: string
-          local_id?: string
-          quickbooks_id?: string
-          status?: string
-          sync_direction?: string
+          read_at?: string | null
+          signed_up_at?: string
           user_id?: string
         }
         Relationships: []
       }
-      quotes: {
+      spiff_prizes: {
+        Row: {
+          created_at: string | null
+          credits_required: number
+          description: string | null
+          id: string
+          is_active: boolean | null
+          name: string
+          tenant_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          credits_required: number
+          description?: string | null
+          id?: string
+          is_active?: boolean | null
+          name: string
+          tenant_id: string
+        }
+        Update: {
+          created_at?: string | null
+          credits_required?: number
+          description?: string | null
+          id?: string
+          is_active?: boolean | null
+          name?: string
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "spiff_prizes_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      spiff_program: {
+        Row: {
+          adjusted_amount: number | null
+          adjusted_credits: number | null
+          admin_notes: string | null
+          approved_at: string | null
+          approved_by: string | null
+          created_at: string | null
+          credits_earned: number
+          id: string
+          prize_redeemed: string | null
+          redeemed_at: string | null
+          sale_amount: number
+          sale_description: string
+          salesman_id: string
+          serial_number: string | null
+          status: string
+          tenant_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          adjusted_amount?: number | null
+          adjusted_credits?: number | null
+          admin_notes?: string | null
+          approved_at?: string | null
+          approved_by?: string | null
+          created_at?: string | null
+          credits_earned?: number
+          id?: string
+          prize_redeemed?: string | null
+          redeemed_at?: string | null
+          sale_amount?: number
+          sale_description: string
+          salesman_id: string
+          serial_number?: string | null
+          status?: string
+          tenant_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          adjusted_amount?: number | null
+          adjusted_credits?: number | null
+          admin_notes?: string | null
+          approved_at?: string | null
+          approved_by?: string | null
+          created_at?: string | null
+          credits_earned?: number
+          id?: string
+          prize_redeemed?: string | null
+          redeemed_at?: string | null
+          sale_amount?: number
+          sale_description?: string
+          salesman_id?: string
+          serial_number?: string | null
+          status?: string
+          tenant_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "spiff_program_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      spiff_warranties: {
+        Row: {
+          created_at: string | null
+          id: string
+          sale_description: string
+          salesman_id: string
+          serial_number: string
+          spiff_sale_id: string
+          tenant_id: string
+          updated_at: string | null
+          warranty_end_date: string
+          warranty_months: number
+          warranty_start_date: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          sale_description: string
+          salesman_id: string
+          serial_number: string
+          spiff_sale_id: string
+          tenant_id: string
+          updated_at?: string | null
+          warranty_end_date: string
+          warranty_months?: number
+          warranty_start_date?: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          sale_description?: string
+          salesman_id?: string
+          serial_number?: string
+          spiff_sale_id?: string
+          tenant_id?: string
+          updated_at?: string | null
+          warranty_end_date?: string
+          warranty_months?: number
+          warranty_start_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "spiff_warranties_spiff_sale_id_fkey"
+            columns: ["spiff_sale_id"]
+            isOneToOne: false
+            referencedRelation: "spiff_program"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "spiff_warranties_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_adjustment_lines: {
+        Row: {
+          adjustment_id: string
+          created_at: string
+          description: string | null
+          id: string
+          item_id: string | null
+          part_number: string
+          quantity_change: number
+          reason: string
+          serial_number: string | null
+          tenant_id: string
+          unit_cost: number | null
+        }
+        Insert: {
+          adjustment_id: string
+          created_at?: string
+          description?: string | null
+          id?: string
+          item_id?: string | null
+          part_number: string
+          quantity_change: number
+          reason?: string
+          serial_number?: string | null
+          tenant_id: string
+          unit_cost?: number | null
+        }
+        Update: {
+          adjustment_id?: string
+          created_at?: string
+          description?: string | null
+          id?: string
+          item_id?: string | null
+          part_number?: string
+          quantity_change?: number
+          reason?: string
+          serial_number?: string | null
+          tenant_id?: string
+          unit_cost?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_adjustment_lines_adjustment_id_fkey"
+            columns: ["adjustment_id"]
+            isOneToOne: false
+            referencedRelation: "stock_adjustments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_adjustment_lines_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_adjustment_lines_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_adjustments: {
         Row: {
-          created_at: string | null
+          adjustment_number: string
+          approved_at: string | null
+          approved_by: string | null
+          created_at: string
           created_by: string | null
-          customer_address: string | null
-          customer_email: string | null
-          customer_name: string
-          customer_phone: string | null
-          discount: number | null
-          expires_at: string | null
+          cycle_count_id: string | null
           id: string
-          items: Json
           notes: string | null
-          quote_number: string
-          salesman_name: string | null
-          ship_to_address: string | null
-          ship_to_name: string | null
-          shipping: number | null
           status: string
-          subtotal: number
-          tax: number
           tenant_id: string
-          total: number
+          total_value: number | null
+          updated_at: string
+          warehouse_id: string | null
         }
         Insert: {
-          created_at?: string | null
+          adjustment_number?: string
+          approved_at?: string | null
+          approved_by?: string | null
+          created_at?: string
           created_by?: string | null
-          customer_address?: string | null
-          customer_email?: string | null
-          customer_name: string
-          customer_phone?: string | null
-          discount?: number | null
-          expires_at?: string | null
+          cycle_count_id?: string | null
           id?: string
-          items?: Json
           notes?: string | null
-          quote_number: string
-          salesman_name?: string | null
-          ship_to_address?: string | null
-          ship_to_name?: string | null
-          shipping?: number | null
           status?: string
-          subtotal: number
-          tax?: number
           tenant_id: string
-          total: number
+          total_value?: number | null
+          updated_at?: string
+          warehouse_id?: string | null
         }
         Update: {
-          created_at?: string | null
+          adjustment_number?: string
+          approved_at?: string | null
+          approved_by?: string | null
+          created_at?: string
           created_by?: string | null
-          customer_address?: string | null
-          customer_email?: string | null
-          customer_name?: string
-          customer_phone?: string | null
-          discount?: number | null
-          expires_at?: string | null
+          cycle_count_id?: string | null
           id?: string
-          items?: Json
           notes?: string | null
-          quote_number?: string
-          salesman_name?: string | null
-          ship_to_address?: string | null
-          ship_to_name?: string | null
-          shipping?: number | null
           status?: string
-          subtotal?: number
-          tax?: number
           tenant_id?: string
-          total?: number
+          total_value?: number | null
+          updated_at?: string
+          warehouse_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "quotes_tenant_id_fkey"
+            foreignKeyName: "stock_adjustments_cycle_count_id_fkey"
+            columns: ["cycle_count_id"]
+            isOneToOne: false
+            referencedRelation: "cycle_counts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_adjustments_tenant_id_fkey"
             columns: ["tenant_id"]
             isOneToOne: false
             referencedRelation: "tenants"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "stock_adjustments_warehouse_id_fkey"
+            columns: ["warehouse_id"]
+            isOneToOne: false
+            referencedRelation: "warehouses"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      signup_notifications: {
+      stock_transfer_lines: {
         Row: {
           created_at: string
-          email: string
-          email_encrypted: string | null
-          full_name: string | null
           id: string
-          read_at: string | null
-          signed_up_at: string
-          user_id: string
+          item_id: string
+          quantity: number
+          received_item_id: string | null
+          tenant_id: string
+          to_bin: string | null
+          transfer_id: string
+          unit_cost: number | null
         }
         Insert: {
           created_at?: string
-          email: string
-          email_encrypted?: string | null
-          full_name?: string | null
           id?: string
-          read_at?: string | null
-          signed_up_at?: string
-          user_id: string
+          item_id: string
+          quantity?: number
+          received_item_id?: string | null
+          tenant_id: string
+          to_bin?: string | null
+          transfer_id: string
+          unit_cost?: number | null
         }
         Update: {
           created_at?: string
-          email?: string
-          email_encrypted?: string | null
-          full_name?: string | null
           id?: string
-          read_at?: string | null
-          signed_up_at?: string
-          user_id?: string
+          item_id?: string
+          quantity?: number
+          received_item_id?: string | null
+          tenant_id?: string
+          to_bin?: string | null
+          transfer_id?: string
+          unit_cost?: number | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "stock_transfer_lines_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_transfer_lines_received_item_id_fkey"
+            columns: ["received_item_id"]
+            isOneToOne: false
+            referencedRelation: "items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_transfer_lines_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_transfer_lines_transfer_id_fkey"
+            columns: ["transfer_id"]
+            isOneToOne: false
+            referencedRelation: "stock_transfers"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      spiff_prizes: {
+      stock_transfers: {
         Row: {
-          created_at: string | null
-          credits_required: number
-          description: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
+          created_at: string
+          created_by: string | null
+          from_warehouse_id: string
           id: string
-          is_active: boolean | null
-          name: string
+          notes: string | null
+          received_at: string | null
+          received_by: string | null
+          shipped_at: string | null
+          shipped_by: string | null
+          status: string
           tenant_id: string
+          to_warehouse_id: string
+          transfer_number: string
+          updated_at: string
         }
         Insert: {
-          created_at?: string | null
-          credits_required: number
-          description?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          created_at?: string
+          created_by?: string | null
+          from_warehouse_id: string
           id?: string
-          is_active?: boolean | null
-          name: string
+          notes?: string | null
+          received_at?: string | null
+          received_by?: string | null
+          shipped_at?: string | null
+          shipped_by?: string | null
+          status?: string
           tenant_id: string
+          to_warehouse_id: string
+          transfer_number?: string
+          updated_at?: string
         }
         Update: {
-          created_at?: string | null
-          credits_required?: number
-          description?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          created_at?: string
+          created_by?: string | null
+          from_warehouse_id?: string
           id?: string
-          is_active?: boolean | null
-          name?: string
+          notes?: string | null
+          received_at?: string | null
+          received_by?: string | null
+          shipped_at?: string | null
+          shipped_by?: string | null
+          status?: string
           tenant_id?: string
+          to_warehouse_id?: string
+          transfer_number?: string
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "spiff_prizes_tenant_id_fkey"
+            foreignKeyName: "stock_transfers_from_warehouse_id_fkey"
+            columns: ["from_warehouse_id"]
+            isOneToOne: false
+            referencedRelation: "warehouses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_transfers_tenant_id_fkey"
             columns: ["tenant_id"]
             isOneToOne: false
             referencedRelation: "tenants"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "stock_transfers_to_warehouse_id_fkey"
+            columns: ["to_warehouse_id"]
+            isOneToOne: false
+            referencedRelation: "warehouses"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      spiff_program: {
+      tasks: {
         Row: {
-          adjusted_amount: number | null
-          adjusted_credits: number | null
-          admin_notes: string | null
-          approved_at: string | null
-          approved_by: string | null
-          created_at: string | null
-          credits_earned: number
+          assignee_id: string | null
+          calendar_event_id: string | null
+          company_id: string | null
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          due_at: string | null
           id: string
-          prize_redeemed: string | null
-          redeemed_at: string | null
-          sale_amount: number
-          sale_description: string
-          salesman_id: string
-          serial_number: string | null
+          invoice_id: string | null
+          notes: string | null
+          person_id: string | null
+          priority: string
+          quote_id: string | null
+          reminded_at: string | null
+          source: string
+          source_id: string | null
+          source_item: number | null
           status: string
           tenant_id: string
-          updated_at: string | null
+          title: string
+          updated_at: string
         }
         Insert: {
-          adjusted_amount?: number | null
-          adjusted_credits?: number | null
-          admin_notes?: string | null
-          approved_at?: string | null
-          approved_by?: string | null
-          created_at?: string | null
-          credits_earned?: number
+          assignee_id?: string | null
+          calendar_event_id?: string | null
+          company_id?: string | null
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          due_at?: string | null
           id?: string
-          prize_redeemed?: string | null
-          redeemed_at?: string | null
-          sale_amount?: number
-          sale_description: string
-          salesman_id: string
-          serial_number?: string | null
+          invoice_id?: string | null
+          notes?: string | null
+          person_id?: string | null
+          priority?: string
+          quote_id?: string | null
+          reminded_at?: string | null
+          source?: string
+          source_id?: string | null
+          source_item?: number | null
           status?: string
           tenant_id: string
-          updated_at?: string | null
+          title: string
+          updated_at?: string
         }
         Update: {
-          adjusted_amount?: number | null
-          adjusted_credits?: number | null
-          admin_notes?: string | null
-          approved_at?: string | null
-          approved_by?: string | null
-          created_at?: string | null
-          credits_earned?: number
+          assignee_id?: string | null
+          calendar_event_id?: string | null
+          company_id?: string | null
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          due_at?: string | null
           id?: string
-          prize_redeemed?: string | null
-          redeemed_at?: string | null
-          sale_amount?: number
-          sale_description?: string
-          salesman_id?: string
-          serial_number?: string | null
+          invoice_id?: string | null
+          notes?: string | null
+          person_id?: string | null
+          priority?: string
+          quote_id?: string | null
+          reminded_at?: string | null
+          source?: string
+          source_id?: string | null
+          source_item?: number | null
           status?: string
           tenant_id?: string
-          updated_at?: string | null
+          title?: string
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "spiff_program_tenant_id_fkey"
+            foreignKeyName: "tasks_calendar_event_id_fkey"
+            columns: ["calendar_event_id"]
+            isOneToOne: false
+            referencedRelation: "calendar_events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_person_id_fkey"
+            columns: ["person_id"]
+            isOneToOne: false
+            referencedRelation: "active_people"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_person_id_fkey"
+            columns: ["person_id"]
+            isOneToOne: false
+            referencedRelation: "people"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_quote_id_fkey"
+            columns: ["quote_id"]
+            isOneToOne: false
+            referencedRelation: "quotes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_tenant_id_fkey"
             columns: ["tenant_id"]
             isOneToOne: false
             referencedRelation: "tenants"
@@ -1488,56 +4028,49 @@ export type Database = {
           },
         ]
       }
-      spiff_warranties: {
+      tax_jurisdictions: {
         Row: {
-          created_at: string | null
+          created_at: string
           id: string
-          sale_description: string
-          salesman_id: string
-          serial_number: string
-          spiff_sale_id: string
+          is_active: boolean
+          level: string
+          name: string
+          postal_codes: string[]
+          rate: number
+          state_code: string
+          taxes_shipping: boolean
           tenant_id: string
-          updated_at: string | null
-          warranty_end_date: string
-          warranty_months: number
-          warranty_start_date: string
+          updated_at: string
         }
         Insert: {
-          created_at?: string | null
+          created_at?: string
           id?: string
-          sale_description: string
-          salesman_id: string
-          serial_number: string
-          spiff_sale_id: string
+          is_active?: boolean
+          level?: string
+          name: string
+          postal_codes?: string[]
+          rate: number
+          state_code: string
+          taxes_shipping?: boolean
           tenant_id: string
-          updated_at?: string | null
-          warranty_end_date: string
-          warranty_months?: number
-          warranty_start_date?: string
+          updated_at?: string
         }
         Update: {
-          created_at?: string | null
+          created_at?: string
           id?: string
-          sale_description?: string
-          salesman_id?: string
-          serial_number?: string
-          spiff_sale_id?: string
+          is_active?: boolean
+          level?: string
+          name?: string
+          postal_codes?: string[]
+          rate?: number
+          state_code?: string
+          taxes_shipping?: boolean
           tenant_id?: string
-          updated_at?: string | null
-          warranty_end_date?: string
-          warranty_months?: number
-          warranty_start_date?: string
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "spiff_warranties_spiff_sale_id_fkey"
-            columns: ["spiff_sale_id"]
-            isOneToOne: false
-            referencedRelation: "spiff_program"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "spiff_warranties_tenant_id_fkey"
+            foreignKeyName: "tax_jurisdictions_tenant_id_fkey"
             columns: ["tenant_id"]
             isOneToOne: false
             referencedRelation: "tenants"
@@ -1687,6 +4220,47 @@ export type Database = {
         }
         Relationships: []
       }
+      user_notifications: {
+        Row: {
+          body: string | null
+          created_at: string
+          id: string
+          link: string | null
+          read_at: string | null
+          tenant_id: string
+          title: string
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          tenant_id: string
+          title: string
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          tenant_id?: string
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_notifications_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string | null
@@ -1852,12 +4426,14 @@ export type Database = {
           ai_key_points: Json | null
           ai_summary: string | null
           ai_todo_list: Json | null
+          company_id: string | null
           created_at: string
           created_by: string
           ended_at: string | null
           id: string
           meeting_code: string | null
           meeting_type: string
+          person_id: string | null
           recording_tracks: Json | null
           recording_url: string | null
           scheduled_at: string | null
@@ -1872,12 +4448,14 @@ export type Database = {
           ai_key_points?: Json | null
           ai_summary?: string | null
           ai_todo_list?: Json | null
+          company_id?: string | null
           created_at?: string
           created_by: string
           ended_at?: string | null
           id?: string
           meeting_code?: string | null
           meeting_type?: string
+          person_id?: string | null
           recording_tracks?: Json | null
           recording_url?: string | null
           scheduled_at?: string | null
@@ -1892,12 +4470,14 @@ export type Database = {
           ai_key_points?: Json | null
           ai_summary?: string | null
           ai_todo_list?: Json | null
+          company_id?: string | null
           created_at?: string
           created_by?: string
           ended_at?: string | null
           id?: string
           meeting_code?: string | null
           meeting_type?: string
+          person_id?: string | null
           recording_tracks?: Json | null
           recording_url?: string | null
           scheduled_at?: string | null
@@ -1909,6 +4489,27 @@ export type Database = {
           updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "video_meetings_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "video_meetings_person_id_fkey"
+            columns: ["person_id"]
+            isOneToOne: false
+            referencedRelation: "active_people"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "video_meetings_person_id_fkey"
+            columns: ["person_id"]
+            isOneToOne: false
+            referencedRelation: "people"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "video_meetings_tenant_id_fkey"
             columns: ["tenant_id"]
@@ -1918,6 +4519,53 @@ export type Database = {
           },
         ]
       }
+      warehouses: {
+        Row: {
+          address: string | null
+          code: string
+          created_at: string
+          id: string
+          is_active: boolean
+          is_default: boolean
+          kind: string
+          name: string
+          tenant_id: string
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          code: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          is_default?: boolean
+          kind?: string
+          name: string
+          tenant_id: string
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          code?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          is_default?: boolean
+          kind?: string
+          name?: string
+          tenant_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "warehouses_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       active_people: {
@@ -2043,10 +4691,71 @@ export type Database = {
         Args: { p_note_text: string; p_person_id: string }
         Returns: undefined
       }
+      apply_inventory_movement: {
+        Args: {
+          _item_id: string
+          _notes?: string
+          _quantity_change: number
+          _reason: string
+          _reference_id?: string
+          _reference_type?: string
+          _unit_cost?: number
+        }
+        Returns: number
+      }
+      approve_stock_adjustment: {
+        Args: { _adjustment_id: string }
+        Returns: string
+      }
       can_access_tenant: { Args: { _tenant_id: string }; Returns: boolean }
+      cancel_sales_order: {
+        Args: { _sales_order_id: string }
+        Returns: undefined
+      }
+      cancel_stock_transfer: {
+        Args: { _transfer_id: string }
+        Returns: undefined
+      }
       check_account_status: { Args: { p_email: string }; Returns: Json }
+      complete_rma: {
+        Args: { _rma_id: string; _warehouse_id?: string }
+        Returns: string
+      }
+      create_quote_acceptance_link: {
+        Args: {
+          _convert_on_accept?: boolean
+          _expires_at: string
+          _quote_id: string
+        }
+        Returns: {
+          convert_on_accept: boolean
+          created_at: string
+          created_by: string | null
+          expires_at: string
+          id: string
+          quote_id: string
+          revision: number
+          revoked_at: string | null
+          tenant_id: string
+          token: string
+          used_at: string | null
+        }
+      }
+      create_sales_order_from_quote: {
+        Args: { _quote_id: string }
+        Returns: string
+      }
       current_tenant_id: { Args: { _user_id: string }; Returns: string }
       dearmor: { Args: { "": string }; Returns: string }
+      decide_pricing_approval: {
+        Args: {
+          _approve: boolean
+          _document_id: string
+          _document_type: string
+          _note?: string
+        }
+        Returns: string
+      }
       decrypt_email: { Args: { encrypted_email: string }; Returns: string }
       decrypt_token: {
         Args: { encrypted_token: string; user_id: string }
@@ -2059,6 +4768,81 @@ export type Database = {
       }
       gen_random_uuid: { Args: never; Returns: string }
       gen_salt: { Args: { "": string }; Returns: string }
+      get_portal_company: {
+        Args: { _tenant_id: string }
+        Returns: {
+          id: string
+          name: string
+        }[]
+      }
+      get_portal_invoices: {
+        Args: { _tenant_id: string }
+        Returns: {
+          amount_credited: number
+          amount_paid: number
+          created_at: string
+          customer_address: string
+          customer_email: string
+          customer_name: string
+          customer_phone: string
+          discount: number
+          id: string
+          invoice_number: string
+          items: Json
+          paid: boolean
+          paid_at: string
+          payment_status: string
+          ship_to_address: string
+          ship_to_name: string
+          shipping: number
+          subtotal: number
+          tax: number
+          tax_details: Json
+          tax_exempt_certificate: string
+          total: number
+        }[]
+      }
+      get_portal_purchased_units: {
+        Args: { _tenant_id: string }
+        Returns: {
+          description: string
+          invoice_id: string
+          invoice_number: string
+          item_id: string
+          part_number: string
+          serial_number: string
+          sold_date: string
+          warranty_end_date: string
+          warranty_months: number
+        }[]
+      }
+      get_portal_quotes: {
+        Args: { _tenant_id: string }
+        Returns: {
+          created_at: string
+          customer_address: string
+          customer_email: string
+          customer_name: string
+          customer_phone: string
+          customer_responded_at: string
+          customer_response_note: string
+          discount: number
+          expires_at: string
+          id: string
+          items: Json
+          quote_number: string
+          revision: number
+          ship_to_address: string
+          ship_to_name: string
+          shipping: number
+          status: string
+          subtotal: number
+          tax: number
+          tax_details: Json
+          tax_exempt_certificate: string
+          total: number
+        }[]
+      }
       get_qb_connection_status: {
         Args: { p_user_id: string }
         Returns: {
@@ -2076,10 +4860,21 @@ export type Database = {
           token_expires_at: string
         }[]
       }
+      get_tenant_salespeople: {
+        Args: { _tenant_id: string }
+        Returns: {
+          full_name: string
+          user_id: string
+        }[]
+      }
       get_user_role: {
         Args: { _user_id: string }
         Returns: Database["public"]["Enums"]["app_role"]
       }
+      grant_portal_access: {
+        Args: { _person_id: string }
+        Returns: string
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -2095,11 +4890,28 @@ export type Database = {
         }
         Returns: boolean
       }
+      invoice_payment_status: {
+        Args: { _amount_paid: number; _total: number }
+        Returns: string
+      }
       is_global_developer: { Args: { _user_id: string }; Returns: boolean }
       is_tenant_member: {
         Args: { _tenant_id: string; _user_id: string }
         Returns: boolean
       }
+      issue_credit_memo: {
+        Args: {
+          _notes?: string
+          _refund_method?: string
+          _rma_id: string
+          _settlement: string
+        }
+        Returns: string
+      }
+      peek_document_number: {
+        Args: { _document_type: string; _tenant_id: string }
+        Returns: string
+      }
       permanently_delete_person: {
         Args: { person_id: string }
         Returns: undefined
@@ -2108,7 +4920,123 @@ export type Database = {
         Args: { "": string }
         Returns: Record<string, unknown>[]
       }
+      portal_company_id: {
+        Args: { _tenant_id: string }
+        Returns: string
+      }
+      post_expense_journal: { Args: { _expense_id: string }; Returns: string }
+      post_invoice_journal: { Args: { _invoice_id: string }; Returns: string }
+      post_invoice_payment_journal: {
+        Args: { _payment_id: string }
+        Returns: string
+      }
+      post_po_receipt_journal: {
+        Args: { _costs?: number[]; _item_ids: string[]; _po_id: string }
+        Returns: string
+      }
+      pricing_guardrail_violations: {
+        Args: { _discount: number; _items: Json; _tenant_id: string }
+        Returns: Json
+      }
+      quote_revision_snapshot: {
+        Args: { _quote: Database["public"]["Tables"]["quotes"]["Row"] }
+        Returns: Json
+      }
+      reassign_sales_territory: {
+        Args: { _owner_id?: string; _territory_id: string }
+        Returns: {
+          companies_updated: number
+          opportunities_updated: number
+        }[]
+      }
+      receive_purchase_order: {
+        Args: {
+          _close_short?: boolean
+          _lines: Json
+          _po_id: string
+          _warehouse_id?: string
+        }
+        Returns: {
+          po_items: Json
+          po_status: string
+          stocked_units: number
+        }[]
+      }
+      receive_stock_transfer: {
+        Args: { _transfer_id: string }
+        Returns: undefined
+      }
+      record_email_delivery: {
+        Args: { _event: string; _reason?: string; _tracking_token: string }
+        Returns: boolean
+      }
+      record_email_open: {
+        Args: { _tracking_token: string }
+        Returns: undefined
+      }
+      record_sales_order_shipment: {
+        Args: {
+          _carrier?: string
+          _invoice_id: string
+          _lines: Json
+          _sales_order_id: string
+          _tracking_number?: string
+        }
+        Returns: string
+      }
+      release_document_number: {
+        Args: { _reservation_id: string }
+        Returns: undefined
+      }
+      reserve_document_numbers: {
+        Args: { _count: number; _document_type: string; _tenant_id: string }
+        Returns: string[]
+      }
+      respond_to_quote: {
+        Args: { _accept: boolean; _note?: string; _quote_id: string }
+        Returns: string
+      }
       restore_person: { Args: { person_id: string }; Returns: undefined }
+      reverse_document_journal: {
+        Args: { _reference_id: string; _reference_type: string }
+        Returns: number
+      }
+      revoke_portal_access: {
+        Args: { _person_id: string }
+        Returns: undefined
+      }
+      save_product_kit: {
+        Args: {
+          _bundle_price?: number
+          _components: Json
+          _description: string
+          _itemize_on_documents: boolean
+          _kit_id?: string
+          _part_number: string
+          _tenant_id: string
+        }
+        Returns: string
+      }
+      ship_sales_order: {
+        Args: {
+          _carrier?: string
+          _lines: Json
+          _sales_order_id: string
+          _tax?: number
+          _tax_details?: Json
+          _tax_exempt_certificate?: string
+          _tracking_number?: string
+        }
+        Returns: string
+      }
+      ship_stock_transfer: {
+        Args: { _transfer_id: string }
+        Returns: undefined
+      }
+      skip_recurring_invoice_period: {
+        Args: { _period_end: string; _recurring_invoice_id: string }
+        Returns: string
+      }
       store_qb_tokens: {
         Args: {
           p_access_token: string
@@ -2120,6 +5048,10 @@ export type Database = {
         }
         Returns: undefined
       }
+      sync_invoice_stock: {
+        Args: { _invoice_id: string; _release?: boolean }
+        Returns: undefined
+      }
       update_qb_tokens: {
         Args: {
           p_access_token: string
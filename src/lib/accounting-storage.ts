@@ -8,10 +8,12 @@ export interface Account {
   parent_account_id?: string;
   description?: string;
   is_active: boolean;
+  system_key?: string;
   created_at: string;
   updated_at: string;
 }
 
+// amount is signed: debits positive, credits negative. Lines of a journal entry sum to zero.
 export interface AccountTransaction {
   id: string;
   account_id: string;
@@ -20,6 +22,20 @@ export interface AccountTransaction {
   description?: string;
   reference_type?: string;
   reference_id?: string;
+  journal_entry_id?: string;
+  created_at: string;
+}
+
+export type JournalReferenceType = 'invoice' | 'expense' | 'po_receipt' | 'invoice_payment';
+
+export interface JournalEntry {
+  id: string;
+  entry_date: string;
+  description?: string;
+  reference_type: JournalReferenceType;
+  reference_id: string;
+  reversal_of?: string;
+  reversed_by?: string;
   created_at: string;
 }
 
@@ -101,3 +117,19 @@ export const getAccountBalance = async (accountId: string, upToDate?: string): P
 
   return (data || []).reduce((sum, t) => sum + Number(t.amount), 0);
 };
+
+// Entries are posted server-side in the same transaction as the
+// invoice, payment, expense or PO receipt they record.
+export const getJournalEntries = async (referenceType?: JournalReferenceType, referenceId?: string): Promise<JournalEntry[]> => {
+  let query = supabase
+    .from('journal_entries')
+    .select('*')
+    .order('entry_date', { ascending: false });
+
+  if (referenceType) query = query.eq('reference_type', referenceType);
+  if (referenceId) query = query.eq('reference_id', referenceId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as JournalEntry[];
+};
@@ -0,0 +1,207 @@
+// Customer activity timeline. Gathers everything recorded against a company
+// or contact into one list, newest first. Every source is joined on the
+// contact or company id; nothing here matches customer names.
+import { supabase } from "@/integrations/supabase/client";
+import type { Person } from "@/lib/inventory-storage-adapter";
+
+export const ACTIVITY_TYPES = ['note', 'conversation', 'quote', 'invoice', 'expense', 'opportunity', 'event', 'meeting'] as const;
+
+export type ActivityType = typeof ACTIVITY_TYPES[number];
+
+export const getActivityTypeLabel = (type: ActivityType): string => {
+  const labels: Record<ActivityType, string> = {
+    note: 'Notes',
+    conversation: 'Conversations',
+    quote: 'Quotes',
+    invoice: 'Invoices',
+    expense: 'Expenses',
+    opportunity: 'Deals',
+    event: 'Calendar',
+    meeting: 'Video meetings',
+  };
+  return labels[type];
+};
+
+export interface ActivityEntry {
+  /** Unique across types */
+  key: string;
+  type: ActivityType;
+  occurredAt: string;
+  title: string;
+  detail?: string;
+  amount?: number;
+  status?: string;
+  /** Contact the entry concerns, when known */
+  personId?: string;
+  /** Who recorded it */
+  userId?: string;
+}
+
+export interface ActivityTimeline {
+  entries: ActivityEntry[];
+  /** Names of everyone in `entries[].userId` */
+  userNames: Record<string, string>;
+}
+
+export interface ActivityScope {
+  /** Also pulls documents and meetings filed against the company itself */
+  companyId?: string;
+  /** The contact, or the company's contacts */
+  persons: Person[];
+}
+
+/** PostgREST filter for rows linked to the company or any of the contacts */
+const linkFilter = (scope: ActivityScope, personColumn = 'person_id'): string => {
+  const clauses: string[] = [];
+  if (scope.companyId) clauses.push(`company_id.eq.${scope.companyId}`);
+  if (scope.persons.length > 0) clauses.push(`${personColumn}.in.(${scope.persons.map(p => p.id).join(',')})`);
+  return clauses.join(',');
+};
+
+export const getActivityTimeline = async (scope: ActivityScope): Promise<ActivityTimeline> => {
+  const personIds = scope.persons.map(p => p.id);
+  const linked = linkFilter(scope);
+  if (!linked) return { entries: [], userNames: {} };
+
+  const [conversations, quotes, invoices, expenses, opportunities, events, meetings] = await Promise.all([
+    personIds.length > 0
+      ? supabase.from('ai_conversations').select('id, contact_id, user_id, summary, transcript, duration_seconds, created_at').in('contact_id', personIds)
+      : Promise.resolve({ data: [], error: null }),
+    supabase.from('quotes').select('id, quote_number, person_id, created_by, status, total, created_at').or(linked),
+    supabase.from('invoices').select('id, invoice_number, person_id, created_by, status, payment_status, total, created_at').or(linked),
+    personIds.length > 0
+      ? supabase.from('expenses').select('id, customer_id, user_id, category, description, amount, expense_date').in('customer_id', personIds)
+      : Promise.resolve({ data: [], error: null }),
+    supabase.from('opportunities').select('id, name, person_id, owner_id, created_by, stage, expected_value, lost_reason, created_at, closed_at').or(linked),
+    supabase.from('calendar_events').select('id, title, description, event_type, person_id, created_by, start_time').or(linked),
+    supabase.from('video_meetings').select('id, title, ai_summary, status, person_id, created_by, scheduled_at, started_at, created_at').or(linked),
+  ]);
+
+  for (const result of [conversations, quotes, invoices, expenses, opportunities, events, meetings]) {
+    if (result.error) throw result.error;
+  }
+
+  const entries: ActivityEntry[] = [];
+
+  for (const person of scope.persons) {
+    for (const note of person.notes || []) {
+      if (!note.timestamp) continue;
+      entries.push({
+        key: `note-${person.id}-${note.id || note.timestamp}`,
+        type: 'note',
+        occurredAt: note.timestamp,
+        title: 'Note',
+        detail: note.text,
+        personId: person.id,
+      });
+    }
+  }
+
+  for (const c of conversations.data || []) {
+    entries.push({
+      key: `conversation-${c.id}`,
+      type: 'conversation',
+      occurredAt: c.created_at,
+      title: c.duration_seconds ? `Conversation (${Math.round(c.duration_seconds / 60)} min)` : 'Conversation',
+      detail: c.summary || c.transcript.slice(0, 200),
+      personId: c.contact_id || undefined,
+      userId: c.user_id || undefined,
+    });
+  }
+
+  for (const q of quotes.data || []) {
+    entries.push({
+      key: `quote-${q.id}`,
+      type: 'quote',
+      occurredAt: q.created_at || '',
+      title: `Quote ${q.quote_number}`,
+      amount: Number(q.total),
+      status: q.status,
+      personId: q.person_id || undefined,
+      userId: q.created_by || undefined,
+    });
+  }
+
+  for (const i of invoices.data || []) {
+    entries.push({
+      key: `invoice-${i.id}`,
+      type: 'invoice',
+      occurredAt: i.created_at || '',
+      title: `Invoice ${i.invoice_number}`,
+      amount: Number(i.total),
+      status: i.status === 'finalized' ? i.payment_status : i.status,
+      personId: i.person_id || undefined,
+      userId: i.created_by || undefined,
+    });
+  }
+
+  for (const e of expenses.data || []) {
+    entries.push({
+      key: `expense-${e.id}`,
+      type: 'expense',
+      occurredAt: e.expense_date,
+      title: `Expense: ${e.category}`,
+      detail: e.description || undefined,
+      amount: Number(e.amount),
+      personId: e.customer_id || undefined,
+      userId: e.user_id || undefined,
+    });
+  }
+
+  for (const o of opportunities.data || []) {
+    entries.push({
+      key: `opportunity-${o.id}`,
+      type: 'opportunity',
+      occurredAt: o.closed_at || o.created_at,
+      title: o.closed_at ? `Deal ${o.stage}: ${o.name}` : `Deal opened: ${o.name}`,
+      detail: o.lost_reason || undefined,
+      amount: Number(o.expected_value),
+      status: o.stage,
+      personId: o.person_id || undefined,
+      userId: o.owner_id || o.created_by || undefined,
+    });
+  }
+
+  for (const ev of events.data || []) {
+    entries.push({
+      key: `event-${ev.id}`,
+      type: 'event',
+      occurredAt: ev.start_time,
+      title: ev.title,
+      detail: ev.description || undefined,
+      status: ev.event_type.replace(/_/g, ' '),
+      personId: ev.person_id || undefined,
+      userId: ev.created_by,
+    });
+  }
+
+  for (const m of meetings.data || []) {
+    entries.push({
+      key: `meeting-${m.id}`,
+      type: 'meeting',
+      occurredAt: m.started_at || m.scheduled_at || m.created_at,
+      title: m.title,
+      detail: m.ai_summary || undefined,
+      status: m.status,
+      personId: m.person_id || undefined,
+      userId: m.created_by,
+    });
+  }
+
+  entries.sort((a, b) => new Date(b.occurredAt).getTime() - new Date(a.occurredAt).getTime());
+
+  const userIds = [...new Set(entries.flatMap(e => (e.userId ? [e.userId] : [])))];
+  const userNames: Record<string, string> = {};
+  if (userIds.length > 0) {
+    const { data: profiles, error } = await supabase
+      .from('profiles')
+      .select('user_id, full_name')
+      .in('user_id', userIds);
+    if (error) throw error;
+    for (const profile of profiles || []) {
+      userNames[profile.user_id] = profile.full_name || 'Unknown';
+    }
+  }
+
+  return { entries, userNames };
+};
@@ -0,0 +1,234 @@
+// Accounts receivable aging and customer statements.
+// Invoices carry no due date, so age is measured from the invoice date.
+import jsPDF from "jspdf";
+import type { Invoice, Person, Company } from "@/lib/inventory-storage";
+
+export type AgingBucket = 'current' | 'days1to30' | 'days31to60' | 'days61to90' | 'days90plus';
+
+export const AGING_BUCKETS: { key: AgingBucket; label: string }[] = [
+  { key: 'current', label: 'Current' },
+  { key: 'days1to30', label: '1-30 Days' },
+  { key: 'days31to60', label: '31-60 Days' },
+  { key: 'days61to90', label: '61-90 Days' },
+  { key: 'days90plus', label: '90+ Days' },
+];
+
+export interface AgingInvoice {
+  invoice: Invoice;
+  daysOutstanding: number;
+  bucket: AgingBucket;
+  balance: number;
+}
+
+export interface CustomerAging {
+  customer: string;
+  companyId?: string;
+  invoices: AgingInvoice[];
+  buckets: Record<AgingBucket, number>;
+  total: number;
+}
+
+const emptyBuckets = (): Record<AgingBucket, number> => ({
+  current: 0,
+  days1to30: 0,
+  days31to60: 0,
+  days61to90: 0,
+  days90plus: 0,
+});
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export const getDaysOutstanding = (invoiceDate: string, asOf: Date): number => {
+  const start = new Date(invoiceDate);
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(asOf);
+  end.setHours(0, 0, 0, 0);
+  return Math.max(Math.floor((end.getTime() - start.getTime()) / DAY_MS), 0);
+};
+
+export const getAgingBucket = (daysOutstanding: number): AgingBucket => {
+  if (daysOutstanding <= 0) return 'current';
+  if (daysOutstanding <= 30) return 'days1to30';
+  if (daysOutstanding <= 60) return 'days31to60';
+  if (daysOutstanding <= 90) return 'days61to90';
+  return 'days90plus';
+};
+
+/**
+ * Groups open invoice balances by customer. Invoices are matched to a company
+ * through the contact whose name matches the invoice's customer name; anything
+ * unmatched is grouped under the customer name as entered.
+ */
+export const buildAgingReport = (
+  invoices: Invoice[],
+  people: Person[],
+  companies: Company[],
+  asOf: Date = new Date()
+): CustomerAging[] => {
+  const companyById = new Map(companies.map(c => [c.id, c]));
+  const companyByPersonName = new Map<string, Company>();
+  people.forEach(p => {
+    const company = p.companyId ? companyById.get(p.companyId) : undefined;
+    if (company) companyByPersonName.set(p.name.trim().toLowerCase(), company);
+  });
+
+  const groups = new Map<string, CustomerAging>();
+
+  invoices
+    .filter(inv => inv.status !== 'draft')
+    .forEach(inv => {
+      const balance = inv.balanceDue ?? inv.total - (inv.amountPaid || 0);
+      if (balance <= 0.005) return;
+
+      const customerName = inv.customerName?.trim() || 'Unknown Customer';
+      const company = companyByPersonName.get(customerName.toLowerCase());
+      const groupName = company?.name || customerName;
+      const key = groupName.toLowerCase();
+
+      let group = groups.get(key);
+      if (!group) {
+        group = { customer: groupName, companyId: company?.id, invoices: [], buckets: emptyBuckets(), total: 0 };
+        groups.set(key, group);
+      }
+
+      const daysOutstanding = getDaysOutstanding(inv.createdAt, asOf);
+      const bucket = getAgingBucket(daysOutstanding);
+      group.invoices.push({ invoice: inv, daysOutstanding, bucket, balance });
+      group.buckets[bucket] += balance;
+      group.total += balance;
+    });
+
+  return Array.from(groups.values())
+    .map(g => ({
+      ...g,
+      invoices: g.invoices.sort((a, b) => new Date(a.invoice.createdAt).getTime() - new Date(b.invoice.createdAt).getTime()),
+    }))
+    .sort((a, b) => b.total - a.total);
+};
+
+export const getAgingTotals = (report: CustomerAging[]): Record<AgingBucket, number> & { total: number } => {
+  const totals = { ...emptyBuckets(), total: 0 };
+  report.forEach(row => {
+    AGING_BUCKETS.forEach(({ key }) => { totals[key] += row.buckets[key]; });
+    totals.total += row.total;
+  });
+  return totals;
+};
+
+// Flattened rows for createAndDownloadExcel
+export const agingReportToRows = (report: CustomerAging[]): Record<string, unknown>[] => {
+  const rows: Record<string, unknown>[] = report.map(row => ({
+    'Customer': row.customer,
+    'Open Invoices': row.invoices.length,
+    ...Object.fromEntries(AGING_BUCKETS.map(({ key, label }) => [label, Number(row.buckets[key].toFixed(2))])),
+    'Total Due': Number(row.total.toFixed(2)),
+  }));
+
+  const totals = getAgingTotals(report);
+  rows.push({
+    'Customer': 'TOTAL',
+    'Open Invoices': report.reduce((sum, r) => sum + r.invoices.length, 0),
+    ...Object.fromEntries(AGING_BUCKETS.map(({ key, label }) => [label, Number(totals[key].toFixed(2))])),
+    'Total Due': Number(totals.total.toFixed(2)),
+  });
+  return rows;
+};
+
+export const buildCustomerStatementPdf = (aging: CustomerAging, asOf: Date = new Date()): jsPDF => {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+
+  // Header - Company Name
+  doc.setFontSize(20);
+  doc.setFont("helvetica", "bold");
+  doc.text("TRUE ATTACHMENTS", pageWidth / 2, 20, { align: "center" });
+
+  doc.setFontSize(10);
+  doc.setFont("helvetica", "normal");
+  doc.text("3045 E Chestnut Expy Ste K", pageWidth / 2, 28, { align: "center" });
+  doc.text("Springfield, MO 65802", pageWidth / 2, 33, { align: "center" });
+  doc.text("Info@TrueAttachments.com", pageWidth / 2, 38, { align: "center" });
+  doc.text("417-306-9612", pageWidth / 2, 43, { align: "center" });
+
+  doc.setFontSize(14);
+  doc.setFont("helvetica", "bold");
+  doc.text("STATEMENT", 20, 58);
+  doc.setFontSize(10);
+  doc.text("STATEMENT DATE", 140, 58);
+  doc.setFont("helvetica", "normal");
+  doc.text(asOf.toLocaleDateString(), 140, 64);
+
+  doc.setFont("helvetica", "bold");
+  doc.text("BILL TO", 20, 68);
+  doc.setFont("helvetica", "normal");
+  doc.text(aging.customer, 20, 74);
+
+  // Open invoice table
+  let yPos = 88;
+  doc.setFillColor(240, 240, 240);
+  doc.rect(20, yPos, 170, 8, 'F');
+  doc.setFont("helvetica", "bold");
+  doc.text("Date", 22, yPos + 5);
+  doc.text("Invoice", 48, yPos + 5);
+  doc.text("Days", 82, yPos + 5);
+  doc.text("Amount", 118, yPos + 5, { align: "right" });
+  doc.text("Paid", 145, yPos + 5, { align: "right" });
+  doc.text("Balance", 188, yPos + 5, { align: "right" });
+  yPos += 13;
+  doc.setFont("helvetica", "normal");
+
+  let running = 0;
+  aging.invoices.forEach(({ invoice, daysOutstanding, balance }) => {
+    if (yPos > 260) {
+      doc.addPage();
+      yPos = 20;
+    }
+    running += balance;
+    doc.text(new Date(invoice.createdAt).toLocaleDateString(), 22, yPos);
+    doc.text(invoice.invoiceNumber, 48, yPos);
+    doc.text(String(daysOutstanding), 82, yPos);
+    doc.text(`$${invoice.total.toFixed(2)}`, 118, yPos, { align: "right" });
+    doc.text(`$${(invoice.amountPaid || 0).toFixed(2)}`, 145, yPos, { align: "right" });
+    doc.text(`$${running.toFixed(2)}`, 188, yPos, { align: "right" });
+    yPos += 6;
+  });
+
+  // Aging summary
+  if (yPos > 240) {
+    doc.addPage();
+    yPos = 20;
+  }
+  yPos += 8;
+  const colWidth = 170 / (AGING_BUCKETS.length + 1);
+  doc.setFillColor(240, 240, 240);
+  doc.rect(20, yPos, 170, 8, 'F');
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(9);
+  AGING_BUCKETS.forEach(({ label }, i) => {
+    doc.text(label, 20 + colWidth * i + colWidth / 2, yPos + 5, { align: "center" });
+  });
+  doc.text("Total Due", 20 + colWidth * AGING_BUCKETS.length + colWidth / 2, yPos + 5, { align: "center" });
+  yPos += 13;
+  doc.setFont("helvetica", "normal");
+  AGING_BUCKETS.forEach(({ key }, i) => {
+    doc.text(`$${aging.buckets[key].toFixed(2)}`, 20 + colWidth * i + colWidth / 2, yPos, { align: "center" });
+  });
+  doc.setFont("helvetica", "bold");
+  doc.text(`$${aging.total.toFixed(2)}`, 20 + colWidth * AGING_BUCKETS.length + colWidth / 2, yPos, { align: "center" });
+
+  yPos += 14;
+  doc.setFontSize(12);
+  doc.text("AMOUNT DUE", 140, yPos);
+  doc.text(`$${aging.total.toFixed(2)}`, 188, yPos, { align: "right" });
+
+  return doc;
+};
+
+export const getStatementNumber = (aging: CustomerAging, asOf: Date = new Date()) => {
+  const safeName = aging.customer.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '');
+  return `Statement-${safeName}-${asOf.toISOString().split('T')[0]}`;
+};
+
+export const downloadCustomerStatement = (aging: CustomerAging, asOf: Date = new Date()) => {
+  buildCustomerStatementPdf(aging, asOf).save(`${getStatementNumber(aging, asOf)}.pdf`);
+};
@@ -0,0 +1,477 @@
+// Contact files from phones and mail clients: vCard 3.0/4.0 (and the 2.1
+// files older phones still write) and CSV with a column mapping, in both
+// directions. Parsing yields the same ContactData the bulk import takes.
+import type { ContactMethod } from "@/lib/inventory-storage";
+import type { ContactData } from "@/utils/importContacts";
+
+export const CONTACT_FIELDS = [
+  'name',
+  'firstName',
+  'lastName',
+  'email',
+  'phone',
+  'address',
+  'companyName',
+  'jobTitle',
+  'notes',
+  'excavatorLines',
+] as const;
+
+export type ContactField = typeof CONTACT_FIELDS[number];
+
+/** CSV header → the field its values go to; unmapped headers are skipped */
+export type ColumnMapping = Record<string, ContactField | 'ignore'>;
+
+export const getContactFieldLabel = (field: ContactField | 'ignore'): string => {
+  const labels: Record<ContactField | 'ignore', string> = {
+    name: 'Full name',
+    firstName: 'First name',
+    lastName: 'Last name',
+    email: 'Email',
+    phone: 'Phone',
+    address: 'Address',
+    companyName: 'Company',
+    jobTitle: 'Job title',
+    notes: 'Notes',
+    excavatorLines: 'Excavator lines',
+    ignore: "Don't import",
+  };
+  return labels[field];
+};
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+/** Splits CSV text, honouring quotes; the delimiter (, ; or tab) is taken from the header line */
+export const parseCsv = (text: string): CsvTable => {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0] || '';
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter(r => r.some(cell => cell.trim()));
+  const [headers = [], ...rows] = nonEmpty;
+  return { headers: headers.map(h => h.trim()), rows };
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/** Best guess for headers from Outlook, Google, iCloud and our own exports */
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  for (const header of headers) {
+    const key = normalizeHeader(header);
+    let field: ContactField | 'ignore' = 'ignore';
+    // Outlook's "E-mail Display Name" and "E-mail Type" aren't addresses
+    if (key.includes('email')) field = /name|type/.test(key) ? 'ignore' : 'email';
+    else if (['name', 'fullname', 'displayname', 'contactname', 'personname'].includes(key)) field = 'name';
+    else if (['firstname', 'givenname', 'first'].includes(key)) field = 'firstName';
+    else if (['lastname', 'surname', 'familyname', 'last'].includes(key)) field = 'lastName';
+    else if (/phone|mobile|cell|fax|^tel/.test(key)) field = 'phone';
+    else if (key.includes('excavator')) field = 'excavatorLines';
+    else if (/address|street|city|state|postalcode|zip|country/.test(key)) field = 'address';
+    else if (key.includes('company') || key.includes('organi')) field = 'companyName';
+    else if (key.includes('jobtitle') || key === 'title' || key === 'position' || key === 'role') field = 'jobTitle';
+    else if (key === 'notes' || key === 'note' || key === 'comments') field = 'notes';
+    mapping[header] = field;
+  }
+  return mapping;
+};
+
+// "Mobile Phone" → "Mobile"; "E-mail Address" → no label
+const labelFromHeader = (header: string): string | undefined =>
+  header.replace(/e-?mails?|phones?|numbers?|address(es)?|\d+/gi, '').replace(/[\s_-]+/g, ' ').trim() || undefined;
+
+const addMethod = (list: ContactMethod[], value: string, label?: string) => {
+  if (value && !list.some(m => m.value.toLowerCase() === value.toLowerCase())) {
+    list.push(label ? { label, value } : { value });
+  }
+};
+
+/** One contact per row. Several columns may feed one field, e.g. work and mobile phone */
+export const applyColumnMapping = (table: CsvTable, mapping: ColumnMapping): ContactData[] =>
+  table.rows.map(row => {
+    const values: Partial<Record<ContactField, string[]>> = {};
+    const phones: ContactMethod[] = [];
+    const emails: ContactMethod[] = [];
+
+    table.headers.forEach((header, index) => {
+      const field = mapping[header];
+      const value = (row[index] || '').trim();
+      if (!field || field === 'ignore' || !value) return;
+
+      if (field === 'phone' || field === 'email') {
+        const label = labelFromHeader(header);
+        for (const part of value.split(field === 'email' ? /[;,]/ : /;/)) {
+          addMethod(field === 'phone' ? phones : emails, part.trim(), label);
+        }
+        return;
+      }
+      values[field] = [...(values[field] || []), value];
+    });
+
+    const name = values.name?.join(' ') ||
+      [values.firstName?.join(' '), values.lastName?.join(' ')].filter(Boolean).join(' ');
+    return {
+      name,
+      email: emails[0]?.value,
+      phone: phones[0]?.value,
+      address: values.address?.join(', '),
+      companyName: values.companyName?.[0],
+      jobTitle: values.jobTitle?.[0],
+      notes: values.notes?.join('\n'),
+      excavatorLines: values.excavatorLines
+        ?.flatMap(v => v.split(','))
+        .map(s => s.trim())
+        .filter(Boolean),
+      phoneNumbers: phones,
+      emailAddresses: emails,
+    };
+  });
+
+const escapeCsv = (value: string) => (/[",;\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const toCsv = (headers: string[], rows: string[][]): string =>
+  [headers, ...rows].map(row => row.map(cell => escapeCsv(cell || '')).join(',')).join('\r\n');
+
+// ---------------------------------------------------------------------------
+// vCard
+// ---------------------------------------------------------------------------
+
+interface VCardProperty {
+  name: string;
+  params: Record<string, string[]>;
+  value: string;
+}
+
+const unescapeVCard = (value: string) =>
+  value.replace(/\\([nN,;\\])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+const decodeQuotedPrintable = (value: string) => {
+  try {
+    return decodeURIComponent(value.replace(/%/g, '%25').replace(/=([0-9A-F]{2})/gi, '%$1'));
+  } catch {
+    return value;
+  }
+};
+
+// Structured values (N, ADR, ORG) split on semicolons that aren't escaped
+const splitComponents = (value: string) => value.split(/(?<!\\);/).map(unescapeVCard);
+
+const parseProperty = (line: string): VCardProperty | null => {
+  // The value starts at the first colon outside a quoted parameter
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [rawName, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string[]> = {};
+  for (const param of rawParams) {
+    const [key, val] = param.includes('=') ? param.split(/=(.*)/s) : ['TYPE', param];
+    const values = val.replace(/"/g, '').split(',').map(v => v.trim().toLowerCase()).filter(Boolean);
+    params[key.toUpperCase()] = [...(params[key.toUpperCase()] || []), ...values];
+  }
+
+  let value = line.slice(colon + 1);
+  if (params.ENCODING?.includes('quoted-printable')) value = decodeQuotedPrintable(value);
+
+  // Drop the "item1." group prefix Apple uses
+  return { name: rawName.replace(/^[^.]*\./, '').toUpperCase(), params, value };
+};
+
+const TYPE_LABELS: Record<string, string> = {
+  cell: 'Mobile',
+  mobile: 'Mobile',
+  work: 'Work',
+  home: 'Home',
+  fax: 'Fax',
+  main: 'Main',
+  other: 'Other',
+  iphone: 'iPhone',
+};
+
+// TYPE=work,voice;PREF=1 → "Work", preferred
+const describeMethod = (property: VCardProperty) => {
+  const types = property.params.TYPE || [];
+  const label = types.map(t => TYPE_LABELS[t]).find(Boolean);
+  const preferred = types.includes('pref') || !!property.params.PREF;
+  return { label, preferred };
+};
+
+const parsePhoto = (property: VCardProperty): ContactData['photo'] => {
+  // vCard 4.0: data:image/jpeg;base64,...
+  const dataUri = property.value.match(/^data:(image\/[a-z+]+);base64,(.*)$/is);
+  if (dataUri) return { mimeType: dataUri[1].toLowerCase(), base64: dataUri[2].replace(/\s/g, '') };
+
+  // vCard 2.1/3.0: ENCODING=b (or BASE64);TYPE=JPEG — linked photos aren't fetched
+  const encoding = property.params.ENCODING || [];
+  if (encoding.includes('b') || encoding.includes('base64')) {
+    const type = (property.params.TYPE || []).find(t => t !== 'pref') || 'jpeg';
+    return { mimeType: type.includes('/') ? type : `image/${type === 'jpg' ? 'jpeg' : type}`, base64: property.value.replace(/\s/g, '') };
+  }
+  return undefined;
+};
+
+const parseVCard = (properties: VCardProperty[]): ContactData => {
+  const contact: ContactData = { name: '', phoneNumbers: [], emailAddresses: [] };
+  const phones: { method: ContactMethod; preferred: boolean }[] = [];
+  const emails: { method: ContactMethod; preferred: boolean }[] = [];
+  let structuredName = '';
+  const notes: string[] = [];
+
+  for (const property of properties) {
+    switch (property.name) {
+      case 'FN':
+        contact.name = unescapeVCard(property.value).trim();
+        break;
+      case 'N': {
+        // family;given;additional;prefix;suffix
+        const [family, given, additional] = splitComponents(property.value);
+        structuredName = [given, additional, family].filter(Boolean).join(' ').trim();
+        break;
+      }
+      case 'TEL':
+      case 'EMAIL': {
+        const value = unescapeVCard(property.value).replace(/^(tel|mailto):/i, '').trim();
+        if (!value) break;
+        const { label, preferred } = describeMethod(property);
+        (property.name === 'TEL' ? phones : emails).push({ method: label ? { label, value } : { value }, preferred });
+        break;
+      }
+      case 'ADR':
+        if (!contact.address) {
+          // pobox;extended;street;locality;region;code;country
+          const [, , street, locality, region, code, country] = splitComponents(property.value);
+          const cityLine = [locality, [region, code].filter(Boolean).join(' ')].filter(Boolean).join(', ');
+          contact.address = [street?.replace(/\n/g, ', '), cityLine, country].filter(Boolean).join(', ') || undefined;
+        }
+        break;
+      case 'ORG':
+        contact.companyName = splitComponents(property.value)[0]?.trim() || undefined;
+        break;
+      case 'TITLE':
+        contact.jobTitle = unescapeVCard(property.value).trim() || undefined;
+        break;
+      case 'ROLE':
+        if (!contact.jobTitle) contact.jobTitle = unescapeVCard(property.value).trim() || undefined;
+        break;
+      case 'NOTE':
+        notes.push(unescapeVCard(property.value).trim());
+        break;
+      case 'PHOTO':
+        contact.photo = parsePhoto(property);
+        break;
+    }
+  }
+
+  // Preferred entries first, so they become the primary phone and email
+  const ordered = (list: typeof phones) =>
+    [...list.filter(e => e.preferred), ...list.filter(e => !e.preferred)].map(e => e.method);
+  for (const method of ordered(phones)) addMethod(contact.phoneNumbers as ContactMethod[], method.value, method.label);
+  for (const method of ordered(emails)) addMethod(contact.emailAddresses as ContactMethod[], method.value, method.label);
+
+  contact.name = contact.name || structuredName || contact.companyName || '';
+  contact.phone = contact.phoneNumbers?.[0]?.value;
+  contact.email = contact.emailAddresses?.[0]?.value;
+  contact.notes = notes.filter(Boolean).join('\n') || undefined;
+  return contact;
+};
+
+/** Every card in a .vcf file */
+export const parseVCards = (text: string): ContactData[] => {
+  // Continuation lines start with a space or tab
+  const lines = text
+    .replace(/^\uFEFF/, '')
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r?\n/);
+
+  const contacts: ContactData[] = [];
+  let current: VCardProperty[] | null = null;
+  for (let i = 0; i < lines.length; i++) {
+    let line = lines[i];
+    // vCard 2.1 quoted-printable values continue while the line ends in a soft break "="
+    while (/ENCODING=QUOTED-PRINTABLE/i.test(line) && line.endsWith('=') && i + 1 < lines.length) {
+      line = line.slice(0, -1) + lines[++i];
+    }
+    const upper = line.trim().toUpperCase();
+    if (upper === 'BEGIN:VCARD') {
+      current = [];
+    } else if (upper === 'END:VCARD') {
+      if (current) contacts.push(parseVCard(current));
+      current = null;
+    } else if (current && line.trim()) {
+      const property = parseProperty(line);
+      if (property) current.push(property);
+    }
+  }
+  return contacts;
+};
+
+/** A contact or company as written to a vCard or CSV export */
+export interface ExportContact {
+  kind: 'person' | 'company';
+  name: string;
+  companyName?: string;
+  jobTitle?: string;
+  email?: string;
+  phone?: string;
+  address?: string;
+  phoneNumbers?: ContactMethod[];
+  emailAddresses?: ContactMethod[];
+  notes?: string[];
+  photo?: ContactData['photo'];
+}
+
+const escapeVCard = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/\r?\n/g, '\\n').replace(/,/g, '\\,').replace(/;/g, '\\;');
+
+// Lines longer than 75 characters are folded onto continuation lines
+const foldLine = (line: string) => {
+  if (line.length <= 75) return line;
+  const parts = [line.slice(0, 75)];
+  for (let i = 75; i < line.length; i += 74) parts.push(' ' + line.slice(i, i + 74));
+  return parts.join('\r\n');
+};
+
+const toVCardType = (label?: string) => {
+  const key = (label || '').toLowerCase();
+  if (/mobile|cell|iphone/.test(key)) return 'CELL';
+  if (/work|business|office/.test(key)) return 'WORK';
+  if (key.includes('home')) return 'HOME';
+  if (key.includes('fax')) return 'FAX';
+  return undefined;
+};
+
+// The primary value first, then the rest without repeats
+const allMethods = (primary: string | undefined, methods: ContactMethod[] = []): ContactMethod[] => {
+  const list: ContactMethod[] = [];
+  const primaryMethod = methods.find(m => m.value === primary);
+  if (primary) addMethod(list, primary, primaryMethod?.label);
+  for (const method of methods) addMethod(list, method.value, method.label);
+  return list;
+};
+
+export const toVCards = (contacts: ExportContact[]): string =>
+  contacts.map(contact => {
+    const lines = ['BEGIN:VCARD', 'VERSION:3.0', `FN:${escapeVCard(contact.name)}`];
+    if (contact.kind === 'company') {
+      lines.push(`N:${escapeVCard(contact.name)};;;;`, `ORG:${escapeVCard(contact.name)}`, 'X-ABShowAs:COMPANY');
+    } else {
+      const parts = contact.name.trim().split(/\s+/);
+      const family = parts.length > 1 ? parts.pop() || '' : '';
+      lines.push(`N:${escapeVCard(family)};${escapeVCard(parts.join(' '))};;;`);
+      if (contact.companyName) lines.push(`ORG:${escapeVCard(contact.companyName)}`);
+      if (contact.jobTitle) lines.push(`TITLE:${escapeVCard(contact.jobTitle)}`);
+    }
+    allMethods(contact.email, contact.emailAddresses).forEach((method, index) => {
+      const types = ['INTERNET', toVCardType(method.label), index === 0 ? 'PREF' : undefined].filter(Boolean);
+      lines.push(`EMAIL;TYPE=${types.join(',')}:${escapeVCard(method.value)}`);
+    });
+    allMethods(contact.phone, contact.phoneNumbers).forEach((method, index) => {
+      const types = [toVCardType(method.label) || 'VOICE', index === 0 ? 'PREF' : undefined].filter(Boolean);
+      lines.push(`TEL;TYPE=${types.join(',')}:${escapeVCard(method.value)}`);
+    });
+    if (contact.address) lines.push(`ADR;TYPE=WORK:;;${escapeVCard(contact.address)};;;;`);
+    if (contact.notes?.length) lines.push(`NOTE:${escapeVCard(contact.notes.join('\n'))}`);
+    if (contact.photo) {
+      const type = contact.photo.mimeType.replace('image/', '').toUpperCase();
+      lines.push(`PHOTO;ENCODING=b;TYPE=${type}:${contact.photo.base64}`);
+    }
+    lines.push('END:VCARD');
+    return lines.map(foldLine).join('\r\n');
+  }).join('\r\n') + '\r\n';
+
+/** Headers the import's column guess maps back to the same fields */
+export const CONTACT_CSV_HEADERS = [
+  'Type',
+  'Name',
+  'Company',
+  'Job Title',
+  'Email',
+  'Phone',
+  'Other Emails',
+  'Other Phones',
+  'Address',
+  'Notes',
+];
+
+export const toContactsCsv = (contacts: ExportContact[]): string =>
+  toCsv(CONTACT_CSV_HEADERS, contacts.map(contact => {
+    const emails = allMethods(contact.email, contact.emailAddresses).map(m => m.value);
+    const phones = allMethods(contact.phone, contact.phoneNumbers).map(m => m.value);
+    return [
+      contact.kind === 'company' ? 'Company' : 'Contact',
+      contact.name,
+      contact.kind === 'company' ? contact.name : contact.companyName || '',
+      contact.jobTitle || '',
+      emails[0] || '',
+      phones[0] || '',
+      emails.slice(1).join('; '),
+      phones.slice(1).join('; '),
+      contact.address || '',
+      (contact.notes || []).join('\n'),
+    ];
+  }));
+
+export const downloadTextFile = (content: string, filename: string, mimeType: string) => {
+  const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,49 @@
+// Saved CSV column mappings for the contact import, shared by the tenant so
+// a mapping set up once for, say, an Outlook export applies to the next one.
+import { supabase } from "@/integrations/supabase/client";
+import { requireTenantId } from "@/lib/tenant-context";
+import type { ColumnMapping } from "@/lib/contact-formats";
+
+export interface ContactImportMapping {
+  id: string;
+  name: string;
+  mapping: ColumnMapping;
+  updatedAt: string;
+}
+
+export const getContactImportMappings = async (): Promise<ContactImportMapping[]> => {
+  const { data, error } = await supabase
+    .from('contact_import_mappings')
+    .select('id, name, mapping, updated_at')
+    .order('name');
+  if (error) throw error;
+  return (data || []).map(row => ({
+    id: row.id,
+    name: row.name,
+    mapping: row.mapping as ColumnMapping,
+    updatedAt: row.updated_at,
+  }));
+};
+
+/** Saving under an existing name replaces that mapping */
+export const saveContactImportMapping = async (name: string, mapping: ColumnMapping): Promise<ContactImportMapping> => {
+  const { data, error } = await supabase
+    .from('contact_import_mappings')
+    .upsert({ tenant_id: requireTenantId(), name, mapping }, { onConflict: 'tenant_id,name' })
+    .select('id, name, mapping, updated_at')
+    .single();
+  if (error) throw error;
+  return { id: data.id, name: data.name, mapping: data.mapping as ColumnMapping, updatedAt: data.updated_at };
+};
+
+export const deleteContactImportMapping = async (id: string): Promise<void> => {
+  const { error } = await supabase.from('contact_import_mappings').delete().eq('id', id);
+  if (error) throw error;
+};
+
+/** The saved mapping that covers every header of the file, if any */
+export const findMatchingMapping = (
+  mappings: ContactImportMapping[],
+  headers: string[]
+): ContactImportMapping | undefined =>
+  mappings.find(m => headers.length > 0 && headers.every(header => header in m.mapping));
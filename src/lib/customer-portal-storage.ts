@@ -0,0 +1,281 @@
+// Customer portal data. Portal users read their company, quotes and invoices
+// through SECURITY DEFINER functions that return customer-facing columns only,
+// limited to documents staff shared with the company, so nothing here filters
+// by customer on the client.
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import type { DocLineItem, Invoice, Quote } from "@/lib/inventory-storage";
+import type { InvoicePaymentStatus } from "@/lib/invoice-payment-storage";
+import type { TaxDetailLine } from "@/lib/sales-tax";
+import type { DocLineItem as DocLineItemRow } from "@/lib/supabase-storage";
+import { requireTenantId } from "@/lib/tenant-context";
+
+export type ServiceRequestStatus = 'open' | 'in_progress' | 'resolved' | 'closed';
+
+export interface ServiceRequest {
+  id: string;
+  companyId: string;
+  serialNumber?: string;
+  subject: string;
+  description?: string;
+  status: ServiceRequestStatus;
+  resolution?: string;
+  requestedBy?: string;
+  requestedByName?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PurchasedUnit {
+  itemId: string;
+  partNumber: string;
+  serialNumber: string;
+  description: string;
+  invoiceId: string;
+  invoiceNumber: string;
+  soldDate: string;
+  warrantyMonths?: number;
+  warrantyEndDate?: string;
+}
+
+export interface PortalCompany {
+  id: string;
+  name: string;
+}
+
+type ServiceRequestRow = {
+  id: string;
+  company_id: string;
+  serial_number: string | null;
+  subject: string;
+  description: string | null;
+  status: string;
+  resolution: string | null;
+  requested_by: string | null;
+  requested_by_name: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+const SERVICE_REQUEST_STATUS_LABELS: Record<ServiceRequestStatus, string> = {
+  open: 'Open',
+  in_progress: 'In Progress',
+  resolved: 'Resolved',
+  closed: 'Closed',
+};
+
+// Line items are stored in the database shape (id, sellPrice)
+const convertLineItemsFromDB = (items: Json): DocLineItem[] =>
+  ((items as unknown as DocLineItemRow[] | null) || []).map((item) => ({
+    itemId: item.id,
+    partNumber: item.partNumber,
+    serialNumber: item.serialNumber,
+    description: item.description,
+    price: item.sellPrice,
+    quantity: item.quantity || 1,
+    taxable: item.taxable,
+    shipFrom: item.shipFrom,
+    kit: item.kit,
+  }));
+
+export const getServiceRequestStatusLabel = (status: ServiceRequestStatus): string =>
+  SERVICE_REQUEST_STATUS_LABELS[status] || status;
+
+export const SERVICE_REQUEST_STATUSES = Object.keys(SERVICE_REQUEST_STATUS_LABELS) as ServiceRequestStatus[];
+
+const convertServiceRequestFromDB = (row: ServiceRequestRow): ServiceRequest => ({
+  id: row.id,
+  companyId: row.company_id,
+  serialNumber: row.serial_number || undefined,
+  subject: row.subject,
+  description: row.description || undefined,
+  status: row.status as ServiceRequestStatus,
+  resolution: row.resolution || undefined,
+  requestedBy: row.requested_by || undefined,
+  requestedByName: row.requested_by_name || undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+/** The portal user's company, or null when their access was revoked */
+export const getPortalCompany = async (): Promise<PortalCompany | null> => {
+  const { data, error } = await supabase.rpc('get_portal_company', {
+    _tenant_id: requireTenantId(),
+  });
+
+  if (error) throw error;
+  const row = data?.[0];
+  return row ? { id: row.id, name: row.name } : null;
+};
+
+/** Non-draft quotes shared with the portal user's company */
+export const getPortalQuotes = async (): Promise<Quote[]> => {
+  const { data, error } = await supabase.rpc('get_portal_quotes', {
+    _tenant_id: requireTenantId(),
+  });
+
+  if (error) throw error;
+  return (data || []).map((row) => ({
+    id: row.id,
+    quoteNumber: row.quote_number,
+    revision: row.revision,
+    customerName: row.customer_name,
+    customerEmail: row.customer_email || undefined,
+    customerPhone: row.customer_phone || undefined,
+    customerAddress: row.customer_address || undefined,
+    shipToName: row.ship_to_name || undefined,
+    shipToAddress: row.ship_to_address || undefined,
+    items: convertLineItemsFromDB(row.items),
+    subtotal: Number(row.subtotal),
+    discount: Number(row.discount || 0),
+    shippingCost: Number(row.shipping || 0),
+    tax: Number(row.tax || 0),
+    taxDetails: (row.tax_details as unknown as TaxDetailLine[] | null) || [],
+    taxExemptCertificate: row.tax_exempt_certificate || undefined,
+    total: Number(row.total),
+    status: row.status as Quote['status'],
+    expiresAt: row.expires_at || undefined,
+    customerRespondedAt: row.customer_responded_at || undefined,
+    customerResponseNote: row.customer_response_note || undefined,
+    createdAt: row.created_at,
+  }));
+};
+
+/** Finalized invoices shared with the portal user's company */
+export const getPortalInvoices = async (): Promise<Invoice[]> => {
+  const { data, error } = await supabase.rpc('get_portal_invoices', {
+    _tenant_id: requireTenantId(),
+  });
+
+  if (error) throw error;
+  return (data || []).map((row) => {
+    const total = Number(row.total);
+    const amountPaid = Number(row.amount_paid || 0);
+    const amountCredited = Number(row.amount_credited || 0);
+    return {
+      id: row.id,
+      invoiceNumber: row.invoice_number,
+      customerName: row.customer_name,
+      customerEmail: row.customer_email || undefined,
+      customerPhone: row.customer_phone || undefined,
+      customerAddress: row.customer_address || undefined,
+      shipToName: row.ship_to_name || undefined,
+      shipToAddress: row.ship_to_address || undefined,
+      items: convertLineItemsFromDB(row.items),
+      subtotal: Number(row.subtotal),
+      discount: Number(row.discount || 0),
+      shippingCost: Number(row.shipping || 0),
+      tax: Number(row.tax || 0),
+      taxDetails: (row.tax_details as unknown as TaxDetailLine[] | null) || [],
+      taxExemptCertificate: row.tax_exempt_certificate || undefined,
+      total,
+      createdAt: row.created_at,
+      paid: Boolean(row.paid),
+      paidAt: row.paid_at || undefined,
+      amountPaid,
+      amountCredited,
+      balanceDue: total - amountPaid - amountCredited,
+      paymentStatus: (row.payment_status as InvoicePaymentStatus) || 'unpaid',
+      status: 'finalized',
+    };
+  });
+};
+
+export const respondToQuote = async (
+  quoteId: string,
+  accept: boolean,
+  note?: string
+): Promise<'approved' | 'rejected'> => {
+  const { data, error } = await supabase.rpc('respond_to_quote', {
+    _quote_id: quoteId,
+    _accept: accept,
+    _note: note,
+  });
+
+  if (error) throw error;
+  return data as 'approved' | 'rejected';
+};
+
+export const getPurchasedUnits = async (): Promise<PurchasedUnit[]> => {
+  const { data, error } = await supabase.rpc('get_portal_purchased_units', {
+    _tenant_id: requireTenantId(),
+  });
+
+  if (error) throw error;
+  return (data || []).map((row) => ({
+    itemId: row.item_id,
+    partNumber: row.part_number,
+    serialNumber: row.serial_number,
+    description: row.description,
+    invoiceId: row.invoice_id,
+    invoiceNumber: row.invoice_number,
+    soldDate: row.sold_date,
+    warrantyMonths: row.warranty_months ?? undefined,
+    warrantyEndDate: row.warranty_end_date ?? undefined,
+  }));
+};
+
+/** Staff pass a company; portal users get their own company's requests either way */
+export const getServiceRequests = async (companyId?: string): Promise<ServiceRequest[]> => {
+  let query = supabase
+    .from("service_requests")
+    .select("*")
+    .order("created_at", { ascending: false });
+
+  if (companyId) query = query.eq("company_id", companyId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []).map(convertServiceRequestFromDB);
+};
+
+export const createServiceRequest = async (request: {
+  companyId: string;
+  serialNumber?: string;
+  subject: string;
+  description?: string;
+}): Promise<ServiceRequest> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  const { data, error } = await supabase
+    .from("service_requests")
+    .insert({
+      tenant_id: requireTenantId(),
+      company_id: request.companyId,
+      serial_number: request.serialNumber || null,
+      subject: request.subject,
+      description: request.description || null,
+      requested_by: user?.id,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return convertServiceRequestFromDB(data);
+};
+
+export const updateServiceRequest = async (
+  id: string,
+  updates: { status?: ServiceRequestStatus; resolution?: string }
+): Promise<void> => {
+  const { error } = await supabase
+    .from("service_requests")
+    .update({
+      ...(updates.status !== undefined && { status: updates.status }),
+      ...(updates.resolution !== undefined && { resolution: updates.resolution || null }),
+    })
+    .eq("id", id);
+
+  if (error) throw error;
+};
+
+/** Links the contact's existing login (matched by email) and returns its user id */
+export const grantPortalAccess = async (personId: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('grant_portal_access', { _person_id: personId });
+  if (error) throw error;
+  return data as string;
+};
+
+export const revokePortalAccess = async (personId: string): Promise<void> => {
+  const { error } = await supabase.rpc('revoke_portal_access', { _person_id: personId });
+  if (error) throw error;
+};
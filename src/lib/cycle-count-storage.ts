@@ -0,0 +1,496 @@
+// Cycle counts and stock adjustment documents. A count snapshots expected
+// stock for a scope; counters record what is actually on the shelf (kept in
+// IndexedDB until synced so the sheet works offline); variances become a
+// draft adjustment that an owner approves server-side.
+import { supabase } from "@/integrations/supabase/client";
+import { requireTenantId } from "@/lib/tenant-context";
+import { getMetadata, setMetadata } from "@/lib/offline-storage";
+import { getOnHandQuantity, isQuantityTracked, type InventoryItem } from "@/lib/inventory-storage";
+
+export type CycleCountStatus = 'counting' | 'review' | 'posted' | 'cancelled';
+
+export interface CycleCountScope {
+  warehouseId?: string;
+  /** Matches bins (shelf locations) starting with this text */
+  shelfPrefix?: string;
+  partFrom?: string;
+  partTo?: string;
+}
+
+export interface CycleCountLine {
+  id: string;
+  /** Unset for stock found on the shelf that wasn't expected */
+  itemId?: string;
+  partNumber: string;
+  serialNumber?: string;
+  description?: string;
+  shelfLocation?: string;
+  expectedQuantity: number;
+  countedQuantity?: number;
+  unitCost?: number;
+  countedAt?: string;
+}
+
+export interface CycleCount extends CycleCountScope {
+  id: string;
+  countNumber: string;
+  status: CycleCountStatus;
+  notes?: string;
+  lines: CycleCountLine[];
+  createdBy?: string;
+  createdAt: string;
+  submittedAt?: string;
+  postedAt?: string;
+}
+
+export const ADJUSTMENT_REASONS = ['count_variance', 'damaged', 'lost', 'found', 'other'] as const;
+
+export type AdjustmentReason = typeof ADJUSTMENT_REASONS[number];
+
+export type StockAdjustmentStatus = 'draft' | 'approved';
+
+export interface StockAdjustmentLine {
+  id: string;
+  itemId?: string;
+  partNumber: string;
+  serialNumber?: string;
+  description?: string;
+  quantityChange: number;
+  unitCost?: number;
+  reason: AdjustmentReason;
+}
+
+export interface StockAdjustment {
+  id: string;
+  adjustmentNumber: string;
+  cycleCountId?: string;
+  warehouseId?: string;
+  status: StockAdjustmentStatus;
+  notes?: string;
+  totalValue?: number;
+  lines: StockAdjustmentLine[];
+  createdAt: string;
+  approvedAt?: string;
+  approvedBy?: string;
+}
+
+export const getCycleCountStatusLabel = (status: CycleCountStatus): string => {
+  const labels: Record<CycleCountStatus, string> = {
+    counting: 'Counting',
+    review: 'In Review',
+    posted: 'Posted',
+    cancelled: 'Cancelled',
+  };
+  return labels[status];
+};
+
+export const getAdjustmentReasonLabel = (reason: AdjustmentReason): string => {
+  const labels: Record<AdjustmentReason, string> = {
+    count_variance: 'Count Variance',
+    damaged: 'Damaged',
+    lost: 'Lost / Stolen',
+    found: 'Found',
+    other: 'Other',
+  };
+  return labels[reason];
+};
+
+/** Whether an item belongs in a count with this scope. In-transit stock is never counted. */
+export const itemMatchesCountScope = (item: InventoryItem, scope: CycleCountScope): boolean => {
+  if (item.inTransitTransferId) return false;
+  if (!isQuantityTracked(item) && item.status !== 'available') return false;
+  if (scope.warehouseId && item.warehouseId !== scope.warehouseId) return false;
+  if (scope.shelfPrefix && !(item.shelfLocation || '').toLowerCase().startsWith(scope.shelfPrefix.toLowerCase())) {
+    return false;
+  }
+  const part = item.partNumber.toLowerCase();
+  if (scope.partFrom && part < scope.partFrom.toLowerCase()) return false;
+  // Inclusive upper bound: "B" covers B-100 as well as B
+  if (scope.partTo && part > scope.partTo.toLowerCase() && !part.startsWith(scope.partTo.toLowerCase())) return false;
+  return true;
+};
+
+export const describeCountScope = (scope: CycleCountScope): string => {
+  const parts: string[] = [];
+  if (scope.shelfPrefix) parts.push(`Bin ${scope.shelfPrefix}*`);
+  if (scope.partFrom || scope.partTo) parts.push(`Parts ${scope.partFrom || '…'} – ${scope.partTo || '…'}`);
+  return parts.join(', ') || 'All stock';
+};
+
+type CountLineRow = {
+  id: string;
+  item_id: string | null;
+  part_number: string;
+  serial_number: string | null;
+  description: string | null;
+  shelf_location: string | null;
+  expected_quantity: number;
+  counted_quantity: number | null;
+  unit_cost: number | null;
+  counted_at: string | null;
+};
+
+type CountRow = {
+  id: string;
+  count_number: string;
+  warehouse_id: string | null;
+  shelf_prefix: string | null;
+  part_from: string | null;
+  part_to: string | null;
+  status: string;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+  submitted_at: string | null;
+  posted_at: string | null;
+  cycle_count_lines?: CountLineRow[] | null;
+};
+
+function convertCountLineFromDB(line: CountLineRow): CycleCountLine {
+  return {
+    id: line.id,
+    itemId: line.item_id || undefined,
+    partNumber: line.part_number,
+    serialNumber: line.serial_number || undefined,
+    description: line.description || undefined,
+    shelfLocation: line.shelf_location || undefined,
+    expectedQuantity: line.expected_quantity,
+    countedQuantity: line.counted_quantity ?? undefined,
+    unitCost: line.unit_cost !== null ? Number(line.unit_cost) : undefined,
+    countedAt: line.counted_at || undefined,
+  };
+}
+
+function convertCountFromDB(row: CountRow): CycleCount {
+  return {
+    id: row.id,
+    countNumber: row.count_number,
+    warehouseId: row.warehouse_id || undefined,
+    shelfPrefix: row.shelf_prefix || undefined,
+    partFrom: row.part_from || undefined,
+    partTo: row.part_to || undefined,
+    status: row.status as CycleCountStatus,
+    notes: row.notes || undefined,
+    lines: (row.cycle_count_lines || [])
+      .map(convertCountLineFromDB)
+      .sort((a, b) =>
+        (a.shelfLocation || '').localeCompare(b.shelfLocation || '') ||
+        a.partNumber.localeCompare(b.partNumber) ||
+        (a.serialNumber || '').localeCompare(b.serialNumber || '')
+      ),
+    createdBy: row.created_by || undefined,
+    createdAt: row.created_at,
+    submittedAt: row.submitted_at || undefined,
+    postedAt: row.posted_at || undefined,
+  };
+}
+
+export const getCycleCounts = async (): Promise<CycleCount[]> => {
+  const { data, error } = await supabase
+    .from('cycle_counts')
+    .select('*, cycle_count_lines(*)')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(convertCountFromDB);
+};
+
+export const getCycleCount = async (id: string): Promise<CycleCount> => {
+  const { data, error } = await supabase
+    .from('cycle_counts')
+    .select('*, cycle_count_lines(*)')
+    .eq('id', id)
+    .single();
+
+  if (error) throw error;
+  return convertCountFromDB(data);
+};
+
+/** Starts a count, snapshotting the expected quantity of every in-scope item */
+export const createCycleCount = async (
+  scope: CycleCountScope & { notes?: string },
+  items: InventoryItem[]
+): Promise<CycleCount> => {
+  const tenantId = requireTenantId();
+  const inScope = items.filter(item => itemMatchesCountScope(item, scope));
+
+  const { data, error } = await supabase
+    .from('cycle_counts')
+    .insert({
+      tenant_id: tenantId,
+      warehouse_id: scope.warehouseId || null,
+      shelf_prefix: scope.shelfPrefix || null,
+      part_from: scope.partFrom || null,
+      part_to: scope.partTo || null,
+      notes: scope.notes,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  if (inScope.length === 0) return convertCountFromDB(data);
+
+  const { data: lines, error: linesError } = await supabase
+    .from('cycle_count_lines')
+    .insert(inScope.map(item => ({
+      tenant_id: tenantId,
+      cycle_count_id: data.id,
+      item_id: item.id,
+      part_number: item.partNumber,
+      serial_number: item.serialNumber || null,
+      description: item.description,
+      shelf_location: item.shelfLocation || null,
+      expected_quantity: getOnHandQuantity(item),
+      unit_cost: item.cost ?? null,
+    })))
+    .select();
+
+  if (linesError) throw linesError;
+  return convertCountFromDB({ ...data, cycle_count_lines: lines });
+};
+
+export const setCycleCountStatus = async (id: string, status: 'counting' | 'review' | 'cancelled'): Promise<void> => {
+  const updateData: Record<string, unknown> = { status };
+  if (status === 'review') {
+    const { data: { user } } = await supabase.auth.getUser();
+    updateData.submitted_at = new Date().toISOString();
+    updateData.submitted_by = user?.id ?? null;
+  }
+
+  const { error } = await supabase
+    .from('cycle_counts')
+    .update(updateData)
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+export const deleteCycleCount = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('cycle_counts')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+// ============================================================
+// Offline count sheet
+// ============================================================
+
+export interface FoundStockEntry {
+  /** Local id until synced */
+  id: string;
+  partNumber: string;
+  serialNumber?: string;
+  description?: string;
+  quantity: number;
+}
+
+export interface CountSheetDraft {
+  countId: string;
+  /** Counted quantity per line id */
+  counts: Record<string, { quantity: number; countedAt: string }>;
+  found: FoundStockEntry[];
+  updatedAt: string;
+}
+
+const sheetKey = (countId: string) => `cycle_count_sheet:${countId}`;
+const draftKey = (countId: string) => `cycle_count_draft:${countId}`;
+
+/** Keeps the last loaded copy of a count so the sheet can be reopened offline */
+export const cacheCountSheet = (count: CycleCount): Promise<void> => setMetadata(sheetKey(count.id), count);
+
+export const getCachedCountSheet = (countId: string): Promise<CycleCount | null> =>
+  getMetadata<CycleCount>(sheetKey(countId));
+
+export const loadCountSheetDraft = async (countId: string): Promise<CountSheetDraft> =>
+  (await getMetadata<CountSheetDraft>(draftKey(countId))) || {
+    countId,
+    counts: {},
+    found: [],
+    updatedAt: new Date().toISOString(),
+  };
+
+export const saveCountSheetDraft = (draft: CountSheetDraft): Promise<void> =>
+  setMetadata(draftKey(draft.countId), { ...draft, updatedAt: new Date().toISOString() });
+
+export const hasPendingCounts = (draft: CountSheetDraft): boolean =>
+  Object.keys(draft.counts).length > 0 || draft.found.length > 0;
+
+/** Uploads counted quantities and found stock, then clears the local draft */
+export const syncCountSheetDraft = async (draft: CountSheetDraft): Promise<void> => {
+  for (const [lineId, entry] of Object.entries(draft.counts)) {
+    const { error } = await supabase
+      .from('cycle_count_lines')
+      .update({ counted_quantity: entry.quantity, counted_at: entry.countedAt })
+      .eq('id', lineId);
+    if (error) throw error;
+  }
+
+  if (draft.found.length > 0) {
+    const { error } = await supabase
+      .from('cycle_count_lines')
+      .insert(draft.found.map(entry => ({
+        tenant_id: requireTenantId(),
+        cycle_count_id: draft.countId,
+        part_number: entry.partNumber,
+        serial_number: entry.serialNumber || null,
+        description: entry.description || null,
+        expected_quantity: 0,
+        counted_quantity: entry.quantity,
+        counted_at: draft.updatedAt,
+      })));
+    if (error) throw error;
+  }
+
+  await setMetadata(draftKey(draft.countId), null);
+};
+
+// ============================================================
+// Variance review
+// ============================================================
+
+export interface CountVariance {
+  line: CycleCountLine;
+  /** Lines nobody counted are treated as missing */
+  counted: number;
+  variance: number;
+  value: number;
+}
+
+export const getCountVariances = (count: CycleCount): CountVariance[] =>
+  count.lines
+    .map(line => {
+      const counted = line.countedQuantity ?? 0;
+      const variance = counted - line.expectedQuantity;
+      return { line, counted, variance, value: variance * (line.unitCost || 0) };
+    })
+    .filter(v => v.variance !== 0);
+
+// ============================================================
+// Adjustment documents
+// ============================================================
+
+type AdjustmentLineRow = {
+  id: string;
+  item_id: string | null;
+  part_number: string;
+  serial_number: string | null;
+  description: string | null;
+  quantity_change: number;
+  unit_cost: number | null;
+  reason: string;
+};
+
+type AdjustmentRow = {
+  id: string;
+  adjustment_number: string;
+  cycle_count_id: string | null;
+  warehouse_id: string | null;
+  status: string;
+  notes: string | null;
+  total_value: number | null;
+  created_at: string;
+  approved_at: string | null;
+  approved_by: string | null;
+  stock_adjustment_lines?: AdjustmentLineRow[] | null;
+};
+
+function convertAdjustmentFromDB(row: AdjustmentRow): StockAdjustment {
+  return {
+    id: row.id,
+    adjustmentNumber: row.adjustment_number,
+    cycleCountId: row.cycle_count_id || undefined,
+    warehouseId: row.warehouse_id || undefined,
+    status: row.status as StockAdjustmentStatus,
+    notes: row.notes || undefined,
+    totalValue: row.total_value !== null ? Number(row.total_value) : undefined,
+    lines: (row.stock_adjustment_lines || []).map(line => ({
+      id: line.id,
+      itemId: line.item_id || undefined,
+      partNumber: line.part_number,
+      serialNumber: line.serial_number || undefined,
+      description: line.description || undefined,
+      quantityChange: line.quantity_change,
+      unitCost: line.unit_cost !== null ? Number(line.unit_cost) : undefined,
+      reason: line.reason as AdjustmentReason,
+    })),
+    createdAt: row.created_at,
+    approvedAt: row.approved_at || undefined,
+    approvedBy: row.approved_by || undefined,
+  };
+}
+
+/** Value of an adjustment: the stored total once approved, else estimated from line costs */
+export const getAdjustmentValue = (adjustment: StockAdjustment): number =>
+  adjustment.totalValue ??
+  adjustment.lines.reduce((sum, line) => sum + line.quantityChange * (line.unitCost || 0), 0);
+
+export const getStockAdjustments = async (): Promise<StockAdjustment[]> => {
+  const { data, error } = await supabase
+    .from('stock_adjustments')
+    .select('*, stock_adjustment_lines(*)')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(convertAdjustmentFromDB);
+};
+
+/** Drafts an adjustment from a reviewed count's variances */
+export const createAdjustmentFromCount = async (
+  count: CycleCount,
+  reasons: Record<string, AdjustmentReason>,
+  notes?: string
+): Promise<StockAdjustment> => {
+  const tenantId = requireTenantId();
+  const variances = getCountVariances(count);
+  if (variances.length === 0) throw new Error('Count has no variances to adjust');
+
+  const { data, error } = await supabase
+    .from('stock_adjustments')
+    .insert({
+      tenant_id: tenantId,
+      cycle_count_id: count.id,
+      warehouse_id: count.warehouseId || null,
+      notes: notes || `From cycle count ${count.countNumber}`,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  const { data: lines, error: linesError } = await supabase
+    .from('stock_adjustment_lines')
+    .insert(variances.map(({ line, variance }) => ({
+      tenant_id: tenantId,
+      adjustment_id: data.id,
+      item_id: line.itemId || null,
+      part_number: line.partNumber,
+      serial_number: line.serialNumber || null,
+      description: line.description || null,
+      quantity_change: variance,
+      unit_cost: line.unitCost ?? null,
+      reason: reasons[line.id] || (line.itemId ? 'count_variance' : 'found'),
+    })))
+    .select();
+
+  if (linesError) throw linesError;
+  return convertAdjustmentFromDB({ ...data, stock_adjustment_lines: lines });
+};
+
+export const deleteStockAdjustment = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('stock_adjustments')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+/** Moves the stock and posts the journal entry; owners only */
+export const approveStockAdjustment = async (id: string): Promise<void> => {
+  const { error } = await supabase.rpc('approve_stock_adjustment', { _adjustment_id: id });
+  if (error) throw error;
+};
@@ -0,0 +1,204 @@
+// Document numbers are assigned server-side: a trigger on each document table
+// takes the next value of the tenant's counter for that type when a row is
+// inserted without a number. Owners set the pattern and starting value here;
+// anyone can reserve a block of numbers for drafts written while offline.
+import { supabase } from "@/integrations/supabase/client";
+import { requireTenantId } from "@/lib/tenant-context";
+
+export type DocumentType =
+  | 'quote'
+  | 'invoice'
+  | 'purchase_order'
+  | 'sales_order'
+  | 'stock_transfer'
+  | 'rma'
+  | 'credit_memo'
+  | 'cycle_count'
+  | 'stock_adjustment';
+
+export const DOCUMENT_TYPES: DocumentType[] = [
+  'quote',
+  'invoice',
+  'purchase_order',
+  'sales_order',
+  'stock_transfer',
+  'rma',
+  'credit_memo',
+  'cycle_count',
+  'stock_adjustment',
+];
+
+export const getDocumentTypeLabel = (type: DocumentType): string => {
+  const labels: Record<DocumentType, string> = {
+    quote: 'Quotes',
+    invoice: 'Invoices',
+    purchase_order: 'Purchase Orders',
+    sales_order: 'Sales Orders',
+    stock_transfer: 'Stock Transfers',
+    rma: 'RMAs',
+    credit_memo: 'Credit Memos',
+    cycle_count: 'Cycle Counts',
+    stock_adjustment: 'Stock Adjustments',
+  };
+  return labels[type];
+};
+
+/** Same as public.default_document_pattern; used until an owner saves their own */
+export const DEFAULT_DOCUMENT_PATTERNS: Record<DocumentType, string> = {
+  quote: 'QTE-{YYYY}-{0000}',
+  invoice: 'INV-{YYYY}-{0000}',
+  purchase_order: 'PO-{YYYY}-{0000}',
+  sales_order: 'SO-{YYYY}-{0000}',
+  stock_transfer: 'TR-{00000}',
+  rma: 'RMA-{00000}',
+  credit_memo: 'CM-{00000}',
+  cycle_count: 'CC-{00000}',
+  stock_adjustment: 'ADJ-{00000}',
+};
+
+export interface DocumentSequence {
+  documentType: DocumentType;
+  /** Tokens: {YYYY}, {YY}, {MM} and a zero run such as {0000} for the counter */
+  pattern: string;
+  nextValue: number;
+  /** Start again at 1 each January */
+  resetYearly: boolean;
+  updatedAt?: string;
+}
+
+export interface DocumentNumberReservation {
+  id: string;
+  documentType: DocumentType;
+  documentNumber: string;
+  reservedAt: string;
+}
+
+const COUNTER_TOKEN = /\{(0+)\}/;
+
+export const hasCounterToken = (pattern: string): boolean => COUNTER_TOKEN.test(pattern);
+
+export const hasYearToken = (pattern: string): boolean =>
+  pattern.includes('{YYYY}') || pattern.includes('{YY}');
+
+/** Mirrors public.format_document_number */
+export const formatDocumentNumber = (pattern: string, value: number, date: Date = new Date()): string => {
+  const year = String(date.getFullYear());
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const result = pattern
+    .split('{YYYY}').join(year)
+    .split('{YY}').join(year.slice(-2))
+    .split('{MM}').join(month);
+  const zeros = result.match(COUNTER_TOKEN)?.[1] || '';
+  return result.replace(COUNTER_TOKEN, String(value).padStart(zeros.length, '0'));
+};
+
+/** Every document type, with the default for any the tenant hasn't configured */
+export const getDocumentSequences = async (): Promise<DocumentSequence[]> => {
+  const { data, error } = await supabase
+    .from('document_sequences')
+    .select('document_type, pattern, next_value, reset_yearly, current_year, updated_at')
+    .eq('tenant_id', requireTenantId());
+  if (error) throw error;
+
+  const thisYear = new Date().getFullYear();
+  return DOCUMENT_TYPES.map(type => {
+    const row = (data || []).find(r => r.document_type === type);
+    if (!row) {
+      return {
+        documentType: type,
+        pattern: DEFAULT_DOCUMENT_PATTERNS[type],
+        nextValue: 1,
+        resetYearly: hasYearToken(DEFAULT_DOCUMENT_PATTERNS[type]),
+      };
+    }
+    return {
+      documentType: type,
+      pattern: row.pattern,
+      // A yearly counter that hasn't been used yet this year restarts at 1
+      nextValue: row.reset_yearly && row.current_year !== thisYear ? 1 : Number(row.next_value),
+      resetYearly: row.reset_yearly,
+      updatedAt: row.updated_at,
+    };
+  });
+};
+
+/**
+ * The counter is only written when the owner changed it, so saving a pattern
+ * from a stale screen can't wind it back; the database rejects lowering it
+ * unless the pattern changes too.
+ */
+export const saveDocumentSequence = async (sequence: DocumentSequence, nextValueEdited: boolean): Promise<void> => {
+  if (!hasCounterToken(sequence.pattern)) {
+    throw new Error('The pattern needs a counter such as {0000}');
+  }
+  if (sequence.resetYearly && !hasYearToken(sequence.pattern)) {
+    throw new Error('A counter that resets yearly needs {YYYY} or {YY} in the pattern');
+  }
+  if (nextValueEdited && (!Number.isInteger(sequence.nextValue) || sequence.nextValue < 1)) {
+    throw new Error('The next number must be a whole number of at least 1');
+  }
+
+  const { error } = await supabase
+    .from('document_sequences')
+    .upsert(
+      {
+        tenant_id: requireTenantId(),
+        document_type: sequence.documentType,
+        pattern: sequence.pattern.trim(),
+        reset_yearly: sequence.resetYearly,
+        ...(nextValueEdited && { next_value: sequence.nextValue, current_year: new Date().getFullYear() }),
+      },
+      { onConflict: 'tenant_id,document_type' }
+    );
+  if (error) throw error;
+};
+
+/** The number the next document of this type would get. Display only; it isn't held. */
+export const peekDocumentNumber = async (type: DocumentType): Promise<string> => {
+  const { data, error } = await supabase.rpc('peek_document_number', {
+    _tenant_id: requireTenantId(),
+    _document_type: type,
+  });
+  if (error) throw error;
+  return data as string;
+};
+
+export const reserveDocumentNumbers = async (type: DocumentType, count: number): Promise<string[]> => {
+  const { data, error } = await supabase.rpc('reserve_document_numbers', {
+    _tenant_id: requireTenantId(),
+    _document_type: type,
+    _count: count,
+  });
+  if (error) throw error;
+  return (data as string[]) || [];
+};
+
+/** The current user's reservations that haven't been used or released */
+export const getMyReservedNumbers = async (type?: DocumentType): Promise<DocumentNumberReservation[]> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  let query = supabase
+    .from('document_number_reservations')
+    .select('id, document_type, document_number, reserved_at')
+    .eq('tenant_id', requireTenantId())
+    .eq('reserved_by', user.id)
+    .eq('status', 'reserved')
+    .order('document_number');
+  if (type) query = query.eq('document_type', type);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []).map(row => ({
+    id: row.id,
+    documentType: row.document_type as DocumentType,
+    documentNumber: row.document_number,
+    reservedAt: row.reserved_at,
+  }));
+};
+
+/** Hands an unused reservation back; the next document of that type takes it */
+export const releaseReservedNumber = async (reservationId: string): Promise<void> => {
+  const { error } = await supabase.rpc('release_document_number', { _reservation_id: reservationId });
+  if (error) throw error;
+};
@@ -0,0 +1,284 @@
+// jsPDF renderings of quotes and invoices. The preview dialogs download them
+// and the email dialog attaches them.
+import jsPDF from "jspdf";
+import type { Invoice, Quote } from "@/lib/inventory-storage";
+import { getRevisionLetter } from "@/lib/quote-revisions";
+import { getPrintLines } from "@/lib/product-kits";
+
+export const getInvoicePdfFilename = (invoice: Invoice) => `${invoice.invoiceNumber}.pdf`;
+
+export const getQuotePdfFilename = (quote: Quote) => `quote-${quote.quoteNumber}.pdf`;
+
+export const buildInvoicePdf = (invoice: Invoice): jsPDF => {
+  const amountPaid = invoice.amountPaid || 0;
+  const amountCredited = invoice.amountCredited || 0;
+  const balanceDue = invoice.balanceDue ?? invoice.total - amountPaid - amountCredited;
+
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  
+  // Header - Company Name
+  doc.setFontSize(20);
+  doc.setFont("helvetica", "bold");
+  doc.text("TRUE ATTACHMENTS", pageWidth / 2, 20, { align: "center" });
+  
+  doc.setFontSize(10);
+  doc.setFont("helvetica", "normal");
+  doc.text("3045 E Chestnut Expy Ste K", pageWidth / 2, 28, { align: "center" });
+  doc.text("Springfield, MO 65802", pageWidth / 2, 33, { align: "center" });
+  doc.text("Info@TrueAttachments.com", pageWidth / 2, 38, { align: "center" });
+  doc.text("417-306-9612", pageWidth / 2, 43, { align: "center" });
+
+  // Date and Invoice Number
+  doc.setFontSize(12);
+  doc.setFont("helvetica", "bold");
+  doc.text("DATE", 140, 20);
+  doc.text("Invoice", 165, 20);
+  
+  doc.setFont("helvetica", "normal");
+  doc.text(new Date(invoice.createdAt).toLocaleDateString(), 140, 26);
+  doc.text(invoice.invoiceNumber, 165, 26);
+
+  // Paid status
+  if (invoice.paid) {
+    doc.setTextColor(34, 197, 94);
+    doc.setFont("helvetica", "bold");
+    doc.text("PAID", 140, 35);
+    doc.setTextColor(0, 0, 0);
+    doc.setFont("helvetica", "normal");
+  } else if (invoice.paymentStatus === 'partially_paid') {
+    doc.setTextColor(234, 88, 12);
+    doc.setFont("helvetica", "bold");
+    doc.text("PARTIALLY PAID", 140, 35);
+    doc.setTextColor(0, 0, 0);
+    doc.setFont("helvetica", "normal");
+  }
+
+  // Bill To and Ship To
+  let yPos = 55;
+  doc.setFontSize(10);
+  doc.setFont("helvetica", "bold");
+  doc.text("BILL TO", 20, yPos);
+  doc.text("SHIP TO", 110, yPos);
+  
+  yPos += 5;
+  doc.setFont("helvetica", "normal");
+  if (invoice.customerName) {
+    doc.text(invoice.customerName, 20, yPos);
+    doc.text(invoice.customerName, 110, yPos);
+    yPos += 5;
+  }
+  if (invoice.customerEmail) {
+    doc.text(invoice.customerEmail, 20, yPos);
+    yPos += 5;
+  }
+  if (invoice.customerPhone) {
+    doc.text(invoice.customerPhone, 20, yPos);
+    yPos += 5;
+  }
+  
+  // Ship To Address
+  let shipYPos = 65;
+  if (invoice.customerName) shipYPos += 5;
+  if (invoice.shipToAddress) {
+    const lines = doc.splitTextToSize(invoice.shipToAddress, 75);
+    doc.text(lines, 110, shipYPos);
+    shipYPos += (lines.length * 5);
+  }
+
+  // Items Table
+  yPos = Math.max(yPos, shipYPos) + 10;
+  
+  // Table header
+  doc.setFillColor(240, 240, 240);
+  doc.rect(20, yPos, 170, 8, 'F');
+  doc.setFont("helvetica", "bold");
+  doc.text("Item", 22, yPos + 5);
+  doc.text("Description", 60, yPos + 5);
+  doc.text("Qty", 120, yPos + 5);
+  doc.text("Rate", 135, yPos + 5);
+  doc.text("Amount", 165, yPos + 5);
+  
+  yPos += 10;
+  doc.setFont("helvetica", "normal");
+  
+  // Table rows
+  getPrintLines(invoice.items).forEach((item) => {
+    if (yPos > 250) {
+      doc.addPage();
+      yPos = 20;
+    }
+    
+    doc.text(item.partNumber, item.kitComponent ? 26 : 22, yPos);
+    const description = doc.splitTextToSize(item.description, 55);
+    doc.text(description, 60, yPos);
+    doc.text(String(item.quantity || 1), 120, yPos);
+    doc.text(item.kitComponent ? "incl." : `$${item.price.toFixed(2)}`, 135, yPos);
+    if (!item.kitComponent) doc.text(`$${(item.price * (item.quantity || 1)).toFixed(2)}`, 165, yPos);
+    
+    yPos += Math.max(6, description.length * 5);
+    
+    // Add salesman name in fine print
+    if (invoice.salesmanName) {
+      doc.setFontSize(7);
+      doc.setTextColor(128, 128, 128);
+      doc.text(`Added by: ${invoice.salesmanName}`, 60, yPos);
+      doc.setFontSize(10);
+      doc.setTextColor(0, 0, 0);
+      yPos += 4;
+    }
+  });
+
+  // Summary
+  yPos += 10;
+  const summaryX = 140;
+  doc.setFont("helvetica", "normal");
+  
+  doc.text("SUBTOTAL", summaryX, yPos);
+  doc.text(`$${invoice.subtotal.toFixed(2)}`, 175, yPos, { align: "right" });
+  yPos += 6;
+  
+  doc.text("SHIPPING", summaryX, yPos);
+  doc.text(`$${invoice.shippingCost.toFixed(2)}`, 175, yPos, { align: "right" });
+  yPos += 6;
+  
+  doc.text("DISCOUNT", summaryX, yPos);
+  doc.text(`$${invoice.discount.toFixed(2)}`, 175, yPos, { align: "right" });
+  yPos += 6;
+  
+  doc.text("TAX", summaryX, yPos);
+  doc.text("$0.00", 175, yPos, { align: "right" });
+  yPos += 8;
+  
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(12);
+  doc.text("TOTAL", summaryX, yPos);
+  doc.text(`$${invoice.total.toFixed(2)}`, 175, yPos, { align: "right" });
+
+  if (amountPaid > 0 || amountCredited > 0) {
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(10);
+    if (amountPaid > 0) {
+      yPos += 7;
+      doc.text("AMOUNT PAID", summaryX, yPos);
+      doc.text(`-$${amountPaid.toFixed(2)}`, 175, yPos, { align: "right" });
+    }
+    if (amountCredited > 0) {
+      yPos += 7;
+      doc.text("CREDITS", summaryX, yPos);
+      doc.text(`-$${amountCredited.toFixed(2)}`, 175, yPos, { align: "right" });
+    }
+    yPos += 7;
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(12);
+    doc.text("BALANCE DUE", summaryX, yPos);
+    doc.text(`$${balanceDue.toFixed(2)}`, 175, yPos, { align: "right" });
+  }
+
+  return doc;
+};
+
+export const buildQuotePdf = (quote: Quote): jsPDF => {
+  const revisionSuffix = quote.revision ? ` Rev ${getRevisionLetter(quote.revision)}` : "";
+
+  const doc = new jsPDF();
+  
+  // Header
+  doc.setFontSize(20);
+  doc.text("QUOTE", 105, 20, { align: "center" });
+  
+  doc.setFontSize(10);
+  doc.text(`Quote #: ${quote.quoteNumber}${revisionSuffix}`, 20, 35);
+  doc.text(`Date: ${new Date(quote.createdAt).toLocaleDateString()}`, 20, 40);
+  
+  // Customer Info
+  if (quote.customerName) {
+    doc.setFontSize(12);
+    doc.text("Bill To:", 20, 55);
+    doc.setFontSize(10);
+    doc.text(quote.customerName, 20, 60);
+    if (quote.customerEmail) doc.text(quote.customerEmail, 20, 65);
+    if (quote.customerPhone) doc.text(quote.customerPhone, 20, 70);
+  }
+  
+  // Ship To
+  if (quote.shipToAddress) {
+    doc.setFontSize(12);
+    doc.text("Ship To:", 120, 55);
+    doc.setFontSize(10);
+    doc.text(quote.shipToAddress, 120, 60);
+  }
+  
+  // Items Table
+  let y = 90;
+  doc.setFontSize(10);
+  doc.text("Part Number", 20, y);
+  doc.text("Description", 70, y);
+  doc.text("Price", 170, y);
+  
+  y += 5;
+  doc.line(20, y, 190, y);
+  y += 7;
+  
+  getPrintLines(quote.items).forEach((item) => {
+    doc.text(item.partNumber, item.kitComponent ? 24 : 20, y);
+    const description = item.description.length > 40 ? item.description.substring(0, 40) + "..." : item.description;
+    doc.text(description, 70, y);
+    doc.text(item.kitComponent ? "incl." : `$${item.price.toFixed(2)}`, 170, y);
+    y += 5;
+    
+    if (item.serialNumber) {
+      doc.setFontSize(8);
+      doc.text(`SN: ${item.serialNumber}`, 70, y);
+      y += 5;
+    }
+
+    if (item.shipFrom) {
+      doc.setFontSize(8);
+      doc.text(`Ships from: ${item.shipFrom}`, 70, y);
+      y += 5;
+    }
+    
+    if (quote.salesmanName) {
+      doc.setFontSize(7);
+      doc.setTextColor(128, 128, 128);
+      doc.text(`Added by: ${quote.salesmanName}`, 70, y);
+      doc.setTextColor(0, 0, 0);
+      y += 5;
+    }
+    
+    doc.setFontSize(10);
+    y += 2;
+  });
+  
+  // Totals
+  y += 5;
+  doc.line(140, y, 190, y);
+  y += 7;
+  
+  doc.text("Subtotal:", 140, y);
+  doc.text(`$${quote.subtotal.toFixed(2)}`, 170, y);
+  y += 7;
+  
+  if (quote.discount > 0) {
+    doc.text("Discount:", 140, y);
+    doc.text(`-$${quote.discount.toFixed(2)}`, 170, y);
+    y += 7;
+  }
+  
+  if (quote.shippingCost > 0) {
+    doc.text("Shipping:", 140, y);
+    doc.text(`$${quote.shippingCost.toFixed(2)}`, 170, y);
+    y += 7;
+  }
+  
+  doc.setFontSize(12);
+  doc.text("Total:", 140, y);
+  doc.text(`$${quote.total.toFixed(2)}`, 170, y);
+  
+  // Footer
+  doc.setFontSize(8);
+  doc.text("This quote is valid for 30 days from the date of issue.", 105, 280, { align: "center" });
+
+  return doc;
+};
@@ -1,5 +1,7 @@
-// Shared print/PDF HTML renderer for quotes and invoices
+// Shared print/PDF HTML renderer for quotes, invoices and credit memos, plus
+// the pick lists and packing slips printed for sales order shipments.
 // Used by InvoiceQuoteEditor and any other component that needs to print docs.
+import { getPrintLines, type DocKitInfo } from "@/lib/product-kits";
 
 export interface PrintLineItem {
   partNumber: string;
@@ -7,11 +9,21 @@ export interface PrintLineItem {
   description: string;
   price: number;
   quantity?: number;
+  shipFrom?: string;
+  kit?: DocKitInfo;
+  /** A component listed under its kit line; priced as part of the kit */
+  kitComponent?: boolean;
 }
 
 export interface PrintDocumentData {
-  type: 'quote' | 'invoice';
+  type: 'quote' | 'invoice' | 'credit_memo';
   number: string;
+  /** Document date; defaults to today */
+  date?: string;
+  /** Extra line under the number, e.g. the invoice a credit memo applies to */
+  reference?: string;
+  /** Revision letter shown next to the number, e.g. "C" */
+  revision?: string;
   isDraft?: boolean;
   customerName?: string;
   customerEmail?: string;
@@ -25,6 +37,8 @@ export interface PrintDocumentData {
   tax: number;
   total: number;
   notes?: string;
+  /** Replaces the default footer (quotes print their validity period) */
+  footer?: string;
 }
 
 export const escapeHtml = (s: string | undefined): string => {
@@ -37,65 +51,89 @@ export const escapeHtml = (s: string | undefined): string => {
     .replace(/'/g, '&#039;');
 };
 
-export function printDocument(doc: PrintDocumentData) {
+const DOCUMENT_STYLES = `
+* { margin: 0; padding: 0; box-sizing: border-box; }
+body { font-family: Arial, sans-serif; padding: 40px; color: #333; }
+.doc-header { display: flex; justify-content: space-between; margin-bottom: 30px; }
+.doc-title { font-size: 28px; font-weight: bold; color: #2563eb; }
+.doc-meta { font-size: 12px; color: #666; margin-top: 5px; }
+.section { margin-bottom: 25px; }
+.section-title { font-weight: bold; font-size: 12px; margin-bottom: 8px; text-transform: uppercase; color: #666; }
+.customer-grid { display: grid; grid-template-columns: 1fr 1fr; gap: 30px; }
+.customer-info p { font-size: 13px; margin: 3px 0; }
+.items-table { width: 100%; border-collapse: collapse; margin-top: 10px; }
+.items-table th { text-align: left; font-size: 11px; color: #666; padding: 8px 4px; border-bottom: 2px solid #e5e5e5; }
+.items-table td { padding: 10px 4px; border-bottom: 1px solid #e5e5e5; font-size: 13px; vertical-align: top; }
+.items-table .num { text-align: right; }
+.items-table tr.kit-component td { padding-top: 4px; padding-bottom: 4px; font-size: 12px; color: #666; }
+.items-table tr.kit-component td:first-child { padding-left: 16px; }
+.totals { margin-top: 20px; margin-left: auto; width: 280px; }
+.totals-row { display: flex; justify-content: space-between; padding: 5px 0; font-size: 13px; }
+.totals-row.total { border-top: 2px solid #333; padding-top: 10px; margin-top: 10px; font-size: 16px; font-weight: bold; }
+.notes { margin-top: 30px; padding: 15px; background: #f8f9fa; border-left: 3px solid #2563eb; font-size: 12px; white-space: pre-wrap; }
+.footer { margin-top: 40px; text-align: center; font-size: 11px; color: #666; }
+@media print { body { padding: 20px; } }
+`;
+
+function openPrintWindow(title: string, bodyHtml: string) {
   const printWindow = window.open('', '_blank');
   if (!printWindow) return;
 
-  const isInvoice = doc.type === 'invoice';
-  const titleLabel = isInvoice
+  printWindow.document.write(`
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <title>${escapeHtml(title)}</title>
+        <style>${DOCUMENT_STYLES}</style>
+      </head>
+      <body>
+        ${bodyHtml}
+      </body>
+    </html>
+  `);
+
+  printWindow.document.close();
+  printWindow.focus();
+  setTimeout(() => {
+    printWindow.print();
+    printWindow.close();
+  }, 250);
+}
+
+export function printDocument(doc: PrintDocumentData) {
+  const isQuote = doc.type === 'quote';
+  const titleLabel = doc.type === 'invoice'
     ? `INVOICE${doc.isDraft ? ' (DRAFT)' : ''}`
-    : 'QUOTE';
+    : doc.type === 'credit_memo' ? 'CREDIT MEMO' : 'QUOTE';
+  const footer = doc.footer ?? (isQuote ? 'This quote is valid for 30 days from the date of issue.' : '');
 
-  const itemsHtml = doc.items
+  const itemsHtml = getPrintLines(doc.items)
     .map((item) => {
       const qty = item.quantity || 1;
       const lineTotal = qty * item.price;
       return `
-        <tr>
+        <tr${item.kitComponent ? ' class="kit-component"' : ''}>
           <td>${escapeHtml(item.partNumber)}</td>
-          <td>${escapeHtml(item.description)}</td>
+          <td>
+            ${escapeHtml(item.description)}
+            ${isQuote && item.shipFrom ? `<div class="doc-meta">Ships from: ${escapeHtml(item.shipFrom)}</div>` : ''}
+          </td>
           <td>${escapeHtml(item.serialNumber) || '—'}</td>
           <td class="num">${qty}</td>
-          <td class="num">$${item.price.toFixed(2)}</td>
-          <td class="num">$${lineTotal.toFixed(2)}</td>
+          <td class="num">${item.kitComponent ? 'incl.' : `$${item.price.toFixed(2)}`}</td>
+          <td class="num">${item.kitComponent ? '' : `$${lineTotal.toFixed(2)}`}</td>
         </tr>
       `;
     })
     .join('');
 
-  printWindow.document.write(`
-    <!DOCTYPE html>
-    <html>
-      <head>
-        <title>${titleLabel} ${escapeHtml(doc.number)}</title>
-        <style>
-          * { margin: 0; padding: 0; box-sizing: border-box; }
-          body { font-family: Arial, sans-serif; padding: 40px; color: #333; }
-          .doc-header { display: flex; justify-content: space-between; margin-bottom: 30px; }
-          .doc-title { font-size: 28px; font-weight: bold; color: #2563eb; }
-          .doc-meta { font-size: 12px; color: #666; margin-top: 5px; }
-          .section { margin-bottom: 25px; }
-          .section-title { font-weight: bold; font-size: 12px; margin-bottom: 8px; text-transform: uppercase; color: #666; }
-          .customer-grid { display: grid; grid-template-columns: 1fr 1fr; gap: 30px; }
-          .customer-info p { font-size: 13px; margin: 3px 0; }
-          .items-table { width: 100%; border-collapse: collapse; margin-top: 10px; }
-          .items-table th { text-align: left; font-size: 11px; color: #666; padding: 8px 4px; border-bottom: 2px solid #e5e5e5; }
-          .items-table td { padding: 10px 4px; border-bottom: 1px solid #e5e5e5; font-size: 13px; vertical-align: top; }
-          .items-table .num { text-align: right; }
-          .totals { margin-top: 20px; margin-left: auto; width: 280px; }
-          .totals-row { display: flex; justify-content: space-between; padding: 5px 0; font-size: 13px; }
-          .totals-row.total { border-top: 2px solid #333; padding-top: 10px; margin-top: 10px; font-size: 16px; font-weight: bold; }
-          .notes { margin-top: 30px; padding: 15px; background: #f8f9fa; border-left: 3px solid #2563eb; font-size: 12px; white-space: pre-wrap; }
-          .footer { margin-top: 40px; text-align: center; font-size: 11px; color: #666; }
-          @media print { body { padding: 20px; } }
-        </style>
-      </head>
-      <body>
+  openPrintWindow(`${titleLabel} ${doc.number}`, `
         <div class="doc-header">
           <div>
             <div class="doc-title">${titleLabel}</div>
-            <div class="doc-meta">#${escapeHtml(doc.number)}</div>
-            <div class="doc-meta">Date: ${new Date().toLocaleDateString()}</div>
+            <div class="doc-meta">#${escapeHtml(doc.number)}${doc.revision ? ` Rev ${escapeHtml(doc.revision)}` : ''}</div>
+            ${doc.reference ? `<div class="doc-meta">${escapeHtml(doc.reference)}</div>` : ''}
+            <div class="doc-meta">Date: ${(doc.date ? new Date(doc.date) : new Date()).toLocaleDateString()}</div>
           </div>
           ${doc.salesmanName ? `<div class="doc-meta">Salesman: ${escapeHtml(doc.salesmanName)}</div>` : ''}
         </div>
@@ -160,7 +198,7 @@ export function printDocument(doc: PrintDocumentData) {
             </div>
           ` : ''}
           <div class="totals-row total">
-            <span>Total:</span>
+            <span>${doc.type === 'credit_memo' ? 'Total Credit' : 'Total'}:</span>
             <span>$${doc.total.toFixed(2)}</span>
           </div>
         </div>
@@ -171,19 +209,193 @@ export function printDocument(doc: PrintDocumentData) {
           </div>
         ` : ''}
 
-        ${!isInvoice ? `
+        ${footer ? `
           <div class="footer">
-            This quote is valid for 30 days from the date of issue.
+            ${escapeHtml(footer)}
           </div>
         ` : ''}
-      </body>
-    </html>
   `);
+}
 
-  printWindow.document.close();
-  printWindow.focus();
-  setTimeout(() => {
-    printWindow.print();
-    printWindow.close();
-  }, 250);
+export interface PrintShippingLine {
+  partNumber: string;
+  serialNumber?: string;
+  description?: string;
+  quantity: number;
+  /** Stock location name */
+  location?: string;
+  shelfLocation?: string;
+  /** Per unit, in lbs */
+  weight?: number;
+  /** Per unit, in cu yd */
+  volume?: number;
+}
+
+export interface PrintShippingDocumentData {
+  /** Sales order number */
+  number: string;
+  /** Shipment number, once the shipment has been recorded */
+  reference?: string;
+  date?: string;
+  customerName?: string;
+  shipToName?: string;
+  shipToAddress?: string;
+  carrier?: string;
+  trackingNumber?: string;
+  lines: PrintShippingLine[];
+  notes?: string;
+}
+
+const shippingHeaderHtml = (title: string, doc: PrintShippingDocumentData) => `
+  <div class="doc-header">
+    <div>
+      <div class="doc-title">${title}</div>
+      <div class="doc-meta">Order #${escapeHtml(doc.number)}</div>
+      ${doc.reference ? `<div class="doc-meta">Shipment ${escapeHtml(doc.reference)}</div>` : ''}
+      <div class="doc-meta">Date: ${(doc.date ? new Date(doc.date) : new Date()).toLocaleDateString()}</div>
+    </div>
+    ${doc.carrier || doc.trackingNumber ? `
+      <div class="doc-meta">
+        ${doc.carrier ? `Carrier: ${escapeHtml(doc.carrier)}<br/>` : ''}
+        ${doc.trackingNumber ? `Tracking: ${escapeHtml(doc.trackingNumber)}` : ''}
+      </div>
+    ` : ''}
+  </div>
+`;
+
+const notesHtml = (notes?: string) => notes ? `
+  <div class="notes">
+    <strong>Notes:</strong><br/>${escapeHtml(notes)}
+  </div>
+` : '';
+
+/** Lines in walking order: by location, then bin (B2 before B10) */
+const sortForPicking = (lines: PrintShippingLine[]) =>
+  [...lines].sort((a, b) =>
+    (a.location || '').localeCompare(b.location || '') ||
+    (a.shelfLocation || '').localeCompare(b.shelfLocation || '', undefined, { numeric: true }) ||
+    a.partNumber.localeCompare(b.partNumber)
+  );
+
+export function printPickList(doc: PrintShippingDocumentData) {
+  const rowsHtml = sortForPicking(doc.lines)
+    .map((line) => `
+      <tr>
+        <td>&#9744;</td>
+        <td>${escapeHtml(line.location) || '—'}</td>
+        <td><strong>${escapeHtml(line.shelfLocation) || '—'}</strong></td>
+        <td>${escapeHtml(line.partNumber)}</td>
+        <td>${escapeHtml(line.description)}</td>
+        <td>${escapeHtml(line.serialNumber) || '—'}</td>
+        <td class="num">${line.quantity}</td>
+      </tr>
+    `)
+    .join('');
+
+  openPrintWindow(`PICK LIST ${doc.number}`, `
+    ${shippingHeaderHtml('PICK LIST', doc)}
+
+    <div class="section">
+      <div class="section-title">Customer</div>
+      <div class="customer-info">
+        <p><strong>${escapeHtml(doc.customerName) || '—'}</strong></p>
+      </div>
+    </div>
+
+    <div class="section">
+      <table class="items-table">
+        <thead>
+          <tr>
+            <th style="width:4%"></th>
+            <th style="width:14%">Location</th>
+            <th style="width:12%">Shelf</th>
+            <th style="width:15%">Part #</th>
+            <th style="width:33%">Description</th>
+            <th style="width:14%">Serial #</th>
+            <th style="width:8%" class="num">Qty</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${rowsHtml}
+        </tbody>
+      </table>
+    </div>
+
+    ${notesHtml(doc.notes)}
+  `);
+}
+
+export function printPackingSlip(doc: PrintShippingDocumentData) {
+  const totalWeight = doc.lines.reduce((sum, line) => sum + (line.weight || 0) * line.quantity, 0);
+  const totalVolume = doc.lines.reduce((sum, line) => sum + (line.volume || 0) * line.quantity, 0);
+  const totalUnits = doc.lines.reduce((sum, line) => sum + line.quantity, 0);
+
+  const rowsHtml = doc.lines
+    .map((line) => `
+      <tr>
+        <td>${escapeHtml(line.partNumber)}</td>
+        <td>${escapeHtml(line.description)}</td>
+        <td>${escapeHtml(line.serialNumber) || '—'}</td>
+        <td class="num">${line.quantity}</td>
+        <td class="num">${line.weight ? `${(line.weight * line.quantity).toFixed(2)} lbs` : '—'}</td>
+        <td class="num">${line.volume ? `${(line.volume * line.quantity).toFixed(2)} cu yd` : '—'}</td>
+      </tr>
+    `)
+    .join('');
+
+  openPrintWindow(`PACKING SLIP ${doc.reference || doc.number}`, `
+    ${shippingHeaderHtml('PACKING SLIP', doc)}
+
+    <div class="customer-grid section">
+      <div>
+        <div class="section-title">Customer</div>
+        <div class="customer-info">
+          <p><strong>${escapeHtml(doc.customerName) || '—'}</strong></p>
+        </div>
+      </div>
+      <div>
+        <div class="section-title">Ship To</div>
+        <div class="customer-info">
+          ${doc.shipToName ? `<p><strong>${escapeHtml(doc.shipToName)}</strong></p>` : ''}
+          <p>${escapeHtml(doc.shipToAddress) || '—'}</p>
+        </div>
+      </div>
+    </div>
+
+    <div class="section">
+      <div class="section-title">Contents</div>
+      <table class="items-table">
+        <thead>
+          <tr>
+            <th style="width:16%">Part #</th>
+            <th style="width:36%">Description</th>
+            <th style="width:16%">Serial #</th>
+            <th style="width:8%" class="num">Qty</th>
+            <th style="width:12%" class="num">Weight</th>
+            <th style="width:12%" class="num">Volume</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${rowsHtml}
+        </tbody>
+      </table>
+    </div>
+
+    <div class="totals">
+      <div class="totals-row">
+        <span>Units:</span>
+        <span>${totalUnits}</span>
+      </div>
+      <div class="totals-row">
+        <span>Total Weight:</span>
+        <span>${totalWeight.toFixed(2)} lbs</span>
+      </div>
+      <div class="totals-row">
+        <span>Total Volume:</span>
+        <span>${totalVolume.toFixed(2)} cu yd</span>
+      </div>
+    </div>
+
+    ${notesHtml(doc.notes)}
+  `);
 }
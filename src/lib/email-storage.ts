@@ -0,0 +1,369 @@
+// Emailing quotes, invoices and customer statements. Templates are stored per
+// tenant and filled in here; the send-document-email edge function relays the
+// message over SMTP and owns the send log (email_sends), which is read-only
+// from the app.
+import type jsPDF from "jspdf";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { requireTenantId } from "@/lib/tenant-context";
+import type { Invoice, Quote } from "@/lib/inventory-storage";
+import { buildInvoicePdf, buildQuotePdf, getInvoicePdfFilename, getQuotePdfFilename } from "@/lib/document-pdf";
+import { buildCustomerStatementPdf, getStatementNumber, type CustomerAging } from "@/lib/ar-aging";
+import { getRevisionLetter } from "@/lib/quote-revisions";
+
+export const EMAIL_DOCUMENT_TYPES = ['quote', 'invoice', 'statement'] as const;
+
+export type EmailDocumentType = typeof EMAIL_DOCUMENT_TYPES[number];
+
+export type EmailSendStatus = 'queued' | 'sent' | 'delivered' | 'bounced' | 'failed';
+
+export const MERGE_FIELDS = [
+  { key: 'customer_name', label: 'Customer name' },
+  { key: 'document_number', label: 'Quote, invoice or statement number' },
+  { key: 'document_date', label: 'Document date' },
+  { key: 'total', label: 'Document total' },
+  { key: 'balance_due', label: 'Balance due (invoices and statements)' },
+  { key: 'due_date', label: 'Due date (invoices are due on receipt; quotes use their expiry)' },
+  { key: 'portal_link', label: 'Customer portal link' },
+  { key: 'salesperson', label: 'Salesperson' },
+] as const;
+
+export type MergeFieldKey = typeof MERGE_FIELDS[number]['key'];
+
+export type MergeFields = Record<MergeFieldKey, string>;
+
+export interface EmailTemplate {
+  id?: string;
+  documentType: EmailDocumentType;
+  subject: string;
+  body: string;
+  /** False while the built-in default is in use */
+  customized: boolean;
+}
+
+export interface EmailSend {
+  id: string;
+  documentType: EmailDocumentType;
+  quoteId?: string;
+  invoiceId?: string;
+  companyId?: string;
+  customerName?: string;
+  documentNumber: string;
+  toEmail: string;
+  cc: string[];
+  subject: string;
+  body: string;
+  attachmentName?: string;
+  status: EmailSendStatus;
+  error?: string;
+  openCount: number;
+  openedAt?: string;
+  lastOpenedAt?: string;
+  createdAt: string;
+  sentAt?: string;
+  deliveredAt?: string;
+  bouncedAt?: string;
+}
+
+/** Everything the send dialog needs to address, fill in and attach one document */
+export interface EmailDocument {
+  type: EmailDocumentType;
+  /** Quote or invoice id; statements have none */
+  documentId?: string;
+  companyId?: string;
+  customerName: string;
+  documentNumber: string;
+  recipient?: string;
+  fields: MergeFields;
+  filename: string;
+  buildPdf: () => jsPDF;
+}
+
+export const DEFAULT_EMAIL_TEMPLATES: Record<EmailDocumentType, { subject: string; body: string }> = {
+  quote: {
+    subject: "Quote {{document_number}} from True Attachments",
+    body: [
+      "Hi {{customer_name}},",
+      "",
+      "Thank you for your interest. Your quote {{document_number}} for {{total}} is attached and is valid until {{due_date}}.",
+      "",
+      "You can also review your quotes and invoices anytime at {{portal_link}}.",
+      "",
+      "Thanks,",
+      "{{salesperson}}",
+    ].join("\n"),
+  },
+  invoice: {
+    subject: "Invoice {{document_number}} from True Attachments",
+    body: [
+      "Hi {{customer_name}},",
+      "",
+      "Your invoice {{document_number}} dated {{document_date}} is attached. The balance due is {{balance_due}}, payable on receipt ({{due_date}}).",
+      "",
+      "You can view your invoices and payment history at {{portal_link}}.",
+      "",
+      "Thank you for your business,",
+      "{{salesperson}}",
+    ].join("\n"),
+  },
+  statement: {
+    subject: "Statement of account as of {{document_date}}",
+    body: [
+      "Hi {{customer_name}},",
+      "",
+      "Attached is your statement of account as of {{document_date}}. The total balance due is {{balance_due}}.",
+      "",
+      "Open invoices are also available at {{portal_link}}. Please contact us with any questions.",
+      "",
+      "Thank you,",
+      "True Attachments",
+    ].join("\n"),
+  },
+};
+
+export const getEmailDocumentTypeLabel = (type: EmailDocumentType): string => {
+  const labels: Record<EmailDocumentType, string> = {
+    quote: 'Quote',
+    invoice: 'Invoice',
+    statement: 'Statement',
+  };
+  return labels[type] || type;
+};
+
+/** Delivery state for display; an open outranks delivery, failures outrank everything */
+export const getEmailDeliveryState = (send: EmailSend): { label: string; variant: "default" | "secondary" | "outline" | "destructive" } => {
+  if (send.status === 'failed') return { label: 'Failed', variant: 'destructive' };
+  if (send.status === 'bounced') return { label: 'Bounced', variant: 'destructive' };
+  if (send.openedAt) return { label: send.openCount > 1 ? `Opened ${send.openCount}×` : 'Opened', variant: 'default' };
+  if (send.status === 'delivered') return { label: 'Delivered', variant: 'default' };
+  if (send.status === 'sent') return { label: 'Sent', variant: 'secondary' };
+  return { label: 'Sending', variant: 'outline' };
+};
+
+/** Replaces {{field}} placeholders; unknown fields are left as typed so mistakes are visible */
+export const renderTemplate = (text: string, fields: MergeFields): string =>
+  text.replace(/\{\{\s*([a-z_]+)\s*\}\}/g, (match, key: string) =>
+    key in fields ? fields[key as MergeFieldKey] : match
+  );
+
+const money = (value: number) => `$${value.toFixed(2)}`;
+
+const formatDate = (value: string | Date) => format(new Date(value), 'MMMM d, yyyy');
+
+const getPortalLink = () => `${window.location.origin}/customer`;
+
+// ---- Documents ----
+
+export const quoteEmailDocument = (quote: Quote): EmailDocument => {
+  const revision = quote.revision ? ` Rev ${getRevisionLetter(quote.revision)}` : "";
+  return {
+    type: 'quote',
+    documentId: quote.id,
+    customerName: quote.customerName,
+    documentNumber: quote.quoteNumber,
+    recipient: quote.customerEmail,
+    fields: {
+      customer_name: quote.customerName,
+      document_number: `${quote.quoteNumber}${revision}`,
+      document_date: formatDate(quote.createdAt),
+      total: money(quote.total),
+      balance_due: money(quote.total),
+      due_date: quote.expiresAt ? formatDate(quote.expiresAt) : "30 days from the quote date",
+      portal_link: getPortalLink(),
+      salesperson: quote.salesmanName || "True Attachments",
+    },
+    filename: getQuotePdfFilename(quote),
+    buildPdf: () => buildQuotePdf(quote),
+  };
+};
+
+export const invoiceEmailDocument = (invoice: Invoice): EmailDocument => {
+  const balanceDue = invoice.balanceDue ?? invoice.total - (invoice.amountPaid || 0) - (invoice.amountCredited || 0);
+  return {
+    type: 'invoice',
+    documentId: invoice.id,
+    customerName: invoice.customerName,
+    documentNumber: invoice.invoiceNumber,
+    recipient: invoice.customerEmail,
+    fields: {
+      customer_name: invoice.customerName,
+      document_number: invoice.invoiceNumber,
+      document_date: formatDate(invoice.createdAt),
+      total: money(invoice.total),
+      balance_due: money(Math.max(balanceDue, 0)),
+      // Invoices carry no terms; they are due on receipt
+      due_date: formatDate(invoice.createdAt),
+      portal_link: getPortalLink(),
+      salesperson: invoice.salesmanName || "True Attachments",
+    },
+    filename: getInvoicePdfFilename(invoice),
+    buildPdf: () => buildInvoicePdf(invoice),
+  };
+};
+
+export const statementEmailDocument = (aging: CustomerAging, asOf: Date = new Date()): EmailDocument => {
+  const documentNumber = getStatementNumber(aging, asOf);
+  // The most recent address the customer was invoiced at
+  const recipient = [...aging.invoices].reverse().find(({ invoice }) => invoice.customerEmail)?.invoice.customerEmail;
+  return {
+    type: 'statement',
+    companyId: aging.companyId,
+    customerName: aging.customer,
+    documentNumber,
+    recipient,
+    fields: {
+      customer_name: aging.customer,
+      document_number: documentNumber,
+      document_date: formatDate(asOf),
+      total: money(aging.total),
+      balance_due: money(aging.total),
+      due_date: formatDate(asOf),
+      portal_link: getPortalLink(),
+      salesperson: "True Attachments",
+    },
+    filename: `${documentNumber}.pdf`,
+    buildPdf: () => buildCustomerStatementPdf(aging, asOf),
+  };
+};
+
+// ---- Templates ----
+
+type TemplateRow = {
+  id: string;
+  document_type: string;
+  subject: string;
+  body: string;
+};
+
+export const getEmailTemplates = async (): Promise<Record<EmailDocumentType, EmailTemplate>> => {
+  const { data, error } = await supabase
+    .from('email_templates')
+    .select('id, document_type, subject, body');
+  if (error) throw error;
+
+  const saved = new Map((data as TemplateRow[]).map(row => [row.document_type, row]));
+  return Object.fromEntries(EMAIL_DOCUMENT_TYPES.map(type => {
+    const row = saved.get(type);
+    return [type, row
+      ? { id: row.id, documentType: type, subject: row.subject, body: row.body, customized: true }
+      : { documentType: type, ...DEFAULT_EMAIL_TEMPLATES[type], customized: false }];
+  })) as Record<EmailDocumentType, EmailTemplate>;
+};
+
+export const saveEmailTemplate = async (documentType: EmailDocumentType, subject: string, body: string): Promise<void> => {
+  const tenantId = requireTenantId();
+  const { error } = await supabase
+    .from('email_templates')
+    .upsert(
+      { tenant_id: tenantId, document_type: documentType, subject, body },
+      { onConflict: 'tenant_id,document_type' }
+    );
+  if (error) throw error;
+};
+
+/** Drops the tenant's override so the built-in default applies again */
+export const resetEmailTemplate = async (documentType: EmailDocumentType): Promise<void> => {
+  const { error } = await supabase
+    .from('email_templates')
+    .delete()
+    .eq('tenant_id', requireTenantId())
+    .eq('document_type', documentType);
+  if (error) throw error;
+};
+
+// ---- Send log ----
+
+type SendRow = {
+  id: string;
+  document_type: string;
+  quote_id: string | null;
+  invoice_id: string | null;
+  company_id: string | null;
+  customer_name: string | null;
+  document_number: string;
+  to_email: string;
+  cc: string[];
+  subject: string;
+  body: string;
+  attachment_name: string | null;
+  status: string;
+  error: string | null;
+  open_count: number;
+  opened_at: string | null;
+  last_opened_at: string | null;
+  created_at: string;
+  sent_at: string | null;
+  delivered_at: string | null;
+  bounced_at: string | null;
+};
+
+const convertSendFromDB = (row: SendRow): EmailSend => ({
+  id: row.id,
+  documentType: row.document_type as EmailDocumentType,
+  quoteId: row.quote_id || undefined,
+  invoiceId: row.invoice_id || undefined,
+  companyId: row.company_id || undefined,
+  customerName: row.customer_name || undefined,
+  documentNumber: row.document_number,
+  toEmail: row.to_email,
+  cc: row.cc || [],
+  subject: row.subject,
+  body: row.body,
+  attachmentName: row.attachment_name || undefined,
+  status: row.status as EmailSendStatus,
+  error: row.error || undefined,
+  openCount: row.open_count,
+  openedAt: row.opened_at || undefined,
+  lastOpenedAt: row.last_opened_at || undefined,
+  createdAt: row.created_at,
+  sentAt: row.sent_at || undefined,
+  deliveredAt: row.delivered_at || undefined,
+  bouncedAt: row.bounced_at || undefined,
+});
+
+/** Sends for one document, newest first. Statements are matched by customer. */
+export const getEmailSends = async (document: Pick<EmailDocument, 'type' | 'documentId' | 'customerName'>): Promise<EmailSend[]> => {
+  let query = supabase
+    .from('email_sends')
+    .select('*')
+    .eq('document_type', document.type)
+    .order('created_at', { ascending: false });
+
+  if (document.type === 'quote') query = query.eq('quote_id', document.documentId!);
+  else if (document.type === 'invoice') query = query.eq('invoice_id', document.documentId!);
+  else query = query.eq('customer_name', document.customerName);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data as SendRow[]).map(convertSendFromDB);
+};
+
+export const sendDocumentEmail = async (
+  document: EmailDocument,
+  message: { to: string; cc: string[]; subject: string; body: string }
+): Promise<{ id: string; status: EmailSendStatus }> => {
+  const contentBase64 = document.buildPdf().output('datauristring').split(',')[1];
+
+  const { data, error } = await supabase.functions.invoke('send-document-email', {
+    body: {
+      action: 'send',
+      documentType: document.type,
+      documentId: document.documentId,
+      companyId: document.companyId,
+      customerName: document.customerName,
+      documentNumber: document.documentNumber,
+      to: message.to,
+      cc: message.cc,
+      subject: message.subject,
+      body: message.body,
+      attachment: { filename: document.filename, contentBase64 },
+    },
+  });
+  if (error) {
+    // Surface the function's own message (bad address, SMTP rejection...) rather than a generic HTTP error
+    const context = (error as { context?: Response }).context;
+    const payload = context ? await context.json().catch(() => null) : null;
+    throw new Error(payload?.error || error.message);
+  }
+  return data;
+};
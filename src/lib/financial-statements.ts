@@ -0,0 +1,337 @@
+// Trial balance, income statement and balance sheet built from the general ledger.
+// account_transactions.amount is debit-positive, so natural balances flip sign
+// for liability, equity and revenue accounts.
+import jsPDF from "jspdf";
+import { differenceInCalendarDays, format, parseISO, subDays } from "date-fns";
+import type { Account, AccountTransaction } from "@/lib/accounting-storage";
+
+export interface DateRange {
+  start: string; // yyyy-MM-dd, inclusive
+  end: string;   // yyyy-MM-dd, inclusive
+}
+
+export interface StatementLine {
+  account: Account;
+  amount: number;
+  priorAmount?: number;
+}
+
+export interface StatementSection {
+  key: string;
+  label: string;
+  lines: StatementLine[];
+  total: number;
+  priorTotal?: number;
+}
+
+export interface TrialBalanceLine {
+  account: Account;
+  debit: number;
+  credit: number;
+}
+
+export interface IncomeStatement {
+  sections: StatementSection[];
+  grossProfit: number;
+  netIncome: number;
+  priorGrossProfit?: number;
+  priorNetIncome?: number;
+}
+
+export interface BalanceSheet {
+  sections: StatementSection[];
+  // Included in the equity section total
+  retainedEarnings: number;
+  priorRetainedEarnings?: number;
+  totalAssets: number;
+  totalLiabilitiesAndEquity: number;
+  priorTotalAssets?: number;
+  priorTotalLiabilitiesAndEquity?: number;
+}
+
+const CREDIT_NORMAL: Account['account_type'][] = ['liability', 'equity', 'revenue'];
+
+export const naturalBalance = (account: Account, debitBalance: number): number =>
+  CREDIT_NORMAL.includes(account.account_type) ? -debitBalance : debitBalance;
+
+// Previous range of the same length, ending the day before this one starts
+export const getPriorRange = (range: DateRange): DateRange => {
+  const start = parseISO(range.start);
+  const days = differenceInCalendarDays(parseISO(range.end), start) + 1;
+  return {
+    start: format(subDays(start, days), 'yyyy-MM-dd'),
+    end: format(subDays(start, 1), 'yyyy-MM-dd'),
+  };
+};
+
+const inRange = (date: string, range: DateRange) => date >= range.start && date <= range.end;
+
+const sumByAccount = (transactions: AccountTransaction[], predicate: (t: AccountTransaction) => boolean) => {
+  const sums = new Map<string, number>();
+  transactions.forEach(t => {
+    if (!predicate(t)) return;
+    sums.set(t.account_id, (sums.get(t.account_id) || 0) + Number(t.amount));
+  });
+  return sums;
+};
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+const isCOGS = (account: Account) =>
+  account.account_type === 'expense' &&
+  (account.system_key === 'cogs' || account.account_number.startsWith('5'));
+
+const buildSection = (
+  key: string,
+  label: string,
+  accounts: Account[],
+  current: Map<string, number>,
+  prior?: Map<string, number>
+): StatementSection => {
+  const lines = accounts
+    .map(account => ({
+      account,
+      amount: round(naturalBalance(account, current.get(account.id) || 0)),
+      priorAmount: prior ? round(naturalBalance(account, prior.get(account.id) || 0)) : undefined,
+    }))
+    .filter(line => line.amount !== 0 || (line.priorAmount ?? 0) !== 0);
+
+  return {
+    key,
+    label,
+    lines,
+    total: round(lines.reduce((sum, l) => sum + l.amount, 0)),
+    priorTotal: prior ? round(lines.reduce((sum, l) => sum + (l.priorAmount || 0), 0)) : undefined,
+  };
+};
+
+export const buildTrialBalance = (
+  accounts: Account[],
+  transactions: AccountTransaction[],
+  asOf: string
+): TrialBalanceLine[] => {
+  const sums = sumByAccount(transactions, t => t.transaction_date <= asOf);
+  return accounts
+    .map(account => {
+      const balance = round(sums.get(account.id) || 0);
+      return { account, debit: balance > 0 ? balance : 0, credit: balance < 0 ? -balance : 0 };
+    })
+    .filter(line => line.debit !== 0 || line.credit !== 0);
+};
+
+export const buildIncomeStatement = (
+  accounts: Account[],
+  transactions: AccountTransaction[],
+  range: DateRange,
+  priorRange?: DateRange
+): IncomeStatement => {
+  const current = sumByAccount(transactions, t => inRange(t.transaction_date, range));
+  const prior = priorRange ? sumByAccount(transactions, t => inRange(t.transaction_date, priorRange)) : undefined;
+
+  const revenue = buildSection('revenue', 'Revenue', accounts.filter(a => a.account_type === 'revenue'), current, prior);
+  const cogs = buildSection('cogs', 'Cost of Goods Sold', accounts.filter(isCOGS), current, prior);
+  const expenses = buildSection(
+    'expenses',
+    'Operating Expenses',
+    accounts.filter(a => a.account_type === 'expense' && !isCOGS(a)),
+    current,
+    prior
+  );
+
+  const grossProfit = round(revenue.total - cogs.total);
+  const priorGrossProfit = prior ? round((revenue.priorTotal || 0) - (cogs.priorTotal || 0)) : undefined;
+
+  return {
+    sections: [revenue, cogs, expenses],
+    grossProfit,
+    netIncome: round(grossProfit - expenses.total),
+    priorGrossProfit,
+    priorNetIncome: priorGrossProfit !== undefined ? round(priorGrossProfit - (expenses.priorTotal || 0)) : undefined,
+  };
+};
+
+export const buildBalanceSheet = (
+  accounts: Account[],
+  transactions: AccountTransaction[],
+  asOf: string,
+  priorAsOf?: string
+): BalanceSheet => {
+  const current = sumByAccount(transactions, t => t.transaction_date <= asOf);
+  const prior = priorAsOf ? sumByAccount(transactions, t => t.transaction_date <= priorAsOf) : undefined;
+
+  const assets = buildSection('assets', 'Assets', accounts.filter(a => a.account_type === 'asset'), current, prior);
+  const liabilities = buildSection('liabilities', 'Liabilities', accounts.filter(a => a.account_type === 'liability'), current, prior);
+  const equity = buildSection('equity', 'Equity', accounts.filter(a => a.account_type === 'equity'), current, prior);
+
+  // Revenue and expense accounts are never closed out, so their cumulative
+  // balance is carried into equity as retained earnings.
+  const earnings = (sums: Map<string, number>) => round(-accounts
+    .filter(a => a.account_type === 'revenue' || a.account_type === 'expense')
+    .reduce((sum, a) => sum + (sums.get(a.id) || 0), 0));
+
+  const retained = earnings(current);
+  const priorRetained = prior ? earnings(prior) : undefined;
+  equity.total = round(equity.total + retained);
+  if (prior) equity.priorTotal = round((equity.priorTotal || 0) + (priorRetained || 0));
+
+  const totalLiabilitiesAndEquity = round(liabilities.total + equity.total);
+
+  return {
+    sections: [assets, liabilities, equity],
+    retainedEarnings: retained,
+    priorRetainedEarnings: priorRetained,
+    totalAssets: assets.total,
+    totalLiabilitiesAndEquity,
+    priorTotalAssets: assets.priorTotal,
+    priorTotalLiabilitiesAndEquity: prior ? round((liabilities.priorTotal || 0) + (equity.priorTotal || 0)) : undefined,
+  };
+};
+
+// ============ Export ============
+
+export interface StatementRow {
+  label: string;
+  accountId?: string;
+  amount?: number;
+  priorAmount?: number;
+  debit?: number;
+  credit?: number;
+  bold?: boolean;
+  indent?: boolean;
+}
+
+const accountLabel = (account: Account) => `${account.account_number} ${account.account_name}`;
+
+const sectionRows = (section: StatementSection, totalLabel?: string): StatementRow[] => [
+  { label: section.label.toUpperCase(), bold: true },
+  ...section.lines.map(line => ({
+    label: accountLabel(line.account),
+    accountId: line.account.id,
+    amount: line.amount,
+    priorAmount: line.priorAmount,
+    indent: true,
+  })),
+  { label: totalLabel || `Total ${section.label}`, amount: section.total, priorAmount: section.priorTotal, bold: true },
+];
+
+export const trialBalanceRows = (lines: TrialBalanceLine[]): StatementRow[] => [
+  ...lines.map(line => ({
+    label: accountLabel(line.account),
+    accountId: line.account.id,
+    debit: line.debit,
+    credit: line.credit,
+  })),
+  {
+    label: 'Total',
+    debit: round(lines.reduce((sum, l) => sum + l.debit, 0)),
+    credit: round(lines.reduce((sum, l) => sum + l.credit, 0)),
+    bold: true,
+  },
+];
+
+export const incomeStatementRows = (statement: IncomeStatement): StatementRow[] => {
+  const [revenue, cogs, expenses] = statement.sections;
+  return [
+    ...sectionRows(revenue),
+    ...sectionRows(cogs),
+    { label: 'Gross Profit', amount: statement.grossProfit, priorAmount: statement.priorGrossProfit, bold: true },
+    ...sectionRows(expenses),
+    { label: 'Net Income', amount: statement.netIncome, priorAmount: statement.priorNetIncome, bold: true },
+  ];
+};
+
+export const balanceSheetRows = (sheet: BalanceSheet): StatementRow[] => {
+  const [assets, liabilities, equity] = sheet.sections;
+  const equityRows = sectionRows(equity);
+  // Retained earnings sits just above the equity total
+  equityRows.splice(equityRows.length - 1, 0, {
+    label: 'Retained Earnings',
+    amount: sheet.retainedEarnings,
+    priorAmount: sheet.priorRetainedEarnings,
+    indent: true,
+  });
+  return [
+    ...sectionRows(assets),
+    ...sectionRows(liabilities),
+    ...equityRows,
+    {
+      label: 'Total Liabilities & Equity',
+      amount: sheet.totalLiabilitiesAndEquity,
+      priorAmount: sheet.priorTotalLiabilitiesAndEquity,
+      bold: true,
+    },
+  ];
+};
+
+export const statementRowsToExcel = (rows: StatementRow[], compare: boolean, trialBalance = false): Record<string, unknown>[] =>
+  rows.map(row => {
+    if (trialBalance) {
+      return {
+        'Account': row.label,
+        'Debit': row.debit !== undefined ? Number(row.debit.toFixed(2)) : '',
+        'Credit': row.credit !== undefined ? Number(row.credit.toFixed(2)) : '',
+      };
+    }
+    const out: Record<string, unknown> = {
+      'Account': `${row.indent ? '    ' : ''}${row.label}`,
+      'Amount': row.amount !== undefined ? Number(row.amount.toFixed(2)) : '',
+    };
+    if (compare) {
+      out['Prior Period'] = row.priorAmount !== undefined ? Number(row.priorAmount.toFixed(2)) : '';
+      out['Change'] = row.amount !== undefined && row.priorAmount !== undefined
+        ? Number((row.amount - row.priorAmount).toFixed(2))
+        : '';
+    }
+    return out;
+  });
+
+export const downloadStatementPDF = (
+  title: string,
+  subtitle: string,
+  rows: StatementRow[],
+  options: { compare?: boolean; trialBalance?: boolean } = {}
+) => {
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const money = (n?: number) => (n === undefined ? '' : `${n < 0 ? '-' : ''}$${Math.abs(n).toFixed(2)}`);
+
+  doc.setFontSize(16);
+  doc.setFont("helvetica", "bold");
+  doc.text("TRUE ATTACHMENTS", pageWidth / 2, 18, { align: "center" });
+  doc.setFontSize(13);
+  doc.text(title, pageWidth / 2, 26, { align: "center" });
+  doc.setFontSize(10);
+  doc.setFont("helvetica", "normal");
+  doc.text(subtitle, pageWidth / 2, 32, { align: "center" });
+
+  const columns = options.trialBalance
+    ? ['Debit', 'Credit']
+    : options.compare ? ['Current', 'Prior', 'Change'] : ['Amount'];
+  const colX = columns.map((_, i) => 190 - (columns.length - 1 - i) * 30);
+
+  let yPos = 42;
+  doc.setFillColor(240, 240, 240);
+  doc.rect(15, yPos, 180, 8, 'F');
+  doc.setFont("helvetica", "bold");
+  doc.text("Account", 17, yPos + 5);
+  columns.forEach((col, i) => doc.text(col, colX[i], yPos + 5, { align: "right" }));
+  yPos += 13;
+
+  rows.forEach(row => {
+    if (yPos > 280) {
+      doc.addPage();
+      yPos = 20;
+    }
+    doc.setFont("helvetica", row.bold ? "bold" : "normal");
+    doc.text(row.label, row.indent ? 22 : 17, yPos);
+    const values = options.trialBalance
+      ? [row.debit, row.credit]
+      : options.compare
+        ? [row.amount, row.priorAmount, row.amount !== undefined && row.priorAmount !== undefined ? row.amount - row.priorAmount : undefined]
+        : [row.amount];
+    values.forEach((value, i) => doc.text(money(value), colX[i], yPos, { align: "right" }));
+    yPos += 6;
+  });
+
+  doc.save(`${title.replace(/\s+/g, '_')}_${format(new Date(), 'yyyy-MM-dd')}.pdf`);
+};
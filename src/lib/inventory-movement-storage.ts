@@ -0,0 +1,129 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type MovementReason =
+  | 'initial'
+  | 'receipt'
+  | 'sale'
+  | 'sale_reversal'
+  | 'adjustment'
+  | 'transfer_out'
+  | 'transfer_in'
+  | 'return';
+
+export interface InventoryMovement {
+  id: string;
+  itemId: string;
+  quantityChange: number;
+  quantityAfter: number;
+  reason: MovementReason;
+  referenceType?: string;
+  referenceId?: string;
+  unitCost?: number;
+  notes?: string;
+  createdBy?: string;
+  createdAt: string;
+}
+
+export const getMovementReasonLabel = (reason: MovementReason): string => {
+  const labels: Record<MovementReason, string> = {
+    initial: 'Opening Stock',
+    receipt: 'Received',
+    sale: 'Sold',
+    sale_reversal: 'Sale Reversed',
+    adjustment: 'Adjustment',
+    transfer_out: 'Transferred Out',
+    transfer_in: 'Transferred In',
+    return: 'Returned',
+  };
+  return labels[reason] || reason;
+};
+
+type MovementRow = {
+  id: string;
+  item_id: string;
+  quantity_change: number;
+  quantity_after: number;
+  reason: string;
+  reference_type: string | null;
+  reference_id: string | null;
+  unit_cost: number | null;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+};
+
+function convertMovementFromDB(row: MovementRow): InventoryMovement {
+  return {
+    id: row.id,
+    itemId: row.item_id,
+    quantityChange: row.quantity_change,
+    quantityAfter: row.quantity_after,
+    reason: row.reason as MovementReason,
+    referenceType: row.reference_type || undefined,
+    referenceId: row.reference_id || undefined,
+    unitCost: row.unit_cost !== null ? Number(row.unit_cost) : undefined,
+    notes: row.notes || undefined,
+    createdBy: row.created_by || undefined,
+    createdAt: row.created_at,
+  };
+}
+
+export const getItemMovements = async (itemId: string): Promise<InventoryMovement[]> => {
+  const { data, error } = await supabase
+    .from('inventory_movements')
+    .select('*')
+    .eq('item_id', itemId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(convertMovementFromDB);
+};
+
+export const getMovementsSince = async (
+  since: string,
+  reasons: MovementReason[]
+): Promise<InventoryMovement[]> => {
+  const { data, error } = await supabase
+    .from('inventory_movements')
+    .select('*')
+    .gte('created_at', since)
+    .in('reason', reasons)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(convertMovementFromDB);
+};
+
+/**
+ * Moves stock on a quantity-tracked item and returns the new on-hand count.
+ * Fails rather than going below zero; sales use syncInvoiceStock and
+ * transfers go through warehouse-storage instead.
+ */
+export const applyInventoryMovement = async (params: {
+  itemId: string;
+  quantityChange: number;
+  reason: Exclude<MovementReason, 'sale' | 'sale_reversal' | 'transfer_out' | 'transfer_in' | 'return'>;
+  referenceType?: string;
+  referenceId?: string;
+  unitCost?: number;
+  notes?: string;
+}): Promise<number> => {
+  const { data, error } = await supabase.rpc('apply_inventory_movement', {
+    _item_id: params.itemId,
+    _quantity_change: params.quantityChange,
+    _reason: params.reason,
+    _reference_type: params.referenceType,
+    _reference_id: params.referenceId,
+    _unit_cost: params.unitCost,
+    _notes: params.notes,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+// Idempotent: applies only the difference between the invoice's lines and what has already moved
+export const syncInvoiceStock = async (invoiceId: string, release = false): Promise<void> => {
+  const { error } = await supabase.rpc('sync_invoice_stock', { _invoice_id: invoiceId, _release: release });
+  if (error) throw error;
+};
@@ -1,6 +1,11 @@
 // Adapter layer that bridges the existing localStorage interfaces with the new database storage
 import * as db from "./supabase-storage";
 import { supabase } from "@/integrations/supabase/client";
+import type { InvoicePaymentStatus } from "./invoice-payment-storage";
+import type { TaxDetailLine } from "./sales-tax";
+import type { PricingApprovalStatus, PricingViolation } from "./pricing-guardrails";
+import type { DocKitInfo } from "./product-kits";
+import { applyInventoryMovement, syncInvoiceStock } from "./inventory-movement-storage";
 
 export interface InventoryItem {
   id: string;
@@ -22,6 +27,18 @@ export interface InventoryItem {
   assetAccountId?: string;
   cogsAccountId?: string;
   minSalePrice?: number;
+  /** Serialized items are one row per unit; quantity items are one row per part number */
+  trackingMode: 'serialized' | 'quantity';
+  /** Only meaningful for quantity items; changes go through inventory movements */
+  quantityOnHand: number;
+  /** Stock location; the bin within it is shelfLocation */
+  warehouseId?: string;
+  /** Set while the unit is on a shipped stock transfer and can't be sold */
+  inTransitTransferId?: string;
+  /** Set while a serialized unit is held for a sales order; only that order's invoice can sell it */
+  reservedSalesOrderId?: string;
+  /** Graded when a returned unit is restocked */
+  conditionGrade?: string;
 }
 
 export interface DocLineItem {
@@ -31,6 +48,12 @@ export interface DocLineItem {
   description: string;
   price: number;
   quantity?: number;
+  /** Defaults to taxable; freight, labor and similar lines can opt out */
+  taxable?: boolean;
+  /** Location name the part was picked from when the line was added */
+  shipFrom?: string;
+  /** Set on the component lines of a kit */
+  kit?: DocKitInfo;
 }
 
 export interface Invoice {
@@ -49,13 +72,27 @@ export interface Invoice {
   discount: number;
   shippingCost: number;
   tax?: number;
+  taxDetails?: TaxDetailLine[];
+  taxExemptCertificate?: string;
   notes?: string;
   total: number;
   createdAt: string;
   paid?: boolean;
   paidAt?: string;
+  amountPaid?: number;
+  amountCredited?: number;
+  balanceDue?: number;
+  paymentStatus?: InvoicePaymentStatus;
   status?: 'draft' | 'finalized';
   sourceQuoteId?: string;
+  /** Set on the invoice for a sales order shipment */
+  salesOrderId?: string;
+  personId?: string;
+  /** Company whose portal users may see the invoice, set explicitly by staff */
+  confirmedCompanyId?: string;
+  pricingApprovalStatus?: PricingApprovalStatus;
+  pricingViolations?: PricingViolation[];
+  pricingApprovalNote?: string;
   lastEditedAt?: string;
   lastEditedBy?: string;
 }
@@ -75,10 +112,23 @@ export interface Quote {
   discount: number;
   shippingCost: number;
   tax?: number;
+  taxDetails?: TaxDetailLine[];
+  taxExemptCertificate?: string;
   notes?: string;
   total: number;
   status: 'draft' | 'pending' | 'approved' | 'rejected' | 'expired';
   expiresAt?: string;
+  revision?: number;
+  companyId?: string;
+  /** Company whose portal users may see the quote, set explicitly by staff */
+  confirmedCompanyId?: string;
+  opportunityId?: string;
+  personId?: string;
+  customerRespondedAt?: string;
+  customerResponseNote?: string;
+  pricingApprovalStatus?: PricingApprovalStatus;
+  pricingViolations?: PricingViolation[];
+  pricingApprovalNote?: string;
   createdAt: string;
 }
 
@@ -87,6 +137,13 @@ export interface Company {
   name: string;
   address?: string;
   notes: Array<{ text: string; timestamp: string }>;
+  taxExempt?: boolean;
+  taxExemptCertificate?: string;
+  taxExemptExpiresAt?: string;
+  /** Set from the address by the sales territory it falls in */
+  territoryId?: string;
+  /** The salesperson who owns the account */
+  ownerId?: string;
   createdAt: string;
 }
 
@@ -97,6 +154,8 @@ export interface Branch {
   address?: string;
 }
 
+export type ContactMethod = db.ContactMethod;
+
 export interface Note {
   id: string;
   text: string;
@@ -108,6 +167,7 @@ export interface Person {
   companyId?: string;
   branchId?: string;
   userId?: string;
+  portalUserId?: string;
   name: string;
   jobTitle?: string;
   address?: string;
@@ -115,6 +175,11 @@ export interface Person {
   email?: string;
   phone?: string;
   excavatorLines?: string[];
+  /** Every number and address, including the primary phone and email */
+  phoneNumbers?: ContactMethod[];
+  emailAddresses?: ContactMethod[];
+  /** Path in the contact-photos bucket */
+  photoPath?: string;
   createdAt: string;
   updatedAt?: string;
   createdByName?: string;
@@ -139,13 +204,26 @@ function convertItemFromDB(item: db.Item): InventoryItem {
     soldDate: item.dateSold,
     invoiceId: item.soldInInvoiceId,
     createdAt: item.createdAt || new Date().toISOString(),
-    shelfLocation: (item as any).shelf_location,
+    shelfLocation: item.shelfLocation,
     assetAccountId: (item as any).asset_account_id,
     cogsAccountId: (item as any).cogs_account_id,
-    minSalePrice: (item as any).min_sale_price,
+    minSalePrice: item.minSalePrice,
+    trackingMode: item.trackingMode || 'serialized',
+    quantityOnHand: item.quantityOnHand || 0,
+    warehouseId: item.warehouseId,
+    inTransitTransferId: item.inTransitTransferId,
+    reservedSalesOrderId: item.reservedSalesOrderId,
+    conditionGrade: item.conditionGrade,
   };
 }
 
+export const isQuantityTracked = (item: Pick<InventoryItem, 'trackingMode'>): boolean =>
+  item.trackingMode === 'quantity';
+
+/** Units on hand: the stock count for quantity items, 1 or 0 for a serialized unit */
+export const getOnHandQuantity = (item: Pick<InventoryItem, 'trackingMode' | 'quantityOnHand' | 'status'>): number =>
+  isQuantityTracked(item) ? item.quantityOnHand : item.status === 'available' ? 1 : 0;
+
 // Convert local item to DB format
 function convertItemToDB(item: Partial<InventoryItem>): Partial<db.Item> {
   const warrantyMonths = item.warranty ? parseInt(item.warranty.replace(/[^0-9]/g, "")) : undefined;
@@ -168,6 +246,8 @@ function convertItemToDB(item: Partial<InventoryItem>): Partial<db.Item> {
     assetAccountId: item.assetAccountId,
     cogsAccountId: item.cogsAccountId,
     minSalePrice: item.minSalePrice,
+    trackingMode: item.trackingMode,
+    warehouseId: item.warehouseId,
   } as any;
 }
 
@@ -182,9 +262,23 @@ export const getItems = async (): Promise<InventoryItem[]> => {
   return items.map(convertItemFromDB);
 };
 
-export const addItem = async (item: Omit<InventoryItem, "id" | "createdAt">): Promise<InventoryItem> => {
+export const addItem = async (
+  item: Omit<InventoryItem, "id" | "createdAt" | "trackingMode" | "quantityOnHand" | "inTransitTransferId" | "reservedSalesOrderId"> &
+    Partial<Pick<InventoryItem, "trackingMode" | "quantityOnHand">>
+): Promise<InventoryItem> => {
   const dbItem = await db.addItem(convertItemToDB(item) as Omit<db.Item, "id">);
-  return convertItemFromDB(dbItem);
+  const created = convertItemFromDB(dbItem);
+
+  if (isQuantityTracked(created) && item.quantityOnHand && item.quantityOnHand > 0) {
+    const quantityOnHand = await applyInventoryMovement({
+      itemId: created.id,
+      quantityChange: item.quantityOnHand,
+      reason: 'initial',
+      unitCost: item.cost,
+    });
+    return { ...created, quantityOnHand, status: 'available' };
+  }
+  return created;
 };
 
 export const updateItem = async (id: string, updates: Partial<InventoryItem>): Promise<void> => {
@@ -196,6 +290,32 @@ export const updateItem = async (id: string, updates: Partial<InventoryItem>): P
   await db.updateItem(updated as db.Item);
 };
 
+// Quantity-tracked lines are left out: syncInvoiceStock moves their stock
+const getSerializedItemIds = async (itemIds: string[]): Promise<string[]> => {
+  const ids = [...new Set(itemIds.filter(Boolean))];
+  if (ids.length === 0) return [];
+  const { data, error } = await supabase
+    .from('items')
+    .select('id, tracking_mode')
+    .in('id', ids);
+  if (error) throw error;
+  return (data || []).filter(i => i.tracking_mode !== 'quantity').map(i => i.id);
+};
+
+/** Marks the serialized units on an invoice sold */
+export const markItemsSold = async (itemIds: string[], invoiceId: string): Promise<void> => {
+  const ids = await getSerializedItemIds(itemIds);
+  if (ids.length === 0) return;
+  await db.updateItemsSale(ids, { status: 'sold', dateSold: new Date().toISOString(), soldInInvoiceId: invoiceId });
+};
+
+/** Puts serialized units taken off an invoice back in stock */
+export const markItemsAvailable = async (itemIds: string[]): Promise<void> => {
+  const ids = await getSerializedItemIds(itemIds);
+  if (ids.length === 0) return;
+  await db.updateItemsSale(ids, { status: 'available' });
+};
+
 export const deleteItem = async (id: string): Promise<void> => {
   await db.deleteItem(id);
 };
@@ -254,6 +374,7 @@ export const getPeople = async (): Promise<Person[]> => {
     companyId: p.companyId,
     branchId: p.branchId,
     userId: p.userId,
+    portalUserId: p.portalUserId,
     name: p.name,
     jobTitle: p.jobTitle,
     address: p.address,
@@ -261,6 +382,9 @@ export const getPeople = async (): Promise<Person[]> => {
     email: p.email,
     phone: p.phone,
     excavatorLines: p.excavatorLines || [],
+    phoneNumbers: p.phoneNumbers,
+    emailAddresses: p.emailAddresses,
+    photoPath: p.photoPath,
     createdAt: p.createdAt || new Date().toISOString(),
     updatedAt: p.updatedAt,
     createdByName: p.createdByName,
@@ -279,6 +403,9 @@ export const addPerson = async (person: Omit<Person, "id" | "createdAt">): Promi
     address: person.address,
     notes: person.notes || [],
     excavatorLines: person.excavatorLines || [],
+    phoneNumbers: person.phoneNumbers,
+    emailAddresses: person.emailAddresses,
+    photoPath: person.photoPath,
   });
 
   return {
@@ -293,6 +420,9 @@ export const addPerson = async (person: Omit<Person, "id" | "createdAt">): Promi
     email: dbPerson.email,
     phone: dbPerson.phone,
     excavatorLines: dbPerson.excavatorLines || [],
+    phoneNumbers: dbPerson.phoneNumbers,
+    emailAddresses: dbPerson.emailAddresses,
+    photoPath: dbPerson.photoPath,
     createdAt: dbPerson.createdAt || new Date().toISOString(),
     updatedAt: dbPerson.updatedAt,
     createdByName: dbPerson.createdByName,
@@ -312,6 +442,8 @@ export const updatePerson = async (person: Person): Promise<void> => {
     address: person.address,
     notes: person.notes,
     excavatorLines: person.excavatorLines || [],
+    phoneNumbers: person.phoneNumbers,
+    emailAddresses: person.emailAddresses,
   });
 };
 
@@ -344,24 +476,42 @@ export const getInvoices = async (): Promise<Invoice[]> => {
       description: item.description,
       price: item.sellPrice,
       quantity: item.quantity || 1,
+      taxable: item.taxable,
+      shipFrom: item.shipFrom,
+      kit: item.kit,
     })),
     subtotal: inv.subtotal,
     discount: inv.discount,
     shippingCost: inv.shipping,
     tax: inv.tax || 0,
+    taxDetails: inv.taxDetails || [],
+    taxExemptCertificate: inv.taxExemptCertificate,
     notes: inv.notes,
     total: inv.total,
     createdAt: inv.createdAt,
     paid: inv.paid || false,
     paidAt: inv.paidAt,
+    amountPaid: inv.amountPaid || 0,
+    amountCredited: inv.amountCredited || 0,
+    balanceDue: inv.total - (inv.amountPaid || 0) - (inv.amountCredited || 0),
+    paymentStatus: inv.paymentStatus || 'unpaid',
     status: inv.status,
     sourceQuoteId: inv.sourceQuoteId,
+    salesOrderId: inv.salesOrderId,
+    personId: inv.personId,
+    confirmedCompanyId: inv.confirmedCompanyId,
+    pricingApprovalStatus: inv.pricingApprovalStatus,
+    pricingViolations: inv.pricingViolations,
+    pricingApprovalNote: inv.pricingApprovalNote,
     lastEditedAt: inv.lastEditedAt,
     lastEditedBy: inv.lastEditedBy,
   }));
 };
 
-export const addInvoice = async (invoice: Omit<Invoice, "id" | "createdAt">, status: 'draft' | 'finalized' = 'finalized'): Promise<Invoice> => {
+export const addInvoice = async (
+  invoice: Omit<Invoice, "id" | "createdAt" | "invoiceNumber"> & { invoiceNumber?: string },
+  status: 'draft' | 'finalized' = 'finalized'
+): Promise<Invoice> => {
   const dbInvoice = await db.addInvoice({
     invoiceNumber: invoice.invoiceNumber,
     customerName: invoice.customerName!,
@@ -378,17 +528,27 @@ export const addInvoice = async (invoice: Omit<Invoice, "id" | "createdAt">, sta
       description: item.description,
       sellPrice: item.price,
       quantity: item.quantity || 1,
+      taxable: item.taxable,
+      shipFrom: item.shipFrom,
+      kit: item.kit,
     })),
     subtotal: invoice.subtotal,
     discount: invoice.discount,
     shipping: invoice.shippingCost,
     tax: invoice.tax || 0,
+    taxDetails: invoice.taxDetails || [],
+    taxExemptCertificate: invoice.taxExemptCertificate,
     notes: invoice.notes,
     total: invoice.total,
     sourceQuoteId: invoice.sourceQuoteId,
+    salesOrderId: invoice.salesOrderId,
     createdAt: new Date().toISOString(),
   }, status);
 
+  if (status === 'finalized') {
+    await syncInvoiceStock(dbInvoice.id);
+  }
+
   return {
     id: dbInvoice.id,
     invoiceNumber: dbInvoice.invoiceNumber,
@@ -406,26 +566,30 @@ export const addInvoice = async (invoice: Omit<Invoice, "id" | "createdAt">, sta
       description: item.description,
       price: item.sellPrice,
       quantity: item.quantity || 1,
+      taxable: item.taxable,
+      shipFrom: item.shipFrom,
+      kit: item.kit,
     })),
     subtotal: dbInvoice.subtotal,
     discount: dbInvoice.discount,
     shippingCost: dbInvoice.shipping,
     tax: dbInvoice.tax || 0,
+    taxDetails: dbInvoice.taxDetails || [],
+    taxExemptCertificate: dbInvoice.taxExemptCertificate,
     notes: dbInvoice.notes,
     total: dbInvoice.total,
     createdAt: dbInvoice.createdAt,
+    amountPaid: 0,
+    balanceDue: dbInvoice.total,
+    paymentStatus: 'unpaid',
     status: dbInvoice.status,
     sourceQuoteId: dbInvoice.sourceQuoteId,
+    salesOrderId: dbInvoice.salesOrderId,
+    pricingApprovalStatus: dbInvoice.pricingApprovalStatus,
+    pricingViolations: dbInvoice.pricingViolations,
   };
 };
 
-export const updateInvoicePaidStatus = async (id: string, paid: boolean): Promise<void> => {
-  await db.updateInvoice(id, {
-    paid,
-    paidAt: paid ? new Date().toISOString() : undefined
-  });
-};
-
 export const updateInvoice = async (id: string, updates: {
   customerName?: string;
   customerEmail?: string;
@@ -438,9 +602,12 @@ export const updateInvoice = async (id: string, updates: {
   discount?: number;
   shippingCost?: number;
   tax?: number;
+  taxDetails?: TaxDetailLine[];
+  taxExemptCertificate?: string | null;
   notes?: string;
   total?: number;
   status?: 'draft' | 'finalized';
+  confirmedCompanyId?: string | null;
   lastEditedAt?: string;
   lastEditedBy?: string;
 }): Promise<void> => {
@@ -456,9 +623,12 @@ export const updateInvoice = async (id: string, updates: {
   if (updates.discount !== undefined) dbUpdates.discount = updates.discount;
   if (updates.shippingCost !== undefined) dbUpdates.shipping = updates.shippingCost;
   if (updates.tax !== undefined) dbUpdates.tax = updates.tax;
+  if (updates.taxDetails !== undefined) dbUpdates.taxDetails = updates.taxDetails;
+  if (updates.taxExemptCertificate !== undefined) dbUpdates.taxExemptCertificate = updates.taxExemptCertificate;
   if (updates.notes !== undefined) dbUpdates.notes = updates.notes;
   if (updates.total !== undefined) dbUpdates.total = updates.total;
   if (updates.status !== undefined) dbUpdates.status = updates.status;
+  if (updates.confirmedCompanyId !== undefined) dbUpdates.confirmedCompanyId = updates.confirmedCompanyId;
   if (updates.lastEditedAt !== undefined) dbUpdates.lastEditedAt = updates.lastEditedAt;
   if (updates.lastEditedBy !== undefined) dbUpdates.lastEditedBy = updates.lastEditedBy;
   if (updates.items !== undefined) {
@@ -469,17 +639,28 @@ export const updateInvoice = async (id: string, updates: {
       description: item.description,
       sellPrice: item.price,
       quantity: item.quantity || 1,
+      taxable: item.taxable,
+      shipFrom: item.shipFrom,
+      kit: item.kit,
     }));
   }
 
+  // Amount or status changes re-post the journal server-side, in the same write
   await db.updateInvoice(id, dbUpdates);
+
+  if (updates.items !== undefined || updates.status !== undefined) {
+    await syncInvoiceStock(id);
+  }
 };
 
 export const finalizeInvoice = async (id: string): Promise<void> => {
   await db.updateInvoice(id, { status: 'finalized' });
+  await syncInvoiceStock(id);
 };
 
 export const deleteInvoice = async (id: string): Promise<void> => {
+  await syncInvoiceStock(id, true);
+  // Reverses the invoice's and its payments' journal entries server-side
   await db.deleteInvoice(id);
 };
 
@@ -503,21 +684,36 @@ export const getQuotes = async (): Promise<Quote[]> => {
       description: item.description,
       price: item.sellPrice,
       quantity: item.quantity || 1,
+      taxable: item.taxable,
+      shipFrom: item.shipFrom,
+      kit: item.kit,
     })),
     subtotal: quote.subtotal,
     discount: quote.discount,
     shippingCost: quote.shipping,
     tax: quote.tax || 0,
+    taxDetails: quote.taxDetails || [],
+    taxExemptCertificate: quote.taxExemptCertificate,
     notes: quote.notes,
     total: quote.total,
     status: quote.status || 'pending',
     expiresAt: quote.expiresAt,
+    revision: quote.revision || 0,
+    companyId: quote.companyId,
+    confirmedCompanyId: quote.confirmedCompanyId,
+    opportunityId: quote.opportunityId,
+    personId: quote.personId,
+    customerRespondedAt: quote.customerRespondedAt,
+    customerResponseNote: quote.customerResponseNote,
+    pricingApprovalStatus: quote.pricingApprovalStatus,
+    pricingViolations: quote.pricingViolations,
+    pricingApprovalNote: quote.pricingApprovalNote,
     createdAt: quote.createdAt,
   }));
 };
 
 export const addQuote = async (
-  quote: Omit<Quote, "id" | "createdAt">,
+  quote: Omit<Quote, "id" | "createdAt" | "quoteNumber"> & { quoteNumber?: string },
   status: Quote['status'] = 'pending'
 ): Promise<Quote> => {
   const dbQuote = await db.addQuote({
@@ -536,11 +732,16 @@ export const addQuote = async (
       description: item.description,
       sellPrice: item.price,
       quantity: item.quantity || 1,
+      taxable: item.taxable,
+      shipFrom: item.shipFrom,
+      kit: item.kit,
     })),
     subtotal: quote.subtotal,
     discount: quote.discount,
     shipping: quote.shippingCost,
     tax: quote.tax || 0,
+    taxDetails: quote.taxDetails || [],
+    taxExemptCertificate: quote.taxExemptCertificate,
     notes: quote.notes,
     total: quote.total,
     expiresAt: quote.expiresAt,
@@ -564,15 +765,22 @@ export const addQuote = async (
       description: item.description,
       price: item.sellPrice,
       quantity: item.quantity || 1,
+      taxable: item.taxable,
+      shipFrom: item.shipFrom,
+      kit: item.kit,
     })),
     subtotal: dbQuote.subtotal,
     discount: dbQuote.discount,
     shippingCost: dbQuote.shipping,
     tax: dbQuote.tax || 0,
+    taxDetails: dbQuote.taxDetails || [],
+    taxExemptCertificate: dbQuote.taxExemptCertificate,
     notes: dbQuote.notes,
     total: dbQuote.total,
     status: dbQuote.status || 'pending',
     expiresAt: dbQuote.expiresAt,
+    pricingApprovalStatus: dbQuote.pricingApprovalStatus,
+    pricingViolations: dbQuote.pricingViolations,
     createdAt: dbQuote.createdAt,
   };
 };
@@ -608,10 +816,13 @@ export const updateQuote = async (id: string, updates: {
   discount?: number;
   shippingCost?: number;
   tax?: number;
+  taxDetails?: TaxDetailLine[];
+  taxExemptCertificate?: string | null;
   notes?: string;
   total?: number;
   status?: Quote['status'];
   expiresAt?: string;
+  confirmedCompanyId?: string | null;
 }): Promise<void> => {
   const dbUpdates: Parameters<typeof db.updateQuote>[1] = {};
   if (updates.customerName !== undefined) dbUpdates.customerName = updates.customerName;
@@ -624,10 +835,13 @@ export const updateQuote = async (id: string, updates: {
   if (updates.discount !== undefined) dbUpdates.discount = updates.discount;
   if (updates.shippingCost !== undefined) dbUpdates.shipping = updates.shippingCost;
   if (updates.tax !== undefined) dbUpdates.tax = updates.tax;
+  if (updates.taxDetails !== undefined) dbUpdates.taxDetails = updates.taxDetails;
+  if (updates.taxExemptCertificate !== undefined) dbUpdates.taxExemptCertificate = updates.taxExemptCertificate;
   if (updates.notes !== undefined) dbUpdates.notes = updates.notes;
   if (updates.total !== undefined) dbUpdates.total = updates.total;
   if (updates.status !== undefined) dbUpdates.status = updates.status;
   if (updates.expiresAt !== undefined) dbUpdates.expiresAt = updates.expiresAt;
+  if (updates.confirmedCompanyId !== undefined) dbUpdates.confirmedCompanyId = updates.confirmedCompanyId;
   if (updates.items !== undefined) {
     dbUpdates.items = updates.items.map(item => ({
       id: item.itemId,
@@ -636,6 +850,9 @@ export const updateQuote = async (id: string, updates: {
       description: item.description,
       sellPrice: item.price,
       quantity: item.quantity || 1,
+      taxable: item.taxable,
+      shipFrom: item.shipFrom,
+      kit: item.kit,
     }));
   }
   await db.updateQuote(id, dbUpdates);
@@ -646,6 +863,8 @@ export const inventoryStorage = {
   getItems,
   addItem,
   updateItem,
+  markItemsSold,
+  markItemsAvailable,
   deleteItem,
   getCompanies,
   addCompany,
@@ -665,7 +884,6 @@ export const inventoryStorage = {
   getInvoices,
   addInvoice,
   createInvoice,
-  updateInvoicePaidStatus,
   updateInvoice,
   finalizeInvoice,
   deleteInvoice,
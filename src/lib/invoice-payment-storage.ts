@@ -0,0 +1,131 @@
+import { supabase } from "@/integrations/supabase/client";
+import { requireTenantId } from "@/lib/tenant-context";
+
+export const PAYMENT_METHODS = ['check', 'ach', 'card', 'cash', 'wire', 'other'] as const;
+
+export type PaymentMethod = typeof PAYMENT_METHODS[number];
+
+export type InvoicePaymentStatus = 'unpaid' | 'partially_paid' | 'paid' | 'overpaid';
+
+export interface InvoicePayment {
+  id: string;
+  invoiceId: string;
+  amount: number;
+  method: PaymentMethod;
+  referenceNumber?: string;
+  paymentDate: string;
+  notes?: string;
+  createdBy?: string;
+  createdAt: string;
+}
+
+export const getPaymentMethodLabel = (method: string): string => {
+  const labels: Record<string, string> = {
+    check: 'Check',
+    ach: 'ACH',
+    card: 'Credit Card',
+    cash: 'Cash',
+    wire: 'Wire Transfer',
+    other: 'Other',
+  };
+  return labels[method] || method;
+};
+
+export const getPaymentStatusLabel = (status: InvoicePaymentStatus): string => {
+  const labels: Record<InvoicePaymentStatus, string> = {
+    unpaid: 'Unpaid',
+    partially_paid: 'Partially Paid',
+    paid: 'Paid',
+    overpaid: 'Overpaid',
+  };
+  return labels[status];
+};
+
+// Mirrors public.invoice_payment_status() so the UI can preview a status before saving
+export const computePaymentStatus = (amountPaid: number, total: number): InvoicePaymentStatus => {
+  if (amountPaid <= 0) return 'unpaid';
+  if (amountPaid < total - 0.005) return 'partially_paid';
+  if (amountPaid > total + 0.005) return 'overpaid';
+  return 'paid';
+};
+
+type PaymentRow = {
+  id: string;
+  invoice_id: string;
+  amount: number;
+  method: string;
+  reference_number: string | null;
+  payment_date: string;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+};
+
+function convertPaymentFromDB(row: PaymentRow): InvoicePayment {
+  return {
+    id: row.id,
+    invoiceId: row.invoice_id,
+    amount: Number(row.amount),
+    method: row.method as PaymentMethod,
+    referenceNumber: row.reference_number || undefined,
+    paymentDate: row.payment_date,
+    notes: row.notes || undefined,
+    createdBy: row.created_by || undefined,
+    createdAt: row.created_at,
+  };
+}
+
+export const getInvoicePayments = async (invoiceId: string): Promise<InvoicePayment[]> => {
+  const { data, error } = await supabase
+    .from('invoice_payments')
+    .select('*')
+    .eq('invoice_id', invoiceId)
+    .order('payment_date', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(convertPaymentFromDB);
+};
+
+export const getAllInvoicePayments = async (startDate?: string, endDate?: string): Promise<InvoicePayment[]> => {
+  let query = supabase
+    .from('invoice_payments')
+    .select('*')
+    .order('payment_date', { ascending: false });
+
+  if (startDate) query = query.gte('payment_date', startDate);
+  if (endDate) query = query.lte('payment_date', endDate);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []).map(convertPaymentFromDB);
+};
+
+export const addInvoicePayment = async (
+  payment: Omit<InvoicePayment, 'id' | 'createdAt' | 'createdBy'>
+): Promise<InvoicePayment> => {
+  const { data, error } = await supabase
+    .from('invoice_payments')
+    .insert({
+      tenant_id: requireTenantId(),
+      invoice_id: payment.invoiceId,
+      amount: payment.amount,
+      method: payment.method,
+      reference_number: payment.referenceNumber || null,
+      payment_date: payment.paymentDate,
+      notes: payment.notes || null,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return convertPaymentFromDB(data);
+};
+
+export const deleteInvoicePayment = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('invoice_payments')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
@@ -0,0 +1,234 @@
+// Sales pipeline. An opportunity is a deal in progress, linked to a company
+// and/or contact, that moves through stages until it's won or lost. Quotes
+// can be attached to it; invoicing an attached quote marks it won
+// server-side. Closing times and the final probability are set by a trigger.
+import { supabase } from "@/integrations/supabase/client";
+import { requireTenantId } from "@/lib/tenant-context";
+
+export const OPPORTUNITY_STAGES = ['prospecting', 'qualification', 'proposal', 'negotiation', 'won', 'lost'] as const;
+
+export type OpportunityStage = typeof OPPORTUNITY_STAGES[number];
+
+export const isOpenStage = (stage: OpportunityStage): boolean => stage !== 'won' && stage !== 'lost';
+
+export const getOpportunityStageLabel = (stage: OpportunityStage): string => {
+  const labels: Record<OpportunityStage, string> = {
+    prospecting: 'Prospecting',
+    qualification: 'Qualification',
+    proposal: 'Proposal',
+    negotiation: 'Negotiation',
+    won: 'Won',
+    lost: 'Lost',
+  };
+  return labels[stage];
+};
+
+/** Probability a deal picks up when it's moved into a stage */
+export const DEFAULT_STAGE_PROBABILITY: Record<OpportunityStage, number> = {
+  prospecting: 10,
+  qualification: 25,
+  proposal: 50,
+  negotiation: 75,
+  won: 100,
+  lost: 0,
+};
+
+export interface Opportunity {
+  id: string;
+  name: string;
+  companyId?: string;
+  personId?: string;
+  stage: OpportunityStage;
+  expectedValue: number;
+  /** 0–100 */
+  probability: number;
+  expectedCloseDate?: string;
+  ownerId?: string;
+  lostReason?: string;
+  notes?: string;
+  closedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type OpportunityInput = Omit<Opportunity, 'id' | 'closedAt' | 'createdAt' | 'updatedAt'>;
+
+export interface Salesperson {
+  userId: string;
+  fullName: string;
+}
+
+type OpportunityRow = {
+  id: string;
+  name: string;
+  company_id: string | null;
+  person_id: string | null;
+  stage: string;
+  expected_value: number;
+  probability: number;
+  expected_close_date: string | null;
+  owner_id: string | null;
+  lost_reason: string | null;
+  notes: string | null;
+  closed_at: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+function convertOpportunityFromDB(row: OpportunityRow): Opportunity {
+  return {
+    id: row.id,
+    name: row.name,
+    companyId: row.company_id || undefined,
+    personId: row.person_id || undefined,
+    stage: row.stage as OpportunityStage,
+    expectedValue: Number(row.expected_value),
+    probability: row.probability,
+    expectedCloseDate: row.expected_close_date || undefined,
+    ownerId: row.owner_id || undefined,
+    lostReason: row.lost_reason || undefined,
+    notes: row.notes || undefined,
+    closedAt: row.closed_at || undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+const convertOpportunityToDB = (opportunity: Partial<OpportunityInput>) => ({
+  name: opportunity.name,
+  company_id: opportunity.companyId === undefined ? undefined : opportunity.companyId || null,
+  person_id: opportunity.personId === undefined ? undefined : opportunity.personId || null,
+  stage: opportunity.stage,
+  expected_value: opportunity.expectedValue,
+  probability: opportunity.probability,
+  expected_close_date: opportunity.expectedCloseDate === undefined ? undefined : opportunity.expectedCloseDate || null,
+  owner_id: opportunity.ownerId === undefined ? undefined : opportunity.ownerId || null,
+  lost_reason: opportunity.lostReason === undefined ? undefined : opportunity.lostReason || null,
+  notes: opportunity.notes === undefined ? undefined : opportunity.notes || null,
+});
+
+export const getOpportunities = async (): Promise<Opportunity[]> => {
+  const { data, error } = await supabase
+    .from('opportunities')
+    .select('*')
+    .order('expected_close_date', { ascending: true, nullsFirst: false });
+
+  if (error) throw error;
+  return (data || []).map(convertOpportunityFromDB);
+};
+
+export const addOpportunity = async (opportunity: OpportunityInput): Promise<Opportunity> => {
+  const { data, error } = await supabase
+    .from('opportunities')
+    .insert({
+      ...convertOpportunityToDB(opportunity),
+      tenant_id: requireTenantId(),
+      name: opportunity.name,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return convertOpportunityFromDB(data);
+};
+
+export const updateOpportunity = async (id: string, updates: Partial<OpportunityInput>): Promise<void> => {
+  const { error } = await supabase
+    .from('opportunities')
+    .update(convertOpportunityToDB(updates))
+    .eq('id', id);
+  if (error) throw error;
+};
+
+/**
+ * Moves a deal to another stage with that stage's default probability.
+ * Losing it needs a reason.
+ */
+export const moveOpportunityToStage = async (
+  opportunity: Opportunity,
+  stage: OpportunityStage,
+  lostReason?: string
+): Promise<void> => {
+  if (stage === 'lost' && !lostReason?.trim()) throw new Error('Give a reason the deal was lost');
+  await updateOpportunity(opportunity.id, {
+    stage,
+    probability: DEFAULT_STAGE_PROBABILITY[stage],
+    lostReason: stage === 'lost' ? lostReason?.trim() : '',
+  });
+};
+
+export const deleteOpportunity = async (id: string): Promise<void> => {
+  const { error } = await supabase.from('opportunities').delete().eq('id', id);
+  if (error) throw error;
+};
+
+/** Pass null to detach */
+export const attachQuoteToOpportunity = async (quoteId: string, opportunityId: string | null): Promise<void> => {
+  const { error } = await supabase
+    .from('quotes')
+    .update({ opportunity_id: opportunityId })
+    .eq('id', quoteId);
+  if (error) throw error;
+};
+
+export const getSalespeople = async (): Promise<Salesperson[]> => {
+  const { data, error } = await supabase.rpc('get_tenant_salespeople', { _tenant_id: requireTenantId() });
+  if (error) throw error;
+  return (data || []).map(row => ({ userId: row.user_id, fullName: row.full_name }));
+};
+
+export const getWeightedValue = (opportunity: Opportunity): number =>
+  (opportunity.expectedValue * opportunity.probability) / 100;
+
+export interface PipelineRow {
+  ownerId?: string;
+  ownerName: string;
+  /** Keyed by yyyy-MM of the expected close date, or "none" */
+  byMonth: Record<string, number>;
+  total: number;
+}
+
+/**
+ * Weighted value of open deals by salesperson and expected close month.
+ * Months are those with at least one deal, in order; deals without a close
+ * date go under "none", listed last.
+ */
+export const getWeightedPipeline = (
+  opportunities: Opportunity[],
+  salespeople: Salesperson[]
+): { months: string[]; rows: PipelineRow[]; totals: Record<string, number>; total: number } => {
+  const open = opportunities.filter(o => isOpenStage(o.stage));
+  const rows = new Map<string, PipelineRow>();
+  const totals: Record<string, number> = {};
+  let total = 0;
+
+  for (const opportunity of open) {
+    const key = opportunity.ownerId || '';
+    const month = opportunity.expectedCloseDate ? opportunity.expectedCloseDate.slice(0, 7) : 'none';
+    const weighted = getWeightedValue(opportunity);
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        ownerId: opportunity.ownerId,
+        ownerName: salespeople.find(s => s.userId === opportunity.ownerId)?.fullName || 'Unassigned',
+        byMonth: {},
+        total: 0,
+      };
+      rows.set(key, row);
+    }
+    row.byMonth[month] = (row.byMonth[month] || 0) + weighted;
+    row.total += weighted;
+    totals[month] = (totals[month] || 0) + weighted;
+    total += weighted;
+  }
+
+  const months = Object.keys(totals).filter(m => m !== 'none').sort();
+  if (totals.none !== undefined) months.push('none');
+
+  return {
+    months,
+    rows: [...rows.values()].sort((a, b) => a.ownerName.localeCompare(b.ownerName)),
+    totals,
+    total,
+  };
+};
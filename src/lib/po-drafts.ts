@@ -0,0 +1,54 @@
+// Draft purchase orders are kept in localStorage until issued. IssuePODialog
+// edits them; the reorder report creates them in bulk.
+
+export interface POLineItem {
+  id: string;
+  partNumber: string;
+  serialNumber: string;
+  description: string;
+  quantity: number;
+  unitCost: number;
+}
+
+export interface AdditionalCost {
+  id: string;
+  description: string;
+  amount: number;
+}
+
+export interface DraftPO {
+  id: string;
+  vendorId: string;
+  vendorName: string;
+  lineItems: POLineItem[];
+  additionalCosts: AdditionalCost[];
+  notes: string;
+  savedAt: string;
+}
+
+const DRAFT_PO_STORAGE_KEY = "draft_purchase_orders";
+
+export function loadDraftPOs(): DraftPO[] {
+  try {
+    const stored = localStorage.getItem(DRAFT_PO_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveDraftPOToStorage(draft: DraftPO): void {
+  const drafts = loadDraftPOs();
+  const existingIndex = drafts.findIndex(d => d.id === draft.id);
+  if (existingIndex >= 0) {
+    drafts[existingIndex] = draft;
+  } else {
+    drafts.push(draft);
+  }
+  localStorage.setItem(DRAFT_PO_STORAGE_KEY, JSON.stringify(drafts));
+}
+
+export function deleteDraftPOFromStorage(id: string): void {
+  const drafts = loadDraftPOs().filter(d => d.id !== id);
+  localStorage.setItem(DRAFT_PO_STORAGE_KEY, JSON.stringify(drafts));
+}
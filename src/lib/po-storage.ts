@@ -36,7 +36,7 @@ export interface PurchaseOrder {
   updatedAt: string;
 }
 
-interface POItemSummary {
+export interface POItemSummary {
   itemId?: string;
   partNumber: string;
   serialNumber?: string;
@@ -60,6 +60,17 @@ export interface POItem {
   createdAt: string;
 }
 
+// A single line of a receiving session, keyed by its position in PurchaseOrder.items
+export interface POReceiptLine {
+  lineIndex: number;
+  quantity: number;
+  serialNumbers: string[];
+  shelfLocation?: string;
+  salePrice: number;
+  /** Receive into a single quantity-tracked item for the part instead of one row per unit */
+  trackByQuantity?: boolean;
+}
+
 // Helper to safely convert Json to Note[]
 function jsonToNotes(json: Json | null): Note[] {
   if (!json || !Array.isArray(json)) return [];
@@ -151,6 +162,31 @@ export async function addVendor(vendor: Omit<Vendor, "id" | "createdAt" | "updat
   };
 }
 
+// Preferred vendor per part number, used to group reorder suggestions
+export async function getPartVendors(): Promise<Record<string, string>> {
+  const { data, error } = await supabase
+    .from('part_vendors')
+    .select('part_number, vendor_id');
+
+  if (error) throw error;
+
+  return (data || []).reduce((acc, row) => {
+    acc[row.part_number] = row.vendor_id;
+    return acc;
+  }, {} as Record<string, string>);
+}
+
+export async function setPartVendor(partNumber: string, vendorId: string): Promise<void> {
+  const { error } = await supabase
+    .from('part_vendors')
+    .upsert(
+      { tenant_id: requireTenantId(), part_number: partNumber, vendor_id: vendorId },
+      { onConflict: 'tenant_id,part_number' }
+    );
+
+  if (error) throw error;
+}
+
 // Purchase Orders
 export async function getPurchaseOrders(): Promise<PurchaseOrder[]> {
   const { data, error } = await supabase
@@ -177,14 +213,17 @@ export async function getPurchaseOrders(): Promise<PurchaseOrder[]> {
   }));
 }
 
-export async function addPurchaseOrder(po: Omit<PurchaseOrder, "id" | "createdAt" | "updatedAt">): Promise<PurchaseOrder> {
+/** Leave poNumber blank to take the next number in the tenant's sequence */
+export async function addPurchaseOrder(
+  po: Omit<PurchaseOrder, "id" | "createdAt" | "updatedAt" | "poNumber"> & { poNumber?: string }
+): Promise<PurchaseOrder> {
   const itemsJson = po.items as unknown as Json;
   
   const { data, error } = await supabase
     .from('purchase_orders')
     .insert({
       tenant_id: requireTenantId(),
-      po_number: po.poNumber,
+      po_number: po.poNumber || undefined,
       vendor_id: po.vendorId,
       vendor_name: po.vendorName,
       status: po.status,
@@ -286,3 +325,49 @@ export async function addPOItems(items: Omit<POItem, "id" | "createdAt">[]): Pro
   
   if (error) throw error;
 }
+
+// Receiving
+/**
+ * Records a shipment against a PO in one database transaction: creates one
+ * inventory item per received unit (or adds to the part's quantity item),
+ * bumps received quantities on both the PO summary and its purchase_order_items
+ * rows, moves the PO to partial/received, and posts the received cost to
+ * inventory / AP. Serials already in inventory are rejected; over-receipts are
+ * accepted as-is.
+ */
+export async function receivePurchaseOrder(
+  po: PurchaseOrder,
+  lines: POReceiptLine[],
+  options: { closeShort?: boolean; warehouseId?: string } = {}
+): Promise<{ purchaseOrder: PurchaseOrder; stockedUnits: number }> {
+  const receiving = lines.filter(line => line.quantity > 0 && po.items[line.lineIndex]);
+
+  const { data, error } = await supabase.rpc('receive_purchase_order', {
+    _po_id: po.id,
+    _lines: receiving.map(line => ({
+      line_index: line.lineIndex,
+      quantity: line.quantity,
+      // What this screen saw, so a receipt recorded meanwhile isn't counted twice
+      received_quantity: po.items[line.lineIndex].receivedQuantity || 0,
+      serial_numbers: line.trackByQuantity ? [] : line.serialNumbers.map(sn => sn.trim()),
+      shelf_location: line.shelfLocation?.trim() || null,
+      sale_price: line.salePrice,
+      track_by_quantity: !!line.trackByQuantity,
+    })),
+    _warehouse_id: options.warehouseId,
+    _close_short: !!options.closeShort,
+  });
+
+  if (error) throw error;
+  const row = data?.[0];
+  if (!row) throw new Error(`Receipt for ${po.poNumber} was not recorded`);
+
+  return {
+    purchaseOrder: {
+      ...po,
+      items: jsonToPOItems(row.po_items),
+      status: row.po_status as PurchaseOrder['status'],
+    },
+    stockedUnits: row.stocked_units,
+  };
+}
@@ -0,0 +1,317 @@
+// Margin guardrails. Each tenant sets a pricing floor (item minimum sale
+// prices, a minimum margin % over cost, a maximum discount %). The
+// apply_pricing_guardrails trigger on quotes and invoices records violations
+// and holds the document for owner approval; checkPricing mirrors its rules
+// so the editors can show margins and problems while the user types.
+import { supabase } from "@/integrations/supabase/client";
+import { requireTenantId } from "@/lib/tenant-context";
+
+export type PricingApprovalStatus = 'not_required' | 'pending' | 'approved' | 'rejected';
+
+export type PricingViolationCode = 'below_min_price' | 'low_line_margin' | 'discount_over_max' | 'low_document_margin';
+
+export interface PricingViolation {
+  code: PricingViolationCode;
+  itemId?: string;
+  partNumber?: string;
+  message: string;
+}
+
+export interface PricingGuardrails {
+  enforceMinSalePrice: boolean;
+  /** Lowest acceptable (price - cost) / price, per line and after the discount */
+  minMarginPercent: number | null;
+  /** Largest discount as a % of the subtotal */
+  maxDiscountPercent: number | null;
+}
+
+/** What applies until an owner saves their own rules */
+export const DEFAULT_PRICING_GUARDRAILS: PricingGuardrails = {
+  enforceMinSalePrice: true,
+  minMarginPercent: null,
+  maxDiscountPercent: null,
+};
+
+/** Unit cost and minimum sale price of an inventory item */
+export interface ItemPricingFloor {
+  cost?: number;
+  minSalePrice?: number;
+}
+
+export interface PricingLine {
+  itemId: string;
+  partNumber: string;
+  price: number;
+  quantity?: number;
+}
+
+export interface LinePricing {
+  cost?: number;
+  minSalePrice?: number;
+  marginPercent: number | null;
+  violations: PricingViolation[];
+}
+
+export interface PricingCheck {
+  lines: LinePricing[];
+  subtotal: number;
+  /** Subtotal less the discount; shipping and tax are pass-through */
+  revenue: number;
+  cost: number;
+  margin: number;
+  marginPercent: number | null;
+  violations: PricingViolation[];
+}
+
+export const getMarginPercent = (price: number, cost: number): number | null =>
+  price > 0 ? ((price - cost) / price) * 100 : null;
+
+const money = (value: number) => value.toFixed(2);
+const percent = (value: number | null) => (value === null ? 'negative' : value.toFixed(1));
+
+/** Same rules, in the same order, as public.pricing_guardrail_violations */
+export const checkPricing = (
+  lines: PricingLine[],
+  discount: number,
+  rules: PricingGuardrails,
+  floors: Map<string, ItemPricingFloor>
+): PricingCheck => {
+  let subtotal = 0;
+  let cost = 0;
+  const violations: PricingViolation[] = [];
+
+  const linePricing = lines.map((line): LinePricing => {
+    const quantity = line.quantity || 1;
+    const floor = floors.get(line.itemId);
+    const lineViolations: PricingViolation[] = [];
+    subtotal += line.price * quantity;
+    cost += (floor?.cost || 0) * quantity;
+
+    if (rules.enforceMinSalePrice && floor?.minSalePrice !== undefined && line.price < floor.minSalePrice) {
+      lineViolations.push({
+        code: 'below_min_price',
+        itemId: line.itemId,
+        partNumber: line.partNumber,
+        message: `${line.partNumber} is priced at $${money(line.price)}, below its $${money(floor.minSalePrice)} minimum`,
+      });
+    }
+
+    const marginPercent = floor?.cost !== undefined ? getMarginPercent(line.price, floor.cost) : null;
+    if (rules.minMarginPercent !== null && floor?.cost && floor.cost > 0) {
+      if (marginPercent === null || marginPercent < rules.minMarginPercent) {
+        lineViolations.push({
+          code: 'low_line_margin',
+          itemId: line.itemId,
+          partNumber: line.partNumber,
+          message: `${line.partNumber} has a ${percent(marginPercent)}% margin, below the ${rules.minMarginPercent}% floor`,
+        });
+      }
+    }
+
+    violations.push(...lineViolations);
+    return { cost: floor?.cost, minSalePrice: floor?.minSalePrice, marginPercent, violations: lineViolations };
+  });
+
+  if (rules.maxDiscountPercent !== null && discount > 0 && subtotal > 0 && (discount / subtotal) * 100 > rules.maxDiscountPercent) {
+    violations.push({
+      code: 'discount_over_max',
+      message: `Discount of ${percent((discount / subtotal) * 100)}% is over the ${rules.maxDiscountPercent}% maximum`,
+    });
+  }
+
+  const revenue = subtotal - discount;
+  const marginPercent = cost > 0 ? getMarginPercent(revenue, cost) : null;
+  if (rules.minMarginPercent !== null && discount > 0 && cost > 0) {
+    if (marginPercent === null || marginPercent < rules.minMarginPercent) {
+      violations.push({
+        code: 'low_document_margin',
+        message: `After the discount the margin is ${percent(marginPercent)}%, below the ${rules.minMarginPercent}% floor`,
+      });
+    }
+  }
+
+  return { lines: linePricing, subtotal, revenue, cost, margin: revenue - cost, marginPercent, violations };
+};
+
+export const getPricingApprovalState = (
+  status?: PricingApprovalStatus
+): { label: string; variant: "default" | "secondary" | "outline" | "destructive" } | null => {
+  switch (status) {
+    case 'pending': return { label: 'Pricing approval pending', variant: 'secondary' };
+    case 'approved': return { label: 'Pricing approved', variant: 'outline' };
+    case 'rejected': return { label: 'Pricing rejected', variant: 'destructive' };
+    default: return null;
+  }
+};
+
+/**
+ * Whether two violation lists are identical. The server keeps an approval or
+ * rejection only while the violations (prices included) are unchanged.
+ */
+export const hasSameViolations = (a: PricingViolation[], b: PricingViolation[]): boolean => {
+  const key = (list: PricingViolation[]) => list.map(v => `${v.code}:${v.itemId || ''}:${v.message}`).sort().join('|');
+  return key(a) === key(b);
+};
+
+/** Documents in these states can't be finalized or go to the customer */
+export const isAwaitingPricingApproval = (status?: PricingApprovalStatus): boolean =>
+  status === 'pending' || status === 'rejected';
+
+// ---- Rules ----
+
+export const getPricingGuardrails = async (): Promise<PricingGuardrails> => {
+  const { data, error } = await supabase
+    .from('pricing_guardrails')
+    .select('enforce_min_sale_price, min_margin_percent, max_discount_percent')
+    .eq('tenant_id', requireTenantId())
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return DEFAULT_PRICING_GUARDRAILS;
+  return {
+    enforceMinSalePrice: data.enforce_min_sale_price,
+    minMarginPercent: data.min_margin_percent !== null ? Number(data.min_margin_percent) : null,
+    maxDiscountPercent: data.max_discount_percent !== null ? Number(data.max_discount_percent) : null,
+  };
+};
+
+export const savePricingGuardrails = async (rules: PricingGuardrails): Promise<void> => {
+  const { error } = await supabase
+    .from('pricing_guardrails')
+    .upsert(
+      {
+        tenant_id: requireTenantId(),
+        enforce_min_sale_price: rules.enforceMinSalePrice,
+        min_margin_percent: rules.minMarginPercent,
+        max_discount_percent: rules.maxDiscountPercent,
+      },
+      { onConflict: 'tenant_id' }
+    );
+  if (error) throw error;
+};
+
+/** Cost and minimum price for the items on a document, sold or not */
+export const getItemPricingFloors = async (itemIds: string[]): Promise<Map<string, ItemPricingFloor>> => {
+  const ids = [...new Set(itemIds.filter(Boolean))];
+  if (ids.length === 0) return new Map();
+  const { data, error } = await supabase
+    .from('items')
+    .select('id, cost, min_sale_price')
+    .in('id', ids);
+  if (error) throw error;
+  return new Map((data || []).map(row => [row.id, {
+    cost: row.cost !== null ? Number(row.cost) : undefined,
+    minSalePrice: row.min_sale_price !== null ? Number(row.min_sale_price) : undefined,
+  }]));
+};
+
+// ---- Approval queue ----
+
+export type PricingDocumentType = 'quote' | 'invoice';
+
+export interface PricingApprovalRequest {
+  documentType: PricingDocumentType;
+  documentId: string;
+  documentNumber: string;
+  customerName: string;
+  salesmanName?: string;
+  subtotal: number;
+  discount: number;
+  total: number;
+  status: PricingApprovalStatus;
+  violations: PricingViolation[];
+  requestedBy?: string;
+  requestedByName?: string;
+  requestedAt?: string;
+  decidedAt?: string;
+  note?: string;
+}
+
+type ApprovalRow = {
+  id: string;
+  customer_name: string;
+  salesman_name: string | null;
+  subtotal: number;
+  discount: number | null;
+  total: number;
+  pricing_approval_status: string;
+  pricing_violations: unknown;
+  pricing_approval_requested_by: string | null;
+  pricing_approval_requested_at: string | null;
+  pricing_approval_decided_at: string | null;
+  pricing_approval_note: string | null;
+};
+
+const APPROVAL_COLUMNS = 'id, customer_name, salesman_name, subtotal, discount, total, pricing_approval_status, pricing_violations, pricing_approval_requested_by, pricing_approval_requested_at, pricing_approval_decided_at, pricing_approval_note';
+
+const convertApprovalFromDB = (
+  documentType: PricingDocumentType,
+  row: ApprovalRow & { quote_number?: string; invoice_number?: string },
+  names: Map<string, string>
+): PricingApprovalRequest => ({
+  documentType,
+  documentId: row.id,
+  documentNumber: (documentType === 'quote' ? row.quote_number : row.invoice_number) || '',
+  customerName: row.customer_name,
+  salesmanName: row.salesman_name || undefined,
+  subtotal: Number(row.subtotal),
+  discount: Number(row.discount || 0),
+  total: Number(row.total),
+  status: row.pricing_approval_status as PricingApprovalStatus,
+  violations: (row.pricing_violations as PricingViolation[]) || [],
+  requestedBy: row.pricing_approval_requested_by || undefined,
+  requestedByName: row.pricing_approval_requested_by ? names.get(row.pricing_approval_requested_by) : undefined,
+  requestedAt: row.pricing_approval_requested_at || undefined,
+  decidedAt: row.pricing_approval_decided_at || undefined,
+  note: row.pricing_approval_note || undefined,
+});
+
+/** Quotes and invoices in the given approval states, oldest request first */
+export const getPricingApprovalRequests = async (
+  statuses: PricingApprovalStatus[] = ['pending']
+): Promise<PricingApprovalRequest[]> => {
+  const [quotes, invoices] = await Promise.all([
+    supabase.from('quotes').select(`${APPROVAL_COLUMNS}, quote_number`).in('pricing_approval_status', statuses),
+    supabase.from('invoices').select(`${APPROVAL_COLUMNS}, invoice_number`).in('pricing_approval_status', statuses),
+  ]);
+  if (quotes.error) throw quotes.error;
+  if (invoices.error) throw invoices.error;
+
+  const quoteRows = (quotes.data || []) as Array<ApprovalRow & { quote_number: string }>;
+  const invoiceRows = (invoices.data || []) as Array<ApprovalRow & { invoice_number: string }>;
+  const requesterIds = [...new Set(
+    [...quoteRows, ...invoiceRows].map(row => row.pricing_approval_requested_by).filter((id): id is string => !!id)
+  )];
+
+  const names = new Map<string, string>();
+  if (requesterIds.length > 0) {
+    const { data: profiles, error } = await supabase
+      .from('profiles')
+      .select('user_id, full_name')
+      .in('user_id', requesterIds);
+    if (error) throw error;
+    for (const profile of profiles || []) {
+      if (profile.full_name) names.set(profile.user_id, profile.full_name);
+    }
+  }
+
+  return [
+    ...quoteRows.map(row => convertApprovalFromDB('quote', row, names)),
+    ...invoiceRows.map(row => convertApprovalFromDB('invoice', row, names)),
+  ].sort((a, b) => (a.requestedAt || '').localeCompare(b.requestedAt || ''));
+};
+
+export const decidePricingApproval = async (
+  documentType: PricingDocumentType,
+  documentId: string,
+  approve: boolean,
+  note?: string
+): Promise<PricingApprovalStatus> => {
+  const { data, error } = await supabase.rpc('decide_pricing_approval', {
+    _document_type: documentType,
+    _document_id: documentId,
+    _approve: approve,
+    _note: note || undefined,
+  });
+  if (error) throw error;
+  return data as PricingApprovalStatus;
+};
@@ -0,0 +1,268 @@
+// Product kits: a parent SKU sold as one line made up of component parts.
+// Adding a kit to a document picks stock for every component, so each
+// component is an ordinary line with a real inventory unit behind it; the
+// shared `kit` tag groups them in the editor and on printed documents.
+import { supabase } from "@/integrations/supabase/client";
+import { requireTenantId } from "@/lib/tenant-context";
+import { isQuantityTracked } from "@/lib/inventory-storage-adapter";
+import type { DocLineItem, InventoryItem } from "@/lib/inventory-storage-adapter";
+import type { PrintLineItem } from "@/lib/document-print";
+
+export interface ProductKitComponent {
+  partNumber: string;
+  description?: string;
+  quantity: number;
+}
+
+export interface ProductKit {
+  id: string;
+  partNumber: string;
+  description: string;
+  /** Spread over the components when added; otherwise they keep their sale prices */
+  bundlePrice?: number;
+  /** Default for new document lines: list the components on printed documents */
+  itemizeOnDocuments: boolean;
+  isActive: boolean;
+  components: ProductKitComponent[];
+}
+
+/** Carried by every component line of a kit added to a quote or invoice */
+export interface DocKitInfo {
+  /** Distinguishes two copies of the same kit on one document */
+  groupId: string;
+  kitId: string;
+  partNumber: string;
+  description: string;
+  /** Print the components under the kit line rather than the kit alone */
+  itemized: boolean;
+}
+
+export interface KitComponentStock {
+  partNumber: string;
+  description?: string;
+  needed: number;
+  available: number;
+}
+
+type KitRow = {
+  id: string;
+  part_number: string;
+  description: string;
+  bundle_price: number | null;
+  itemize_on_documents: boolean;
+  is_active: boolean;
+  product_kit_components?: {
+    line_number: number;
+    part_number: string;
+    description: string | null;
+    quantity: number;
+  }[] | null;
+};
+
+function convertKitFromDB(row: KitRow): ProductKit {
+  return {
+    id: row.id,
+    partNumber: row.part_number,
+    description: row.description,
+    bundlePrice: row.bundle_price !== null ? Number(row.bundle_price) : undefined,
+    itemizeOnDocuments: row.itemize_on_documents,
+    isActive: row.is_active,
+    components: [...(row.product_kit_components || [])]
+      .sort((a, b) => a.line_number - b.line_number)
+      .map(c => ({
+        partNumber: c.part_number,
+        description: c.description || undefined,
+        quantity: c.quantity,
+      })),
+  };
+}
+
+export const getProductKits = async (): Promise<ProductKit[]> => {
+  const { data, error } = await supabase
+    .from('product_kits')
+    .select('*, product_kit_components(line_number, part_number, description, quantity)')
+    .order('part_number');
+
+  if (error) throw error;
+  return (data || []).map(convertKitFromDB);
+};
+
+/** Creates the kit when it has no id, otherwise replaces it and its components */
+export const saveProductKit = async (kit: Omit<ProductKit, 'id' | 'isActive'> & { id?: string }): Promise<string> => {
+  const { data, error } = await supabase.rpc('save_product_kit', {
+    _tenant_id: requireTenantId(),
+    _kit_id: kit.id,
+    _part_number: kit.partNumber,
+    _description: kit.description,
+    _bundle_price: kit.bundlePrice,
+    _itemize_on_documents: kit.itemizeOnDocuments,
+    _components: kit.components.map(c => ({
+      partNumber: c.partNumber,
+      description: c.description || '',
+      quantity: c.quantity,
+    })),
+  });
+  if (error) throw error;
+  return data as string;
+};
+
+export const setProductKitActive = async (id: string, isActive: boolean): Promise<void> => {
+  const { error } = await supabase
+    .from('product_kits')
+    .update({ is_active: isActive })
+    .eq('id', id);
+  if (error) throw error;
+};
+
+export const deleteProductKit = async (id: string): Promise<void> => {
+  const { error } = await supabase.from('product_kits').delete().eq('id', id);
+  if (error) throw error;
+};
+
+const samePart = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+type UsedLine = Pick<DocLineItem, 'itemId' | 'quantity'>;
+
+const unitsOnHand = (item: InventoryItem) => (isQuantityTracked(item) ? item.quantityOnHand : 1);
+
+/** Units of each item already taken by lines on the document */
+const getUsedUnits = (lines: UsedLine[]): Map<string, number> => {
+  const used = new Map<string, number>();
+  for (const line of lines) {
+    used.set(line.itemId, (used.get(line.itemId) || 0) + (line.quantity || 1));
+  }
+  return used;
+};
+
+const unitsLeft = (item: InventoryItem, used: Map<string, number>) =>
+  Math.max(0, unitsOnHand(item) - (used.get(item.id) || 0));
+
+/** Stock a component can be picked from: sellable with units not already on the document */
+const getComponentCandidates = (partNumber: string, items: InventoryItem[], used: Map<string, number>) =>
+  items.filter(i =>
+    samePart(i.partNumber, partNumber) &&
+    i.status === 'available' &&
+    !i.inTransitTransferId &&
+    !i.reservedSalesOrderId &&
+    unitsLeft(i, used) > 0
+  );
+
+/** How much of each component is needed for one kit and how much can be picked */
+export const getKitStock = (kit: ProductKit, items: InventoryItem[], docLines: UsedLine[] = []): KitComponentStock[] => {
+  const used = getUsedUnits(docLines);
+  return kit.components.map(component => ({
+    partNumber: component.partNumber,
+    description: component.description,
+    needed: component.quantity,
+    available: getComponentCandidates(component.partNumber, items, used)
+      .reduce((sum, item) => sum + unitsLeft(item, used), 0),
+  }));
+};
+
+export const getKitShortages = (stock: KitComponentStock[]): KitComponentStock[] =>
+  stock.filter(s => s.available < s.needed);
+
+const roundCents = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Reprices lines so they add up to the bundle price, in proportion to their
+ * sale prices (evenly by unit when none have a price). The rounding
+ * remainder goes on a single-unit line so the total comes out exact.
+ */
+export const allocateBundlePrice = (lines: DocLineItem[], bundlePrice: number): DocLineItem[] => {
+  const units = lines.reduce((sum, l) => sum + (l.quantity || 1), 0);
+  const listTotal = lines.reduce((sum, l) => sum + l.price * (l.quantity || 1), 0);
+  if (units === 0) return lines;
+
+  const repriced = lines.map(line => ({
+    ...line,
+    price: roundCents(listTotal > 0 ? line.price * (bundlePrice / listTotal) : bundlePrice / units),
+  }));
+  const remainder = roundCents(bundlePrice - repriced.reduce((sum, l) => sum + l.price * (l.quantity || 1), 0));
+  if (remainder !== 0) {
+    const target = repriced.find(l => (l.quantity || 1) === 1) || repriced[0];
+    target.price = roundCents(target.price + remainder / (target.quantity || 1));
+  }
+  return repriced;
+};
+
+/**
+ * Picks stock for every component of one kit and returns the lines to add.
+ * Throws when any component is short.
+ */
+export const buildKitLines = (
+  kit: ProductKit,
+  items: InventoryItem[],
+  docLines: UsedLine[],
+  getShipFrom: (item: InventoryItem) => string | undefined
+): DocLineItem[] => {
+  const shortages = getKitShortages(getKitStock(kit, items, docLines));
+  if (shortages.length > 0) {
+    throw new Error(`Not enough stock for ${shortages.map(s => `${s.partNumber} (${s.available} of ${s.needed})`).join(', ')}`);
+  }
+
+  const info: DocKitInfo = {
+    groupId: crypto.randomUUID(),
+    kitId: kit.id,
+    partNumber: kit.partNumber,
+    description: kit.description,
+    itemized: kit.itemizeOnDocuments,
+  };
+  const used = getUsedUnits(docLines);
+  const lines: DocLineItem[] = [];
+
+  for (const component of kit.components) {
+    let remaining = component.quantity;
+    for (const item of getComponentCandidates(component.partNumber, items, used)) {
+      if (remaining === 0) break;
+      const quantity = Math.min(remaining, unitsLeft(item, used));
+      if (quantity <= 0) continue;
+      used.set(item.id, (used.get(item.id) || 0) + quantity);
+      remaining -= quantity;
+      lines.push({
+        itemId: item.id,
+        partNumber: item.partNumber,
+        serialNumber: item.serialNumber,
+        description: component.description || item.description,
+        price: item.salePrice,
+        quantity,
+        shipFrom: getShipFrom(item),
+        kit: info,
+      });
+    }
+  }
+
+  return kit.bundlePrice !== undefined ? allocateBundlePrice(lines, kit.bundlePrice) : lines;
+};
+
+export const getKitTotal = (lines: DocLineItem[]): number =>
+  lines.reduce((sum, l) => sum + l.price * (l.quantity || 1), 0);
+
+/**
+ * Shapes document lines for printing: a kit prints as one line at the sum of
+ * its components, followed by the components themselves when it's itemized.
+ */
+export const getPrintLines = <T extends PrintLineItem>(items: T[]): PrintLineItem[] => {
+  const printed: PrintLineItem[] = [];
+  const done = new Set<string>();
+  for (const item of items) {
+    if (!item.kit) {
+      printed.push(item);
+      continue;
+    }
+    const { groupId } = item.kit;
+    if (done.has(groupId)) continue;
+    done.add(groupId);
+    const components = items.filter(i => i.kit?.groupId === groupId);
+    printed.push({
+      partNumber: item.kit.partNumber,
+      description: item.kit.description,
+      price: roundCents(components.reduce((sum, c) => sum + c.price * (c.quantity || 1), 0)),
+      quantity: 1,
+    });
+    if (item.kit.itemized) {
+      printed.push(...components.map(c => ({ ...c, kit: undefined, kitComponent: true })));
+    }
+  }
+  return printed;
+};
@@ -83,6 +83,7 @@ export const NotificationTypes = {
   OFFLINE: "offline",
   ONLINE: "online",
   DATA_UPDATED: "data-updated",
+  TASK_OVERDUE: "task-overdue",
 } as const;
 
 export type NotificationType = typeof NotificationTypes[keyof typeof NotificationTypes];
@@ -121,6 +122,16 @@ export function showConflictNotification(storeName: string, resolved: boolean):
   });
 }
 
+// Show an overdue task reminder; one per task, so repeats replace each other
+export function showTaskReminder(taskId: string, title: string): void {
+  showNotification("Task Overdue", {
+    body: title,
+    tag: `${NotificationTypes.TASK_OVERDUE}-${taskId}`,
+    data: { url: "/dashboard?tab=tasks" },
+    requireInteraction: true,
+  });
+}
+
 // Check if notifications are supported and enabled
 export function getNotificationStatus(): {
   supported: boolean;
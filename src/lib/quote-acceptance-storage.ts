@@ -0,0 +1,203 @@
+// Tokenized quote acceptance. Staff issue links here; the public acceptance
+// page talks only to the quote-acceptance edge function, which holds the
+// service role and validates the token on every call.
+import { supabase } from "@/integrations/supabase/client";
+
+export interface QuoteAcceptanceLink {
+  id: string;
+  quoteId: string;
+  token: string;
+  revision: number;
+  expiresAt: string;
+  convertOnAccept: boolean;
+  createdAt: string;
+  revokedAt?: string;
+  usedAt?: string;
+}
+
+export interface QuoteAcceptance {
+  id: string;
+  quoteId: string;
+  revision: number;
+  signerName: string;
+  poNumber?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  snapshotSha256: string;
+  convertOnAccept: boolean;
+  certificatePath?: string;
+  acceptedAt: string;
+}
+
+/** What the acceptance page shows, as returned by the edge function */
+export interface PublicQuoteView {
+  quote: {
+    quoteNumber: string;
+    revision: string;
+    customerName?: string;
+    customerAddress?: string;
+    shipToName?: string;
+    shipToAddress?: string;
+    salesmanName?: string;
+    items: Array<{ partNumber?: string; serialNumber?: string; description?: string; quantity: number; price: number }>;
+    subtotal: number;
+    discount: number;
+    shipping: number;
+    tax: number;
+    total: number;
+    notes?: string;
+    expiresAt?: string;
+  };
+  linkExpiresAt: string;
+  acceptance: { signerName: string; poNumber?: string; acceptedAt: string; revision: string } | null;
+  blockedReason: string | null;
+}
+
+type LinkRow = {
+  id: string;
+  quote_id: string;
+  token: string;
+  revision: number;
+  expires_at: string;
+  convert_on_accept: boolean;
+  created_at: string;
+  revoked_at: string | null;
+  used_at: string | null;
+};
+
+type AcceptanceRow = {
+  id: string;
+  quote_id: string;
+  revision: number;
+  signer_name: string;
+  po_number: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  snapshot_sha256: string;
+  convert_on_accept: boolean;
+  certificate_path: string | null;
+  accepted_at: string;
+};
+
+const convertLinkFromDB = (row: LinkRow): QuoteAcceptanceLink => ({
+  id: row.id,
+  quoteId: row.quote_id,
+  token: row.token,
+  revision: row.revision,
+  expiresAt: row.expires_at,
+  convertOnAccept: row.convert_on_accept,
+  createdAt: row.created_at,
+  revokedAt: row.revoked_at || undefined,
+  usedAt: row.used_at || undefined,
+});
+
+const convertAcceptanceFromDB = (row: AcceptanceRow): QuoteAcceptance => ({
+  id: row.id,
+  quoteId: row.quote_id,
+  revision: row.revision,
+  signerName: row.signer_name,
+  poNumber: row.po_number || undefined,
+  ipAddress: row.ip_address || undefined,
+  userAgent: row.user_agent || undefined,
+  snapshotSha256: row.snapshot_sha256,
+  convertOnAccept: row.convert_on_accept,
+  certificatePath: row.certificate_path || undefined,
+  acceptedAt: row.accepted_at,
+});
+
+export const getAcceptanceUrl = (token: string): string =>
+  `${window.location.origin}/accept/${token}`;
+
+export const isLinkActive = (link: QuoteAcceptanceLink): boolean =>
+  !link.revokedAt && !link.usedAt && new Date(link.expiresAt).getTime() > Date.now();
+
+export const getAcceptanceLinks = async (quoteId: string): Promise<QuoteAcceptanceLink[]> => {
+  const { data, error } = await supabase
+    .from("quote_acceptance_links")
+    .select("*")
+    .eq("quote_id", quoteId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(convertLinkFromDB);
+};
+
+export const createAcceptanceLink = async (
+  quoteId: string,
+  expiresAt: Date,
+  convertOnAccept: boolean
+): Promise<QuoteAcceptanceLink> => {
+  const { data, error } = await supabase.rpc('create_quote_acceptance_link', {
+    _quote_id: quoteId,
+    _expires_at: expiresAt.toISOString(),
+    _convert_on_accept: convertOnAccept,
+  });
+
+  if (error) throw error;
+  return convertLinkFromDB(data as LinkRow);
+};
+
+export const revokeAcceptanceLink = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from("quote_acceptance_links")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", id);
+
+  if (error) throw error;
+};
+
+/** All acceptances, keyed by quote id */
+export const getQuoteAcceptances = async (): Promise<Record<string, QuoteAcceptance>> => {
+  const { data, error } = await supabase
+    .from("quote_acceptances")
+    .select("id, quote_id, revision, signer_name, po_number, ip_address, user_agent, snapshot_sha256, convert_on_accept, certificate_path, accepted_at");
+
+  if (error) throw error;
+  const byQuote: Record<string, QuoteAcceptance> = {};
+  for (const row of data || []) {
+    byQuote[row.quote_id] = convertAcceptanceFromDB(row);
+  }
+  return byQuote;
+};
+
+/** Quote ids that already have a finalized invoice */
+export const getInvoicedQuoteIds = async (): Promise<Set<string>> => {
+  const { data, error } = await supabase
+    .from("invoices")
+    .select("source_quote_id")
+    .eq("status", "finalized")
+    .not("source_quote_id", "is", null);
+
+  if (error) throw error;
+  return new Set((data || []).map((row) => row.source_quote_id as string));
+};
+
+export const getCertificateUrl = async (path: string): Promise<string> => {
+  const { data, error } = await supabase.storage.from('quote-acceptances').createSignedUrl(path, 3600);
+  if (error) throw error;
+  return data.signedUrl;
+};
+
+// ---- Public acceptance page ----
+
+const invokeAcceptance = async <T,>(body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke('quote-acceptance', { body });
+  if (error) {
+    // Surface the function's own message (expired, already accepted...) rather than a generic HTTP error
+    const context = (error as { context?: Response }).context;
+    const payload = context ? await context.json().catch(() => null) : null;
+    throw new Error(payload?.error || error.message);
+  }
+  return data as T;
+};
+
+export const getPublicQuote = (token: string): Promise<PublicQuoteView> =>
+  invokeAcceptance<PublicQuoteView>({ action: "view", token });
+
+export const submitQuoteAcceptance = (params: {
+  token: string;
+  signerName: string;
+  poNumber?: string;
+  signature: string;
+}): Promise<{ success: boolean; acceptedAt: string }> =>
+  invokeAcceptance({ action: "accept", ...params });
@@ -0,0 +1,211 @@
+// Quote revision history. Revisions are recorded by a trigger on the quotes
+// table whenever a non-draft quote's content changes, so every save path
+// (dialog, autosave, conversions) is covered and rows are never edited.
+import { supabase } from "@/integrations/supabase/client";
+import type { DocLineItem } from "@/lib/inventory-storage-adapter";
+import type { DocLineItem as DBDocLineItem } from "@/lib/supabase-storage";
+
+export interface QuoteSnapshot {
+  quoteNumber: string;
+  customerName?: string;
+  customerEmail?: string;
+  customerPhone?: string;
+  customerAddress?: string;
+  shipToName?: string;
+  shipToAddress?: string;
+  salesmanName?: string;
+  items: DocLineItem[];
+  subtotal: number;
+  discount: number;
+  shippingCost: number;
+  tax: number;
+  notes?: string;
+  total: number;
+  expiresAt?: string;
+}
+
+export interface QuoteRevision {
+  id: string;
+  quoteId: string;
+  revision: number;
+  snapshot: QuoteSnapshot;
+  createdBy?: string;
+  createdByName?: string;
+  createdAt: string;
+}
+
+type QuoteRevisionRow = {
+  id: string;
+  quote_id: string;
+  revision: number;
+  snapshot: unknown;
+  created_by: string | null;
+  created_by_name: string | null;
+  created_at: string;
+};
+
+const convertSnapshotFromDB = (raw: Record<string, unknown>): QuoteSnapshot => {
+  const text = (value: unknown) => (value === null || value === undefined ? undefined : String(value));
+  return {
+    quoteNumber: String(raw.quote_number ?? ""),
+    customerName: text(raw.customer_name),
+    customerEmail: text(raw.customer_email),
+    customerPhone: text(raw.customer_phone),
+    customerAddress: text(raw.customer_address),
+    shipToName: text(raw.ship_to_name),
+    shipToAddress: text(raw.ship_to_address),
+    salesmanName: text(raw.salesman_name),
+    items: ((raw.items as DBDocLineItem[] | null) || []).map(item => ({
+      itemId: item.id,
+      partNumber: item.partNumber,
+      serialNumber: item.serialNumber,
+      description: item.description,
+      price: Number(item.sellPrice) || 0,
+      quantity: item.quantity || 1,
+      taxable: item.taxable,
+      shipFrom: item.shipFrom,
+      kit: item.kit,
+    })),
+    subtotal: Number(raw.subtotal) || 0,
+    discount: Number(raw.discount) || 0,
+    shippingCost: Number(raw.shipping) || 0,
+    tax: Number(raw.tax) || 0,
+    notes: text(raw.notes),
+    total: Number(raw.total) || 0,
+    expiresAt: text(raw.expires_at),
+  };
+};
+
+const convertRevisionFromDB = (row: QuoteRevisionRow): QuoteRevision => ({
+  id: row.id,
+  quoteId: row.quote_id,
+  revision: row.revision,
+  snapshot: convertSnapshotFromDB((row.snapshot as Record<string, unknown>) || {}),
+  createdBy: row.created_by || undefined,
+  createdByName: row.created_by_name || undefined,
+  createdAt: row.created_at,
+});
+
+/** Revisions of a quote, oldest first */
+export const getQuoteRevisions = async (quoteId: string): Promise<QuoteRevision[]> => {
+  const { data, error } = await supabase
+    .from("quote_revisions")
+    .select("*")
+    .eq("quote_id", quoteId)
+    .order("revision", { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(convertRevisionFromDB);
+};
+
+/** 1 → A, 26 → Z, 27 → AA */
+export const getRevisionLetter = (revision: number): string => {
+  let n = Math.floor(revision);
+  if (n < 1) return "";
+  let letter = "";
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+    letter = String.fromCharCode(65 + remainder) + letter;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letter;
+};
+
+export type DiffChange = "added" | "removed" | "changed" | "unchanged";
+
+export interface FieldDiff {
+  label: string;
+  from?: string | number;
+  to?: string | number;
+  change: DiffChange;
+}
+
+export interface LineDiff {
+  key: string;
+  from?: DocLineItem;
+  to?: DocLineItem;
+  change: DiffChange;
+  /** Which of description, price, quantity, taxable differ on a changed line */
+  changedFields: Array<"description" | "price" | "quantity" | "taxable">;
+}
+
+export interface QuoteRevisionDiff {
+  fields: FieldDiff[];
+  lines: LineDiff[];
+  totals: FieldDiff[];
+}
+
+const compareValues = (label: string, from?: string | number, to?: string | number): FieldDiff => {
+  const blank = (value?: string | number) => value === undefined || value === "";
+  let change: DiffChange = "unchanged";
+  if (blank(from) && !blank(to)) change = "added";
+  else if (!blank(from) && blank(to)) change = "removed";
+  else if (from !== to) change = "changed";
+  return { label, from, to, change };
+};
+
+const lineKey = (item: DocLineItem) => item.itemId || `${item.partNumber}|${item.serialNumber || ""}`;
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+/** Line-by-line and field-by-field differences going from `from` to `to` */
+export function diffQuoteRevisions(from: QuoteSnapshot, to: QuoteSnapshot): QuoteRevisionDiff {
+  const fields = [
+    compareValues("Customer", from.customerName, to.customerName),
+    compareValues("Email", from.customerEmail, to.customerEmail),
+    compareValues("Phone", from.customerPhone, to.customerPhone),
+    compareValues("Bill To", from.customerAddress, to.customerAddress),
+    compareValues("Ship To", from.shipToAddress, to.shipToAddress),
+    compareValues("Salesman", from.salesmanName, to.salesmanName),
+    compareValues("Expires", from.expiresAt?.slice(0, 10), to.expiresAt?.slice(0, 10)),
+    compareValues("Notes", from.notes, to.notes),
+  ];
+
+  const toByKey = new Map(to.items.map(item => [lineKey(item), item]));
+  const matched = new Set<string>();
+  const lines: LineDiff[] = [];
+
+  for (const before of from.items) {
+    const key = lineKey(before);
+    const after = toByKey.get(key);
+    if (!after || matched.has(key)) {
+      lines.push({ key, from: before, change: "removed", changedFields: [] });
+      continue;
+    }
+    matched.add(key);
+    const changedFields: LineDiff["changedFields"] = [];
+    if (before.description !== after.description) changedFields.push("description");
+    if (roundMoney(before.price) !== roundMoney(after.price)) changedFields.push("price");
+    if ((before.quantity || 1) !== (after.quantity || 1)) changedFields.push("quantity");
+    if ((before.taxable ?? true) !== (after.taxable ?? true)) changedFields.push("taxable");
+    lines.push({
+      key,
+      from: before,
+      to: after,
+      change: changedFields.length > 0 ? "changed" : "unchanged",
+      changedFields,
+    });
+  }
+
+  for (const after of to.items) {
+    const key = lineKey(after);
+    if (!matched.has(key)) lines.push({ key, to: after, change: "added", changedFields: [] });
+  }
+
+  const money = (label: string, a: number, b: number): FieldDiff => ({
+    label,
+    from: roundMoney(a),
+    to: roundMoney(b),
+    change: roundMoney(a) === roundMoney(b) ? "unchanged" : "changed",
+  });
+
+  const totals = [
+    money("Subtotal", from.subtotal, to.subtotal),
+    money("Discount", from.discount, to.discount),
+    money("Shipping", from.shippingCost, to.shippingCost),
+    money("Tax", from.tax, to.tax),
+    money("Total", from.total, to.total),
+  ];
+
+  return { fields, lines, totals };
+}
@@ -0,0 +1,338 @@
+// Recurring invoice schedules. Each schedule bills a template line set in
+// advance, once per monthly/quarterly/annual period; the recurring-invoices
+// edge function drafts the invoice on the day a period starts. A prorated
+// first period runs from the start date to the first billing day and is
+// charged as its share of a full period. getRecurringPeriod is mirrored in the
+// edge function, so change both together.
+import { addDays, addMonths, differenceInCalendarDays, format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { requireTenantId } from "@/lib/tenant-context";
+import type { Json } from "@/integrations/supabase/types";
+
+export type RecurringFrequency = 'monthly' | 'quarterly' | 'annual';
+
+export type RecurringInvoiceStatus = 'active' | 'paused' | 'cancelled' | 'completed';
+
+export type RecurringRunStatus = 'generated' | 'skipped' | 'failed';
+
+export const RECURRING_FREQUENCIES: RecurringFrequency[] = ['monthly', 'quarterly', 'annual'];
+
+const FREQUENCY_MONTHS: Record<RecurringFrequency, number> = { monthly: 1, quarterly: 3, annual: 12 };
+
+/** A non-inventory line copied onto every generated invoice */
+export interface RecurringLine {
+  partNumber: string;
+  description: string;
+  sellPrice: number;
+  quantity: number;
+  taxable: boolean;
+}
+
+export interface RecurringInvoice {
+  id: string;
+  name: string;
+  customerName: string;
+  customerEmail?: string;
+  customerPhone?: string;
+  customerAddress?: string;
+  shipToName?: string;
+  shipToAddress?: string;
+  salesmanName?: string;
+  items: RecurringLine[];
+  discount: number;
+  shipping: number;
+  notes?: string;
+  frequency: RecurringFrequency;
+  /** yyyy-MM-dd */
+  startDate: string;
+  endDate?: string;
+  /** Day of the month (1-28) full periods start on when the first period is prorated */
+  billingDay: number;
+  prorateFirstPeriod: boolean;
+  /** Start of the next period to bill */
+  nextRunDate: string;
+  status: RecurringInvoiceStatus;
+  lastRunAt?: string;
+  createdAt: string;
+}
+
+export type RecurringInvoiceInput = Omit<RecurringInvoice, 'id' | 'nextRunDate' | 'status' | 'lastRunAt' | 'createdAt'>;
+
+export interface RecurringInvoiceRun {
+  id: string;
+  recurringInvoiceId: string;
+  periodStart: string;
+  periodEnd: string;
+  status: RecurringRunStatus;
+  invoiceId?: string;
+  invoiceNumber?: string;
+  prorationFactor: number;
+  error?: string;
+  createdAt: string;
+}
+
+export interface RecurringPeriod {
+  start: string;
+  end: string;
+  /** Share of a full period billed; below 1 only for a prorated first period */
+  prorationFactor: number;
+}
+
+export const getRecurringFrequencyLabel = (frequency: RecurringFrequency): string => {
+  const labels: Record<RecurringFrequency, string> = {
+    monthly: 'Monthly',
+    quarterly: 'Quarterly',
+    annual: 'Annual',
+  };
+  return labels[frequency];
+};
+
+export const getRecurringStatusLabel = (status: RecurringInvoiceStatus): string => {
+  const labels: Record<RecurringInvoiceStatus, string> = {
+    active: 'Active',
+    paused: 'Paused',
+    cancelled: 'Cancelled',
+    completed: 'Completed',
+  };
+  return labels[status];
+};
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+type PeriodRules = Pick<RecurringInvoice, 'frequency' | 'startDate' | 'billingDay' | 'prorateFirstPeriod'>;
+
+/** First billing day after the start date, when the first period is a prorated stub */
+const getFirstBillingDate = (rules: PeriodRules): Date | null => {
+  const start = parseISO(rules.startDate);
+  if (!rules.prorateFirstPeriod || start.getDate() === rules.billingDay) return null;
+  const sameMonth = new Date(start.getFullYear(), start.getMonth(), rules.billingDay);
+  return sameMonth > start ? sameMonth : addMonths(sameMonth, 1);
+};
+
+/** The billing period starting on periodStart */
+export const getRecurringPeriod = (rules: PeriodRules, periodStart: string): RecurringPeriod => {
+  const months = FREQUENCY_MONTHS[rules.frequency];
+  const firstBilling = getFirstBillingDate(rules);
+
+  if (firstBilling && periodStart === rules.startDate) {
+    const fullPeriodDays = differenceInCalendarDays(firstBilling, addMonths(firstBilling, -months));
+    const stubDays = differenceInCalendarDays(firstBilling, parseISO(rules.startDate));
+    return {
+      start: periodStart,
+      end: toDateString(addDays(firstBilling, -1)),
+      prorationFactor: Math.round((stubDays / fullPeriodDays) * 10000) / 10000,
+    };
+  }
+
+  // Boundaries are counted from the anchor so month-end dates don't drift (Jan 31 → Feb 28 → Mar 31)
+  const anchor = firstBilling || parseISO(rules.startDate);
+  const start = parseISO(periodStart);
+  let next = anchor;
+  for (let k = 1; next <= start; k++) {
+    next = addMonths(anchor, k * months);
+  }
+  return { start: periodStart, end: toDateString(addDays(next, -1)), prorationFactor: 1 };
+};
+
+/** Periods still to be billed, starting with the next one */
+export const getUpcomingPeriods = (schedule: RecurringInvoice, count = 6): RecurringPeriod[] => {
+  if (schedule.status === 'cancelled' || schedule.status === 'completed') return [];
+  const periods: RecurringPeriod[] = [];
+  let start = schedule.nextRunDate;
+  while (periods.length < count && (!schedule.endDate || start <= schedule.endDate)) {
+    const period = getRecurringPeriod(schedule, start);
+    periods.push(period);
+    start = toDateString(addDays(parseISO(period.end), 1));
+  }
+  return periods;
+};
+
+export const getRecurringLinesTotal = (lines: RecurringLine[]): number =>
+  lines.reduce((sum, line) => sum + line.sellPrice * (line.quantity || 1), 0);
+
+type ScheduleRow = {
+  id: string;
+  name: string;
+  customer_name: string;
+  customer_email: string | null;
+  customer_phone: string | null;
+  customer_address: string | null;
+  ship_to_name: string | null;
+  ship_to_address: string | null;
+  salesman_name: string | null;
+  items: unknown;
+  discount: number;
+  shipping: number;
+  notes: string | null;
+  frequency: string;
+  start_date: string;
+  end_date: string | null;
+  billing_day: number;
+  prorate_first_period: boolean;
+  next_run_date: string;
+  status: string;
+  last_run_at: string | null;
+  created_at: string;
+};
+
+const convertScheduleFromDB = (row: ScheduleRow): RecurringInvoice => ({
+  id: row.id,
+  name: row.name,
+  customerName: row.customer_name,
+  customerEmail: row.customer_email || undefined,
+  customerPhone: row.customer_phone || undefined,
+  customerAddress: row.customer_address || undefined,
+  shipToName: row.ship_to_name || undefined,
+  shipToAddress: row.ship_to_address || undefined,
+  salesmanName: row.salesman_name || undefined,
+  items: (row.items as RecurringLine[]) || [],
+  discount: Number(row.discount),
+  shipping: Number(row.shipping),
+  notes: row.notes || undefined,
+  frequency: row.frequency as RecurringFrequency,
+  startDate: row.start_date,
+  endDate: row.end_date || undefined,
+  billingDay: row.billing_day,
+  prorateFirstPeriod: row.prorate_first_period,
+  nextRunDate: row.next_run_date,
+  status: row.status as RecurringInvoiceStatus,
+  lastRunAt: row.last_run_at || undefined,
+  createdAt: row.created_at,
+});
+
+const scheduleToDB = (schedule: RecurringInvoiceInput) => ({
+  name: schedule.name,
+  customer_name: schedule.customerName,
+  customer_email: schedule.customerEmail || null,
+  customer_phone: schedule.customerPhone || null,
+  customer_address: schedule.customerAddress || null,
+  ship_to_name: schedule.shipToName || null,
+  ship_to_address: schedule.shipToAddress || null,
+  salesman_name: schedule.salesmanName || null,
+  items: schedule.items as unknown as Json,
+  discount: schedule.discount,
+  shipping: schedule.shipping,
+  notes: schedule.notes || null,
+  frequency: schedule.frequency,
+  start_date: schedule.startDate,
+  end_date: schedule.endDate || null,
+  billing_day: schedule.billingDay,
+  prorate_first_period: schedule.prorateFirstPeriod,
+});
+
+export const getRecurringInvoices = async (): Promise<RecurringInvoice[]> => {
+  const { data, error } = await supabase
+    .from('recurring_invoices')
+    .select('*')
+    .order('next_run_date');
+  if (error) throw error;
+  return (data || []).map(convertScheduleFromDB);
+};
+
+export const addRecurringInvoice = async (schedule: RecurringInvoiceInput): Promise<RecurringInvoice> => {
+  const { data, error } = await supabase
+    .from('recurring_invoices')
+    .insert({
+      tenant_id: requireTenantId(),
+      ...scheduleToDB(schedule),
+      next_run_date: schedule.startDate,
+    })
+    .select()
+    .single();
+  if (error) throw error;
+  return convertScheduleFromDB(data);
+};
+
+/**
+ * Saves template and customer changes; they apply from the next generated
+ * invoice. The schedule's dates can only change until its first period is billed.
+ */
+export const updateRecurringInvoice = async (
+  schedule: RecurringInvoice,
+  changes: RecurringInvoiceInput
+): Promise<void> => {
+  const runs = await getRecurringInvoiceRuns(schedule.id);
+  const billed = runs.some(run => run.status !== 'failed');
+  const datesChanged = changes.startDate !== schedule.startDate ||
+    changes.frequency !== schedule.frequency ||
+    changes.billingDay !== schedule.billingDay ||
+    changes.prorateFirstPeriod !== schedule.prorateFirstPeriod;
+  if (billed && datesChanged) {
+    throw new Error('The start date, frequency and proration are fixed once a period has been billed');
+  }
+
+  const { error } = await supabase
+    .from('recurring_invoices')
+    .update({
+      ...scheduleToDB(changes),
+      ...(datesChanged ? { next_run_date: changes.startDate } : {}),
+    })
+    .eq('id', schedule.id);
+  if (error) throw error;
+};
+
+export const setRecurringInvoiceStatus = async (id: string, status: 'active' | 'paused' | 'cancelled'): Promise<void> => {
+  const { error } = await supabase
+    .from('recurring_invoices')
+    .update({ status })
+    .eq('id', id);
+  if (error) throw error;
+};
+
+/** Logs the next period as skipped and moves the schedule on to the one after */
+export const skipRecurringInvoicePeriod = async (schedule: RecurringInvoice): Promise<string> => {
+  const period = getRecurringPeriod(schedule, schedule.nextRunDate);
+  const { data, error } = await supabase.rpc('skip_recurring_invoice_period', {
+    _recurring_invoice_id: schedule.id,
+    _period_end: period.end,
+  });
+  if (error) throw error;
+  return data as string;
+};
+
+/**
+ * Reactivates a paused schedule. Periods that ended while it was paused are
+ * skipped rather than billed in one go; the current period is still billed.
+ */
+export const resumeRecurringInvoice = async (schedule: RecurringInvoice): Promise<number> => {
+  const today = toDateString(new Date());
+  let current = schedule;
+  let skipped = 0;
+  while (getRecurringPeriod(current, current.nextRunDate).end < today) {
+    const nextRunDate = await skipRecurringInvoicePeriod(current);
+    current = { ...current, nextRunDate };
+    skipped++;
+    if (current.endDate && nextRunDate > current.endDate) return skipped;
+  }
+  await setRecurringInvoiceStatus(schedule.id, 'active');
+  return skipped;
+};
+
+export const deleteRecurringInvoice = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('recurring_invoices')
+    .delete()
+    .eq('id', id);
+  if (error) throw error;
+};
+
+export const getRecurringInvoiceRuns = async (recurringInvoiceId: string): Promise<RecurringInvoiceRun[]> => {
+  const { data, error } = await supabase
+    .from('recurring_invoice_runs')
+    .select('*, invoices(invoice_number)')
+    .eq('recurring_invoice_id', recurringInvoiceId)
+    .order('period_start', { ascending: false });
+  if (error) throw error;
+  return (data || []).map(row => ({
+    id: row.id,
+    recurringInvoiceId: row.recurring_invoice_id,
+    periodStart: row.period_start,
+    periodEnd: row.period_end,
+    status: row.status as RecurringRunStatus,
+    invoiceId: row.invoice_id || undefined,
+    invoiceNumber: row.invoices?.invoice_number || undefined,
+    prorationFactor: Number(row.proration_factor),
+    error: row.error || undefined,
+    createdAt: row.created_at,
+  }));
+};
@@ -0,0 +1,147 @@
+// Reorder suggestions from min/max levels. Stock is summed per part number
+// across rows and locations, open POs count as on order, and recent sales
+// velocity covers demand while the new order is in transit.
+import { getOnHandQuantity, type InventoryItem } from "@/lib/inventory-storage";
+import type { InventoryMovement } from "@/lib/inventory-movement-storage";
+import type { PurchaseOrder } from "@/lib/po-storage";
+
+export interface ReorderSuggestion {
+  partNumber: string;
+  description: string;
+  onHand: number;
+  onOrder: number;
+  minLevel?: number;
+  maxLevel?: number;
+  unitsSold: number;
+  dailyVelocity: number;
+  /** Days the current stock lasts at the recent sales rate; undefined with no sales */
+  daysOfCover?: number;
+  suggestedQuantity: number;
+  /** Preferred vendor, else the vendor on the part's most recent PO */
+  vendorId?: string;
+  unitCost: number;
+}
+
+export interface ReorderOptions {
+  velocityDays: number;
+  leadTimeDays: number;
+}
+
+interface PartStock {
+  description: string;
+  onHand: number;
+  minLevel?: number;
+  maxLevel?: number;
+  cost: number;
+}
+
+const maxDefined = (a: number | undefined, b: number | undefined): number | undefined =>
+  a === undefined ? b : b === undefined ? a : Math.max(a, b);
+
+function groupStockByPart(items: InventoryItem[]): Map<string, PartStock> {
+  const parts = new Map<string, PartStock>();
+  for (const item of items) {
+    if (!item.partNumber) continue;
+    const part = parts.get(item.partNumber) || { description: item.description, onHand: 0, cost: 0 };
+    part.onHand += getOnHandQuantity(item);
+    // Serialized rows each carry their own levels; the highest wins
+    part.minLevel = maxDefined(part.minLevel, item.minReorderLevel);
+    part.maxLevel = maxDefined(part.maxLevel, item.maxReorderLevel);
+    if (item.cost) part.cost = item.cost;
+    parts.set(item.partNumber, part);
+  }
+  return parts;
+}
+
+/** Part numbers at or below their minimum level */
+export function getLowStockPartNumbers(items: InventoryItem[]): string[] {
+  return Array.from(groupStockByPart(items).entries())
+    .filter(([, part]) => part.minLevel !== undefined && part.onHand <= part.minLevel)
+    .map(([partNumber]) => partNumber);
+}
+
+/**
+ * Units sold per part number since `since`: sold serialized units by sale
+ * date, plus net 'sale' movements on quantity-tracked items.
+ */
+export function getUnitsSoldByPart(
+  items: InventoryItem[],
+  saleMovements: InventoryMovement[],
+  since: string
+): Record<string, number> {
+  const sold: Record<string, number> = {};
+  const partByItemId = new Map(items.map(item => [item.id, item.partNumber]));
+
+  for (const item of items) {
+    if (item.status === 'sold' && item.trackingMode !== 'quantity' && item.soldDate && item.soldDate >= since) {
+      sold[item.partNumber] = (sold[item.partNumber] || 0) + 1;
+    }
+  }
+
+  for (const movement of saleMovements) {
+    const partNumber = partByItemId.get(movement.itemId);
+    if (!partNumber) continue;
+    // Sales move stock out (negative), reversals bring it back
+    sold[partNumber] = (sold[partNumber] || 0) - movement.quantityChange;
+  }
+
+  return sold;
+}
+
+export function buildReorderSuggestions(
+  items: InventoryItem[],
+  purchaseOrders: PurchaseOrder[],
+  unitsSoldByPart: Record<string, number>,
+  partVendors: Record<string, string>,
+  options: ReorderOptions
+): ReorderSuggestion[] {
+  const onOrder: Record<string, number> = {};
+  const lastPurchase: Record<string, { vendorId: string; unitCost: number }> = {};
+
+  // getPurchaseOrders returns newest first, so the first hit is the latest price
+  for (const po of purchaseOrders) {
+    if (po.status === 'cancelled') continue;
+    for (const line of po.items) {
+      if (!line.partNumber) continue;
+      if (!lastPurchase[line.partNumber] && po.vendorId) {
+        lastPurchase[line.partNumber] = { vendorId: po.vendorId, unitCost: line.unitCost };
+      }
+      if (po.status === 'pending' || po.status === 'partial') {
+        const outstanding = line.quantity - (line.receivedQuantity || 0);
+        if (outstanding > 0) onOrder[line.partNumber] = (onOrder[line.partNumber] || 0) + outstanding;
+      }
+    }
+  }
+
+  const suggestions: ReorderSuggestion[] = [];
+  for (const [partNumber, part] of groupStockByPart(items)) {
+    if (part.minLevel === undefined && part.maxLevel === undefined) continue;
+
+    const unitsSold = Math.max(unitsSoldByPart[partNumber] || 0, 0);
+    const dailyVelocity = options.velocityDays > 0 ? unitsSold / options.velocityDays : 0;
+    const leadTimeDemand = Math.ceil(dailyVelocity * options.leadTimeDays);
+    const projected = part.onHand + (onOrder[partNumber] || 0) - leadTimeDemand;
+    const minLevel = part.minLevel ?? 0;
+    const target = part.maxLevel ?? minLevel;
+
+    suggestions.push({
+      partNumber,
+      description: part.description,
+      onHand: part.onHand,
+      onOrder: onOrder[partNumber] || 0,
+      minLevel: part.minLevel,
+      maxLevel: part.maxLevel,
+      unitsSold,
+      dailyVelocity,
+      daysOfCover: dailyVelocity > 0 ? Math.floor(part.onHand / dailyVelocity) : undefined,
+      // Min/max: once projected stock drops to the minimum, order back up to the maximum
+      suggestedQuantity: projected <= minLevel ? Math.max(target - projected, 1) : 0,
+      vendorId: partVendors[partNumber] || lastPurchase[partNumber]?.vendorId,
+      unitCost: lastPurchase[partNumber]?.unitCost ?? part.cost,
+    });
+  }
+
+  return suggestions.sort((a, b) =>
+    b.suggestedQuantity - a.suggestedQuantity || a.partNumber.localeCompare(b.partNumber)
+  );
+}
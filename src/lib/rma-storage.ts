@@ -0,0 +1,408 @@
+// Returns (RMAs) and credit memos. An RMA is opened against a finalized
+// invoice for the units coming back; each line is inspected and given a
+// disposition, then complete_rma restocks or scraps them server-side.
+// issue_credit_memo credits the customer against the invoice balance or as a
+// refund payment.
+import { supabase } from "@/integrations/supabase/client";
+import { requireTenantId } from "@/lib/tenant-context";
+import { printDocument } from "@/lib/document-print";
+import type { PaymentMethod } from "@/lib/invoice-payment-storage";
+import type { DocLineItem, Invoice } from "@/lib/inventory-storage";
+
+export type RmaStatus = 'open' | 'received' | 'closed' | 'cancelled';
+
+export const RETURN_REASONS = ['defective', 'damaged', 'wrong_item', 'not_needed', 'warranty', 'other'] as const;
+
+export type ReturnReason = typeof RETURN_REASONS[number];
+
+export const CONDITION_GRADES = ['new', 'like_new', 'good', 'fair', 'poor'] as const;
+
+export type ConditionGrade = typeof CONDITION_GRADES[number];
+
+export type RmaDisposition = 'pending' | 'restock' | 'scrap';
+
+export type CreditMemoSettlement = 'apply_to_balance' | 'refund';
+
+export interface RmaLine {
+  id: string;
+  itemId?: string;
+  partNumber: string;
+  serialNumber?: string;
+  description?: string;
+  quantity: number;
+  unitPrice: number;
+  unitCost?: number;
+  taxable: boolean;
+  reason: ReturnReason;
+  reportedIssue?: string;
+  inspectionNotes?: string;
+  conditionGrade?: ConditionGrade;
+  disposition: RmaDisposition;
+}
+
+export interface Rma {
+  id: string;
+  rmaNumber: string;
+  invoiceId: string;
+  customerName?: string;
+  status: RmaStatus;
+  notes?: string;
+  lines: RmaLine[];
+  createdAt: string;
+  receivedAt?: string;
+  closedAt?: string;
+}
+
+export interface CreditMemoLine {
+  itemId?: string;
+  partNumber: string;
+  serialNumber?: string;
+  description: string;
+  price: number;
+  quantity: number;
+}
+
+export interface CreditMemo {
+  id: string;
+  creditMemoNumber: string;
+  invoiceId: string;
+  rmaId?: string;
+  customerName?: string;
+  items: CreditMemoLine[];
+  subtotal: number;
+  discount: number;
+  tax: number;
+  total: number;
+  settlement: CreditMemoSettlement;
+  refundPaymentId?: string;
+  notes?: string;
+  createdAt: string;
+}
+
+export const getRmaStatusLabel = (status: RmaStatus): string => {
+  const labels: Record<RmaStatus, string> = {
+    open: 'Awaiting Return',
+    received: 'Received',
+    closed: 'Closed',
+    cancelled: 'Cancelled',
+  };
+  return labels[status];
+};
+
+export const getReturnReasonLabel = (reason: ReturnReason): string => {
+  const labels: Record<ReturnReason, string> = {
+    defective: 'Defective',
+    damaged: 'Damaged in Shipping',
+    wrong_item: 'Wrong Item',
+    not_needed: 'No Longer Needed',
+    warranty: 'Warranty Claim',
+    other: 'Other',
+  };
+  return labels[reason];
+};
+
+export const getConditionGradeLabel = (grade: ConditionGrade): string => {
+  const labels: Record<ConditionGrade, string> = {
+    new: 'New',
+    like_new: 'Like New',
+    good: 'Good',
+    fair: 'Fair',
+    poor: 'Poor',
+  };
+  return labels[grade];
+};
+
+export const getSettlementLabel = (settlement: CreditMemoSettlement): string =>
+  settlement === 'refund' ? 'Refunded' : 'Applied to Balance';
+
+/** Matches an invoice line to RMA lines: by serial for serialized units, else by item */
+const sameUnit = (line: DocLineItem, rmaLine: RmaLine): boolean =>
+  line.serialNumber
+    ? rmaLine.serialNumber === line.serialNumber && rmaLine.partNumber === line.partNumber
+    : rmaLine.itemId === line.itemId && !rmaLine.serialNumber;
+
+/** Invoice lines still eligible for return, with quantities already on other RMAs taken off */
+export const getReturnableLines = (invoice: Invoice, rmas: Rma[]): DocLineItem[] => {
+  const active = rmas.filter(r => r.invoiceId === invoice.id && r.status !== 'cancelled');
+  return invoice.items
+    .filter(line => !!line.itemId)
+    .map(line => {
+      const returned = active
+        .flatMap(r => r.lines)
+        .filter(rmaLine => sameUnit(line, rmaLine))
+        .reduce((sum, rmaLine) => sum + rmaLine.quantity, 0);
+      return { ...line, quantity: (line.quantity || 1) - returned };
+    })
+    .filter(line => (line.quantity || 0) > 0);
+};
+
+/** Estimated credit for an RMA before the memo is issued; the server prorates discount and tax */
+export const estimateRmaCredit = (rma: Rma): number =>
+  rma.lines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0);
+
+type RmaLineRow = {
+  id: string;
+  item_id: string | null;
+  part_number: string;
+  serial_number: string | null;
+  description: string | null;
+  quantity: number;
+  unit_price: number;
+  unit_cost: number | null;
+  taxable: boolean;
+  reason: string;
+  reported_issue: string | null;
+  inspection_notes: string | null;
+  condition_grade: string | null;
+  disposition: string;
+  created_at: string;
+};
+
+type RmaRow = {
+  id: string;
+  rma_number: string;
+  invoice_id: string;
+  customer_name: string | null;
+  status: string;
+  notes: string | null;
+  created_at: string;
+  received_at: string | null;
+  closed_at: string | null;
+  rma_lines?: RmaLineRow[] | null;
+};
+
+type CreditMemoRow = {
+  id: string;
+  credit_memo_number: string;
+  invoice_id: string;
+  rma_id: string | null;
+  customer_name: string | null;
+  items: unknown;
+  subtotal: number;
+  discount: number;
+  tax: number;
+  total: number;
+  settlement: string;
+  refund_payment_id: string | null;
+  notes: string | null;
+  created_at: string;
+};
+
+function convertRmaFromDB(row: RmaRow): Rma {
+  return {
+    id: row.id,
+    rmaNumber: row.rma_number,
+    invoiceId: row.invoice_id,
+    customerName: row.customer_name || undefined,
+    status: row.status as RmaStatus,
+    notes: row.notes || undefined,
+    lines: (row.rma_lines || [])
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .map(line => ({
+        id: line.id,
+        itemId: line.item_id || undefined,
+        partNumber: line.part_number,
+        serialNumber: line.serial_number || undefined,
+        description: line.description || undefined,
+        quantity: line.quantity,
+        unitPrice: Number(line.unit_price),
+        unitCost: line.unit_cost !== null ? Number(line.unit_cost) : undefined,
+        taxable: line.taxable,
+        reason: line.reason as ReturnReason,
+        reportedIssue: line.reported_issue || undefined,
+        inspectionNotes: line.inspection_notes || undefined,
+        conditionGrade: (line.condition_grade as ConditionGrade) || undefined,
+        disposition: line.disposition as RmaDisposition,
+      })),
+    createdAt: row.created_at,
+    receivedAt: row.received_at || undefined,
+    closedAt: row.closed_at || undefined,
+  };
+}
+
+function convertCreditMemoFromDB(row: CreditMemoRow): CreditMemo {
+  const items = (row.items as Array<Record<string, unknown>>) || [];
+  return {
+    id: row.id,
+    creditMemoNumber: row.credit_memo_number,
+    invoiceId: row.invoice_id,
+    rmaId: row.rma_id || undefined,
+    customerName: row.customer_name || undefined,
+    items: items.map(item => ({
+      itemId: (item.id as string) || undefined,
+      partNumber: String(item.partNumber || ''),
+      serialNumber: (item.serialNumber as string) || undefined,
+      description: String(item.description || ''),
+      price: Number(item.sellPrice || 0),
+      quantity: Number(item.quantity || 1),
+    })),
+    subtotal: Number(row.subtotal),
+    discount: Number(row.discount),
+    tax: Number(row.tax),
+    total: Number(row.total),
+    settlement: row.settlement as CreditMemoSettlement,
+    refundPaymentId: row.refund_payment_id || undefined,
+    notes: row.notes || undefined,
+    createdAt: row.created_at,
+  };
+}
+
+export const getRmas = async (): Promise<Rma[]> => {
+  const { data, error } = await supabase
+    .from('rmas')
+    .select('*, rma_lines(*)')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(convertRmaFromDB);
+};
+
+export interface NewRmaLine {
+  line: DocLineItem;
+  quantity: number;
+  reason: ReturnReason;
+  reportedIssue?: string;
+}
+
+/** Opens an RMA for the chosen invoice lines at the price they were invoiced at */
+export const createRma = async (invoice: Invoice, lines: NewRmaLine[], notes?: string): Promise<Rma> => {
+  if (lines.length === 0) throw new Error('Choose at least one line to return');
+  const tenantId = requireTenantId();
+
+  const { data, error } = await supabase
+    .from('rmas')
+    .insert({
+      tenant_id: tenantId,
+      invoice_id: invoice.id,
+      customer_name: invoice.customerName || null,
+      notes: notes || null,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  const { data: lineRows, error: linesError } = await supabase
+    .from('rma_lines')
+    .insert(lines.map(({ line, quantity, reason, reportedIssue }) => ({
+      tenant_id: tenantId,
+      rma_id: data.id,
+      item_id: line.itemId,
+      part_number: line.partNumber,
+      serial_number: line.serialNumber || null,
+      description: line.description || null,
+      quantity,
+      unit_price: line.price,
+      taxable: line.taxable !== false,
+      reason,
+      reported_issue: reportedIssue || null,
+    })))
+    .select();
+
+  if (linesError) throw linesError;
+  return convertRmaFromDB({ ...data, rma_lines: lineRows });
+};
+
+export const setRmaStatus = async (id: string, status: 'received' | 'cancelled'): Promise<void> => {
+  const { error } = await supabase
+    .from('rmas')
+    .update({
+      status,
+      ...(status === 'received' ? { received_at: new Date().toISOString() } : {}),
+    })
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+export const updateRmaLine = async (
+  id: string,
+  updates: Partial<Pick<RmaLine, 'inspectionNotes' | 'conditionGrade' | 'disposition'>>
+): Promise<void> => {
+  const updateData: Record<string, unknown> = {};
+  if (updates.inspectionNotes !== undefined) updateData.inspection_notes = updates.inspectionNotes || null;
+  if (updates.conditionGrade !== undefined) updateData.condition_grade = updates.conditionGrade || null;
+  if (updates.disposition !== undefined) updateData.disposition = updates.disposition;
+
+  const { error } = await supabase
+    .from('rma_lines')
+    .update(updateData)
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+export const deleteRma = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('rmas')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+/** Restocks or scraps every inspected line and closes the RMA */
+export const completeRma = async (id: string, warehouseId?: string): Promise<void> => {
+  const { error } = await supabase.rpc('complete_rma', {
+    _rma_id: id,
+    _warehouse_id: warehouseId,
+  });
+  if (error) throw error;
+};
+
+export const getCreditMemos = async (): Promise<CreditMemo[]> => {
+  const { data, error } = await supabase
+    .from('credit_memos')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(convertCreditMemoFromDB);
+};
+
+export const issueCreditMemo = async (params: {
+  rmaId: string;
+  settlement: CreditMemoSettlement;
+  refundMethod?: PaymentMethod;
+  notes?: string;
+}): Promise<string> => {
+  const { data: memoId, error } = await supabase.rpc('issue_credit_memo', {
+    _rma_id: params.rmaId,
+    _settlement: params.settlement,
+    _refund_method: params.settlement === 'refund' ? params.refundMethod : undefined,
+    _notes: params.notes,
+  });
+  if (error) throw error;
+
+  const { data, error: memoError } = await supabase
+    .from('credit_memos')
+    .select('credit_memo_number')
+    .eq('id', memoId as string)
+    .single();
+  if (memoError) throw memoError;
+  return data.credit_memo_number;
+};
+
+export const printCreditMemo = (memo: CreditMemo, invoice?: Invoice) => {
+  printDocument({
+    type: 'credit_memo',
+    number: memo.creditMemoNumber,
+    date: memo.createdAt,
+    reference: invoice ? `Credit for invoice #${invoice.invoiceNumber}` : undefined,
+    customerName: memo.customerName || invoice?.customerName,
+    customerEmail: invoice?.customerEmail,
+    customerPhone: invoice?.customerPhone,
+    shipToAddress: invoice?.shipToAddress,
+    salesmanName: invoice?.salesmanName,
+    items: memo.items,
+    subtotal: memo.subtotal,
+    discount: memo.discount,
+    shippingCost: 0,
+    tax: memo.tax,
+    total: memo.total,
+    notes: memo.notes,
+    footer: memo.settlement === 'refund'
+      ? 'This credit has been refunded to you.'
+      : 'This credit has been applied to the balance of the referenced invoice.',
+  });
+};
@@ -0,0 +1,277 @@
+// Sales orders sit between an accepted quote and its invoices. Creating one
+// reserves the quote's serialized units; each shipment is invoiced on its own
+// and whatever hasn't shipped yet stays on the order as a backorder.
+// Creating, shipping and cancelling run server-side.
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import * as inventoryStorage from "@/lib/inventory-storage-adapter";
+import type { DocLineItem } from "@/lib/inventory-storage-adapter";
+import {
+  calculateSalesTax,
+  findCustomerCompany,
+  getTaxJurisdictions,
+  getValidExemption,
+} from "@/lib/sales-tax";
+
+export type SalesOrderStatus = 'open' | 'partially_shipped' | 'shipped' | 'cancelled';
+
+export interface SalesOrderLine {
+  id: string;
+  lineNumber: number;
+  itemId?: string;
+  partNumber: string;
+  serialNumber?: string;
+  description?: string;
+  unitPrice: number;
+  quantity: number;
+  quantityShipped: number;
+  taxable: boolean;
+}
+
+export interface SalesOrderShipment {
+  id: string;
+  shipmentNumber: string;
+  invoiceId?: string;
+  invoiceNumber?: string;
+  carrier?: string;
+  trackingNumber?: string;
+  shippedAt: string;
+  /** sales order line id → quantity shipped */
+  lines: { salesOrderLineId: string; quantity: number }[];
+}
+
+export interface SalesOrder {
+  id: string;
+  orderNumber: string;
+  sourceQuoteId?: string;
+  customerName: string;
+  customerEmail?: string;
+  customerPhone?: string;
+  customerAddress?: string;
+  shipToName?: string;
+  shipToAddress?: string;
+  salesmanName?: string;
+  discount: number;
+  shipping: number;
+  notes?: string;
+  status: SalesOrderStatus;
+  lines: SalesOrderLine[];
+  shipments: SalesOrderShipment[];
+  createdAt: string;
+  cancelledAt?: string;
+}
+
+export interface ShipmentLineInput {
+  lineId: string;
+  quantity: number;
+}
+
+export const getSalesOrderStatusLabel = (status: SalesOrderStatus): string => {
+  const labels: Record<SalesOrderStatus, string> = {
+    open: 'Open',
+    partially_shipped: 'Partially Shipped',
+    shipped: 'Shipped',
+    cancelled: 'Cancelled',
+  };
+  return labels[status];
+};
+
+/** Quantity still on backorder for a line */
+export const getBackorderQuantity = (line: SalesOrderLine): number =>
+  line.quantity - line.quantityShipped;
+
+export const getSalesOrderSubtotal = (order: SalesOrder): number =>
+  order.lines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0);
+
+type LineRow = {
+  id: string;
+  line_number: number;
+  item_id: string | null;
+  part_number: string;
+  serial_number: string | null;
+  description: string | null;
+  unit_price: number;
+  quantity: number;
+  quantity_shipped: number;
+  taxable: boolean;
+};
+
+type ShipmentRow = {
+  id: string;
+  shipment_number: string;
+  invoice_id: string | null;
+  carrier: string | null;
+  tracking_number: string | null;
+  shipped_at: string;
+  invoices?: { invoice_number: string } | null;
+  sales_order_shipment_lines?: { sales_order_line_id: string; quantity: number }[] | null;
+};
+
+type OrderRow = {
+  id: string;
+  order_number: string;
+  source_quote_id: string | null;
+  customer_name: string;
+  customer_email: string | null;
+  customer_phone: string | null;
+  customer_address: string | null;
+  ship_to_name: string | null;
+  ship_to_address: string | null;
+  salesman_name: string | null;
+  discount: number;
+  shipping: number;
+  notes: string | null;
+  status: string;
+  created_at: string;
+  cancelled_at: string | null;
+  sales_order_lines?: LineRow[] | null;
+  sales_order_shipments?: ShipmentRow[] | null;
+};
+
+function convertOrderFromDB(row: OrderRow): SalesOrder {
+  return {
+    id: row.id,
+    orderNumber: row.order_number,
+    sourceQuoteId: row.source_quote_id || undefined,
+    customerName: row.customer_name,
+    customerEmail: row.customer_email || undefined,
+    customerPhone: row.customer_phone || undefined,
+    customerAddress: row.customer_address || undefined,
+    shipToName: row.ship_to_name || undefined,
+    shipToAddress: row.ship_to_address || undefined,
+    salesmanName: row.salesman_name || undefined,
+    discount: Number(row.discount),
+    shipping: Number(row.shipping),
+    notes: row.notes || undefined,
+    status: row.status as SalesOrderStatus,
+    lines: (row.sales_order_lines || [])
+      .map(line => ({
+        id: line.id,
+        lineNumber: line.line_number,
+        itemId: line.item_id || undefined,
+        partNumber: line.part_number,
+        serialNumber: line.serial_number || undefined,
+        description: line.description || undefined,
+        unitPrice: Number(line.unit_price),
+        quantity: line.quantity,
+        quantityShipped: line.quantity_shipped,
+        taxable: line.taxable,
+      }))
+      .sort((a, b) => a.lineNumber - b.lineNumber),
+    shipments: (row.sales_order_shipments || [])
+      .map(shipment => ({
+        id: shipment.id,
+        shipmentNumber: shipment.shipment_number,
+        invoiceId: shipment.invoice_id || undefined,
+        invoiceNumber: shipment.invoices?.invoice_number || undefined,
+        carrier: shipment.carrier || undefined,
+        trackingNumber: shipment.tracking_number || undefined,
+        shippedAt: shipment.shipped_at,
+        lines: (shipment.sales_order_shipment_lines || []).map(l => ({
+          salesOrderLineId: l.sales_order_line_id,
+          quantity: l.quantity,
+        })),
+      }))
+      .sort((a, b) => a.shippedAt.localeCompare(b.shippedAt)),
+    createdAt: row.created_at,
+    cancelledAt: row.cancelled_at || undefined,
+  };
+}
+
+export const getSalesOrders = async (): Promise<SalesOrder[]> => {
+  const { data, error } = await supabase
+    .from('sales_orders')
+    .select('*, sales_order_lines(*), sales_order_shipments(*, invoices(invoice_number), sales_order_shipment_lines(sales_order_line_id, quantity))')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(convertOrderFromDB);
+};
+
+/** Quote ids that have a live (not cancelled) sales order */
+export const getQuoteIdsWithSalesOrders = async (): Promise<Set<string>> => {
+  const { data, error } = await supabase
+    .from('sales_orders')
+    .select('source_quote_id')
+    .neq('status', 'cancelled')
+    .not('source_quote_id', 'is', null);
+
+  if (error) throw error;
+  return new Set((data || []).map(row => row.source_quote_id as string));
+};
+
+/** Copies the quote's lines onto a new order and reserves its serialized units */
+export const createSalesOrderFromQuote = async (quoteId: string): Promise<string> => {
+  const { data, error } = await supabase.rpc('create_sales_order_from_quote', {
+    _quote_id: quoteId,
+  });
+  if (error) throw error;
+  return data as string;
+};
+
+export const cancelSalesOrder = async (id: string): Promise<void> => {
+  const { error } = await supabase.rpc('cancel_sales_order', { _sales_order_id: id });
+  if (error) throw error;
+};
+
+const roundCents = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Invoices the given quantities and records them as a shipment, in one
+ * transaction server-side. The order's discount is spread over shipments by
+ * value and its shipping is charged on the first one; tax is worked out here
+ * from the same figures.
+ */
+export const shipSalesOrder = async (
+  order: SalesOrder,
+  shipment: { lines: ShipmentLineInput[]; carrier?: string; trackingNumber?: string }
+): Promise<{ invoiceNumber: string }> => {
+  const shipped = shipment.lines.filter(l => l.quantity > 0);
+  if (shipped.length === 0) throw new Error('Choose at least one line to ship');
+
+  const items: DocLineItem[] = shipped.map(entry => {
+    const line = order.lines.find(l => l.id === entry.lineId);
+    if (!line) throw new Error('Line is not on this order');
+    return {
+      itemId: line.itemId || '',
+      partNumber: line.partNumber,
+      serialNumber: line.serialNumber,
+      description: line.description || '',
+      price: line.unitPrice,
+      quantity: entry.quantity,
+      taxable: line.taxable,
+    };
+  });
+
+  const subtotal = roundCents(items.reduce((sum, item) => sum + item.price * (item.quantity || 1), 0));
+  const orderSubtotal = getSalesOrderSubtotal(order);
+  const discount = orderSubtotal > 0 ? roundCents(order.discount * (subtotal / orderSubtotal)) : 0;
+  const shippingCost = order.shipments.length === 0 ? order.shipping : 0;
+
+  const [jurisdictions, companies, people] = await Promise.all([
+    getTaxJurisdictions(),
+    inventoryStorage.getCompanies(),
+    inventoryStorage.getPeople(),
+  ]);
+  const taxResult = calculateSalesTax({
+    lineItems: items,
+    discount,
+    shippingCost,
+    shipToAddress: order.shipToAddress,
+    jurisdictions,
+    exemptCertificate: getValidExemption(findCustomerCompany(order.customerName, companies, people)),
+  });
+
+  const { data, error } = await supabase.rpc('ship_sales_order', {
+    _sales_order_id: order.id,
+    _lines: shipped.map(l => ({ lineId: l.lineId, quantity: l.quantity })),
+    _tax: taxResult.tax,
+    _tax_details: taxResult.details as unknown as Json,
+    _tax_exempt_certificate: taxResult.exemptCertificate,
+    _carrier: shipment.carrier || undefined,
+    _tracking_number: shipment.trackingNumber || undefined,
+  });
+  if (error) throw error;
+
+  return { invoiceNumber: data };
+};
@@ -0,0 +1,357 @@
+// Sales tax jurisdictions, per-document tax calculation and the collected-tax report.
+// A document's tax is the sum of every active jurisdiction matching its ship-to
+// address: state-level rates apply statewide, county/city/district rates only to
+// the ZIP codes listed on them.
+import { supabase } from "@/integrations/supabase/client";
+import { requireTenantId } from "@/lib/tenant-context";
+import type { Company, Invoice, Person } from "@/lib/inventory-storage";
+
+export const JURISDICTION_LEVELS = ['state', 'county', 'city', 'district'] as const;
+
+export type JurisdictionLevel = typeof JURISDICTION_LEVELS[number];
+
+export interface TaxJurisdiction {
+  id: string;
+  name: string;
+  level: JurisdictionLevel;
+  stateCode: string;
+  postalCodes: string[];
+  /** Percent, e.g. 6.25 */
+  rate: number;
+  taxesShipping: boolean;
+  isActive: boolean;
+  createdAt: string;
+}
+
+/** Stored on invoices/quotes as tax_details so filings don't depend on today's rates */
+export interface TaxDetailLine {
+  jurisdictionId: string;
+  name: string;
+  stateCode: string;
+  rate: number;
+  taxableAmount: number;
+  tax: number;
+}
+
+export interface ShipToLocation {
+  stateCode: string;
+  postalCode?: string;
+}
+
+export interface TaxableLine {
+  price: number;
+  quantity?: number;
+  taxable?: boolean;
+}
+
+export interface SalesTaxResult {
+  location: ShipToLocation | null;
+  details: TaxDetailLine[];
+  tax: number;
+  /** Taxable merchandise after its share of the discount, before shipping */
+  taxableSubtotal: number;
+  exemptCertificate?: string;
+}
+
+export const US_STATE_CODES = [
+  'AL', 'AK', 'AZ', 'AR', 'CA', 'CO', 'CT', 'DE', 'DC', 'FL', 'GA', 'HI', 'ID', 'IL', 'IN', 'IA',
+  'KS', 'KY', 'LA', 'ME', 'MD', 'MA', 'MI', 'MN', 'MS', 'MO', 'MT', 'NE', 'NV', 'NH', 'NJ', 'NM',
+  'NY', 'NC', 'ND', 'OH', 'OK', 'OR', 'PA', 'RI', 'SC', 'SD', 'TN', 'TX', 'UT', 'VT', 'VA', 'WA',
+  'WV', 'WI', 'WY', 'PR',
+];
+
+export const getJurisdictionLevelLabel = (level: JurisdictionLevel): string => {
+  const labels: Record<JurisdictionLevel, string> = {
+    state: 'State',
+    county: 'County',
+    city: 'City',
+    district: 'Special District',
+  };
+  return labels[level];
+};
+
+const roundCents = (n: number) => Math.round(n * 100) / 100;
+
+type JurisdictionRow = {
+  id: string;
+  name: string;
+  level: string;
+  state_code: string;
+  postal_codes: string[] | null;
+  rate: number;
+  taxes_shipping: boolean;
+  is_active: boolean;
+  created_at: string;
+};
+
+function convertJurisdictionFromDB(row: JurisdictionRow): TaxJurisdiction {
+  return {
+    id: row.id,
+    name: row.name,
+    level: row.level as JurisdictionLevel,
+    stateCode: row.state_code,
+    postalCodes: row.postal_codes || [],
+    rate: Number(row.rate),
+    taxesShipping: row.taxes_shipping,
+    isActive: row.is_active,
+    createdAt: row.created_at,
+  };
+}
+
+export const getTaxJurisdictions = async (): Promise<TaxJurisdiction[]> => {
+  const { data, error } = await supabase
+    .from('tax_jurisdictions')
+    .select('*')
+    .order('state_code')
+    .order('name');
+
+  if (error) throw error;
+  return (data || []).map(convertJurisdictionFromDB);
+};
+
+export const addTaxJurisdiction = async (
+  jurisdiction: Omit<TaxJurisdiction, 'id' | 'createdAt'>
+): Promise<TaxJurisdiction> => {
+  const { data, error } = await supabase
+    .from('tax_jurisdictions')
+    .insert({
+      tenant_id: requireTenantId(),
+      name: jurisdiction.name,
+      level: jurisdiction.level,
+      state_code: jurisdiction.stateCode.toUpperCase(),
+      postal_codes: jurisdiction.postalCodes,
+      rate: jurisdiction.rate,
+      taxes_shipping: jurisdiction.taxesShipping,
+      is_active: jurisdiction.isActive,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return convertJurisdictionFromDB(data);
+};
+
+export const updateTaxJurisdiction = async (
+  id: string,
+  updates: Partial<Omit<TaxJurisdiction, 'id' | 'createdAt'>>
+): Promise<void> => {
+  const updateData: Record<string, unknown> = {};
+  if (updates.name !== undefined) updateData.name = updates.name;
+  if (updates.level !== undefined) updateData.level = updates.level;
+  if (updates.stateCode !== undefined) updateData.state_code = updates.stateCode.toUpperCase();
+  if (updates.postalCodes !== undefined) updateData.postal_codes = updates.postalCodes;
+  if (updates.rate !== undefined) updateData.rate = updates.rate;
+  if (updates.taxesShipping !== undefined) updateData.taxes_shipping = updates.taxesShipping;
+  if (updates.isActive !== undefined) updateData.is_active = updates.isActive;
+
+  const { error } = await supabase
+    .from('tax_jurisdictions')
+    .update(updateData)
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+export const deleteTaxJurisdiction = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('tax_jurisdictions')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+/**
+ * Pulls the state and ZIP out of a free-text ship-to address. Looks for the last
+ * "ST 12345" pair so street numbers and suite numbers don't get picked up.
+ */
+export const parseShipToLocation = (address?: string): ShipToLocation | null => {
+  if (!address) return null;
+  const upper = address.toUpperCase();
+
+  const withZip = [...upper.matchAll(/\b([A-Z]{2})[\s,]+(\d{5})(?:-\d{4})?\b/g)]
+    .filter(m => US_STATE_CODES.includes(m[1]));
+  if (withZip.length > 0) {
+    const last = withZip[withZip.length - 1];
+    return { stateCode: last[1], postalCode: last[2] };
+  }
+
+  const stateOnly = [...upper.matchAll(/(?:,|\s)([A-Z]{2})\s*(?:,?\s*USA?)?\s*$/gm)]
+    .filter(m => US_STATE_CODES.includes(m[1]));
+  if (stateOnly.length > 0) {
+    return { stateCode: stateOnly[stateOnly.length - 1][1] };
+  }
+
+  return null;
+};
+
+export const matchJurisdictions = (
+  jurisdictions: TaxJurisdiction[],
+  location: ShipToLocation | null
+): TaxJurisdiction[] => {
+  if (!location) return [];
+  return jurisdictions.filter(j => {
+    if (!j.isActive || j.stateCode !== location.stateCode) return false;
+    if (j.level === 'state') return true;
+    return !!location.postalCode && j.postalCodes.includes(location.postalCode);
+  });
+};
+
+/** Returns the certificate number if the company's exemption is on file and unexpired */
+export const getValidExemption = (company: Company | undefined, asOf: Date = new Date()): string | undefined => {
+  if (!company?.taxExempt || !company.taxExemptCertificate) return undefined;
+  if (company.taxExemptExpiresAt) {
+    const expires = new Date(`${company.taxExemptExpiresAt}T23:59:59`);
+    if (expires < asOf) return undefined;
+  }
+  return company.taxExemptCertificate;
+};
+
+/**
+ * Resolves a document's customer name to a company, either directly by company
+ * name or through the contact whose name matches (same rule as AR aging).
+ */
+export const findCustomerCompany = (
+  customerName: string,
+  companies: Company[],
+  people: Person[]
+): Company | undefined => {
+  const key = customerName.trim().toLowerCase();
+  if (!key) return undefined;
+  const byName = companies.find(c => c.name.trim().toLowerCase() === key);
+  if (byName) return byName;
+  const person = people.find(p => p.name.trim().toLowerCase() === key && p.companyId);
+  return person ? companies.find(c => c.id === person.companyId) : undefined;
+};
+
+export const calculateSalesTax = (params: {
+  lineItems: TaxableLine[];
+  discount: number;
+  shippingCost: number;
+  shipToAddress?: string;
+  jurisdictions: TaxJurisdiction[];
+  exemptCertificate?: string;
+}): SalesTaxResult => {
+  const location = parseShipToLocation(params.shipToAddress);
+  const subtotal = params.lineItems.reduce((sum, l) => sum + (l.quantity || 1) * (l.price || 0), 0);
+  const taxableLines = params.lineItems
+    .filter(l => l.taxable !== false)
+    .reduce((sum, l) => sum + (l.quantity || 1) * (l.price || 0), 0);
+
+  // The discount is spread across all lines, so taxable lines only carry their share of it
+  const discountShare = subtotal > 0 ? Math.min(params.discount, subtotal) * (taxableLines / subtotal) : 0;
+  const taxableSubtotal = roundCents(Math.max(0, taxableLines - discountShare));
+
+  if (params.exemptCertificate) {
+    return { location, details: [], tax: 0, taxableSubtotal, exemptCertificate: params.exemptCertificate };
+  }
+
+  const details = matchJurisdictions(params.jurisdictions, location).map(j => {
+    const taxableAmount = roundCents(taxableSubtotal + (j.taxesShipping ? params.shippingCost : 0));
+    return {
+      jurisdictionId: j.id,
+      name: j.name,
+      stateCode: j.stateCode,
+      rate: j.rate,
+      taxableAmount,
+      tax: roundCents((taxableAmount * j.rate) / 100),
+    };
+  });
+
+  return {
+    location,
+    details,
+    tax: roundCents(details.reduce((sum, d) => sum + d.tax, 0)),
+    taxableSubtotal,
+  };
+};
+
+// ---- Collected tax report ----
+
+export interface SalesTaxReportLine {
+  key: string;
+  name: string;
+  stateCode: string;
+  rate: number;
+  taxableAmount: number;
+  tax: number;
+  invoiceCount: number;
+}
+
+export interface SalesTaxReport {
+  lines: SalesTaxReportLine[];
+  grossSales: number;
+  exemptSales: number;
+  exemptInvoices: Invoice[];
+  totalTax: number;
+}
+
+/**
+ * Summarizes tax collected on finalized invoices dated within the range.
+ * Invoices whose tax was typed in by hand (no breakdown) are reported together
+ * so they can be assigned before filing.
+ */
+export const buildSalesTaxReport = (invoices: Invoice[], start: string, end: string): SalesTaxReport => {
+  const lines = new Map<string, SalesTaxReportLine>();
+  const exemptInvoices: Invoice[] = [];
+  let grossSales = 0;
+  let exemptSales = 0;
+
+  invoices
+    .filter(inv => inv.status !== 'draft')
+    .filter(inv => {
+      const date = inv.createdAt.slice(0, 10);
+      return date >= start && date <= end;
+    })
+    .forEach(inv => {
+      const sales = inv.subtotal - inv.discount + inv.shippingCost;
+      grossSales += sales;
+
+      if (inv.taxExemptCertificate) {
+        exemptSales += sales;
+        exemptInvoices.push(inv);
+        return;
+      }
+
+      const details = inv.taxDetails || [];
+      if (details.length === 0) {
+        if (!inv.tax) return;
+        const line = lines.get('manual') || {
+          key: 'manual', name: 'Manually entered (no jurisdiction)', stateCode: '', rate: 0,
+          taxableAmount: 0, tax: 0, invoiceCount: 0,
+        };
+        line.taxableAmount += sales;
+        line.tax += inv.tax;
+        line.invoiceCount += 1;
+        lines.set('manual', line);
+        return;
+      }
+
+      details.forEach(d => {
+        // Rate is part of the key so a mid-period rate change reports on separate lines
+        const key = `${d.jurisdictionId}:${d.rate}`;
+        const line = lines.get(key) || {
+          key, name: d.name, stateCode: d.stateCode, rate: d.rate,
+          taxableAmount: 0, tax: 0, invoiceCount: 0,
+        };
+        line.taxableAmount += d.taxableAmount;
+        line.tax += d.tax;
+        line.invoiceCount += 1;
+        lines.set(key, line);
+      });
+    });
+
+  const sorted = [...lines.values()].sort((a, b) =>
+    (a.key === 'manual' ? 1 : 0) - (b.key === 'manual' ? 1 : 0) ||
+    a.stateCode.localeCompare(b.stateCode) ||
+    a.name.localeCompare(b.name)
+  );
+
+  return {
+    lines: sorted,
+    grossSales: roundCents(grossSales),
+    exemptSales: roundCents(exemptSales),
+    exemptInvoices,
+    totalTax: roundCents(sorted.reduce((sum, l) => sum + l.tax, 0)),
+  };
+};
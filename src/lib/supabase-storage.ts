@@ -1,5 +1,9 @@
 import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
 import { requireTenantId } from "@/lib/tenant-context";
+import type { TaxDetailLine } from "@/lib/sales-tax";
+import type { PricingApprovalStatus, PricingViolation } from "@/lib/pricing-guardrails";
+import type { DocKitInfo } from "@/lib/product-kits";
 
 export interface Item {
   id: string;
@@ -8,6 +12,7 @@ export interface Item {
   status: "available" | "sold";
   salePrice?: number;
   cost?: number;
+  minSalePrice?: number;
   weight?: number;
   volume?: number;
   warrantyMonths?: number;
@@ -17,6 +22,12 @@ export interface Item {
   soldInInvoiceId?: string;
   dateSold?: string;
   shelfLocation?: string;
+  trackingMode?: "serialized" | "quantity";
+  quantityOnHand?: number;
+  warehouseId?: string;
+  inTransitTransferId?: string;
+  reservedSalesOrderId?: string;
+  conditionGrade?: string;
   createdAt?: string;
 }
 
@@ -25,6 +36,11 @@ export interface Company {
   name: string;
   address?: string;
   notes: Array<{ text: string; timestamp: string }>;
+  taxExempt?: boolean;
+  taxExemptCertificate?: string;
+  taxExemptExpiresAt?: string;
+  territoryId?: string;
+  ownerId?: string;
 }
 
 export interface Branch {
@@ -34,18 +50,31 @@ export interface Branch {
   address?: string;
 }
 
+/** A phone number or email address and what kind it is, e.g. work or mobile */
+export interface ContactMethod {
+  label?: string;
+  value: string;
+}
+
 export interface Person {
   id: string;
   name: string;
   companyId?: string;
   branchId?: string;
   userId?: string;
+  /** Login linked to this contact for the customer portal */
+  portalUserId?: string;
   jobTitle?: string;
   email?: string;
   phone?: string;
   address?: string;
   notes: Array<{ text: string; timestamp: string }>;
   excavatorLines?: string[];
+  /** Every number and address, including the primary phone and email */
+  phoneNumbers?: ContactMethod[];
+  emailAddresses?: ContactMethod[];
+  /** Path in the contact-photos bucket */
+  photoPath?: string;
   createdAt?: string;
   updatedAt?: string;
   createdByName?: string;
@@ -59,6 +88,9 @@ export interface DocLineItem {
   sellPrice: number;
   serialNumber?: string;
   quantity?: number;
+  taxable?: boolean;
+  shipFrom?: string;
+  kit?: DocKitInfo;
 }
 
 export interface Invoice {
@@ -76,13 +108,27 @@ export interface Invoice {
   discount: number;
   shipping: number;
   tax?: number;
+  taxDetails?: TaxDetailLine[];
+  taxExemptCertificate?: string;
   notes?: string;
   total: number;
   createdAt: string;
   paid?: boolean;
   paidAt?: string;
+  amountPaid?: number;
+  /** Sum of credit memos issued against the invoice */
+  amountCredited?: number;
+  paymentStatus?: 'unpaid' | 'partially_paid' | 'paid' | 'overpaid';
   status?: 'draft' | 'finalized';
   sourceQuoteId?: string;
+  salesOrderId?: string;
+  /** Contact the invoice was made out to, matched server-side on save */
+  personId?: string;
+  /** Company whose portal users may see the invoice, set explicitly by staff */
+  confirmedCompanyId?: string;
+  pricingApprovalStatus?: PricingApprovalStatus;
+  pricingViolations?: PricingViolation[];
+  pricingApprovalNote?: string;
   lastEditedAt?: string;
   lastEditedBy?: string;
 }
@@ -102,10 +148,27 @@ export interface Quote {
   discount: number;
   shipping: number;
   tax?: number;
+  taxDetails?: TaxDetailLine[];
+  taxExemptCertificate?: string;
   notes?: string;
   total: number;
   status?: 'draft' | 'pending' | 'approved' | 'rejected' | 'expired';
   expiresAt?: string;
+  /** Latest recorded revision; 0 until the quote first leaves draft */
+  revision?: number;
+  companyId?: string;
+  /** Company whose portal users may see the quote, set explicitly by staff */
+  confirmedCompanyId?: string;
+  /** Sales pipeline deal this quote was made for */
+  opportunityId?: string;
+  /** Contact the quote was made out to, matched server-side on save */
+  personId?: string;
+  /** Set when the customer approved or rejected the quote in the portal */
+  customerRespondedAt?: string;
+  customerResponseNote?: string;
+  pricingApprovalStatus?: PricingApprovalStatus;
+  pricingViolations?: PricingViolation[];
+  pricingApprovalNote?: string;
   createdAt: string;
 }
 
@@ -122,6 +185,11 @@ export const getCompanies = async (): Promise<Company[]> => {
     name: String(row.name),
     address: row.address as string | undefined,
     notes: (row.notes as Array<{ text: string; timestamp: string }>) || [],
+    taxExempt: Boolean(row.tax_exempt),
+    taxExemptCertificate: row.tax_exempt_certificate || undefined,
+    taxExemptExpiresAt: row.tax_exempt_expires_at || undefined,
+    territoryId: row.territory_id || undefined,
+    ownerId: row.owner_id || undefined,
   }));
 };
 
@@ -148,6 +216,9 @@ export const updateCompany = async (company: Company): Promise<void> => {
       name: company.name,
       address: company.address,
       notes: company.notes,
+      tax_exempt: company.taxExempt ?? false,
+      tax_exempt_certificate: company.taxExemptCertificate || null,
+      tax_exempt_expires_at: company.taxExemptExpiresAt || null,
     })
     .eq("id", company.id);
 
@@ -270,12 +341,16 @@ export const getPeople = async (): Promise<Person[]> => {
     companyId: row.company_id as string | undefined,
     branchId: row.branch_id as string | undefined,
     userId: row.user_id as string | undefined,
+    portalUserId: row.portal_user_id as string | undefined,
     jobTitle: row.job_title as string | undefined,
     email: row.email as string | undefined,
     phone: row.phone as string | undefined,
     address: row.address as string | undefined,
     notes: (row.notes as Array<{ text: string; timestamp: string }>) || [],
     excavatorLines: (row.excavator_lines as string[]) || [],
+    phoneNumbers: (row.phone_numbers as ContactMethod[]) || [],
+    emailAddresses: (row.email_addresses as ContactMethod[]) || [],
+    photoPath: row.photo_path as string | undefined,
     createdAt: row.created_at as string | undefined,
     updatedAt: row.updated_at as string | undefined,
     createdByName: row.created_by ? nameMap[row.created_by] || undefined : undefined,
@@ -301,6 +376,9 @@ export const addPerson = async (person: Omit<Person, "id">): Promise<Person> =>
       address: person.address || null,
       notes: person.notes || [],
       excavator_lines: person.excavatorLines || [],
+      phone_numbers: (person.phoneNumbers || []) as unknown as Json,
+      email_addresses: (person.emailAddresses || []) as unknown as Json,
+      photo_path: person.photoPath || null,
       created_by: user?.id || null,
       updated_by: user?.id || null,
     })
@@ -320,6 +398,9 @@ export const addPerson = async (person: Omit<Person, "id">): Promise<Person> =>
     address: data.address,
     notes: (data.notes as Array<{ text: string; timestamp: string }>) || [],
     excavatorLines: (data.excavator_lines as string[]) || [],
+    phoneNumbers: (data.phone_numbers as unknown as ContactMethod[]) || [],
+    emailAddresses: (data.email_addresses as unknown as ContactMethod[]) || [],
+    photoPath: data.photo_path || undefined,
   };
 };
 
@@ -337,6 +418,9 @@ export const updatePerson = async (person: Person): Promise<void> => {
       address: person.address || null,
       notes: person.notes,
       excavator_lines: person.excavatorLines || [],
+      // Left alone when the caller didn't load them
+      phone_numbers: person.phoneNumbers as unknown as Json | undefined,
+      email_addresses: person.emailAddresses as unknown as Json | undefined,
       updated_by: user?.id || null,
     })
     .eq("id", person.id);
@@ -382,6 +466,8 @@ export const getItems = async (): Promise<Item[]> => {
     const { data, error } = await supabase
       .from("items")
       .select("*")
+      // Written-off units stay for history but are no longer stock
+      .neq("status", "written_off")
       .order("created_at", { ascending: false })
       .range(from, from + PAGE_SIZE - 1);
 
@@ -403,6 +489,7 @@ export const getItems = async (): Promise<Item[]> => {
     status: row.status as "available" | "sold",
     salePrice: row.sale_price ? Number(row.sale_price) : undefined,
     cost: row.cost ? Number(row.cost) : undefined,
+    minSalePrice: row.min_sale_price !== null && row.min_sale_price !== undefined ? Number(row.min_sale_price) : undefined,
     weight: row.weight ? Number(row.weight) : undefined,
     volume: row.volume ? Number(row.volume) : undefined,
     warrantyMonths: row.warranty_months as number | undefined,
@@ -412,6 +499,12 @@ export const getItems = async (): Promise<Item[]> => {
     soldInInvoiceId: row.sold_in_invoice_id as string | undefined,
     dateSold: row.date_sold as string | undefined,
     shelfLocation: row.shelf_location as string | undefined,
+    trackingMode: (row.tracking_mode as "serialized" | "quantity") || "serialized",
+    quantityOnHand: Number(row.quantity_on_hand || 0),
+    warehouseId: row.warehouse_id as string | undefined,
+    inTransitTransferId: row.in_transit_transfer_id as string | undefined,
+    reservedSalesOrderId: row.reserved_sales_order_id as string | undefined,
+    conditionGrade: row.condition_grade as string | undefined,
     createdAt: row.created_at as string | undefined,
   }));
 };
@@ -426,6 +519,7 @@ export const addItem = async (item: Omit<Item, "id">): Promise<Item> => {
       status: item.status,
       sale_price: item.salePrice,
       cost: item.cost,
+      min_sale_price: item.minSalePrice,
       weight: item.weight,
       volume: item.volume,
       warranty_months: item.warrantyMonths,
@@ -433,6 +527,9 @@ export const addItem = async (item: Omit<Item, "id">): Promise<Item> => {
       min_reorder_level: item.minReorderLevel,
       max_reorder_level: item.maxReorderLevel,
       shelf_location: item.shelfLocation,
+      // Stock arrives through inventory movements so the log always sums to on-hand
+      tracking_mode: item.trackingMode || "serialized",
+      warehouse_id: item.warehouseId,
     })
     .select()
     .single();
@@ -445,6 +542,7 @@ export const addItem = async (item: Omit<Item, "id">): Promise<Item> => {
     status: data.status as "available" | "sold",
     salePrice: data.sale_price ? Number(data.sale_price) : undefined,
     cost: data.cost ? Number(data.cost) : undefined,
+    minSalePrice: data.min_sale_price !== null ? Number(data.min_sale_price) : undefined,
     weight: data.weight ? Number(data.weight) : undefined,
     volume: data.volume ? Number(data.volume) : undefined,
     warrantyMonths: data.warranty_months,
@@ -452,6 +550,9 @@ export const addItem = async (item: Omit<Item, "id">): Promise<Item> => {
     minReorderLevel: data.min_reorder_level,
     maxReorderLevel: data.max_reorder_level,
     shelfLocation: data.shelf_location,
+    trackingMode: data.tracking_mode as "serialized" | "quantity",
+    quantityOnHand: Number(data.quantity_on_hand || 0),
+    warehouseId: data.warehouse_id || undefined,
   };
 };
 
@@ -464,6 +565,7 @@ export const updateItem = async (item: Item): Promise<void> => {
       status: item.status,
       sale_price: item.salePrice,
       cost: item.cost,
+      min_sale_price: item.minSalePrice,
       weight: item.weight,
       volume: item.volume,
       warranty_months: item.warrantyMonths,
@@ -473,12 +575,30 @@ export const updateItem = async (item: Item): Promise<void> => {
       sold_in_invoice_id: item.soldInInvoiceId,
       date_sold: item.dateSold,
       shelf_location: item.shelfLocation,
+      warehouse_id: item.warehouseId,
     })
     .eq("id", item.id);
 
   if (error) throw error;
 };
 
+/** Records or clears a sale on serialized units without rewriting their other fields */
+export const updateItemsSale = async (
+  ids: string[],
+  sale: { status: 'available' | 'sold'; dateSold?: string; soldInInvoiceId?: string }
+): Promise<void> => {
+  const { error } = await supabase
+    .from("items")
+    .update({
+      status: sale.status,
+      date_sold: sale.dateSold || null,
+      sold_in_invoice_id: sale.soldInInvoiceId || null,
+    })
+    .in("id", ids);
+
+  if (error) throw error;
+};
+
 // Get unique shelf locations for autocomplete
 export const getUniqueShelfLocations = async (): Promise<string[]> => {
   const { data, error } = await supabase
@@ -528,24 +648,39 @@ export const getInvoices = async (): Promise<Invoice[]> => {
     discount: Number(row.discount),
     shipping: Number(row.shipping),
     tax: row.tax !== null && row.tax !== undefined ? Number(row.tax) : 0,
+    taxDetails: (row.tax_details as TaxDetailLine[]) || [],
+    taxExemptCertificate: row.tax_exempt_certificate || undefined,
     notes: row.notes as string | undefined,
     total: Number(row.total),
     createdAt: String(row.created_at),
     paid: Boolean(row.paid),
     paidAt: row.paid_at as string | undefined,
+    amountPaid: Number(row.amount_paid || 0),
+    amountCredited: Number(row.amount_credited || 0),
+    paymentStatus: (row.payment_status as Invoice['paymentStatus']) || 'unpaid',
     status: row.status as 'draft' | 'finalized' | undefined,
     sourceQuoteId: row.source_quote_id as string | undefined,
+    salesOrderId: row.sales_order_id as string | undefined,
+    personId: row.person_id || undefined,
+    confirmedCompanyId: row.confirmed_company_id || undefined,
+    pricingApprovalStatus: (row.pricing_approval_status as PricingApprovalStatus) || 'not_required',
+    pricingViolations: (row.pricing_violations as PricingViolation[]) || [],
+    pricingApprovalNote: row.pricing_approval_note || undefined,
     lastEditedAt: row.last_edited_at as string | undefined,
     lastEditedBy: row.last_edited_by as string | undefined,
   }));
 };
 
-export const addInvoice = async (invoice: Omit<Invoice, "id">, status: 'draft' | 'finalized' = 'finalized'): Promise<Invoice> => {
+/** Leave invoiceNumber blank to take the next number in the tenant's sequence */
+export const addInvoice = async (
+  invoice: Omit<Invoice, "id" | "invoiceNumber"> & { invoiceNumber?: string },
+  status: 'draft' | 'finalized' = 'finalized'
+): Promise<Invoice> => {
   const { data, error } = await supabase
     .from("invoices")
     .insert([{
       tenant_id: requireTenantId(),
-      invoice_number: invoice.invoiceNumber,
+      invoice_number: invoice.invoiceNumber || undefined,
       customer_name: invoice.customerName,
       customer_email: invoice.customerEmail,
       customer_phone: invoice.customerPhone,
@@ -558,10 +693,13 @@ export const addInvoice = async (invoice: Omit<Invoice, "id">, status: 'draft' |
       discount: invoice.discount,
       shipping: invoice.shipping,
       tax: invoice.tax || 0,
+      tax_details: (invoice.taxDetails || []) as unknown as Json,
+      tax_exempt_certificate: invoice.taxExemptCertificate,
       notes: invoice.notes,
       total: invoice.total,
       status: status,
       source_quote_id: invoice.sourceQuoteId,
+      sales_order_id: invoice.salesOrderId,
     }])
     .select()
     .single();
@@ -583,11 +721,16 @@ export const addInvoice = async (invoice: Omit<Invoice, "id">, status: 'draft' |
     discount: Number(row.discount),
     shipping: Number(row.shipping),
     tax: row.tax !== null && row.tax !== undefined ? Number(row.tax) : 0,
+    taxDetails: (row.tax_details as TaxDetailLine[]) || [],
+    taxExemptCertificate: row.tax_exempt_certificate || undefined,
     notes: row.notes,
     total: Number(row.total),
     createdAt: row.created_at,
     status: row.status as 'draft' | 'finalized',
     sourceQuoteId: row.source_quote_id,
+    salesOrderId: row.sales_order_id || undefined,
+    pricingApprovalStatus: (row.pricing_approval_status as PricingApprovalStatus) || 'not_required',
+    pricingViolations: (row.pricing_violations as PricingViolation[]) || [],
   };
 };
 
@@ -605,10 +748,13 @@ export const updateInvoice = async (id: string, updates: {
   discount?: number;
   shipping?: number;
   tax?: number;
+  taxDetails?: TaxDetailLine[];
+  taxExemptCertificate?: string | null;
   notes?: string;
   total?: number;
   status?: 'draft' | 'finalized';
   sourceQuoteId?: string;
+  confirmedCompanyId?: string | null;
   lastEditedAt?: string;
   lastEditedBy?: string;
 }): Promise<void> => {
@@ -626,10 +772,13 @@ export const updateInvoice = async (id: string, updates: {
   if (updates.discount !== undefined) updateData.discount = updates.discount;
   if (updates.shipping !== undefined) updateData.shipping = updates.shipping;
   if (updates.tax !== undefined) updateData.tax = updates.tax;
+  if (updates.taxDetails !== undefined) updateData.tax_details = updates.taxDetails;
+  if (updates.taxExemptCertificate !== undefined) updateData.tax_exempt_certificate = updates.taxExemptCertificate;
   if (updates.notes !== undefined) updateData.notes = updates.notes;
   if (updates.total !== undefined) updateData.total = updates.total;
   if (updates.status !== undefined) updateData.status = updates.status;
   if (updates.sourceQuoteId !== undefined) updateData.source_quote_id = updates.sourceQuoteId;
+  if (updates.confirmedCompanyId !== undefined) updateData.confirmed_company_id = updates.confirmedCompanyId;
   if (updates.lastEditedAt !== undefined) updateData.last_edited_at = updates.lastEditedAt;
   if (updates.lastEditedBy !== undefined) updateData.last_edited_by = updates.lastEditedBy;
 
@@ -682,23 +831,36 @@ export const getQuotes = async (): Promise<Quote[]> => {
     discount: Number(row.discount),
     shipping: Number(row.shipping),
     tax: row.tax !== null && row.tax !== undefined ? Number(row.tax) : 0,
+    taxDetails: (row.tax_details as TaxDetailLine[]) || [],
+    taxExemptCertificate: row.tax_exempt_certificate || undefined,
     notes: row.notes as string | undefined,
     total: Number(row.total),
     status: (row.status as Quote['status']) || 'pending',
     expiresAt: row.expires_at as string | undefined,
+    revision: Number(row.revision) || 0,
+    companyId: row.company_id || undefined,
+    confirmedCompanyId: row.confirmed_company_id || undefined,
+    opportunityId: row.opportunity_id || undefined,
+    personId: row.person_id || undefined,
+    customerRespondedAt: row.customer_responded_at || undefined,
+    customerResponseNote: row.customer_response_note || undefined,
+    pricingApprovalStatus: (row.pricing_approval_status as PricingApprovalStatus) || 'not_required',
+    pricingViolations: (row.pricing_violations as PricingViolation[]) || [],
+    pricingApprovalNote: row.pricing_approval_note || undefined,
     createdAt: String(row.created_at),
   }));
 };
 
+/** Leave quoteNumber blank to take the next number in the tenant's sequence */
 export const addQuote = async (
-  quote: Omit<Quote, "id">,
+  quote: Omit<Quote, "id" | "quoteNumber"> & { quoteNumber?: string },
   status: Quote['status'] = 'pending'
 ): Promise<Quote> => {
   const { data, error } = await supabase
     .from("quotes")
     .insert([{
       tenant_id: requireTenantId(),
-      quote_number: quote.quoteNumber,
+      quote_number: quote.quoteNumber || undefined,
       customer_name: quote.customerName,
       customer_email: quote.customerEmail,
       customer_phone: quote.customerPhone,
@@ -711,6 +873,8 @@ export const addQuote = async (
       discount: quote.discount,
       shipping: quote.shipping,
       tax: quote.tax || 0,
+      tax_details: (quote.taxDetails || []) as unknown as Json,
+      tax_exempt_certificate: quote.taxExemptCertificate,
       notes: quote.notes,
       total: quote.total,
       status: status,
@@ -736,10 +900,14 @@ export const addQuote = async (
     discount: Number(row.discount),
     shipping: Number(row.shipping),
     tax: row.tax !== null && row.tax !== undefined ? Number(row.tax) : 0,
+    taxDetails: (row.tax_details as TaxDetailLine[]) || [],
+    taxExemptCertificate: row.tax_exempt_certificate || undefined,
     notes: row.notes,
     total: Number(row.total),
     status: (row.status as Quote['status']) || 'pending',
     expiresAt: row.expires_at,
+    pricingApprovalStatus: (row.pricing_approval_status as PricingApprovalStatus) || 'not_required',
+    pricingViolations: (row.pricing_violations as PricingViolation[]) || [],
     createdAt: row.created_at,
   };
 };
@@ -756,10 +924,13 @@ export const updateQuote = async (id: string, updates: {
   discount?: number;
   shipping?: number;
   tax?: number;
+  taxDetails?: TaxDetailLine[];
+  taxExemptCertificate?: string | null;
   notes?: string;
   total?: number;
   status?: Quote['status'];
   expiresAt?: string;
+  confirmedCompanyId?: string | null;
 }): Promise<void> => {
   const updateData: Record<string, unknown> = {};
   if (updates.customerName !== undefined) updateData.customer_name = updates.customerName;
@@ -773,10 +944,13 @@ export const updateQuote = async (id: string, updates: {
   if (updates.discount !== undefined) updateData.discount = updates.discount;
   if (updates.shipping !== undefined) updateData.shipping = updates.shipping;
   if (updates.tax !== undefined) updateData.tax = updates.tax;
+  if (updates.taxDetails !== undefined) updateData.tax_details = updates.taxDetails;
+  if (updates.taxExemptCertificate !== undefined) updateData.tax_exempt_certificate = updates.taxExemptCertificate;
   if (updates.notes !== undefined) updateData.notes = updates.notes;
   if (updates.total !== undefined) updateData.total = updates.total;
   if (updates.status !== undefined) updateData.status = updates.status;
   if (updates.expiresAt !== undefined) updateData.expires_at = updates.expiresAt;
+  if (updates.confirmedCompanyId !== undefined) updateData.confirmed_company_id = updates.confirmedCompanyId;
 
   const { error } = await supabase
     .from("quotes")
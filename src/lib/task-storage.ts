@@ -0,0 +1,277 @@
+// Follow-up tasks. A task is a dated to-do for one user, optionally linked to
+// a company, contact, quote or invoice. The database keeps a calendar event
+// in step with each open, dated task and notifies the assignee when it's
+// overdue. Suggestions come from meetings' AI to-do lists and conversations'
+// key points; accepting or dismissing one stores a task so it isn't offered
+// again.
+import { supabase } from "@/integrations/supabase/client";
+import { requireTenantId } from "@/lib/tenant-context";
+
+export const TASK_PRIORITIES = ['low', 'normal', 'high', 'urgent'] as const;
+
+export type TaskPriority = typeof TASK_PRIORITIES[number];
+
+export type TaskStatus = 'open' | 'done' | 'dismissed';
+
+export type TaskSource = 'manual' | 'video_meeting' | 'conversation';
+
+export const getTaskPriorityLabel = (priority: TaskPriority): string => {
+  const labels: Record<TaskPriority, string> = {
+    low: 'Low',
+    normal: 'Normal',
+    high: 'High',
+    urgent: 'Urgent',
+  };
+  return labels[priority];
+};
+
+export interface Task {
+  id: string;
+  title: string;
+  notes?: string;
+  dueAt?: string;
+  priority: TaskPriority;
+  status: TaskStatus;
+  completedAt?: string;
+  assigneeId?: string;
+  companyId?: string;
+  personId?: string;
+  quoteId?: string;
+  invoiceId?: string;
+  source: TaskSource;
+  sourceId?: string;
+  sourceItem?: number;
+  createdBy?: string;
+  createdAt: string;
+}
+
+export type TaskInput = Pick<Task, 'title' | 'priority'> &
+  Partial<Pick<Task, 'notes' | 'dueAt' | 'assigneeId' | 'companyId' | 'personId' | 'quoteId' | 'invoiceId' | 'status' | 'source' | 'sourceId' | 'sourceItem'>>;
+
+export interface TaskSuggestion {
+  source: Exclude<TaskSource, 'manual'>;
+  sourceId: string;
+  sourceItem: number;
+  title: string;
+  /** Meeting title or conversation summary it came from */
+  origin: string;
+  personId?: string;
+  createdAt: string;
+}
+
+type TaskRow = {
+  id: string;
+  title: string;
+  notes: string | null;
+  due_at: string | null;
+  priority: string;
+  status: string;
+  completed_at: string | null;
+  assignee_id: string | null;
+  company_id: string | null;
+  person_id: string | null;
+  quote_id: string | null;
+  invoice_id: string | null;
+  source: string;
+  source_id: string | null;
+  source_item: number | null;
+  created_by: string | null;
+  created_at: string;
+};
+
+function convertTaskFromDB(row: TaskRow): Task {
+  return {
+    id: row.id,
+    title: row.title,
+    notes: row.notes || undefined,
+    dueAt: row.due_at || undefined,
+    priority: row.priority as TaskPriority,
+    status: row.status as TaskStatus,
+    completedAt: row.completed_at || undefined,
+    assigneeId: row.assignee_id || undefined,
+    companyId: row.company_id || undefined,
+    personId: row.person_id || undefined,
+    quoteId: row.quote_id || undefined,
+    invoiceId: row.invoice_id || undefined,
+    source: row.source as TaskSource,
+    sourceId: row.source_id || undefined,
+    sourceItem: row.source_item ?? undefined,
+    createdBy: row.created_by || undefined,
+    createdAt: row.created_at,
+  };
+}
+
+/** Empty strings clear a link */
+const convertTaskToDB = (task: Partial<TaskInput>) => ({
+  title: task.title,
+  notes: task.notes === undefined ? undefined : task.notes || null,
+  due_at: task.dueAt === undefined ? undefined : task.dueAt || null,
+  priority: task.priority,
+  status: task.status,
+  assignee_id: task.assigneeId === undefined ? undefined : task.assigneeId || null,
+  company_id: task.companyId === undefined ? undefined : task.companyId || null,
+  person_id: task.personId === undefined ? undefined : task.personId || null,
+  quote_id: task.quoteId === undefined ? undefined : task.quoteId || null,
+  invoice_id: task.invoiceId === undefined ? undefined : task.invoiceId || null,
+});
+
+export const isTaskOverdue = (task: Task, now = new Date()): boolean =>
+  task.status === 'open' && !!task.dueAt && new Date(task.dueAt) < now;
+
+/** Open tasks assigned to the user, soonest first; undated ones last */
+export const getOpenTasksFor = async (userId: string): Promise<Task[]> => {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('*')
+    .eq('assignee_id', userId)
+    .eq('status', 'open')
+    .order('due_at', { ascending: true, nullsFirst: false });
+  if (error) throw error;
+  return (data || []).map(convertTaskFromDB);
+};
+
+export const getRecentlyCompletedTasksFor = async (userId: string, limit = 20): Promise<Task[]> => {
+  const { data, error } = await supabase
+    .from('tasks')
+    .select('*')
+    .eq('assignee_id', userId)
+    .eq('status', 'done')
+    .order('completed_at', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data || []).map(convertTaskFromDB);
+};
+
+export const addTask = async (task: TaskInput): Promise<Task> => {
+  const { data, error } = await supabase
+    .from('tasks')
+    .insert({
+      ...convertTaskToDB(task),
+      tenant_id: requireTenantId(),
+      title: task.title,
+      source: task.source,
+      source_id: task.sourceId,
+      source_item: task.sourceItem,
+    })
+    .select()
+    .single();
+  if (error) throw error;
+  return convertTaskFromDB(data);
+};
+
+export const updateTask = async (id: string, updates: Partial<TaskInput>): Promise<void> => {
+  const { error } = await supabase
+    .from('tasks')
+    .update(convertTaskToDB(updates))
+    .eq('id', id);
+  if (error) throw error;
+};
+
+export const setTaskDone = async (id: string, done: boolean): Promise<void> =>
+  updateTask(id, { status: done ? 'done' : 'open' });
+
+export const deleteTask = async (id: string): Promise<void> => {
+  const { error } = await supabase.from('tasks').delete().eq('id', id);
+  if (error) throw error;
+};
+
+/** How far back meetings and conversations are mined for suggestions */
+const SUGGESTION_WINDOW_DAYS = 30;
+
+/**
+ * To-dos from the user's recent video meetings and key points from their
+ * recorded conversations that haven't been accepted or dismissed yet.
+ */
+export const getTaskSuggestions = async (userId: string): Promise<TaskSuggestion[]> => {
+  const since = new Date(Date.now() - SUGGESTION_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const [meetings, conversations] = await Promise.all([
+    supabase
+      .from('video_meetings')
+      .select('id, title, ai_todo_list, person_id, created_at')
+      .eq('created_by', userId)
+      .not('ai_todo_list', 'is', null)
+      .gte('created_at', since),
+    supabase
+      .from('ai_conversations')
+      .select('id, summary, key_points, contact_id, created_at')
+      .eq('user_id', userId)
+      .not('key_points', 'is', null)
+      .gte('created_at', since),
+  ]);
+  if (meetings.error) throw meetings.error;
+  if (conversations.error) throw conversations.error;
+
+  const suggestions: TaskSuggestion[] = [];
+
+  for (const meeting of meetings.data || []) {
+    const todos = Array.isArray(meeting.ai_todo_list)
+      ? (meeting.ai_todo_list as { task?: string; completed?: boolean }[])
+      : [];
+    todos.forEach((todo, index) => {
+      if (!todo?.task || todo.completed) return;
+      suggestions.push({
+        source: 'video_meeting',
+        sourceId: meeting.id,
+        sourceItem: index,
+        title: todo.task,
+        origin: meeting.title,
+        personId: meeting.person_id || undefined,
+        createdAt: meeting.created_at,
+      });
+    });
+  }
+
+  for (const conversation of conversations.data || []) {
+    const points = Array.isArray(conversation.key_points) ? (conversation.key_points as string[]) : [];
+    points.forEach((point, index) => {
+      if (typeof point !== 'string' || !point.trim()) return;
+      suggestions.push({
+        source: 'conversation',
+        sourceId: conversation.id,
+        sourceItem: index,
+        title: point,
+        origin: conversation.summary || 'Recorded conversation',
+        personId: conversation.contact_id || undefined,
+        createdAt: conversation.created_at,
+      });
+    });
+  }
+
+  if (suggestions.length === 0) return [];
+
+  const sourceIds = [...new Set(suggestions.map(s => s.sourceId))];
+  const { data: taken, error } = await supabase
+    .from('tasks')
+    .select('source, source_id, source_item')
+    .in('source_id', sourceIds);
+  if (error) throw error;
+
+  const takenKeys = new Set((taken || []).map(t => `${t.source}:${t.source_id}:${t.source_item}`));
+  return suggestions
+    .filter(s => !takenKeys.has(`${s.source}:${s.sourceId}:${s.sourceItem}`))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const acceptTaskSuggestion = async (suggestion: TaskSuggestion, changes: Partial<TaskInput> = {}): Promise<Task> =>
+  addTask({
+    title: suggestion.title,
+    priority: 'normal',
+    personId: suggestion.personId,
+    notes: `From: ${suggestion.origin}`,
+    ...changes,
+    source: suggestion.source,
+    sourceId: suggestion.sourceId,
+    sourceItem: suggestion.sourceItem,
+  });
+
+export const dismissTaskSuggestion = async (suggestion: TaskSuggestion): Promise<void> => {
+  await addTask({
+    title: suggestion.title,
+    priority: 'normal',
+    status: 'dismissed',
+    source: suggestion.source,
+    sourceId: suggestion.sourceId,
+    sourceItem: suggestion.sourceItem,
+  });
+};
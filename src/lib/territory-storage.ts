@@ -0,0 +1,176 @@
+// Sales territories. A territory is a set of H3 cells at one resolution,
+// picked on the map or filled from a drawn polygon, owned by a salesperson.
+// The database places companies in territories when their address is
+// geocoded, using the cells' outline (stored as `boundary`), and moves their
+// ownership along when a territory is reassigned.
+import { cellsToMultiPolygon, latLngToCell, polygonToCells } from "h3-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { requireTenantId } from "@/lib/tenant-context";
+import { getOpportunities, getWeightedValue, isOpenStage } from "@/lib/opportunity-storage";
+
+export type LatLng = [number, number];
+
+export const TERRITORY_COLORS = ['#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899', '#14b8a6', '#f97316'];
+
+export interface SalesTerritory {
+  id: string;
+  name: string;
+  color: string;
+  ownerId?: string;
+  h3Resolution: number;
+  h3Cells: string[];
+  /** The polygon the cells were filled from, if it was drawn */
+  drawnPolygon?: LatLng[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type TerritoryInput = Omit<SalesTerritory, 'id' | 'ownerId' | 'createdAt' | 'updatedAt'>;
+
+export interface TerritoryStats {
+  companyCount: number;
+  /** Finalized invoices to the territory's companies */
+  revenue: number;
+  openDeals: number;
+  /** Weighted value of open deals */
+  pipeline: number;
+}
+
+type TerritoryRow = {
+  id: string;
+  name: string;
+  color: string;
+  owner_id: string | null;
+  h3_resolution: number;
+  h3_cells: string[];
+  drawn_polygon: Json | null;
+  created_at: string;
+  updated_at: string;
+};
+
+function convertTerritoryFromDB(row: TerritoryRow): SalesTerritory {
+  return {
+    id: row.id,
+    name: row.name,
+    color: row.color,
+    ownerId: row.owner_id || undefined,
+    h3Resolution: row.h3_resolution,
+    h3Cells: row.h3_cells || [],
+    drawnPolygon: (row.drawn_polygon as LatLng[] | null) || undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/** Outline of a set of cells as polygons of [lat, lng] rings, outer ring first */
+export const getTerritoryPolygons = (cells: string[]): LatLng[][][] =>
+  cellsToMultiPolygon(cells).map(polygon => polygon.map(ring => ring.map(([lat, lng]) => [lat, lng] as LatLng)));
+
+/** Every ring of the outline in one list, which is all even-odd point tests need */
+export const getTerritoryBoundary = (cells: string[]): LatLng[][] => getTerritoryPolygons(cells).flat();
+
+/** Cells whose centers fall inside a drawn polygon */
+export const cellsFromPolygon = (polygon: LatLng[], resolution: number): string[] =>
+  polygon.length < 3 ? [] : polygonToCells(polygon, resolution);
+
+const convertTerritoryToDB = (territory: TerritoryInput) => ({
+  name: territory.name,
+  color: territory.color,
+  h3_resolution: territory.h3Resolution,
+  h3_cells: territory.h3Cells,
+  drawn_polygon: (territory.drawnPolygon as Json) || null,
+  boundary: getTerritoryBoundary(territory.h3Cells) as Json,
+});
+
+export const getTerritories = async (): Promise<SalesTerritory[]> => {
+  const { data, error } = await supabase
+    .from('sales_territories')
+    .select('id, name, color, owner_id, h3_resolution, h3_cells, drawn_polygon, created_at, updated_at')
+    .order('name');
+  if (error) throw error;
+  return (data || []).map(convertTerritoryFromDB);
+};
+
+export const addTerritory = async (territory: TerritoryInput): Promise<SalesTerritory> => {
+  const { data, error } = await supabase
+    .from('sales_territories')
+    .insert({ ...convertTerritoryToDB(territory), tenant_id: requireTenantId() })
+    .select('id, name, color, owner_id, h3_resolution, h3_cells, drawn_polygon, created_at, updated_at')
+    .single();
+  if (error) throw error;
+  return convertTerritoryFromDB(data);
+};
+
+/** Redrawing moves the companies that fall in or out of the territory */
+export const updateTerritory = async (id: string, territory: TerritoryInput): Promise<void> => {
+  const { error } = await supabase
+    .from('sales_territories')
+    .update(convertTerritoryToDB(territory))
+    .eq('id', id);
+  if (error) throw error;
+};
+
+/** Its companies keep their owner but no longer belong to a territory */
+export const deleteTerritory = async (id: string): Promise<void> => {
+  const { error } = await supabase.from('sales_territories').delete().eq('id', id);
+  if (error) throw error;
+};
+
+/**
+ * Hands a territory to another salesperson, or nobody. Its companies and the
+ * previous rep's open deals on them follow; the change is audit logged
+ * server-side.
+ */
+export const reassignTerritory = async (
+  id: string,
+  ownerId: string | undefined
+): Promise<{ companiesUpdated: number; opportunitiesUpdated: number }> => {
+  const { data, error } = await supabase.rpc('reassign_sales_territory', {
+    _territory_id: id,
+    _owner_id: ownerId,
+  });
+  if (error) throw error;
+  const row = data?.[0];
+  return { companiesUpdated: row?.companies_updated ?? 0, opportunitiesUpdated: row?.opportunities_updated ?? 0 };
+};
+
+/** The territory a point falls in; where they overlap the oldest wins, as in the database */
+export const findTerritoryAt = (territories: SalesTerritory[], lat: number, lng: number): SalesTerritory | undefined =>
+  [...territories]
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .find(t => t.h3Cells.includes(latLngToCell(lat, lng, t.h3Resolution)));
+
+/** Company count, revenue and open pipeline per territory id */
+export const getTerritoryStats = async (): Promise<Record<string, TerritoryStats>> => {
+  const [{ data: companies, error: companiesError }, { data: invoices, error: invoicesError }, opportunities] = await Promise.all([
+    supabase.from('companies').select('id, territory_id').not('territory_id', 'is', null),
+    supabase.from('invoices').select('company_id, total').eq('status', 'finalized').not('company_id', 'is', null),
+    getOpportunities(),
+  ]);
+  if (companiesError) throw companiesError;
+  if (invoicesError) throw invoicesError;
+
+  const stats: Record<string, TerritoryStats> = {};
+  const territoryOf = new Map<string, string>();
+  for (const company of companies || []) {
+    if (!company.territory_id) continue;
+    territoryOf.set(company.id, company.territory_id);
+    if (!stats[company.territory_id]) stats[company.territory_id] = { companyCount: 0, revenue: 0, openDeals: 0, pipeline: 0 };
+    stats[company.territory_id].companyCount++;
+  }
+
+  for (const invoice of invoices || []) {
+    const territoryId = invoice.company_id && territoryOf.get(invoice.company_id);
+    if (territoryId) stats[territoryId].revenue += Number(invoice.total);
+  }
+
+  for (const opportunity of opportunities) {
+    const territoryId = opportunity.companyId && territoryOf.get(opportunity.companyId);
+    if (!territoryId || !isOpenStage(opportunity.stage)) continue;
+    stats[territoryId].openDeals++;
+    stats[territoryId].pipeline += getWeightedValue(opportunity);
+  }
+
+  return stats;
+};
@@ -0,0 +1,70 @@
+// In-app notifications for the signed-in user. Rows are written server-side
+// (e.g. pricing approval requests and decisions); users can only read,
+// mark read and dismiss their own.
+import { supabase } from "@/integrations/supabase/client";
+
+export interface UserNotification {
+  id: string;
+  title: string;
+  body?: string;
+  /** App route to open when clicked */
+  link?: string;
+  readAt?: string;
+  createdAt: string;
+}
+
+type NotificationRow = {
+  id: string;
+  title: string;
+  body: string | null;
+  link: string | null;
+  read_at: string | null;
+  created_at: string;
+};
+
+export const convertNotificationFromDB = (row: NotificationRow): UserNotification => ({
+  id: row.id,
+  title: row.title,
+  body: row.body || undefined,
+  link: row.link || undefined,
+  readAt: row.read_at || undefined,
+  createdAt: row.created_at,
+});
+
+export const getUserNotifications = async (limit = 30): Promise<UserNotification[]> => {
+  const { data, error } = await supabase
+    .from('user_notifications')
+    .select('id, title, body, link, read_at, created_at')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data || []).map(convertNotificationFromDB);
+};
+
+export const markNotificationRead = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('user_notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('id', id)
+    .is('read_at', null);
+  if (error) throw error;
+};
+
+export const markAllNotificationsRead = async (): Promise<void> => {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return;
+  const { error } = await supabase
+    .from('user_notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('user_id', user.id)
+    .is('read_at', null);
+  if (error) throw error;
+};
+
+export const deleteNotification = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('user_notifications')
+    .delete()
+    .eq('id', id);
+  if (error) throw error;
+};
@@ -0,0 +1,290 @@
+// Stock locations (yards, warehouses, service vehicles) and transfers between them.
+// Transfers are drafted client-side; shipping, receiving and cancelling run
+// server-side so stock never exists in two places at once.
+import { supabase } from "@/integrations/supabase/client";
+import { requireTenantId } from "@/lib/tenant-context";
+
+export const WAREHOUSE_KINDS = ['warehouse', 'yard', 'vehicle'] as const;
+
+export type WarehouseKind = typeof WAREHOUSE_KINDS[number];
+
+export interface Warehouse {
+  id: string;
+  name: string;
+  code: string;
+  kind: WarehouseKind;
+  address?: string;
+  isDefault: boolean;
+  isActive: boolean;
+  createdAt: string;
+}
+
+export type StockTransferStatus = 'draft' | 'in_transit' | 'received' | 'cancelled';
+
+export interface StockTransferLine {
+  id: string;
+  itemId: string;
+  quantity: number;
+  toBin?: string;
+  unitCost?: number;
+  receivedItemId?: string;
+}
+
+export interface StockTransfer {
+  id: string;
+  transferNumber: string;
+  fromWarehouseId: string;
+  toWarehouseId: string;
+  status: StockTransferStatus;
+  notes?: string;
+  lines: StockTransferLine[];
+  createdBy?: string;
+  createdAt: string;
+  shippedAt?: string;
+  shippedBy?: string;
+  receivedAt?: string;
+  receivedBy?: string;
+  cancelledAt?: string;
+  cancelledBy?: string;
+}
+
+export const getWarehouseKindLabel = (kind: WarehouseKind): string => {
+  const labels: Record<WarehouseKind, string> = {
+    warehouse: 'Warehouse',
+    yard: 'Yard',
+    vehicle: 'Service Vehicle',
+  };
+  return labels[kind];
+};
+
+export const getTransferStatusLabel = (status: StockTransferStatus): string => {
+  const labels: Record<StockTransferStatus, string> = {
+    draft: 'Draft',
+    in_transit: 'In Transit',
+    received: 'Received',
+    cancelled: 'Cancelled',
+  };
+  return labels[status];
+};
+
+type WarehouseRow = {
+  id: string;
+  name: string;
+  code: string;
+  kind: string;
+  address: string | null;
+  is_default: boolean;
+  is_active: boolean;
+  created_at: string;
+};
+
+function convertWarehouseFromDB(row: WarehouseRow): Warehouse {
+  return {
+    id: row.id,
+    name: row.name,
+    code: row.code,
+    kind: row.kind as WarehouseKind,
+    address: row.address || undefined,
+    isDefault: row.is_default,
+    isActive: row.is_active,
+    createdAt: row.created_at,
+  };
+}
+
+export const getWarehouses = async (): Promise<Warehouse[]> => {
+  const { data, error } = await supabase
+    .from('warehouses')
+    .select('*')
+    .order('is_default', { ascending: false })
+    .order('name');
+
+  if (error) throw error;
+  return (data || []).map(convertWarehouseFromDB);
+};
+
+export const addWarehouse = async (
+  warehouse: Omit<Warehouse, 'id' | 'createdAt'>
+): Promise<Warehouse> => {
+  const { data, error } = await supabase
+    .from('warehouses')
+    .insert({
+      tenant_id: requireTenantId(),
+      name: warehouse.name,
+      code: warehouse.code.toUpperCase(),
+      kind: warehouse.kind,
+      address: warehouse.address,
+      is_default: warehouse.isDefault,
+      is_active: warehouse.isActive,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return convertWarehouseFromDB(data);
+};
+
+export const updateWarehouse = async (
+  id: string,
+  updates: Partial<Omit<Warehouse, 'id' | 'createdAt'>>
+): Promise<void> => {
+  // Only one default per tenant (unique index), so clear the old one first
+  if (updates.isDefault) {
+    const { error } = await supabase
+      .from('warehouses')
+      .update({ is_default: false })
+      .eq('is_default', true)
+      .neq('id', id);
+    if (error) throw error;
+  }
+
+  const updateData: Record<string, unknown> = {};
+  if (updates.name !== undefined) updateData.name = updates.name;
+  if (updates.code !== undefined) updateData.code = updates.code.toUpperCase();
+  if (updates.kind !== undefined) updateData.kind = updates.kind;
+  if (updates.address !== undefined) updateData.address = updates.address || null;
+  if (updates.isDefault !== undefined) updateData.is_default = updates.isDefault;
+  if (updates.isActive !== undefined) updateData.is_active = updates.isActive;
+
+  const { error } = await supabase
+    .from('warehouses')
+    .update(updateData)
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+export const deleteWarehouse = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('warehouses')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+/** Display name for an item's location; items without one predate locations */
+export const getWarehouseName = (warehouses: Warehouse[], warehouseId?: string): string =>
+  warehouses.find(w => w.id === warehouseId)?.name || 'Unassigned';
+
+type TransferLineRow = {
+  id: string;
+  item_id: string;
+  quantity: number;
+  to_bin: string | null;
+  unit_cost: number | null;
+  received_item_id: string | null;
+};
+
+type TransferRow = {
+  id: string;
+  transfer_number: string;
+  from_warehouse_id: string;
+  to_warehouse_id: string;
+  status: string;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+  shipped_at: string | null;
+  shipped_by: string | null;
+  received_at: string | null;
+  received_by: string | null;
+  cancelled_at: string | null;
+  cancelled_by: string | null;
+  stock_transfer_lines?: TransferLineRow[] | null;
+};
+
+function convertTransferFromDB(row: TransferRow): StockTransfer {
+  return {
+    id: row.id,
+    transferNumber: row.transfer_number,
+    fromWarehouseId: row.from_warehouse_id,
+    toWarehouseId: row.to_warehouse_id,
+    status: row.status as StockTransferStatus,
+    notes: row.notes || undefined,
+    lines: (row.stock_transfer_lines || []).map(line => ({
+      id: line.id,
+      itemId: line.item_id,
+      quantity: line.quantity,
+      toBin: line.to_bin || undefined,
+      unitCost: line.unit_cost !== null ? Number(line.unit_cost) : undefined,
+      receivedItemId: line.received_item_id || undefined,
+    })),
+    createdBy: row.created_by || undefined,
+    createdAt: row.created_at,
+    shippedAt: row.shipped_at || undefined,
+    shippedBy: row.shipped_by || undefined,
+    receivedAt: row.received_at || undefined,
+    receivedBy: row.received_by || undefined,
+    cancelledAt: row.cancelled_at || undefined,
+    cancelledBy: row.cancelled_by || undefined,
+  };
+}
+
+export const getStockTransfers = async (): Promise<StockTransfer[]> => {
+  const { data, error } = await supabase
+    .from('stock_transfers')
+    .select('*, stock_transfer_lines(*)')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(convertTransferFromDB);
+};
+
+export const createStockTransfer = async (transfer: {
+  fromWarehouseId: string;
+  toWarehouseId: string;
+  notes?: string;
+  lines: { itemId: string; quantity: number; toBin?: string }[];
+}): Promise<StockTransfer> => {
+  const tenantId = requireTenantId();
+  const { data, error } = await supabase
+    .from('stock_transfers')
+    .insert({
+      tenant_id: tenantId,
+      from_warehouse_id: transfer.fromWarehouseId,
+      to_warehouse_id: transfer.toWarehouseId,
+      notes: transfer.notes,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  const { data: lines, error: linesError } = await supabase
+    .from('stock_transfer_lines')
+    .insert(transfer.lines.map(line => ({
+      tenant_id: tenantId,
+      transfer_id: data.id,
+      item_id: line.itemId,
+      quantity: line.quantity,
+      to_bin: line.toBin || null,
+    })))
+    .select();
+
+  if (linesError) throw linesError;
+  return convertTransferFromDB({ ...data, stock_transfer_lines: lines });
+};
+
+export const deleteStockTransfer = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('stock_transfers')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+};
+
+export const shipStockTransfer = async (id: string): Promise<void> => {
+  const { error } = await supabase.rpc('ship_stock_transfer', { _transfer_id: id });
+  if (error) throw error;
+};
+
+export const receiveStockTransfer = async (id: string): Promise<void> => {
+  const { error } = await supabase.rpc('receive_stock_transfer', { _transfer_id: id });
+  if (error) throw error;
+};
+
+export const cancelStockTransfer = async (id: string): Promise<void> => {
+  const { error } = await supabase.rpc('cancel_stock_transfer', { _transfer_id: id });
+  if (error) throw error;
+};
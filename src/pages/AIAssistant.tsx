@@ -41,9 +41,12 @@ import {
   Cpu,
   Zap,
   Upload,
-  FileAudio
+  FileAudio,
+  ListTodo
 } from "lucide-react";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { TaskDialog } from "@/components/tasks/TaskDialog";
+import type { TaskInput } from "@/lib/task-storage";
 
 interface Contact {
   id: string;
@@ -682,6 +685,8 @@ export default function AIAssistant() {
   const chatEndRef = useRef<HTMLDivElement>(null);
   const [historySearch, setHistorySearch] = useState("");
   const [historySortOrder, setHistorySortOrder] = useState<"newest" | "oldest">("newest");
+  const [followUpOpen, setFollowUpOpen] = useState(false);
+  const [followUpDefaults, setFollowUpDefaults] = useState<Partial<TaskInput>>();
 
   // Auto-scroll chat to bottom
   useEffect(() => {
@@ -1182,6 +1187,23 @@ export default function AIAssistant() {
                                 <span className="text-xs text-muted-foreground">
                                   {new Date(conv.created_at).toLocaleString()}
                                 </span>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-6 w-6"
+                                  title="Add follow-up task"
+                                  onClick={() => {
+                                    setFollowUpDefaults({
+                                      title: conv.contact_id ? `Follow up with ${getContactName(conv.contact_id)}` : "Follow up on conversation",
+                                      priority: "normal",
+                                      personId: conv.contact_id,
+                                      notes: conv.summary,
+                                    });
+                                    setFollowUpOpen(true);
+                                  }}
+                                >
+                                  <ListTodo className="h-3 w-3" />
+                                </Button>
                                 <Button 
                                   variant="ghost" 
                                   size="icon"
@@ -1653,6 +1675,12 @@ export default function AIAssistant() {
           </div>
         </DialogContent>
       </Dialog>
+
+      <TaskDialog
+        open={followUpOpen}
+        onOpenChange={setFollowUpOpen}
+        defaults={followUpDefaults}
+      />
     </div>
   );
 }
@@ -8,13 +8,18 @@ import { DollarSign, TrendingUp, TrendingDown, Package, FileText, Calculator, Ch
 import { inventoryStorage, InventoryItem, Invoice, Quote } from "@/lib/inventory-storage";
 import { InvoicePDFPreview } from "@/components/InvoicePDFPreview";
 import { EditInvoiceDialog } from "@/components/EditInvoiceDialog";
+import { InvoicePaymentsDialog, PaymentStatusBadge } from "@/components/InvoicePaymentsDialog";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { Button } from "@/components/ui/button";
 import { getPurchaseOrders, getVendors, type PurchaseOrder, type Vendor } from "@/lib/po-storage";
 import { getExpenses, getCategoryLabel, EXPENSE_CATEGORY_GROUPS, type Expense } from "@/lib/expense-storage";
 import { AddExpenseDialog } from "@/components/AddExpenseDialog";
 import { FinancialReports } from "@/components/FinancialReports";
+import { ARAgingReport } from "@/components/ARAgingReport";
+import { FinancialStatements } from "@/components/FinancialStatements";
+import { SalesTaxReport } from "@/components/SalesTaxReport";
 import { QuickBooksConnection } from "@/components/QuickBooksConnection";
+import { DocumentNumberingDialog } from "@/components/DocumentNumberingDialog";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
 import { useAsyncData } from "@/hooks/useAsyncData";
@@ -63,6 +68,8 @@ function AccountingContent() {
   const [invoicePreviewOpen, setInvoicePreviewOpen] = useState(false);
   const [editingInvoice, setEditingInvoice] = useState<Invoice | null>(null);
   const [editInvoiceOpen, setEditInvoiceOpen] = useState(false);
+  const [paymentsInvoice, setPaymentsInvoice] = useState<Invoice | null>(null);
+  const [paymentsOpen, setPaymentsOpen] = useState(false);
   const [pendingQuotesOpen, setPendingQuotesOpen] = useState(false);
   const [approvedQuotesOpen, setApprovedQuotesOpen] = useState(false);
   const [paidInvoicesOpen, setPaidInvoicesOpen] = useState(false);
@@ -121,7 +128,7 @@ function AccountingContent() {
   const paidInvoices = filteredInvoices.filter(inv => inv.paid);
   const unpaidInvoices = filteredInvoices.filter(inv => !inv.paid);
   const paidInvoicesValue = paidInvoices.reduce((sum, inv) => sum + inv.total, 0);
-  const unpaidInvoicesValue = unpaidInvoices.reduce((sum, inv) => sum + inv.total, 0);
+  const unpaidInvoicesValue = unpaidInvoices.reduce((sum, inv) => sum + (inv.balanceDue ?? inv.total), 0);
 
   const totalExpenses = expenses.reduce((sum, exp) => sum + exp.amount, 0);
   const expensesByCategory = expenses.reduce((acc, exp) => {
@@ -172,9 +179,12 @@ function AccountingContent() {
   return (
     <div className="min-h-screen bg-background">
       <div className="border-b bg-card">
-        <div className="container mx-auto px-4 py-6">
-          <h1 className="text-3xl font-bold text-foreground">Accounting</h1>
-          <p className="text-muted-foreground mt-1">Financial overview and cost analysis</p>
+        <div className="container mx-auto px-4 py-6 flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Accounting</h1>
+            <p className="text-muted-foreground mt-1">Financial overview and cost analysis</p>
+          </div>
+          <DocumentNumberingDialog />
         </div>
       </div>
 
@@ -321,7 +331,7 @@ function AccountingContent() {
                 <Receipt className="h-5 w-5" />
                 Invoice Tracker
               </CardTitle>
-              <CardDescription>Paid vs Unpaid invoices</CardDescription>
+              <CardDescription>Paid vs outstanding balances</CardDescription>
             </CardHeader>
             <CardContent>
               {filteredInvoices.length === 0 ? (
@@ -371,7 +381,7 @@ function AccountingContent() {
                       <div className="p-4 border rounded-lg bg-red-500/10 cursor-pointer hover:bg-red-500/20 transition-colors">
                         <div className="flex justify-between items-center mb-2">
                           <div className="flex items-center gap-2">
-                            <span className="text-sm font-medium text-red-700">Unpaid Invoices</span>
+                            <span className="text-sm font-medium text-red-700">Outstanding Balances</span>
                             {unpaidInvoicesOpen ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
                           </div>
                           <Badge variant="destructive">{unpaidInvoices.length}</Badge>
@@ -384,13 +394,25 @@ function AccountingContent() {
                         {paginatedUnpaidInvoices.map((invoice) => (
                           <div key={invoice.id} className="flex justify-between items-center p-2 border rounded bg-background/50 text-sm hover:bg-muted/50">
                             <div className="flex-1 cursor-pointer" onClick={() => { setSelectedInvoice(invoice); setInvoicePreviewOpen(true); }}>
-                              <div className="font-medium">{invoice.invoiceNumber}</div>
+                              <div className="flex items-center gap-2">
+                                <span className="font-medium">{invoice.invoiceNumber}</span>
+                                {invoice.paymentStatus === 'partially_paid' && (
+                                  <Badge variant="secondary" className="text-xs">Partial</Badge>
+                                )}
+                              </div>
                               <div className="text-xs text-muted-foreground">{invoice.customerName}</div>
                             </div>
                             <div className="text-right cursor-pointer" onClick={() => { setSelectedInvoice(invoice); setInvoicePreviewOpen(true); }}>
-                              <div className="font-semibold">${invoice.total.toFixed(2)}</div>
-                              <div className="text-xs text-muted-foreground">{invoice.items.length} items</div>
+                              <div className="font-semibold">${(invoice.balanceDue ?? invoice.total).toFixed(2)}</div>
+                              <div className="text-xs text-muted-foreground">
+                                {invoice.amountPaid ? `of $${invoice.total.toFixed(2)}` : `${invoice.items.length} items`}
+                              </div>
                             </div>
+                            <Button size="sm" variant="ghost" className="ml-2 h-8 w-8 p-0"
+                              onClick={(e) => { e.stopPropagation(); setPaymentsInvoice(invoice); setPaymentsOpen(true); }}
+                              title="Record payment">
+                              <DollarSign className="h-4 w-4" />
+                            </Button>
                             {hasOwnerAccess() && (
                               <Button size="sm" variant="ghost" className="ml-2 h-8 w-8 p-0"
                                 onClick={(e) => { e.stopPropagation(); setEditingInvoice(invoice); setEditInvoiceOpen(true); }}
@@ -628,11 +650,7 @@ function AccountingContent() {
                       <div>
                         <div className="flex items-center gap-2">
                           <span className="font-medium">{invoice.invoiceNumber}</span>
-                          {invoice.paid ? (
-                            <Badge variant="default" className="bg-green-500 text-xs">Paid</Badge>
-                          ) : (
-                            <Badge variant="outline" className="text-xs">Unpaid</Badge>
-                          )}
+                          <PaymentStatusBadge status={invoice.paymentStatus || (invoice.paid ? 'paid' : 'unpaid')} />
                         </div>
                         <div className="text-xs text-muted-foreground">{new Date(invoice.createdAt).toLocaleDateString()}</div>
                       </div>
@@ -720,6 +738,9 @@ function AccountingContent() {
 
       <div className="container mx-auto px-4 py-8 space-y-8">
         <QuickBooksConnection onSyncComplete={refresh} />
+        <ARAgingReport invoices={invoices} />
+        <FinancialStatements />
+        <SalesTaxReport invoices={invoices} />
         <FinancialReports />
       </div>
 
@@ -741,11 +762,19 @@ function AccountingContent() {
         onInvoiceUpdated={handleInvoiceUpdated}
       />
 
+      <InvoicePaymentsDialog
+        invoice={paymentsInvoice}
+        open={paymentsOpen}
+        onOpenChange={setPaymentsOpen}
+        onPaymentsChanged={refresh}
+      />
+
       <EditInvoiceDialog
         invoice={editingInvoice}
         open={editInvoiceOpen}
         onOpenChange={setEditInvoiceOpen}
         onSaved={() => { setEditInvoiceOpen(false); setEditingInvoice(null); refresh(); }}
+        onPaymentsChanged={refresh}
       />
     </div>
   );
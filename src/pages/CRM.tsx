@@ -5,9 +5,12 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Building2, FileText, StickyNote, Mail, Phone, MapPin, Briefcase, User, Eye, Download, Upload, Users, UserPlus, MessageSquare, RefreshCw, AlertCircle, Wifi, WifiOff, Search, X } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Building2, FileText, StickyNote, Mail, Phone, MapPin, Briefcase, User, Eye, Upload, Users, UserPlus, MessageSquare, RefreshCw, AlertCircle, Wifi, WifiOff, Search, X, ListTodo } from "lucide-react";
 import { useDebouncedSearch } from "@/hooks/useDebounce";
 import { ImportContactsDialog } from "@/components/ImportContactsDialog";
+import { ExportContactsDialog } from "@/components/crm/ExportContactsDialog";
 import { AddCompanyDialog } from "@/components/AddCompanyDialog";
 import { AddPersonDialog } from "@/components/AddPersonDialog";
 import { CompanyDetailDialog } from "@/components/CompanyDetailDialog";
@@ -18,15 +21,20 @@ import { AssignSalesmanDialog } from "@/components/AssignSalesmanDialog";
 import { MergeDuplicatesDialog } from "@/components/MergeDuplicatesDialog";
 import { ContactsMapDialog } from "@/components/ContactsMapDialog";
 import { inventoryStorage, Company, Person, Quote, Invoice } from "@/lib/inventory-storage";
+import { getOpportunities, type Opportunity } from "@/lib/opportunity-storage";
+import { PipelineBoard } from "@/components/crm/PipelineBoard";
+import { TaskDialog } from "@/components/tasks/TaskDialog";
+import type { TaskInput } from "@/lib/task-storage";
 import { supabase } from "@/integrations/supabase/client";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
 import { LoadingSpinner, CardSkeleton, StatsCardSkeleton } from "@/components/LoadingState";
 import { toast } from "sonner";
-import { logAuditEvent, AuditEvents } from "@/hooks/useAuditLog";
 import { useRealtimeSync } from "@/hooks/useRealtimeSync";
+import { useAuth } from "@/hooks/useAuth";
 
 const CRMContent = () => {
   const location = useLocation();
+  const { user } = useAuth();
   const [searchParams, setSearchParams] = useSearchParams();
   const [activeTab, setActiveTab] = useState(() => {
     const saved = sessionStorage.getItem('crm_active_tab');
@@ -36,6 +44,7 @@ const CRMContent = () => {
   const [persons, setPersons] = useState<Person[]>([]);
   const [quotes, setQuotes] = useState<Quote[]>([]);
   const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [opportunities, setOpportunities] = useState<Opportunity[]>([]);
   const [refreshKey, setRefreshKey] = useState(0);
   const [selectedPerson, setSelectedPerson] = useState<Person | null>(null);
   const [selectedCompany, setSelectedCompany] = useState<Company | null>(null);
@@ -49,9 +58,12 @@ const CRMContent = () => {
   const [assignSalesmanDocNumber, setAssignSalesmanDocNumber] = useState("");
   const [assignSalesmanCurrent, setAssignSalesmanCurrent] = useState<string | undefined>();
   const [mergeDuplicatesOpen, setMergeDuplicatesOpen] = useState(false);
+  const [followUpOpen, setFollowUpOpen] = useState(false);
+  const [followUpDefaults, setFollowUpDefaults] = useState<Partial<TaskInput>>();
   const [conversationCounts, setConversationCounts] = useState<Record<string, number>>({});
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
+  const [myTerritoryOnly, setMyTerritoryOnly] = useState(() => sessionStorage.getItem('crm_my_territory') === 'true');
   
   // CRM-specific search
   const { searchQuery, debouncedQuery, setSearchQuery, clearSearch } = useDebouncedSearch("", 300);
@@ -62,21 +74,28 @@ const CRMContent = () => {
     sessionStorage.setItem('crm_active_tab', value);
   };
 
+  const handleMyTerritoryChange = (checked: boolean) => {
+    setMyTerritoryOnly(checked);
+    sessionStorage.setItem('crm_my_territory', String(checked));
+  };
+
   const loadData = useCallback(async () => {
     setLoading(true);
     setError(null);
     
     try {
-      const [companiesData, personsData, quotesData, invoicesData] = await Promise.all([
+      const [companiesData, personsData, quotesData, invoicesData, opportunitiesData] = await Promise.all([
         inventoryStorage.getCompanies(),
         inventoryStorage.getPersons(),
         inventoryStorage.getQuotes(),
-        inventoryStorage.getInvoices()
+        inventoryStorage.getInvoices(),
+        getOpportunities()
       ]);
       setCompanies(companiesData);
       setPersons(personsData);
       setQuotes(quotesData);
       setInvoices(invoicesData);
+      setOpportunities(opportunitiesData);
       
       // Load conversation counts per contact
       const { data: conversations, error: convError } = await supabase
@@ -114,7 +133,7 @@ const CRMContent = () => {
 
   // Set up realtime sync for all CRM tables
   useRealtimeSync({
-    tables: ["companies", "people", "items", "quotes", "invoices", "branches"],
+    tables: ["companies", "people", "items", "quotes", "invoices", "branches", "opportunities"],
     onDataChange: silentRefresh,
     showToasts: true,
   });
@@ -177,8 +196,12 @@ const CRMContent = () => {
     return company?.name || "Unknown Company";
   };
 
+  // Accounts the current user owns through their sales territories
+  const myCompanyIds = new Set(companies.filter(c => user && c.ownerId === user.id).map(c => c.id));
+
   // Filter companies and contacts based on search
   const filteredCompanies = companies.filter(company => {
+    if (myTerritoryOnly && !myCompanyIds.has(company.id)) return false;
     if (!debouncedQuery) return true;
     const search = debouncedQuery.toLowerCase();
     return (
@@ -188,6 +211,7 @@ const CRMContent = () => {
   });
   
   const filteredPersons = persons.filter(person => {
+    if (myTerritoryOnly && !(person.companyId && myCompanyIds.has(person.companyId))) return false;
     if (!debouncedQuery) return true;
     const search = debouncedQuery.toLowerCase();
     return (
@@ -252,57 +276,6 @@ const CRMContent = () => {
     .map(([name, stats]) => ({ name, ...stats }))
     .sort((a, b) => b.revenue - a.revenue);
 
-  const exportContactsToCSV = async () => {
-    try {
-      // Create CSV header
-      const headers = ['First Name', 'Last Name', 'Email', 'Phone Number'];
-      
-      // Create CSV rows
-      const rows = persons.map(person => {
-        // Split name into first and last name
-        const nameParts = person.name.trim().split(' ');
-        const firstName = nameParts[0] || '';
-        const lastName = nameParts.slice(1).join(' ') || '';
-        
-        return [
-          firstName,
-          lastName,
-          person.email || '',
-          person.phone || ''
-        ];
-      });
-      
-      // Combine headers and rows
-      const csvContent = [
-        headers.join(','),
-        ...rows.map(row => row.map(cell => `"${cell}"`).join(','))
-      ].join('\n');
-      
-      // Log the export event BEFORE download for audit trail
-      await logAuditEvent(AuditEvents.DATA_EXPORTED(
-        'contacts',
-        'csv',
-        persons.length
-      ));
-      
-      // Create blob and download
-      const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-      const link = document.createElement('a');
-      const url = URL.createObjectURL(blob);
-      link.setAttribute('href', url);
-      link.setAttribute('download', `contacts_${new Date().toISOString().split('T')[0]}.csv`);
-      link.style.visibility = 'hidden';
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      
-      toast.success(`Exported ${persons.length} contacts`);
-    } catch (error) {
-      console.error('Export failed:', error);
-      toast.error('Failed to export contacts');
-    }
-  };
-
   return (
     <div className="min-h-screen bg-background">
       <div className="border-b bg-card">
@@ -362,14 +335,7 @@ const CRMContent = () => {
         <div className="flex flex-col sm:flex-row gap-3 mb-8">
           <AddCompanyDialog onCompanyAdded={handleRefresh} />
           <AddPersonDialog onPersonAdded={handleRefresh} />
-          <Button 
-            variant="outline" 
-            onClick={exportContactsToCSV}
-            disabled={persons.length === 0}
-          >
-            <Download className="mr-2 h-4 w-4" />
-            Export Contacts
-          </Button>
+          <ExportContactsDialog companies={companies} persons={persons} />
           <ImportContactsDialog onContactsImported={handleRefresh} />
           <Button 
             variant="outline" 
@@ -387,35 +353,42 @@ const CRMContent = () => {
         </div>
 
         {/* Search Bar for Companies & Contacts */}
-        <div className="relative mb-6">
-          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-          <Input
-            placeholder="Search companies and contacts..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="pl-9 pr-9 max-w-md"
-          />
-          {searchQuery && (
-            <Button
-              variant="ghost"
-              size="icon"
-              className="absolute right-1 top-1/2 transform -translate-y-1/2 h-7 w-7"
-              onClick={clearSearch}
-            >
-              <X className="h-4 w-4" />
-            </Button>
-          )}
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3 mb-6">
+          <div className="relative flex-1 max-w-md">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search companies and contacts..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="pl-9 pr-9"
+            />
+            {searchQuery && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="absolute right-1 top-1/2 transform -translate-y-1/2 h-7 w-7"
+                onClick={clearSearch}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="crm-my-territory" checked={myTerritoryOnly} onCheckedChange={handleMyTerritoryChange} />
+            <Label htmlFor="crm-my-territory" className="text-sm cursor-pointer">My territory</Label>
+          </div>
         </div>
 
         {/* Tabs */}
         <Tabs value={activeTab} onValueChange={handleTabChange} className="w-full">
-          <TabsList className="grid grid-cols-2 sm:grid-cols-4 w-full sm:w-auto">
+          <TabsList className="grid grid-cols-3 sm:grid-cols-5 w-full sm:w-auto">
             <TabsTrigger value="companies">
-              Companies {debouncedQuery && `(${filteredCompanies.length})`}
+              Companies {(debouncedQuery || myTerritoryOnly) && `(${filteredCompanies.length})`}
             </TabsTrigger>
             <TabsTrigger value="contacts">
-              Contacts {debouncedQuery && `(${filteredPersons.length})`}
+              Contacts {(debouncedQuery || myTerritoryOnly) && `(${filteredPersons.length})`}
             </TabsTrigger>
+            <TabsTrigger value="pipeline">Pipeline</TabsTrigger>
             <TabsTrigger value="quotes">Quotes</TabsTrigger>
             <TabsTrigger value="notes">Notes</TabsTrigger>
           </TabsList>
@@ -433,7 +406,7 @@ const CRMContent = () => {
                   </p>
                 ) : filteredCompanies.length === 0 ? (
                   <p className="text-center text-muted-foreground py-8">
-                    No companies match your search.
+                    {myTerritoryOnly ? "None of your territory's companies match." : "No companies match your search."}
                   </p>
                 ) : (
                   <div className="space-y-3">
@@ -483,7 +456,7 @@ const CRMContent = () => {
                   </p>
                 ) : filteredPersons.length === 0 ? (
                   <p className="text-center text-muted-foreground py-8">
-                    No contacts match your search.
+                    {myTerritoryOnly ? "None of your territory's contacts match." : "No contacts match your search."}
                   </p>
                 ) : (
                   <div className="space-y-4">
@@ -562,6 +535,16 @@ const CRMContent = () => {
             </Card>
           </TabsContent>
 
+          <TabsContent value="pipeline" className="mt-6">
+            <PipelineBoard
+              opportunities={opportunities}
+              companies={companies}
+              persons={persons}
+              quotes={quotes}
+              onChanged={silentRefresh}
+            />
+          </TabsContent>
+
           <TabsContent value="quotes" className="mt-6">
             <Card>
               <CardHeader>
@@ -601,6 +584,12 @@ const CRMContent = () => {
                           <UserPlus className="h-3 w-3" />
                           {quote.salesmanName || "No salesman assigned"}
                         </div>
+                        {quote.opportunityId && (
+                          <div className="flex items-center gap-2 text-xs text-muted-foreground mb-2">
+                            <Briefcase className="h-3 w-3" />
+                            {opportunities.find(o => o.id === quote.opportunityId)?.name || "Deal"}
+                          </div>
+                        )}
                         <div className="border-t pt-3 mt-3 flex gap-2">
                           <Button
                             size="sm"
@@ -618,6 +607,23 @@ const CRMContent = () => {
                             <UserPlus className="mr-2 h-4 w-4" />
                             Assign Salesman
                           </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => {
+                              setFollowUpDefaults({
+                                title: `Follow up on quote ${quote.quoteNumber}`,
+                                priority: "normal",
+                                quoteId: quote.id,
+                                companyId: quote.companyId,
+                                personId: quote.personId,
+                              });
+                              setFollowUpOpen(true);
+                            }}
+                          >
+                            <ListTodo className="mr-2 h-4 w-4" />
+                            Follow Up
+                          </Button>
                         </div>
                       </div>
                     ))}
@@ -759,6 +765,12 @@ const CRMContent = () => {
           onAssigned={handleRefresh}
         />
 
+        <TaskDialog
+          open={followUpOpen}
+          onOpenChange={setFollowUpOpen}
+          defaults={followUpDefaults}
+        />
+
         <MergeDuplicatesDialog
           open={mergeDuplicatesOpen}
           onOpenChange={setMergeDuplicatesOpen}
@@ -1,44 +1,140 @@
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { FileText, LogOut, Receipt, ShieldCheck, Wrench } from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useAuth } from "@/hooks/useAuth";
+import type { Invoice, Quote } from "@/lib/inventory-storage";
+import {
+  getPortalCompany,
+  getPortalInvoices,
+  getPortalQuotes,
+  getPurchasedUnits,
+  getServiceRequests,
+  type PortalCompany,
+  type PurchasedUnit,
+  type ServiceRequest,
+} from "@/lib/customer-portal-storage";
+import { PortalQuotes } from "@/components/customer-portal/PortalQuotes";
+import { PortalInvoices } from "@/components/customer-portal/PortalInvoices";
+import { PortalWarranties } from "@/components/customer-portal/PortalWarranties";
+import { PortalServiceRequests } from "@/components/customer-portal/PortalServiceRequests";
 
 export default function CustomerDashboard() {
-  const { user } = useAuth();
+  const { user, tenantId, signOut } = useAuth();
+  const [company, setCompany] = useState<PortalCompany | null>(null);
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [units, setUnits] = useState<PurchasedUnit[]>([]);
+  const [requests, setRequests] = useState<ServiceRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [activeTab, setActiveTab] = useState("quotes");
+  const [serviceSerial, setServiceSerial] = useState<string>();
+
+  // Everything below is scoped to the customer's company server-side
+  const loadData = useCallback(async () => {
+    if (!tenantId) {
+      setLoading(false);
+      return;
+    }
+    try {
+      const portalCompany = await getPortalCompany();
+      setCompany(portalCompany);
+      if (!portalCompany) return;
+
+      const [portalQuotes, portalInvoices, portalUnits, portalRequests] = await Promise.all([
+        getPortalQuotes(),
+        getPortalInvoices(),
+        getPurchasedUnits(),
+        getServiceRequests(),
+      ]);
+      setQuotes(portalQuotes);
+      setInvoices(portalInvoices);
+      setUnits(portalUnits);
+      setRequests(portalRequests);
+    } catch (error) {
+      console.error("Error loading customer portal:", error);
+      toast.error("Failed to load your account");
+    } finally {
+      setLoading(false);
+    }
+  }, [tenantId]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleRequestService = (unit: PurchasedUnit) => {
+    setServiceSerial(unit.serialNumber);
+    setActiveTab("service");
+  };
+
+  const pendingQuotes = quotes.filter((q) => q.status === "pending").length;
 
   return (
     <div className="min-h-screen bg-background p-6">
-      <div className="max-w-4xl mx-auto space-y-6">
-        <div className="text-center">
-          <h1 className="text-3xl font-bold text-foreground">Customer Portal</h1>
-          <p className="text-muted-foreground mt-2">
-            Welcome back! View your orders and account information.
-          </p>
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Customer Portal</h1>
+            <p className="text-muted-foreground mt-2">
+              {company ? company.name : "Welcome back!"} · {user?.email}
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={signOut}>
+            <LogOut className="mr-2 h-4 w-4" />Sign Out
+          </Button>
         </div>
 
-        <div className="grid gap-6 md:grid-cols-2">
+        {loading ? (
+          <p className="text-sm text-muted-foreground text-center py-12">Loading your account...</p>
+        ) : !company ? (
           <Card>
             <CardHeader>
-              <CardTitle>Your Account</CardTitle>
-              <CardDescription>Account details and preferences</CardDescription>
+              <CardTitle>Account not linked yet</CardTitle>
+              <CardDescription>
+                Your login isn't connected to a customer account. Please contact your sales
+                representative to enable portal access.
+              </CardDescription>
             </CardHeader>
-            <CardContent>
-              <p className="text-sm text-muted-foreground">
-                Email: {user?.email}
-              </p>
-            </CardContent>
           </Card>
-
-          <Card>
-            <CardHeader>
-              <CardTitle>Recent Orders</CardTitle>
-              <CardDescription>View your order history</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <p className="text-sm text-muted-foreground">
-                No orders yet.
-              </p>
-            </CardContent>
-          </Card>
-        </div>
+        ) : (
+          <Tabs value={activeTab} onValueChange={setActiveTab}>
+            <TabsList className="grid w-full grid-cols-4">
+              <TabsTrigger value="quotes">
+                <FileText className="mr-2 h-4 w-4" />Quotes{pendingQuotes > 0 && ` (${pendingQuotes})`}
+              </TabsTrigger>
+              <TabsTrigger value="invoices">
+                <Receipt className="mr-2 h-4 w-4" />Invoices
+              </TabsTrigger>
+              <TabsTrigger value="equipment">
+                <ShieldCheck className="mr-2 h-4 w-4" />Equipment
+              </TabsTrigger>
+              <TabsTrigger value="service">
+                <Wrench className="mr-2 h-4 w-4" />Service
+              </TabsTrigger>
+            </TabsList>
+            <TabsContent value="quotes" className="mt-4">
+              <PortalQuotes quotes={quotes} onChanged={loadData} />
+            </TabsContent>
+            <TabsContent value="invoices" className="mt-4">
+              <PortalInvoices invoices={invoices} />
+            </TabsContent>
+            <TabsContent value="equipment" className="mt-4">
+              <PortalWarranties units={units} onRequestService={handleRequestService} />
+            </TabsContent>
+            <TabsContent value="service" className="mt-4">
+              <PortalServiceRequests
+                companyId={company.id}
+                requests={requests}
+                units={units}
+                selectedSerial={serviceSerial}
+                onChanged={loadData}
+              />
+            </TabsContent>
+          </Tabs>
+        )}
 
         <Card>
           <CardHeader>
@@ -0,0 +1,401 @@
+import { useState, useEffect, useMemo, useRef, useCallback } from "react";
+import { Link, useParams } from "react-router-dom";
+import { ProtectedRoute } from "@/components/ProtectedRoute";
+import { ErrorBoundary } from "@/components/ErrorBoundary";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { LoadingSpinner } from "@/components/LoadingState";
+import { ArrowLeft, CloudUpload, Minus, Plus, ScanLine, Send, Trash2, WifiOff } from "lucide-react";
+import { toast } from "sonner";
+import { isOnline, onConnectionChange } from "@/lib/offline-storage";
+import {
+  cacheCountSheet,
+  describeCountScope,
+  getCachedCountSheet,
+  getCycleCount,
+  getCycleCountStatusLabel,
+  hasPendingCounts,
+  loadCountSheetDraft,
+  saveCountSheetDraft,
+  setCycleCountStatus,
+  syncCountSheetDraft,
+  type CountSheetDraft,
+  type CycleCount,
+  type CycleCountLine,
+  type FoundStockEntry,
+} from "@/lib/cycle-count-storage";
+import { logAuditEvent, AuditEvents } from "@/hooks/useAuditLog";
+
+function CycleCountSheetContent() {
+  const { id = "" } = useParams<{ id: string }>();
+  const [count, setCount] = useState<CycleCount | null>(null);
+  const [draft, setDraft] = useState<CountSheetDraft | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [online, setOnline] = useState(isOnline());
+  const [syncing, setSyncing] = useState(false);
+
+  const [code, setCode] = useState("");
+  const [scanQuantity, setScanQuantity] = useState(1);
+  const [unexpected, setUnexpected] = useState<FoundStockEntry | null>(null);
+  const scanRef = useRef<HTMLInputElement>(null);
+
+  const loadSheet = useCallback(async () => {
+    const localDraft = await loadCountSheetDraft(id);
+    setDraft(localDraft);
+    try {
+      const fresh = await getCycleCount(id);
+      setCount(fresh);
+      await cacheCountSheet(fresh);
+    } catch (error) {
+      // Offline (or the request failed): fall back to the copy cached on last open
+      console.error("Error loading count, using cached copy:", error);
+      setCount(await getCachedCountSheet(id));
+    }
+  }, [id]);
+
+  useEffect(() => {
+    loadSheet()
+      .catch(error => console.error("Error loading count sheet:", error))
+      .finally(() => setLoading(false));
+  }, [loadSheet]);
+
+  const updateDraft = (update: (current: CountSheetDraft) => CountSheetDraft) => {
+    setDraft(prev => {
+      if (!prev) return prev;
+      const next = update(prev);
+      saveCountSheetDraft(next).catch(error => console.error("Error saving count offline:", error));
+      return next;
+    });
+  };
+
+  const sync = useCallback(async (quiet = false) => {
+    if (!draft || !hasPendingCounts(draft)) return true;
+    try {
+      setSyncing(true);
+      await syncCountSheetDraft(draft);
+      await loadSheet();
+      if (!quiet) toast.success("Counts synced");
+      return true;
+    } catch (error) {
+      console.error("Error syncing counts:", error);
+      if (!quiet) toast.error("Failed to sync counts. They are saved on this device.");
+      return false;
+    } finally {
+      setSyncing(false);
+    }
+  }, [draft, loadSheet]);
+
+  // Push pending counts as soon as the connection comes back
+  useEffect(() => onConnectionChange(isNowOnline => {
+    setOnline(isNowOnline);
+    if (isNowOnline) sync(true);
+  }), [sync]);
+
+  const readOnly = !count || count.status !== 'counting';
+
+  const getCounted = (line: CycleCountLine): number | undefined =>
+    draft?.counts[line.id]?.quantity ?? line.countedQuantity;
+
+  const setCounted = (line: CycleCountLine, quantity: number) => {
+    updateDraft(current => ({
+      ...current,
+      counts: { ...current.counts, [line.id]: { quantity: Math.max(quantity, 0), countedAt: new Date().toISOString() } },
+    }));
+  };
+
+  const linesByBin = useMemo(() => {
+    const groups = new Map<string, CycleCountLine[]>();
+    (count?.lines || []).forEach(line => {
+      const bin = line.shelfLocation || "No bin";
+      groups.set(bin, [...(groups.get(bin) || []), line]);
+    });
+    return Array.from(groups.entries());
+  }, [count]);
+
+  const countedLines = (count?.lines || []).filter(line => getCounted(line) !== undefined).length;
+
+  const handleScan = () => {
+    const value = code.trim();
+    if (!value || !count || readOnly) return;
+    const needle = value.toLowerCase();
+
+    const serialLine = count.lines.find(line => line.serialNumber?.toLowerCase() === needle);
+    if (serialLine) {
+      if (getCounted(serialLine) === 1) toast.info(`${serialLine.serialNumber} already counted`);
+      setCounted(serialLine, 1);
+    } else {
+      const partLines = count.lines.filter(line => line.partNumber.toLowerCase() === needle);
+      const quantityLine = partLines.find(line => !line.serialNumber);
+      if (quantityLine) {
+        setCounted(quantityLine, (getCounted(quantityLine) || 0) + scanQuantity);
+      } else if (partLines.length > 0) {
+        toast.error(`${partLines[0].partNumber} is serialized. Scan each unit's serial number.`);
+      } else {
+        setUnexpected({ id: crypto.randomUUID(), partNumber: value, quantity: scanQuantity });
+      }
+    }
+
+    setCode("");
+    setScanQuantity(1);
+    scanRef.current?.focus();
+  };
+
+  const addUnexpected = () => {
+    if (!unexpected || !unexpected.partNumber.trim()) return;
+    const entry = {
+      ...unexpected,
+      partNumber: unexpected.partNumber.trim(),
+      serialNumber: unexpected.serialNumber?.trim() || undefined,
+      // A serial is a single unit
+      quantity: unexpected.serialNumber?.trim() ? 1 : Math.max(unexpected.quantity, 1),
+    };
+    updateDraft(current => ({ ...current, found: [...current.found, entry] }));
+    setUnexpected(null);
+    scanRef.current?.focus();
+  };
+
+  const removeFound = (entryId: string) => {
+    updateDraft(current => ({ ...current, found: current.found.filter(f => f.id !== entryId) }));
+  };
+
+  const handleSubmit = async () => {
+    if (!count) return;
+    const uncounted = count.lines.length - countedLines;
+    if (uncounted > 0 && !confirm(`${uncounted} line(s) were not counted and will be treated as missing. Submit anyway?`)) {
+      return;
+    }
+    if (!(await sync())) return;
+
+    try {
+      await setCycleCountStatus(count.id, 'review');
+      logAuditEvent(AuditEvents.RECORD_UPDATED('cycle_count', count.id, count.countNumber, { status: 'review' }));
+      toast.success("Count submitted for review");
+      await loadSheet();
+    } catch (error) {
+      console.error("Error submitting count:", error);
+      toast.error("Failed to submit count");
+    }
+  };
+
+  if (loading) return <LoadingSpinner />;
+
+  if (!count || !draft) {
+    return (
+      <div className="container mx-auto px-4 py-8 text-center text-muted-foreground">
+        This count isn't available on this device. Open it once while online to count offline.
+      </div>
+    );
+  }
+
+  const pending = Object.keys(draft.counts).length + draft.found.length;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-3">
+            <Link to="/"><Button variant="ghost" size="icon"><ArrowLeft className="h-5 w-5" /></Button></Link>
+            <div className="flex-1 min-w-0">
+              <h1 className="text-xl font-bold text-foreground">{count.countNumber}</h1>
+              <p className="text-sm text-muted-foreground truncate">{describeCountScope(count)}</p>
+            </div>
+            <div className="flex flex-col items-end gap-1">
+              <Badge variant="outline">{getCycleCountStatusLabel(count.status)}</Badge>
+              {!online && (
+                <Badge variant="secondary" className="gap-1"><WifiOff className="h-3 w-3" />Offline</Badge>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <div className="container mx-auto px-4 py-4 space-y-4 pb-28">
+        {!readOnly && (
+          <Card>
+            <CardContent className="pt-4 space-y-3">
+              <div className="flex gap-2">
+                <Input
+                  ref={scanRef}
+                  autoFocus
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && handleScan()}
+                  placeholder="Scan or type serial / part number"
+                  className="flex-1"
+                  autoCapitalize="characters"
+                  autoComplete="off"
+                />
+                <Input
+                  type="number"
+                  min="1"
+                  className="w-16"
+                  value={scanQuantity}
+                  onChange={(e) => setScanQuantity(Math.max(parseInt(e.target.value) || 1, 1))}
+                  aria-label="Quantity"
+                />
+                <Button onClick={handleScan} size="icon"><ScanLine className="h-4 w-4" /></Button>
+              </div>
+
+              {unexpected && (
+                <div className="rounded-md border border-dashed p-3 space-y-2">
+                  <p className="text-sm font-medium">Not expected in this count. Record it as found stock?</p>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-1">
+                      <Label className="text-xs">Part Number</Label>
+                      <Input
+                        value={unexpected.partNumber}
+                        onChange={(e) => setUnexpected({ ...unexpected, partNumber: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Serial (if serialized)</Label>
+                      <Input
+                        value={unexpected.serialNumber || ""}
+                        onChange={(e) => setUnexpected({ ...unexpected, serialNumber: e.target.value })}
+                      />
+                    </div>
+                    <div className="space-y-1 col-span-2">
+                      <Label className="text-xs">Description</Label>
+                      <Input
+                        value={unexpected.description || ""}
+                        onChange={(e) => setUnexpected({ ...unexpected, description: e.target.value })}
+                      />
+                    </div>
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => setUnexpected(null)}>Discard</Button>
+                    <Button size="sm" onClick={addUnexpected}>Add Found Stock</Button>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        <p className="text-sm text-muted-foreground">
+          {countedLines} of {count.lines.length} lines counted
+          {pending > 0 && ` · ${pending} change${pending === 1 ? "" : "s"} saved on this device`}
+        </p>
+
+        {linesByBin.map(([bin, lines]) => (
+          <Card key={bin}>
+            <CardHeader className="py-3">
+              <CardTitle className="text-base">{bin}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 pb-4">
+              {lines.map(line => {
+                const counted = getCounted(line);
+                return (
+                  <div
+                    key={line.id}
+                    className={`flex items-center gap-2 rounded-md border p-2 ${counted !== undefined ? "bg-muted/40" : ""}`}
+                  >
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium text-sm">{line.partNumber}</div>
+                      {line.serialNumber && <div className="text-xs text-muted-foreground">SN: {line.serialNumber}</div>}
+                      <div className="text-xs text-muted-foreground truncate">{line.description}</div>
+                    </div>
+                    {line.serialNumber ? (
+                      <Button
+                        size="sm"
+                        variant={counted === 1 ? "default" : "outline"}
+                        disabled={readOnly}
+                        onClick={() => setCounted(line, counted === 1 ? 0 : 1)}
+                      >
+                        {counted === 1 ? "Found" : counted === 0 ? "Missing" : "Not counted"}
+                      </Button>
+                    ) : (
+                      <div className="flex items-center gap-1">
+                        <Button
+                          size="icon"
+                          variant="outline"
+                          className="h-8 w-8"
+                          disabled={readOnly}
+                          onClick={() => setCounted(line, (counted || 0) - 1)}
+                        >
+                          <Minus className="h-3 w-3" />
+                        </Button>
+                        <Input
+                          type="number"
+                          min="0"
+                          className="h-8 w-16 text-center"
+                          disabled={readOnly}
+                          value={counted ?? ""}
+                          placeholder="–"
+                          onChange={(e) => setCounted(line, parseInt(e.target.value) || 0)}
+                        />
+                        <Button
+                          size="icon"
+                          variant="outline"
+                          className="h-8 w-8"
+                          disabled={readOnly}
+                          onClick={() => setCounted(line, (counted || 0) + 1)}
+                        >
+                          <Plus className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </CardContent>
+          </Card>
+        ))}
+
+        {draft.found.length > 0 && (
+          <Card>
+            <CardHeader className="py-3">
+              <CardTitle className="text-base">Found Stock (not yet synced)</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 pb-4">
+              {draft.found.map(entry => (
+                <div key={entry.id} className="flex items-center gap-2 rounded-md border p-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium text-sm">{entry.partNumber} × {entry.quantity}</div>
+                    {entry.serialNumber && <div className="text-xs text-muted-foreground">SN: {entry.serialNumber}</div>}
+                  </div>
+                  <Button size="icon" variant="ghost" className="h-8 w-8 text-destructive" onClick={() => removeFound(entry.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      {!readOnly && (
+        <div className="fixed bottom-0 inset-x-0 border-t bg-card p-3">
+          <div className="container mx-auto flex gap-2">
+            <Button
+              variant="outline"
+              className="flex-1"
+              disabled={!online || syncing || pending === 0}
+              onClick={() => sync()}
+            >
+              <CloudUpload className="mr-2 h-4 w-4" />
+              Sync{pending > 0 ? ` (${pending})` : ""}
+            </Button>
+            <Button className="flex-1" disabled={!online || syncing} onClick={handleSubmit}>
+              <Send className="mr-2 h-4 w-4" />
+              Submit for Review
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function CycleCountSheet() {
+  return (
+    <ProtectedRoute>
+      <ErrorBoundary>
+        <CycleCountSheetContent />
+      </ErrorBoundary>
+    </ProtectedRoute>
+  );
+}
@@ -5,11 +5,11 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
-  MessageSquare, StickyNote, Calendar, RefreshCw, Search, Shield, CalendarDays,
+  MessageSquare, StickyNote, Calendar, RefreshCw, Search, Shield, CalendarDays, ListTodo,
 } from "lucide-react";
 import { MeetingLobby } from "@/components/video/MeetingLobby";
 import { VideoMeetingRoom } from "@/components/video/VideoMeetingRoom";
-import { Link } from "react-router-dom";
+import { Link, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { useUserRole } from "@/hooks/useUserRole";
@@ -21,6 +21,7 @@ import { ConversationsTab } from "@/components/employee-dashboard/ConversationsT
 import { NotesTab } from "@/components/employee-dashboard/NotesTab";
 import { MeetingsTab } from "@/components/employee-dashboard/MeetingsTab";
 import { CalendarTab } from "@/components/employee-dashboard/CalendarTab";
+import { TasksTab } from "@/components/employee-dashboard/TasksTab";
 
 interface Conversation {
   id: string;
@@ -82,7 +83,8 @@ function DashboardSkeleton() {
 function EmployeeDashboardContent() {
   const { user } = useAuth();
   const { hasOwnerAccess } = useUserRole();
-  const [activeTab, setActiveTab] = useState("conversations");
+  const [searchParams] = useSearchParams();
+  const [activeTab, setActiveTab] = useState(searchParams.get("tab") || "conversations");
   const [conversations, setConversations] = useState<Conversation[]>([]);
   const [notes, setNotes] = useState<InternalNote[]>([]);
   const [meetings, setMeetings] = useState<CompanyMeeting[]>([]);
@@ -113,6 +115,12 @@ function EmployeeDashboardContent() {
     }
   }, [user?.id]);
 
+  // Notifications link straight to a tab, e.g. overdue tasks
+  useEffect(() => {
+    const tab = searchParams.get("tab");
+    if (tab) setActiveTab(tab);
+  }, [searchParams]);
+
   useEffect(() => {
     if (effectiveUserId) loadData();
   }, [effectiveUserId]);
@@ -322,7 +330,7 @@ function EmployeeDashboardContent() {
 
       {/* Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab}>
-        <TabsList className="grid w-full grid-cols-4 lg:w-auto lg:inline-flex">
+        <TabsList className="grid w-full grid-cols-5 lg:w-auto lg:inline-flex">
           <TabsTrigger value="conversations" className="gap-2">
             <MessageSquare className="h-4 w-4 hidden sm:block" /> Conversations
           </TabsTrigger>
@@ -335,6 +343,9 @@ function EmployeeDashboardContent() {
           <TabsTrigger value="calendar" className="gap-2">
             <CalendarDays className="h-4 w-4 hidden sm:block" /> Calendar
           </TabsTrigger>
+          <TabsTrigger value="tasks" className="gap-2">
+            <ListTodo className="h-4 w-4 hidden sm:block" /> Tasks
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="conversations">
@@ -377,6 +388,10 @@ function EmployeeDashboardContent() {
         <TabsContent value="calendar">
           <CalendarTab onJoinVideoMeeting={handleJoinVideoMeeting} />
         </TabsContent>
+
+        <TabsContent value="tasks">
+          {effectiveUserId && <TasksTab userId={effectiveUserId} searchQuery={searchQuery} />}
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -7,7 +7,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Eye, RefreshCw, AlertCircle } from "lucide-react";
 import { ItemDetailDialog } from "@/components/ItemDetailDialog";
 import { InvoicePDFPreview } from "@/components/InvoicePDFPreview";
-import { inventoryStorage, InventoryItem, Invoice } from "@/lib/inventory-storage";
+import { inventoryStorage, InventoryItem, Invoice, getOnHandQuantity, isQuantityTracked } from "@/lib/inventory-storage";
 import { useUserRole } from "@/hooks/useUserRole";
 import { useAsyncData } from "@/hooks/useAsyncData";
 import { useDebouncedSearch } from "@/hooks/useDebounce";
@@ -16,10 +16,12 @@ import { ErrorBoundary } from "@/components/ErrorBoundary";
 import { LoadingSpinner, CardSkeleton } from "@/components/LoadingState";
 import { InventoryStats } from "@/components/inventory/InventoryStats";
 import { InventoryActions } from "@/components/inventory/InventoryActions";
-import { InventoryFilters, SortOption } from "@/components/inventory/InventoryFilters";
+import { InventoryFilters, SortOption, LocationFilter } from "@/components/inventory/InventoryFilters";
 import { InventoryList } from "@/components/inventory/InventoryList";
 import { PaginationControls } from "@/components/inventory/PaginationControls";
 import { toast } from "sonner";
+import { getWarehouses } from "@/lib/warehouse-storage";
+import { getLowStockPartNumbers } from "@/lib/reorder";
 
 function IndexContent() {
   const navigate = useNavigate();
@@ -35,6 +37,7 @@ function IndexContent() {
   const [activeTab, setActiveTab] = useState("inventory");
   const [itemFilter, setItemFilter] = useState<'all' | 'available' | 'sold'>('all');
   const [sortBy, setSortBy] = useState<SortOption>('default');
+  const [locationFilter, setLocationFilter] = useState<LocationFilter>('all');
   
   // Debounced search
   const { searchQuery, debouncedQuery, setSearchQuery, isSearching } = useDebouncedSearch("", 300);
@@ -66,6 +69,17 @@ function IndexContent() {
     }
   );
 
+  const {
+    data: warehouses = [],
+    refresh: refreshWarehouses,
+  } = useAsyncData(
+    () => getWarehouses(),
+    {
+      cacheKey: "warehouses",
+      errorMessage: "Failed to load stock locations.",
+    }
+  );
+
   // Redirect salesmen to spiff program
   useEffect(() => {
     if (!roleLoading && isSalesman()) {
@@ -73,19 +87,46 @@ function IndexContent() {
     }
   }, [roleLoading, isSalesman, navigate]);
 
-  // Memoized calculations
+  // Memoized calculations; everything below is scoped to the selected location
+  const locationItems = useMemo(() => {
+    if (locationFilter === 'all') return items;
+    if (locationFilter === 'unassigned') return items.filter(item => !item.warehouseId);
+    return items.filter(item => item.warehouseId === locationFilter);
+  }, [items, locationFilter]);
+
   const availableItems = useMemo(
-    () => items.filter(item => item.status === 'available'),
-    [items]
+    () => locationItems.filter(item => item.status === 'available'),
+    [locationItems]
   );
 
   const soldItems = useMemo(
-    () => items.filter(item => item.status === 'sold'),
-    [items]
+    () => locationItems.filter(item => item.status === 'sold'),
+    [locationItems]
+  );
+
+  const unitsOnHand = useMemo(
+    () => locationItems.reduce((sum, item) => sum + getOnHandQuantity(item), 0),
+    [locationItems]
+  );
+
+  // Min/max levels apply to a part across all locations
+  const lowStockCount = useMemo(() => getLowStockPartNumbers(items).length, [items]);
+
+  const locationBreakdown = useMemo(
+    () => warehouses.map(warehouse => {
+      const stock = items.filter(item => item.warehouseId === warehouse.id);
+      return {
+        id: warehouse.id,
+        name: warehouse.name,
+        units: stock.reduce((sum, item) => sum + getOnHandQuantity(item), 0),
+        value: stock.reduce((sum, item) => sum + (item.cost || 0) * getOnHandQuantity(item), 0),
+      };
+    }),
+    [items, warehouses]
   );
 
   const totalInventoryValue = useMemo(
-    () => availableItems.reduce((sum, item) => sum + (item.cost || 0), 0),
+    () => availableItems.reduce((sum, item) => sum + (item.cost || 0) * getOnHandQuantity(item), 0),
     [availableItems]
   );
 
@@ -96,7 +137,7 @@ function IndexContent() {
 
   // Filtered and sorted items
   const filteredItems = useMemo(() => {
-    let filtered = items.filter(item => {
+    let filtered = locationItems.filter(item => {
       if (itemFilter === 'all') return true;
       return item.status === itemFilter;
     });
@@ -114,7 +155,7 @@ function IndexContent() {
 
     // Group items by part number to calculate quantities
     const partNumberCounts = filtered.reduce((acc, item) => {
-      acc[item.partNumber] = (acc[item.partNumber] || 0) + 1;
+      acc[item.partNumber] = (acc[item.partNumber] || 0) + (isQuantityTracked(item) ? item.quantityOnHand : 1);
       return acc;
     }, {} as Record<string, number>);
 
@@ -138,7 +179,7 @@ function IndexContent() {
           return 0;
       }
     });
-  }, [items, itemFilter, debouncedQuery, sortBy]);
+  }, [locationItems, itemFilter, debouncedQuery, sortBy]);
 
   // Pagination
   const pagination = usePagination(filteredItems, {
@@ -149,12 +190,12 @@ function IndexContent() {
   // Handlers
   const handleRefresh = useCallback(async () => {
     try {
-      await Promise.all([refreshItems(), refreshInvoices()]);
+      await Promise.all([refreshItems(), refreshInvoices(), refreshWarehouses()]);
       toast.success("Data refreshed successfully");
     } catch {
       toast.error("Failed to refresh data");
     }
-  }, [refreshItems, refreshInvoices]);
+  }, [refreshItems, refreshInvoices, refreshWarehouses]);
 
   const handleItemClick = useCallback((item: InventoryItem) => {
     setSelectedItem(item);
@@ -239,9 +280,11 @@ function IndexContent() {
 
         {/* Stats Cards */}
         <InventoryStats
-          totalItems={items.length}
+          totalItems={locationItems.length}
           availableCount={availableItems.length}
           soldCount={soldItems.length}
+          unitsOnHand={unitsOnHand}
+          lowStockCount={lowStockCount}
           totalInventoryValue={totalInventoryValue}
           totalRevenue={totalRevenue}
           invoiceCount={invoices.length}
@@ -250,6 +293,9 @@ function IndexContent() {
           onAvailableClick={handleStatsAvailableClick}
           onSoldClick={handleStatsSoldClick}
           onInvoicesClick={handleStatsInvoicesClick}
+          locationBreakdown={locationBreakdown}
+          selectedLocation={locationFilter}
+          onLocationClick={setLocationFilter}
         />
 
         {/* Actions */}
@@ -270,12 +316,15 @@ function IndexContent() {
                   onFilterChange={setItemFilter}
                   searchQuery={searchQuery}
                   onSearchChange={setSearchQuery}
-                  totalCount={items.length}
+                  totalCount={locationItems.length}
                   availableCount={availableItems.length}
                   soldCount={soldItems.length}
                   isSearching={isSearching}
                   sortBy={sortBy}
                   onSortChange={setSortBy}
+                  warehouses={warehouses}
+                  locationFilter={locationFilter}
+                  onLocationChange={setLocationFilter}
                 />
               </CardHeader>
               <CardContent>
@@ -284,6 +333,7 @@ function IndexContent() {
                   loading={itemsLoading}
                   emptyMessage={emptyMessage}
                   onItemClick={handleItemClick}
+                  warehouses={warehouses}
                 />
                 <PaginationControls
                   currentPage={pagination.currentPage}
@@ -7,12 +7,13 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Progress } from "@/components/ui/progress";
-import { MapPin, Building2, User, X, Loader2, AlertCircle, Hexagon, RefreshCw, ArrowLeft, Maximize2, Minimize2, Flame } from "lucide-react";
+import { MapPin, Building2, User, X, Loader2, AlertCircle, Hexagon, RefreshCw, ArrowLeft, Maximize2, Minimize2, Flame, Map as MapIcon } from "lucide-react";
 import { toast } from "sonner";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { supabase } from "@/integrations/supabase/client";
 import { Company, Person } from "@/lib/inventory-storage";
 import { useContactsMap, getHexColor } from "@/hooks/useContactsMap";
+import { TerritoryPanel } from "@/components/map/TerritoryPanel";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
 
@@ -23,6 +24,7 @@ function MapViewContent() {
   const [dataLoaded, setDataLoaded] = useState(false);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [isPrewarming, setIsPrewarming] = useState(false);
+  const [showTerritories, setShowTerritories] = useState(false);
 
   const handlePrewarm = useCallback(async () => {
     setIsPrewarming(true);
@@ -40,6 +42,7 @@ function MapViewContent() {
 
   const mapCompanies = (data: any[]) => data.map((c: any) => ({
     id: c.id, name: c.name, address: c.address || "", notes: c.notes || [],
+    territoryId: c.territory_id || undefined, ownerId: c.owner_id || undefined,
     createdAt: c.created_at || new Date().toISOString(),
   }));
   const mapPersons = (data: any[]) => data.map((p: any) => ({
@@ -71,7 +74,7 @@ function MapViewContent() {
     showH3Overlay, setShowH3Overlay,
     h3Resolution, setH3Resolution,
     totalAddresses, maxCellCount,
-    mapContainer, startGeocoding, getCompanyName, invalidateSize,
+    mapContainer, map, territoryLayerRef, startGeocoding, getCompanyName, invalidateSize,
   } = useContactsMap({ companies, persons, active: dataLoaded });
 
   const onRefresh = useCallback(async () => {
@@ -111,6 +114,13 @@ function MapViewContent() {
           <Button variant="ghost" size="sm" onClick={handlePrewarm} disabled={isPrewarming} title="Geocode all addresses server-side so the map loads instantly for everyone">
             <Flame className={`h-4 w-4 mr-1 ${isPrewarming ? 'animate-pulse' : ''}`} /> Pre-warm
           </Button>
+          <Button
+            variant={showTerritories ? "default" : "ghost"}
+            size="sm"
+            onClick={() => { setShowTerritories(prev => !prev); invalidateSize(); }}
+          >
+            <MapIcon className="h-4 w-4 mr-1" /> Territories
+          </Button>
           {failedLocations.length > 0 && (
             <Button variant="destructive" size="sm" onClick={() => setShowFailedDialog(true)}>
               <AlertCircle className="h-4 w-4 mr-1" /> Failed ({failedLocations.length})
@@ -226,6 +236,12 @@ function MapViewContent() {
             </ScrollArea>
           </div>
         )}
+
+        {showTerritories && (
+          <div className="w-80 border-l bg-card flex flex-col">
+            <TerritoryPanel map={map} territoryLayerRef={territoryLayerRef} onChanged={onRefresh} />
+          </div>
+        )}
       </div>
 
       <div className="px-4 py-2 border-t text-xs text-muted-foreground flex justify-between items-center shrink-0">
@@ -0,0 +1,203 @@
+import { useEffect, useState } from "react";
+import { useParams } from "react-router-dom";
+import { format } from "date-fns";
+import { CheckCircle2, AlertTriangle } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { SignaturePad } from "@/components/quote/SignaturePad";
+import { getPublicQuote, submitQuoteAcceptance, type PublicQuoteView } from "@/lib/quote-acceptance-storage";
+
+/** Public page behind a quote acceptance link; no login required */
+export default function QuoteAcceptance() {
+  const { token = "" } = useParams<{ token: string }>();
+  const [view, setView] = useState<PublicQuoteView | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [signerName, setSignerName] = useState("");
+  const [poNumber, setPoNumber] = useState("");
+  const [signature, setSignature] = useState<string | null>(null);
+  const [agreed, setAgreed] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [acceptedAt, setAcceptedAt] = useState<string | null>(null);
+
+  useEffect(() => {
+    getPublicQuote(token)
+      .then(setView)
+      .catch((error) => setLoadError(error instanceof Error ? error.message : "This link could not be opened"));
+  }, [token]);
+
+  const handleAccept = async () => {
+    if (!signature) return;
+    setSubmitting(true);
+    setSubmitError(null);
+    try {
+      const result = await submitQuoteAcceptance({
+        token,
+        signerName: signerName.trim(),
+        poNumber: poNumber.trim() || undefined,
+        signature,
+      });
+      setAcceptedAt(result.acceptedAt);
+    } catch (error) {
+      setSubmitError(error instanceof Error ? error.message : "Failed to accept quote");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loadError) {
+    return (
+      <div className="min-h-screen bg-background p-6 flex items-center justify-center">
+        <Alert variant="destructive" className="max-w-md">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Link unavailable</AlertTitle>
+          <AlertDescription>{loadError}</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  if (!view) {
+    return <p className="min-h-screen p-12 text-center text-muted-foreground">Loading quote...</p>;
+  }
+
+  const { quote } = view;
+  const acceptance = acceptedAt
+    ? { signerName: signerName.trim(), acceptedAt, revision: quote.revision }
+    : view.acceptance;
+  const canSubmit = signerName.trim().length >= 2 && !!signature && agreed && !submitting;
+
+  return (
+    <div className="min-h-screen bg-muted/30 p-4 md:p-8">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-2xl">
+              Quote {quote.quoteNumber} <span className="text-muted-foreground font-normal">Rev {quote.revision}</span>
+            </CardTitle>
+            <CardDescription>
+              {quote.customerName}
+              {quote.expiresAt && ` · Valid until ${format(new Date(quote.expiresAt), "MMMM d, yyyy")}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid md:grid-cols-2 gap-4 text-sm">
+              {quote.customerAddress && (
+                <div>
+                  <div className="font-medium">Bill To</div>
+                  <div className="whitespace-pre-wrap text-muted-foreground">{quote.customerAddress}</div>
+                </div>
+              )}
+              {quote.shipToAddress && (
+                <div>
+                  <div className="font-medium">Ship To</div>
+                  <div className="whitespace-pre-wrap text-muted-foreground">
+                    {quote.shipToName && <>{quote.shipToName}<br /></>}
+                    {quote.shipToAddress}
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Item</TableHead>
+                    <TableHead className="text-right">Qty</TableHead>
+                    <TableHead className="text-right">Price</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {quote.items.map((item, index) => (
+                    <TableRow key={index}>
+                      <TableCell>
+                        <div className="font-medium">{item.description}</div>
+                        <div className="text-xs text-muted-foreground font-mono">
+                          {item.partNumber}
+                          {item.serialNumber && ` · SN ${item.serialNumber}`}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{item.quantity}</TableCell>
+                      <TableCell className="text-right">${item.price.toFixed(2)}</TableCell>
+                      <TableCell className="text-right">${(item.price * item.quantity).toFixed(2)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="ml-auto max-w-xs space-y-1 text-sm">
+              <div className="flex justify-between"><span>Subtotal</span><span>${quote.subtotal.toFixed(2)}</span></div>
+              {quote.discount > 0 && <div className="flex justify-between"><span>Discount</span><span>-${quote.discount.toFixed(2)}</span></div>}
+              {quote.shipping > 0 && <div className="flex justify-between"><span>Shipping</span><span>${quote.shipping.toFixed(2)}</span></div>}
+              {quote.tax > 0 && <div className="flex justify-between"><span>Tax</span><span>${quote.tax.toFixed(2)}</span></div>}
+              <div className="flex justify-between border-t pt-2 text-base font-bold"><span>Total</span><span>${quote.total.toFixed(2)}</span></div>
+            </div>
+
+            {quote.notes && <p className="text-sm text-muted-foreground whitespace-pre-wrap">{quote.notes}</p>}
+          </CardContent>
+        </Card>
+
+        {acceptance ? (
+          <Alert>
+            <CheckCircle2 className="h-4 w-4" />
+            <AlertTitle>Quote accepted</AlertTitle>
+            <AlertDescription>
+              Rev {acceptance.revision} was accepted by {acceptance.signerName} on{" "}
+              {format(new Date(acceptance.acceptedAt), "MMMM d, yyyy 'at' h:mm a")}. Thank you — we'll be in touch shortly.
+            </AlertDescription>
+          </Alert>
+        ) : view.blockedReason ? (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>This quote can't be accepted</AlertTitle>
+            <AlertDescription>{view.blockedReason}</AlertDescription>
+          </Alert>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>Accept Quote</CardTitle>
+              <CardDescription>
+                This link expires {format(new Date(view.linkExpiresAt), "MMMM d, yyyy")}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="signer-name">Full name</Label>
+                  <Input id="signer-name" value={signerName} onChange={(e) => setSignerName(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="po-number">PO number (optional)</Label>
+                  <Input id="po-number" value={poNumber} onChange={(e) => setPoNumber(e.target.value)} />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Signature</Label>
+                <SignaturePad onChange={setSignature} />
+              </div>
+              <div className="flex items-start gap-2">
+                <Checkbox id="agree" checked={agreed} onCheckedChange={(checked) => setAgreed(checked === true)} />
+                <Label htmlFor="agree" className="text-sm font-normal leading-snug">
+                  I am authorized to accept Quote {quote.quoteNumber} Rev {quote.revision} for ${quote.total.toFixed(2)} and
+                  agree that my typed name and drawn signature are my electronic signature.
+                </Label>
+              </div>
+              {submitError && <p className="text-sm text-destructive">{submitError}</p>}
+              <Button className="w-full" onClick={handleAccept} disabled={!canSubmit}>
+                {submitting ? "Submitting..." : "Accept and Sign"}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
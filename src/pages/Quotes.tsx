@@ -1,4 +1,4 @@
-import { useState, useCallback, useMemo } from "react";
+import { useState, useCallback, useMemo, useEffect } from "react";
 import { Link, useNavigate } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -10,9 +10,20 @@ import { QuotePDFPreview } from "@/components/QuotePDFPreview";
 import { EditQuoteDialog } from "@/components/EditQuoteDialog";
 import { EditInvoiceDialog } from "@/components/EditInvoiceDialog";
 import { QuoteDraftsDialog } from "@/components/QuoteDraftsDialog";
+import { QuoteAcceptanceDialog } from "@/components/quote/QuoteAcceptanceDialog";
+import { SendEmailDialog } from "@/components/email/SendEmailDialog";
+import { EmailTemplatesDialog } from "@/components/email/EmailTemplatesDialog";
+import { PricingApprovalQueueDialog } from "@/components/pricing/PricingApprovalQueueDialog";
+import { PricingGuardrailsDialog } from "@/components/pricing/PricingGuardrailsDialog";
 import { inventoryStorage, Quote, Invoice } from "@/lib/inventory-storage";
-import { Home, FileText, Calendar, DollarSign, Eye, Search, Pencil, ArrowRightCircle } from "lucide-react";
+import { getRevisionLetter } from "@/lib/quote-revisions";
+import { getQuoteAcceptances, getInvoicedQuoteIds, type QuoteAcceptance } from "@/lib/quote-acceptance-storage";
+import { quoteEmailDocument, type EmailDocument } from "@/lib/email-storage";
+import { createSalesOrderFromQuote, getQuoteIdsWithSalesOrders } from "@/lib/sales-order-storage";
+import { getPricingApprovalState, isAwaitingPricingApproval } from "@/lib/pricing-guardrails";
+import { Home, FileText, Calendar, DollarSign, Eye, Search, Pencil, ArrowRightCircle, Link2, PenLine, Mail, ClipboardList } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useUserRole } from "@/hooks/useUserRole";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
 import { useAsyncData } from "@/hooks/useAsyncData";
@@ -67,7 +78,13 @@ function QuotesContent() {
   const [pendingInvoice, setPendingInvoice] = useState<Invoice | null>(null);
   const [convertOpen, setConvertOpen] = useState(false);
   const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [acceptanceQuote, setAcceptanceQuote] = useState<Quote | null>(null);
+  const [acceptances, setAcceptances] = useState<Record<string, QuoteAcceptance>>({});
+  const [invoicedQuoteIds, setInvoicedQuoteIds] = useState<Set<string>>(new Set());
+  const [orderedQuoteIds, setOrderedQuoteIds] = useState<Set<string>>(new Set());
+  const [emailDocument, setEmailDocument] = useState<EmailDocument | null>(null);
   const { toast } = useToast();
+  const { isOwner } = useUserRole();
   const navigate = useNavigate();
   const { searchQuery, debouncedQuery, setSearchQuery } = useDebouncedSearch("", 300);
 
@@ -85,6 +102,24 @@ function QuotesContent() {
 
   const allQuotes = quotes || [];
 
+  // Signed acceptances and which quotes already became invoices or sales orders; reloaded whenever quotes change
+  useEffect(() => {
+    if (!quotes) return;
+    Promise.all([getQuoteAcceptances(), getInvoicedQuoteIds(), getQuoteIdsWithSalesOrders()])
+      .then(([byQuote, invoiced, ordered]) => {
+        setAcceptances(byQuote);
+        setInvoicedQuoteIds(invoiced);
+        setOrderedQuoteIds(ordered);
+      })
+      .catch((error) => console.error("Error loading quote acceptances:", error));
+  }, [quotes]);
+
+  // Customer signed through a link that asked for an invoice to be started
+  const awaitingInvoice = allQuotes.filter(quote =>
+    acceptances[quote.id]?.convertOnAccept && quote.status === 'approved' &&
+    !invoicedQuoteIds.has(quote.id) && !orderedQuoteIds.has(quote.id)
+  );
+
   const counts = useMemo(() => {
     const c: Record<StatusFilter, number> = { all: allQuotes.length, draft: 0, pending: 0, approved: 0, rejected: 0, expired: 0 };
     for (const q of allQuotes) {
@@ -124,12 +159,26 @@ function QuotesContent() {
     toast({ title: "Quote rejected" });
   };
 
+  // Alternative to converting: reserve the stock and ship it in one or more invoiced shipments
+  const handleCreateSalesOrder = async (quote: Quote) => {
+    try {
+      await createSalesOrderFromQuote(quote.id);
+      toast({ title: "Sales order created", description: `${quote.quoteNumber} is reserved; ship it from Sales Orders on the inventory page` });
+      refresh();
+    } catch (err) {
+      console.error(err);
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to create sales order",
+        variant: "destructive",
+      });
+    }
+  };
+
   // Step 1 of conversion: create a draft invoice from the quote and open the editor
   const handleStartConvert = async (quote: Quote) => {
     try {
-      const invoiceNumber = `INV-${Date.now()}`;
       const draft = await inventoryStorage.createInvoice({
-        invoiceNumber,
         items: quote.items,
         customerName: quote.customerName,
         customerEmail: quote.customerEmail,
@@ -140,6 +189,8 @@ function QuotesContent() {
         discount: quote.discount,
         shippingCost: quote.shippingCost,
         tax: quote.tax,
+        taxDetails: quote.taxDetails,
+        taxExemptCertificate: quote.taxExemptCertificate,
         notes: quote.notes,
         subtotal: quote.subtotal,
         total: quote.total,
@@ -167,13 +218,7 @@ function QuotesContent() {
       const saved = invoices.find(i => i.id === pendingInvoice.id);
       if (saved && saved.status === 'finalized') {
         await inventoryStorage.updateQuote(convertingQuote.id, { status: 'approved' });
-        for (const item of saved.items) {
-          await inventoryStorage.updateItem(item.itemId, {
-            status: 'sold',
-            soldDate: new Date().toISOString(),
-            invoiceId: saved.id,
-          });
-        }
+        await inventoryStorage.markItemsSold(saved.items.map(item => item.itemId), saved.id);
         toast({ title: "Invoice created", description: `Invoice ${saved.invoiceNumber} finalized from quote` });
         setConvertOpen(false);
         setConvertingQuote(null);
@@ -227,11 +272,41 @@ function QuotesContent() {
           </div>
           <div className="flex gap-2 flex-wrap">
             <Link to="/"><Button variant="outline"><Home className="mr-2 h-4 w-4" />Home</Button></Link>
+            {isOwner() && (
+              <>
+                <PricingApprovalQueueDialog onDecided={refresh} />
+                <PricingGuardrailsDialog />
+                <EmailTemplatesDialog />
+              </>
+            )}
             <QuoteDraftsDialog onQuoteUpdated={refresh} />
             <CreateQuoteDialog onQuoteCreated={refresh} />
           </div>
         </div>
 
+        {awaitingInvoice.length > 0 && (
+          <Card className="border-green-500/50 bg-green-500/5">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center gap-2">
+                <PenLine className="h-4 w-4" />Signed quotes ready to invoice
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {awaitingInvoice.map(quote => (
+                <div key={quote.id} className="flex items-center justify-between gap-2 text-sm">
+                  <span>
+                    <span className="font-medium">{quote.quoteNumber}</span> — {quote.customerName} · signed by {acceptances[quote.id].signerName}
+                    {acceptances[quote.id].poNumber && ` · PO ${acceptances[quote.id].poNumber}`}
+                  </span>
+                  <Button size="sm" onClick={() => handleStartConvert(quote)}>
+                    <ArrowRightCircle className="mr-2 h-4 w-4" />Convert now
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Search */}
         <div className="relative max-w-md">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
@@ -274,6 +349,11 @@ function QuotesContent() {
             <>
               {pagination.paginatedData.map((quote) => {
                 const status = effectiveStatus(quote);
+                const pricingState = getPricingApprovalState(quote.pricingApprovalStatus);
+                const pricingHeld = isAwaitingPricingApproval(quote.pricingApprovalStatus);
+                const hasSalesOrder = orderedQuoteIds.has(quote.id);
+                const canOrder = (status === 'pending' || status === 'approved') && !hasSalesOrder &&
+                  !invoicedQuoteIds.has(quote.id) && !pricingHeld;
                 return (
                 <Card key={quote.id} className="hover:shadow-lg transition-shadow">
                   <CardHeader>
@@ -281,10 +361,17 @@ function QuotesContent() {
                       <div>
                         <CardTitle className="flex items-center gap-2">
                           <FileText className="h-5 w-5" />{quote.quoteNumber}
+                          {!!quote.revision && (
+                            <Badge variant="outline" className="font-normal">Rev {getRevisionLetter(quote.revision)}</Badge>
+                          )}
                         </CardTitle>
                         {quote.customerName && <p className="text-sm text-muted-foreground mt-1">{quote.customerName}</p>}
                       </div>
-                      <Badge className={getStatusColor(status)}>{status}</Badge>
+                      <div className="flex flex-col items-end gap-1">
+                        <Badge className={getStatusColor(status)}>{status}</Badge>
+                        {pricingState && <Badge variant={pricingState.variant}>{pricingState.label}</Badge>}
+                        {hasSalesOrder && <Badge variant="outline">Sales order</Badge>}
+                      </div>
                     </div>
                   </CardHeader>
                   <CardContent className="space-y-4">
@@ -302,6 +389,22 @@ function QuotesContent() {
                             <div className="font-medium">Ship To:</div><div>{quote.shipToAddress}</div>
                           </div>
                         )}
+                        {acceptances[quote.id] && (
+                          <div className="text-sm text-muted-foreground">
+                            <div className="font-medium">
+                              Signed by {acceptances[quote.id].signerName} {new Date(acceptances[quote.id].acceptedAt).toLocaleDateString()}
+                            </div>
+                            {acceptances[quote.id].poNumber && <div>PO {acceptances[quote.id].poNumber}</div>}
+                          </div>
+                        )}
+                        {quote.customerRespondedAt && (quote.status === 'approved' || quote.status === 'rejected') && (
+                          <div className="text-sm text-muted-foreground">
+                            <div className="font-medium">
+                              Customer {quote.status === 'approved' ? 'accepted' : 'declined'} in portal {new Date(quote.customerRespondedAt).toLocaleDateString()}
+                            </div>
+                            {quote.customerResponseNote && <div>{quote.customerResponseNote}</div>}
+                          </div>
+                        )}
                       </div>
                     </div>
                     <div className="border-t pt-4">
@@ -320,17 +423,44 @@ function QuotesContent() {
                       <Button size="sm" variant="outline" onClick={() => { setPreviewQuote(quote); setPreviewOpen(true); }}>
                         <Eye className="mr-2 h-4 w-4" />Preview PDF
                       </Button>
+                      {status !== 'draft' && (
+                        <Button size="sm" variant="outline" disabled={pricingHeld} onClick={() => setEmailDocument(quoteEmailDocument(quote))}>
+                          <Mail className="mr-2 h-4 w-4" />Email
+                        </Button>
+                      )}
                       {(status === 'pending' || status === 'draft') && (
                         <Button size="sm" variant="outline" onClick={() => { setEditQuote(quote); setEditOpen(true); }}>
                           <Pencil className="mr-2 h-4 w-4" />Edit
                         </Button>
                       )}
+                      {canOrder && (
+                        <Button size="sm" variant="outline" onClick={() => handleCreateSalesOrder(quote)}>
+                          <ClipboardList className="mr-2 h-4 w-4" />Sales Order
+                        </Button>
+                      )}
                       {status === 'pending' && (
                         <>
-                          <Button size="sm" variant="default" onClick={() => handleStartConvert(quote)}>
-                            <ArrowRightCircle className="mr-2 h-4 w-4" />Convert to Invoice
-                          </Button>
+                          {!hasSalesOrder && (
+                            <Button size="sm" variant="default" onClick={() => handleStartConvert(quote)}>
+                              <ArrowRightCircle className="mr-2 h-4 w-4" />Convert to Invoice
+                            </Button>
+                          )}
                           <Button size="sm" variant="outline" onClick={() => handleReject(quote.id)}>Reject</Button>
+                          <Button size="sm" variant="outline" disabled={pricingHeld} onClick={() => setAcceptanceQuote(quote)}>
+                            <Link2 className="mr-2 h-4 w-4" />Acceptance Link
+                          </Button>
+                        </>
+                      )}
+                      {acceptances[quote.id] && (
+                        <>
+                          <Button size="sm" variant="outline" onClick={() => setAcceptanceQuote(quote)}>
+                            <PenLine className="mr-2 h-4 w-4" />Signature
+                          </Button>
+                          {quote.status === 'approved' && !invoicedQuoteIds.has(quote.id) && !hasSalesOrder && (
+                            <Button size="sm" variant="default" onClick={() => handleStartConvert(quote)}>
+                              <ArrowRightCircle className="mr-2 h-4 w-4" />Convert to Invoice
+                            </Button>
+                          )}
                         </>
                       )}
                     </div>
@@ -354,6 +484,17 @@ function QuotesContent() {
       </div>
       <QuotePDFPreview quote={previewQuote} open={previewOpen} onOpenChange={setPreviewOpen} />
       <EditQuoteDialog quote={editQuote} open={editOpen} onOpenChange={setEditOpen} onSaved={refresh} />
+      <QuoteAcceptanceDialog
+        quote={acceptanceQuote}
+        acceptance={acceptanceQuote ? acceptances[acceptanceQuote.id] : undefined}
+        open={!!acceptanceQuote}
+        onOpenChange={(open) => { if (!open) setAcceptanceQuote(null); }}
+      />
+      <SendEmailDialog
+        document={emailDocument}
+        open={!!emailDocument}
+        onOpenChange={(open) => { if (!open) setEmailDocument(null); }}
+      />
       <EditInvoiceDialog
         invoice={pendingInvoice}
         open={convertOpen}
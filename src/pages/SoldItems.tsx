@@ -4,12 +4,15 @@ import { Link } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
-import { ArrowLeft, Package } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, Package, Printer, Undo2 } from "lucide-react";
 import { inventoryStorage, InventoryItem } from "@/lib/inventory-storage";
 import { format, parseISO, startOfMonth } from "date-fns";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
 import { useAsyncData } from "@/hooks/useAsyncData";
 import { EmptyState } from "@/components/EmptyState";
+import { ReturnsDialog } from "@/components/ReturnsDialog";
+import { getCreditMemos, getRmas, getRmaStatusLabel, getSettlementLabel, printCreditMemo, type CreditMemo, type Rma } from "@/lib/rma-storage";
 
 interface MonthGroup {
   month: string;
@@ -18,6 +21,13 @@ interface MonthGroup {
   totalValue: number;
 }
 
+interface SoldItemsData {
+  groups: MonthGroup[];
+  creditMemos: CreditMemo[];
+  /** Open or received RMA per returned item id */
+  activeRmas: Map<string, Rma>;
+}
+
 function SoldItemsSkeleton() {
   return (
     <div className="min-h-screen bg-background">
@@ -37,8 +47,15 @@ function SoldItemsSkeleton() {
 }
 
 function SoldItemsContent() {
-  const fetchSoldItems = useCallback(async (): Promise<MonthGroup[]> => {
-    const items = await inventoryStorage.getItems();
+  const [returnsOpen, setReturnsOpen] = useState(false);
+  const [returnItem, setReturnItem] = useState<InventoryItem | null>(null);
+
+  const fetchSoldItems = useCallback(async (): Promise<SoldItemsData> => {
+    const [items, creditMemos, rmas] = await Promise.all([
+      inventoryStorage.getItems(),
+      getCreditMemos(),
+      getRmas(),
+    ]);
     const soldItems = items.filter(item => item.status === 'sold' && item.soldDate);
 
     const grouped = new Map<string, InventoryItem[]>();
@@ -50,22 +67,35 @@ function SoldItemsContent() {
       }
     });
 
-    return Array.from(grouped.entries())
+    const activeRmas = new Map<string, Rma>();
+    rmas
+      .filter(rma => rma.status === 'open' || rma.status === 'received')
+      .forEach(rma => rma.lines.forEach(line => line.itemId && activeRmas.set(line.itemId, rma)));
+
+    const groups = Array.from(grouped.entries())
       .map(([monthKey, items]) => ({
         month: format(parseISO(monthKey + '-01'), 'MMMM yyyy'),
         monthKey, items,
         totalValue: items.reduce((sum, item) => sum + item.salePrice, 0),
       }))
       .sort((a, b) => b.monthKey.localeCompare(a.monthKey));
+
+    return { groups, creditMemos, activeRmas };
   }, []);
 
-  const { data: monthGroups, loading } = useAsyncData(fetchSoldItems, {
+  const { data, loading, refresh } = useAsyncData(fetchSoldItems, {
     loadOnMount: true,
     errorMessage: "Failed to load sold items",
     cacheKey: "sold-items-data",
   });
 
-  const groups = monthGroups || [];
+  const groups = data?.groups || [];
+  const creditMemos = data?.creditMemos || [];
+
+  const openReturns = (item: InventoryItem | null) => {
+    setReturnItem(item);
+    setReturnsOpen(true);
+  };
 
   if (loading) return <SoldItemsSkeleton />;
 
@@ -75,15 +105,57 @@ function SoldItemsContent() {
         <div className="container mx-auto px-4 py-6">
           <div className="flex items-center gap-4">
             <Link to="/"><Button variant="ghost" size="icon"><ArrowLeft className="h-5 w-5" /></Button></Link>
-            <div>
+            <div className="flex-1">
               <h1 className="text-3xl font-bold text-foreground">Sold Items by Month</h1>
               <p className="text-muted-foreground mt-1">View items sold in previous months</p>
             </div>
+            <Button variant="outline" onClick={() => openReturns(null)}>
+              <Undo2 className="mr-2 h-4 w-4" />
+              Returns
+            </Button>
           </div>
         </div>
       </div>
 
-      <div className="container mx-auto px-4 py-8">
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        {creditMemos.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-2xl">Returns & Credit Memos</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {creditMemos.map((memo) => (
+                  <div key={memo.id} className="flex items-start justify-between p-4 border rounded-lg bg-card">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2 mb-1">
+                        <span className="font-semibold">{memo.creditMemoNumber}</span>
+                        <Badge variant="outline">{getSettlementLabel(memo.settlement)}</Badge>
+                        <span className="text-sm text-muted-foreground">{format(parseISO(memo.createdAt), 'MMM dd, yyyy')}</span>
+                      </div>
+                      {memo.customerName && <p className="text-sm text-muted-foreground mb-1">{memo.customerName}</p>}
+                      <div className="text-sm text-muted-foreground">
+                        {memo.items.map((line, index) => (
+                          <div key={index}>
+                            {line.quantity > 1 && `${line.quantity} × `}{line.partNumber}
+                            {line.serialNumber && ` · SN: ${line.serialNumber}`}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="text-lg font-bold">-${memo.total.toFixed(2)}</span>
+                      <Button variant="ghost" size="icon" title="Print credit memo" onClick={() => printCreditMemo(memo)}>
+                        <Printer className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {groups.length === 0 ? (
           <Card><CardContent><EmptyState icon={Package} title="No sold items found" description="Items will appear here once they are sold" /></CardContent></Card>
         ) : (
@@ -108,6 +180,11 @@ function SoldItemsContent() {
                             <Package className="h-4 w-4 text-muted-foreground" />
                             <span className="font-semibold">{item.partNumber}</span>
                             {item.serialNumber && <span className="text-sm text-muted-foreground">SN: {item.serialNumber}</span>}
+                            {data?.activeRmas.has(item.id) && (
+                              <Badge variant="secondary">
+                                {data.activeRmas.get(item.id)!.rmaNumber} · {getRmaStatusLabel(data.activeRmas.get(item.id)!.status)}
+                              </Badge>
+                            )}
                           </div>
                           <p className="text-sm text-muted-foreground mb-2">{item.description}</p>
                           <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
@@ -117,6 +194,12 @@ function SoldItemsContent() {
                             {item.invoiceId && <span className="text-muted-foreground col-span-2">Invoice: <span className="font-medium text-foreground">{item.invoiceId}</span></span>}
                           </div>
                         </div>
+                        {item.invoiceId && !data?.activeRmas.has(item.id) && (
+                          <Button variant="outline" size="sm" onClick={() => openReturns(item)}>
+                            <Undo2 className="mr-1 h-3 w-3" />
+                            Return
+                          </Button>
+                        )}
                       </div>
                     ))}
                   </div>
@@ -126,6 +209,13 @@ function SoldItemsContent() {
           </div>
         )}
       </div>
+
+      <ReturnsDialog
+        open={returnsOpen}
+        onOpenChange={setReturnsOpen}
+        prefillItem={returnItem}
+        onChanged={refresh}
+      />
     </div>
   );
 }
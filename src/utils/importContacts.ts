@@ -1,6 +1,7 @@
 import { supabase } from "@/integrations/supabase/client";
+import type { ContactMethod } from "@/lib/inventory-storage";
 
-interface ContactData {
+export interface ContactData {
   name: string;
   email?: string;
   phone?: string;
@@ -9,9 +10,21 @@ interface ContactData {
   jobTitle?: string;
   notes?: string;
   excavatorLines?: string[];
+  phoneNumbers?: ContactMethod[];
+  emailAddresses?: ContactMethod[];
+  photo?: { mimeType: string; base64: string };
 }
 
-export async function importContactsFromData(contacts: ContactData[]): Promise<{ success: boolean; insertedCount: number; errors?: string[] }> {
+export interface ImportContactsResult {
+  success: boolean;
+  insertedCount: number;
+  newCompaniesCreated?: number;
+  /** Names skipped because the contact already exists */
+  duplicates?: string[];
+  errors?: string[];
+}
+
+export async function importContactsFromData(contacts: ContactData[]): Promise<ImportContactsResult> {
   try {
     const { data, error } = await supabase.functions.invoke('bulk-import-contacts', {
       body: { contacts }
@@ -22,6 +35,10 @@ export async function importContactsFromData(contacts: ContactData[]): Promise<{
       return { success: false, insertedCount: 0, errors: [error.message] };
     }
 
+    if (data && !data.success && data.error) {
+      return { success: false, insertedCount: 0, errors: [data.error] };
+    }
+
     return data;
   } catch (error) {
     console.error('Import error:', error);
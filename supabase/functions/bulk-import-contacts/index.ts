@@ -5,6 +5,11 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+interface ContactMethod {
+  label?: string;
+  value: string;
+}
+
 interface ContactData {
   name: string;
   email?: string;
@@ -14,8 +19,24 @@ interface ContactData {
   jobTitle?: string;
   notes?: string;
   excavatorLines?: string[];
+  // From vCards and mapped CSV columns: every number/address with its label
+  phoneNumbers?: ContactMethod[];
+  emailAddresses?: ContactMethod[];
+  photo?: { mimeType: string; base64: string };
 }
 
+// ~2 MB per photo once decoded
+const MAX_PHOTO_BASE64 = 2_800_000;
+const PHOTO_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+};
+
+const decodeBase64 = (value: string): Uint8Array =>
+  Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -50,17 +71,33 @@ Deno.serve(async (req) => {
 
     const userId = claimsData.claims.sub;
 
-    // Check role - only owner, developer, or employee can bulk import
+    // Contacts go into the caller's active tenant; only owner, developer, or employee can bulk import
     const serviceClient = createClient(supabaseUrl, supabaseServiceKey);
 
-    const { data: roleData } = await serviceClient
-      .from('user_roles')
+    const { data: profile } = await serviceClient
+      .from('profiles')
+      .select('current_tenant_id')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    const tenantId = profile?.current_tenant_id as string | undefined;
+    if (!tenantId) {
+      return new Response(JSON.stringify({ error: 'No active tenant selected' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
+    const { data: membership } = await serviceClient
+      .from('tenant_members')
       .select('role')
       .eq('user_id', userId)
-      .single();
+      .eq('tenant_id', tenantId)
+      .eq('status', 'active')
+      .maybeSingle();
 
     const allowedRoles = ['owner', 'developer', 'employee'];
-    if (!roleData || !allowedRoles.includes(roleData.role)) {
+    if (!membership || !allowedRoles.includes(membership.role)) {
       return new Response(JSON.stringify({ error: 'Forbidden: insufficient permissions' }), {
         status: 403,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -68,86 +105,141 @@ Deno.serve(async (req) => {
     }
 
     const { contacts } = await req.json() as { contacts: ContactData[] };
-    
-    console.log(`User ${userId} (${roleData.role}) starting import of ${contacts.length} contacts`);
-    
+
+    console.log(`User ${userId} (${membership.role}) starting import of ${contacts.length} contacts into tenant ${tenantId}`);
+
+    // Same duplicate rules as the import preview: an existing contact with the
+    // same name or email, or an earlier contact in this request with the same email
+    const { data: existingPeople, error: peopleError } = await serviceClient
+      .from('people')
+      .select('name, email')
+      .eq('tenant_id', tenantId)
+      .is('deleted_at', null);
+
+    if (peopleError) {
+      console.error('Error fetching contacts:', peopleError);
+      throw peopleError;
+    }
+
+    const existingNames = new Set((existingPeople || []).map(p => p.name.toLowerCase()));
+    const seenEmails = new Set(
+      (existingPeople || []).filter(p => p.email).map(p => (p.email as string).toLowerCase())
+    );
+    const duplicates: string[] = [];
+    const toImport: ContactData[] = [];
+    for (const contact of contacts) {
+      const email = contact.email?.toLowerCase();
+      if (existingNames.has(contact.name.toLowerCase()) || (email && seenEmails.has(email))) {
+        duplicates.push(contact.name);
+        continue;
+      }
+      if (email) seenEmails.add(email);
+      toImport.push(contact);
+    }
+
     // Get existing companies
     const { data: existingCompanies, error: companiesError } = await serviceClient
       .from('companies')
-      .select('id, name');
-    
+      .select('id, name')
+      .eq('tenant_id', tenantId);
+
     if (companiesError) {
       console.error('Error fetching companies:', companiesError);
       throw companiesError;
     }
-    
+
     const companyMap = new Map<string, string>();
     for (const company of existingCompanies || []) {
       companyMap.set(company.name.toLowerCase(), company.id);
     }
-    
-    // Track new companies to create
-    const newCompanies = new Set<string>();
-    for (const contact of contacts) {
+
+    // Track new companies to create, once per name regardless of case
+    const newCompanies = new Map<string, string>();
+    for (const contact of toImport) {
       if (contact.companyName) {
         const lowerName = contact.companyName.toLowerCase();
-        if (!companyMap.has(lowerName)) {
-          newCompanies.add(contact.companyName);
+        if (!companyMap.has(lowerName) && !newCompanies.has(lowerName)) {
+          newCompanies.set(lowerName, contact.companyName);
         }
       }
     }
-    
+
     // Create new companies
     if (newCompanies.size > 0) {
-      const companiesToInsert = Array.from(newCompanies).map(name => ({ name }));
-      
+      const companiesToInsert = Array.from(newCompanies.values()).map(name => ({ name, tenant_id: tenantId }));
+
       const { data: createdCompanies, error: createError } = await serviceClient
         .from('companies')
         .insert(companiesToInsert)
         .select('id, name');
-      
+
       if (createError) {
         console.error('Error creating companies:', createError);
         throw createError;
       }
-      
+
       for (const company of createdCompanies || []) {
         companyMap.set(company.name.toLowerCase(), company.id);
       }
     }
-    
+
+    const errors: string[] = [];
+
     // Prepare contacts for insertion
-    const peopleToInsert = contacts.map(contact => {
-      const companyId = contact.companyName 
-        ? companyMap.get(contact.companyName.toLowerCase()) 
+    const peopleToInsert = [];
+    for (const contact of toImport) {
+      const id = crypto.randomUUID();
+      const companyId = contact.companyName
+        ? companyMap.get(contact.companyName.toLowerCase())
         : null;
-      
-      return {
+
+      // Photos are stored under the tenant's folder, named after the contact
+      let photoPath: string | null = null;
+      const extension = contact.photo && PHOTO_EXTENSIONS[contact.photo.mimeType];
+      if (contact.photo && extension && contact.photo.base64.length <= MAX_PHOTO_BASE64) {
+        const path = `${tenantId}/${id}.${extension}`;
+        const { error: uploadError } = await serviceClient.storage
+          .from('contact-photos')
+          .upload(path, decodeBase64(contact.photo.base64), { contentType: contact.photo.mimeType });
+        if (uploadError) {
+          console.error(`Error uploading photo for ${contact.name}:`, uploadError);
+          errors.push(`Photo for ${contact.name}: ${uploadError.message}`);
+        } else {
+          photoPath = path;
+        }
+      }
+
+      peopleToInsert.push({
+        id,
+        tenant_id: tenantId,
         name: contact.name,
-        email: contact.email || null,
-        phone: contact.phone || null,
+        email: contact.email || contact.emailAddresses?.[0]?.value || null,
+        phone: contact.phone || contact.phoneNumbers?.[0]?.value || null,
         address: contact.address || null,
         company_id: companyId,
         job_title: contact.jobTitle || null,
-        notes: contact.notes ? [{ text: contact.notes, timestamp: new Date().toISOString() }] : null,
+        notes: contact.notes ? [{ id: crypto.randomUUID(), text: contact.notes, timestamp: new Date().toISOString() }] : [],
         excavator_lines: contact.excavatorLines || null,
+        phone_numbers: contact.phoneNumbers || [],
+        email_addresses: contact.emailAddresses || [],
+        photo_path: photoPath,
+        user_id: userId,
         created_by: userId,
         updated_by: userId,
-      };
-    });
-    
+      });
+    }
+
     // Insert contacts in batches of 100
     const batchSize = 100;
     let insertedCount = 0;
-    const errors: string[] = [];
-    
+
     for (let i = 0; i < peopleToInsert.length; i += batchSize) {
       const batch = peopleToInsert.slice(i, i + batchSize);
-      
+
       const { error: insertError } = await serviceClient
         .from('people')
         .insert(batch);
-      
+
       if (insertError) {
         console.error(`Error inserting batch:`, insertError);
         errors.push(`Batch ${Math.floor(i / batchSize) + 1}: ${insertError.message}`);
@@ -155,18 +247,19 @@ Deno.serve(async (req) => {
         insertedCount += batch.length;
       }
     }
-    
-    console.log(`Import complete: ${insertedCount} contacts inserted by user ${userId}`);
-    
+
+    console.log(`Import complete: ${insertedCount} contacts inserted, ${duplicates.length} duplicates skipped by user ${userId}`);
+
     return new Response(JSON.stringify({
       success: true,
       insertedCount,
       newCompaniesCreated: newCompanies.size,
+      duplicates: duplicates.length > 0 ? duplicates : undefined,
       errors: errors.length > 0 ? errors : undefined,
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
-    
+
   } catch (error: unknown) {
     console.error('Import error:', error);
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -0,0 +1,357 @@
+// Public quote acceptance. Anyone holding an unexpired acceptance link token
+// can view that quote revision read-only and accept it with a typed name and
+// drawn signature. Acceptance stores the signer details and an acceptance
+// certificate PDF, then approves the quote.
+//
+// POST { action: "view", token }
+// POST { action: "accept", token, signerName, signature, poNumber? }
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { jsPDF } from "https://esm.sh/jspdf@2.5.1";
+import { getCorsHeaders, handleCorsPrelight } from "../_shared/cors.ts";
+
+const MAX_SIGNATURE_LENGTH = 500_000;
+
+type Snapshot = {
+  quote_number: string;
+  customer_name?: string | null;
+  customer_email?: string | null;
+  customer_address?: string | null;
+  ship_to_name?: string | null;
+  ship_to_address?: string | null;
+  salesman_name?: string | null;
+  items?: Array<{ partNumber?: string; serialNumber?: string; description?: string; sellPrice?: number; quantity?: number }> | null;
+  subtotal?: number | null;
+  discount?: number | null;
+  shipping?: number | null;
+  tax?: number | null;
+  notes?: string | null;
+  total?: number | null;
+  expires_at?: string | null;
+};
+
+class AcceptanceError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+// 1 → A, 27 → AA (same as getRevisionLetter in the app)
+const revisionLetter = (revision: number): string => {
+  let n = revision;
+  let letter = "";
+  while (n > 0) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letter;
+};
+
+const money = (value: number | null | undefined) => `$${Number(value || 0).toFixed(2)}`;
+
+const sha256Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, "0")).join("");
+};
+
+const clientIp = (req: Request): string | null =>
+  req.headers.get("x-forwarded-for")?.split(",")[0].trim() ||
+  req.headers.get("cf-connecting-ip") ||
+  req.headers.get("x-real-ip") ||
+  null;
+
+async function loadLink(supabase: ReturnType<typeof createClient>, token: string) {
+  if (!token || typeof token !== "string") throw new AcceptanceError("Missing token");
+
+  const { data: link, error } = await supabase
+    .from("quote_acceptance_links")
+    .select("*")
+    .eq("token", token)
+    .maybeSingle();
+  if (error) throw error;
+  if (!link || link.revoked_at) throw new AcceptanceError("This acceptance link is not valid", 404);
+
+  const { data: quote, error: quoteError } = await supabase
+    .from("quotes")
+    .select("id, tenant_id, quote_number, status, revision, expires_at, pricing_approval_status")
+    .eq("id", link.quote_id)
+    .single();
+  if (quoteError) throw quoteError;
+
+  const { data: revision, error: revisionError } = await supabase
+    .from("quote_revisions")
+    .select("snapshot")
+    .eq("quote_id", link.quote_id)
+    .eq("revision", link.revision)
+    .single();
+  if (revisionError) throw revisionError;
+
+  const { data: acceptance } = await supabase
+    .from("quote_acceptances")
+    .select("signer_name, po_number, accepted_at, revision")
+    .eq("quote_id", link.quote_id)
+    .maybeSingle();
+
+  return { link, quote, snapshot: revision.snapshot as Snapshot, acceptance };
+}
+
+function buildCertificate(params: {
+  snapshot: Snapshot;
+  revision: number;
+  acceptanceId: string;
+  signerName: string;
+  poNumber: string | null;
+  signature: string;
+  acceptedAt: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  snapshotHash: string;
+}): ArrayBuffer {
+  const { snapshot } = params;
+  const doc = new jsPDF();
+  const pageWidth = doc.internal.pageSize.getWidth();
+
+  doc.setFontSize(18);
+  doc.setFont("helvetica", "bold");
+  doc.text("Quote Acceptance Certificate", pageWidth / 2, 20, { align: "center" });
+
+  doc.setFontSize(10);
+  doc.setFont("helvetica", "normal");
+  let y = 34;
+  const row = (label: string, value: string) => {
+    doc.setFont("helvetica", "bold");
+    doc.text(label, 20, y);
+    doc.setFont("helvetica", "normal");
+    const lines = doc.splitTextToSize(value || "-", pageWidth - 80);
+    doc.text(lines, 70, y);
+    y += 6 * lines.length;
+  };
+
+  row("Quote", `${snapshot.quote_number} Rev ${revisionLetter(params.revision)}`);
+  row("Customer", snapshot.customer_name || "-");
+  if (snapshot.ship_to_address) row("Ship To", snapshot.ship_to_address);
+  row("Quote Total", money(snapshot.total));
+  row("PO Number", params.poNumber || "-");
+
+  y += 4;
+  doc.setFont("helvetica", "bold");
+  doc.text("Items", 20, y);
+  y += 6;
+  doc.setFont("helvetica", "normal");
+  for (const item of snapshot.items || []) {
+    const qty = item.quantity || 1;
+    const line = `${qty} x ${item.partNumber || ""} ${item.description || ""}${item.serialNumber ? ` (SN ${item.serialNumber})` : ""}`;
+    const lines = doc.splitTextToSize(line, pageWidth - 70);
+    doc.text(lines, 20, y);
+    doc.text(money((item.sellPrice || 0) * qty), pageWidth - 20, y, { align: "right" });
+    y += 5 * lines.length;
+    if (y > 230) {
+      doc.addPage();
+      y = 20;
+    }
+  }
+  y += 2;
+  doc.text(`Subtotal ${money(snapshot.subtotal)}   Discount ${money(snapshot.discount)}   Shipping ${money(snapshot.shipping)}   Tax ${money(snapshot.tax)}`, 20, y);
+  y += 10;
+
+  if (y > 200) {
+    doc.addPage();
+    y = 20;
+  }
+  doc.setFont("helvetica", "bold");
+  doc.text("Signature", 20, y);
+  y += 4;
+  doc.addImage(params.signature, "PNG", 20, y, 80, 30);
+  y += 36;
+
+  row("Signed By", params.signerName);
+  row("Accepted At", `${new Date(params.acceptedAt).toUTCString()}`);
+  row("IP Address", params.ipAddress || "unknown");
+  row("Browser", params.userAgent || "unknown");
+  row("Acceptance ID", params.acceptanceId);
+  row("Quote SHA-256", params.snapshotHash);
+
+  y += 4;
+  doc.setFontSize(8);
+  doc.text(
+    doc.splitTextToSize(
+      "The signer accepted the quote revision above by typing their name and drawing their signature. " +
+        "The SHA-256 fingerprint identifies the exact quote content that was accepted.",
+      pageWidth - 40,
+    ),
+    20,
+    y,
+  );
+
+  return doc.output("arraybuffer");
+}
+
+Deno.serve(async (req) => {
+  const corsHeaders = getCorsHeaders(req);
+  const json = (payload: unknown, status = 200) =>
+    new Response(JSON.stringify(payload), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status,
+    });
+
+  if (req.method === "OPTIONS") {
+    return handleCorsPrelight(req);
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!,
+      { auth: { persistSession: false } },
+    );
+
+    const body = await req.json().catch(() => ({}));
+    const { link, quote, snapshot, acceptance } = await loadLink(supabase, body.token);
+
+    const expired = new Date(link.expires_at).getTime() < Date.now();
+    const superseded = quote.revision !== link.revision;
+    const awaitingPricing = quote.pricing_approval_status === "pending" || quote.pricing_approval_status === "rejected";
+
+    if (body.action === "view") {
+      return json({
+        quote: {
+          quoteNumber: snapshot.quote_number,
+          revision: revisionLetter(link.revision),
+          customerName: snapshot.customer_name,
+          customerAddress: snapshot.customer_address,
+          shipToName: snapshot.ship_to_name,
+          shipToAddress: snapshot.ship_to_address,
+          salesmanName: snapshot.salesman_name,
+          items: (snapshot.items || []).map((item) => ({
+            partNumber: item.partNumber,
+            serialNumber: item.serialNumber,
+            description: item.description,
+            quantity: item.quantity || 1,
+            price: Number(item.sellPrice || 0),
+          })),
+          subtotal: Number(snapshot.subtotal || 0),
+          discount: Number(snapshot.discount || 0),
+          shipping: Number(snapshot.shipping || 0),
+          tax: Number(snapshot.tax || 0),
+          total: Number(snapshot.total || 0),
+          notes: snapshot.notes,
+          expiresAt: snapshot.expires_at,
+        },
+        linkExpiresAt: link.expires_at,
+        acceptance: acceptance
+          ? {
+            signerName: acceptance.signer_name,
+            poNumber: acceptance.po_number,
+            acceptedAt: acceptance.accepted_at,
+            revision: revisionLetter(acceptance.revision),
+          }
+          : null,
+        // Why the quote can't be accepted, if it can't
+        blockedReason: acceptance
+          ? null
+          : expired
+          ? "This acceptance link has expired. Please ask for a new one."
+          : superseded
+          ? "This quote has been revised since the link was sent. Please ask for the latest version."
+          : quote.status !== "pending"
+          ? `This quote is ${quote.status} and can no longer be accepted.`
+          : awaitingPricing
+          ? "This quote is being reviewed and can't be accepted yet. Please check back with your sales contact."
+          : quote.expires_at && new Date(quote.expires_at).getTime() < Date.now()
+          ? "This quote has expired."
+          : null,
+      });
+    }
+
+    if (body.action !== "accept") throw new AcceptanceError("Unknown action");
+
+    if (acceptance) throw new AcceptanceError("This quote has already been accepted", 409);
+    if (link.used_at) throw new AcceptanceError("This acceptance link has already been used", 409);
+    if (expired) throw new AcceptanceError("This acceptance link has expired");
+    if (superseded) throw new AcceptanceError("This quote has been revised since the link was sent");
+    if (quote.status !== "pending") throw new AcceptanceError(`This quote is ${quote.status} and can no longer be accepted`);
+    if (awaitingPricing) throw new AcceptanceError("This quote is being reviewed and can't be accepted yet");
+    if (quote.expires_at && new Date(quote.expires_at).getTime() < Date.now()) {
+      throw new AcceptanceError("This quote has expired");
+    }
+
+    const signerName = String(body.signerName || "").trim();
+    const poNumber = String(body.poNumber || "").trim() || null;
+    const signature = String(body.signature || "");
+    if (signerName.length < 2 || signerName.length > 200) throw new AcceptanceError("Please type your full name");
+    if (!signature.startsWith("data:image/png;base64,") || signature.length > MAX_SIGNATURE_LENGTH) {
+      throw new AcceptanceError("Please draw your signature");
+    }
+
+    const ipAddress = clientIp(req);
+    const userAgent = req.headers.get("user-agent")?.slice(0, 500) || null;
+    const snapshotHash = await sha256Hex(JSON.stringify(snapshot));
+
+    // UNIQUE(quote_id) makes a second, concurrent acceptance fail here
+    const { data: inserted, error: insertError } = await supabase
+      .from("quote_acceptances")
+      .insert({
+        tenant_id: quote.tenant_id,
+        quote_id: quote.id,
+        link_id: link.id,
+        revision: link.revision,
+        snapshot,
+        snapshot_sha256: snapshotHash,
+        signer_name: signerName,
+        signature_data: signature,
+        po_number: poNumber,
+        ip_address: ipAddress,
+        user_agent: userAgent,
+        convert_on_accept: link.convert_on_accept,
+      })
+      .select("id, accepted_at")
+      .single();
+    if (insertError) {
+      if (insertError.code === "23505") throw new AcceptanceError("This quote has already been accepted", 409);
+      throw insertError;
+    }
+
+    const { error: quoteError } = await supabase
+      .from("quotes")
+      .update({ status: "approved" })
+      .eq("id", quote.id);
+    if (quoteError) throw quoteError;
+
+    await supabase
+      .from("quote_acceptance_links")
+      .update({ used_at: inserted.accepted_at })
+      .eq("id", link.id);
+
+    // The acceptance stands even if the certificate can't be produced; it can be regenerated from the row
+    try {
+      const pdf = buildCertificate({
+        snapshot,
+        revision: link.revision,
+        acceptanceId: inserted.id,
+        signerName,
+        poNumber,
+        signature,
+        acceptedAt: inserted.accepted_at,
+        ipAddress,
+        userAgent,
+        snapshotHash,
+      });
+      const path = `${quote.tenant_id}/${quote.id}/${inserted.id}.pdf`;
+      const { error: uploadError } = await supabase.storage
+        .from("quote-acceptances")
+        .upload(path, new Uint8Array(pdf), { contentType: "application/pdf" });
+      if (uploadError) throw uploadError;
+      await supabase.from("quote_acceptances").update({ certificate_path: path }).eq("id", inserted.id);
+    } catch (certError) {
+      console.error("quote-acceptance: certificate failed:", certError);
+    }
+
+    console.log(`quote-acceptance: ${snapshot.quote_number} rev ${link.revision} accepted by ${signerName}`);
+    return json({ success: true, acceptedAt: inserted.accepted_at });
+  } catch (err) {
+    if (err instanceof AcceptanceError) {
+      return json({ error: err.message }, err.status);
+    }
+    console.error("quote-acceptance failed:", err);
+    return json({ error: err instanceof Error ? err.message : String(err) }, 500);
+  }
+});
@@ -0,0 +1,399 @@
+// Daily recurring billing job: drafts an invoice for every active recurring
+// schedule whose next period has started, logs the run and moves the schedule
+// on. Periods missed while the job wasn't running are caught up, at most
+// MAX_PERIODS_PER_RUN per schedule. A failed period is logged and retried on
+// the next run. Triggered by pg_cron via HTTP POST. No body required.
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+const MAX_PERIODS_PER_RUN = 12;
+const FREQUENCY_MONTHS: Record<string, number> = { monthly: 1, quarterly: 3, annual: 12 };
+
+interface Schedule {
+  id: string;
+  tenant_id: string;
+  name: string;
+  customer_name: string;
+  customer_email: string | null;
+  customer_phone: string | null;
+  customer_address: string | null;
+  ship_to_name: string | null;
+  ship_to_address: string | null;
+  salesman_name: string | null;
+  items: Array<{ partNumber: string; description: string; sellPrice: number; quantity: number; taxable: boolean }>;
+  discount: number;
+  shipping: number;
+  notes: string | null;
+  frequency: string;
+  start_date: string;
+  end_date: string | null;
+  billing_day: number;
+  prorate_first_period: boolean;
+  next_run_date: string;
+  created_by: string | null;
+}
+
+interface Jurisdiction {
+  id: string;
+  name: string;
+  level: string;
+  state_code: string;
+  postal_codes: string[];
+  rate: number;
+  taxes_shipping: boolean;
+}
+
+// ---- Periods: same rules as getRecurringPeriod in src/lib/recurring-invoices.ts ----
+
+const parseDate = (value: string) => {
+  const [y, m, d] = value.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d));
+};
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * 86_400_000);
+const daysBetween = (from: Date, to: Date) => Math.round((to.getTime() - from.getTime()) / 86_400_000);
+
+// Clamps to the end of shorter months like date-fns addMonths
+const addMonths = (date: Date, months: number) => {
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return target;
+};
+
+const getFirstBillingDate = (schedule: Schedule): Date | null => {
+  const start = parseDate(schedule.start_date);
+  if (!schedule.prorate_first_period || start.getUTCDate() === schedule.billing_day) return null;
+  const sameMonth = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), schedule.billing_day));
+  return sameMonth > start ? sameMonth : addMonths(sameMonth, 1);
+};
+
+const getPeriod = (schedule: Schedule, periodStart: string) => {
+  const months = FREQUENCY_MONTHS[schedule.frequency];
+  const firstBilling = getFirstBillingDate(schedule);
+
+  if (firstBilling && periodStart === schedule.start_date) {
+    const fullPeriodDays = daysBetween(addMonths(firstBilling, -months), firstBilling);
+    const stubDays = daysBetween(parseDate(schedule.start_date), firstBilling);
+    return {
+      start: periodStart,
+      end: formatDate(addDays(firstBilling, -1)),
+      prorationFactor: Math.round((stubDays / fullPeriodDays) * 10000) / 10000,
+    };
+  }
+
+  const anchor = firstBilling || parseDate(schedule.start_date);
+  const start = parseDate(periodStart);
+  let next = anchor;
+  for (let k = 1; next <= start; k++) {
+    next = addMonths(anchor, k * months);
+  }
+  return { start: periodStart, end: formatDate(addDays(next, -1)), prorationFactor: 1 };
+};
+
+// ---- Sales tax: same rules as calculateSalesTax in src/lib/sales-tax.ts ----
+
+const US_STATE_CODES = new Set([
+  "AL", "AK", "AZ", "AR", "CA", "CO", "CT", "DE", "DC", "FL", "GA", "HI", "ID", "IL", "IN", "IA",
+  "KS", "KY", "LA", "ME", "MD", "MA", "MI", "MN", "MS", "MO", "MT", "NE", "NV", "NH", "NJ", "NM",
+  "NY", "NC", "ND", "OH", "OK", "OR", "PA", "RI", "SC", "SD", "TN", "TX", "UT", "VT", "VA", "WA",
+  "WV", "WI", "WY", "PR",
+]);
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+const parseShipToLocation = (address: string | null) => {
+  if (!address) return null;
+  const upper = address.toUpperCase();
+  const withZip = [...upper.matchAll(/\b([A-Z]{2})[\s,]+(\d{5})(?:-\d{4})?\b/g)]
+    .filter((m) => US_STATE_CODES.has(m[1]));
+  if (withZip.length > 0) {
+    const last = withZip[withZip.length - 1];
+    return { stateCode: last[1], postalCode: last[2] as string | undefined };
+  }
+  const stateOnly = [...upper.matchAll(/(?:,|\s)([A-Z]{2})\s*(?:,?\s*USA?)?\s*$/gm)]
+    .filter((m) => US_STATE_CODES.has(m[1]));
+  if (stateOnly.length > 0) {
+    return { stateCode: stateOnly[stateOnly.length - 1][1], postalCode: undefined };
+  }
+  return null;
+};
+
+const calculateTax = (
+  lines: Array<{ sellPrice: number; quantity: number; taxable: boolean }>,
+  discount: number,
+  shipping: number,
+  shipToAddress: string | null,
+  jurisdictions: Jurisdiction[],
+  exemptCertificate: string | null,
+) => {
+  const subtotal = lines.reduce((sum, l) => sum + l.quantity * l.sellPrice, 0);
+  const taxableLines = lines.filter((l) => l.taxable !== false).reduce((sum, l) => sum + l.quantity * l.sellPrice, 0);
+  const discountShare = subtotal > 0 ? Math.min(discount, subtotal) * (taxableLines / subtotal) : 0;
+  const taxableSubtotal = roundCents(Math.max(0, taxableLines - discountShare));
+  if (exemptCertificate) return { tax: 0, details: [] };
+
+  const location = parseShipToLocation(shipToAddress);
+  const details = !location ? [] : jurisdictions
+    .filter((j) => j.state_code === location.stateCode &&
+      (j.level === "state" || (!!location.postalCode && (j.postal_codes || []).includes(location.postalCode))))
+    .map((j) => {
+      const taxableAmount = roundCents(taxableSubtotal + (j.taxes_shipping ? shipping : 0));
+      return {
+        jurisdictionId: j.id,
+        name: j.name,
+        stateCode: j.state_code,
+        rate: Number(j.rate),
+        taxableAmount,
+        tax: roundCents((taxableAmount * Number(j.rate)) / 100),
+      };
+    });
+  return { tax: roundCents(details.reduce((sum, d) => sum + d.tax, 0)), details };
+};
+
+const getExemptCertificate = async (supabase: SupabaseClient, schedule: Schedule, today: string) => {
+  const { data: companyId } = await supabase.rpc("match_customer_company", {
+    _tenant_id: schedule.tenant_id,
+    _customer_name: schedule.customer_name,
+  });
+  if (!companyId) return null;
+  const { data: company } = await supabase
+    .from("companies")
+    .select("tax_exempt, tax_exempt_certificate, tax_exempt_expires_at")
+    .eq("id", companyId)
+    .maybeSingle();
+  if (!company?.tax_exempt || !company.tax_exempt_certificate) return null;
+  if (company.tax_exempt_expires_at && company.tax_exempt_expires_at < today) return null;
+  return company.tax_exempt_certificate as string;
+};
+
+const formatPeriod = (start: string, end: string) => {
+  const fmt = (value: string) =>
+    parseDate(value).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric", timeZone: "UTC" });
+  return `${fmt(start)} – ${fmt(end)}`;
+};
+
+const draftInvoice = async (
+  supabase: SupabaseClient,
+  schedule: Schedule,
+  period: ReturnType<typeof getPeriod>,
+  jurisdictions: Jurisdiction[],
+  exemptCertificate: string | null,
+) => {
+  const prorated = period.prorationFactor < 1;
+  const periodLabel = formatPeriod(period.start, period.end);
+  const lines = (schedule.items || []).map((line) => ({
+    partNumber: line.partNumber,
+    description: prorated ? `${line.description} (prorated ${periodLabel})` : line.description,
+    sellPrice: roundCents(Number(line.sellPrice) * period.prorationFactor),
+    quantity: Number(line.quantity) || 1,
+    taxable: line.taxable !== false,
+  }));
+  const subtotal = roundCents(lines.reduce((sum, l) => sum + l.sellPrice * l.quantity, 0));
+  const discount = Math.min(roundCents(Number(schedule.discount) * period.prorationFactor), subtotal);
+  const shipping = Number(schedule.shipping);
+  const { tax, details } = calculateTax(lines, discount, shipping, schedule.ship_to_address, jurisdictions, exemptCertificate);
+  const notes = [schedule.notes, `Service period: ${periodLabel}`].filter(Boolean).join("\n");
+
+  const { data, error } = await supabase
+    .from("invoices")
+    .insert({
+      // invoice_number is left to the tenant's invoice sequence
+      tenant_id: schedule.tenant_id,
+      customer_name: schedule.customer_name,
+      customer_email: schedule.customer_email,
+      customer_phone: schedule.customer_phone,
+      customer_address: schedule.customer_address,
+      ship_to_name: schedule.ship_to_name,
+      ship_to_address: schedule.ship_to_address,
+      salesman_name: schedule.salesman_name,
+      // No inventory item behind these lines, so finalizing doesn't mark stock sold
+      items: lines.map((l) => ({ id: "", serialNumber: "", ...l })),
+      subtotal,
+      discount,
+      shipping,
+      tax,
+      tax_details: details,
+      tax_exempt_certificate: exemptCertificate,
+      notes,
+      total: roundCents(subtotal - discount + shipping + tax),
+      status: "draft",
+      created_by: schedule.created_by,
+    })
+    .select("id, invoice_number")
+    .single();
+  if (error) throw error;
+  return data as { id: string; invoice_number: string };
+};
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    // Authentication: caller must present the service role key as a bearer token.
+    // pg_cron is configured to send this; any other caller is rejected.
+    const authHeader = req.headers.get("authorization") ?? "";
+    const presented = authHeader.replace(/^Bearer\s+/i, "").trim();
+    if (!presented || presented !== serviceKey) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 401 },
+      );
+    }
+
+    const supabase = createClient(supabaseUrl, serviceKey, {
+      auth: { persistSession: false },
+    });
+
+    const nowIso = new Date().toISOString();
+    const today = nowIso.slice(0, 10);
+
+    const { data: schedules, error } = await supabase
+      .from("recurring_invoices")
+      .select("*")
+      .eq("status", "active")
+      .lte("next_run_date", today);
+
+    if (error) {
+      console.error("recurring-invoices load failed:", error);
+      return new Response(
+        JSON.stringify({ error: error.message }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 500 },
+      );
+    }
+
+    const jurisdictionsByTenant = new Map<string, Jurisdiction[]>();
+    let generatedCount = 0;
+    let failedCount = 0;
+
+    for (const schedule of (schedules || []) as Schedule[]) {
+      if (!jurisdictionsByTenant.has(schedule.tenant_id)) {
+        const { data } = await supabase
+          .from("tax_jurisdictions")
+          .select("id, name, level, state_code, postal_codes, rate, taxes_shipping")
+          .eq("tenant_id", schedule.tenant_id)
+          .eq("is_active", true);
+        jurisdictionsByTenant.set(schedule.tenant_id, (data || []) as Jurisdiction[]);
+      }
+      const jurisdictions = jurisdictionsByTenant.get(schedule.tenant_id)!;
+      const exemptCertificate = await getExemptCertificate(supabase, schedule, today);
+
+      let nextRunDate = schedule.next_run_date;
+      for (let i = 0; i < MAX_PERIODS_PER_RUN && nextRunDate <= today; i++) {
+        if (schedule.end_date && nextRunDate > schedule.end_date) break;
+        const period = getPeriod(schedule, nextRunDate);
+
+        const { data: existing } = await supabase
+          .from("recurring_invoice_runs")
+          .select("id, status")
+          .eq("recurring_invoice_id", schedule.id)
+          .eq("period_start", period.start)
+          .maybeSingle();
+
+        // Billed or skipped by an earlier run that didn't get to move the schedule on
+        if (!existing || existing.status === "failed") {
+          // Claim the period before drafting, so an overlapping invocation
+          // can't bill it too and a failed log write can't leave an extra invoice
+          const claim = {
+            tenant_id: schedule.tenant_id,
+            recurring_invoice_id: schedule.id,
+            period_start: period.start,
+            period_end: period.end,
+            status: "generated",
+            invoice_id: null,
+            proration_factor: period.prorationFactor,
+            error: null,
+          };
+          const { data: claimed, error: claimError } = existing
+            ? await supabase
+              .from("recurring_invoice_runs")
+              .update(claim)
+              .eq("id", existing.id)
+              .eq("status", "failed")
+              .select("id")
+            : await supabase
+              .from("recurring_invoice_runs")
+              .upsert(claim, { onConflict: "recurring_invoice_id,period_start", ignoreDuplicates: true })
+              .select("id");
+          if (claimError) {
+            failedCount++;
+            console.error(`recurring-invoices: schedule ${schedule.id} period ${period.start} could not be claimed:`, claimError);
+            break;
+          }
+          // Another invocation has it and moves the schedule on
+          if (!claimed || claimed.length === 0) break;
+          const runId = claimed[0].id as string;
+
+          try {
+            const invoice = await draftInvoice(supabase, schedule, period, jurisdictions, exemptCertificate);
+            const { error: runError } = await supabase
+              .from("recurring_invoice_runs")
+              .update({ invoice_id: invoice.id })
+              .eq("id", runId);
+            // The period is billed either way; only the link is missing
+            if (runError) console.error(`recurring-invoices: could not link invoice ${invoice.id} to run ${runId}:`, runError);
+            generatedCount++;
+
+            if (schedule.created_by) {
+              await supabase.from("user_notifications").insert({
+                tenant_id: schedule.tenant_id,
+                user_id: schedule.created_by,
+                title: `Recurring invoice ${invoice.invoice_number} drafted`,
+                body: `${schedule.name} for ${schedule.customer_name}, ${formatPeriod(period.start, period.end)}`,
+                link: "/",
+              });
+            }
+          } catch (err) {
+            failedCount++;
+            const message = err instanceof Error ? err.message : String((err as { message?: string })?.message ?? err);
+            console.error(`recurring-invoices: schedule ${schedule.id} period ${period.start} failed:`, message);
+            await supabase
+              .from("recurring_invoice_runs")
+              .update({ status: "failed", error: message })
+              .eq("id", runId);
+            break;
+          }
+        }
+
+        nextRunDate = formatDate(addDays(parseDate(period.end), 1));
+        const completed = !!schedule.end_date && nextRunDate > schedule.end_date;
+        const { error: moveError } = await supabase
+          .from("recurring_invoices")
+          .update({
+            next_run_date: nextRunDate,
+            last_run_at: nowIso,
+            ...(completed ? { status: "completed" } : {}),
+          })
+          .eq("id", schedule.id);
+        if (moveError) {
+          console.error(`recurring-invoices: could not advance schedule ${schedule.id}:`, moveError);
+          break;
+        }
+        if (completed) break;
+      }
+    }
+
+    console.log(`recurring-invoices: drafted ${generatedCount} invoice(s), ${failedCount} failure(s) at ${nowIso}`);
+
+    return new Response(
+      JSON.stringify({ success: true, generatedCount, failedCount, ranAt: nowIso }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 200 },
+    );
+  } catch (err) {
+    console.error("recurring-invoices failed:", err);
+    return new Response(
+      JSON.stringify({ error: err instanceof Error ? err.message : String(err) }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" }, status: 500 },
+    );
+  }
+});
@@ -0,0 +1,287 @@
+// Emails quotes, invoices and customer statements with their PDF attached and
+// keeps the send log in email_sends. Mail goes out over plain SMTP, so any
+// provider works, as does a local catcher such as Mailpit or MailHog
+// (SMTP_HOST=localhost, SMTP_PORT=1025, SMTP_ALLOW_INSECURE=true).
+//
+// POST { action: "send", documentType, documentId?, companyId?, customerName?,
+//        documentNumber?, to, cc?, subject, body, attachment: { filename, contentBase64 } }
+//   Staff only. documentId is the quote or invoice id; statements pass the
+//   customer and a statement number instead.
+// POST { action: "event", token, event: "delivered" | "bounced", reason? }
+//   Delivery webhook for the mail provider; requires the x-webhook-secret
+//   header to match EMAIL_WEBHOOK_SECRET. token is the X-Document-Email header
+//   of the original message.
+// GET ?open=<token>
+//   Open-tracking pixel embedded in every message.
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+import { getCorsHeaders, handleCorsPrelight } from "../_shared/cors.ts";
+
+const DOCUMENT_TYPES = ["quote", "invoice", "statement"];
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_CC = 5;
+const MAX_BODY_LENGTH = 20_000;
+// ~10 MB of PDF once decoded
+const MAX_ATTACHMENT_BASE64 = 14_000_000;
+
+// 1x1 transparent GIF
+const PIXEL = Uint8Array.from(
+  atob("R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7"),
+  (c) => c.charCodeAt(0),
+);
+
+class EmailError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// Plain-text template body → simple HTML with clickable links
+const toHtml = (body: string, pixelUrl: string) => {
+  const paragraphs = escapeHtml(body)
+    .replace(/(https?:\/\/[^\s<]+)/g, '<a href="$1">$1</a>')
+    .replace(/\r?\n/g, "<br>");
+  return `<div style="font-family: Arial, sans-serif; font-size: 14px; line-height: 1.5">${paragraphs}</div>` +
+    `<img src="${pixelUrl}" width="1" height="1" alt="" style="display:none">`;
+};
+
+const decodeBase64 = (value: string): Uint8Array =>
+  Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+
+async function loadDocument(
+  userClient: ReturnType<typeof createClient>,
+  userId: string,
+  body: Record<string, unknown>,
+) {
+  const documentType = String(body.documentType || "");
+  if (!DOCUMENT_TYPES.includes(documentType)) throw new EmailError("Unknown document type");
+
+  // Reading through the caller's client means RLS decides whether they may send it
+  if (documentType === "quote" || documentType === "invoice") {
+    const table = documentType === "quote" ? "quotes" : "invoices";
+    const numberColumn = documentType === "quote" ? "quote_number" : "invoice_number";
+    const { data, error } = await userClient
+      .from(table)
+      .select(`id, tenant_id, status, customer_name, pricing_approval_status, ${numberColumn}`)
+      .eq("id", String(body.documentId || ""))
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) throw new EmailError(`That ${documentType} was not found`, 404);
+    if (data.status === "draft") throw new EmailError(`Draft ${documentType}s can't be emailed`);
+    if (data.pricing_approval_status === "pending" || data.pricing_approval_status === "rejected") {
+      throw new EmailError(`This ${documentType}'s pricing has not been approved`);
+    }
+    return {
+      documentType,
+      tenantId: data.tenant_id as string,
+      quoteId: documentType === "quote" ? data.id as string : null,
+      invoiceId: documentType === "invoice" ? data.id as string : null,
+      companyId: null,
+      customerName: (data.customer_name as string | null) || null,
+      documentNumber: data[numberColumn] as string,
+    };
+  }
+
+  const { data: profile } = await userClient
+    .from("profiles")
+    .select("current_tenant_id")
+    .eq("user_id", userId)
+    .single();
+  const tenantId = profile?.current_tenant_id as string | undefined;
+  if (!tenantId) throw new EmailError("No active tenant selected", 403);
+
+  const { data: membership } = await userClient
+    .from("tenant_members")
+    .select("role")
+    .eq("user_id", userId)
+    .eq("tenant_id", tenantId)
+    .eq("status", "active")
+    .maybeSingle();
+  if (!membership || !["owner", "employee", "developer"].includes(membership.role)) {
+    throw new EmailError("Not allowed to send statements", 403);
+  }
+
+  const documentNumber = String(body.documentNumber || "").trim();
+  if (!documentNumber) throw new EmailError("Missing statement number");
+  return {
+    documentType,
+    tenantId,
+    quoteId: null,
+    invoiceId: null,
+    companyId: body.companyId ? String(body.companyId) : null,
+    customerName: String(body.customerName || "").trim() || null,
+    documentNumber,
+  };
+}
+
+function createSmtpClient() {
+  const hostname = Deno.env.get("SMTP_HOST");
+  if (!hostname) throw new Error("SMTP_HOST not configured");
+  const username = Deno.env.get("SMTP_USERNAME");
+  const password = Deno.env.get("SMTP_PASSWORD");
+  const allowInsecure = Deno.env.get("SMTP_ALLOW_INSECURE") === "true";
+
+  return new SMTPClient({
+    connection: {
+      hostname,
+      port: Number(Deno.env.get("SMTP_PORT") || 587),
+      tls: Deno.env.get("SMTP_TLS") === "true",
+      auth: username && password ? { username, password } : undefined,
+    },
+    debug: allowInsecure ? { allowUnsecure: true, noStartTLS: true } : undefined,
+  });
+}
+
+async function handleSend(req: Request, body: Record<string, unknown>) {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) throw new EmailError("Missing authorization", 401);
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const userClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+    global: { headers: { Authorization: authHeader } },
+  });
+  const { data: { user }, error: authError } = await userClient.auth.getUser();
+  if (authError || !user) throw new EmailError("Unauthorized", 401);
+
+  const from = Deno.env.get("SMTP_FROM");
+  if (!from) throw new Error("SMTP_FROM not configured");
+
+  const to = String(body.to || "").trim();
+  const cc = (Array.isArray(body.cc) ? body.cc : []).map((c) => String(c).trim()).filter(Boolean);
+  const subject = String(body.subject || "").trim();
+  const text = String(body.body || "");
+  const attachment = body.attachment as { filename?: string; contentBase64?: string } | undefined;
+
+  if (!EMAIL_PATTERN.test(to)) throw new EmailError("Enter a valid recipient email address");
+  if (cc.length > MAX_CC || cc.some((c) => !EMAIL_PATTERN.test(c))) throw new EmailError("Check the CC addresses");
+  if (!subject || subject.length > 300) throw new EmailError("Subject is required");
+  if (!text.trim() || text.length > MAX_BODY_LENGTH) throw new EmailError("Message body is required");
+  if (!attachment?.filename || !attachment.contentBase64) throw new EmailError("Missing PDF attachment");
+  if (attachment.contentBase64.length > MAX_ATTACHMENT_BASE64) throw new EmailError("Attachment is too large");
+
+  const document = await loadDocument(userClient, user.id, body);
+
+  const supabase = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!, {
+    auth: { persistSession: false },
+  });
+
+  const { data: send, error: insertError } = await supabase
+    .from("email_sends")
+    .insert({
+      tenant_id: document.tenantId,
+      document_type: document.documentType,
+      quote_id: document.quoteId,
+      invoice_id: document.invoiceId,
+      company_id: document.companyId,
+      customer_name: document.customerName,
+      document_number: document.documentNumber,
+      to_email: to,
+      cc,
+      subject,
+      body: text,
+      attachment_name: attachment.filename,
+      sent_by: user.id,
+    })
+    .select("id, tracking_token")
+    .single();
+  if (insertError) throw insertError;
+
+  const pixelUrl = `${supabaseUrl}/functions/v1/send-document-email?open=${send.tracking_token}`;
+  const client = createSmtpClient();
+  try {
+    await client.send({
+      from,
+      to,
+      cc: cc.length > 0 ? cc : undefined,
+      subject,
+      content: text,
+      html: toHtml(text, pixelUrl),
+      headers: { "X-Document-Email": send.tracking_token },
+      attachments: [{
+        filename: attachment.filename,
+        content: decodeBase64(attachment.contentBase64),
+        encoding: "binary",
+        contentType: "application/pdf",
+      }],
+    });
+  } catch (smtpError) {
+    const message = smtpError instanceof Error ? smtpError.message : String(smtpError);
+    console.error(`send-document-email: ${document.documentNumber} to ${to} failed:`, message);
+    await supabase.from("email_sends").update({ status: "failed", error: message.slice(0, 1000) }).eq("id", send.id);
+    throw new EmailError(`The mail server rejected the message: ${message}`, 502);
+  } finally {
+    await client.close().catch(() => {});
+  }
+
+  const { error: updateError } = await supabase
+    .from("email_sends")
+    .update({ status: "sent", sent_at: new Date().toISOString() })
+    .eq("id", send.id);
+  if (updateError) console.error("send-document-email: failed to mark sent:", updateError);
+
+  console.log(`send-document-email: ${document.documentNumber} sent to ${to}`);
+  return { id: send.id, status: "sent" };
+}
+
+async function handleEvent(req: Request, body: Record<string, unknown>) {
+  const secret = Deno.env.get("EMAIL_WEBHOOK_SECRET");
+  if (!secret || req.headers.get("x-webhook-secret") !== secret) throw new EmailError("Unauthorized", 401);
+
+  const event = String(body.event || "");
+  if (event !== "delivered" && event !== "bounced") throw new EmailError("Unknown event");
+
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!, {
+    auth: { persistSession: false },
+  });
+  const { data: updated, error } = await supabase.rpc("record_email_delivery", {
+    _tracking_token: String(body.token || ""),
+    _event: event,
+    _reason: body.reason ? String(body.reason).slice(0, 1000) : null,
+  });
+  if (error) throw error;
+  return { updated };
+}
+
+Deno.serve(async (req) => {
+  const corsHeaders = getCorsHeaders(req);
+  const json = (payload: unknown, status = 200) =>
+    new Response(JSON.stringify(payload), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status,
+    });
+
+  if (req.method === "OPTIONS") {
+    return handleCorsPrelight(req);
+  }
+
+  // Open tracking never fails visibly; the pixel is returned regardless
+  if (req.method === "GET") {
+    const token = new URL(req.url).searchParams.get("open");
+    if (token) {
+      const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!, {
+        auth: { persistSession: false },
+      });
+      const { error } = await supabase.rpc("record_email_open", { _tracking_token: token });
+      if (error) console.error("send-document-email: open tracking failed:", error);
+    }
+    return new Response(PIXEL, {
+      headers: { "Content-Type": "image/gif", "Cache-Control": "no-store, max-age=0" },
+    });
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    if (body.action === "send") return json(await handleSend(req, body));
+    if (body.action === "event") return json(await handleEvent(req, body));
+    throw new EmailError("Unknown action");
+  } catch (err) {
+    if (err instanceof EmailError) {
+      return json({ error: err.message }, err.status);
+    }
+    console.error("send-document-email failed:", err);
+    return json({ error: err instanceof Error ? err.message : String(err) }, 500);
+  }
+});
@@ -0,0 +1,123 @@
+
+-- ============================================================
+-- Invoice payment ledger: installments, mixed methods, balance due
+-- ============================================================
+
+CREATE TABLE public.invoice_payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES public.tenants(id) ON DELETE RESTRICT,
+  invoice_id uuid NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  amount numeric NOT NULL CHECK (amount <> 0),
+  method text NOT NULL DEFAULT 'check'
+    CHECK (method IN ('cash', 'check', 'ach', 'card', 'wire', 'other')),
+  reference_number text,
+  payment_date date NOT NULL DEFAULT CURRENT_DATE,
+  notes text,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_invoice_payments_tenant ON public.invoice_payments(tenant_id);
+CREATE INDEX idx_invoice_payments_invoice ON public.invoice_payments(invoice_id);
+
+ALTER TABLE public.invoice_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant members can view invoice payments" ON public.invoice_payments
+  FOR SELECT TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+CREATE POLICY "Tenant members can insert invoice payments" ON public.invoice_payments
+  FOR INSERT TO authenticated WITH CHECK (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+CREATE POLICY "Tenant owners can update invoice payments" ON public.invoice_payments
+  FOR UPDATE TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner']::app_role[]));
+CREATE POLICY "Tenant owners can delete invoice payments" ON public.invoice_payments
+  FOR DELETE TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner']::app_role[]));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.invoice_payments TO authenticated;
+GRANT ALL ON public.invoice_payments TO service_role;
+
+-- ============================================================
+-- Derived payment columns on invoices
+-- ============================================================
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS amount_paid numeric NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS payment_status text NOT NULL DEFAULT 'unpaid'
+    CHECK (payment_status IN ('unpaid', 'partially_paid', 'paid', 'overpaid'));
+
+CREATE INDEX IF NOT EXISTS idx_invoices_payment_status ON public.invoices(payment_status);
+
+CREATE OR REPLACE FUNCTION public.invoice_payment_status(_amount_paid numeric, _total numeric)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _amount_paid <= 0 THEN 'unpaid'
+    WHEN _amount_paid < _total - 0.005 THEN 'partially_paid'
+    WHEN _amount_paid > _total + 0.005 THEN 'overpaid'
+    ELSE 'paid'
+  END;
+$$;
+
+-- Keeps payment_status / paid in step with amount_paid and total on every write,
+-- so the legacy `paid` flag can no longer drift from the ledger.
+CREATE OR REPLACE FUNCTION public.sync_invoice_payment_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.payment_status := public.invoice_payment_status(NEW.amount_paid, NEW.total);
+  NEW.paid := NEW.payment_status IN ('paid', 'overpaid');
+  IF NOT NEW.paid THEN
+    NEW.paid_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_invoices_payment_status
+BEFORE INSERT OR UPDATE OF amount_paid, total, paid, paid_at ON public.invoices
+FOR EACH ROW EXECUTE FUNCTION public.sync_invoice_payment_status();
+
+-- Rolls the ledger up onto the parent invoice after any payment change.
+CREATE OR REPLACE FUNCTION public.refresh_invoice_amount_paid()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice_id uuid := COALESCE(NEW.invoice_id, OLD.invoice_id);
+  v_sum numeric;
+  v_last date;
+BEGIN
+  SELECT COALESCE(SUM(amount), 0), MAX(payment_date)
+    INTO v_sum, v_last
+  FROM public.invoice_payments
+  WHERE invoice_id = v_invoice_id;
+
+  UPDATE public.invoices
+  SET amount_paid = v_sum,
+      paid_at = CASE WHEN v_sum >= total - 0.005 THEN v_last::timestamptz ELSE NULL END
+  WHERE id = v_invoice_id;
+
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_invoice_amount_paid() FROM anon, authenticated, PUBLIC;
+
+CREATE TRIGGER trg_invoice_payments_refresh
+AFTER INSERT OR UPDATE OR DELETE ON public.invoice_payments
+FOR EACH ROW EXECUTE FUNCTION public.refresh_invoice_amount_paid();
+
+-- ============================================================
+-- Backfill: every invoice previously flagged paid gets one ledger row
+-- ============================================================
+
+INSERT INTO public.invoice_payments (tenant_id, invoice_id, amount, method, payment_date, notes, created_by)
+SELECT i.tenant_id, i.id, i.total, 'other', COALESCE(i.paid_at, i.created_at, now())::date,
+       'Migrated from paid flag', NULL
+FROM public.invoices i
+WHERE i.paid = true AND i.total > 0;
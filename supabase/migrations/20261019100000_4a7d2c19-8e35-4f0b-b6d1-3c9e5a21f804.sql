@@ -0,0 +1,484 @@
+
+-- ============================================================
+-- Double-entry posting engine
+-- Sign convention on account_transactions.amount: debit > 0, credit < 0,
+-- so every journal entry sums to zero and getAccountBalance() returns the
+-- signed (debit-normal) balance of an account.
+-- ============================================================
+
+-- System accounts the posting engine resolves by key rather than number,
+-- so owners can renumber or rename them freely.
+ALTER TABLE public.accounts ADD COLUMN IF NOT EXISTS system_key text;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_accounts_tenant_system_key
+  ON public.accounts(tenant_id, system_key) WHERE system_key IS NOT NULL;
+
+CREATE TABLE public.journal_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES public.tenants(id) ON DELETE RESTRICT,
+  entry_date date NOT NULL DEFAULT CURRENT_DATE,
+  description text,
+  reference_type text NOT NULL,
+  reference_id uuid NOT NULL,
+  reversal_of uuid REFERENCES public.journal_entries(id) ON DELETE SET NULL,
+  reversed_by uuid REFERENCES public.journal_entries(id) ON DELETE SET NULL,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_journal_entries_tenant ON public.journal_entries(tenant_id);
+CREATE INDEX idx_journal_entries_reference ON public.journal_entries(reference_type, reference_id);
+CREATE INDEX idx_journal_entries_date ON public.journal_entries(entry_date);
+
+ALTER TABLE public.journal_entries ENABLE ROW LEVEL SECURITY;
+
+-- Entries are written only by the SECURITY DEFINER posting functions below
+CREATE POLICY "Tenant owners can view journal entries" ON public.journal_entries
+  FOR SELECT TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner']::app_role[]));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.journal_entries TO authenticated;
+GRANT ALL ON public.journal_entries TO service_role;
+
+ALTER TABLE public.account_transactions
+  ADD COLUMN IF NOT EXISTS journal_entry_id uuid REFERENCES public.journal_entries(id) ON DELETE CASCADE;
+CREATE INDEX IF NOT EXISTS idx_account_transactions_journal_entry ON public.account_transactions(journal_entry_id);
+CREATE INDEX IF NOT EXISTS idx_account_transactions_reference ON public.account_transactions(reference_type, reference_id);
+
+-- ============================================================
+-- Default chart of accounts
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.ensure_system_accounts(_tenant_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  d record;
+BEGIN
+  FOR d IN
+    SELECT * FROM (VALUES
+      ('cash',                '1000', 'Cash',                        'asset'),
+      ('accounts_receivable', '1100', 'Accounts Receivable',         'asset'),
+      ('inventory',           '1200', 'Inventory',                   'asset'),
+      ('accounts_payable',    '2000', 'Accounts Payable',            'liability'),
+      ('credit_card_payable', '2050', 'Credit Card Payable',         'liability'),
+      ('sales_tax_payable',   '2100', 'Sales Tax Payable',           'liability'),
+      ('sales_revenue',       '4000', 'Sales Revenue',               'revenue'),
+      ('shipping_revenue',    '4100', 'Shipping Revenue',            'revenue'),
+      ('sales_discounts',     '4900', 'Sales Discounts',             'revenue'),
+      ('cogs',                '5000', 'Cost of Goods Sold',          'expense'),
+      ('expense_utilities',   '6100', 'Utilities',                   'expense'),
+      ('expense_factory',     '6200', 'Factory & Shop Supplies',     'expense'),
+      ('expense_shipping',    '6300', 'Shipping & Freight',          'expense'),
+      ('expense_labor',       '6400', 'Labor',                       'expense'),
+      ('expense_vehicle',     '6500', 'Vehicle & Travel',            'expense'),
+      ('expense_general',     '6900', 'General & Administrative',    'expense')
+    ) AS v(system_key, account_number, account_name, account_type)
+  LOOP
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM public.accounts WHERE tenant_id = _tenant_id AND system_key = d.system_key
+    );
+
+    -- Adopt an account the owner already created with the same number
+    UPDATE public.accounts
+    SET system_key = d.system_key
+    WHERE tenant_id = _tenant_id AND account_number = d.account_number AND system_key IS NULL;
+
+    IF NOT FOUND THEN
+      INSERT INTO public.accounts (tenant_id, account_number, account_name, account_type, system_key, is_active)
+      VALUES (_tenant_id, d.account_number, d.account_name, d.account_type::account_type, d.system_key, true);
+    END IF;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.system_account_id(_tenant_id uuid, _system_key text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_id uuid;
+BEGIN
+  SELECT id INTO v_id FROM public.accounts
+  WHERE tenant_id = _tenant_id AND system_key = _system_key;
+
+  IF v_id IS NULL THEN
+    PERFORM public.ensure_system_accounts(_tenant_id);
+    SELECT id INTO v_id FROM public.accounts
+    WHERE tenant_id = _tenant_id AND system_key = _system_key;
+  END IF;
+
+  IF v_id IS NULL THEN
+    RAISE EXCEPTION 'System account % is missing for tenant %', _system_key, _tenant_id;
+  END IF;
+
+  RETURN v_id;
+END;
+$$;
+
+-- ============================================================
+-- Journal primitives (internal)
+-- ============================================================
+
+-- _lines: [{ "account_id": uuid, "amount": numeric, "description": text? }, ...]
+CREATE OR REPLACE FUNCTION public.create_journal_entry(
+  _tenant_id uuid,
+  _entry_date date,
+  _reference_type text,
+  _reference_id uuid,
+  _description text,
+  _lines jsonb
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry_id uuid;
+  v_sum numeric;
+BEGIN
+  SELECT COALESCE(SUM(ROUND((l->>'amount')::numeric, 2)), 0) INTO v_sum
+  FROM jsonb_array_elements(_lines) l;
+
+  IF v_sum <> 0 THEN
+    RAISE EXCEPTION 'Journal entry for % % is out of balance by %', _reference_type, _reference_id, v_sum;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(_lines) l WHERE ROUND((l->>'amount')::numeric, 2) <> 0
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.journal_entries (tenant_id, entry_date, description, reference_type, reference_id)
+  VALUES (_tenant_id, _entry_date, _description, _reference_type, _reference_id)
+  RETURNING id INTO v_entry_id;
+
+  INSERT INTO public.account_transactions
+    (tenant_id, account_id, transaction_date, amount, description, reference_type, reference_id, journal_entry_id)
+  SELECT _tenant_id,
+         (l->>'account_id')::uuid,
+         _entry_date,
+         ROUND((l->>'amount')::numeric, 2),
+         COALESCE(l->>'description', _description),
+         _reference_type,
+         _reference_id,
+         v_entry_id
+  FROM jsonb_array_elements(_lines) l
+  WHERE ROUND((l->>'amount')::numeric, 2) <> 0;
+
+  RETURN v_entry_id;
+END;
+$$;
+
+-- Posts a mirror-image entry for every live entry on a document.
+-- Returns the number of entries reversed.
+CREATE OR REPLACE FUNCTION public.reverse_journal_entries(
+  _tenant_id uuid,
+  _reference_type text,
+  _reference_id uuid,
+  _reason text
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry record;
+  v_reversal_id uuid;
+  v_count integer := 0;
+BEGIN
+  FOR v_entry IN
+    SELECT * FROM public.journal_entries
+    WHERE tenant_id = _tenant_id
+      AND reference_type = _reference_type
+      AND reference_id = _reference_id
+      AND reversal_of IS NULL
+      AND reversed_by IS NULL
+    ORDER BY created_at
+  LOOP
+    INSERT INTO public.journal_entries (tenant_id, entry_date, description, reference_type, reference_id, reversal_of)
+    VALUES (_tenant_id, CURRENT_DATE, COALESCE(_reason, 'Reversal of ' || COALESCE(v_entry.description, 'entry')),
+            _reference_type, _reference_id, v_entry.id)
+    RETURNING id INTO v_reversal_id;
+
+    INSERT INTO public.account_transactions
+      (tenant_id, account_id, transaction_date, amount, description, reference_type, reference_id, journal_entry_id)
+    SELECT tenant_id, account_id, CURRENT_DATE, -amount, 'Reversal: ' || COALESCE(description, ''),
+           reference_type, reference_id, v_reversal_id
+    FROM public.account_transactions
+    WHERE journal_entry_id = v_entry.id;
+
+    UPDATE public.journal_entries SET reversed_by = v_reversal_id WHERE id = v_entry.id;
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_journal_entry(uuid, date, text, uuid, text, jsonb) FROM anon, authenticated, PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.reverse_journal_entries(uuid, text, uuid, text) FROM anon, authenticated, PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.system_account_id(uuid, text) FROM anon, authenticated, PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.ensure_system_accounts(uuid) FROM anon, PUBLIC;
+
+-- ============================================================
+-- Document posting (callable by tenant staff)
+-- ============================================================
+
+-- Invoice: Dr AR / Cr revenue, shipping, sales tax; Dr discounts;
+--          Dr COGS / Cr inventory at item cost.
+-- Any previous posting is reversed first, so this is also the edit path.
+-- Drafts post nothing (and un-finalizing reverses what was there).
+CREATE OR REPLACE FUNCTION public.post_invoice_journal(_invoice_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_inv public.invoices%ROWTYPE;
+  v_reversed integer;
+  v_date date;
+  v_tax numeric;
+  v_shipping numeric;
+  v_discount numeric;
+  v_revenue numeric;
+  v_lines jsonb;
+  v_cogs jsonb;
+BEGIN
+  SELECT * INTO v_inv FROM public.invoices WHERE id = _invoice_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice % not found', _invoice_id;
+  END IF;
+
+  IF NOT has_tenant_role(v_inv.tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]) THEN
+    RAISE EXCEPTION 'Not authorized to post invoice %', v_inv.invoice_number;
+  END IF;
+
+  v_reversed := public.reverse_journal_entries(
+    v_inv.tenant_id, 'invoice', v_inv.id, 'Invoice ' || v_inv.invoice_number || ' changed'
+  );
+
+  IF COALESCE(v_inv.status, 'finalized') <> 'finalized' THEN
+    RETURN NULL;
+  END IF;
+
+  -- First posting lands on the invoice date; corrections land today
+  v_date := CASE WHEN v_reversed > 0 THEN CURRENT_DATE ELSE v_inv.created_at::date END;
+
+  v_tax := COALESCE(v_inv.tax, 0);
+  v_shipping := COALESCE(v_inv.shipping, 0);
+  v_discount := COALESCE(v_inv.discount, 0);
+  -- Derived from total so rounding in the editor can never unbalance the entry
+  v_revenue := v_inv.total - v_tax - v_shipping + v_discount;
+
+  v_lines := jsonb_build_array(
+    jsonb_build_object('account_id', public.system_account_id(v_inv.tenant_id, 'accounts_receivable'), 'amount', v_inv.total),
+    jsonb_build_object('account_id', public.system_account_id(v_inv.tenant_id, 'sales_revenue'), 'amount', -v_revenue),
+    jsonb_build_object('account_id', public.system_account_id(v_inv.tenant_id, 'sales_discounts'), 'amount', v_discount),
+    jsonb_build_object('account_id', public.system_account_id(v_inv.tenant_id, 'shipping_revenue'), 'amount', -v_shipping),
+    jsonb_build_object('account_id', public.system_account_id(v_inv.tenant_id, 'sales_tax_payable'), 'amount', -v_tax)
+  );
+
+  SELECT COALESCE(jsonb_agg(line), '[]'::jsonb) INTO v_cogs
+  FROM (
+    SELECT jsonb_build_object('account_id', cogs_account, 'amount', SUM(cost), 'description', 'Cost of goods sold') AS line
+    FROM (
+      SELECT COALESCE(i.cogs_account_id, public.system_account_id(v_inv.tenant_id, 'cogs')) AS cogs_account,
+             COALESCE(i.cost, 0) * COALESCE(NULLIF(li->>'quantity', '')::numeric, 1) AS cost
+      FROM jsonb_array_elements(COALESCE(v_inv.items, '[]'::jsonb)) li
+      JOIN public.items i ON i.id::text = li->>'id' AND i.tenant_id = v_inv.tenant_id
+    ) c
+    GROUP BY cogs_account
+    UNION ALL
+    SELECT jsonb_build_object('account_id', asset_account, 'amount', -SUM(cost), 'description', 'Inventory relieved') AS line
+    FROM (
+      SELECT COALESCE(i.asset_account_id, public.system_account_id(v_inv.tenant_id, 'inventory')) AS asset_account,
+             COALESCE(i.cost, 0) * COALESCE(NULLIF(li->>'quantity', '')::numeric, 1) AS cost
+      FROM jsonb_array_elements(COALESCE(v_inv.items, '[]'::jsonb)) li
+      JOIN public.items i ON i.id::text = li->>'id' AND i.tenant_id = v_inv.tenant_id
+    ) a
+    GROUP BY asset_account
+  ) lines;
+
+  RETURN public.create_journal_entry(
+    v_inv.tenant_id, v_date, 'invoice', v_inv.id,
+    'Invoice ' || v_inv.invoice_number || COALESCE(' - ' || v_inv.customer_name, ''),
+    v_lines || v_cogs
+  );
+END;
+$$;
+
+-- Expense: Dr expense (by category group) / Cr cash, or credit card payable
+-- when the expense was put on a card.
+CREATE OR REPLACE FUNCTION public.post_expense_journal(_expense_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_exp public.expenses%ROWTYPE;
+  v_reversed integer;
+  v_key text;
+  v_credit_key text;
+BEGIN
+  SELECT * INTO v_exp FROM public.expenses WHERE id = _expense_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Expense % not found', _expense_id;
+  END IF;
+
+  IF NOT has_tenant_role(v_exp.tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]) THEN
+    RAISE EXCEPTION 'Not authorized to post expense %', _expense_id;
+  END IF;
+
+  v_reversed := public.reverse_journal_entries(v_exp.tenant_id, 'expense', v_exp.id, 'Expense changed');
+
+  v_key := CASE
+    WHEN v_exp.category LIKE 'utilities_%' THEN 'expense_utilities'
+    WHEN v_exp.category IN ('factory_supplies', 'tools', 'equipment_rental') THEN 'expense_factory'
+    WHEN v_exp.category IN ('shipping_outbound', 'shipping_inbound', 'freight') THEN 'expense_shipping'
+    WHEN v_exp.category LIKE 'labor_%' THEN 'expense_labor'
+    WHEN v_exp.category IN ('fuel', 'vehicle_maintenance', 'travel') THEN 'expense_vehicle'
+    ELSE 'expense_general'
+  END;
+  v_credit_key := CASE WHEN v_exp.credit_card_last4 IS NOT NULL THEN 'credit_card_payable' ELSE 'cash' END;
+
+  RETURN public.create_journal_entry(
+    v_exp.tenant_id,
+    CASE WHEN v_reversed > 0 THEN CURRENT_DATE ELSE v_exp.expense_date END,
+    'expense', v_exp.id,
+    'Expense - ' || v_exp.employee_name || COALESCE(': ' || v_exp.description, ''),
+    jsonb_build_array(
+      jsonb_build_object('account_id', public.system_account_id(v_exp.tenant_id, v_key), 'amount', v_exp.amount),
+      jsonb_build_object('account_id', public.system_account_id(v_exp.tenant_id, v_credit_key), 'amount', -v_exp.amount)
+    )
+  );
+END;
+$$;
+
+-- PO receipt: Dr inventory / Cr accounts payable at the cost of the items
+-- the receipt created. Receipts are additive, so nothing is reversed here.
+CREATE OR REPLACE FUNCTION public.post_po_receipt_journal(_po_id uuid, _item_ids uuid[])
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_po public.purchase_orders%ROWTYPE;
+  v_lines jsonb;
+  v_total numeric;
+BEGIN
+  SELECT * INTO v_po FROM public.purchase_orders WHERE id = _po_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order % not found', _po_id;
+  END IF;
+
+  IF NOT has_tenant_role(v_po.tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]) THEN
+    RAISE EXCEPTION 'Not authorized to post purchase order %', v_po.po_number;
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('account_id', asset_account, 'amount', cost)), '[]'::jsonb),
+         COALESCE(SUM(cost), 0)
+    INTO v_lines, v_total
+  FROM (
+    SELECT COALESCE(asset_account_id, public.system_account_id(v_po.tenant_id, 'inventory')) AS asset_account,
+           SUM(COALESCE(cost, 0)) AS cost
+    FROM public.items
+    WHERE id = ANY(_item_ids) AND tenant_id = v_po.tenant_id
+    GROUP BY 1
+  ) c;
+
+  IF v_total = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN public.create_journal_entry(
+    v_po.tenant_id, CURRENT_DATE, 'po_receipt', v_po.id,
+    'Received ' || v_po.po_number || ' - ' || v_po.vendor_name,
+    v_lines || jsonb_build_array(
+      jsonb_build_object('account_id', public.system_account_id(v_po.tenant_id, 'accounts_payable'), 'amount', -v_total)
+    )
+  );
+END;
+$$;
+
+-- Customer payment: Dr cash / Cr AR. Negative amounts (refunds) flip naturally.
+CREATE OR REPLACE FUNCTION public.post_invoice_payment_journal(_payment_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_pay public.invoice_payments%ROWTYPE;
+  v_invoice_number text;
+  v_reversed integer;
+BEGIN
+  SELECT * INTO v_pay FROM public.invoice_payments WHERE id = _payment_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment % not found', _payment_id;
+  END IF;
+
+  IF NOT has_tenant_role(v_pay.tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]) THEN
+    RAISE EXCEPTION 'Not authorized to post payment %', _payment_id;
+  END IF;
+
+  SELECT invoice_number INTO v_invoice_number FROM public.invoices WHERE id = v_pay.invoice_id;
+  v_reversed := public.reverse_journal_entries(v_pay.tenant_id, 'invoice_payment', v_pay.id, 'Payment changed');
+
+  RETURN public.create_journal_entry(
+    v_pay.tenant_id,
+    CASE WHEN v_reversed > 0 THEN CURRENT_DATE ELSE v_pay.payment_date END,
+    'invoice_payment', v_pay.id,
+    'Payment on ' || COALESCE(v_invoice_number, 'invoice') || ' (' || v_pay.method || ')',
+    jsonb_build_array(
+      jsonb_build_object('account_id', public.system_account_id(v_pay.tenant_id, 'cash'), 'amount', v_pay.amount),
+      jsonb_build_object('account_id', public.system_account_id(v_pay.tenant_id, 'accounts_receivable'), 'amount', -v_pay.amount)
+    )
+  );
+END;
+$$;
+
+-- Used before a document is deleted
+CREATE OR REPLACE FUNCTION public.reverse_document_journal(_reference_type text, _reference_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tenant_id uuid;
+BEGIN
+  SELECT tenant_id INTO v_tenant_id FROM public.journal_entries
+  WHERE reference_type = _reference_type AND reference_id = _reference_id
+  LIMIT 1;
+
+  IF v_tenant_id IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  IF NOT has_tenant_role(v_tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]) THEN
+    RAISE EXCEPTION 'Not authorized to reverse % %', _reference_type, _reference_id;
+  END IF;
+
+  RETURN public.reverse_journal_entries(v_tenant_id, _reference_type, _reference_id, initcap(replace(_reference_type, '_', ' ')) || ' deleted');
+END;
+$$;
+
+-- Seed the system accounts for every existing tenant
+DO $$
+DECLARE
+  t record;
+BEGIN
+  FOR t IN SELECT id FROM public.tenants LOOP
+    PERFORM public.ensure_system_accounts(t.id);
+  END LOOP;
+END $$;
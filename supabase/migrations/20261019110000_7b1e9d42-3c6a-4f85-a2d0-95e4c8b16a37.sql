@@ -0,0 +1,65 @@
+
+-- ============================================================
+-- Sales tax jurisdictions
+-- A document's rate is the sum of every active jurisdiction matching the
+-- ship-to state (and ZIP, for county/city/district rates).
+-- ============================================================
+
+CREATE TABLE public.tax_jurisdictions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES public.tenants(id) ON DELETE RESTRICT,
+  name text NOT NULL,
+  level text NOT NULL DEFAULT 'state'
+    CHECK (level IN ('state', 'county', 'city', 'district')),
+  state_code text NOT NULL CHECK (state_code ~ '^[A-Z]{2}$'),
+  postal_codes text[] NOT NULL DEFAULT '{}',
+  rate numeric(7,4) NOT NULL CHECK (rate >= 0 AND rate < 100),
+  taxes_shipping boolean NOT NULL DEFAULT false,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_tax_jurisdictions_tenant ON public.tax_jurisdictions(tenant_id);
+CREATE INDEX idx_tax_jurisdictions_state ON public.tax_jurisdictions(tenant_id, state_code);
+
+ALTER TABLE public.tax_jurisdictions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant members can view tax jurisdictions" ON public.tax_jurisdictions
+  FOR SELECT TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+CREATE POLICY "Tenant owners can insert tax jurisdictions" ON public.tax_jurisdictions
+  FOR INSERT TO authenticated WITH CHECK (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','developer']::app_role[]));
+CREATE POLICY "Tenant owners can update tax jurisdictions" ON public.tax_jurisdictions
+  FOR UPDATE TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','developer']::app_role[]));
+CREATE POLICY "Tenant owners can delete tax jurisdictions" ON public.tax_jurisdictions
+  FOR DELETE TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner']::app_role[]));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.tax_jurisdictions TO authenticated;
+GRANT ALL ON public.tax_jurisdictions TO service_role;
+
+CREATE TRIGGER update_tax_jurisdictions_updated_at
+BEFORE UPDATE ON public.tax_jurisdictions
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================================
+-- Customer exemption certificates
+-- ============================================================
+
+ALTER TABLE public.companies
+  ADD COLUMN IF NOT EXISTS tax_exempt boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS tax_exempt_certificate text,
+  ADD COLUMN IF NOT EXISTS tax_exempt_expires_at date;
+
+-- ============================================================
+-- Per-jurisdiction tax breakdown on documents
+-- tax_details: [{ jurisdictionId, name, stateCode, rate, taxableAmount, tax }]
+-- tax_exempt_certificate is the certificate the document was exempted under.
+-- ============================================================
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS tax_details jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS tax_exempt_certificate text;
+
+ALTER TABLE public.quotes
+  ADD COLUMN IF NOT EXISTS tax_details jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS tax_exempt_certificate text;
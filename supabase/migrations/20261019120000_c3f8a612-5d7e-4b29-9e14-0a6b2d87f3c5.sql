@@ -0,0 +1,268 @@
+
+-- ============================================================
+-- Quantity-tracked inventory
+-- Serialized items stay one row per unit. Quantity items are one row per part
+-- number with quantity_on_hand; their status follows the on-hand count so every
+-- existing "available" filter keeps working.
+-- ============================================================
+
+ALTER TABLE public.items
+  ADD COLUMN IF NOT EXISTS tracking_mode text NOT NULL DEFAULT 'serialized'
+    CHECK (tracking_mode IN ('serialized', 'quantity')),
+  ADD COLUMN IF NOT EXISTS quantity_on_hand integer NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_items_tracking_mode ON public.items(tenant_id, tracking_mode);
+
+CREATE OR REPLACE FUNCTION public.sync_quantity_item_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.tracking_mode = 'quantity' THEN
+    NEW.status := CASE WHEN NEW.quantity_on_hand > 0 THEN 'available' ELSE 'sold' END;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_items_quantity_status
+BEFORE INSERT OR UPDATE OF status, quantity_on_hand, tracking_mode ON public.items
+FOR EACH ROW EXECUTE FUNCTION public.sync_quantity_item_status();
+
+-- ============================================================
+-- Stock movement log. The sum of an item's movements is its on-hand quantity.
+-- ============================================================
+
+CREATE TABLE public.inventory_movements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES public.tenants(id) ON DELETE RESTRICT,
+  item_id uuid NOT NULL REFERENCES public.items(id) ON DELETE CASCADE,
+  quantity_change integer NOT NULL CHECK (quantity_change <> 0),
+  quantity_after integer NOT NULL,
+  reason text NOT NULL
+    CHECK (reason IN ('initial', 'receipt', 'sale', 'sale_reversal', 'adjustment')),
+  reference_type text,
+  reference_id uuid,
+  unit_cost numeric(10,2),
+  notes text,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_inventory_movements_tenant ON public.inventory_movements(tenant_id);
+CREATE INDEX idx_inventory_movements_item ON public.inventory_movements(item_id, created_at);
+CREATE INDEX idx_inventory_movements_reference ON public.inventory_movements(reference_type, reference_id);
+
+ALTER TABLE public.inventory_movements ENABLE ROW LEVEL SECURITY;
+
+-- Writes go through apply_inventory_movement / sync_invoice_stock only
+CREATE POLICY "Tenant members can view inventory movements" ON public.inventory_movements
+  FOR SELECT TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+
+GRANT SELECT ON public.inventory_movements TO authenticated;
+GRANT ALL ON public.inventory_movements TO service_role;
+
+-- Internal: moves stock on one quantity item and logs it. A receipt with a unit
+-- cost re-averages the item's cost across the stock on hand.
+CREATE OR REPLACE FUNCTION public.record_inventory_movement(
+  _item_id uuid,
+  _quantity_change integer,
+  _reason text,
+  _reference_type text,
+  _reference_id uuid,
+  _unit_cost numeric,
+  _notes text,
+  _allow_negative boolean
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item public.items%ROWTYPE;
+  v_after integer;
+BEGIN
+  SELECT * INTO v_item FROM public.items WHERE id = _item_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item % not found', _item_id;
+  END IF;
+  IF v_item.tracking_mode <> 'quantity' THEN
+    RAISE EXCEPTION 'Item % is serialized; stock moves one unit at a time', v_item.part_number;
+  END IF;
+
+  v_after := v_item.quantity_on_hand + _quantity_change;
+  IF v_after < 0 AND NOT _allow_negative THEN
+    RAISE EXCEPTION 'Insufficient stock for %: % on hand, % requested',
+      v_item.part_number, v_item.quantity_on_hand, -_quantity_change;
+  END IF;
+
+  UPDATE public.items
+  SET quantity_on_hand = v_after,
+      cost = CASE
+        WHEN _unit_cost IS NOT NULL AND _quantity_change > 0 THEN
+          CASE WHEN v_item.quantity_on_hand > 0
+            THEN round((v_item.quantity_on_hand * COALESCE(v_item.cost, 0) + _quantity_change * _unit_cost)
+                       / v_after, 2)
+            ELSE _unit_cost
+          END
+        ELSE cost
+      END
+  WHERE id = _item_id;
+
+  INSERT INTO public.inventory_movements (
+    tenant_id, item_id, quantity_change, quantity_after, reason,
+    reference_type, reference_id, unit_cost, notes
+  ) VALUES (
+    v_item.tenant_id, _item_id, _quantity_change, v_after, _reason,
+    _reference_type, _reference_id, _unit_cost, _notes
+  );
+
+  RETURN v_after;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_inventory_movement(uuid, integer, text, text, uuid, numeric, text, boolean) FROM anon, authenticated, PUBLIC;
+
+CREATE OR REPLACE FUNCTION public.apply_inventory_movement(
+  _item_id uuid,
+  _quantity_change integer,
+  _reason text,
+  _reference_type text DEFAULT NULL,
+  _reference_id uuid DEFAULT NULL,
+  _unit_cost numeric DEFAULT NULL,
+  _notes text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tenant uuid;
+BEGIN
+  SELECT tenant_id INTO v_tenant FROM public.items WHERE id = _item_id;
+  IF NOT has_tenant_role(v_tenant, auth.uid(), ARRAY['owner','employee','developer']::app_role[]) THEN
+    RAISE EXCEPTION 'Not authorized to move stock for item %', _item_id;
+  END IF;
+  IF _reason IN ('sale', 'sale_reversal') THEN
+    RAISE EXCEPTION 'Sales move stock through sync_invoice_stock';
+  END IF;
+
+  RETURN public.record_inventory_movement(
+    _item_id, _quantity_change, _reason, _reference_type, _reference_id, _unit_cost, _notes, false
+  );
+END;
+$$;
+
+-- Brings quantity-item stock in line with an invoice: finalized invoices hold
+-- -quantity per line, drafts and released (deleted) invoices hold nothing.
+-- Only the difference from what was already moved is applied, so it is safe to
+-- call after every save. Sales may drive stock negative (backorders) rather than
+-- block an invoice that is already saved.
+CREATE OR REPLACE FUNCTION public.sync_invoice_stock(_invoice_id uuid, _release boolean DEFAULT false)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_inv public.invoices%ROWTYPE;
+  r record;
+BEGIN
+  SELECT * INTO v_inv FROM public.invoices WHERE id = _invoice_id;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF NOT has_tenant_role(v_inv.tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]) THEN
+    RAISE EXCEPTION 'Not authorized to move stock for invoice %', v_inv.invoice_number;
+  END IF;
+
+  FOR r IN
+    WITH desired AS (
+      SELECT i.id AS item_id,
+             -SUM(COALESCE(NULLIF(li->>'quantity', '')::integer, 1)) AS qty
+      FROM jsonb_array_elements(COALESCE(v_inv.items, '[]'::jsonb)) li
+      JOIN public.items i ON i.id::text = li->>'id' AND i.tenant_id = v_inv.tenant_id
+      WHERE i.tracking_mode = 'quantity'
+        AND v_inv.status = 'finalized'
+        AND NOT _release
+      GROUP BY i.id
+    ),
+    moved AS (
+      SELECT item_id, SUM(quantity_change) AS qty
+      FROM public.inventory_movements
+      WHERE reference_type = 'invoice' AND reference_id = _invoice_id
+      GROUP BY item_id
+    )
+    SELECT COALESCE(d.item_id, m.item_id) AS item_id,
+           COALESCE(d.qty, 0) - COALESCE(m.qty, 0) AS delta
+    FROM desired d
+    FULL JOIN moved m ON m.item_id = d.item_id
+  LOOP
+    IF r.delta <> 0 THEN
+      PERFORM public.record_inventory_movement(
+        r.item_id, r.delta::integer,
+        CASE WHEN r.delta < 0 THEN 'sale' ELSE 'sale_reversal' END,
+        'invoice', _invoice_id, NULL,
+        v_inv.invoice_number, true
+      );
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- ============================================================
+-- PO receipts can now add stock to quantity items, so the journal is valued
+-- from the extended cost of each receipt line rather than one unit per item.
+-- ============================================================
+
+DROP FUNCTION IF EXISTS public.post_po_receipt_journal(uuid, uuid[]);
+
+CREATE OR REPLACE FUNCTION public.post_po_receipt_journal(_po_id uuid, _item_ids uuid[], _costs numeric[] DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_po public.purchase_orders%ROWTYPE;
+  v_lines jsonb;
+  v_total numeric;
+BEGIN
+  SELECT * INTO v_po FROM public.purchase_orders WHERE id = _po_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order % not found', _po_id;
+  END IF;
+
+  IF NOT has_tenant_role(v_po.tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]) THEN
+    RAISE EXCEPTION 'Not authorized to post purchase order %', v_po.po_number;
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('account_id', asset_account, 'amount', cost)), '[]'::jsonb),
+         COALESCE(SUM(cost), 0)
+    INTO v_lines, v_total
+  FROM (
+    SELECT COALESCE(i.asset_account_id, public.system_account_id(v_po.tenant_id, 'inventory')) AS asset_account,
+           SUM(COALESCE(r.cost, i.cost, 0)) AS cost
+    FROM unnest(_item_ids, COALESCE(_costs, ARRAY[]::numeric[])) AS r(item_id, cost)
+    JOIN public.items i ON i.id = r.item_id AND i.tenant_id = v_po.tenant_id
+    WHERE r.item_id IS NOT NULL
+    GROUP BY 1
+  ) c;
+
+  IF v_total = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN public.create_journal_entry(
+    v_po.tenant_id, CURRENT_DATE, 'po_receipt', v_po.id,
+    'Received ' || v_po.po_number || ' - ' || v_po.vendor_name,
+    v_lines || jsonb_build_array(
+      jsonb_build_object('account_id', public.system_account_id(v_po.tenant_id, 'accounts_payable'), 'amount', -v_total)
+    )
+  );
+END;
+$$;
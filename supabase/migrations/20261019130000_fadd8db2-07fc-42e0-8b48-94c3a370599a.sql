@@ -0,0 +1,357 @@
+-- ============================================================
+-- Warehouses / stock locations
+-- A location is a yard, warehouse or vehicle. Items sit at a location and a
+-- bin (the existing shelf_location). Quantity items are one row per part
+-- number per location.
+-- ============================================================
+
+CREATE TABLE public.warehouses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES public.tenants(id) ON DELETE RESTRICT,
+  name text NOT NULL,
+  code text NOT NULL,
+  kind text NOT NULL DEFAULT 'warehouse'
+    CHECK (kind IN ('warehouse', 'yard', 'vehicle')),
+  address text,
+  is_default boolean NOT NULL DEFAULT false,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (tenant_id, code)
+);
+
+CREATE INDEX idx_warehouses_tenant ON public.warehouses(tenant_id);
+-- At most one default location per tenant
+CREATE UNIQUE INDEX idx_warehouses_default ON public.warehouses(tenant_id) WHERE is_default;
+
+ALTER TABLE public.warehouses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant members can view warehouses" ON public.warehouses
+  FOR SELECT TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+CREATE POLICY "Tenant owners can insert warehouses" ON public.warehouses
+  FOR INSERT TO authenticated WITH CHECK (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','developer']::app_role[]));
+CREATE POLICY "Tenant owners can update warehouses" ON public.warehouses
+  FOR UPDATE TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','developer']::app_role[]));
+CREATE POLICY "Tenant owners can delete warehouses" ON public.warehouses
+  FOR DELETE TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner']::app_role[]));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.warehouses TO authenticated;
+GRANT ALL ON public.warehouses TO service_role;
+
+CREATE TRIGGER update_warehouses_updated_at
+BEFORE UPDATE ON public.warehouses
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================================
+-- Stock transfers
+-- draft -> in_transit (ship) -> received, or cancelled from draft/in_transit.
+-- Lines point at the source item; received_item_id is the destination row for
+-- quantity items (serialized units keep their id and just change location).
+-- ============================================================
+
+CREATE TABLE public.stock_transfers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES public.tenants(id) ON DELETE RESTRICT,
+  transfer_number text NOT NULL,
+  from_warehouse_id uuid NOT NULL REFERENCES public.warehouses(id) ON DELETE RESTRICT,
+  to_warehouse_id uuid NOT NULL REFERENCES public.warehouses(id) ON DELETE RESTRICT,
+  status text NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'in_transit', 'received', 'cancelled')),
+  notes text,
+  created_by uuid DEFAULT auth.uid(),
+  shipped_at timestamptz,
+  shipped_by uuid,
+  received_at timestamptz,
+  received_by uuid,
+  cancelled_at timestamptz,
+  cancelled_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (from_warehouse_id <> to_warehouse_id)
+);
+
+CREATE INDEX idx_stock_transfers_tenant ON public.stock_transfers(tenant_id);
+CREATE INDEX idx_stock_transfers_status ON public.stock_transfers(tenant_id, status);
+
+CREATE TABLE public.stock_transfer_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES public.tenants(id) ON DELETE RESTRICT,
+  transfer_id uuid NOT NULL REFERENCES public.stock_transfers(id) ON DELETE CASCADE,
+  item_id uuid NOT NULL REFERENCES public.items(id) ON DELETE RESTRICT,
+  quantity integer NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  to_bin text,
+  unit_cost numeric(10,2),
+  received_item_id uuid REFERENCES public.items(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_stock_transfer_lines_tenant ON public.stock_transfer_lines(tenant_id);
+CREATE INDEX idx_stock_transfer_lines_transfer ON public.stock_transfer_lines(transfer_id);
+
+ALTER TABLE public.stock_transfers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_transfer_lines ENABLE ROW LEVEL SECURITY;
+
+-- Status changes go through ship/receive/cancel_stock_transfer; direct updates
+-- are for draft notes and lines.
+CREATE POLICY "Tenant members can view stock transfers" ON public.stock_transfers
+  FOR SELECT TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+CREATE POLICY "Tenant members can insert stock transfers" ON public.stock_transfers
+  FOR INSERT TO authenticated WITH CHECK (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]) AND status = 'draft');
+CREATE POLICY "Tenant members can update draft stock transfers" ON public.stock_transfers
+  FOR UPDATE TO authenticated
+  USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]) AND status = 'draft')
+  WITH CHECK (status = 'draft');
+CREATE POLICY "Tenant owners can delete draft stock transfers" ON public.stock_transfers
+  FOR DELETE TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner']::app_role[]) AND status = 'draft');
+
+CREATE POLICY "Tenant members can view stock transfer lines" ON public.stock_transfer_lines
+  FOR SELECT TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+CREATE POLICY "Tenant members can insert stock transfer lines" ON public.stock_transfer_lines
+  FOR INSERT TO authenticated WITH CHECK (
+    has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[])
+    AND EXISTS (SELECT 1 FROM public.stock_transfers t WHERE t.id = transfer_id AND t.status = 'draft')
+  );
+CREATE POLICY "Tenant members can update stock transfer lines" ON public.stock_transfer_lines
+  FOR UPDATE TO authenticated USING (
+    has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[])
+    AND EXISTS (SELECT 1 FROM public.stock_transfers t WHERE t.id = transfer_id AND t.status = 'draft')
+  );
+CREATE POLICY "Tenant members can delete stock transfer lines" ON public.stock_transfer_lines
+  FOR DELETE TO authenticated USING (
+    has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[])
+    AND EXISTS (SELECT 1 FROM public.stock_transfers t WHERE t.id = transfer_id AND t.status = 'draft')
+  );
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.stock_transfers TO authenticated;
+GRANT ALL ON public.stock_transfers TO service_role;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.stock_transfer_lines TO authenticated;
+GRANT ALL ON public.stock_transfer_lines TO service_role;
+
+CREATE TRIGGER update_stock_transfers_updated_at
+BEFORE UPDATE ON public.stock_transfers
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================================
+-- Item location. in_transit_transfer_id marks a serialized unit that has left
+-- its source location and not yet been received; it cannot be sold meanwhile.
+-- ============================================================
+
+ALTER TABLE public.items
+  ADD COLUMN IF NOT EXISTS warehouse_id uuid REFERENCES public.warehouses(id) ON DELETE RESTRICT,
+  ADD COLUMN IF NOT EXISTS in_transit_transfer_id uuid REFERENCES public.stock_transfers(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_items_warehouse ON public.items(warehouse_id);
+
+ALTER TABLE public.inventory_movements DROP CONSTRAINT IF EXISTS inventory_movements_reason_check;
+ALTER TABLE public.inventory_movements ADD CONSTRAINT inventory_movements_reason_check
+  CHECK (reason IN ('initial', 'receipt', 'sale', 'sale_reversal', 'adjustment', 'transfer_out', 'transfer_in'));
+
+CREATE OR REPLACE FUNCTION public.apply_inventory_movement(
+  _item_id uuid,
+  _quantity_change integer,
+  _reason text,
+  _reference_type text DEFAULT NULL,
+  _reference_id uuid DEFAULT NULL,
+  _unit_cost numeric DEFAULT NULL,
+  _notes text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tenant uuid;
+BEGIN
+  SELECT tenant_id INTO v_tenant FROM public.items WHERE id = _item_id;
+  IF NOT has_tenant_role(v_tenant, auth.uid(), ARRAY['owner','employee','developer']::app_role[]) THEN
+    RAISE EXCEPTION 'Not authorized to move stock for item %', _item_id;
+  END IF;
+  IF _reason IN ('sale', 'sale_reversal') THEN
+    RAISE EXCEPTION 'Sales move stock through sync_invoice_stock';
+  END IF;
+  IF _reason IN ('transfer_out', 'transfer_in') THEN
+    RAISE EXCEPTION 'Transfers move stock through ship_stock_transfer / receive_stock_transfer';
+  END IF;
+
+  RETURN public.record_inventory_movement(
+    _item_id, _quantity_change, _reason, _reference_type, _reference_id, _unit_cost, _notes, false
+  );
+END;
+$$;
+
+-- Takes stock out of the source location. Serialized units are flagged in
+-- transit; quantity items drop their on-hand count and the line remembers the
+-- cost so the destination row is valued the same.
+CREATE OR REPLACE FUNCTION public.ship_stock_transfer(_transfer_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transfer public.stock_transfers%ROWTYPE;
+  v_line public.stock_transfer_lines%ROWTYPE;
+  v_item public.items%ROWTYPE;
+BEGIN
+  SELECT * INTO v_transfer FROM public.stock_transfers WHERE id = _transfer_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer % not found', _transfer_id;
+  END IF;
+  IF NOT has_tenant_role(v_transfer.tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]) THEN
+    RAISE EXCEPTION 'Not authorized to ship transfer %', v_transfer.transfer_number;
+  END IF;
+  IF v_transfer.status <> 'draft' THEN
+    RAISE EXCEPTION 'Transfer % is already %', v_transfer.transfer_number, v_transfer.status;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM public.stock_transfer_lines WHERE transfer_id = _transfer_id) THEN
+    RAISE EXCEPTION 'Transfer % has no lines', v_transfer.transfer_number;
+  END IF;
+
+  FOR v_line IN SELECT * FROM public.stock_transfer_lines WHERE transfer_id = _transfer_id LOOP
+    SELECT * INTO v_item FROM public.items WHERE id = v_line.item_id FOR UPDATE;
+    IF v_item.tenant_id <> v_transfer.tenant_id THEN
+      RAISE EXCEPTION 'Item % not found', v_line.item_id;
+    END IF;
+    IF v_item.warehouse_id IS DISTINCT FROM v_transfer.from_warehouse_id THEN
+      RAISE EXCEPTION '% is not at the source location', v_item.part_number;
+    END IF;
+
+    IF v_item.tracking_mode = 'quantity' THEN
+      PERFORM public.record_inventory_movement(
+        v_item.id, -v_line.quantity, 'transfer_out', 'stock_transfer', _transfer_id, NULL,
+        v_transfer.transfer_number, false
+      );
+      UPDATE public.stock_transfer_lines SET unit_cost = v_item.cost WHERE id = v_line.id;
+    ELSE
+      IF v_line.quantity <> 1 THEN
+        RAISE EXCEPTION 'Serialized item % moves one unit per line', v_item.part_number;
+      END IF;
+      IF v_item.status <> 'available' OR v_item.in_transit_transfer_id IS NOT NULL THEN
+        RAISE EXCEPTION '% (%) is not available to transfer', v_item.part_number, COALESCE(v_item.serial_number, 'no serial');
+      END IF;
+      UPDATE public.items SET in_transit_transfer_id = _transfer_id WHERE id = v_item.id;
+      UPDATE public.stock_transfer_lines SET unit_cost = v_item.cost WHERE id = v_line.id;
+    END IF;
+  END LOOP;
+
+  UPDATE public.stock_transfers
+  SET status = 'in_transit', shipped_at = now(), shipped_by = auth.uid()
+  WHERE id = _transfer_id;
+END;
+$$;
+
+-- Puts shipped stock at the destination. Quantity lines add to the part's row
+-- at that location, creating it from the source row if needed.
+CREATE OR REPLACE FUNCTION public.receive_stock_transfer(_transfer_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transfer public.stock_transfers%ROWTYPE;
+  v_line public.stock_transfer_lines%ROWTYPE;
+  v_item public.items%ROWTYPE;
+  v_dest_id uuid;
+BEGIN
+  SELECT * INTO v_transfer FROM public.stock_transfers WHERE id = _transfer_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer % not found', _transfer_id;
+  END IF;
+  IF NOT has_tenant_role(v_transfer.tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]) THEN
+    RAISE EXCEPTION 'Not authorized to receive transfer %', v_transfer.transfer_number;
+  END IF;
+  IF v_transfer.status <> 'in_transit' THEN
+    RAISE EXCEPTION 'Transfer % is %, not in transit', v_transfer.transfer_number, v_transfer.status;
+  END IF;
+
+  FOR v_line IN SELECT * FROM public.stock_transfer_lines WHERE transfer_id = _transfer_id LOOP
+    SELECT * INTO v_item FROM public.items WHERE id = v_line.item_id;
+
+    IF v_item.tracking_mode = 'quantity' THEN
+      SELECT id INTO v_dest_id
+      FROM public.items
+      WHERE tenant_id = v_transfer.tenant_id
+        AND tracking_mode = 'quantity'
+        AND part_number = v_item.part_number
+        AND warehouse_id = v_transfer.to_warehouse_id
+      ORDER BY created_at
+      LIMIT 1;
+
+      IF v_dest_id IS NULL THEN
+        INSERT INTO public.items (
+          tenant_id, part_number, description, status, sale_price, cost, weight, volume,
+          warranty_months, min_reorder_level, max_reorder_level, shelf_location,
+          tracking_mode, quantity_on_hand, warehouse_id
+        ) VALUES (
+          v_item.tenant_id, v_item.part_number, v_item.description, 'sold', v_item.sale_price, v_line.unit_cost,
+          v_item.weight, v_item.volume, v_item.warranty_months, v_item.min_reorder_level, v_item.max_reorder_level,
+          v_line.to_bin, 'quantity', 0, v_transfer.to_warehouse_id
+        )
+        RETURNING id INTO v_dest_id;
+      END IF;
+
+      PERFORM public.record_inventory_movement(
+        v_dest_id, v_line.quantity, 'transfer_in', 'stock_transfer', _transfer_id, v_line.unit_cost,
+        v_transfer.transfer_number, false
+      );
+      UPDATE public.stock_transfer_lines SET received_item_id = v_dest_id WHERE id = v_line.id;
+    ELSE
+      UPDATE public.items
+      SET warehouse_id = v_transfer.to_warehouse_id,
+          shelf_location = COALESCE(NULLIF(v_line.to_bin, ''), shelf_location),
+          in_transit_transfer_id = NULL
+      WHERE id = v_item.id;
+      UPDATE public.stock_transfer_lines SET received_item_id = v_item.id WHERE id = v_line.id;
+    END IF;
+  END LOOP;
+
+  UPDATE public.stock_transfers
+  SET status = 'received', received_at = now(), received_by = auth.uid()
+  WHERE id = _transfer_id;
+END;
+$$;
+
+-- Drafts are simply closed; in-transit stock goes back to the source location.
+CREATE OR REPLACE FUNCTION public.cancel_stock_transfer(_transfer_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transfer public.stock_transfers%ROWTYPE;
+  v_line public.stock_transfer_lines%ROWTYPE;
+  v_item public.items%ROWTYPE;
+BEGIN
+  SELECT * INTO v_transfer FROM public.stock_transfers WHERE id = _transfer_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transfer % not found', _transfer_id;
+  END IF;
+  IF NOT has_tenant_role(v_transfer.tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]) THEN
+    RAISE EXCEPTION 'Not authorized to cancel transfer %', v_transfer.transfer_number;
+  END IF;
+  IF v_transfer.status NOT IN ('draft', 'in_transit') THEN
+    RAISE EXCEPTION 'Transfer % is already %', v_transfer.transfer_number, v_transfer.status;
+  END IF;
+
+  IF v_transfer.status = 'in_transit' THEN
+    FOR v_line IN SELECT * FROM public.stock_transfer_lines WHERE transfer_id = _transfer_id LOOP
+      SELECT * INTO v_item FROM public.items WHERE id = v_line.item_id;
+      IF v_item.tracking_mode = 'quantity' THEN
+        PERFORM public.record_inventory_movement(
+          v_item.id, v_line.quantity, 'transfer_in', 'stock_transfer', _transfer_id, NULL,
+          v_transfer.transfer_number || ' cancelled', false
+        );
+      ELSE
+        UPDATE public.items SET in_transit_transfer_id = NULL WHERE id = v_item.id;
+      END IF;
+    END LOOP;
+  END IF;
+
+  UPDATE public.stock_transfers
+  SET status = 'cancelled', cancelled_at = now(), cancelled_by = auth.uid()
+  WHERE id = _transfer_id;
+END;
+$$;
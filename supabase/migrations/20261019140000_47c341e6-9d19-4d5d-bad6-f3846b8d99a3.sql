@@ -0,0 +1,35 @@
+-- ============================================================
+-- Preferred vendor per part number
+-- Drives reorder suggestions: draft POs are grouped by this vendor. Parts
+-- without a row fall back to the vendor on their most recent PO.
+-- ============================================================
+
+CREATE TABLE public.part_vendors (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES public.tenants(id) ON DELETE RESTRICT,
+  part_number text NOT NULL,
+  vendor_id uuid NOT NULL REFERENCES public.vendors(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (tenant_id, part_number)
+);
+
+CREATE INDEX idx_part_vendors_tenant ON public.part_vendors(tenant_id);
+
+ALTER TABLE public.part_vendors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant members can view part vendors" ON public.part_vendors
+  FOR SELECT TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+CREATE POLICY "Tenant members can insert part vendors" ON public.part_vendors
+  FOR INSERT TO authenticated WITH CHECK (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+CREATE POLICY "Tenant members can update part vendors" ON public.part_vendors
+  FOR UPDATE TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+CREATE POLICY "Tenant owners can delete part vendors" ON public.part_vendors
+  FOR DELETE TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner']::app_role[]));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.part_vendors TO authenticated;
+GRANT ALL ON public.part_vendors TO service_role;
+
+CREATE TRIGGER update_part_vendors_updated_at
+BEFORE UPDATE ON public.part_vendors
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,368 @@
+-- ============================================================
+-- Cycle counts and stock adjustments
+-- A count session snapshots expected stock for a location / bin / part range.
+-- Counters fill in counted quantities (offline-capable on the client), the
+-- variances become a draft adjustment document, and approving it moves stock
+-- and posts the value change against inventory.
+-- ============================================================
+
+-- Missing serialized units are written off rather than deleted so transfers,
+-- POs and adjustments that reference them keep their history.
+ALTER TABLE public.items DROP CONSTRAINT IF EXISTS items_status_check;
+ALTER TABLE public.items ADD CONSTRAINT items_status_check
+  CHECK (status IN ('available', 'sold', 'written_off'));
+
+CREATE OR REPLACE FUNCTION public.ensure_system_accounts(_tenant_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  d record;
+BEGIN
+  FOR d IN
+    SELECT * FROM (VALUES
+      ('cash',                '1000', 'Cash',                        'asset'),
+      ('accounts_receivable', '1100', 'Accounts Receivable',         'asset'),
+      ('inventory',           '1200', 'Inventory',                   'asset'),
+      ('accounts_payable',    '2000', 'Accounts Payable',            'liability'),
+      ('credit_card_payable', '2050', 'Credit Card Payable',         'liability'),
+      ('sales_tax_payable',   '2100', 'Sales Tax Payable',           'liability'),
+      ('sales_revenue',       '4000', 'Sales Revenue',               'revenue'),
+      ('shipping_revenue',    '4100', 'Shipping Revenue',            'revenue'),
+      ('sales_discounts',     '4900', 'Sales Discounts',             'revenue'),
+      ('cogs',                '5000', 'Cost of Goods Sold',          'expense'),
+      ('inventory_adjustments','5100', 'Inventory Shrinkage & Adjustments', 'expense'),
+      ('expense_utilities',   '6100', 'Utilities',                   'expense'),
+      ('expense_factory',     '6200', 'Factory & Shop Supplies',     'expense'),
+      ('expense_shipping',    '6300', 'Shipping & Freight',          'expense'),
+      ('expense_labor',       '6400', 'Labor',                       'expense'),
+      ('expense_vehicle',     '6500', 'Vehicle & Travel',            'expense'),
+      ('expense_general',     '6900', 'General & Administrative',    'expense')
+    ) AS v(system_key, account_number, account_name, account_type)
+  LOOP
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM public.accounts WHERE tenant_id = _tenant_id AND system_key = d.system_key
+    );
+
+    -- Adopt an account the owner already created with the same number
+    UPDATE public.accounts
+    SET system_key = d.system_key
+    WHERE tenant_id = _tenant_id AND account_number = d.account_number AND system_key IS NULL;
+
+    IF NOT FOUND THEN
+      INSERT INTO public.accounts (tenant_id, account_number, account_name, account_type, system_key, is_active)
+      VALUES (_tenant_id, d.account_number, d.account_name, d.account_type::account_type, d.system_key, true);
+    END IF;
+  END LOOP;
+END;
+$$;
+
+CREATE TABLE public.cycle_counts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES public.tenants(id) ON DELETE RESTRICT,
+  count_number text NOT NULL,
+  warehouse_id uuid REFERENCES public.warehouses(id) ON DELETE RESTRICT,
+  shelf_prefix text,
+  part_from text,
+  part_to text,
+  status text NOT NULL DEFAULT 'counting'
+    CHECK (status IN ('counting', 'review', 'posted', 'cancelled')),
+  notes text,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  submitted_at timestamptz,
+  submitted_by uuid,
+  posted_at timestamptz
+);
+
+CREATE INDEX idx_cycle_counts_tenant ON public.cycle_counts(tenant_id);
+
+-- One line per expected item (serialized unit or quantity row), plus lines for
+-- stock found on the shelf that wasn't expected (item_id NULL, expected 0).
+CREATE TABLE public.cycle_count_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES public.tenants(id) ON DELETE RESTRICT,
+  cycle_count_id uuid NOT NULL REFERENCES public.cycle_counts(id) ON DELETE CASCADE,
+  item_id uuid REFERENCES public.items(id) ON DELETE SET NULL,
+  part_number text NOT NULL,
+  serial_number text,
+  description text,
+  shelf_location text,
+  expected_quantity integer NOT NULL DEFAULT 0 CHECK (expected_quantity >= 0),
+  counted_quantity integer CHECK (counted_quantity >= 0),
+  unit_cost numeric(10,2),
+  counted_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_cycle_count_lines_tenant ON public.cycle_count_lines(tenant_id);
+CREATE INDEX idx_cycle_count_lines_count ON public.cycle_count_lines(cycle_count_id);
+
+ALTER TABLE public.cycle_counts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cycle_count_lines ENABLE ROW LEVEL SECURITY;
+
+-- 'posted' is only set by approve_stock_adjustment
+CREATE POLICY "Tenant members can view cycle counts" ON public.cycle_counts
+  FOR SELECT TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+CREATE POLICY "Tenant members can insert cycle counts" ON public.cycle_counts
+  FOR INSERT TO authenticated WITH CHECK (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]) AND status = 'counting');
+CREATE POLICY "Tenant members can update open cycle counts" ON public.cycle_counts
+  FOR UPDATE TO authenticated
+  USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]) AND status IN ('counting', 'review'))
+  WITH CHECK (status IN ('counting', 'review', 'cancelled'));
+CREATE POLICY "Tenant owners can delete cycle counts" ON public.cycle_counts
+  FOR DELETE TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner']::app_role[]) AND status <> 'posted');
+
+CREATE POLICY "Tenant members can view cycle count lines" ON public.cycle_count_lines
+  FOR SELECT TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+CREATE POLICY "Tenant members can insert cycle count lines" ON public.cycle_count_lines
+  FOR INSERT TO authenticated WITH CHECK (
+    has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[])
+    AND EXISTS (SELECT 1 FROM public.cycle_counts c WHERE c.id = cycle_count_id AND c.status = 'counting')
+  );
+CREATE POLICY "Tenant members can update cycle count lines" ON public.cycle_count_lines
+  FOR UPDATE TO authenticated USING (
+    has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[])
+    AND EXISTS (SELECT 1 FROM public.cycle_counts c WHERE c.id = cycle_count_id AND c.status = 'counting')
+  );
+CREATE POLICY "Tenant members can delete cycle count lines" ON public.cycle_count_lines
+  FOR DELETE TO authenticated USING (
+    has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[])
+    AND EXISTS (SELECT 1 FROM public.cycle_counts c WHERE c.id = cycle_count_id AND c.status = 'counting')
+  );
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.cycle_counts TO authenticated;
+GRANT ALL ON public.cycle_counts TO service_role;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.cycle_count_lines TO authenticated;
+GRANT ALL ON public.cycle_count_lines TO service_role;
+
+CREATE TRIGGER update_cycle_counts_updated_at
+BEFORE UPDATE ON public.cycle_counts
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================================
+-- Stock adjustment documents
+-- Lines with item_id adjust that row; lines without one are found stock and
+-- create (or, for a written-off serial, restore) an item on approval.
+-- ============================================================
+
+CREATE TABLE public.stock_adjustments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES public.tenants(id) ON DELETE RESTRICT,
+  adjustment_number text NOT NULL,
+  cycle_count_id uuid REFERENCES public.cycle_counts(id) ON DELETE SET NULL,
+  warehouse_id uuid REFERENCES public.warehouses(id) ON DELETE RESTRICT,
+  status text NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'approved')),
+  notes text,
+  total_value numeric(12,2),
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  approved_at timestamptz,
+  approved_by uuid
+);
+
+CREATE INDEX idx_stock_adjustments_tenant ON public.stock_adjustments(tenant_id);
+
+CREATE TABLE public.stock_adjustment_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES public.tenants(id) ON DELETE RESTRICT,
+  adjustment_id uuid NOT NULL REFERENCES public.stock_adjustments(id) ON DELETE CASCADE,
+  item_id uuid REFERENCES public.items(id) ON DELETE SET NULL,
+  part_number text NOT NULL,
+  serial_number text,
+  description text,
+  quantity_change integer NOT NULL CHECK (quantity_change <> 0),
+  unit_cost numeric(10,2),
+  reason text NOT NULL DEFAULT 'count_variance'
+    CHECK (reason IN ('count_variance', 'damaged', 'lost', 'found', 'other')),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_stock_adjustment_lines_tenant ON public.stock_adjustment_lines(tenant_id);
+CREATE INDEX idx_stock_adjustment_lines_adjustment ON public.stock_adjustment_lines(adjustment_id);
+
+ALTER TABLE public.stock_adjustments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_adjustment_lines ENABLE ROW LEVEL SECURITY;
+
+-- Approval goes through approve_stock_adjustment; direct edits are drafts only
+CREATE POLICY "Tenant members can view stock adjustments" ON public.stock_adjustments
+  FOR SELECT TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+CREATE POLICY "Tenant members can insert stock adjustments" ON public.stock_adjustments
+  FOR INSERT TO authenticated WITH CHECK (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]) AND status = 'draft');
+CREATE POLICY "Tenant members can update draft stock adjustments" ON public.stock_adjustments
+  FOR UPDATE TO authenticated
+  USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]) AND status = 'draft')
+  WITH CHECK (status = 'draft');
+CREATE POLICY "Tenant owners can delete draft stock adjustments" ON public.stock_adjustments
+  FOR DELETE TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner']::app_role[]) AND status = 'draft');
+
+CREATE POLICY "Tenant members can view stock adjustment lines" ON public.stock_adjustment_lines
+  FOR SELECT TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+CREATE POLICY "Tenant members can insert stock adjustment lines" ON public.stock_adjustment_lines
+  FOR INSERT TO authenticated WITH CHECK (
+    has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[])
+    AND EXISTS (SELECT 1 FROM public.stock_adjustments a WHERE a.id = adjustment_id AND a.status = 'draft')
+  );
+CREATE POLICY "Tenant members can update stock adjustment lines" ON public.stock_adjustment_lines
+  FOR UPDATE TO authenticated USING (
+    has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[])
+    AND EXISTS (SELECT 1 FROM public.stock_adjustments a WHERE a.id = adjustment_id AND a.status = 'draft')
+  );
+CREATE POLICY "Tenant members can delete stock adjustment lines" ON public.stock_adjustment_lines
+  FOR DELETE TO authenticated USING (
+    has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[])
+    AND EXISTS (SELECT 1 FROM public.stock_adjustments a WHERE a.id = adjustment_id AND a.status = 'draft')
+  );
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.stock_adjustments TO authenticated;
+GRANT ALL ON public.stock_adjustments TO service_role;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.stock_adjustment_lines TO authenticated;
+GRANT ALL ON public.stock_adjustment_lines TO service_role;
+
+CREATE TRIGGER update_stock_adjustments_updated_at
+BEFORE UPDATE ON public.stock_adjustments
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Owners approve. Lines apply as deltas, so sales made while a count was in
+-- progress are not undone. Journal: Dr/Cr inventory (each item's asset account)
+-- against inventory shrinkage & adjustments.
+CREATE OR REPLACE FUNCTION public.approve_stock_adjustment(_adjustment_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_adj public.stock_adjustments%ROWTYPE;
+  v_line public.stock_adjustment_lines%ROWTYPE;
+  v_item public.items%ROWTYPE;
+  v_created boolean;
+  v_cost numeric;
+  v_lines jsonb := '[]'::jsonb;
+  v_total numeric := 0;
+  v_entry_id uuid;
+BEGIN
+  SELECT * INTO v_adj FROM public.stock_adjustments WHERE id = _adjustment_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Adjustment % not found', _adjustment_id;
+  END IF;
+  IF NOT has_tenant_role(v_adj.tenant_id, auth.uid(), ARRAY['owner','developer']::app_role[]) THEN
+    RAISE EXCEPTION 'Only owners can approve stock adjustment %', v_adj.adjustment_number;
+  END IF;
+  IF v_adj.status <> 'draft' THEN
+    RAISE EXCEPTION 'Adjustment % is already %', v_adj.adjustment_number, v_adj.status;
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM public.stock_adjustment_lines WHERE adjustment_id = _adjustment_id ORDER BY created_at
+  LOOP
+    v_created := false;
+    v_item := NULL;
+
+    IF v_line.item_id IS NOT NULL THEN
+      SELECT * INTO v_item FROM public.items
+      WHERE id = v_line.item_id AND tenant_id = v_adj.tenant_id FOR UPDATE;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Item for % no longer exists', v_line.part_number;
+      END IF;
+    ELSIF v_line.quantity_change < 0 THEN
+      RAISE EXCEPTION 'Line for % removes stock but names no item', v_line.part_number;
+    ELSIF NULLIF(v_line.serial_number, '') IS NOT NULL THEN
+      IF EXISTS (
+        SELECT 1 FROM public.items
+        WHERE tenant_id = v_adj.tenant_id AND serial_number = v_line.serial_number
+          AND part_number = v_line.part_number AND status = 'available'
+      ) THEN
+        RAISE EXCEPTION 'Serial % is already in stock elsewhere; transfer it instead', v_line.serial_number;
+      END IF;
+
+      -- A found serial: bring back a written-off unit, else add a new one
+      SELECT * INTO v_item FROM public.items
+      WHERE tenant_id = v_adj.tenant_id AND serial_number = v_line.serial_number
+        AND part_number = v_line.part_number AND status = 'written_off'
+      LIMIT 1 FOR UPDATE;
+
+      IF NOT FOUND THEN
+        INSERT INTO public.items (
+          tenant_id, part_number, description, serial_number, status, cost, tracking_mode, warehouse_id
+        ) VALUES (
+          v_adj.tenant_id, v_line.part_number, COALESCE(v_line.description, v_line.part_number),
+          v_line.serial_number, 'available', v_line.unit_cost, 'serialized', v_adj.warehouse_id
+        )
+        RETURNING * INTO v_item;
+        v_created := true;
+      END IF;
+    ELSE
+      -- Found bulk stock goes onto the part's row at this location
+      SELECT * INTO v_item FROM public.items
+      WHERE tenant_id = v_adj.tenant_id AND tracking_mode = 'quantity'
+        AND part_number = v_line.part_number
+        AND warehouse_id IS NOT DISTINCT FROM v_adj.warehouse_id
+      ORDER BY created_at
+      LIMIT 1 FOR UPDATE;
+
+      IF NOT FOUND THEN
+        INSERT INTO public.items (
+          tenant_id, part_number, description, status, cost, tracking_mode, quantity_on_hand, warehouse_id
+        ) VALUES (
+          v_adj.tenant_id, v_line.part_number, COALESCE(v_line.description, v_line.part_number),
+          'sold', v_line.unit_cost, 'quantity', 0, v_adj.warehouse_id
+        )
+        RETURNING * INTO v_item;
+      END IF;
+    END IF;
+
+    v_cost := COALESCE(v_line.unit_cost, v_item.cost, 0);
+
+    IF v_item.tracking_mode = 'quantity' THEN
+      PERFORM public.record_inventory_movement(
+        v_item.id, v_line.quantity_change, 'adjustment', 'stock_adjustment', _adjustment_id,
+        CASE WHEN v_line.quantity_change > 0 THEN v_cost END,
+        v_adj.adjustment_number || ' (' || v_line.reason || ')', false
+      );
+    ELSIF NOT v_created THEN
+      IF v_line.quantity_change = -1 AND v_item.status = 'available' AND v_item.in_transit_transfer_id IS NULL THEN
+        UPDATE public.items SET status = 'written_off' WHERE id = v_item.id;
+      ELSIF v_line.quantity_change = 1 AND v_item.status = 'written_off' THEN
+        UPDATE public.items
+        SET status = 'available', warehouse_id = COALESCE(v_adj.warehouse_id, warehouse_id)
+        WHERE id = v_item.id;
+      ELSE
+        RAISE EXCEPTION 'Cannot adjust serial % (%) by %', v_item.serial_number, v_item.status, v_line.quantity_change;
+      END IF;
+    END IF;
+
+    UPDATE public.stock_adjustment_lines SET item_id = v_item.id, unit_cost = v_cost WHERE id = v_line.id;
+
+    v_lines := v_lines || jsonb_build_array(jsonb_build_object(
+      'account_id', COALESCE(v_item.asset_account_id, public.system_account_id(v_adj.tenant_id, 'inventory')),
+      'amount', v_line.quantity_change * v_cost,
+      'description', v_line.part_number || COALESCE(' ' || v_line.serial_number, '') || ' - ' || v_line.reason
+    ));
+    v_total := v_total + ROUND(v_line.quantity_change * v_cost, 2);
+  END LOOP;
+
+  v_entry_id := public.create_journal_entry(
+    v_adj.tenant_id, CURRENT_DATE, 'stock_adjustment', v_adj.id,
+    'Stock adjustment ' || v_adj.adjustment_number,
+    v_lines || jsonb_build_array(jsonb_build_object(
+      'account_id', public.system_account_id(v_adj.tenant_id, 'inventory_adjustments'), 'amount', -v_total
+    ))
+  );
+
+  UPDATE public.stock_adjustments
+  SET status = 'approved', approved_at = now(), approved_by = auth.uid(), total_value = v_total
+  WHERE id = _adjustment_id;
+
+  IF v_adj.cycle_count_id IS NOT NULL THEN
+    UPDATE public.cycle_counts SET status = 'posted', posted_at = now() WHERE id = v_adj.cycle_count_id;
+  END IF;
+
+  RETURN v_entry_id;
+END;
+$$;
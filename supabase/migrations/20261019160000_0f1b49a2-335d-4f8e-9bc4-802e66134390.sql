@@ -0,0 +1,115 @@
+-- ============================================================
+-- Quote revisions
+-- Every save of a non-draft quote whose content changed records an immutable
+-- snapshot (rev 1 = A, 2 = B, ...). quotes.revision is the latest one, so
+-- prints and previews can show it without loading the history. Status-only
+-- changes (approve, reject, expire) don't create a revision.
+-- ============================================================
+
+ALTER TABLE public.quotes
+  ADD COLUMN IF NOT EXISTS revision integer NOT NULL DEFAULT 0;
+
+CREATE TABLE public.quote_revisions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES public.tenants(id) ON DELETE RESTRICT,
+  quote_id uuid NOT NULL REFERENCES public.quotes(id) ON DELETE CASCADE,
+  revision integer NOT NULL CHECK (revision > 0),
+  snapshot jsonb NOT NULL,
+  created_by uuid DEFAULT auth.uid(),
+  created_by_name text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (quote_id, revision)
+);
+
+CREATE INDEX idx_quote_revisions_tenant ON public.quote_revisions(tenant_id);
+CREATE INDEX idx_quote_revisions_quote ON public.quote_revisions(quote_id, revision);
+
+ALTER TABLE public.quote_revisions ENABLE ROW LEVEL SECURITY;
+
+-- Read-only to users: rows are written by the trigger below and never changed
+CREATE POLICY "Tenant members can view quote revisions" ON public.quote_revisions
+  FOR SELECT TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+
+GRANT SELECT ON public.quote_revisions TO authenticated;
+GRANT ALL ON public.quote_revisions TO service_role;
+
+-- The customer-facing content of a quote, in the quotes column names
+CREATE OR REPLACE FUNCTION public.quote_revision_snapshot(_quote public.quotes)
+RETURNS jsonb
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'quote_number', _quote.quote_number,
+    'customer_name', _quote.customer_name,
+    'customer_email', _quote.customer_email,
+    'customer_phone', _quote.customer_phone,
+    'customer_address', _quote.customer_address,
+    'ship_to_name', _quote.ship_to_name,
+    'ship_to_address', _quote.ship_to_address,
+    'salesman_name', _quote.salesman_name,
+    'items', _quote.items,
+    'subtotal', _quote.subtotal,
+    'discount', COALESCE(_quote.discount, 0),
+    'shipping', COALESCE(_quote.shipping, 0),
+    'tax', COALESCE(_quote.tax, 0),
+    'tax_details', _quote.tax_details,
+    'tax_exempt_certificate', _quote.tax_exempt_certificate,
+    'notes', _quote.notes,
+    'total', _quote.total,
+    'expires_at', _quote.expires_at
+  );
+$$;
+
+-- Existing sent quotes start at rev A
+INSERT INTO public.quote_revisions (tenant_id, quote_id, revision, snapshot, created_by, created_at)
+SELECT q.tenant_id, q.id, 1, public.quote_revision_snapshot(q), q.created_by, COALESCE(q.created_at, now())
+FROM public.quotes q
+WHERE q.status <> 'draft';
+
+UPDATE public.quotes SET revision = 1 WHERE status <> 'draft';
+
+CREATE OR REPLACE FUNCTION public.record_quote_revision()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_snapshot jsonb;
+  v_latest public.quote_revisions%ROWTYPE;
+  v_revision integer;
+BEGIN
+  -- Skip drafts, and the revision bump below re-firing this trigger
+  IF NEW.status = 'draft' OR pg_trigger_depth() > 1 THEN
+    RETURN NULL;
+  END IF;
+
+  v_snapshot := public.quote_revision_snapshot(NEW);
+
+  SELECT * INTO v_latest FROM public.quote_revisions
+  WHERE quote_id = NEW.id
+  ORDER BY revision DESC
+  LIMIT 1;
+
+  IF FOUND AND v_latest.snapshot = v_snapshot THEN
+    RETURN NULL;
+  END IF;
+
+  v_revision := COALESCE(v_latest.revision, 0) + 1;
+
+  INSERT INTO public.quote_revisions (tenant_id, quote_id, revision, snapshot, created_by_name)
+  VALUES (
+    NEW.tenant_id, NEW.id, v_revision, v_snapshot,
+    (SELECT full_name FROM public.profiles WHERE user_id = auth.uid() LIMIT 1)
+  );
+
+  UPDATE public.quotes SET revision = v_revision WHERE id = NEW.id;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER trg_quotes_record_revision
+AFTER INSERT OR UPDATE ON public.quotes
+FOR EACH ROW EXECUTE FUNCTION public.record_quote_revision();
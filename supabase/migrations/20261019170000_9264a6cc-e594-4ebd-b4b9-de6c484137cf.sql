@@ -0,0 +1,372 @@
+-- ============================================================
+-- Customer self-service portal
+-- A contact is given portal access by linking their login to the Person row
+-- (people.portal_user_id) and adding a 'customer' tenant membership. Portal
+-- users see their company's non-draft quotes, finalized invoices, purchased
+-- serial numbers and service requests. Every rule lives in RLS or in the
+-- SECURITY DEFINER functions below; the client does no filtering.
+-- ============================================================
+
+ALTER TABLE public.people
+  ADD COLUMN IF NOT EXISTS portal_user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_people_portal_user
+  ON public.people(tenant_id, portal_user_id) WHERE portal_user_id IS NOT NULL;
+
+-- Quotes and invoices only carried the customer's name; the portal needs a key
+ALTER TABLE public.quotes
+  ADD COLUMN IF NOT EXISTS company_id uuid REFERENCES public.companies(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS customer_responded_at timestamptz,
+  ADD COLUMN IF NOT EXISTS customer_responded_by uuid,
+  ADD COLUMN IF NOT EXISTS customer_response_note text;
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS company_id uuid REFERENCES public.companies(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_quotes_company ON public.quotes(company_id);
+CREATE INDEX IF NOT EXISTS idx_invoices_company ON public.invoices(company_id);
+
+-- Same rule as findCustomerCompany in the app: company name first, then a
+-- contact with that name who belongs to a company
+CREATE OR REPLACE FUNCTION public.match_customer_company(_tenant_id uuid, _customer_name text)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT c.id FROM public.companies c
+     WHERE c.tenant_id = _tenant_id
+       AND lower(trim(c.name)) = lower(trim(_customer_name))
+     ORDER BY c.created_at
+     LIMIT 1),
+    (SELECT p.company_id FROM public.people p
+     WHERE p.tenant_id = _tenant_id
+       AND p.deleted_at IS NULL
+       AND p.company_id IS NOT NULL
+       AND lower(trim(p.name)) = lower(trim(_customer_name))
+     ORDER BY p.created_at
+     LIMIT 1)
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.match_customer_company(uuid, text) FROM anon, authenticated, PUBLIC;
+
+CREATE OR REPLACE FUNCTION public.set_document_company()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- An explicitly set company wins; otherwise follow the customer name
+  IF (TG_OP = 'INSERT' AND NEW.company_id IS NULL)
+     OR (TG_OP = 'UPDATE'
+         AND NEW.customer_name IS DISTINCT FROM OLD.customer_name
+         AND NEW.company_id IS NOT DISTINCT FROM OLD.company_id) THEN
+    NEW.company_id := public.match_customer_company(NEW.tenant_id, NEW.customer_name);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_quotes_set_company
+BEFORE INSERT OR UPDATE ON public.quotes
+FOR EACH ROW EXECUTE FUNCTION public.set_document_company();
+
+CREATE TRIGGER trg_invoices_set_company
+BEFORE INSERT OR UPDATE ON public.invoices
+FOR EACH ROW EXECUTE FUNCTION public.set_document_company();
+
+-- Backfill without firing the revision trigger on every quote
+ALTER TABLE public.quotes DISABLE TRIGGER trg_quotes_record_revision;
+UPDATE public.quotes SET company_id = public.match_customer_company(tenant_id, customer_name)
+WHERE company_id IS NULL;
+ALTER TABLE public.quotes ENABLE TRIGGER trg_quotes_record_revision;
+
+UPDATE public.invoices SET company_id = public.match_customer_company(tenant_id, customer_name)
+WHERE company_id IS NULL;
+
+-- ============================================================
+-- Portal scope
+-- ============================================================
+
+-- The company the calling portal user belongs to in a tenant, or NULL
+CREATE OR REPLACE FUNCTION public.portal_company_id(_tenant_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p.company_id
+  FROM public.people p
+  JOIN public.tenant_members tm
+    ON tm.tenant_id = p.tenant_id
+   AND tm.user_id = p.portal_user_id
+   AND tm.role = 'customer'
+   AND tm.status = 'active'
+  WHERE p.tenant_id = _tenant_id
+    AND p.portal_user_id = auth.uid()
+    AND p.deleted_at IS NULL
+  LIMIT 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.portal_company_id(uuid) TO authenticated;
+
+CREATE POLICY "Portal customers can view their company quotes" ON public.quotes
+  FOR SELECT TO authenticated USING (
+    status <> 'draft'
+    AND company_id IS NOT NULL
+    AND company_id = public.portal_company_id(tenant_id)
+  );
+
+CREATE POLICY "Portal customers can view their company invoices" ON public.invoices
+  FOR SELECT TO authenticated USING (
+    status = 'finalized'
+    AND company_id IS NOT NULL
+    AND company_id = public.portal_company_id(tenant_id)
+  );
+
+CREATE POLICY "Portal customers can view their company" ON public.companies
+  FOR SELECT TO authenticated USING (id = public.portal_company_id(tenant_id));
+
+-- ============================================================
+-- Granting and revoking access (staff)
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.grant_portal_access(_person_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_person public.people%ROWTYPE;
+  v_user_id uuid;
+BEGIN
+  SELECT * INTO v_person FROM public.people WHERE id = _person_id AND deleted_at IS NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contact not found';
+  END IF;
+
+  IF NOT public.has_tenant_role(v_person.tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]) THEN
+    RAISE EXCEPTION 'Not authorized to manage portal access';
+  END IF;
+
+  IF v_person.company_id IS NULL THEN
+    RAISE EXCEPTION 'Assign % to a company before granting portal access', v_person.name;
+  END IF;
+
+  IF COALESCE(trim(v_person.email), '') = '' THEN
+    RAISE EXCEPTION '% has no email address', v_person.name;
+  END IF;
+
+  SELECT id INTO v_user_id FROM auth.users
+  WHERE lower(email) = lower(trim(v_person.email))
+  LIMIT 1;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'No account is registered for %. Ask the customer to sign up first.', v_person.email;
+  END IF;
+
+  -- Portal access is for customer logins only, never staff accounts
+  IF EXISTS (SELECT 1 FROM public.user_roles WHERE user_id = v_user_id AND role <> 'customer')
+     OR EXISTS (SELECT 1 FROM public.tenant_members WHERE user_id = v_user_id AND role <> 'customer') THEN
+    RAISE EXCEPTION '% belongs to a staff account', v_person.email;
+  END IF;
+
+  UPDATE public.people SET portal_user_id = v_user_id WHERE id = _person_id;
+
+  INSERT INTO public.tenant_members (tenant_id, user_id, role, status, invited_by)
+  VALUES (v_person.tenant_id, v_user_id, 'customer', 'active', auth.uid())
+  ON CONFLICT (tenant_id, user_id) DO UPDATE SET status = 'active';
+
+  RETURN v_user_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.revoke_portal_access(_person_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_person public.people%ROWTYPE;
+BEGIN
+  SELECT * INTO v_person FROM public.people WHERE id = _person_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contact not found';
+  END IF;
+
+  IF NOT public.has_tenant_role(v_person.tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]) THEN
+    RAISE EXCEPTION 'Not authorized to manage portal access';
+  END IF;
+
+  UPDATE public.people SET portal_user_id = NULL WHERE id = _person_id;
+
+  IF v_person.portal_user_id IS NOT NULL THEN
+    UPDATE public.tenant_members SET status = 'revoked'
+    WHERE tenant_id = v_person.tenant_id
+      AND user_id = v_person.portal_user_id
+      AND role = 'customer';
+  END IF;
+END;
+$$;
+
+-- ============================================================
+-- Quote acceptance (portal)
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.respond_to_quote(_quote_id uuid, _accept boolean, _note text DEFAULT NULL)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quote public.quotes%ROWTYPE;
+  v_status text;
+BEGIN
+  SELECT * INTO v_quote FROM public.quotes WHERE id = _quote_id FOR UPDATE;
+  IF NOT FOUND OR v_quote.company_id IS NULL
+     OR v_quote.company_id IS DISTINCT FROM public.portal_company_id(v_quote.tenant_id) THEN
+    RAISE EXCEPTION 'Quote not found';
+  END IF;
+
+  IF v_quote.status <> 'pending' THEN
+    RAISE EXCEPTION 'Quote % is % and can no longer be answered', v_quote.quote_number, v_quote.status;
+  END IF;
+
+  IF v_quote.expires_at IS NOT NULL AND v_quote.expires_at < now() THEN
+    RAISE EXCEPTION 'Quote % has expired', v_quote.quote_number;
+  END IF;
+
+  v_status := CASE WHEN _accept THEN 'approved' ELSE 'rejected' END;
+
+  UPDATE public.quotes
+  SET status = v_status,
+      customer_responded_at = now(),
+      customer_responded_by = auth.uid(),
+      customer_response_note = NULLIF(trim(COALESCE(_note, '')), '')
+  WHERE id = _quote_id;
+
+  RETURN v_status;
+END;
+$$;
+
+-- ============================================================
+-- Purchased units and warranties (portal)
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.get_portal_purchased_units(_tenant_id uuid)
+RETURNS TABLE (
+  item_id uuid,
+  part_number text,
+  serial_number text,
+  description text,
+  invoice_id uuid,
+  invoice_number text,
+  sold_date timestamptz,
+  warranty_months integer,
+  warranty_end_date timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    i.id,
+    i.part_number,
+    i.serial_number,
+    i.description,
+    inv.id,
+    inv.invoice_number,
+    COALESCE(i.date_sold, inv.created_at),
+    i.warranty_months,
+    CASE WHEN COALESCE(i.warranty_months, 0) > 0
+      THEN COALESCE(i.date_sold, inv.created_at) + make_interval(months => i.warranty_months)
+    END
+  FROM public.items i
+  JOIN public.invoices inv ON inv.id = i.sold_in_invoice_id
+  WHERE i.tenant_id = _tenant_id
+    AND i.status = 'sold'
+    AND i.serial_number IS NOT NULL
+    AND inv.status = 'finalized'
+    AND inv.company_id IS NOT NULL
+    AND inv.company_id = public.portal_company_id(_tenant_id)
+  ORDER BY COALESCE(i.date_sold, inv.created_at) DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_portal_purchased_units(uuid) TO authenticated;
+
+-- ============================================================
+-- Service requests
+-- ============================================================
+
+CREATE TABLE public.service_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES public.tenants(id) ON DELETE RESTRICT,
+  company_id uuid NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  serial_number text,
+  subject text NOT NULL,
+  description text,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'in_progress', 'resolved', 'closed')),
+  resolution text,
+  requested_by uuid DEFAULT auth.uid(),
+  requested_by_name text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_service_requests_tenant ON public.service_requests(tenant_id);
+CREATE INDEX idx_service_requests_company ON public.service_requests(company_id, created_at DESC);
+
+ALTER TABLE public.service_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant members can view service requests" ON public.service_requests
+  FOR SELECT TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+CREATE POLICY "Tenant members can insert service requests" ON public.service_requests
+  FOR INSERT TO authenticated WITH CHECK (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+CREATE POLICY "Tenant members can update service requests" ON public.service_requests
+  FOR UPDATE TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+CREATE POLICY "Tenant owners can delete service requests" ON public.service_requests
+  FOR DELETE TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner']::app_role[]));
+
+CREATE POLICY "Portal customers can view their service requests" ON public.service_requests
+  FOR SELECT TO authenticated USING (company_id = public.portal_company_id(tenant_id));
+CREATE POLICY "Portal customers can open service requests" ON public.service_requests
+  FOR INSERT TO authenticated WITH CHECK (
+    company_id = public.portal_company_id(tenant_id)
+    AND requested_by = auth.uid()
+    AND status = 'open'
+    AND resolution IS NULL
+  );
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.service_requests TO authenticated;
+GRANT ALL ON public.service_requests TO service_role;
+
+CREATE TRIGGER update_service_requests_updated_at
+BEFORE UPDATE ON public.service_requests
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.set_service_request_requester()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.requested_by IS NOT NULL AND NEW.requested_by_name IS NULL THEN
+    NEW.requested_by_name := (SELECT full_name FROM public.profiles WHERE user_id = NEW.requested_by LIMIT 1);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_service_requests_requester
+BEFORE INSERT ON public.service_requests
+FOR EACH ROW EXECUTE FUNCTION public.set_service_request_requester();
@@ -0,0 +1,157 @@
+-- ============================================================
+-- Quote acceptance links and e-signatures
+-- Staff issue an expiring, tokenized link for the quote's current revision.
+-- The public quote-acceptance edge function renders the quote from the token,
+-- records the signer's typed name, drawn signature, PO number, time and IP,
+-- stores an acceptance certificate PDF and approves the quote. An accepted
+-- quote's content is locked to the accepted revision.
+-- ============================================================
+
+CREATE TABLE public.quote_acceptance_links (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES public.tenants(id) ON DELETE RESTRICT,
+  quote_id uuid NOT NULL REFERENCES public.quotes(id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE,
+  revision integer NOT NULL,
+  expires_at timestamptz NOT NULL,
+  convert_on_accept boolean NOT NULL DEFAULT false,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  revoked_at timestamptz,
+  used_at timestamptz
+);
+
+CREATE INDEX idx_quote_acceptance_links_tenant ON public.quote_acceptance_links(tenant_id);
+CREATE INDEX idx_quote_acceptance_links_quote ON public.quote_acceptance_links(quote_id);
+
+ALTER TABLE public.quote_acceptance_links ENABLE ROW LEVEL SECURITY;
+
+-- Links are created by create_quote_acceptance_link; staff can read and revoke them
+CREATE POLICY "Tenant members can view quote acceptance links" ON public.quote_acceptance_links
+  FOR SELECT TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+CREATE POLICY "Tenant members can update quote acceptance links" ON public.quote_acceptance_links
+  FOR UPDATE TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+CREATE POLICY "Tenant owners can delete quote acceptance links" ON public.quote_acceptance_links
+  FOR DELETE TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner']::app_role[]));
+
+GRANT SELECT, UPDATE, DELETE ON public.quote_acceptance_links TO authenticated;
+GRANT ALL ON public.quote_acceptance_links TO service_role;
+
+CREATE TABLE public.quote_acceptances (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES public.tenants(id) ON DELETE RESTRICT,
+  quote_id uuid NOT NULL REFERENCES public.quotes(id) ON DELETE CASCADE,
+  link_id uuid REFERENCES public.quote_acceptance_links(id) ON DELETE SET NULL,
+  revision integer NOT NULL,
+  snapshot jsonb NOT NULL,
+  snapshot_sha256 text NOT NULL,
+  signer_name text NOT NULL,
+  signature_data text NOT NULL,
+  po_number text,
+  ip_address text,
+  user_agent text,
+  convert_on_accept boolean NOT NULL DEFAULT false,
+  certificate_path text,
+  accepted_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (quote_id)
+);
+
+CREATE INDEX idx_quote_acceptances_tenant ON public.quote_acceptances(tenant_id);
+
+ALTER TABLE public.quote_acceptances ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the edge function (service role); immutable for users
+CREATE POLICY "Tenant members can view quote acceptances" ON public.quote_acceptances
+  FOR SELECT TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+
+GRANT SELECT ON public.quote_acceptances TO authenticated;
+GRANT ALL ON public.quote_acceptances TO service_role;
+
+-- ============================================================
+-- Issuing links
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.create_quote_acceptance_link(
+  _quote_id uuid,
+  _expires_at timestamptz,
+  _convert_on_accept boolean DEFAULT false
+)
+RETURNS public.quote_acceptance_links
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quote public.quotes%ROWTYPE;
+  v_link public.quote_acceptance_links%ROWTYPE;
+BEGIN
+  SELECT * INTO v_quote FROM public.quotes WHERE id = _quote_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quote not found';
+  END IF;
+
+  IF NOT public.has_tenant_role(v_quote.tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]) THEN
+    RAISE EXCEPTION 'Not authorized to share this quote';
+  END IF;
+
+  IF v_quote.status <> 'pending' OR v_quote.revision < 1 THEN
+    RAISE EXCEPTION 'Only pending quotes can be sent for acceptance';
+  END IF;
+
+  IF _expires_at <= now() THEN
+    RAISE EXCEPTION 'Link expiry must be in the future';
+  END IF;
+
+  INSERT INTO public.quote_acceptance_links (tenant_id, quote_id, token, revision, expires_at, convert_on_accept)
+  VALUES (
+    v_quote.tenant_id,
+    v_quote.id,
+    -- 244 random bits, URL-safe
+    replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+    v_quote.revision,
+    _expires_at,
+    COALESCE(_convert_on_accept, false)
+  )
+  RETURNING * INTO v_link;
+
+  RETURN v_link;
+END;
+$$;
+
+-- ============================================================
+-- Locking accepted quotes
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.prevent_accepted_quote_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_revision integer;
+BEGIN
+  SELECT revision INTO v_revision FROM public.quote_acceptances WHERE quote_id = NEW.id;
+  IF FOUND AND public.quote_revision_snapshot(NEW) IS DISTINCT FROM public.quote_revision_snapshot(OLD) THEN
+    RAISE EXCEPTION 'Quote % was accepted at revision % and can no longer be edited', OLD.quote_number, v_revision;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_quotes_lock_accepted
+BEFORE UPDATE ON public.quotes
+FOR EACH ROW EXECUTE FUNCTION public.prevent_accepted_quote_changes();
+
+-- ============================================================
+-- Certificate storage: <tenant_id>/<quote_id>/<acceptance_id>.pdf
+-- ============================================================
+
+INSERT INTO storage.buckets (id, name, public) VALUES ('quote-acceptances', 'quote-acceptances', false);
+
+CREATE POLICY "Tenant members can view acceptance certificates"
+ON storage.objects FOR SELECT TO authenticated
+USING (
+  bucket_id = 'quote-acceptances'
+  AND public.has_tenant_role(((storage.foldername(name))[1])::uuid, auth.uid(), ARRAY['owner','employee','developer']::app_role[])
+);
@@ -0,0 +1,471 @@
+-- ============================================================
+-- Returns (RMAs) and credit memos
+-- An RMA is opened against a finalized invoice and lists the sold units coming
+-- back. Each line is inspected and then restocked with a condition grade or
+-- scrapped. A credit memo credits the customer for the returned lines, either
+-- against the invoice balance or as a refund paid back out.
+-- ============================================================
+
+ALTER TABLE public.items
+  ADD COLUMN IF NOT EXISTS condition_grade text
+    CHECK (condition_grade IN ('new', 'like_new', 'good', 'fair', 'poor'));
+
+ALTER TABLE public.inventory_movements DROP CONSTRAINT IF EXISTS inventory_movements_reason_check;
+ALTER TABLE public.inventory_movements ADD CONSTRAINT inventory_movements_reason_check
+  CHECK (reason IN ('initial', 'receipt', 'sale', 'sale_reversal', 'adjustment', 'transfer_out', 'transfer_in', 'return'));
+
+CREATE OR REPLACE FUNCTION public.apply_inventory_movement(
+  _item_id uuid,
+  _quantity_change integer,
+  _reason text,
+  _reference_type text DEFAULT NULL,
+  _reference_id uuid DEFAULT NULL,
+  _unit_cost numeric DEFAULT NULL,
+  _notes text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tenant uuid;
+BEGIN
+  SELECT tenant_id INTO v_tenant FROM public.items WHERE id = _item_id;
+  IF NOT has_tenant_role(v_tenant, auth.uid(), ARRAY['owner','employee','developer']::app_role[]) THEN
+    RAISE EXCEPTION 'Not authorized to move stock for item %', _item_id;
+  END IF;
+  IF _reason IN ('sale', 'sale_reversal') THEN
+    RAISE EXCEPTION 'Sales move stock through sync_invoice_stock';
+  END IF;
+  IF _reason IN ('transfer_out', 'transfer_in') THEN
+    RAISE EXCEPTION 'Transfers move stock through ship_stock_transfer / receive_stock_transfer';
+  END IF;
+  IF _reason = 'return' THEN
+    RAISE EXCEPTION 'Returns move stock through complete_rma';
+  END IF;
+
+  RETURN public.record_inventory_movement(
+    _item_id, _quantity_change, _reason, _reference_type, _reference_id, _unit_cost, _notes, false
+  );
+END;
+$$;
+
+-- ============================================================
+-- Credits count toward settling an invoice alongside payments
+-- ============================================================
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS amount_credited numeric NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.sync_invoice_payment_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.payment_status := public.invoice_payment_status(NEW.amount_paid + NEW.amount_credited, NEW.total);
+  NEW.paid := NEW.payment_status IN ('paid', 'overpaid');
+  IF NOT NEW.paid THEN
+    NEW.paid_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_invoices_payment_status ON public.invoices;
+CREATE TRIGGER trg_invoices_payment_status
+BEFORE INSERT OR UPDATE OF amount_paid, amount_credited, total, paid, paid_at ON public.invoices
+FOR EACH ROW EXECUTE FUNCTION public.sync_invoice_payment_status();
+
+CREATE OR REPLACE FUNCTION public.refresh_invoice_amount_paid()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice_id uuid := COALESCE(NEW.invoice_id, OLD.invoice_id);
+  v_sum numeric;
+  v_last date;
+BEGIN
+  SELECT COALESCE(SUM(amount), 0), MAX(payment_date)
+    INTO v_sum, v_last
+  FROM public.invoice_payments
+  WHERE invoice_id = v_invoice_id;
+
+  UPDATE public.invoices
+  SET amount_paid = v_sum,
+      paid_at = CASE WHEN v_sum + amount_credited >= total - 0.005 THEN v_last::timestamptz ELSE NULL END
+  WHERE id = v_invoice_id;
+
+  RETURN NULL;
+END;
+$$;
+
+-- ============================================================
+-- RMAs
+-- ============================================================
+
+CREATE TABLE public.rmas (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES public.tenants(id) ON DELETE RESTRICT,
+  rma_number text NOT NULL,
+  invoice_id uuid NOT NULL REFERENCES public.invoices(id) ON DELETE RESTRICT,
+  customer_name text,
+  status text NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'received', 'closed', 'cancelled')),
+  notes text,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  received_at timestamptz,
+  closed_at timestamptz,
+  closed_by uuid
+);
+
+CREATE INDEX idx_rmas_tenant ON public.rmas(tenant_id);
+CREATE INDEX idx_rmas_invoice ON public.rmas(invoice_id);
+
+CREATE TABLE public.rma_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES public.tenants(id) ON DELETE RESTRICT,
+  rma_id uuid NOT NULL REFERENCES public.rmas(id) ON DELETE CASCADE,
+  item_id uuid REFERENCES public.items(id) ON DELETE SET NULL,
+  part_number text NOT NULL,
+  serial_number text,
+  description text,
+  quantity integer NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  unit_price numeric(10,2) NOT NULL DEFAULT 0,
+  unit_cost numeric(10,2),
+  taxable boolean NOT NULL DEFAULT true,
+  reason text NOT NULL DEFAULT 'defective'
+    CHECK (reason IN ('defective', 'damaged', 'wrong_item', 'not_needed', 'warranty', 'other')),
+  reported_issue text,
+  inspection_notes text,
+  condition_grade text
+    CHECK (condition_grade IN ('new', 'like_new', 'good', 'fair', 'poor')),
+  disposition text NOT NULL DEFAULT 'pending'
+    CHECK (disposition IN ('pending', 'restock', 'scrap')),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_rma_lines_tenant ON public.rma_lines(tenant_id);
+CREATE INDEX idx_rma_lines_rma ON public.rma_lines(rma_id);
+CREATE INDEX idx_rma_lines_item ON public.rma_lines(item_id);
+
+ALTER TABLE public.rmas ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rma_lines ENABLE ROW LEVEL SECURITY;
+
+-- 'closed' is only set by complete_rma
+CREATE POLICY "Tenant members can view rmas" ON public.rmas
+  FOR SELECT TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+CREATE POLICY "Tenant members can insert rmas" ON public.rmas
+  FOR INSERT TO authenticated WITH CHECK (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]) AND status = 'open');
+CREATE POLICY "Tenant members can update open rmas" ON public.rmas
+  FOR UPDATE TO authenticated
+  USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]) AND status IN ('open', 'received'))
+  WITH CHECK (status IN ('open', 'received', 'cancelled'));
+CREATE POLICY "Tenant owners can delete open rmas" ON public.rmas
+  FOR DELETE TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner']::app_role[]) AND status = 'open');
+
+CREATE POLICY "Tenant members can view rma lines" ON public.rma_lines
+  FOR SELECT TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+CREATE POLICY "Tenant members can insert rma lines" ON public.rma_lines
+  FOR INSERT TO authenticated WITH CHECK (
+    has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[])
+    AND EXISTS (SELECT 1 FROM public.rmas r WHERE r.id = rma_id AND r.status = 'open')
+  );
+CREATE POLICY "Tenant members can update rma lines" ON public.rma_lines
+  FOR UPDATE TO authenticated USING (
+    has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[])
+    AND EXISTS (SELECT 1 FROM public.rmas r WHERE r.id = rma_id AND r.status IN ('open', 'received'))
+  );
+CREATE POLICY "Tenant members can delete rma lines" ON public.rma_lines
+  FOR DELETE TO authenticated USING (
+    has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[])
+    AND EXISTS (SELECT 1 FROM public.rmas r WHERE r.id = rma_id AND r.status = 'open')
+  );
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.rmas TO authenticated;
+GRANT ALL ON public.rmas TO service_role;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.rma_lines TO authenticated;
+GRANT ALL ON public.rma_lines TO service_role;
+
+CREATE TRIGGER update_rmas_updated_at
+BEFORE UPDATE ON public.rmas
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================================
+-- Credit memos. Issued only through issue_credit_memo; lines use the same
+-- shape as invoice lines so they print through the same pipeline.
+-- ============================================================
+
+CREATE TABLE public.credit_memos (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES public.tenants(id) ON DELETE RESTRICT,
+  credit_memo_number text NOT NULL,
+  invoice_id uuid NOT NULL REFERENCES public.invoices(id) ON DELETE RESTRICT,
+  rma_id uuid REFERENCES public.rmas(id) ON DELETE RESTRICT,
+  customer_name text,
+  items jsonb NOT NULL DEFAULT '[]'::jsonb,
+  subtotal numeric(12,2) NOT NULL DEFAULT 0,
+  discount numeric(12,2) NOT NULL DEFAULT 0,
+  tax numeric(12,2) NOT NULL DEFAULT 0,
+  total numeric(12,2) NOT NULL CHECK (total > 0),
+  settlement text NOT NULL
+    CHECK (settlement IN ('apply_to_balance', 'refund')),
+  refund_payment_id uuid REFERENCES public.invoice_payments(id) ON DELETE SET NULL,
+  notes text,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (rma_id)
+);
+
+CREATE INDEX idx_credit_memos_tenant ON public.credit_memos(tenant_id);
+CREATE INDEX idx_credit_memos_invoice ON public.credit_memos(invoice_id);
+
+ALTER TABLE public.credit_memos ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant members can view credit memos" ON public.credit_memos
+  FOR SELECT TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+
+GRANT SELECT ON public.credit_memos TO authenticated;
+GRANT ALL ON public.credit_memos TO service_role;
+
+-- Puts returned units back where their dispositions say. Restocked serials
+-- become available again with their condition grade; quantity lines go back on
+-- hand. Journal: Cr COGS at cost, Dr inventory for restocked units and Dr
+-- inventory shrinkage & adjustments for scrapped ones.
+CREATE OR REPLACE FUNCTION public.complete_rma(_rma_id uuid, _warehouse_id uuid DEFAULT NULL)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rma public.rmas%ROWTYPE;
+  v_line public.rma_lines%ROWTYPE;
+  v_item public.items%ROWTYPE;
+  v_cost numeric;
+  v_lines jsonb := '[]'::jsonb;
+  v_entry_id uuid;
+BEGIN
+  SELECT * INTO v_rma FROM public.rmas WHERE id = _rma_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RMA % not found', _rma_id;
+  END IF;
+  IF NOT has_tenant_role(v_rma.tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]) THEN
+    RAISE EXCEPTION 'Not authorized to complete RMA %', v_rma.rma_number;
+  END IF;
+  IF v_rma.status <> 'received' THEN
+    RAISE EXCEPTION 'RMA % is %, not received', v_rma.rma_number, v_rma.status;
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM public.rma_lines WHERE rma_id = _rma_id) THEN
+    RAISE EXCEPTION 'RMA % has no lines', v_rma.rma_number;
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM public.rma_lines WHERE rma_id = _rma_id ORDER BY created_at
+  LOOP
+    IF v_line.disposition = 'pending' THEN
+      RAISE EXCEPTION '% (%) has not been inspected', v_line.part_number, COALESCE(v_line.serial_number, 'no serial');
+    END IF;
+    IF v_line.disposition = 'restock' AND v_line.condition_grade IS NULL THEN
+      RAISE EXCEPTION '% (%) needs a condition grade to restock', v_line.part_number, COALESCE(v_line.serial_number, 'no serial');
+    END IF;
+
+    SELECT * INTO v_item FROM public.items
+    WHERE id = v_line.item_id AND tenant_id = v_rma.tenant_id FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item for % no longer exists', v_line.part_number;
+    END IF;
+
+    v_cost := COALESCE(v_line.unit_cost, v_item.cost, 0);
+
+    IF v_item.tracking_mode = 'quantity' THEN
+      IF v_line.disposition = 'restock' THEN
+        PERFORM public.record_inventory_movement(
+          v_item.id, v_line.quantity, 'return', 'rma', _rma_id, NULL,
+          v_rma.rma_number || ' (' || v_line.condition_grade || ')', false
+        );
+      END IF;
+    ELSE
+      IF v_item.status <> 'sold' OR v_item.sold_in_invoice_id IS DISTINCT FROM v_rma.invoice_id THEN
+        RAISE EXCEPTION 'Serial % is not sold on this RMA''s invoice', v_item.serial_number;
+      END IF;
+
+      UPDATE public.items
+      SET status = CASE WHEN v_line.disposition = 'restock' THEN 'available' ELSE 'written_off' END,
+          condition_grade = v_line.condition_grade,
+          sold_in_invoice_id = NULL,
+          date_sold = NULL,
+          warehouse_id = CASE WHEN v_line.disposition = 'restock' THEN COALESCE(_warehouse_id, warehouse_id) ELSE warehouse_id END
+      WHERE id = v_item.id;
+    END IF;
+
+    UPDATE public.rma_lines SET unit_cost = v_cost WHERE id = v_line.id;
+
+    v_lines := v_lines || jsonb_build_array(
+      jsonb_build_object(
+        'account_id', CASE WHEN v_line.disposition = 'restock'
+          THEN COALESCE(v_item.asset_account_id, public.system_account_id(v_rma.tenant_id, 'inventory'))
+          ELSE public.system_account_id(v_rma.tenant_id, 'inventory_adjustments')
+        END,
+        'amount', v_line.quantity * v_cost,
+        'description', v_line.part_number || COALESCE(' ' || v_line.serial_number, '') || ' - ' || v_line.disposition
+      ),
+      jsonb_build_object(
+        'account_id', COALESCE(v_item.cogs_account_id, public.system_account_id(v_rma.tenant_id, 'cogs')),
+        'amount', -(v_line.quantity * v_cost),
+        'description', 'Returned ' || v_line.part_number || COALESCE(' ' || v_line.serial_number, '')
+      )
+    );
+  END LOOP;
+
+  v_entry_id := public.create_journal_entry(
+    v_rma.tenant_id, CURRENT_DATE, 'rma', v_rma.id,
+    'Return ' || v_rma.rma_number || COALESCE(' - ' || v_rma.customer_name, ''),
+    v_lines
+  );
+
+  UPDATE public.rmas
+  SET status = 'closed', closed_at = now(), closed_by = auth.uid()
+  WHERE id = _rma_id;
+
+  RETURN v_entry_id;
+END;
+$$;
+
+-- Credits the RMA's lines at their invoiced price, less a share of the invoice
+-- discount, plus the matching share of sales tax. Journal: Dr revenue and sales
+-- tax payable, Cr discounts and AR. A refund also records a negative payment
+-- on the invoice, which posts as Dr AR / Cr cash.
+CREATE OR REPLACE FUNCTION public.issue_credit_memo(
+  _rma_id uuid,
+  _credit_memo_number text,
+  _settlement text,
+  _refund_method text DEFAULT NULL,
+  _notes text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rma public.rmas%ROWTYPE;
+  v_inv public.invoices%ROWTYPE;
+  v_items jsonb;
+  v_subtotal numeric;
+  v_taxable numeric;
+  v_invoice_taxable numeric;
+  v_discount numeric := 0;
+  v_tax numeric := 0;
+  v_total numeric;
+  v_memo_id uuid;
+  v_payment_id uuid;
+BEGIN
+  SELECT * INTO v_rma FROM public.rmas WHERE id = _rma_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RMA % not found', _rma_id;
+  END IF;
+  IF NOT has_tenant_role(v_rma.tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]) THEN
+    RAISE EXCEPTION 'Not authorized to credit RMA %', v_rma.rma_number;
+  END IF;
+  IF v_rma.status NOT IN ('received', 'closed') THEN
+    RAISE EXCEPTION 'RMA % must be received before it is credited', v_rma.rma_number;
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.credit_memos WHERE rma_id = _rma_id) THEN
+    RAISE EXCEPTION 'RMA % already has a credit memo', v_rma.rma_number;
+  END IF;
+  IF _settlement NOT IN ('apply_to_balance', 'refund') THEN
+    RAISE EXCEPTION 'Unknown settlement %', _settlement;
+  END IF;
+
+  SELECT * INTO v_inv FROM public.invoices WHERE id = v_rma.invoice_id FOR UPDATE;
+  IF COALESCE(v_inv.status, 'finalized') <> 'finalized' THEN
+    RAISE EXCEPTION 'Invoice % is not finalized', v_inv.invoice_number;
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object(
+           'id', item_id,
+           'partNumber', part_number,
+           'serialNumber', serial_number,
+           'description', COALESCE(description, part_number),
+           'sellPrice', unit_price,
+           'quantity', quantity,
+           'taxable', taxable
+         ) ORDER BY created_at),
+         COALESCE(SUM(unit_price * quantity), 0),
+         COALESCE(SUM(unit_price * quantity) FILTER (WHERE taxable), 0)
+    INTO v_items, v_subtotal, v_taxable
+  FROM public.rma_lines
+  WHERE rma_id = _rma_id;
+
+  IF v_subtotal <= 0 THEN
+    RAISE EXCEPTION 'RMA % has nothing to credit', v_rma.rma_number;
+  END IF;
+
+  IF COALESCE(v_inv.discount, 0) > 0 AND v_inv.subtotal > 0 THEN
+    v_discount := ROUND(v_inv.discount * LEAST(v_subtotal / v_inv.subtotal, 1), 2);
+  END IF;
+
+  SELECT COALESCE(SUM(
+           COALESCE(NULLIF(li->>'sellPrice', '')::numeric, 0) * COALESCE(NULLIF(li->>'quantity', '')::numeric, 1)
+         ), 0)
+    INTO v_invoice_taxable
+  FROM jsonb_array_elements(COALESCE(v_inv.items, '[]'::jsonb)) li
+  WHERE COALESCE((li->>'taxable')::boolean, true);
+
+  IF COALESCE(v_inv.tax, 0) > 0 AND v_invoice_taxable > 0 THEN
+    v_tax := ROUND(v_inv.tax * LEAST(v_taxable / v_invoice_taxable, 1), 2);
+  END IF;
+
+  v_total := ROUND(v_subtotal - v_discount + v_tax, 2);
+  IF v_total > v_inv.total - v_inv.amount_credited + 0.005 THEN
+    RAISE EXCEPTION 'Credit of % exceeds what remains creditable on invoice % (%)',
+      v_total, v_inv.invoice_number, v_inv.total - v_inv.amount_credited;
+  END IF;
+  IF _settlement = 'refund' AND v_inv.amount_paid < v_total - 0.005 THEN
+    RAISE EXCEPTION 'Only % has been paid on invoice %; apply the credit to the balance instead',
+      v_inv.amount_paid, v_inv.invoice_number;
+  END IF;
+
+  INSERT INTO public.credit_memos (
+    tenant_id, credit_memo_number, invoice_id, rma_id, customer_name,
+    items, subtotal, discount, tax, total, settlement, notes
+  ) VALUES (
+    v_rma.tenant_id, _credit_memo_number, v_inv.id, _rma_id, v_inv.customer_name,
+    v_items, v_subtotal, v_discount, v_tax, v_total, _settlement, NULLIF(_notes, '')
+  )
+  RETURNING id INTO v_memo_id;
+
+  UPDATE public.invoices SET amount_credited = amount_credited + v_total WHERE id = v_inv.id;
+
+  PERFORM public.create_journal_entry(
+    v_rma.tenant_id, CURRENT_DATE, 'credit_memo', v_memo_id,
+    'Credit memo ' || _credit_memo_number || ' for ' || v_inv.invoice_number,
+    jsonb_build_array(
+      jsonb_build_object('account_id', public.system_account_id(v_rma.tenant_id, 'sales_revenue'), 'amount', v_subtotal),
+      jsonb_build_object('account_id', public.system_account_id(v_rma.tenant_id, 'sales_discounts'), 'amount', -v_discount),
+      jsonb_build_object('account_id', public.system_account_id(v_rma.tenant_id, 'sales_tax_payable'), 'amount', v_tax),
+      jsonb_build_object('account_id', public.system_account_id(v_rma.tenant_id, 'accounts_receivable'), 'amount', -v_total)
+    )
+  );
+
+  IF _settlement = 'refund' THEN
+    INSERT INTO public.invoice_payments (tenant_id, invoice_id, amount, method, reference_number, notes)
+    VALUES (
+      v_rma.tenant_id, v_inv.id, -v_total, COALESCE(_refund_method, 'check'), _credit_memo_number,
+      'Refund for credit memo ' || _credit_memo_number
+    )
+    RETURNING id INTO v_payment_id;
+
+    PERFORM public.post_invoice_payment_journal(v_payment_id);
+    UPDATE public.credit_memos SET refund_payment_id = v_payment_id WHERE id = v_memo_id;
+  END IF;
+
+  RETURN v_memo_id;
+END;
+$$;
@@ -0,0 +1,139 @@
+-- ============================================================
+-- Document email delivery
+-- Quotes, invoices and customer statements are emailed from the app through
+-- the send-document-email edge function, which relays over SMTP. Each tenant
+-- can override the subject and body per document type; merge fields are
+-- filled in client-side before sending. Every send is logged with its
+-- delivery state: sent (accepted by the SMTP server), delivered or bounced
+-- (reported back through the function's webhook) and opens (tracking pixel).
+-- ============================================================
+
+CREATE TABLE public.email_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES public.tenants(id) ON DELETE RESTRICT,
+  document_type text NOT NULL CHECK (document_type IN ('quote', 'invoice', 'statement')),
+  subject text NOT NULL,
+  body text NOT NULL,
+  updated_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (tenant_id, document_type)
+);
+
+CREATE INDEX idx_email_templates_tenant ON public.email_templates(tenant_id);
+
+ALTER TABLE public.email_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant members can view email templates" ON public.email_templates
+  FOR SELECT TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+CREATE POLICY "Tenant owners can insert email templates" ON public.email_templates
+  FOR INSERT TO authenticated WITH CHECK (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner']::app_role[]));
+CREATE POLICY "Tenant owners can update email templates" ON public.email_templates
+  FOR UPDATE TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner']::app_role[]));
+CREATE POLICY "Tenant owners can delete email templates" ON public.email_templates
+  FOR DELETE TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner']::app_role[]));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.email_templates TO authenticated;
+GRANT ALL ON public.email_templates TO service_role;
+
+CREATE TRIGGER update_email_templates_updated_at
+  BEFORE UPDATE ON public.email_templates
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.email_sends (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES public.tenants(id) ON DELETE RESTRICT,
+  document_type text NOT NULL CHECK (document_type IN ('quote', 'invoice', 'statement')),
+  quote_id uuid REFERENCES public.quotes(id) ON DELETE CASCADE,
+  invoice_id uuid REFERENCES public.invoices(id) ON DELETE CASCADE,
+  company_id uuid REFERENCES public.companies(id) ON DELETE SET NULL,
+  customer_name text,
+  document_number text NOT NULL,
+  to_email text NOT NULL,
+  cc text[] NOT NULL DEFAULT '{}',
+  subject text NOT NULL,
+  body text NOT NULL,
+  attachment_name text,
+  status text NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'sent', 'delivered', 'bounced', 'failed')),
+  error text,
+  -- Sent as the X-Document-Email header and in the open-tracking pixel URL
+  tracking_token text NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  open_count integer NOT NULL DEFAULT 0,
+  opened_at timestamptz,
+  last_opened_at timestamptz,
+  sent_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  sent_at timestamptz,
+  delivered_at timestamptz,
+  bounced_at timestamptz,
+  CHECK (
+    (document_type = 'quote' AND quote_id IS NOT NULL) OR
+    (document_type = 'invoice' AND invoice_id IS NOT NULL) OR
+    document_type = 'statement'
+  )
+);
+
+CREATE INDEX idx_email_sends_tenant ON public.email_sends(tenant_id);
+CREATE INDEX idx_email_sends_quote ON public.email_sends(quote_id) WHERE quote_id IS NOT NULL;
+CREATE INDEX idx_email_sends_invoice ON public.email_sends(invoice_id) WHERE invoice_id IS NOT NULL;
+
+ALTER TABLE public.email_sends ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the edge function (service role); the log is read-only for users
+CREATE POLICY "Tenant members can view email sends" ON public.email_sends
+  FOR SELECT TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+
+GRANT SELECT ON public.email_sends TO authenticated;
+GRANT ALL ON public.email_sends TO service_role;
+
+-- ============================================================
+-- Delivery events
+-- ============================================================
+
+-- Tracking pixel hit; counted atomically so concurrent opens aren't lost
+CREATE OR REPLACE FUNCTION public.record_email_open(_tracking_token text)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.email_sends
+  SET open_count = open_count + 1,
+      opened_at = COALESCE(opened_at, now()),
+      last_opened_at = now()
+  WHERE tracking_token = _tracking_token
+    AND status IN ('sent', 'delivered');
+$$;
+
+-- Delivery report from the mail provider. A bounce always wins; a late
+-- "delivered" never overwrites a bounce.
+CREATE OR REPLACE FUNCTION public.record_email_delivery(_tracking_token text, _event text, _reason text DEFAULT NULL)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  IF _event = 'delivered' THEN
+    UPDATE public.email_sends
+    SET status = 'delivered', delivered_at = COALESCE(delivered_at, now())
+    WHERE tracking_token = _tracking_token AND status IN ('queued', 'sent');
+  ELSIF _event = 'bounced' THEN
+    UPDATE public.email_sends
+    SET status = 'bounced', bounced_at = now(), error = COALESCE(_reason, error)
+    WHERE tracking_token = _tracking_token AND status <> 'failed';
+  ELSE
+    RAISE EXCEPTION 'Unknown delivery event %', _event;
+  END IF;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count > 0;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_email_open(text) FROM anon, authenticated, PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.record_email_delivery(text, text, text) FROM anon, authenticated, PUBLIC;
+GRANT EXECUTE ON FUNCTION public.record_email_open(text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.record_email_delivery(text, text, text) TO service_role;
@@ -0,0 +1,508 @@
+-- ============================================================
+-- Margin guardrails and pricing approval
+-- Each tenant sets a pricing floor: item minimum sale prices, a minimum
+-- margin % over cost and a maximum discount %. Saving a quote or invoice
+-- that breaks the floor records the violations and puts the document in
+-- 'pending' pricing approval. Owners approve or reject it with a note from
+-- the approval queue and the salesperson is notified. Invoices can't be
+-- finalized, and quotes can't go to the customer, until pricing is approved.
+-- ============================================================
+
+-- Edited in ItemDetailDialog; previously never persisted
+ALTER TABLE public.items
+  ADD COLUMN IF NOT EXISTS min_sale_price numeric CHECK (min_sale_price IS NULL OR min_sale_price >= 0);
+
+CREATE TABLE public.pricing_guardrails (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL UNIQUE REFERENCES public.tenants(id) ON DELETE RESTRICT,
+  enforce_min_sale_price boolean NOT NULL DEFAULT true,
+  min_margin_percent numeric CHECK (min_margin_percent IS NULL OR min_margin_percent < 100),
+  max_discount_percent numeric CHECK (max_discount_percent IS NULL OR max_discount_percent BETWEEN 0 AND 100),
+  updated_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.pricing_guardrails ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant members can view pricing guardrails" ON public.pricing_guardrails
+  FOR SELECT TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+CREATE POLICY "Tenant owners can insert pricing guardrails" ON public.pricing_guardrails
+  FOR INSERT TO authenticated WITH CHECK (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner']::app_role[]));
+CREATE POLICY "Tenant owners can update pricing guardrails" ON public.pricing_guardrails
+  FOR UPDATE TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner']::app_role[]));
+
+GRANT SELECT, INSERT, UPDATE ON public.pricing_guardrails TO authenticated;
+GRANT ALL ON public.pricing_guardrails TO service_role;
+
+CREATE TRIGGER update_pricing_guardrails_updated_at
+  BEFORE UPDATE ON public.pricing_guardrails
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================================
+-- In-app notifications
+-- ============================================================
+
+CREATE TABLE public.user_notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES public.tenants(id) ON DELETE RESTRICT,
+  user_id uuid NOT NULL,
+  title text NOT NULL,
+  body text,
+  -- App route to open when the notification is clicked
+  link text,
+  read_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_user_notifications_tenant ON public.user_notifications(tenant_id);
+CREATE INDEX idx_user_notifications_user ON public.user_notifications(user_id, created_at DESC);
+
+ALTER TABLE public.user_notifications ENABLE ROW LEVEL SECURITY;
+
+-- Written by SECURITY DEFINER functions; users only see and dismiss their own
+CREATE POLICY "Users can view their notifications" ON public.user_notifications
+  FOR SELECT TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users can update their notifications" ON public.user_notifications
+  FOR UPDATE TO authenticated USING (user_id = auth.uid());
+CREATE POLICY "Users can delete their notifications" ON public.user_notifications
+  FOR DELETE TO authenticated USING (user_id = auth.uid());
+
+GRANT SELECT, UPDATE, DELETE ON public.user_notifications TO authenticated;
+GRANT ALL ON public.user_notifications TO service_role;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.user_notifications;
+
+-- ============================================================
+-- Pricing approval on quotes and invoices
+-- ============================================================
+
+ALTER TABLE public.quotes
+  ADD COLUMN pricing_approval_status text NOT NULL DEFAULT 'not_required'
+    CHECK (pricing_approval_status IN ('not_required', 'pending', 'approved', 'rejected')),
+  ADD COLUMN pricing_violations jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN pricing_approval_requested_by uuid,
+  ADD COLUMN pricing_approval_requested_at timestamptz,
+  ADD COLUMN pricing_approval_decided_by uuid,
+  ADD COLUMN pricing_approval_decided_at timestamptz,
+  ADD COLUMN pricing_approval_note text;
+
+ALTER TABLE public.invoices
+  ADD COLUMN pricing_approval_status text NOT NULL DEFAULT 'not_required'
+    CHECK (pricing_approval_status IN ('not_required', 'pending', 'approved', 'rejected')),
+  ADD COLUMN pricing_violations jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN pricing_approval_requested_by uuid,
+  ADD COLUMN pricing_approval_requested_at timestamptz,
+  ADD COLUMN pricing_approval_decided_by uuid,
+  ADD COLUMN pricing_approval_decided_at timestamptz,
+  ADD COLUMN pricing_approval_note text;
+
+CREATE INDEX idx_quotes_pricing_pending ON public.quotes(tenant_id) WHERE pricing_approval_status = 'pending';
+CREATE INDEX idx_invoices_pricing_pending ON public.invoices(tenant_id) WHERE pricing_approval_status = 'pending';
+
+-- Violations for a document's items (in the quotes/invoices items JSON shape)
+-- and dollar discount, as [{code, itemId?, partNumber?, message}].
+-- Mirrored client-side in src/lib/pricing-guardrails.ts for the live display.
+CREATE OR REPLACE FUNCTION public.pricing_guardrail_violations(_tenant_id uuid, _items jsonb, _discount numeric)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rules public.pricing_guardrails%ROWTYPE;
+  v_line record;
+  v_violations jsonb := '[]'::jsonb;
+  v_subtotal numeric := 0;
+  v_cost_total numeric := 0;
+  v_discount numeric := COALESCE(_discount, 0);
+  v_revenue numeric;
+  v_margin numeric;
+BEGIN
+  SELECT * INTO v_rules FROM public.pricing_guardrails WHERE tenant_id = _tenant_id;
+  IF NOT FOUND THEN
+    v_rules.enforce_min_sale_price := true;
+  END IF;
+
+  FOR v_line IN
+    SELECT
+      l.value->>'id' AS item_id,
+      COALESCE(l.value->>'partNumber', '') AS part_number,
+      COALESCE((l.value->>'sellPrice')::numeric, 0) AS price,
+      COALESCE((l.value->>'quantity')::numeric, 1) AS quantity,
+      i.cost,
+      i.min_sale_price
+    FROM jsonb_array_elements(COALESCE(_items, '[]'::jsonb)) l
+    LEFT JOIN public.items i ON i.id::text = l.value->>'id' AND i.tenant_id = _tenant_id
+  LOOP
+    v_subtotal := v_subtotal + v_line.price * v_line.quantity;
+    v_cost_total := v_cost_total + COALESCE(v_line.cost, 0) * v_line.quantity;
+
+    IF v_rules.enforce_min_sale_price AND v_line.min_sale_price IS NOT NULL AND v_line.price < v_line.min_sale_price THEN
+      v_violations := v_violations || jsonb_build_object(
+        'code', 'below_min_price',
+        'itemId', v_line.item_id,
+        'partNumber', v_line.part_number,
+        'message', format('%s is priced at $%s, below its $%s minimum',
+          v_line.part_number, to_char(v_line.price, 'FM999999990.00'), to_char(v_line.min_sale_price, 'FM999999990.00'))
+      );
+    END IF;
+
+    IF v_rules.min_margin_percent IS NOT NULL AND COALESCE(v_line.cost, 0) > 0 THEN
+      v_margin := CASE WHEN v_line.price > 0 THEN (v_line.price - v_line.cost) / v_line.price * 100 END;
+      IF v_margin IS NULL OR v_margin < v_rules.min_margin_percent THEN
+        v_violations := v_violations || jsonb_build_object(
+          'code', 'low_line_margin',
+          'itemId', v_line.item_id,
+          'partNumber', v_line.part_number,
+          'message', format('%s has a %s%% margin, below the %s%% floor',
+            v_line.part_number, COALESCE(round(v_margin, 1)::text, 'negative'), v_rules.min_margin_percent)
+        );
+      END IF;
+    END IF;
+  END LOOP;
+
+  IF v_rules.max_discount_percent IS NOT NULL AND v_discount > 0 AND v_subtotal > 0
+     AND v_discount / v_subtotal * 100 > v_rules.max_discount_percent THEN
+    v_violations := v_violations || jsonb_build_object(
+      'code', 'discount_over_max',
+      'message', format('Discount of %s%% is over the %s%% maximum',
+        round(v_discount / v_subtotal * 100, 1), v_rules.max_discount_percent)
+    );
+  END IF;
+
+  -- Line margins are checked before the discount; this catches the discount eating them
+  IF v_rules.min_margin_percent IS NOT NULL AND v_discount > 0 AND v_cost_total > 0 THEN
+    v_revenue := v_subtotal - v_discount;
+    v_margin := CASE WHEN v_revenue > 0 THEN (v_revenue - v_cost_total) / v_revenue * 100 END;
+    IF v_margin IS NULL OR v_margin < v_rules.min_margin_percent THEN
+      v_violations := v_violations || jsonb_build_object(
+        'code', 'low_document_margin',
+        'message', format('After the discount the margin is %s%%, below the %s%% floor',
+          COALESCE(round(v_margin, 1)::text, 'negative'), v_rules.min_margin_percent)
+      );
+    END IF;
+  END IF;
+
+  RETURN v_violations;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.pricing_guardrail_violations(uuid, jsonb, numeric) FROM anon, authenticated, PUBLIC;
+
+-- Recomputes violations whenever items or the discount change and derives the
+-- approval state from them. The decision columns are only writable through
+-- decide_pricing_approval, which sets app.pricing_decision for its update.
+CREATE OR REPLACE FUNCTION public.apply_pricing_guardrails()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_decision boolean;
+  v_recheck boolean;
+  v_violations jsonb;
+  v_source public.quotes%ROWTYPE;
+  v_label text := CASE WHEN TG_TABLE_NAME = 'quotes' THEN 'Quote' ELSE 'Invoice' END;
+  v_number text;
+BEGIN
+  v_decision := COALESCE(current_setting('app.pricing_decision', true), '') = 'on'
+    AND has_tenant_role(NEW.tenant_id, auth.uid(), ARRAY['owner','developer']::app_role[]);
+
+  IF NOT v_decision THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.pricing_approval_status := 'not_required';
+      NEW.pricing_violations := '[]'::jsonb;
+      NEW.pricing_approval_requested_by := NULL;
+      NEW.pricing_approval_requested_at := NULL;
+      NEW.pricing_approval_decided_by := NULL;
+      NEW.pricing_approval_decided_at := NULL;
+      NEW.pricing_approval_note := NULL;
+    ELSE
+      NEW.pricing_approval_status := OLD.pricing_approval_status;
+      NEW.pricing_violations := OLD.pricing_violations;
+      NEW.pricing_approval_requested_by := OLD.pricing_approval_requested_by;
+      NEW.pricing_approval_requested_at := OLD.pricing_approval_requested_at;
+      NEW.pricing_approval_decided_by := OLD.pricing_approval_decided_by;
+      NEW.pricing_approval_decided_at := OLD.pricing_approval_decided_at;
+      NEW.pricing_approval_note := OLD.pricing_approval_note;
+    END IF;
+  END IF;
+
+  IF v_decision THEN
+    v_recheck := false;
+  ELSIF TG_OP = 'INSERT' THEN
+    v_recheck := true;
+  ELSE
+    v_recheck := NEW.items IS DISTINCT FROM OLD.items OR COALESCE(NEW.discount, 0) <> COALESCE(OLD.discount, 0);
+  END IF;
+
+  IF v_recheck THEN
+    v_violations := public.pricing_guardrail_violations(NEW.tenant_id, NEW.items, NEW.discount);
+
+    IF jsonb_array_length(v_violations) = 0 THEN
+      NEW.pricing_approval_status := 'not_required';
+      NEW.pricing_approval_requested_by := NULL;
+      NEW.pricing_approval_requested_at := NULL;
+      NEW.pricing_approval_decided_by := NULL;
+      NEW.pricing_approval_decided_at := NULL;
+      NEW.pricing_approval_note := NULL;
+    ELSIF NEW.pricing_approval_status IN ('approved', 'rejected') AND v_violations = NEW.pricing_violations THEN
+      -- The owner already ruled on exactly these exceptions
+      NULL;
+    ELSIF has_tenant_role(NEW.tenant_id, auth.uid(), ARRAY['owner','developer']::app_role[]) THEN
+      -- Owners price below the floor on their own authority
+      NEW.pricing_approval_status := 'approved';
+      NEW.pricing_approval_requested_by := auth.uid();
+      NEW.pricing_approval_requested_at := now();
+      NEW.pricing_approval_decided_by := auth.uid();
+      NEW.pricing_approval_decided_at := now();
+      NEW.pricing_approval_note := NULL;
+    ELSE
+      -- Quotes have no source_quote_id, so the column is only read for invoices
+      IF TG_TABLE_NAME = 'invoices' THEN
+        SELECT * INTO v_source FROM public.quotes
+        WHERE id = NEW.source_quote_id
+          AND tenant_id = NEW.tenant_id
+          AND pricing_approval_status = 'approved'
+          AND pricing_violations = v_violations;
+      END IF;
+
+      IF v_source.id IS NOT NULL THEN
+        -- Converted from a quote whose identical exceptions were approved
+        NEW.pricing_approval_status := 'approved';
+        NEW.pricing_approval_requested_by := v_source.pricing_approval_requested_by;
+        NEW.pricing_approval_requested_at := v_source.pricing_approval_requested_at;
+        NEW.pricing_approval_decided_by := v_source.pricing_approval_decided_by;
+        NEW.pricing_approval_decided_at := v_source.pricing_approval_decided_at;
+        NEW.pricing_approval_note := v_source.pricing_approval_note;
+      ELSE
+        IF NEW.pricing_approval_status <> 'pending' THEN
+          NEW.pricing_approval_requested_by := auth.uid();
+          NEW.pricing_approval_requested_at := now();
+          v_number := to_jsonb(NEW) ->> CASE WHEN TG_TABLE_NAME = 'quotes' THEN 'quote_number' ELSE 'invoice_number' END;
+
+          INSERT INTO public.user_notifications (tenant_id, user_id, title, body, link)
+          SELECT NEW.tenant_id, m.user_id,
+            format('%s %s needs pricing approval', v_label, v_number),
+            v_violations->0->>'message',
+            CASE WHEN TG_TABLE_NAME = 'quotes' THEN '/quotes' ELSE '/' END
+          FROM public.tenant_members m
+          WHERE m.tenant_id = NEW.tenant_id
+            AND m.status = 'active'
+            AND m.role = 'owner'
+            AND m.user_id IS DISTINCT FROM auth.uid();
+        END IF;
+        NEW.pricing_approval_status := 'pending';
+        NEW.pricing_approval_decided_by := NULL;
+        NEW.pricing_approval_decided_at := NULL;
+        NEW.pricing_approval_note := NULL;
+      END IF;
+    END IF;
+
+    NEW.pricing_violations := v_violations;
+  END IF;
+
+  IF TG_TABLE_NAME = 'invoices' AND NEW.status = 'finalized'
+     AND NEW.pricing_approval_status IN ('pending', 'rejected') THEN
+    IF TG_OP = 'INSERT' OR v_recheck OR OLD.status IS DISTINCT FROM 'finalized' THEN
+      RAISE EXCEPTION 'Invoice % needs pricing approval before it can be finalized', NEW.invoice_number;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_quotes_pricing_guardrails
+BEFORE INSERT OR UPDATE ON public.quotes
+FOR EACH ROW EXECUTE FUNCTION public.apply_pricing_guardrails();
+
+CREATE TRIGGER trg_invoices_pricing_guardrails
+BEFORE INSERT OR UPDATE ON public.invoices
+FOR EACH ROW EXECUTE FUNCTION public.apply_pricing_guardrails();
+
+-- Owners approve or reject; the salesperson who triggered the request is notified
+CREATE OR REPLACE FUNCTION public.decide_pricing_approval(
+  _document_type text,
+  _document_id uuid,
+  _approve boolean,
+  _note text DEFAULT NULL
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_doc jsonb;
+  v_tenant_id uuid;
+  v_number text;
+  v_status text;
+  v_requested_by uuid;
+  v_note text := NULLIF(trim(COALESCE(_note, '')), '');
+  v_result text := CASE WHEN _approve THEN 'approved' ELSE 'rejected' END;
+BEGIN
+  IF _document_type = 'quote' THEN
+    SELECT to_jsonb(q) INTO v_doc FROM public.quotes q WHERE q.id = _document_id FOR UPDATE;
+  ELSIF _document_type = 'invoice' THEN
+    SELECT to_jsonb(i) INTO v_doc FROM public.invoices i WHERE i.id = _document_id FOR UPDATE;
+  ELSE
+    RAISE EXCEPTION 'Unknown document type %', _document_type;
+  END IF;
+  IF v_doc IS NULL THEN
+    RAISE EXCEPTION 'Document not found';
+  END IF;
+
+  v_tenant_id := (v_doc->>'tenant_id')::uuid;
+  v_number := v_doc->>(_document_type || '_number');
+  v_status := v_doc->>'pricing_approval_status';
+  v_requested_by := (v_doc->>'pricing_approval_requested_by')::uuid;
+
+  IF NOT has_tenant_role(v_tenant_id, auth.uid(), ARRAY['owner','developer']::app_role[]) THEN
+    RAISE EXCEPTION 'Only owners can approve pricing on %', v_number;
+  END IF;
+  -- A rejection can later be overturned; an approval stands until the pricing changes
+  IF v_status <> 'pending' AND NOT (_approve AND v_status = 'rejected') THEN
+    RAISE EXCEPTION 'Pricing on % is not waiting for approval', v_number;
+  END IF;
+  IF NOT _approve AND v_note IS NULL THEN
+    RAISE EXCEPTION 'Add a note saying why the pricing was rejected';
+  END IF;
+
+  PERFORM set_config('app.pricing_decision', 'on', true);
+  IF _document_type = 'quote' THEN
+    UPDATE public.quotes
+    SET pricing_approval_status = v_result,
+        pricing_approval_decided_by = auth.uid(),
+        pricing_approval_decided_at = now(),
+        pricing_approval_note = v_note
+    WHERE id = _document_id;
+  ELSE
+    UPDATE public.invoices
+    SET pricing_approval_status = v_result,
+        pricing_approval_decided_by = auth.uid(),
+        pricing_approval_decided_at = now(),
+        pricing_approval_note = v_note
+    WHERE id = _document_id;
+  END IF;
+  PERFORM set_config('app.pricing_decision', 'off', true);
+
+  IF v_requested_by IS NOT NULL AND v_requested_by <> auth.uid() THEN
+    INSERT INTO public.user_notifications (tenant_id, user_id, title, body, link)
+    VALUES (
+      v_tenant_id,
+      v_requested_by,
+      format('Pricing %s on %s %s', v_result, CASE WHEN _document_type = 'quote' THEN 'quote' ELSE 'invoice' END, v_number),
+      v_note,
+      CASE WHEN _document_type = 'quote' THEN '/quotes' ELSE '/' END
+    );
+  END IF;
+
+  RETURN v_result;
+END;
+$$;
+
+-- ============================================================
+-- Keep unapproved pricing away from customers
+-- ============================================================
+
+DROP POLICY "Portal customers can view their company quotes" ON public.quotes;
+CREATE POLICY "Portal customers can view their company quotes" ON public.quotes
+  FOR SELECT TO authenticated USING (
+    status <> 'draft'
+    AND pricing_approval_status NOT IN ('pending', 'rejected')
+    AND company_id IS NOT NULL
+    AND company_id = public.portal_company_id(tenant_id)
+  );
+
+CREATE OR REPLACE FUNCTION public.respond_to_quote(_quote_id uuid, _accept boolean, _note text DEFAULT NULL)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quote public.quotes%ROWTYPE;
+  v_status text;
+BEGIN
+  SELECT * INTO v_quote FROM public.quotes WHERE id = _quote_id FOR UPDATE;
+  IF NOT FOUND OR v_quote.company_id IS NULL
+     OR v_quote.company_id IS DISTINCT FROM public.portal_company_id(v_quote.tenant_id)
+     OR v_quote.pricing_approval_status IN ('pending', 'rejected') THEN
+    RAISE EXCEPTION 'Quote not found';
+  END IF;
+
+  IF v_quote.status <> 'pending' THEN
+    RAISE EXCEPTION 'Quote % is % and can no longer be answered', v_quote.quote_number, v_quote.status;
+  END IF;
+
+  IF v_quote.expires_at IS NOT NULL AND v_quote.expires_at < now() THEN
+    RAISE EXCEPTION 'Quote % has expired', v_quote.quote_number;
+  END IF;
+
+  v_status := CASE WHEN _accept THEN 'approved' ELSE 'rejected' END;
+
+  UPDATE public.quotes
+  SET status = v_status,
+      customer_responded_at = now(),
+      customer_responded_by = auth.uid(),
+      customer_response_note = NULLIF(trim(COALESCE(_note, '')), '')
+  WHERE id = _quote_id;
+
+  RETURN v_status;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_quote_acceptance_link(
+  _quote_id uuid,
+  _expires_at timestamptz,
+  _convert_on_accept boolean DEFAULT false
+)
+RETURNS public.quote_acceptance_links
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quote public.quotes%ROWTYPE;
+  v_link public.quote_acceptance_links%ROWTYPE;
+BEGIN
+  SELECT * INTO v_quote FROM public.quotes WHERE id = _quote_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quote not found';
+  END IF;
+
+  IF NOT public.has_tenant_role(v_quote.tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]) THEN
+    RAISE EXCEPTION 'Not authorized to share this quote';
+  END IF;
+
+  IF v_quote.status <> 'pending' OR v_quote.revision < 1 THEN
+    RAISE EXCEPTION 'Only pending quotes can be sent for acceptance';
+  END IF;
+
+  IF v_quote.pricing_approval_status IN ('pending', 'rejected') THEN
+    RAISE EXCEPTION 'Quote % is waiting on pricing approval', v_quote.quote_number;
+  END IF;
+
+  IF _expires_at <= now() THEN
+    RAISE EXCEPTION 'Link expiry must be in the future';
+  END IF;
+
+  INSERT INTO public.quote_acceptance_links (tenant_id, quote_id, token, revision, expires_at, convert_on_accept)
+  VALUES (
+    v_quote.tenant_id,
+    v_quote.id,
+    -- 244 random bits, URL-safe
+    replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+    v_quote.revision,
+    _expires_at,
+    COALESCE(_convert_on_accept, false)
+  )
+  RETURNING * INTO v_link;
+
+  RETURN v_link;
+END;
+$$;
@@ -0,0 +1,124 @@
+-- ============================================================
+-- Recurring invoices
+-- A schedule holds the customer and a template line set. The daily
+-- recurring-invoices job drafts an invoice for each period that has come due
+-- (billing in advance), logs it in recurring_invoice_runs and moves
+-- next_run_date on to the following period. Staff can pause, cancel or skip
+-- the next period; skipped periods are logged too.
+-- ============================================================
+
+CREATE TABLE public.recurring_invoices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES public.tenants(id) ON DELETE RESTRICT,
+  name text NOT NULL,
+  customer_name text NOT NULL,
+  customer_email text,
+  customer_phone text,
+  customer_address text,
+  ship_to_name text,
+  ship_to_address text,
+  salesman_name text,
+  -- Template lines: [{ partNumber, description, sellPrice, quantity, taxable }]
+  items jsonb NOT NULL DEFAULT '[]'::jsonb,
+  discount numeric(10,2) NOT NULL DEFAULT 0 CHECK (discount >= 0),
+  shipping numeric(10,2) NOT NULL DEFAULT 0 CHECK (shipping >= 0),
+  notes text,
+  frequency text NOT NULL CHECK (frequency IN ('monthly', 'quarterly', 'annual')),
+  start_date date NOT NULL,
+  end_date date,
+  -- Day of the month full periods start on; only used when the first period is prorated
+  billing_day smallint NOT NULL DEFAULT 1 CHECK (billing_day BETWEEN 1 AND 28),
+  prorate_first_period boolean NOT NULL DEFAULT false,
+  -- Start of the next period to bill; the job drafts it on this date
+  next_run_date date NOT NULL,
+  status text NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'paused', 'cancelled', 'completed')),
+  last_run_at timestamptz,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (end_date IS NULL OR end_date >= start_date),
+  CHECK (next_run_date >= start_date)
+);
+
+CREATE INDEX idx_recurring_invoices_tenant ON public.recurring_invoices(tenant_id);
+CREATE INDEX idx_recurring_invoices_due ON public.recurring_invoices(next_run_date) WHERE status = 'active';
+
+ALTER TABLE public.recurring_invoices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant members can view recurring invoices" ON public.recurring_invoices
+  FOR SELECT TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+CREATE POLICY "Tenant members can insert recurring invoices" ON public.recurring_invoices
+  FOR INSERT TO authenticated WITH CHECK (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+CREATE POLICY "Tenant members can update recurring invoices" ON public.recurring_invoices
+  FOR UPDATE TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+CREATE POLICY "Tenant owners can delete recurring invoices" ON public.recurring_invoices
+  FOR DELETE TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner']::app_role[]));
+
+CREATE TRIGGER update_recurring_invoices_updated_at
+BEFORE UPDATE ON public.recurring_invoices
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- One row per billed or skipped period; written by the job and skip_recurring_invoice_period
+CREATE TABLE public.recurring_invoice_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES public.tenants(id) ON DELETE RESTRICT,
+  recurring_invoice_id uuid NOT NULL REFERENCES public.recurring_invoices(id) ON DELETE CASCADE,
+  period_start date NOT NULL,
+  period_end date NOT NULL,
+  status text NOT NULL CHECK (status IN ('generated', 'skipped', 'failed')),
+  invoice_id uuid REFERENCES public.invoices(id) ON DELETE SET NULL,
+  -- Share of a full period billed; below 1 only for a prorated first period
+  proration_factor numeric(6,4) NOT NULL DEFAULT 1,
+  error text,
+  created_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (recurring_invoice_id, period_start),
+  CHECK (period_end >= period_start)
+);
+
+CREATE INDEX idx_recurring_invoice_runs_schedule ON public.recurring_invoice_runs(recurring_invoice_id, period_start DESC);
+
+ALTER TABLE public.recurring_invoice_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant members can view recurring invoice runs" ON public.recurring_invoice_runs
+  FOR SELECT TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+
+-- The client works out the period's end (getRecurringPeriod) so the rules
+-- stay in one place alongside the job's copy
+CREATE OR REPLACE FUNCTION public.skip_recurring_invoice_period(_recurring_invoice_id uuid, _period_end date)
+RETURNS date
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_schedule public.recurring_invoices%ROWTYPE;
+  v_next date;
+BEGIN
+  SELECT * INTO v_schedule FROM public.recurring_invoices WHERE id = _recurring_invoice_id FOR UPDATE;
+  IF NOT FOUND OR NOT has_tenant_role(v_schedule.tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]) THEN
+    RAISE EXCEPTION 'Recurring invoice not found';
+  END IF;
+  IF v_schedule.status NOT IN ('active', 'paused') THEN
+    RAISE EXCEPTION 'Only active or paused schedules can skip a period';
+  END IF;
+  IF _period_end < v_schedule.next_run_date OR _period_end > (v_schedule.next_run_date + interval '1 year')::date THEN
+    RAISE EXCEPTION 'Invalid period end %', _period_end;
+  END IF;
+
+  INSERT INTO public.recurring_invoice_runs (
+    tenant_id, recurring_invoice_id, period_start, period_end, status, created_by
+  ) VALUES (
+    v_schedule.tenant_id, v_schedule.id, v_schedule.next_run_date, _period_end, 'skipped', auth.uid()
+  );
+
+  v_next := _period_end + 1;
+  UPDATE public.recurring_invoices
+  SET next_run_date = v_next,
+      status = CASE WHEN end_date IS NOT NULL AND v_next > end_date THEN 'completed' ELSE status END
+  WHERE id = v_schedule.id;
+
+  RETURN v_next;
+END;
+$$;
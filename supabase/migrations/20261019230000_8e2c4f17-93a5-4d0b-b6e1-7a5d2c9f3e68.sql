@@ -0,0 +1,484 @@
+-- ============================================================
+-- Sales orders
+-- An accepted quote becomes a sales order before it is invoiced. Creating the
+-- order reserves its serialized units so they can't be sold elsewhere while
+-- they are picked. Each shipment is invoiced separately; lines not yet shipped
+-- stay on the order as a backorder. Orders, lines and shipments are written
+-- only through the functions below.
+-- ============================================================
+
+CREATE TABLE public.sales_orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES public.tenants(id) ON DELETE RESTRICT,
+  order_number text NOT NULL,
+  source_quote_id uuid REFERENCES public.quotes(id) ON DELETE SET NULL,
+  company_id uuid REFERENCES public.companies(id) ON DELETE SET NULL,
+  customer_name text NOT NULL,
+  customer_email text,
+  customer_phone text,
+  customer_address text,
+  ship_to_name text,
+  ship_to_address text,
+  salesman_name text,
+  -- Spread over shipments by value; shipping is charged on the first shipment
+  discount numeric(10,2) NOT NULL DEFAULT 0,
+  shipping numeric(10,2) NOT NULL DEFAULT 0,
+  notes text,
+  status text NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'partially_shipped', 'shipped', 'cancelled')),
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  cancelled_at timestamptz,
+  cancelled_by uuid
+);
+
+CREATE INDEX idx_sales_orders_tenant ON public.sales_orders(tenant_id, status);
+CREATE INDEX idx_sales_orders_quote ON public.sales_orders(source_quote_id);
+
+CREATE TABLE public.sales_order_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES public.tenants(id) ON DELETE RESTRICT,
+  sales_order_id uuid NOT NULL REFERENCES public.sales_orders(id) ON DELETE CASCADE,
+  line_number integer NOT NULL,
+  item_id uuid REFERENCES public.items(id) ON DELETE SET NULL,
+  part_number text NOT NULL,
+  serial_number text,
+  description text,
+  unit_price numeric(10,2) NOT NULL DEFAULT 0,
+  quantity integer NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  quantity_shipped integer NOT NULL DEFAULT 0,
+  taxable boolean NOT NULL DEFAULT true,
+  CHECK (quantity_shipped BETWEEN 0 AND quantity)
+);
+
+CREATE INDEX idx_sales_order_lines_order ON public.sales_order_lines(sales_order_id, line_number);
+
+CREATE TABLE public.sales_order_shipments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES public.tenants(id) ON DELETE RESTRICT,
+  sales_order_id uuid NOT NULL REFERENCES public.sales_orders(id) ON DELETE CASCADE,
+  shipment_number text NOT NULL,
+  invoice_id uuid REFERENCES public.invoices(id) ON DELETE SET NULL,
+  carrier text,
+  tracking_number text,
+  shipped_by uuid DEFAULT auth.uid(),
+  shipped_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_sales_order_shipments_order ON public.sales_order_shipments(sales_order_id, shipped_at);
+
+CREATE TABLE public.sales_order_shipment_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES public.tenants(id) ON DELETE RESTRICT,
+  shipment_id uuid NOT NULL REFERENCES public.sales_order_shipments(id) ON DELETE CASCADE,
+  sales_order_line_id uuid NOT NULL REFERENCES public.sales_order_lines(id) ON DELETE CASCADE,
+  quantity integer NOT NULL CHECK (quantity > 0)
+);
+
+CREATE INDEX idx_sales_order_shipment_lines_shipment ON public.sales_order_shipment_lines(shipment_id);
+
+ALTER TABLE public.sales_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sales_order_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sales_order_shipments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sales_order_shipment_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant members can view sales orders" ON public.sales_orders
+  FOR SELECT TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+CREATE POLICY "Tenant members can view sales order lines" ON public.sales_order_lines
+  FOR SELECT TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+CREATE POLICY "Tenant members can view sales order shipments" ON public.sales_order_shipments
+  FOR SELECT TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+CREATE POLICY "Tenant members can view sales order shipment lines" ON public.sales_order_shipment_lines
+  FOR SELECT TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+
+CREATE TRIGGER update_sales_orders_updated_at
+BEFORE UPDATE ON public.sales_orders
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER trg_sales_orders_set_company
+BEFORE INSERT OR UPDATE ON public.sales_orders
+FOR EACH ROW EXECUTE FUNCTION public.set_document_company();
+
+-- Shipment invoices point back at their order
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS sales_order_id uuid REFERENCES public.sales_orders(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_sales_order ON public.invoices(sales_order_id) WHERE sales_order_id IS NOT NULL;
+
+-- Same as before, except that a shipment invoice inherits the quote's approval
+-- when its exceptions are among the quote's (see the sales order branch)
+CREATE OR REPLACE FUNCTION public.apply_pricing_guardrails()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_decision boolean;
+  v_recheck boolean;
+  v_violations jsonb;
+  v_source public.quotes%ROWTYPE;
+  v_label text := CASE WHEN TG_TABLE_NAME = 'quotes' THEN 'Quote' ELSE 'Invoice' END;
+  v_number text;
+BEGIN
+  v_decision := COALESCE(current_setting('app.pricing_decision', true), '') = 'on'
+    AND has_tenant_role(NEW.tenant_id, auth.uid(), ARRAY['owner','developer']::app_role[]);
+
+  IF NOT v_decision THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.pricing_approval_status := 'not_required';
+      NEW.pricing_violations := '[]'::jsonb;
+      NEW.pricing_approval_requested_by := NULL;
+      NEW.pricing_approval_requested_at := NULL;
+      NEW.pricing_approval_decided_by := NULL;
+      NEW.pricing_approval_decided_at := NULL;
+      NEW.pricing_approval_note := NULL;
+    ELSE
+      NEW.pricing_approval_status := OLD.pricing_approval_status;
+      NEW.pricing_violations := OLD.pricing_violations;
+      NEW.pricing_approval_requested_by := OLD.pricing_approval_requested_by;
+      NEW.pricing_approval_requested_at := OLD.pricing_approval_requested_at;
+      NEW.pricing_approval_decided_by := OLD.pricing_approval_decided_by;
+      NEW.pricing_approval_decided_at := OLD.pricing_approval_decided_at;
+      NEW.pricing_approval_note := OLD.pricing_approval_note;
+    END IF;
+  END IF;
+
+  IF v_decision THEN
+    v_recheck := false;
+  ELSIF TG_OP = 'INSERT' THEN
+    v_recheck := true;
+  ELSE
+    v_recheck := NEW.items IS DISTINCT FROM OLD.items OR COALESCE(NEW.discount, 0) <> COALESCE(OLD.discount, 0);
+  END IF;
+
+  IF v_recheck THEN
+    v_violations := public.pricing_guardrail_violations(NEW.tenant_id, NEW.items, NEW.discount);
+
+    IF jsonb_array_length(v_violations) = 0 THEN
+      NEW.pricing_approval_status := 'not_required';
+      NEW.pricing_approval_requested_by := NULL;
+      NEW.pricing_approval_requested_at := NULL;
+      NEW.pricing_approval_decided_by := NULL;
+      NEW.pricing_approval_decided_at := NULL;
+      NEW.pricing_approval_note := NULL;
+    ELSIF NEW.pricing_approval_status IN ('approved', 'rejected') AND v_violations = NEW.pricing_violations THEN
+      -- The owner already ruled on exactly these exceptions
+      NULL;
+    ELSIF has_tenant_role(NEW.tenant_id, auth.uid(), ARRAY['owner','developer']::app_role[]) THEN
+      -- Owners price below the floor on their own authority
+      NEW.pricing_approval_status := 'approved';
+      NEW.pricing_approval_requested_by := auth.uid();
+      NEW.pricing_approval_requested_at := now();
+      NEW.pricing_approval_decided_by := auth.uid();
+      NEW.pricing_approval_decided_at := now();
+      NEW.pricing_approval_note := NULL;
+    ELSE
+      -- Quotes have no source_quote_id, so the column is only read for invoices
+      IF TG_TABLE_NAME = 'invoices' THEN
+        SELECT * INTO v_source FROM public.quotes
+        WHERE id = NEW.source_quote_id
+          AND tenant_id = NEW.tenant_id
+          AND pricing_approval_status = 'approved'
+          AND pricing_violations = v_violations;
+
+        -- A sales order shipment only carries part of the quote, so its
+        -- exceptions need only be among the ones approved on the quote
+        IF v_source.id IS NULL AND NEW.sales_order_id IS NOT NULL THEN
+          SELECT q.* INTO v_source
+          FROM public.sales_orders so
+          JOIN public.quotes q ON q.id = so.source_quote_id
+          WHERE so.id = NEW.sales_order_id
+            AND q.id = NEW.source_quote_id
+            AND q.tenant_id = NEW.tenant_id
+            AND q.pricing_approval_status = 'approved'
+            AND NOT EXISTS (
+              SELECT 1 FROM jsonb_array_elements(v_violations) v
+              WHERE NOT EXISTS (
+                SELECT 1 FROM jsonb_array_elements(q.pricing_violations) a
+                WHERE a->>'code' = v->>'code'
+                  AND (a->>'itemId') IS NOT DISTINCT FROM (v->>'itemId')
+              )
+            );
+        END IF;
+      END IF;
+
+      IF v_source.id IS NOT NULL THEN
+        -- Converted from a quote whose identical exceptions were approved
+        NEW.pricing_approval_status := 'approved';
+        NEW.pricing_approval_requested_by := v_source.pricing_approval_requested_by;
+        NEW.pricing_approval_requested_at := v_source.pricing_approval_requested_at;
+        NEW.pricing_approval_decided_by := v_source.pricing_approval_decided_by;
+        NEW.pricing_approval_decided_at := v_source.pricing_approval_decided_at;
+        NEW.pricing_approval_note := v_source.pricing_approval_note;
+      ELSE
+        IF NEW.pricing_approval_status <> 'pending' THEN
+          NEW.pricing_approval_requested_by := auth.uid();
+          NEW.pricing_approval_requested_at := now();
+          v_number := to_jsonb(NEW) ->> CASE WHEN TG_TABLE_NAME = 'quotes' THEN 'quote_number' ELSE 'invoice_number' END;
+
+          INSERT INTO public.user_notifications (tenant_id, user_id, title, body, link)
+          SELECT NEW.tenant_id, m.user_id,
+            format('%s %s needs pricing approval', v_label, v_number),
+            v_violations->0->>'message',
+            CASE WHEN TG_TABLE_NAME = 'quotes' THEN '/quotes' ELSE '/' END
+          FROM public.tenant_members m
+          WHERE m.tenant_id = NEW.tenant_id
+            AND m.status = 'active'
+            AND m.role = 'owner'
+            AND m.user_id IS DISTINCT FROM auth.uid();
+        END IF;
+        NEW.pricing_approval_status := 'pending';
+        NEW.pricing_approval_decided_by := NULL;
+        NEW.pricing_approval_decided_at := NULL;
+        NEW.pricing_approval_note := NULL;
+      END IF;
+    END IF;
+
+    NEW.pricing_violations := v_violations;
+  END IF;
+
+  IF TG_TABLE_NAME = 'invoices' AND NEW.status = 'finalized'
+     AND NEW.pricing_approval_status IN ('pending', 'rejected') THEN
+    IF TG_OP = 'INSERT' OR v_recheck OR OLD.status IS DISTINCT FROM 'finalized' THEN
+      RAISE EXCEPTION 'Invoice % needs pricing approval before it can be finalized', NEW.invoice_number;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================================
+-- Reservations. A reserved serialized unit can only be sold on an invoice
+-- for its own order; selling it clears the reservation.
+-- ============================================================
+
+ALTER TABLE public.items
+  ADD COLUMN IF NOT EXISTS reserved_sales_order_id uuid REFERENCES public.sales_orders(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_items_reserved_sales_order ON public.items(reserved_sales_order_id) WHERE reserved_sales_order_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.guard_reserved_item_sale()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.tracking_mode = 'serialized'
+     AND NEW.status = 'sold' AND OLD.status IS DISTINCT FROM 'sold'
+     AND OLD.reserved_sales_order_id IS NOT NULL THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.invoices
+      WHERE id = NEW.sold_in_invoice_id AND sales_order_id = OLD.reserved_sales_order_id
+    ) THEN
+      RAISE EXCEPTION '% (%) is reserved on sales order %',
+        NEW.part_number, COALESCE(NEW.serial_number, 'no serial'),
+        (SELECT order_number FROM public.sales_orders WHERE id = OLD.reserved_sales_order_id);
+    END IF;
+    NEW.reserved_sales_order_id := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_items_guard_reserved_sale
+BEFORE UPDATE ON public.items
+FOR EACH ROW EXECUTE FUNCTION public.guard_reserved_item_sale();
+
+-- ============================================================
+-- Order lifecycle
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.create_sales_order_from_quote(_quote_id uuid, _order_number text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quote public.quotes%ROWTYPE;
+  v_order_id uuid;
+  v_item public.items%ROWTYPE;
+  v_line jsonb;
+  v_line_number integer := 0;
+  v_item_id uuid;
+BEGIN
+  SELECT * INTO v_quote FROM public.quotes WHERE id = _quote_id FOR UPDATE;
+  IF NOT FOUND OR NOT has_tenant_role(v_quote.tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]) THEN
+    RAISE EXCEPTION 'Quote not found';
+  END IF;
+  IF v_quote.status NOT IN ('pending', 'approved') THEN
+    RAISE EXCEPTION 'Quote % is %', v_quote.quote_number, v_quote.status;
+  END IF;
+  IF v_quote.pricing_approval_status IN ('pending', 'rejected') THEN
+    RAISE EXCEPTION 'Quote % is waiting for pricing approval', v_quote.quote_number;
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.sales_orders WHERE source_quote_id = _quote_id AND status <> 'cancelled') THEN
+    RAISE EXCEPTION 'Quote % already has a sales order', v_quote.quote_number;
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.invoices WHERE source_quote_id = _quote_id AND status = 'finalized') THEN
+    RAISE EXCEPTION 'Quote % has already been invoiced', v_quote.quote_number;
+  END IF;
+  IF jsonb_array_length(COALESCE(v_quote.items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Quote % has no lines', v_quote.quote_number;
+  END IF;
+
+  INSERT INTO public.sales_orders (
+    tenant_id, order_number, source_quote_id, company_id, customer_name, customer_email, customer_phone,
+    customer_address, ship_to_name, ship_to_address, salesman_name, discount, shipping, notes
+  ) VALUES (
+    v_quote.tenant_id, _order_number, v_quote.id, v_quote.company_id, v_quote.customer_name, v_quote.customer_email,
+    v_quote.customer_phone, v_quote.customer_address, v_quote.ship_to_name, v_quote.ship_to_address,
+    v_quote.salesman_name, COALESCE(v_quote.discount, 0), COALESCE(v_quote.shipping, 0), v_quote.notes
+  )
+  RETURNING id INTO v_order_id;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_quote.items) LOOP
+    v_line_number := v_line_number + 1;
+    v_item_id := NULL;
+    SELECT * INTO v_item FROM public.items
+    WHERE id::text = v_line->>'id' AND tenant_id = v_quote.tenant_id
+    FOR UPDATE;
+
+    IF FOUND THEN
+      v_item_id := v_item.id;
+      IF v_item.tracking_mode = 'serialized' THEN
+        IF v_item.status <> 'available' OR v_item.in_transit_transfer_id IS NOT NULL OR v_item.reserved_sales_order_id IS NOT NULL THEN
+          RAISE EXCEPTION '% (%) is no longer available', v_item.part_number, COALESCE(v_item.serial_number, 'no serial');
+        END IF;
+        UPDATE public.items SET reserved_sales_order_id = v_order_id WHERE id = v_item.id;
+      END IF;
+    END IF;
+
+    INSERT INTO public.sales_order_lines (
+      tenant_id, sales_order_id, line_number, item_id, part_number, serial_number, description,
+      unit_price, quantity, taxable
+    ) VALUES (
+      v_quote.tenant_id, v_order_id, v_line_number, v_item_id,
+      COALESCE(v_line->>'partNumber', ''), NULLIF(v_line->>'serialNumber', ''), v_line->>'description',
+      COALESCE(NULLIF(v_line->>'sellPrice', '')::numeric, 0),
+      COALESCE(NULLIF(v_line->>'quantity', '')::integer, 1),
+      COALESCE((v_line->>'taxable')::boolean, true)
+    );
+  END LOOP;
+
+  UPDATE public.quotes SET status = 'approved' WHERE id = _quote_id AND status <> 'approved';
+
+  RETURN v_order_id;
+END;
+$$;
+
+-- Called once the shipment's invoice has been finalized. _lines is
+-- [{ "lineId": uuid, "quantity": int }]. Shipped serialized units are sold on
+-- that invoice, which releases their reservation.
+CREATE OR REPLACE FUNCTION public.record_sales_order_shipment(
+  _sales_order_id uuid,
+  _invoice_id uuid,
+  _lines jsonb,
+  _carrier text DEFAULT NULL,
+  _tracking_number text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.sales_orders%ROWTYPE;
+  v_line public.sales_order_lines%ROWTYPE;
+  v_entry jsonb;
+  v_quantity integer;
+  v_shipment_id uuid;
+  v_count integer;
+BEGIN
+  SELECT * INTO v_order FROM public.sales_orders WHERE id = _sales_order_id FOR UPDATE;
+  IF NOT FOUND OR NOT has_tenant_role(v_order.tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]) THEN
+    RAISE EXCEPTION 'Sales order not found';
+  END IF;
+  IF v_order.status NOT IN ('open', 'partially_shipped') THEN
+    RAISE EXCEPTION 'Sales order % is %', v_order.order_number, v_order.status;
+  END IF;
+  IF NOT EXISTS (
+    SELECT 1 FROM public.invoices
+    WHERE id = _invoice_id AND sales_order_id = _sales_order_id AND status = 'finalized'
+  ) THEN
+    RAISE EXCEPTION 'The shipment needs a finalized invoice for sales order %', v_order.order_number;
+  END IF;
+  IF jsonb_array_length(COALESCE(_lines, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Nothing to ship';
+  END IF;
+
+  SELECT count(*) INTO v_count FROM public.sales_order_shipments WHERE sales_order_id = _sales_order_id;
+
+  INSERT INTO public.sales_order_shipments (
+    tenant_id, sales_order_id, shipment_number, invoice_id, carrier, tracking_number
+  ) VALUES (
+    v_order.tenant_id, _sales_order_id, v_order.order_number || '-' || (v_count + 1),
+    _invoice_id, NULLIF(trim(_carrier), ''), NULLIF(trim(_tracking_number), '')
+  )
+  RETURNING id INTO v_shipment_id;
+
+  FOR v_entry IN SELECT * FROM jsonb_array_elements(_lines) LOOP
+    v_quantity := (v_entry->>'quantity')::integer;
+    SELECT * INTO v_line FROM public.sales_order_lines
+    WHERE id = (v_entry->>'lineId')::uuid AND sales_order_id = _sales_order_id
+    FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Line % is not on sales order %', v_entry->>'lineId', v_order.order_number;
+    END IF;
+    IF v_quantity IS NULL OR v_quantity <= 0 OR v_quantity > v_line.quantity - v_line.quantity_shipped THEN
+      RAISE EXCEPTION 'Can''t ship % of % (% left to ship)',
+        COALESCE(v_quantity, 0), v_line.part_number, v_line.quantity - v_line.quantity_shipped;
+    END IF;
+
+    UPDATE public.sales_order_lines SET quantity_shipped = quantity_shipped + v_quantity WHERE id = v_line.id;
+    INSERT INTO public.sales_order_shipment_lines (tenant_id, shipment_id, sales_order_line_id, quantity)
+    VALUES (v_order.tenant_id, v_shipment_id, v_line.id, v_quantity);
+
+    IF v_line.item_id IS NOT NULL THEN
+      UPDATE public.items
+      SET status = 'sold', date_sold = now(), sold_in_invoice_id = _invoice_id
+      WHERE id = v_line.item_id AND tracking_mode = 'serialized';
+    END IF;
+  END LOOP;
+
+  UPDATE public.sales_orders
+  SET status = CASE
+    WHEN EXISTS (SELECT 1 FROM public.sales_order_lines WHERE sales_order_id = _sales_order_id AND quantity_shipped < quantity)
+      THEN 'partially_shipped'
+    ELSE 'shipped'
+  END
+  WHERE id = _sales_order_id;
+
+  RETURN v_shipment_id;
+END;
+$$;
+
+-- Closes the order and releases reserved units; shipments already made stand
+CREATE OR REPLACE FUNCTION public.cancel_sales_order(_sales_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.sales_orders%ROWTYPE;
+BEGIN
+  SELECT * INTO v_order FROM public.sales_orders WHERE id = _sales_order_id FOR UPDATE;
+  IF NOT FOUND OR NOT has_tenant_role(v_order.tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]) THEN
+    RAISE EXCEPTION 'Sales order not found';
+  END IF;
+  IF v_order.status NOT IN ('open', 'partially_shipped') THEN
+    RAISE EXCEPTION 'Sales order % is already %', v_order.order_number, v_order.status;
+  END IF;
+
+  UPDATE public.items SET reserved_sales_order_id = NULL WHERE reserved_sales_order_id = _sales_order_id;
+
+  UPDATE public.sales_orders
+  SET status = 'cancelled', cancelled_at = now(), cancelled_by = auth.uid()
+  WHERE id = _sales_order_id;
+END;
+$$;
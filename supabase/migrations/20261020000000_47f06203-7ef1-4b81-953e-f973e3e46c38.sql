@@ -0,0 +1,568 @@
+-- ============================================================
+-- Document numbering
+-- Numbers used to be built client-side from a timestamp, so two people saving
+-- at once could collide. Each tenant now has a counter per document type with
+-- a configurable pattern; a BEFORE INSERT trigger assigns the next number in
+-- the same transaction as the insert, so a failed save never burns a number.
+-- Numbers can be reserved ahead of time for drafts written offline; released
+-- reservations are handed out again before the counter moves on.
+-- ============================================================
+
+CREATE TABLE public.document_sequences (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES public.tenants(id) ON DELETE RESTRICT,
+  document_type text NOT NULL CHECK (document_type IN (
+    'quote', 'invoice', 'purchase_order', 'sales_order', 'stock_transfer',
+    'rma', 'credit_memo', 'cycle_count', 'stock_adjustment'
+  )),
+  -- Tokens: {YYYY}, {YY}, {MM} and a zero run such as {0000} for the padded counter
+  pattern text NOT NULL CHECK (pattern ~ '\{0+\}'),
+  next_value bigint NOT NULL DEFAULT 1 CHECK (next_value >= 1),
+  -- Start again at 1 each January; the pattern must then include the year
+  reset_yearly boolean NOT NULL DEFAULT false,
+  current_year integer NOT NULL DEFAULT extract(year FROM now())::integer,
+  updated_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (tenant_id, document_type),
+  CHECK (NOT reset_yearly OR pattern LIKE '%{YYYY}%' OR pattern LIKE '%{YY}%')
+);
+
+ALTER TABLE public.document_sequences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant members can view document sequences" ON public.document_sequences
+  FOR SELECT TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+CREATE POLICY "Tenant owners can insert document sequences" ON public.document_sequences
+  FOR INSERT TO authenticated WITH CHECK (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner']::app_role[]));
+CREATE POLICY "Tenant owners can update document sequences" ON public.document_sequences
+  FOR UPDATE TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner']::app_role[]));
+
+GRANT SELECT, INSERT, UPDATE ON public.document_sequences TO authenticated;
+GRANT ALL ON public.document_sequences TO service_role;
+
+CREATE TRIGGER update_document_sequences_updated_at
+  BEFORE UPDATE ON public.document_sequences
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE public.document_number_reservations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES public.tenants(id) ON DELETE RESTRICT,
+  document_type text NOT NULL,
+  document_number text NOT NULL,
+  status text NOT NULL DEFAULT 'reserved' CHECK (status IN ('reserved', 'used', 'released')),
+  reserved_by uuid DEFAULT auth.uid(),
+  reserved_at timestamptz NOT NULL DEFAULT now(),
+  used_at timestamptz,
+  UNIQUE (tenant_id, document_type, document_number)
+);
+
+CREATE INDEX idx_document_number_reservations_open
+  ON public.document_number_reservations(tenant_id, document_type, status);
+
+ALTER TABLE public.document_number_reservations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant members can view document number reservations" ON public.document_number_reservations
+  FOR SELECT TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+
+GRANT SELECT ON public.document_number_reservations TO authenticated;
+GRANT ALL ON public.document_number_reservations TO service_role;
+
+CREATE OR REPLACE FUNCTION public.default_document_pattern(_document_type text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE _document_type
+    WHEN 'quote' THEN 'QTE-{YYYY}-{0000}'
+    WHEN 'invoice' THEN 'INV-{YYYY}-{0000}'
+    WHEN 'purchase_order' THEN 'PO-{YYYY}-{0000}'
+    WHEN 'sales_order' THEN 'SO-{YYYY}-{0000}'
+    WHEN 'stock_transfer' THEN 'TR-{00000}'
+    WHEN 'rma' THEN 'RMA-{00000}'
+    WHEN 'credit_memo' THEN 'CM-{00000}'
+    WHEN 'cycle_count' THEN 'CC-{00000}'
+    WHEN 'stock_adjustment' THEN 'ADJ-{00000}'
+  END;
+$$;
+
+-- Mirrored by formatDocumentNumber in src/lib/document-numbering.ts
+CREATE OR REPLACE FUNCTION public.format_document_number(_pattern text, _value bigint, _date date)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_result text;
+  v_zeros text;
+BEGIN
+  v_result := replace(_pattern, '{YYYY}', to_char(_date, 'YYYY'));
+  v_result := replace(v_result, '{YY}', to_char(_date, 'YY'));
+  v_result := replace(v_result, '{MM}', to_char(_date, 'MM'));
+  v_zeros := substring(v_result FROM '\{(0+)\}');
+  RETURN regexp_replace(
+    v_result, '\{0+\}',
+    lpad(_value::text, greatest(length(v_zeros), length(_value::text)), '0')
+  );
+END;
+$$;
+
+-- Hands out the next number for a tenant and document type. Only called from
+-- the numbering trigger and the reservation function, never by clients.
+CREATE OR REPLACE FUNCTION public.allocate_document_number(_tenant_id uuid, _document_type text)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_seq public.document_sequences%ROWTYPE;
+  v_reservation public.document_number_reservations%ROWTYPE;
+  v_year integer := extract(year FROM now())::integer;
+  v_number text;
+BEGIN
+  -- Fill gaps left by released reservations first
+  SELECT * INTO v_reservation FROM public.document_number_reservations
+  WHERE tenant_id = _tenant_id AND document_type = _document_type AND status = 'released'
+  ORDER BY document_number
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+  IF FOUND THEN
+    UPDATE public.document_number_reservations
+    SET status = 'used', used_at = now()
+    WHERE id = v_reservation.id;
+    RETURN v_reservation.document_number;
+  END IF;
+
+  INSERT INTO public.document_sequences (tenant_id, document_type, pattern, reset_yearly, updated_by)
+  VALUES (
+    _tenant_id, _document_type, public.default_document_pattern(_document_type),
+    public.default_document_pattern(_document_type) LIKE '%{YYYY}%', NULL
+  )
+  ON CONFLICT (tenant_id, document_type) DO NOTHING;
+
+  SELECT * INTO v_seq FROM public.document_sequences
+  WHERE tenant_id = _tenant_id AND document_type = _document_type
+  FOR UPDATE;
+
+  IF v_seq.reset_yearly AND v_seq.current_year <> v_year THEN
+    v_seq.next_value := 1;
+  END IF;
+
+  v_number := public.format_document_number(v_seq.pattern, v_seq.next_value, CURRENT_DATE);
+
+  UPDATE public.document_sequences
+  SET next_value = v_seq.next_value + 1, current_year = v_year
+  WHERE id = v_seq.id;
+
+  RETURN v_number;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.allocate_document_number(uuid, text) FROM anon, authenticated, PUBLIC;
+
+-- TG_ARGV: document type, number column. A blank number gets the next one in
+-- sequence; an explicit number (a reserved one typed in from an offline
+-- draft) is kept and its reservation marked used.
+CREATE OR REPLACE FUNCTION public.assign_document_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_type text := TG_ARGV[0];
+  v_column text := TG_ARGV[1];
+  v_number text := to_jsonb(NEW) ->> v_column;
+BEGIN
+  IF COALESCE(trim(v_number), '') = '' THEN
+    NEW := jsonb_populate_record(NEW, jsonb_build_object(
+      v_column, public.allocate_document_number(NEW.tenant_id, v_type)
+    ));
+  ELSE
+    UPDATE public.document_number_reservations
+    SET status = 'used', used_at = now()
+    WHERE tenant_id = NEW.tenant_id
+      AND document_type = v_type
+      AND document_number = v_number
+      AND status IN ('reserved', 'released');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Blank means "assign on insert"; the default lets clients leave it out
+ALTER TABLE public.quotes ALTER COLUMN quote_number SET DEFAULT '';
+ALTER TABLE public.invoices ALTER COLUMN invoice_number SET DEFAULT '';
+ALTER TABLE public.purchase_orders ALTER COLUMN po_number SET DEFAULT '';
+ALTER TABLE public.sales_orders ALTER COLUMN order_number SET DEFAULT '';
+ALTER TABLE public.stock_transfers ALTER COLUMN transfer_number SET DEFAULT '';
+ALTER TABLE public.rmas ALTER COLUMN rma_number SET DEFAULT '';
+ALTER TABLE public.credit_memos ALTER COLUMN credit_memo_number SET DEFAULT '';
+ALTER TABLE public.cycle_counts ALTER COLUMN count_number SET DEFAULT '';
+ALTER TABLE public.stock_adjustments ALTER COLUMN adjustment_number SET DEFAULT '';
+
+CREATE TRIGGER trg_quotes_assign_number
+BEFORE INSERT ON public.quotes
+FOR EACH ROW EXECUTE FUNCTION public.assign_document_number('quote', 'quote_number');
+
+CREATE TRIGGER trg_invoices_assign_number
+BEFORE INSERT ON public.invoices
+FOR EACH ROW EXECUTE FUNCTION public.assign_document_number('invoice', 'invoice_number');
+
+CREATE TRIGGER trg_purchase_orders_assign_number
+BEFORE INSERT ON public.purchase_orders
+FOR EACH ROW EXECUTE FUNCTION public.assign_document_number('purchase_order', 'po_number');
+
+CREATE TRIGGER trg_sales_orders_assign_number
+BEFORE INSERT ON public.sales_orders
+FOR EACH ROW EXECUTE FUNCTION public.assign_document_number('sales_order', 'order_number');
+
+CREATE TRIGGER trg_stock_transfers_assign_number
+BEFORE INSERT ON public.stock_transfers
+FOR EACH ROW EXECUTE FUNCTION public.assign_document_number('stock_transfer', 'transfer_number');
+
+CREATE TRIGGER trg_rmas_assign_number
+BEFORE INSERT ON public.rmas
+FOR EACH ROW EXECUTE FUNCTION public.assign_document_number('rma', 'rma_number');
+
+CREATE TRIGGER trg_credit_memos_assign_number
+BEFORE INSERT ON public.credit_memos
+FOR EACH ROW EXECUTE FUNCTION public.assign_document_number('credit_memo', 'credit_memo_number');
+
+CREATE TRIGGER trg_cycle_counts_assign_number
+BEFORE INSERT ON public.cycle_counts
+FOR EACH ROW EXECUTE FUNCTION public.assign_document_number('cycle_count', 'count_number');
+
+CREATE TRIGGER trg_stock_adjustments_assign_number
+BEFORE INSERT ON public.stock_adjustments
+FOR EACH ROW EXECUTE FUNCTION public.assign_document_number('stock_adjustment', 'adjustment_number');
+
+-- Numbers were globally unique only by accident of the timestamp; with
+-- per-tenant counters they are unique within a tenant
+ALTER TABLE public.quotes DROP CONSTRAINT IF EXISTS estimates_estimate_number_key;
+ALTER TABLE public.invoices DROP CONSTRAINT IF EXISTS invoices_invoice_number_key;
+ALTER TABLE public.purchase_orders DROP CONSTRAINT IF EXISTS purchase_orders_po_number_key;
+
+ALTER TABLE public.quotes ADD CONSTRAINT quotes_tenant_quote_number_key UNIQUE (tenant_id, quote_number);
+ALTER TABLE public.invoices ADD CONSTRAINT invoices_tenant_invoice_number_key UNIQUE (tenant_id, invoice_number);
+ALTER TABLE public.purchase_orders ADD CONSTRAINT purchase_orders_tenant_po_number_key UNIQUE (tenant_id, po_number);
+ALTER TABLE public.sales_orders ADD CONSTRAINT sales_orders_tenant_order_number_key UNIQUE (tenant_id, order_number);
+ALTER TABLE public.stock_transfers ADD CONSTRAINT stock_transfers_tenant_transfer_number_key UNIQUE (tenant_id, transfer_number);
+ALTER TABLE public.rmas ADD CONSTRAINT rmas_tenant_rma_number_key UNIQUE (tenant_id, rma_number);
+ALTER TABLE public.credit_memos ADD CONSTRAINT credit_memos_tenant_credit_memo_number_key UNIQUE (tenant_id, credit_memo_number);
+ALTER TABLE public.cycle_counts ADD CONSTRAINT cycle_counts_tenant_count_number_key UNIQUE (tenant_id, count_number);
+ALTER TABLE public.stock_adjustments ADD CONSTRAINT stock_adjustments_tenant_adjustment_number_key UNIQUE (tenant_id, adjustment_number);
+
+-- ============================================================
+-- Client functions
+-- ============================================================
+
+-- The number the next document would get, for display only
+CREATE OR REPLACE FUNCTION public.peek_document_number(_tenant_id uuid, _document_type text)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_seq public.document_sequences%ROWTYPE;
+  v_released text;
+BEGIN
+  IF NOT has_tenant_role(_tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]) THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  SELECT document_number INTO v_released FROM public.document_number_reservations
+  WHERE tenant_id = _tenant_id AND document_type = _document_type AND status = 'released'
+  ORDER BY document_number
+  LIMIT 1;
+  IF v_released IS NOT NULL THEN
+    RETURN v_released;
+  END IF;
+
+  SELECT * INTO v_seq FROM public.document_sequences
+  WHERE tenant_id = _tenant_id AND document_type = _document_type;
+  IF NOT FOUND THEN
+    RETURN public.format_document_number(public.default_document_pattern(_document_type), 1, CURRENT_DATE);
+  END IF;
+
+  RETURN public.format_document_number(
+    v_seq.pattern,
+    CASE WHEN v_seq.reset_yearly AND v_seq.current_year <> extract(year FROM now())::integer THEN 1 ELSE v_seq.next_value END,
+    CURRENT_DATE
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reserve_document_numbers(_tenant_id uuid, _document_type text, _count integer)
+RETURNS SETOF text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_number text;
+BEGIN
+  IF NOT has_tenant_role(_tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]) THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+  IF public.default_document_pattern(_document_type) IS NULL THEN
+    RAISE EXCEPTION 'Unknown document type %', _document_type;
+  END IF;
+  IF _count IS NULL OR _count < 1 OR _count > 50 THEN
+    RAISE EXCEPTION 'Reserve between 1 and 50 numbers at a time';
+  END IF;
+
+  FOR i IN 1.._count LOOP
+    v_number := public.allocate_document_number(_tenant_id, _document_type);
+    INSERT INTO public.document_number_reservations (tenant_id, document_type, document_number, reserved_by)
+    VALUES (_tenant_id, _document_type, v_number, auth.uid())
+    ON CONFLICT (tenant_id, document_type, document_number) DO UPDATE
+      SET status = 'reserved', reserved_by = auth.uid(), reserved_at = now(), used_at = NULL;
+    RETURN NEXT v_number;
+  END LOOP;
+END;
+$$;
+
+-- Gives an unused reservation back; the next document of that type takes it
+CREATE OR REPLACE FUNCTION public.release_document_number(_reservation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_reservation public.document_number_reservations%ROWTYPE;
+BEGIN
+  SELECT * INTO v_reservation FROM public.document_number_reservations WHERE id = _reservation_id FOR UPDATE;
+  IF NOT FOUND OR NOT (
+    (v_reservation.reserved_by = auth.uid()
+      AND has_tenant_role(v_reservation.tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]))
+    OR has_tenant_role(v_reservation.tenant_id, auth.uid(), ARRAY['owner']::app_role[])
+  ) THEN
+    RAISE EXCEPTION 'Reservation not found';
+  END IF;
+  IF v_reservation.status <> 'reserved' THEN
+    RAISE EXCEPTION '% has already been %', v_reservation.document_number, v_reservation.status;
+  END IF;
+
+  UPDATE public.document_number_reservations SET status = 'released' WHERE id = _reservation_id;
+END;
+$$;
+
+-- ============================================================
+-- Functions that used to take a client-built number
+-- ============================================================
+
+DROP FUNCTION IF EXISTS public.create_sales_order_from_quote(uuid, text);
+
+CREATE OR REPLACE FUNCTION public.create_sales_order_from_quote(_quote_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quote public.quotes%ROWTYPE;
+  v_order_id uuid;
+  v_item public.items%ROWTYPE;
+  v_line jsonb;
+  v_line_number integer := 0;
+  v_item_id uuid;
+BEGIN
+  SELECT * INTO v_quote FROM public.quotes WHERE id = _quote_id FOR UPDATE;
+  IF NOT FOUND OR NOT has_tenant_role(v_quote.tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]) THEN
+    RAISE EXCEPTION 'Quote not found';
+  END IF;
+  IF v_quote.status NOT IN ('pending', 'approved') THEN
+    RAISE EXCEPTION 'Quote % is %', v_quote.quote_number, v_quote.status;
+  END IF;
+  IF v_quote.pricing_approval_status IN ('pending', 'rejected') THEN
+    RAISE EXCEPTION 'Quote % is waiting for pricing approval', v_quote.quote_number;
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.sales_orders WHERE source_quote_id = _quote_id AND status <> 'cancelled') THEN
+    RAISE EXCEPTION 'Quote % already has a sales order', v_quote.quote_number;
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.invoices WHERE source_quote_id = _quote_id AND status = 'finalized') THEN
+    RAISE EXCEPTION 'Quote % has already been invoiced', v_quote.quote_number;
+  END IF;
+  IF jsonb_array_length(COALESCE(v_quote.items, '[]'::jsonb)) = 0 THEN
+    RAISE EXCEPTION 'Quote % has no lines', v_quote.quote_number;
+  END IF;
+
+  INSERT INTO public.sales_orders (
+    tenant_id, source_quote_id, company_id, customer_name, customer_email, customer_phone,
+    customer_address, ship_to_name, ship_to_address, salesman_name, discount, shipping, notes
+  ) VALUES (
+    v_quote.tenant_id, v_quote.id, v_quote.company_id, v_quote.customer_name, v_quote.customer_email,
+    v_quote.customer_phone, v_quote.customer_address, v_quote.ship_to_name, v_quote.ship_to_address,
+    v_quote.salesman_name, COALESCE(v_quote.discount, 0), COALESCE(v_quote.shipping, 0), v_quote.notes
+  )
+  RETURNING id INTO v_order_id;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(v_quote.items) LOOP
+    v_line_number := v_line_number + 1;
+    v_item_id := NULL;
+    SELECT * INTO v_item FROM public.items
+    WHERE id::text = v_line->>'id' AND tenant_id = v_quote.tenant_id
+    FOR UPDATE;
+
+    IF FOUND THEN
+      v_item_id := v_item.id;
+      IF v_item.tracking_mode = 'serialized' THEN
+        IF v_item.status <> 'available' OR v_item.in_transit_transfer_id IS NOT NULL OR v_item.reserved_sales_order_id IS NOT NULL THEN
+          RAISE EXCEPTION '% (%) is no longer available', v_item.part_number, COALESCE(v_item.serial_number, 'no serial');
+        END IF;
+        UPDATE public.items SET reserved_sales_order_id = v_order_id WHERE id = v_item.id;
+      END IF;
+    END IF;
+
+    INSERT INTO public.sales_order_lines (
+      tenant_id, sales_order_id, line_number, item_id, part_number, serial_number, description,
+      unit_price, quantity, taxable
+    ) VALUES (
+      v_quote.tenant_id, v_order_id, v_line_number, v_item_id,
+      COALESCE(v_line->>'partNumber', ''), NULLIF(v_line->>'serialNumber', ''), v_line->>'description',
+      COALESCE(NULLIF(v_line->>'sellPrice', '')::numeric, 0),
+      COALESCE(NULLIF(v_line->>'quantity', '')::integer, 1),
+      COALESCE((v_line->>'taxable')::boolean, true)
+    );
+  END LOOP;
+
+  UPDATE public.quotes SET status = 'approved' WHERE id = _quote_id AND status <> 'approved';
+
+  RETURN v_order_id;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS public.issue_credit_memo(uuid, text, text, text, text);
+
+CREATE OR REPLACE FUNCTION public.issue_credit_memo(
+  _rma_id uuid,
+  _settlement text,
+  _refund_method text DEFAULT NULL,
+  _notes text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rma public.rmas%ROWTYPE;
+  v_inv public.invoices%ROWTYPE;
+  v_items jsonb;
+  v_subtotal numeric;
+  v_taxable numeric;
+  v_invoice_taxable numeric;
+  v_discount numeric := 0;
+  v_tax numeric := 0;
+  v_total numeric;
+  v_memo_id uuid;
+  v_number text;
+  v_payment_id uuid;
+BEGIN
+  SELECT * INTO v_rma FROM public.rmas WHERE id = _rma_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RMA % not found', _rma_id;
+  END IF;
+  IF NOT has_tenant_role(v_rma.tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]) THEN
+    RAISE EXCEPTION 'Not authorized to credit RMA %', v_rma.rma_number;
+  END IF;
+  IF v_rma.status NOT IN ('received', 'closed') THEN
+    RAISE EXCEPTION 'RMA % must be received before it is credited', v_rma.rma_number;
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.credit_memos WHERE rma_id = _rma_id) THEN
+    RAISE EXCEPTION 'RMA % already has a credit memo', v_rma.rma_number;
+  END IF;
+  IF _settlement NOT IN ('apply_to_balance', 'refund') THEN
+    RAISE EXCEPTION 'Unknown settlement %', _settlement;
+  END IF;
+
+  SELECT * INTO v_inv FROM public.invoices WHERE id = v_rma.invoice_id FOR UPDATE;
+  IF COALESCE(v_inv.status, 'finalized') <> 'finalized' THEN
+    RAISE EXCEPTION 'Invoice % is not finalized', v_inv.invoice_number;
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object(
+           'id', item_id,
+           'partNumber', part_number,
+           'serialNumber', serial_number,
+           'description', COALESCE(description, part_number),
+           'sellPrice', unit_price,
+           'quantity', quantity,
+           'taxable', taxable
+         ) ORDER BY created_at),
+         COALESCE(SUM(unit_price * quantity), 0),
+         COALESCE(SUM(unit_price * quantity) FILTER (WHERE taxable), 0)
+    INTO v_items, v_subtotal, v_taxable
+  FROM public.rma_lines
+  WHERE rma_id = _rma_id;
+
+  IF v_subtotal <= 0 THEN
+    RAISE EXCEPTION 'RMA % has nothing to credit', v_rma.rma_number;
+  END IF;
+
+  IF COALESCE(v_inv.discount, 0) > 0 AND v_inv.subtotal > 0 THEN
+    v_discount := ROUND(v_inv.discount * LEAST(v_subtotal / v_inv.subtotal, 1), 2);
+  END IF;
+
+  SELECT COALESCE(SUM(
+           COALESCE(NULLIF(li->>'sellPrice', '')::numeric, 0) * COALESCE(NULLIF(li->>'quantity', '')::numeric, 1)
+         ), 0)
+    INTO v_invoice_taxable
+  FROM jsonb_array_elements(COALESCE(v_inv.items, '[]'::jsonb)) li
+  WHERE COALESCE((li->>'taxable')::boolean, true);
+
+  IF COALESCE(v_inv.tax, 0) > 0 AND v_invoice_taxable > 0 THEN
+    v_tax := ROUND(v_inv.tax * LEAST(v_taxable / v_invoice_taxable, 1), 2);
+  END IF;
+
+  v_total := ROUND(v_subtotal - v_discount + v_tax, 2);
+  IF v_total > v_inv.total - v_inv.amount_credited + 0.005 THEN
+    RAISE EXCEPTION 'Credit of % exceeds what remains creditable on invoice % (%)',
+      v_total, v_inv.invoice_number, v_inv.total - v_inv.amount_credited;
+  END IF;
+  IF _settlement = 'refund' AND v_inv.amount_paid < v_total - 0.005 THEN
+    RAISE EXCEPTION 'Only % has been paid on invoice %; apply the credit to the balance instead',
+      v_inv.amount_paid, v_inv.invoice_number;
+  END IF;
+
+  INSERT INTO public.credit_memos (
+    tenant_id, invoice_id, rma_id, customer_name,
+    items, subtotal, discount, tax, total, settlement, notes
+  ) VALUES (
+    v_rma.tenant_id, v_inv.id, _rma_id, v_inv.customer_name,
+    v_items, v_subtotal, v_discount, v_tax, v_total, _settlement, NULLIF(_notes, '')
+  )
+  RETURNING id, credit_memo_number INTO v_memo_id, v_number;
+
+  UPDATE public.invoices SET amount_credited = amount_credited + v_total WHERE id = v_inv.id;
+
+  PERFORM public.create_journal_entry(
+    v_rma.tenant_id, CURRENT_DATE, 'credit_memo', v_memo_id,
+    'Credit memo ' || v_number || ' for ' || v_inv.invoice_number,
+    jsonb_build_array(
+      jsonb_build_object('account_id', public.system_account_id(v_rma.tenant_id, 'sales_revenue'), 'amount', v_subtotal),
+      jsonb_build_object('account_id', public.system_account_id(v_rma.tenant_id, 'sales_discounts'), 'amount', -v_discount),
+      jsonb_build_object('account_id', public.system_account_id(v_rma.tenant_id, 'sales_tax_payable'), 'amount', v_tax),
+      jsonb_build_object('account_id', public.system_account_id(v_rma.tenant_id, 'accounts_receivable'), 'amount', -v_total)
+    )
+  );
+
+  IF _settlement = 'refund' THEN
+    INSERT INTO public.invoice_payments (tenant_id, invoice_id, amount, method, reference_number, notes)
+    VALUES (
+      v_rma.tenant_id, v_inv.id, -v_total, COALESCE(_refund_method, 'check'), v_number,
+      'Refund for credit memo ' || v_number
+    )
+    RETURNING id INTO v_payment_id;
+
+    PERFORM public.post_invoice_payment_journal(v_payment_id);
+    UPDATE public.credit_memos SET refund_payment_id = v_payment_id WHERE id = v_memo_id;
+  END IF;
+
+  RETURN v_memo_id;
+END;
+$$;
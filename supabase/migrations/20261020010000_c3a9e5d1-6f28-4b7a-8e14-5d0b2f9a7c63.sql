@@ -0,0 +1,129 @@
+-- ============================================================
+-- Product kits
+-- A kit is a parent SKU sold as one line (a machine with its attachments,
+-- hoses and a service package). Adding it to a quote or invoice picks stock
+-- for each component, so the component lines carry the real inventory units
+-- and go through the usual stock checks, sales order reservations and
+-- finalizing. The kit only groups them; an optional bundle price is spread
+-- over the components when the kit is added.
+-- ============================================================
+
+CREATE TABLE public.product_kits (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES public.tenants(id) ON DELETE RESTRICT,
+  part_number text NOT NULL,
+  description text NOT NULL DEFAULT '',
+  -- NULL sells the kit at the sum of its components' sale prices
+  bundle_price numeric(12,2) CHECK (bundle_price IS NULL OR bundle_price >= 0),
+  -- Default for new document lines: list components on printed documents
+  itemize_on_documents boolean NOT NULL DEFAULT false,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (tenant_id, part_number)
+);
+
+CREATE TABLE public.product_kit_components (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES public.tenants(id) ON DELETE RESTRICT,
+  kit_id uuid NOT NULL REFERENCES public.product_kits(id) ON DELETE CASCADE,
+  line_number integer NOT NULL,
+  part_number text NOT NULL,
+  description text,
+  quantity integer NOT NULL CHECK (quantity > 0),
+  UNIQUE (kit_id, line_number)
+);
+
+CREATE INDEX idx_product_kit_components_kit ON public.product_kit_components(kit_id);
+
+ALTER TABLE public.product_kits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.product_kit_components ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant members can view product kits" ON public.product_kits
+  FOR SELECT TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+CREATE POLICY "Tenant owners can update product kits" ON public.product_kits
+  FOR UPDATE TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner']::app_role[]));
+CREATE POLICY "Tenant owners can delete product kits" ON public.product_kits
+  FOR DELETE TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner']::app_role[]));
+
+CREATE POLICY "Tenant members can view product kit components" ON public.product_kit_components
+  FOR SELECT TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+
+GRANT SELECT, UPDATE, DELETE ON public.product_kits TO authenticated;
+GRANT SELECT ON public.product_kit_components TO authenticated;
+GRANT ALL ON public.product_kits TO service_role;
+GRANT ALL ON public.product_kit_components TO service_role;
+
+CREATE TRIGGER update_product_kits_updated_at
+  BEFORE UPDATE ON public.product_kits
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Creates a kit (no _kit_id) or replaces one and its component list in one go.
+-- _components: [{ partNumber, description, quantity }]
+CREATE OR REPLACE FUNCTION public.save_product_kit(
+  _tenant_id uuid,
+  _part_number text,
+  _description text,
+  _itemize_on_documents boolean,
+  _components jsonb,
+  _kit_id uuid DEFAULT NULL,
+  _bundle_price numeric DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_kit_id uuid := _kit_id;
+  v_component jsonb;
+  v_line_number integer := 0;
+BEGIN
+  IF NOT has_tenant_role(_tenant_id, auth.uid(), ARRAY['owner']::app_role[]) THEN
+    RAISE EXCEPTION 'Only owners can manage kits';
+  END IF;
+  IF COALESCE(trim(_part_number), '') = '' THEN
+    RAISE EXCEPTION 'A kit needs a part number';
+  END IF;
+  IF jsonb_typeof(_components) <> 'array' OR jsonb_array_length(_components) = 0 THEN
+    RAISE EXCEPTION 'A kit needs at least one component';
+  END IF;
+
+  IF v_kit_id IS NULL THEN
+    INSERT INTO public.product_kits (tenant_id, part_number, description, bundle_price, itemize_on_documents)
+    VALUES (_tenant_id, trim(_part_number), COALESCE(_description, ''), _bundle_price, COALESCE(_itemize_on_documents, false))
+    RETURNING id INTO v_kit_id;
+  ELSE
+    UPDATE public.product_kits
+    SET part_number = trim(_part_number),
+        description = COALESCE(_description, ''),
+        bundle_price = _bundle_price,
+        itemize_on_documents = COALESCE(_itemize_on_documents, false)
+    WHERE id = v_kit_id AND tenant_id = _tenant_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Kit not found';
+    END IF;
+    DELETE FROM public.product_kit_components WHERE kit_id = v_kit_id;
+  END IF;
+
+  FOR v_component IN SELECT * FROM jsonb_array_elements(_components) LOOP
+    IF COALESCE(trim(v_component->>'partNumber'), '') = '' THEN
+      RAISE EXCEPTION 'Every component needs a part number';
+    END IF;
+    IF COALESCE((v_component->>'quantity')::integer, 0) < 1 THEN
+      RAISE EXCEPTION 'Component % needs a quantity of at least 1', v_component->>'partNumber';
+    END IF;
+    v_line_number := v_line_number + 1;
+    INSERT INTO public.product_kit_components (tenant_id, kit_id, line_number, part_number, description, quantity)
+    VALUES (
+      _tenant_id, v_kit_id, v_line_number,
+      trim(v_component->>'partNumber'),
+      NULLIF(trim(v_component->>'description'), ''),
+      (v_component->>'quantity')::integer
+    );
+  END LOOP;
+
+  RETURN v_kit_id;
+END;
+$$;
@@ -0,0 +1,130 @@
+-- ============================================================
+-- Sales pipeline
+-- Opportunities track a deal from first contact until it's won or lost,
+-- before and after a quote exists. Quotes can be attached to one; when an
+-- attached quote is invoiced the opportunity closes as won.
+-- ============================================================
+
+CREATE TABLE public.opportunities (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES public.tenants(id) ON DELETE RESTRICT,
+  name text NOT NULL,
+  company_id uuid REFERENCES public.companies(id) ON DELETE SET NULL,
+  person_id uuid REFERENCES public.people(id) ON DELETE SET NULL,
+  stage text NOT NULL DEFAULT 'prospecting' CHECK (stage IN (
+    'prospecting', 'qualification', 'proposal', 'negotiation', 'won', 'lost'
+  )),
+  expected_value numeric(12,2) NOT NULL DEFAULT 0 CHECK (expected_value >= 0),
+  probability integer NOT NULL DEFAULT 10 CHECK (probability BETWEEN 0 AND 100),
+  expected_close_date date,
+  -- The salesperson working the deal
+  owner_id uuid DEFAULT auth.uid(),
+  lost_reason text,
+  notes text,
+  closed_at timestamptz,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (stage <> 'lost' OR COALESCE(trim(lost_reason), '') <> '')
+);
+
+CREATE INDEX idx_opportunities_tenant_stage ON public.opportunities(tenant_id, stage);
+CREATE INDEX idx_opportunities_company ON public.opportunities(company_id);
+
+ALTER TABLE public.opportunities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant members can view opportunities" ON public.opportunities
+  FOR SELECT TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+CREATE POLICY "Tenant members can insert opportunities" ON public.opportunities
+  FOR INSERT TO authenticated WITH CHECK (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+CREATE POLICY "Tenant members can update opportunities" ON public.opportunities
+  FOR UPDATE TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+CREATE POLICY "Tenant owners can delete opportunities" ON public.opportunities
+  FOR DELETE TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner']::app_role[]));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.opportunities TO authenticated;
+GRANT ALL ON public.opportunities TO service_role;
+
+CREATE TRIGGER update_opportunities_updated_at
+  BEFORE UPDATE ON public.opportunities
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.opportunities;
+
+-- Won and lost are final probabilities; moving back to an open stage reopens
+CREATE OR REPLACE FUNCTION public.set_opportunity_closed()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.stage IN ('won', 'lost') THEN
+    IF TG_OP = 'INSERT' OR OLD.stage IS DISTINCT FROM NEW.stage THEN
+      NEW.closed_at := now();
+    END IF;
+    NEW.probability := CASE NEW.stage WHEN 'won' THEN 100 ELSE 0 END;
+  ELSE
+    NEW.closed_at := NULL;
+  END IF;
+  IF NEW.stage <> 'lost' THEN
+    NEW.lost_reason := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_opportunities_set_closed
+BEFORE INSERT OR UPDATE ON public.opportunities
+FOR EACH ROW EXECUTE FUNCTION public.set_opportunity_closed();
+
+ALTER TABLE public.quotes ADD COLUMN opportunity_id uuid REFERENCES public.opportunities(id) ON DELETE SET NULL;
+CREATE INDEX idx_quotes_opportunity ON public.quotes(opportunity_id);
+
+-- A finalized invoice from an attached quote wins the opportunity
+CREATE OR REPLACE FUNCTION public.win_opportunity_from_invoice()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.opportunities o
+  SET stage = 'won'
+  FROM public.quotes q
+  WHERE q.id = NEW.source_quote_id
+    AND o.id = q.opportunity_id
+    AND o.stage <> 'won';
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_invoices_win_opportunity
+AFTER INSERT OR UPDATE OF status ON public.invoices
+FOR EACH ROW
+WHEN (NEW.status = 'finalized' AND NEW.source_quote_id IS NOT NULL)
+EXECUTE FUNCTION public.win_opportunity_from_invoice();
+
+-- Staff of a tenant with their names, for owner pickers and per-salesperson
+-- reports. Profiles alone don't say who belongs to which tenant.
+CREATE OR REPLACE FUNCTION public.get_tenant_salespeople(_tenant_id uuid)
+RETURNS TABLE (user_id uuid, full_name text)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_tenant_role(_tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]) THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  RETURN QUERY
+  SELECT tm.user_id, COALESCE(NULLIF(p.full_name, ''), 'Unknown User')
+  FROM public.tenant_members tm
+  LEFT JOIN public.profiles p ON p.user_id = tm.user_id
+  WHERE tm.tenant_id = _tenant_id
+    AND tm.status = 'active'
+    AND tm.role IN ('owner', 'employee')
+  ORDER BY 2;
+END;
+$$;
@@ -0,0 +1,123 @@
+-- ============================================================
+-- Customer activity timeline
+-- The timeline on a company or contact gathers notes, AI conversations,
+-- quotes, invoices, expenses, deals, calendar events and video meetings.
+-- Each of those now carries a key to the contact (and company) it concerns,
+-- so the timeline joins on ids instead of matching customer names.
+-- ============================================================
+
+ALTER TABLE public.quotes
+  ADD COLUMN IF NOT EXISTS person_id uuid REFERENCES public.people(id) ON DELETE SET NULL;
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS person_id uuid REFERENCES public.people(id) ON DELETE SET NULL;
+
+ALTER TABLE public.calendar_events
+  ADD COLUMN IF NOT EXISTS company_id uuid REFERENCES public.companies(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS person_id uuid REFERENCES public.people(id) ON DELETE SET NULL;
+
+ALTER TABLE public.video_meetings
+  ADD COLUMN IF NOT EXISTS company_id uuid REFERENCES public.companies(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS person_id uuid REFERENCES public.people(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_quotes_person ON public.quotes(person_id);
+CREATE INDEX IF NOT EXISTS idx_invoices_person ON public.invoices(person_id);
+CREATE INDEX IF NOT EXISTS idx_calendar_events_company ON public.calendar_events(company_id);
+CREATE INDEX IF NOT EXISTS idx_calendar_events_person ON public.calendar_events(person_id);
+CREATE INDEX IF NOT EXISTS idx_video_meetings_company ON public.video_meetings(company_id);
+CREATE INDEX IF NOT EXISTS idx_video_meetings_person ON public.video_meetings(person_id);
+CREATE INDEX IF NOT EXISTS idx_expenses_customer ON public.expenses(customer_id);
+CREATE INDEX IF NOT EXISTS idx_ai_conversations_contact ON public.ai_conversations(contact_id);
+
+-- The contact a document was made out to: the customer email first, since
+-- it's unique in practice, then a contact with the customer's name
+CREATE OR REPLACE FUNCTION public.match_customer_person(_tenant_id uuid, _customer_name text, _customer_email text)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT p.id FROM public.people p
+     WHERE p.tenant_id = _tenant_id
+       AND p.deleted_at IS NULL
+       AND NULLIF(trim(_customer_email), '') IS NOT NULL
+       AND lower(trim(p.email)) = lower(trim(_customer_email))
+     ORDER BY p.created_at
+     LIMIT 1),
+    (SELECT p.id FROM public.people p
+     WHERE p.tenant_id = _tenant_id
+       AND p.deleted_at IS NULL
+       AND lower(trim(p.name)) = lower(trim(_customer_name))
+     ORDER BY p.created_at
+     LIMIT 1)
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.match_customer_person(uuid, text, text) FROM anon, authenticated, PUBLIC;
+
+-- Runs after trg_*_set_company (triggers fire in name order), so a company
+-- picked by name is kept and a contact only fills in a missing one
+CREATE OR REPLACE FUNCTION public.set_document_person()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (TG_OP = 'INSERT' AND NEW.person_id IS NULL)
+     OR (TG_OP = 'UPDATE'
+         AND (NEW.customer_name IS DISTINCT FROM OLD.customer_name
+              OR NEW.customer_email IS DISTINCT FROM OLD.customer_email)
+         AND NEW.person_id IS NOT DISTINCT FROM OLD.person_id) THEN
+    NEW.person_id := public.match_customer_person(NEW.tenant_id, NEW.customer_name, NEW.customer_email);
+  END IF;
+
+  IF NEW.company_id IS NULL AND NEW.person_id IS NOT NULL THEN
+    SELECT company_id INTO NEW.company_id FROM public.people WHERE id = NEW.person_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_quotes_set_person
+BEFORE INSERT OR UPDATE ON public.quotes
+FOR EACH ROW EXECUTE FUNCTION public.set_document_person();
+
+CREATE TRIGGER trg_invoices_set_person
+BEFORE INSERT OR UPDATE ON public.invoices
+FOR EACH ROW EXECUTE FUNCTION public.set_document_person();
+
+-- Backfill without firing the revision trigger on every quote
+ALTER TABLE public.quotes DISABLE TRIGGER trg_quotes_record_revision;
+UPDATE public.quotes SET person_id = public.match_customer_person(tenant_id, customer_name, customer_email)
+WHERE person_id IS NULL;
+ALTER TABLE public.quotes ENABLE TRIGGER trg_quotes_record_revision;
+
+UPDATE public.invoices SET person_id = public.match_customer_person(tenant_id, customer_name, customer_email)
+WHERE person_id IS NULL;
+
+-- A meeting booked against a contact belongs to their company too
+CREATE OR REPLACE FUNCTION public.set_activity_company()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.person_id IS NOT NULL
+     AND (TG_OP = 'INSERT' OR NEW.person_id IS DISTINCT FROM OLD.person_id) THEN
+    SELECT company_id INTO NEW.company_id FROM public.people WHERE id = NEW.person_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_calendar_events_set_company
+BEFORE INSERT OR UPDATE ON public.calendar_events
+FOR EACH ROW EXECUTE FUNCTION public.set_activity_company();
+
+CREATE TRIGGER trg_video_meetings_set_company
+BEFORE INSERT OR UPDATE ON public.video_meetings
+FOR EACH ROW EXECUTE FUNCTION public.set_activity_company();
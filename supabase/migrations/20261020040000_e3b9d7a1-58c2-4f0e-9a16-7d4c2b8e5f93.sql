@@ -0,0 +1,188 @@
+-- ============================================================
+-- Follow-up tasks
+-- A task is a dated to-do for one user, optionally linked to a company,
+-- contact, quote or invoice. Tasks suggested from a meeting's AI to-do list
+-- or a conversation's key points record where they came from, so each
+-- suggestion is offered once. Open tasks with a due date get a 'task' event
+-- on the assignee's calendar, and overdue ones raise an in-app notification.
+-- ============================================================
+
+CREATE TABLE public.tasks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES public.tenants(id) ON DELETE RESTRICT,
+  title text NOT NULL,
+  notes text,
+  due_at timestamptz,
+  priority text NOT NULL DEFAULT 'normal'
+    CHECK (priority IN ('low', 'normal', 'high', 'urgent')),
+  -- dismissed: a suggestion the user turned down
+  status text NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'done', 'dismissed')),
+  completed_at timestamptz,
+  assignee_id uuid DEFAULT auth.uid(),
+  company_id uuid REFERENCES public.companies(id) ON DELETE SET NULL,
+  person_id uuid REFERENCES public.people(id) ON DELETE SET NULL,
+  quote_id uuid REFERENCES public.quotes(id) ON DELETE SET NULL,
+  invoice_id uuid REFERENCES public.invoices(id) ON DELETE SET NULL,
+  source text NOT NULL DEFAULT 'manual'
+    CHECK (source IN ('manual', 'video_meeting', 'conversation')),
+  -- The meeting or conversation, and the index of the item in its list
+  source_id uuid,
+  source_item integer,
+  calendar_event_id uuid REFERENCES public.calendar_events(id) ON DELETE SET NULL,
+  -- Set when the overdue notification went out; cleared when the due date moves
+  reminded_at timestamptz,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (source = 'manual' OR (source_id IS NOT NULL AND source_item IS NOT NULL))
+);
+
+CREATE INDEX idx_tasks_tenant ON public.tasks(tenant_id);
+CREATE INDEX idx_tasks_assignee_open ON public.tasks(assignee_id, due_at) WHERE status = 'open';
+CREATE INDEX idx_tasks_company ON public.tasks(company_id);
+CREATE INDEX idx_tasks_person ON public.tasks(person_id);
+CREATE INDEX idx_tasks_quote ON public.tasks(quote_id);
+CREATE INDEX idx_tasks_invoice ON public.tasks(invoice_id);
+CREATE UNIQUE INDEX idx_tasks_source_item ON public.tasks(source, source_id, source_item)
+  WHERE source <> 'manual';
+
+ALTER TABLE public.tasks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant members can view tasks" ON public.tasks
+  FOR SELECT TO authenticated USING (
+    has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[])
+  );
+CREATE POLICY "Tenant members can insert tasks" ON public.tasks
+  FOR INSERT TO authenticated WITH CHECK (
+    has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[])
+  );
+CREATE POLICY "Tenant members can update tasks" ON public.tasks
+  FOR UPDATE TO authenticated USING (
+    has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[])
+  );
+CREATE POLICY "Creators and owners can delete tasks" ON public.tasks
+  FOR DELETE TO authenticated USING (
+    (created_by = auth.uid() AND is_tenant_member(tenant_id, auth.uid()))
+    OR has_tenant_role(tenant_id, auth.uid(), ARRAY['owner']::app_role[])
+  );
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.tasks TO authenticated;
+GRANT ALL ON public.tasks TO service_role;
+
+CREATE TRIGGER update_tasks_updated_at
+BEFORE UPDATE ON public.tasks
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.tasks;
+
+-- Completion time, reminder reset, the company implied by the linked
+-- record, and the calendar event that shows the task on the assignee's
+-- calendar while it's open and dated
+CREATE OR REPLACE FUNCTION public.prepare_task()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'done' AND (TG_OP = 'INSERT' OR OLD.status <> 'done') THEN
+    NEW.completed_at := now();
+  ELSIF NEW.status <> 'done' THEN
+    NEW.completed_at := NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.due_at IS DISTINCT FROM OLD.due_at THEN
+    NEW.reminded_at := NULL;
+  END IF;
+
+  IF NEW.company_id IS NULL THEN
+    NEW.company_id := COALESCE(
+      (SELECT company_id FROM public.people WHERE id = NEW.person_id),
+      (SELECT company_id FROM public.quotes WHERE id = NEW.quote_id),
+      (SELECT company_id FROM public.invoices WHERE id = NEW.invoice_id)
+    );
+  END IF;
+
+  IF NEW.status = 'open' AND NEW.due_at IS NOT NULL AND NEW.assignee_id IS NOT NULL THEN
+    IF NEW.calendar_event_id IS NULL THEN
+      INSERT INTO public.calendar_events
+        (tenant_id, title, description, start_time, end_time, event_type, created_by, person_id)
+      VALUES
+        (NEW.tenant_id, 'Task: ' || NEW.title, NEW.notes, NEW.due_at, NEW.due_at + interval '30 minutes',
+         'task', NEW.assignee_id, NEW.person_id)
+      RETURNING id INTO NEW.calendar_event_id;
+    ELSE
+      UPDATE public.calendar_events
+      SET title = 'Task: ' || NEW.title,
+          description = NEW.notes,
+          start_time = NEW.due_at,
+          end_time = NEW.due_at + interval '30 minutes',
+          created_by = NEW.assignee_id,
+          person_id = NEW.person_id
+      WHERE id = NEW.calendar_event_id;
+    END IF;
+  ELSE
+    -- Removed by trg_tasks_delete_calendar_event once the row no longer points at it
+    NEW.calendar_event_id := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_tasks_prepare
+BEFORE INSERT OR UPDATE ON public.tasks
+FOR EACH ROW EXECUTE FUNCTION public.prepare_task();
+
+CREATE OR REPLACE FUNCTION public.delete_task_calendar_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.calendar_event_id IS NOT NULL
+     AND (TG_OP = 'DELETE' OR NEW.calendar_event_id IS DISTINCT FROM OLD.calendar_event_id) THEN
+    DELETE FROM public.calendar_events WHERE id = OLD.calendar_event_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER trg_tasks_delete_calendar_event
+AFTER UPDATE OR DELETE ON public.tasks
+FOR EACH ROW EXECUTE FUNCTION public.delete_task_calendar_event();
+
+-- Notifies assignees of open tasks that have come due, once per due date
+CREATE OR REPLACE FUNCTION public.notify_overdue_tasks()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  WITH due AS (
+    UPDATE public.tasks
+    SET reminded_at = now()
+    WHERE status = 'open'
+      AND due_at <= now()
+      AND reminded_at IS NULL
+      AND assignee_id IS NOT NULL
+    RETURNING tenant_id, assignee_id, title, due_at
+  )
+  INSERT INTO public.user_notifications (tenant_id, user_id, title, body, link)
+  SELECT tenant_id, assignee_id, 'Task overdue: ' || title,
+         'Was due ' || to_char(due_at, 'Mon DD, HH24:MI'), '/dashboard?tab=tasks'
+  FROM due;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notify_overdue_tasks() FROM anon, authenticated, PUBLIC;
+
+SELECT cron.schedule('notify-overdue-tasks', '*/15 * * * *', $$SELECT public.notify_overdue_tasks()$$);
@@ -0,0 +1,79 @@
+-- ============================================================
+-- vCard and CSV contact import
+-- Contacts keep every phone number and email address they came with, each
+-- with its label (work, mobile, ...); phone and email stay the primary ones.
+-- Imported photos go to the contact-photos bucket under the tenant's folder.
+-- CSV column mappings are saved per tenant so the next export from the same
+-- phone or mail client maps itself.
+-- ============================================================
+
+ALTER TABLE public.people
+  ADD COLUMN phone_numbers jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN email_addresses jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN photo_path text;
+
+COMMENT ON COLUMN public.people.phone_numbers IS 'All numbers as [{label, value}]; phone holds the primary one';
+COMMENT ON COLUMN public.people.email_addresses IS 'All addresses as [{label, value}]; email holds the primary one';
+COMMENT ON COLUMN public.people.photo_path IS 'Object path in the contact-photos bucket';
+
+INSERT INTO storage.buckets (id, name, public) VALUES ('contact-photos', 'contact-photos', false);
+
+CREATE POLICY "Tenant members can view contact photos"
+ON storage.objects FOR SELECT TO authenticated
+USING (
+  bucket_id = 'contact-photos'
+  AND public.has_tenant_role(((storage.foldername(name))[1])::uuid, auth.uid(), ARRAY['owner','employee','developer']::app_role[])
+);
+
+CREATE POLICY "Tenant members can upload contact photos"
+ON storage.objects FOR INSERT TO authenticated
+WITH CHECK (
+  bucket_id = 'contact-photos'
+  AND public.has_tenant_role(((storage.foldername(name))[1])::uuid, auth.uid(), ARRAY['owner','employee','developer']::app_role[])
+);
+
+CREATE POLICY "Tenant members can delete contact photos"
+ON storage.objects FOR DELETE TO authenticated
+USING (
+  bucket_id = 'contact-photos'
+  AND public.has_tenant_role(((storage.foldername(name))[1])::uuid, auth.uid(), ARRAY['owner','employee','developer']::app_role[])
+);
+
+CREATE TABLE public.contact_import_mappings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES public.tenants(id) ON DELETE RESTRICT,
+  name text NOT NULL,
+  -- CSV header → contact field, e.g. {"E-mail Address": "email"}
+  mapping jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (tenant_id, name)
+);
+
+ALTER TABLE public.contact_import_mappings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant members can view import mappings" ON public.contact_import_mappings
+  FOR SELECT TO authenticated USING (
+    has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[])
+  );
+CREATE POLICY "Tenant members can insert import mappings" ON public.contact_import_mappings
+  FOR INSERT TO authenticated WITH CHECK (
+    has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[])
+  );
+CREATE POLICY "Tenant members can update import mappings" ON public.contact_import_mappings
+  FOR UPDATE TO authenticated USING (
+    has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[])
+  );
+CREATE POLICY "Creators and owners can delete import mappings" ON public.contact_import_mappings
+  FOR DELETE TO authenticated USING (
+    (created_by = auth.uid() AND is_tenant_member(tenant_id, auth.uid()))
+    OR has_tenant_role(tenant_id, auth.uid(), ARRAY['owner']::app_role[])
+  );
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.contact_import_mappings TO authenticated;
+GRANT ALL ON public.contact_import_mappings TO service_role;
+
+CREATE TRIGGER update_contact_import_mappings_updated_at
+BEFORE UPDATE ON public.contact_import_mappings
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
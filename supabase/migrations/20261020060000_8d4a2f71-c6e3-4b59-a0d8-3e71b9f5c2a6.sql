@@ -0,0 +1,297 @@
+-- ============================================================
+-- Sales territories
+-- A territory is a set of H3 cells on the contacts map, picked one by one
+-- or filled from a drawn polygon, owned by a salesperson. Companies are
+-- placed in the territory containing their geocoded address and owned by
+-- its rep. The client also stores the outline of the cells (a list of
+-- [lat, lng] rings) so the database can place points without H3.
+-- ============================================================
+
+CREATE TABLE public.sales_territories (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id uuid NOT NULL REFERENCES public.tenants(id) ON DELETE RESTRICT,
+  name text NOT NULL,
+  color text NOT NULL DEFAULT '#3b82f6',
+  -- The salesperson who owns the territory's companies
+  owner_id uuid,
+  h3_resolution integer NOT NULL DEFAULT 7 CHECK (h3_resolution BETWEEN 5 AND 9),
+  h3_cells text[] NOT NULL DEFAULT '{}',
+  -- The polygon it was drawn from, if any, kept for display
+  drawn_polygon jsonb,
+  boundary jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (tenant_id, name)
+);
+
+ALTER TABLE public.sales_territories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant members can view sales territories" ON public.sales_territories
+  FOR SELECT TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]));
+CREATE POLICY "Tenant owners can insert sales territories" ON public.sales_territories
+  FOR INSERT TO authenticated WITH CHECK (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner']::app_role[]));
+CREATE POLICY "Tenant owners can update sales territories" ON public.sales_territories
+  FOR UPDATE TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner']::app_role[]));
+CREATE POLICY "Tenant owners can delete sales territories" ON public.sales_territories
+  FOR DELETE TO authenticated USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner']::app_role[]));
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.sales_territories TO authenticated;
+GRANT ALL ON public.sales_territories TO service_role;
+
+CREATE TRIGGER update_sales_territories_updated_at
+  BEFORE UPDATE ON public.sales_territories
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.sales_territories;
+
+ALTER TABLE public.companies
+  ADD COLUMN IF NOT EXISTS territory_id uuid REFERENCES public.sales_territories(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS owner_id uuid;
+
+CREATE INDEX IF NOT EXISTS idx_companies_territory ON public.companies(territory_id);
+CREATE INDEX IF NOT EXISTS idx_companies_owner ON public.companies(tenant_id, owner_id);
+-- Matches geocode_cache.address_key
+CREATE INDEX IF NOT EXISTS idx_companies_address_key ON public.companies(lower(trim(address)));
+
+-- Even-odd ray casting over every ring, so separate cells and holes both work
+CREATE OR REPLACE FUNCTION public.point_in_rings(_rings jsonb, _lat double precision, _lng double precision)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  ring jsonb;
+  n integer;
+  i integer;
+  j integer;
+  lat_i double precision;
+  lng_i double precision;
+  lat_j double precision;
+  lng_j double precision;
+  inside boolean := false;
+BEGIN
+  FOR ring IN SELECT value FROM jsonb_array_elements(COALESCE(_rings, '[]'::jsonb)) LOOP
+    n := jsonb_array_length(ring);
+    j := n - 1;
+    FOR i IN 0 .. n - 1 LOOP
+      lat_i := (ring -> i ->> 0)::double precision;
+      lng_i := (ring -> i ->> 1)::double precision;
+      lat_j := (ring -> j ->> 0)::double precision;
+      lng_j := (ring -> j ->> 1)::double precision;
+      IF (lat_i > _lat) <> (lat_j > _lat)
+         AND _lng < (lng_j - lng_i) * (_lat - lat_i) / (lat_j - lat_i) + lng_i THEN
+        inside := NOT inside;
+      END IF;
+      j := i;
+    END LOOP;
+  END LOOP;
+  RETURN inside;
+END;
+$$;
+
+-- Where territories overlap the oldest one wins
+CREATE OR REPLACE FUNCTION public.find_sales_territory(_tenant_id uuid, _lat double precision, _lng double precision)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT t.id FROM public.sales_territories t
+  WHERE t.tenant_id = _tenant_id
+    AND public.point_in_rings(t.boundary, _lat, _lng)
+  ORDER BY t.created_at
+  LIMIT 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.find_sales_territory(uuid, double precision, double precision) FROM anon, authenticated, PUBLIC;
+
+-- A new or moved company joins the territory around its address and goes
+-- to that rep. Addresses not geocoded yet are placed by the geocode trigger.
+CREATE OR REPLACE FUNCTION public.set_company_territory()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _location record;
+  _territory record;
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND (NEW.address IS NOT DISTINCT FROM OLD.address OR NEW.territory_id IS DISTINCT FROM OLD.territory_id) THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'INSERT' AND NEW.territory_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.territory_id := NULL;
+  IF COALESCE(trim(NEW.address), '') = '' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT lat, lng INTO _location FROM public.geocode_cache WHERE address_key = lower(trim(NEW.address));
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT id, owner_id INTO _territory FROM public.sales_territories
+  WHERE id = public.find_sales_territory(NEW.tenant_id, _location.lat, _location.lng);
+  IF FOUND THEN
+    NEW.territory_id := _territory.id;
+    NEW.owner_id := COALESCE(_territory.owner_id, NEW.owner_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_companies_set_territory
+BEFORE INSERT OR UPDATE ON public.companies
+FOR EACH ROW EXECUTE FUNCTION public.set_company_territory();
+
+-- Geocoding an address (from the map or the pre-warm job) places the
+-- companies at it that aren't in a territory yet
+CREATE OR REPLACE FUNCTION public.assign_geocoded_companies()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  WITH placed AS (
+    SELECT c.id, public.find_sales_territory(c.tenant_id, NEW.lat, NEW.lng) AS territory_id
+    FROM public.companies c
+    WHERE c.territory_id IS NULL
+      AND lower(trim(c.address)) = NEW.address_key
+  )
+  UPDATE public.companies c
+  SET territory_id = t.id, owner_id = COALESCE(t.owner_id, c.owner_id)
+  FROM placed p
+  JOIN public.sales_territories t ON t.id = p.territory_id
+  WHERE c.id = p.id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_geocode_cache_assign_companies
+AFTER INSERT OR UPDATE OF lat, lng ON public.geocode_cache
+FOR EACH ROW EXECUTE FUNCTION public.assign_geocoded_companies();
+
+-- Drawing or redrawing a territory picks up the unplaced companies inside
+-- it; companies left outside move to whichever territory now holds them
+CREATE OR REPLACE FUNCTION public.apply_territory_boundary()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.companies c
+  SET territory_id = NEW.id, owner_id = COALESCE(NEW.owner_id, c.owner_id)
+  FROM public.geocode_cache g
+  WHERE c.tenant_id = NEW.tenant_id
+    AND c.territory_id IS NULL
+    AND g.address_key = lower(trim(c.address))
+    AND public.point_in_rings(NEW.boundary, g.lat, g.lng);
+
+  IF TG_OP = 'UPDATE' THEN
+    WITH moved AS (
+      SELECT c.id, public.find_sales_territory(c.tenant_id, g.lat, g.lng) AS territory_id
+      FROM public.companies c
+      LEFT JOIN public.geocode_cache g ON g.address_key = lower(trim(c.address))
+      WHERE c.territory_id = NEW.id
+        AND (g.address_key IS NULL OR NOT public.point_in_rings(NEW.boundary, g.lat, g.lng))
+    )
+    UPDATE public.companies c
+    SET territory_id = m.territory_id, owner_id = COALESCE(t.owner_id, c.owner_id)
+    FROM moved m
+    LEFT JOIN public.sales_territories t ON t.id = m.territory_id
+    WHERE c.id = m.id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_sales_territories_apply_boundary
+AFTER INSERT OR UPDATE OF boundary ON public.sales_territories
+FOR EACH ROW EXECUTE FUNCTION public.apply_territory_boundary();
+
+-- Hands a territory to another rep (or nobody): its companies and the open
+-- deals the previous rep had on them follow, in one audited step. Leaving
+-- out the owner unassigns it.
+CREATE OR REPLACE FUNCTION public.reassign_sales_territory(_territory_id uuid, _owner_id uuid DEFAULT NULL)
+RETURNS TABLE (companies_updated integer, opportunities_updated integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _territory record;
+  _companies integer;
+  _opportunities integer;
+BEGIN
+  SELECT id, tenant_id, name, owner_id INTO _territory
+  FROM public.sales_territories WHERE id = _territory_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Territory not found';
+  END IF;
+
+  IF NOT has_tenant_role(_territory.tenant_id, auth.uid(), ARRAY['owner']::app_role[]) THEN
+    RAISE EXCEPTION 'Not authorized';
+  END IF;
+
+  IF _owner_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.tenant_members tm
+    WHERE tm.tenant_id = _territory.tenant_id
+      AND tm.user_id = _owner_id
+      AND tm.status = 'active'
+      AND tm.role IN ('owner', 'employee')
+  ) THEN
+    RAISE EXCEPTION 'Salesperson is not a member of this tenant';
+  END IF;
+
+  UPDATE public.sales_territories SET owner_id = _owner_id WHERE id = _territory_id;
+
+  UPDATE public.companies
+  SET owner_id = _owner_id
+  WHERE territory_id = _territory_id
+    AND owner_id IS DISTINCT FROM _owner_id;
+  GET DIAGNOSTICS _companies = ROW_COUNT;
+
+  UPDATE public.opportunities o
+  SET owner_id = _owner_id
+  FROM public.companies c
+  WHERE o.company_id = c.id
+    AND c.territory_id = _territory_id
+    AND o.stage NOT IN ('won', 'lost')
+    AND o.owner_id IS NOT DISTINCT FROM _territory.owner_id
+    AND o.owner_id IS DISTINCT FROM _owner_id;
+  GET DIAGNOSTICS _opportunities = ROW_COUNT;
+
+  INSERT INTO public.audit_logs (actor_id, action, action_category, target_type, target_id, target_name, metadata, risk_level)
+  VALUES (
+    auth.uid(),
+    'territory_reassigned',
+    'data_modification',
+    'sales_territory',
+    _territory_id::text,
+    _territory.name,
+    jsonb_build_object(
+      'tenant_id', _territory.tenant_id,
+      'previous_owner_id', _territory.owner_id,
+      'new_owner_id', _owner_id,
+      'companies_updated', _companies,
+      'opportunities_updated', _opportunities
+    ),
+    'medium'
+  );
+
+  RETURN QUERY SELECT _companies, _opportunities;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reassign_sales_territory(uuid, uuid) FROM anon, PUBLIC;
+GRANT EXECUTE ON FUNCTION public.reassign_sales_territory(uuid, uuid) TO authenticated;
@@ -0,0 +1,92 @@
+-- ============================================================
+-- Tasks: keep the calendar triggers inside the task's tenant
+-- calendar_event_id is only ever set by prepare_task. A value sent by the
+-- client is ignored, so a task can't be pointed at another tenant's event
+-- and have it rewritten or deleted. The assignee must belong to the tenant,
+-- and the company is only filled in from records of the same tenant.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.prepare_task()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.calendar_event_id := NULL;
+  ELSE
+    NEW.calendar_event_id := OLD.calendar_event_id;
+  END IF;
+
+  IF NEW.assignee_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.tenant_members tm
+    WHERE tm.tenant_id = NEW.tenant_id
+      AND tm.user_id = NEW.assignee_id
+      AND tm.status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'Assignee is not a member of this tenant';
+  END IF;
+
+  IF NEW.status = 'done' AND (TG_OP = 'INSERT' OR OLD.status <> 'done') THEN
+    NEW.completed_at := now();
+  ELSIF NEW.status <> 'done' THEN
+    NEW.completed_at := NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.due_at IS DISTINCT FROM OLD.due_at THEN
+    NEW.reminded_at := NULL;
+  END IF;
+
+  IF NEW.company_id IS NULL THEN
+    NEW.company_id := COALESCE(
+      (SELECT company_id FROM public.people WHERE id = NEW.person_id AND tenant_id = NEW.tenant_id),
+      (SELECT company_id FROM public.quotes WHERE id = NEW.quote_id AND tenant_id = NEW.tenant_id),
+      (SELECT company_id FROM public.invoices WHERE id = NEW.invoice_id AND tenant_id = NEW.tenant_id)
+    );
+  END IF;
+
+  IF NEW.status = 'open' AND NEW.due_at IS NOT NULL AND NEW.assignee_id IS NOT NULL THEN
+    IF NEW.calendar_event_id IS NULL THEN
+      INSERT INTO public.calendar_events
+        (tenant_id, title, description, start_time, end_time, event_type, created_by, person_id)
+      VALUES
+        (NEW.tenant_id, 'Task: ' || NEW.title, NEW.notes, NEW.due_at, NEW.due_at + interval '30 minutes',
+         'task', NEW.assignee_id, NEW.person_id)
+      RETURNING id INTO NEW.calendar_event_id;
+    ELSE
+      UPDATE public.calendar_events
+      SET title = 'Task: ' || NEW.title,
+          description = NEW.notes,
+          start_time = NEW.due_at,
+          end_time = NEW.due_at + interval '30 minutes',
+          created_by = NEW.assignee_id,
+          person_id = NEW.person_id
+      WHERE id = NEW.calendar_event_id
+        AND tenant_id = NEW.tenant_id;
+    END IF;
+  ELSE
+    -- Removed by trg_tasks_delete_calendar_event once the row no longer points at it
+    NEW.calendar_event_id := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.delete_task_calendar_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.calendar_event_id IS NOT NULL
+     AND (TG_OP = 'DELETE' OR NEW.calendar_event_id IS DISTINCT FROM OLD.calendar_event_id) THEN
+    DELETE FROM public.calendar_events
+    WHERE id = OLD.calendar_event_id
+      AND tenant_id = OLD.tenant_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
@@ -0,0 +1,4 @@
+-- ensure_system_accounts takes any tenant id and has no role check; it is
+-- only meant to run from the posting functions and the tenant setup trigger,
+-- like system_account_id. Signed-in users must not be able to call it.
+REVOKE EXECUTE ON FUNCTION public.ensure_system_accounts(uuid) FROM anon, authenticated, PUBLIC;
@@ -0,0 +1,251 @@
+-- ============================================================
+-- Customer portal: confirmed company links, customer-facing reads
+-- company_id on quotes and invoices is guessed from the customer name or the
+-- matched contact and stays a CRM hint only. The portal now goes by
+-- confirmed_company_id, which staff set explicitly on the document. Portal
+-- users no longer read the tables directly: the functions below return the
+-- customer-facing columns, so notes, salesman and pricing approval fields
+-- stay internal.
+-- ============================================================
+
+ALTER TABLE public.quotes
+  ADD COLUMN IF NOT EXISTS confirmed_company_id uuid REFERENCES public.companies(id) ON DELETE SET NULL;
+
+ALTER TABLE public.invoices
+  ADD COLUMN IF NOT EXISTS confirmed_company_id uuid REFERENCES public.companies(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_quotes_confirmed_company ON public.quotes(confirmed_company_id);
+CREATE INDEX IF NOT EXISTS idx_invoices_confirmed_company ON public.invoices(confirmed_company_id);
+
+CREATE OR REPLACE FUNCTION public.check_document_confirmed_company()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- An invoice raised from a confirmed quote, directly or through its sales
+  -- order, stays confirmed. Quotes have no source_quote_id, so the columns
+  -- are only read for invoices.
+  IF TG_OP = 'INSERT' AND TG_TABLE_NAME = 'invoices' AND NEW.confirmed_company_id IS NULL THEN
+    NEW.confirmed_company_id := COALESCE(
+      (SELECT q.confirmed_company_id FROM public.quotes q
+       WHERE q.id = NEW.source_quote_id AND q.tenant_id = NEW.tenant_id),
+      (SELECT q.confirmed_company_id FROM public.sales_orders so
+       JOIN public.quotes q ON q.id = so.source_quote_id
+       WHERE so.id = NEW.sales_order_id AND q.tenant_id = NEW.tenant_id)
+    );
+  END IF;
+
+  IF NEW.confirmed_company_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.companies
+    WHERE id = NEW.confirmed_company_id AND tenant_id = NEW.tenant_id
+  ) THEN
+    RAISE EXCEPTION 'Company not found';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_quotes_confirmed_company
+BEFORE INSERT OR UPDATE OF confirmed_company_id ON public.quotes
+FOR EACH ROW EXECUTE FUNCTION public.check_document_confirmed_company();
+
+CREATE TRIGGER trg_invoices_confirmed_company
+BEFORE INSERT OR UPDATE OF confirmed_company_id ON public.invoices
+FOR EACH ROW EXECUTE FUNCTION public.check_document_confirmed_company();
+
+-- ============================================================
+-- Portal reads
+-- ============================================================
+
+DROP POLICY "Portal customers can view their company quotes" ON public.quotes;
+DROP POLICY "Portal customers can view their company invoices" ON public.invoices;
+DROP POLICY "Portal customers can view their company" ON public.companies;
+
+CREATE OR REPLACE FUNCTION public.get_portal_company(_tenant_id uuid)
+RETURNS TABLE (id uuid, name text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.id, c.name
+  FROM public.companies c
+  WHERE c.tenant_id = _tenant_id
+    AND c.id = public.portal_company_id(_tenant_id);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_portal_company(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_portal_quotes(_tenant_id uuid)
+RETURNS TABLE (
+  id uuid,
+  quote_number text,
+  revision integer,
+  customer_name text,
+  customer_email text,
+  customer_phone text,
+  customer_address text,
+  ship_to_name text,
+  ship_to_address text,
+  items jsonb,
+  subtotal numeric,
+  discount numeric,
+  shipping numeric,
+  tax numeric,
+  tax_details jsonb,
+  tax_exempt_certificate text,
+  total numeric,
+  status text,
+  expires_at timestamptz,
+  customer_responded_at timestamptz,
+  customer_response_note text,
+  created_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    q.id, q.quote_number, q.revision,
+    q.customer_name, q.customer_email, q.customer_phone, q.customer_address,
+    q.ship_to_name, q.ship_to_address,
+    q.items, q.subtotal, q.discount, q.shipping, q.tax, q.tax_details, q.tax_exempt_certificate, q.total,
+    q.status, q.expires_at, q.customer_responded_at, q.customer_response_note, q.created_at
+  FROM public.quotes q
+  WHERE q.tenant_id = _tenant_id
+    AND q.status <> 'draft'
+    AND q.pricing_approval_status NOT IN ('pending', 'rejected')
+    AND q.confirmed_company_id IS NOT NULL
+    AND q.confirmed_company_id = public.portal_company_id(_tenant_id)
+  ORDER BY q.created_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_portal_quotes(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_portal_invoices(_tenant_id uuid)
+RETURNS TABLE (
+  id uuid,
+  invoice_number text,
+  customer_name text,
+  customer_email text,
+  customer_phone text,
+  customer_address text,
+  ship_to_name text,
+  ship_to_address text,
+  items jsonb,
+  subtotal numeric,
+  discount numeric,
+  shipping numeric,
+  tax numeric,
+  tax_details jsonb,
+  tax_exempt_certificate text,
+  total numeric,
+  paid boolean,
+  paid_at timestamptz,
+  amount_paid numeric,
+  amount_credited numeric,
+  payment_status text,
+  created_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    inv.id, inv.invoice_number,
+    inv.customer_name, inv.customer_email, inv.customer_phone, inv.customer_address,
+    inv.ship_to_name, inv.ship_to_address,
+    inv.items, inv.subtotal, inv.discount, inv.shipping, inv.tax, inv.tax_details, inv.tax_exempt_certificate, inv.total,
+    inv.paid, inv.paid_at, inv.amount_paid, inv.amount_credited, inv.payment_status, inv.created_at
+  FROM public.invoices inv
+  WHERE inv.tenant_id = _tenant_id
+    AND inv.status = 'finalized'
+    AND inv.confirmed_company_id IS NOT NULL
+    AND inv.confirmed_company_id = public.portal_company_id(_tenant_id)
+  ORDER BY inv.created_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_portal_invoices(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.respond_to_quote(_quote_id uuid, _accept boolean, _note text DEFAULT NULL)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quote public.quotes%ROWTYPE;
+  v_status text;
+BEGIN
+  SELECT * INTO v_quote FROM public.quotes WHERE id = _quote_id FOR UPDATE;
+  IF NOT FOUND OR v_quote.confirmed_company_id IS NULL
+     OR v_quote.confirmed_company_id IS DISTINCT FROM public.portal_company_id(v_quote.tenant_id)
+     OR v_quote.status = 'draft'
+     OR v_quote.pricing_approval_status IN ('pending', 'rejected') THEN
+    RAISE EXCEPTION 'Quote not found';
+  END IF;
+
+  IF v_quote.status <> 'pending' THEN
+    RAISE EXCEPTION 'Quote % is % and can no longer be answered', v_quote.quote_number, v_quote.status;
+  END IF;
+
+  IF v_quote.expires_at IS NOT NULL AND v_quote.expires_at < now() THEN
+    RAISE EXCEPTION 'Quote % has expired', v_quote.quote_number;
+  END IF;
+
+  v_status := CASE WHEN _accept THEN 'approved' ELSE 'rejected' END;
+
+  UPDATE public.quotes
+  SET status = v_status,
+      customer_responded_at = now(),
+      customer_responded_by = auth.uid(),
+      customer_response_note = NULLIF(trim(COALESCE(_note, '')), '')
+  WHERE id = _quote_id;
+
+  RETURN v_status;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_portal_purchased_units(_tenant_id uuid)
+RETURNS TABLE (
+  item_id uuid,
+  part_number text,
+  serial_number text,
+  description text,
+  invoice_id uuid,
+  invoice_number text,
+  sold_date timestamptz,
+  warranty_months integer,
+  warranty_end_date timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    i.id,
+    i.part_number,
+    i.serial_number,
+    i.description,
+    inv.id,
+    inv.invoice_number,
+    COALESCE(i.date_sold, inv.created_at),
+    i.warranty_months,
+    CASE WHEN COALESCE(i.warranty_months, 0) > 0
+      THEN COALESCE(i.date_sold, inv.created_at) + make_interval(months => i.warranty_months)
+    END
+  FROM public.items i
+  JOIN public.invoices inv ON inv.id = i.sold_in_invoice_id
+  WHERE i.tenant_id = _tenant_id
+    AND i.status = 'sold'
+    AND i.serial_number IS NOT NULL
+    AND inv.status = 'finalized'
+    AND inv.confirmed_company_id IS NOT NULL
+    AND inv.confirmed_company_id = public.portal_company_id(_tenant_id)
+  ORDER BY COALESCE(i.date_sold, inv.created_at) DESC;
+$$;
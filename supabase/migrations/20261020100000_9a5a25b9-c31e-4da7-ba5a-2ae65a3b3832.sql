@@ -0,0 +1,28 @@
+-- ============================================================
+-- Document numbering: the counter never moves backwards
+-- Owners can update document_sequences directly, so a settings screen that
+-- saved a stale next_value could hand out numbers again. Lowering the counter
+-- is only allowed together with a new pattern, or when a yearly counter
+-- starts over in the new year.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.guard_document_sequence_next_value()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.next_value < OLD.next_value
+     AND NEW.pattern IS NOT DISTINCT FROM OLD.pattern
+     AND NOT (NEW.reset_yearly
+              AND NEW.current_year <> OLD.current_year
+              AND NEW.current_year = extract(year FROM now())::integer) THEN
+    RAISE EXCEPTION 'The next number can''t go below % without changing the pattern', OLD.next_value;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_document_sequences_guard_next_value
+  BEFORE UPDATE OF next_value ON public.document_sequences
+  FOR EACH ROW EXECUTE FUNCTION public.guard_document_sequence_next_value();
@@ -0,0 +1,189 @@
+-- ============================================================
+-- Purchase order receiving in one transaction
+-- Receiving used to create items one call at a time from the browser and only
+-- then update the PO, so a failure part way left stock without a receipt and
+-- a retry created the units again. The whole receipt now runs here: units are
+-- created, quantity stock is moved, the PO and its line rows are updated and
+-- the receipt journal is posted, or nothing is.
+--
+-- _lines: [{ line_index, quantity, received_quantity, serial_numbers,
+--            shelf_location, sale_price, track_by_quantity }]
+-- line_index is the position in purchase_orders.items; received_quantity is
+-- what the receiving screen saw, so a receipt recorded meanwhile is refused
+-- rather than counted twice.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(
+  _po_id uuid,
+  _lines jsonb,
+  _warehouse_id uuid DEFAULT NULL,
+  _close_short boolean DEFAULT false
+)
+RETURNS TABLE (po_status text, po_items jsonb, stocked_units integer)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_po public.purchase_orders%ROWTYPE;
+  v_items jsonb;
+  v_line jsonb;
+  v_po_line jsonb;
+  v_index integer;
+  v_quantity integer;
+  v_unit_cost numeric;
+  v_serial text;
+  v_serials text[] := ARRAY[]::text[];
+  v_item_id uuid;
+  v_item_ids uuid[] := ARRAY[]::uuid[];
+  v_costs numeric[] := ARRAY[]::numeric[];
+  v_stocked integer := 0;
+  v_claimed uuid[] := ARRAY[]::uuid[];
+  v_row_id uuid;
+  v_status text;
+  i integer;
+BEGIN
+  SELECT * INTO v_po FROM public.purchase_orders WHERE id = _po_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order % not found', _po_id;
+  END IF;
+  IF NOT has_tenant_role(v_po.tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]) THEN
+    RAISE EXCEPTION 'Not authorized to receive purchase order %', v_po.po_number;
+  END IF;
+  IF COALESCE(v_po.status, 'pending') NOT IN ('pending', 'partial') THEN
+    RAISE EXCEPTION 'Purchase order % is already %', v_po.po_number, v_po.status;
+  END IF;
+  IF _warehouse_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.warehouses WHERE id = _warehouse_id AND tenant_id = v_po.tenant_id
+  ) THEN
+    RAISE EXCEPTION 'Location % not found', _warehouse_id;
+  END IF;
+
+  v_items := COALESCE(v_po.items, '[]'::jsonb);
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(COALESCE(_lines, '[]'::jsonb)) LOOP
+    v_index := (v_line->>'line_index')::integer;
+    v_quantity := COALESCE((v_line->>'quantity')::integer, 0);
+    v_po_line := v_items -> v_index;
+    CONTINUE WHEN v_quantity <= 0 OR v_po_line IS NULL;
+
+    IF COALESCE((v_po_line->>'receivedQuantity')::integer, 0) <> COALESCE((v_line->>'received_quantity')::integer, 0) THEN
+      RAISE EXCEPTION '% on % was received by someone else; reload and try again',
+        v_po_line->>'partNumber', v_po.po_number;
+    END IF;
+
+    v_unit_cost := COALESCE((v_po_line->>'unitCost')::numeric, 0);
+
+    IF COALESCE((v_line->>'track_by_quantity')::boolean, false) THEN
+      -- Quantity items are one row per part number per location
+      SELECT id INTO v_item_id
+      FROM public.items
+      WHERE tenant_id = v_po.tenant_id
+        AND tracking_mode = 'quantity'
+        AND part_number = v_po_line->>'partNumber'
+        AND warehouse_id IS NOT DISTINCT FROM _warehouse_id
+      ORDER BY created_at
+      LIMIT 1;
+
+      IF v_item_id IS NULL THEN
+        INSERT INTO public.items (
+          tenant_id, part_number, description, status, sale_price, cost, shelf_location,
+          tracking_mode, quantity_on_hand, warehouse_id
+        ) VALUES (
+          v_po.tenant_id, v_po_line->>'partNumber', COALESCE(v_po_line->>'description', v_po_line->>'partNumber'),
+          'sold', COALESCE((v_line->>'sale_price')::numeric, 0), v_unit_cost,
+          NULLIF(trim(COALESCE(v_line->>'shelf_location', '')), ''), 'quantity', 0, _warehouse_id
+        )
+        RETURNING id INTO v_item_id;
+      END IF;
+
+      PERFORM public.record_inventory_movement(
+        v_item_id, v_quantity, 'receipt', 'purchase_order', _po_id, v_unit_cost, v_po.po_number, false
+      );
+      v_item_ids := v_item_ids || v_item_id;
+      v_costs := v_costs || (v_quantity * v_unit_cost);
+      v_stocked := v_stocked + v_quantity;
+    ELSE
+      FOR i IN 0 .. v_quantity - 1 LOOP
+        v_serial := NULLIF(trim(COALESCE(v_line->'serial_numbers'->>i, '')), '');
+
+        IF v_serial IS NOT NULL THEN
+          IF v_serial = ANY(v_serials) THEN
+            RAISE EXCEPTION 'Serial % is entered more than once', v_serial;
+          END IF;
+          IF EXISTS (
+            SELECT 1 FROM public.items
+            WHERE tenant_id = v_po.tenant_id
+              AND part_number = v_po_line->>'partNumber'
+              AND serial_number = v_serial
+          ) THEN
+            RAISE EXCEPTION 'Serial % is already in inventory for %', v_serial, v_po_line->>'partNumber';
+          END IF;
+          v_serials := v_serials || v_serial;
+        END IF;
+
+        INSERT INTO public.items (
+          tenant_id, part_number, serial_number, description, status, sale_price, cost,
+          shelf_location, tracking_mode, warehouse_id
+        ) VALUES (
+          v_po.tenant_id, v_po_line->>'partNumber', v_serial,
+          COALESCE(v_po_line->>'description', v_po_line->>'partNumber'), 'available',
+          COALESCE((v_line->>'sale_price')::numeric, 0), v_unit_cost,
+          NULLIF(trim(COALESCE(v_line->>'shelf_location', '')), ''), 'serialized', _warehouse_id
+        )
+        RETURNING id INTO v_item_id;
+
+        v_item_ids := v_item_ids || v_item_id;
+        v_costs := v_costs || v_unit_cost;
+        v_stocked := v_stocked + 1;
+      END LOOP;
+    END IF;
+
+    v_items := jsonb_set(
+      v_items, ARRAY[v_index::text, 'receivedQuantity'],
+      to_jsonb(COALESCE((v_po_line->>'receivedQuantity')::integer, 0) + v_quantity)
+    );
+  END LOOP;
+
+  IF v_stocked = 0 THEN
+    RAISE EXCEPTION 'Enter a received quantity for at least one line';
+  END IF;
+
+  -- A short-closed PO counts as received once anything has arrived
+  SELECT CASE
+    WHEN bool_and(COALESCE((e->>'receivedQuantity')::integer, 0) >= COALESCE((e->>'quantity')::integer, 0))
+      OR (_close_short AND bool_or(COALESCE((e->>'receivedQuantity')::integer, 0) > 0)) THEN 'received'
+    WHEN bool_or(COALESCE((e->>'receivedQuantity')::integer, 0) > 0) THEN 'partial'
+    ELSE 'pending'
+  END INTO v_status
+  FROM jsonb_array_elements(v_items) e;
+
+  UPDATE public.purchase_orders SET items = v_items, status = v_status WHERE id = _po_id;
+
+  -- Keep the normalized line rows in step with the summary. Rows are matched
+  -- by part/serial number since the summary JSON carries no row ids.
+  FOR v_po_line IN SELECT * FROM jsonb_array_elements(v_items) LOOP
+    SELECT id INTO v_row_id
+    FROM public.purchase_order_items
+    WHERE po_id = _po_id
+      AND part_number = v_po_line->>'partNumber'
+      AND COALESCE(serial_number, '') = COALESCE(v_po_line->>'serialNumber', '')
+      AND NOT (id = ANY(v_claimed))
+    ORDER BY created_at, id
+    LIMIT 1;
+    CONTINUE WHEN v_row_id IS NULL;
+    v_claimed := v_claimed || v_row_id;
+
+    UPDATE public.purchase_order_items
+    SET received_quantity = COALESCE((v_po_line->>'receivedQuantity')::integer, 0)
+    WHERE id = v_row_id
+      AND received_quantity IS DISTINCT FROM COALESCE((v_po_line->>'receivedQuantity')::integer, 0);
+  END LOOP;
+
+  PERFORM public.post_po_receipt_journal(_po_id, v_item_ids, v_costs);
+
+  RETURN QUERY SELECT v_status, v_items, v_stocked;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.receive_purchase_order(uuid, jsonb, uuid, boolean) TO authenticated;
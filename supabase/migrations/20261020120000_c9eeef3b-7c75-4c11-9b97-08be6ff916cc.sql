@@ -0,0 +1,56 @@
+-- ============================================================
+-- Invoice payments: keep payments on invoices of the same tenant
+-- The policies only checked the payment's own tenant_id, and the roll-up
+-- trigger updated the invoice by id alone, so a payment pointed at another
+-- tenant's invoice rewrote that invoice's amount_paid.
+-- ============================================================
+
+DROP POLICY "Tenant members can insert invoice payments" ON public.invoice_payments;
+DROP POLICY "Tenant owners can update invoice payments" ON public.invoice_payments;
+
+CREATE POLICY "Tenant members can insert invoice payments" ON public.invoice_payments
+  FOR INSERT TO authenticated WITH CHECK (
+    has_tenant_role(tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[])
+    AND EXISTS (
+      SELECT 1 FROM public.invoices i
+      WHERE i.id = invoice_payments.invoice_id AND i.tenant_id = invoice_payments.tenant_id
+    )
+  );
+CREATE POLICY "Tenant owners can update invoice payments" ON public.invoice_payments
+  FOR UPDATE TO authenticated
+  USING (has_tenant_role(tenant_id, auth.uid(), ARRAY['owner']::app_role[]))
+  WITH CHECK (
+    has_tenant_role(tenant_id, auth.uid(), ARRAY['owner']::app_role[])
+    AND EXISTS (
+      SELECT 1 FROM public.invoices i
+      WHERE i.id = invoice_payments.invoice_id AND i.tenant_id = invoice_payments.tenant_id
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.refresh_invoice_amount_paid()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice_id uuid := COALESCE(NEW.invoice_id, OLD.invoice_id);
+  v_tenant_id uuid := COALESCE(NEW.tenant_id, OLD.tenant_id);
+  v_sum numeric;
+  v_last date;
+BEGIN
+  SELECT COALESCE(SUM(amount), 0), MAX(payment_date)
+    INTO v_sum, v_last
+  FROM public.invoice_payments
+  WHERE invoice_id = v_invoice_id
+    AND tenant_id = v_tenant_id;
+
+  UPDATE public.invoices
+  SET amount_paid = v_sum,
+      paid_at = CASE WHEN v_sum + amount_credited >= total - 0.005 THEN v_last::timestamptz ELSE NULL END
+  WHERE id = v_invoice_id
+    AND tenant_id = v_tenant_id;
+
+  RETURN NULL;
+END;
+$$;
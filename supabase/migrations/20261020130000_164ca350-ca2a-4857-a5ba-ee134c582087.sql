@@ -0,0 +1,419 @@
+-- ============================================================
+-- Journal posting inside the document write
+-- Invoices, payments and expenses used to be posted (or reversed) by a
+-- second call from the browser after the row was written, so a failure in
+-- between left the ledger out of step with the documents. Triggers now post
+-- in the same transaction as the write, and deleting an invoice reverses the
+-- entries of its payments as well, which go with it by cascade. The post_*
+-- functions become internal: tenant staff no longer call them, or reverse a
+-- document's entries on demand.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.post_invoice_journal(_invoice_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_inv public.invoices%ROWTYPE;
+  v_reversed integer;
+  v_date date;
+  v_tax numeric;
+  v_shipping numeric;
+  v_discount numeric;
+  v_revenue numeric;
+  v_lines jsonb;
+  v_cogs jsonb;
+BEGIN
+  SELECT * INTO v_inv FROM public.invoices WHERE id = _invoice_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invoice % not found', _invoice_id;
+  END IF;
+
+  v_reversed := public.reverse_journal_entries(
+    v_inv.tenant_id, 'invoice', v_inv.id, 'Invoice ' || v_inv.invoice_number || ' changed'
+  );
+
+  IF COALESCE(v_inv.status, 'finalized') <> 'finalized' THEN
+    RETURN NULL;
+  END IF;
+
+  -- First posting lands on the invoice date; corrections land today
+  v_date := CASE WHEN v_reversed > 0 THEN CURRENT_DATE ELSE v_inv.created_at::date END;
+
+  v_tax := COALESCE(v_inv.tax, 0);
+  v_shipping := COALESCE(v_inv.shipping, 0);
+  v_discount := COALESCE(v_inv.discount, 0);
+  -- Derived from total so rounding in the editor can never unbalance the entry
+  v_revenue := v_inv.total - v_tax - v_shipping + v_discount;
+
+  v_lines := jsonb_build_array(
+    jsonb_build_object('account_id', public.system_account_id(v_inv.tenant_id, 'accounts_receivable'), 'amount', v_inv.total),
+    jsonb_build_object('account_id', public.system_account_id(v_inv.tenant_id, 'sales_revenue'), 'amount', -v_revenue),
+    jsonb_build_object('account_id', public.system_account_id(v_inv.tenant_id, 'sales_discounts'), 'amount', v_discount),
+    jsonb_build_object('account_id', public.system_account_id(v_inv.tenant_id, 'shipping_revenue'), 'amount', -v_shipping),
+    jsonb_build_object('account_id', public.system_account_id(v_inv.tenant_id, 'sales_tax_payable'), 'amount', -v_tax)
+  );
+
+  SELECT COALESCE(jsonb_agg(line), '[]'::jsonb) INTO v_cogs
+  FROM (
+    SELECT jsonb_build_object('account_id', cogs_account, 'amount', SUM(cost), 'description', 'Cost of goods sold') AS line
+    FROM (
+      SELECT COALESCE(i.cogs_account_id, public.system_account_id(v_inv.tenant_id, 'cogs')) AS cogs_account,
+             COALESCE(i.cost, 0) * COALESCE(NULLIF(li->>'quantity', '')::numeric, 1) AS cost
+      FROM jsonb_array_elements(COALESCE(v_inv.items, '[]'::jsonb)) li
+      JOIN public.items i ON i.id::text = li->>'id' AND i.tenant_id = v_inv.tenant_id
+    ) c
+    GROUP BY cogs_account
+    UNION ALL
+    SELECT jsonb_build_object('account_id', asset_account, 'amount', -SUM(cost), 'description', 'Inventory relieved') AS line
+    FROM (
+      SELECT COALESCE(i.asset_account_id, public.system_account_id(v_inv.tenant_id, 'inventory')) AS asset_account,
+             COALESCE(i.cost, 0) * COALESCE(NULLIF(li->>'quantity', '')::numeric, 1) AS cost
+      FROM jsonb_array_elements(COALESCE(v_inv.items, '[]'::jsonb)) li
+      JOIN public.items i ON i.id::text = li->>'id' AND i.tenant_id = v_inv.tenant_id
+    ) a
+    GROUP BY asset_account
+  ) lines;
+
+  RETURN public.create_journal_entry(
+    v_inv.tenant_id, v_date, 'invoice', v_inv.id,
+    'Invoice ' || v_inv.invoice_number || COALESCE(' - ' || v_inv.customer_name, ''),
+    v_lines || v_cogs
+  );
+END;
+$$;
+
+-- Expense: Dr expense (by category group) / Cr cash, or credit card payable
+-- when the expense was put on a card.
+CREATE OR REPLACE FUNCTION public.post_expense_journal(_expense_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_exp public.expenses%ROWTYPE;
+  v_reversed integer;
+  v_key text;
+  v_credit_key text;
+BEGIN
+  SELECT * INTO v_exp FROM public.expenses WHERE id = _expense_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Expense % not found', _expense_id;
+  END IF;
+
+  v_reversed := public.reverse_journal_entries(v_exp.tenant_id, 'expense', v_exp.id, 'Expense changed');
+
+  v_key := CASE
+    WHEN v_exp.category LIKE 'utilities_%' THEN 'expense_utilities'
+    WHEN v_exp.category IN ('factory_supplies', 'tools', 'equipment_rental') THEN 'expense_factory'
+    WHEN v_exp.category IN ('shipping_outbound', 'shipping_inbound', 'freight') THEN 'expense_shipping'
+    WHEN v_exp.category LIKE 'labor_%' THEN 'expense_labor'
+    WHEN v_exp.category IN ('fuel', 'vehicle_maintenance', 'travel') THEN 'expense_vehicle'
+    ELSE 'expense_general'
+  END;
+  v_credit_key := CASE WHEN v_exp.credit_card_last4 IS NOT NULL THEN 'credit_card_payable' ELSE 'cash' END;
+
+  RETURN public.create_journal_entry(
+    v_exp.tenant_id,
+    CASE WHEN v_reversed > 0 THEN CURRENT_DATE ELSE v_exp.expense_date END,
+    'expense', v_exp.id,
+    'Expense - ' || v_exp.employee_name || COALESCE(': ' || v_exp.description, ''),
+    jsonb_build_array(
+      jsonb_build_object('account_id', public.system_account_id(v_exp.tenant_id, v_key), 'amount', v_exp.amount),
+      jsonb_build_object('account_id', public.system_account_id(v_exp.tenant_id, v_credit_key), 'amount', -v_exp.amount)
+    )
+  );
+END;
+$$;
+
+-- Customer payment: Dr cash / Cr AR. Negative amounts (refunds) flip naturally.
+CREATE OR REPLACE FUNCTION public.post_invoice_payment_journal(_payment_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_pay public.invoice_payments%ROWTYPE;
+  v_invoice_number text;
+  v_reversed integer;
+BEGIN
+  SELECT * INTO v_pay FROM public.invoice_payments WHERE id = _payment_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment % not found', _payment_id;
+  END IF;
+
+  SELECT invoice_number INTO v_invoice_number FROM public.invoices
+  WHERE id = v_pay.invoice_id AND tenant_id = v_pay.tenant_id;
+  v_reversed := public.reverse_journal_entries(v_pay.tenant_id, 'invoice_payment', v_pay.id, 'Payment changed');
+
+  RETURN public.create_journal_entry(
+    v_pay.tenant_id,
+    CASE WHEN v_reversed > 0 THEN CURRENT_DATE ELSE v_pay.payment_date END,
+    'invoice_payment', v_pay.id,
+    'Payment on ' || COALESCE(v_invoice_number, 'invoice') || ' (' || v_pay.method || ')',
+    jsonb_build_array(
+      jsonb_build_object('account_id', public.system_account_id(v_pay.tenant_id, 'cash'), 'amount', v_pay.amount),
+      jsonb_build_object('account_id', public.system_account_id(v_pay.tenant_id, 'accounts_receivable'), 'amount', -v_pay.amount)
+    )
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.post_invoice_journal(uuid) FROM anon, authenticated, PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.post_expense_journal(uuid) FROM anon, authenticated, PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.post_invoice_payment_journal(uuid) FROM anon, authenticated, PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.post_po_receipt_journal(uuid, uuid[], numeric[]) FROM anon, authenticated, PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.reverse_document_journal(text, uuid) FROM anon, authenticated, PUBLIC;
+
+-- ============================================================
+-- Posting triggers
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.journal_invoice_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.reverse_journal_entries(
+      OLD.tenant_id, 'invoice', OLD.id, 'Invoice ' || OLD.invoice_number || ' deleted'
+    );
+    RETURN NULL;
+  END IF;
+
+  PERFORM public.post_invoice_journal(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.journal_expense_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.reverse_journal_entries(OLD.tenant_id, 'expense', OLD.id, 'Expense deleted');
+    RETURN NULL;
+  END IF;
+
+  PERFORM public.post_expense_journal(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+-- Also fires for the payments an invoice delete cascades to
+CREATE OR REPLACE FUNCTION public.journal_invoice_payment_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.reverse_journal_entries(OLD.tenant_id, 'invoice_payment', OLD.id, 'Payment deleted');
+    RETURN NULL;
+  END IF;
+
+  PERFORM public.post_invoice_payment_journal(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.journal_invoice_change() FROM anon, authenticated, PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.journal_expense_change() FROM anon, authenticated, PUBLIC;
+REVOKE EXECUTE ON FUNCTION public.journal_invoice_payment_change() FROM anon, authenticated, PUBLIC;
+
+-- Drafts post nothing, so only finalized inserts need a posting
+CREATE TRIGGER trg_invoices_journal_insert
+AFTER INSERT ON public.invoices
+FOR EACH ROW WHEN (COALESCE(NEW.status, 'finalized') = 'finalized')
+EXECUTE FUNCTION public.journal_invoice_change();
+
+CREATE TRIGGER trg_invoices_journal_update
+AFTER UPDATE ON public.invoices
+FOR EACH ROW WHEN (
+  OLD.status IS DISTINCT FROM NEW.status
+  OR OLD.items IS DISTINCT FROM NEW.items
+  OR OLD.subtotal IS DISTINCT FROM NEW.subtotal
+  OR OLD.discount IS DISTINCT FROM NEW.discount
+  OR OLD.shipping IS DISTINCT FROM NEW.shipping
+  OR OLD.tax IS DISTINCT FROM NEW.tax
+  OR OLD.total IS DISTINCT FROM NEW.total
+)
+EXECUTE FUNCTION public.journal_invoice_change();
+
+CREATE TRIGGER trg_invoices_journal_delete
+AFTER DELETE ON public.invoices
+FOR EACH ROW EXECUTE FUNCTION public.journal_invoice_change();
+
+CREATE TRIGGER trg_expenses_journal_insert
+AFTER INSERT ON public.expenses
+FOR EACH ROW EXECUTE FUNCTION public.journal_expense_change();
+
+CREATE TRIGGER trg_expenses_journal_update
+AFTER UPDATE ON public.expenses
+FOR EACH ROW WHEN (
+  OLD.amount IS DISTINCT FROM NEW.amount
+  OR OLD.expense_date IS DISTINCT FROM NEW.expense_date
+  OR OLD.category IS DISTINCT FROM NEW.category
+  OR OLD.credit_card_last4 IS DISTINCT FROM NEW.credit_card_last4
+)
+EXECUTE FUNCTION public.journal_expense_change();
+
+CREATE TRIGGER trg_expenses_journal_delete
+AFTER DELETE ON public.expenses
+FOR EACH ROW EXECUTE FUNCTION public.journal_expense_change();
+
+CREATE TRIGGER trg_invoice_payments_journal_insert
+AFTER INSERT ON public.invoice_payments
+FOR EACH ROW EXECUTE FUNCTION public.journal_invoice_payment_change();
+
+CREATE TRIGGER trg_invoice_payments_journal_update
+AFTER UPDATE ON public.invoice_payments
+FOR EACH ROW WHEN (
+  OLD.amount IS DISTINCT FROM NEW.amount
+  OR OLD.payment_date IS DISTINCT FROM NEW.payment_date
+  OR OLD.method IS DISTINCT FROM NEW.method
+)
+EXECUTE FUNCTION public.journal_invoice_payment_change();
+
+CREATE TRIGGER trg_invoice_payments_journal_delete
+AFTER DELETE ON public.invoice_payments
+FOR EACH ROW EXECUTE FUNCTION public.journal_invoice_payment_change();
+
+-- The refund payment is now posted by its insert trigger
+CREATE OR REPLACE FUNCTION public.issue_credit_memo(
+  _rma_id uuid,
+  _settlement text,
+  _refund_method text DEFAULT NULL,
+  _notes text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rma public.rmas%ROWTYPE;
+  v_inv public.invoices%ROWTYPE;
+  v_items jsonb;
+  v_subtotal numeric;
+  v_taxable numeric;
+  v_invoice_taxable numeric;
+  v_discount numeric := 0;
+  v_tax numeric := 0;
+  v_total numeric;
+  v_memo_id uuid;
+  v_number text;
+  v_payment_id uuid;
+BEGIN
+  SELECT * INTO v_rma FROM public.rmas WHERE id = _rma_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RMA % not found', _rma_id;
+  END IF;
+  IF NOT has_tenant_role(v_rma.tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]) THEN
+    RAISE EXCEPTION 'Not authorized to credit RMA %', v_rma.rma_number;
+  END IF;
+  IF v_rma.status NOT IN ('received', 'closed') THEN
+    RAISE EXCEPTION 'RMA % must be received before it is credited', v_rma.rma_number;
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.credit_memos WHERE rma_id = _rma_id) THEN
+    RAISE EXCEPTION 'RMA % already has a credit memo', v_rma.rma_number;
+  END IF;
+  IF _settlement NOT IN ('apply_to_balance', 'refund') THEN
+    RAISE EXCEPTION 'Unknown settlement %', _settlement;
+  END IF;
+
+  SELECT * INTO v_inv FROM public.invoices WHERE id = v_rma.invoice_id FOR UPDATE;
+  IF COALESCE(v_inv.status, 'finalized') <> 'finalized' THEN
+    RAISE EXCEPTION 'Invoice % is not finalized', v_inv.invoice_number;
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object(
+           'id', item_id,
+           'partNumber', part_number,
+           'serialNumber', serial_number,
+           'description', COALESCE(description, part_number),
+           'sellPrice', unit_price,
+           'quantity', quantity,
+           'taxable', taxable
+         ) ORDER BY created_at),
+         COALESCE(SUM(unit_price * quantity), 0),
+         COALESCE(SUM(unit_price * quantity) FILTER (WHERE taxable), 0)
+    INTO v_items, v_subtotal, v_taxable
+  FROM public.rma_lines
+  WHERE rma_id = _rma_id;
+
+  IF v_subtotal <= 0 THEN
+    RAISE EXCEPTION 'RMA % has nothing to credit', v_rma.rma_number;
+  END IF;
+
+  IF COALESCE(v_inv.discount, 0) > 0 AND v_inv.subtotal > 0 THEN
+    v_discount := ROUND(v_inv.discount * LEAST(v_subtotal / v_inv.subtotal, 1), 2);
+  END IF;
+
+  SELECT COALESCE(SUM(
+           COALESCE(NULLIF(li->>'sellPrice', '')::numeric, 0) * COALESCE(NULLIF(li->>'quantity', '')::numeric, 1)
+         ), 0)
+    INTO v_invoice_taxable
+  FROM jsonb_array_elements(COALESCE(v_inv.items, '[]'::jsonb)) li
+  WHERE COALESCE((li->>'taxable')::boolean, true);
+
+  IF COALESCE(v_inv.tax, 0) > 0 AND v_invoice_taxable > 0 THEN
+    v_tax := ROUND(v_inv.tax * LEAST(v_taxable / v_invoice_taxable, 1), 2);
+  END IF;
+
+  v_total := ROUND(v_subtotal - v_discount + v_tax, 2);
+  IF v_total > v_inv.total - v_inv.amount_credited + 0.005 THEN
+    RAISE EXCEPTION 'Credit of % exceeds what remains creditable on invoice % (%)',
+      v_total, v_inv.invoice_number, v_inv.total - v_inv.amount_credited;
+  END IF;
+  IF _settlement = 'refund' AND v_inv.amount_paid < v_total - 0.005 THEN
+    RAISE EXCEPTION 'Only % has been paid on invoice %; apply the credit to the balance instead',
+      v_inv.amount_paid, v_inv.invoice_number;
+  END IF;
+
+  INSERT INTO public.credit_memos (
+    tenant_id, invoice_id, rma_id, customer_name,
+    items, subtotal, discount, tax, total, settlement, notes
+  ) VALUES (
+    v_rma.tenant_id, v_inv.id, _rma_id, v_inv.customer_name,
+    v_items, v_subtotal, v_discount, v_tax, v_total, _settlement, NULLIF(_notes, '')
+  )
+  RETURNING id, credit_memo_number INTO v_memo_id, v_number;
+
+  UPDATE public.invoices SET amount_credited = amount_credited + v_total WHERE id = v_inv.id;
+
+  PERFORM public.create_journal_entry(
+    v_rma.tenant_id, CURRENT_DATE, 'credit_memo', v_memo_id,
+    'Credit memo ' || v_number || ' for ' || v_inv.invoice_number,
+    jsonb_build_array(
+      jsonb_build_object('account_id', public.system_account_id(v_rma.tenant_id, 'sales_revenue'), 'amount', v_subtotal),
+      jsonb_build_object('account_id', public.system_account_id(v_rma.tenant_id, 'sales_discounts'), 'amount', -v_discount),
+      jsonb_build_object('account_id', public.system_account_id(v_rma.tenant_id, 'sales_tax_payable'), 'amount', v_tax),
+      jsonb_build_object('account_id', public.system_account_id(v_rma.tenant_id, 'accounts_receivable'), 'amount', -v_total)
+    )
+  );
+
+  IF _settlement = 'refund' THEN
+    INSERT INTO public.invoice_payments (tenant_id, invoice_id, amount, method, reference_number, notes)
+    VALUES (
+      v_rma.tenant_id, v_inv.id, -v_total, COALESCE(_refund_method, 'check'), v_number,
+      'Refund for credit memo ' || v_number
+    )
+    RETURNING id INTO v_payment_id;
+
+    UPDATE public.credit_memos SET refund_payment_id = v_payment_id WHERE id = v_memo_id;
+  END IF;
+
+  RETURN v_memo_id;
+END;
+$$;
@@ -0,0 +1,78 @@
+-- ============================================================
+-- Ledger backfill
+-- Documents finalized before the posting engine existed have no journal
+-- entries, and the financial statements read only the ledger. Post them
+-- once, each on its own date, skipping anything that is already posted so
+-- the migration can be re-run safely.
+-- ============================================================
+
+DO $$
+DECLARE
+  r record;
+BEGIN
+  FOR r IN
+    SELECT i.id FROM public.invoices i
+    WHERE COALESCE(i.status, 'finalized') = 'finalized'
+      AND NOT EXISTS (
+        SELECT 1 FROM public.journal_entries je
+        WHERE je.reference_type = 'invoice' AND je.reference_id = i.id
+      )
+    ORDER BY i.created_at
+  LOOP
+    PERFORM public.post_invoice_journal(r.id);
+  END LOOP;
+
+  FOR r IN
+    SELECT p.id FROM public.invoice_payments p
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.journal_entries je
+      WHERE je.reference_type = 'invoice_payment' AND je.reference_id = p.id
+    )
+    ORDER BY p.payment_date, p.created_at
+  LOOP
+    PERFORM public.post_invoice_payment_journal(r.id);
+  END LOOP;
+
+  FOR r IN
+    SELECT e.id FROM public.expenses e
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.journal_entries je
+      WHERE je.reference_type = 'expense' AND je.reference_id = e.id
+    )
+    ORDER BY e.expense_date, e.created_at
+  LOOP
+    PERFORM public.post_expense_journal(r.id);
+  END LOOP;
+
+  -- Older receipts have no record of the units they created, so they post
+  -- at the PO's unit costs. Orders marked received before line quantities
+  -- were tracked count as fully received.
+  FOR r IN
+    SELECT po.id, po.tenant_id, po.po_number, po.vendor_name,
+           COALESCE(po.updated_at, po.created_at)::date AS received_on,
+           SUM(
+             COALESCE(
+               (line->>'receivedQuantity')::numeric,
+               CASE WHEN po.status = 'received' THEN COALESCE((line->>'quantity')::numeric, 0) ELSE 0 END
+             ) * COALESCE((line->>'unitCost')::numeric, 0)
+           ) AS received_cost
+    FROM public.purchase_orders po
+    CROSS JOIN LATERAL jsonb_array_elements(COALESCE(po.items, '[]'::jsonb)) line
+    WHERE po.status IN ('partial', 'received')
+      AND NOT EXISTS (
+        SELECT 1 FROM public.journal_entries je
+        WHERE je.reference_type = 'po_receipt' AND je.reference_id = po.id
+      )
+    GROUP BY po.id
+  LOOP
+    CONTINUE WHEN ROUND(r.received_cost, 2) = 0;
+    PERFORM public.create_journal_entry(
+      r.tenant_id, r.received_on, 'po_receipt', r.id,
+      'Received ' || r.po_number || ' - ' || r.vendor_name,
+      jsonb_build_array(
+        jsonb_build_object('account_id', public.system_account_id(r.tenant_id, 'inventory'), 'amount', r.received_cost),
+        jsonb_build_object('account_id', public.system_account_id(r.tenant_id, 'accounts_payable'), 'amount', -r.received_cost)
+      )
+    );
+  END LOOP;
+END $$;
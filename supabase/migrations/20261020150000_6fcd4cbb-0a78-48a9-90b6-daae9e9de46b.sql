@@ -0,0 +1,126 @@
+-- ============================================================
+-- RMA lines: returns are checked against the invoice
+-- Lines used to be taken from the client as sent, so a line could name an
+-- item that was never on the invoice, return more than was sold (again and
+-- again across RMAs) or carry any price, and complete_rma / issue_credit_memo
+-- would restock and credit it. The unit, price and taxability now come from
+-- the invoice line, and the quantity is capped at what was sold less what
+-- other open or completed RMAs already return. Once written, only the
+-- inspection fields of a line can change.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.prepare_rma_line()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_rma public.rmas%ROWTYPE;
+  v_inv public.invoices%ROWTYPE;
+  v_sold integer;
+  v_price numeric;
+  v_taxable boolean;
+  v_description text;
+  v_returned integer;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    NEW.tenant_id := OLD.tenant_id;
+    NEW.rma_id := OLD.rma_id;
+    NEW.item_id := OLD.item_id;
+    NEW.part_number := OLD.part_number;
+    NEW.serial_number := OLD.serial_number;
+    NEW.description := OLD.description;
+    NEW.quantity := OLD.quantity;
+    NEW.unit_price := OLD.unit_price;
+    NEW.taxable := OLD.taxable;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_rma FROM public.rmas WHERE id = NEW.rma_id AND tenant_id = NEW.tenant_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'RMA not found';
+  END IF;
+
+  -- Serializes concurrent RMAs on the same invoice
+  SELECT * INTO v_inv FROM public.invoices
+  WHERE id = v_rma.invoice_id AND tenant_id = v_rma.tenant_id
+  FOR UPDATE;
+  IF NOT FOUND OR COALESCE(v_inv.status, 'finalized') <> 'finalized' THEN
+    RAISE EXCEPTION 'RMA % is not against a finalized invoice', v_rma.rma_number;
+  END IF;
+
+  NEW.serial_number := NULLIF(trim(COALESCE(NEW.serial_number, '')), '');
+
+  -- Same matching as the returnable lines on the RMA screen: by serial for
+  -- serialized units, else by item. An item on several lines returns at its
+  -- average invoiced price.
+  SELECT SUM(COALESCE(NULLIF(li->>'quantity', '')::integer, 1)),
+         ROUND(
+           SUM(COALESCE(NULLIF(li->>'sellPrice', '')::numeric, 0) * COALESCE(NULLIF(li->>'quantity', '')::integer, 1))
+             / NULLIF(SUM(COALESCE(NULLIF(li->>'quantity', '')::integer, 1)), 0),
+           2
+         ),
+         bool_and(COALESCE((li->>'taxable')::boolean, true)),
+         MAX(COALESCE(li->>'description', li->>'partNumber')),
+         MAX(li->>'partNumber'),
+         MAX(li->>'id')::uuid
+    INTO v_sold, v_price, v_taxable, v_description, NEW.part_number, NEW.item_id
+  FROM jsonb_array_elements(COALESCE(v_inv.items, '[]'::jsonb)) li
+  WHERE NULLIF(li->>'id', '') IS NOT NULL
+    AND CASE WHEN NEW.serial_number IS NOT NULL
+      THEN li->>'serialNumber' = NEW.serial_number AND li->>'partNumber' = NEW.part_number
+      ELSE li->>'id' = NEW.item_id::text AND NULLIF(li->>'serialNumber', '') IS NULL
+    END;
+
+  IF v_sold IS NULL THEN
+    RAISE EXCEPTION '% % is not on invoice %',
+      NEW.part_number, COALESCE(NEW.serial_number, ''), v_inv.invoice_number;
+  END IF;
+
+  SELECT COALESCE(SUM(l.quantity), 0) INTO v_returned
+  FROM public.rma_lines l
+  JOIN public.rmas r ON r.id = l.rma_id
+  WHERE r.invoice_id = v_inv.id
+    AND r.tenant_id = v_inv.tenant_id
+    AND r.status <> 'cancelled'
+    AND CASE WHEN NEW.serial_number IS NOT NULL
+      THEN l.serial_number = NEW.serial_number AND l.part_number = NEW.part_number
+      ELSE l.item_id = NEW.item_id AND l.serial_number IS NULL
+    END;
+
+  IF NEW.quantity > v_sold - v_returned THEN
+    RAISE EXCEPTION 'Only % of % % can still be returned on invoice %',
+      GREATEST(v_sold - v_returned, 0), NEW.part_number, COALESCE(NEW.serial_number, ''), v_inv.invoice_number;
+  END IF;
+
+  NEW.unit_price := v_price;
+  NEW.taxable := v_taxable;
+  NEW.description := COALESCE(NULLIF(NEW.description, ''), v_description);
+  NEW.unit_cost := NULL;
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.prepare_rma_line() FROM anon, authenticated, PUBLIC;
+
+CREATE TRIGGER trg_rma_lines_prepare
+BEFORE INSERT OR UPDATE ON public.rma_lines
+FOR EACH ROW EXECUTE FUNCTION public.prepare_rma_line();
+
+-- The lines were checked against this invoice, so it can't be swapped out
+CREATE OR REPLACE FUNCTION public.keep_rma_invoice()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.invoice_id := OLD.invoice_id;
+  NEW.tenant_id := OLD.tenant_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_rmas_keep_invoice
+BEFORE UPDATE OF invoice_id, tenant_id ON public.rmas
+FOR EACH ROW EXECUTE FUNCTION public.keep_rma_invoice();
@@ -0,0 +1,102 @@
+-- ============================================================
+-- Sales order shipments in one transaction
+-- Shipping used to create and finalize the invoice from the browser and only
+-- then record the shipment, deleting the invoice again if that failed. A
+-- failure in between left a finalized invoice with nothing shipped, and every
+-- clean-up used up an invoice number. The invoice and the shipment are now
+-- written together, or not at all.
+--
+-- _lines: [{ "lineId": uuid, "quantity": int }]. Tax is worked out by the
+-- client from its jurisdictions, as on every other invoice; prices, the
+-- discount share and shipping come from the order.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.ship_sales_order(
+  _sales_order_id uuid,
+  _lines jsonb,
+  _tax numeric DEFAULT 0,
+  _tax_details jsonb DEFAULT '[]'::jsonb,
+  _tax_exempt_certificate text DEFAULT NULL,
+  _carrier text DEFAULT NULL,
+  _tracking_number text DEFAULT NULL
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_order public.sales_orders%ROWTYPE;
+  v_items jsonb;
+  v_subtotal numeric;
+  v_order_subtotal numeric;
+  v_discount numeric := 0;
+  v_shipping numeric := 0;
+  v_tax numeric := ROUND(COALESCE(_tax, 0), 2);
+  v_invoice_id uuid;
+  v_invoice_number text;
+BEGIN
+  SELECT * INTO v_order FROM public.sales_orders WHERE id = _sales_order_id FOR UPDATE;
+  IF NOT FOUND OR NOT has_tenant_role(v_order.tenant_id, auth.uid(), ARRAY['owner','employee','developer']::app_role[]) THEN
+    RAISE EXCEPTION 'Sales order not found';
+  END IF;
+  IF v_order.status NOT IN ('open', 'partially_shipped') THEN
+    RAISE EXCEPTION 'Sales order % is %', v_order.order_number, v_order.status;
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object(
+           'id', COALESCE(l.item_id::text, ''),
+           'partNumber', l.part_number,
+           'serialNumber', l.serial_number,
+           'description', COALESCE(l.description, ''),
+           'sellPrice', l.unit_price,
+           'quantity', (e->>'quantity')::integer,
+           'taxable', l.taxable
+         ) ORDER BY l.line_number),
+         ROUND(COALESCE(SUM(l.unit_price * (e->>'quantity')::integer), 0), 2)
+    INTO v_items, v_subtotal
+  FROM jsonb_array_elements(COALESCE(_lines, '[]'::jsonb)) e
+  JOIN public.sales_order_lines l
+    ON l.id = (e->>'lineId')::uuid AND l.sales_order_id = _sales_order_id
+  WHERE COALESCE((e->>'quantity')::integer, 0) > 0;
+
+  IF v_items IS NULL THEN
+    RAISE EXCEPTION 'Choose at least one line to ship';
+  END IF;
+
+  -- The discount is spread over shipments by value; shipping goes on the first
+  SELECT COALESCE(SUM(unit_price * quantity), 0) INTO v_order_subtotal
+  FROM public.sales_order_lines WHERE sales_order_id = _sales_order_id;
+  IF v_order_subtotal > 0 THEN
+    v_discount := ROUND(v_order.discount * (v_subtotal / v_order_subtotal), 2);
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM public.sales_order_shipments WHERE sales_order_id = _sales_order_id) THEN
+    v_shipping := v_order.shipping;
+  END IF;
+
+  INSERT INTO public.invoices (
+    tenant_id, customer_name, customer_email, customer_phone, customer_address,
+    ship_to_name, ship_to_address, salesman_name, items, subtotal, discount, shipping,
+    tax, tax_details, tax_exempt_certificate, notes, total, status, source_quote_id, sales_order_id
+  ) VALUES (
+    v_order.tenant_id, v_order.customer_name, v_order.customer_email, v_order.customer_phone, v_order.customer_address,
+    v_order.ship_to_name, v_order.ship_to_address, v_order.salesman_name, v_items, v_subtotal, v_discount, v_shipping,
+    v_tax, COALESCE(_tax_details, '[]'::jsonb), NULLIF(trim(COALESCE(_tax_exempt_certificate, '')), ''),
+    'Sales order ' || v_order.order_number || COALESCE(E'\n' || NULLIF(v_order.notes, ''), ''),
+    ROUND(v_subtotal - v_discount + v_shipping + v_tax, 2), 'finalized', v_order.source_quote_id, _sales_order_id
+  )
+  RETURNING id, invoice_number INTO v_invoice_id, v_invoice_number;
+
+  PERFORM public.sync_invoice_stock(v_invoice_id);
+  PERFORM public.record_sales_order_shipment(
+    _sales_order_id, v_invoice_id, _lines, _carrier, _tracking_number
+  );
+
+  RETURN v_invoice_number;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.ship_sales_order(uuid, jsonb, numeric, jsonb, text, text, text) TO authenticated;
+
+-- Only reachable through ship_sales_order now
+REVOKE EXECUTE ON FUNCTION public.record_sales_order_shipment(uuid, uuid, jsonb, text, text) FROM anon, authenticated, PUBLIC;
@@ -0,0 +1,58 @@
+-- ============================================================
+-- Opportunities: keep quote links and wins inside the tenant
+-- The win trigger followed the invoice's source_quote_id without checking
+-- tenants, so an invoice pointing at another tenant's quote closed that
+-- tenant's opportunity as won. A quote can now only be attached to an
+-- opportunity of its own tenant, and the win only follows same-tenant links.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.win_opportunity_from_invoice()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.opportunities o
+  SET stage = 'won'
+  FROM public.quotes q
+  WHERE q.id = NEW.source_quote_id
+    AND q.tenant_id = NEW.tenant_id
+    AND o.id = q.opportunity_id
+    AND o.tenant_id = NEW.tenant_id
+    AND o.stage <> 'won';
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.check_quote_opportunity()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.opportunity_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.opportunities
+    WHERE id = NEW.opportunity_id AND tenant_id = NEW.tenant_id
+  ) THEN
+    RAISE EXCEPTION 'Opportunity not found';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_quote_opportunity() FROM anon, authenticated, PUBLIC;
+
+CREATE TRIGGER trg_quotes_check_opportunity
+BEFORE INSERT OR UPDATE OF opportunity_id, tenant_id ON public.quotes
+FOR EACH ROW EXECUTE FUNCTION public.check_quote_opportunity();
+
+-- Links made before this check
+UPDATE public.quotes q
+SET opportunity_id = NULL
+WHERE q.opportunity_id IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM public.opportunities o
+    WHERE o.id = q.opportunity_id AND o.tenant_id = q.tenant_id
+  );
@@ -0,0 +1,53 @@
+-- ============================================================
+-- Contact links: keep them inside the tenant
+-- The document and activity triggers copied the company of whatever
+-- person_id they were given, so a contact id from another tenant brought
+-- that tenant's company along. A contact from another tenant is now
+-- rejected, and the company is only read from the same tenant.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.set_document_person()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (TG_OP = 'INSERT' AND NEW.person_id IS NULL)
+     OR (TG_OP = 'UPDATE'
+         AND (NEW.customer_name IS DISTINCT FROM OLD.customer_name
+              OR NEW.customer_email IS DISTINCT FROM OLD.customer_email)
+         AND NEW.person_id IS NOT DISTINCT FROM OLD.person_id) THEN
+    NEW.person_id := public.match_customer_person(NEW.tenant_id, NEW.customer_name, NEW.customer_email);
+  ELSIF NEW.person_id IS NOT NULL
+     AND (TG_OP = 'INSERT' OR NEW.person_id IS DISTINCT FROM OLD.person_id)
+     AND NOT EXISTS (SELECT 1 FROM public.people WHERE id = NEW.person_id AND tenant_id = NEW.tenant_id) THEN
+    RAISE EXCEPTION 'Contact not found';
+  END IF;
+
+  IF NEW.company_id IS NULL AND NEW.person_id IS NOT NULL THEN
+    SELECT company_id INTO NEW.company_id FROM public.people
+    WHERE id = NEW.person_id AND tenant_id = NEW.tenant_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_activity_company()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.person_id IS NOT NULL
+     AND (TG_OP = 'INSERT' OR NEW.person_id IS DISTINCT FROM OLD.person_id) THEN
+    IF NOT EXISTS (SELECT 1 FROM public.people WHERE id = NEW.person_id AND tenant_id = NEW.tenant_id) THEN
+      RAISE EXCEPTION 'Contact not found';
+    END IF;
+    SELECT company_id INTO NEW.company_id FROM public.people
+    WHERE id = NEW.person_id AND tenant_id = NEW.tenant_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
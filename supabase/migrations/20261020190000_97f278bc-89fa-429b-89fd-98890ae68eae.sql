@@ -0,0 +1,38 @@
+-- ============================================================
+-- Document numbering: explicit numbers must be reserved
+-- Any non-blank number was kept as sent, so a client could take a future
+-- number such as INV-2026-0042. When the counter got there the insert hit
+-- the unique constraint, and every later document of that type failed on
+-- the same value. An explicit number is now only accepted when it is an
+-- open reservation of the same tenant and document type.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.assign_document_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_type text := TG_ARGV[0];
+  v_column text := TG_ARGV[1];
+  v_number text := to_jsonb(NEW) ->> v_column;
+BEGIN
+  IF COALESCE(trim(v_number), '') = '' THEN
+    NEW := jsonb_populate_record(NEW, jsonb_build_object(
+      v_column, public.allocate_document_number(NEW.tenant_id, v_type)
+    ));
+  ELSE
+    UPDATE public.document_number_reservations
+    SET status = 'used', used_at = now()
+    WHERE tenant_id = NEW.tenant_id
+      AND document_type = v_type
+      AND document_number = v_number
+      AND status IN ('reserved', 'released');
+    IF NOT FOUND THEN
+      RAISE EXCEPTION '% is not a reserved number; leave it blank to take the next one', v_number;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;